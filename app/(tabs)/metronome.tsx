@@ -4,11 +4,36 @@ import { ThemedView } from '@/components/ThemedView';
 import { MetronomeControls } from '@/components/metronome/MetronomeControls';
 import { useSoundSystem } from '@/contexts/SoundSystemContext';
 import { useAudioPermission } from '@/hooks/useAudioPermission';
+import { useTempoTrainer } from '@/hooks/useTempoTrainer';
 import { useAppTheme } from '@/theme/AppTheme';
+import {
+  AccentPattern,
+  cycleAccentLevel,
+  getAccentLevel,
+  getDefaultAccentLevel,
+  setAccentLevel,
+} from '@/utils/accentPattern';
+import { CountInSettings, normalizeCountIn } from '@/utils/countIn';
+import { GapTrainerSettings, normalizeGapTrainer } from '@/utils/gapTrainer';
+import { TimeSignature } from '@/utils/meterGrouping';
+import { normalizeLayer, RhythmLayer } from '@/utils/rhythmLayers';
+import {
+  MetronomeBeatPayload,
+  MetronomeLayerPulsePayload,
+  soundSystemEvents,
+  SoundSystemEventType
+} from '@/utils/SoundSystemEvents';
+import { normalizeSwing, STRAIGHT_SWING } from '@/utils/swing';
+import {
+  getTrainerStepsAt,
+  getTrainerTempo,
+  normalizeTempoTrainer,
+  TempoTrainerSettings,
+} from '@/utils/tempoTrainer';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useFocusEffect } from '@react-navigation/native';
-import React, { useEffect, useState } from 'react';
-import { StyleSheet } from 'react-native';
+import React, { useEffect, useRef, useState } from 'react';
+import { Alert, StyleSheet } from 'react-native';
 
 export default function MetronomeScreen() {
   const { soundSystemRef, setCurrentMode } = useSoundSystem();
@@ -18,11 +43,25 @@ export default function MetronomeScreen() {
 
   // Metronome state
   const [bpm, setBpm] = useState(120);
-  const [timeSignature, setTimeSignature] = useState({ numerator: 4, denominator: 4 });
+  const [timeSignature, setTimeSignature] = useState<TimeSignature>({ numerator: 4, denominator: 4 });
   const [soundType, setSoundType] = useState('synth');
   const [isPlaying, setIsPlaying] = useState(false);
   const [subdivision, setSubdivision] = useState(1);
+  // The metronome starts straight away unless a count-in is turned on
+  const [countIn, setCountIn] = useState<CountInSettings>(normalizeCountIn({ enabled: false }));
+  // Per-beat and subdivision accent levels; undefined plays the meter's default accents
+  const [accents, setAccents] = useState<AccentPattern | undefined>(undefined);
+  const [swing, setSwing] = useState(STRAIGHT_SWING);
+  // Polyrhythm and polymeter layers over the main beat
+  const [layers, setLayers] = useState<RhythmLayer[]>([]);
   const [currentBeat, setCurrentBeat] = useState(0);
+  const [currentBar, setCurrentBar] = useState<number | null>(null); // for the tempo trainer's bar steps
+  const [currentLayerPulses, setCurrentLayerPulses] = useState<Record<string, number>>({});
+  // Automatic tempo ramps while playing; off until turned on
+  const [tempoTrainer, setTempoTrainer] = useState<TempoTrainerSettings>(normalizeTempoTrainer(undefined));
+  // Silent bars and random gaps for internal time practice
+  const [gapTrainer, setGapTrainer] = useState<GapTrainerSettings>(normalizeGapTrainer(undefined));
+  const [isSilent, setIsSilent] = useState(false);
 
   // Tap BPM state
   const [tapTimes, setTapTimes] = useState<number[]>([]);
@@ -34,10 +73,16 @@ export default function MetronomeScreen() {
     }
   }, [hasPermission]);
 
-  // Load sound type and bpm from storage on component mount
+  // Load sound type, bpm, count-in, accents, swing, layers and trainers from storage on component mount
   useEffect(() => {
     loadSoundType();
     loadBpm();
+    loadCountIn();
+    loadAccents();
+    loadSwing();
+    loadLayers();
+    loadTempoTrainer();
+    loadGapTrainer();
   }, []);
 
   // Set mode when component mounts and handle focus/blur
@@ -57,32 +102,44 @@ export default function MetronomeScreen() {
     }, [setCurrentMode, soundSystemRef, isPlaying])
   );
 
-  // Handle beat events from SoundSystem
+  // Beats and layer pulses as the SoundSystem plays them
   useEffect(() => {
-    if (!soundSystemRef.current) return;
-
-    // This would be implemented with the event system
-    // For now, we'll simulate beat updates
-    let beatInterval: NodeJS.Timeout | null = null;
+    const subscription = soundSystemEvents.addListener((event) => {
+      switch (event.type) {
+        case SoundSystemEventType.METRONOME_BEAT: {
+          const beat = event.payload as MetronomeBeatPayload;
+          setCurrentBeat(beat.beatNumber);
+          setCurrentBar(beat.barNumber);
+          setIsSilent(beat.isSilent);
+          break;
+        }
+        case SoundSystemEventType.METRONOME_LAYER_PULSE: {
+          const pulse = event.payload as MetronomeLayerPulsePayload;
+          setCurrentLayerPulses(current => ({ ...current, [pulse.layerId]: pulse.pulseIndex }));
+          break;
+        }
+        case SoundSystemEventType.METRONOME_STARTED:
+          setIsPlaying(true);
+          break;
+        case SoundSystemEventType.METRONOME_STOPPED:
+          // Also stopped when a show starts playing
+          setIsPlaying(false);
+          break;
+      }
+    });
 
-    if (isPlaying) {
-      const beatDuration = 60000 / (bpm * (4 / timeSignature.denominator));
-      let beatCount = 0;
+    return () => subscription.remove();
+  }, []);
 
-      beatInterval = setInterval(() => {
-        beatCount = (beatCount % timeSignature.numerator) + 1;
-        setCurrentBeat(beatCount);
-      }, beatDuration);
-    } else {
+  // Clear the beat display when the metronome stops
+  useEffect(() => {
+    if (!isPlaying) {
       setCurrentBeat(0);
+      setCurrentBar(null);
+      setIsSilent(false);
+      setCurrentLayerPulses({});
     }
-
-    return () => {
-      if (beatInterval) {
-        clearInterval(beatInterval);
-      }
-    };
-  }, [isPlaying, bpm, timeSignature, soundSystemRef]);
+  }, [isPlaying]);
 
   const openSettings = () => {
     setSettingsVisible(true);
@@ -119,6 +176,203 @@ export default function MetronomeScreen() {
     }
   };
 
+  const loadCountIn = async () => {
+    try {
+      const savedCountIn = await AsyncStorage.getItem('metMaestro_countIn');
+      if (savedCountIn) {
+        setCountIn(normalizeCountIn(JSON.parse(savedCountIn)));
+        console.log('Loaded count-in:', savedCountIn);
+      }
+    } catch (error) {
+      console.error('Error loading count-in:', error);
+    }
+  };
+
+  const handleCountInChange = async (newCountIn: CountInSettings) => {
+    // Applies from the next start; a running metronome is already counted in
+    setCountIn(newCountIn);
+    try {
+      await AsyncStorage.setItem('metMaestro_countIn', JSON.stringify(newCountIn));
+      console.log('Saved count-in:', newCountIn);
+    } catch (error) {
+      console.error('Error saving count-in:', error);
+    }
+  };
+
+  const loadAccents = async () => {
+    try {
+      const savedAccents = await AsyncStorage.getItem('metMaestro_accents');
+      if (savedAccents) {
+        setAccents(JSON.parse(savedAccents));
+        console.log('Loaded accents:', savedAccents);
+      }
+    } catch (error) {
+      console.error('Error loading accents:', error);
+    }
+  };
+
+  // Cycle one beat or subdivision click through accent, normal, ghost and mute
+  const handleAccentPress = async (beatIndex: number, subdivisionIndex: number) => {
+    const currentLevel = getAccentLevel(
+      accents,
+      beatIndex,
+      subdivisionIndex,
+      getDefaultAccentLevel(timeSignature, beatIndex)
+    );
+    const newAccents = setAccentLevel(accents, timeSignature, beatIndex, subdivisionIndex, cycleAccentLevel(currentLevel));
+    setAccents(newAccents);
+    if (isPlaying && soundSystemRef.current) {
+      soundSystemRef.current.updateMetronomeSettings({ accents: newAccents });
+    }
+    try {
+      await AsyncStorage.setItem('metMaestro_accents', JSON.stringify(newAccents));
+      console.log('Saved accents:', newAccents);
+    } catch (error) {
+      console.error('Error saving accents:', error);
+    }
+  };
+
+  const loadSwing = async () => {
+    try {
+      const savedSwing = await AsyncStorage.getItem('metMaestro_swing');
+      if (savedSwing) {
+        setSwing(normalizeSwing(Number(savedSwing)));
+        console.log('Loaded swing:', savedSwing);
+      }
+    } catch (error) {
+      console.error('Error loading swing:', error);
+    }
+  };
+
+  const handleSwingChange = async (newSwing: number) => {
+    setSwing(newSwing);
+    if (isPlaying && soundSystemRef.current) {
+      soundSystemRef.current.updateMetronomeSettings({ swing: newSwing });
+    }
+    try {
+      await AsyncStorage.setItem('metMaestro_swing', newSwing.toString());
+      console.log('Saved swing:', newSwing);
+    } catch (error) {
+      console.error('Error saving swing:', error);
+    }
+  };
+
+  const loadLayers = async () => {
+    try {
+      const savedLayers = await AsyncStorage.getItem('metMaestro_layers');
+      if (savedLayers) {
+        setLayers(JSON.parse(savedLayers).map(normalizeLayer));
+        console.log('Loaded layers:', savedLayers);
+      }
+    } catch (error) {
+      console.error('Error loading layers:', error);
+    }
+  };
+
+  const handleLayersChange = async (newLayers: RhythmLayer[]) => {
+    setLayers(newLayers);
+    if (isPlaying && soundSystemRef.current) {
+      soundSystemRef.current.updateMetronomeSettings({ layers: newLayers });
+    }
+    try {
+      await AsyncStorage.setItem('metMaestro_layers', JSON.stringify(newLayers));
+      console.log('Saved layers:', newLayers);
+    } catch (error) {
+      console.error('Error saving layers:', error);
+    }
+  };
+
+  const loadTempoTrainer = async () => {
+    try {
+      const savedTrainer = await AsyncStorage.getItem('metMaestro_tempoTrainer');
+      if (savedTrainer) {
+        setTempoTrainer(normalizeTempoTrainer(JSON.parse(savedTrainer)));
+        console.log('Loaded tempo trainer:', savedTrainer);
+      }
+    } catch (error) {
+      console.error('Error loading tempo trainer:', error);
+    }
+  };
+
+  const handleTempoTrainerChange = async (newTrainer: TempoTrainerSettings) => {
+    setTempoTrainer(newTrainer);
+    try {
+      await AsyncStorage.setItem('metMaestro_tempoTrainer', JSON.stringify(newTrainer));
+      console.log('Saved tempo trainer:', newTrainer);
+    } catch (error) {
+      console.error('Error saving tempo trainer:', error);
+    }
+  };
+
+  const loadGapTrainer = async () => {
+    try {
+      const savedGapTrainer = await AsyncStorage.getItem('metMaestro_gapTrainer');
+      if (savedGapTrainer) {
+        setGapTrainer(normalizeGapTrainer(JSON.parse(savedGapTrainer)));
+        console.log('Loaded gap trainer:', savedGapTrainer);
+      }
+    } catch (error) {
+      console.error('Error loading gap trainer:', error);
+    }
+  };
+
+  const handleGapTrainerChange = async (newGapTrainer: GapTrainerSettings) => {
+    setGapTrainer(newGapTrainer);
+    if (isPlaying && soundSystemRef.current) {
+      soundSystemRef.current.updateMetronomeSettings({ gapTrainer: newGapTrainer });
+    }
+    try {
+      await AsyncStorage.setItem('metMaestro_gapTrainer', JSON.stringify(newGapTrainer));
+      console.log('Saved gap trainer:', newGapTrainer);
+    } catch (error) {
+      console.error('Error saving gap trainer:', error);
+    }
+  };
+
+  // Trainer steps change the running tempo; it is saved when playback stops
+  const applyTrainerTempo = (newBpm: number) => {
+    setBpm(newBpm);
+    if (soundSystemRef.current) {
+      soundSystemRef.current.updateMetronomeSettings({ bpm: newBpm });
+    }
+  };
+
+  const trainer = useTempoTrainer({
+    settings: tempoTrainer,
+    isPlaying,
+    currentBar,
+    bpm,
+    onTempoChange: applyTrainerTempo,
+  });
+
+  // Keep the trained tempo so the next session resumes where this one left off
+  const saveTrainedBpm = async (trainedBpm: number) => {
+    try {
+      await AsyncStorage.setItem('metMaestro_bpm', trainedBpm.toString());
+      console.log('Saved trained BPM:', trainedBpm);
+    } catch (error) {
+      console.error('Error saving trained BPM:', error);
+    }
+  };
+
+  // Save once playback ends, whether stopped here or by leaving the screen
+  const wasPlayingRef = useRef(false);
+  useEffect(() => {
+    if (wasPlayingRef.current && !isPlaying && tempoTrainer.enabled) {
+      saveTrainedBpm(bpm);
+    }
+    wasPlayingRef.current = isPlaying;
+  }, [isPlaying, bpm, tempoTrainer.enabled]);
+
+  const handleTrainerReset = () => {
+    if (isPlaying) {
+      trainer.restart();
+    } else {
+      setBpm(tempoTrainer.startBpm);
+      saveTrainedBpm(tempoTrainer.startBpm);
+    }
+  };
+
   const handleSoundChange = async (newSoundType: string) => {
     try {
       await AsyncStorage.setItem('metMaestro_soundType', newSoundType);
@@ -148,12 +402,7 @@ export default function MetronomeScreen() {
       console.log('Saved BPM:', newBpm);
 
       if (isPlaying && soundSystemRef.current) {
-        soundSystemRef.current.updateMetronomeSettings({
-          bpm: newBpm,
-          timeSignature,
-          soundType,
-          subdivision
-        });
+        soundSystemRef.current.updateMetronomeSettings({ bpm: newBpm });
       }
     } catch (error) {
       console.error('Error saving BPM:', error);
@@ -161,50 +410,58 @@ export default function MetronomeScreen() {
       setBpm(newBpm);
 
       if (isPlaying && soundSystemRef.current) {
-        soundSystemRef.current.updateMetronomeSettings({
-          bpm: newBpm,
-          timeSignature,
-          soundType,
-          subdivision
-        });
+        soundSystemRef.current.updateMetronomeSettings({ bpm: newBpm });
       }
     }
   };
 
-  const handleTimeSignatureChange = (newTimeSignature: { numerator: number; denominator: number }) => {
+  const handleTimeSignatureChange = (newTimeSignature: TimeSignature) => {
     setTimeSignature(newTimeSignature);
     if (isPlaying && soundSystemRef.current) {
-      soundSystemRef.current.updateMetronomeSettings({
-        bpm,
-        timeSignature: newTimeSignature,
-        soundType,
-        subdivision
-      });
+      soundSystemRef.current.updateMetronomeSettings({ timeSignature: newTimeSignature });
     }
   };
 
   const handleSubdivisionChange = (newSubdivision: number) => {
     setSubdivision(newSubdivision);
     if (isPlaying && soundSystemRef.current) {
-      soundSystemRef.current.updateMetronomeSettings({
-        bpm,
-        timeSignature,
-        soundType,
-        subdivision: newSubdivision
-      });
+      soundSystemRef.current.updateMetronomeSettings({ subdivision: newSubdivision });
     }
   };
 
-  const handlePlayPause = () => {
+  const handlePlayPause = async () => {
     if (isPlaying) {
       // Stop metronome
       soundSystemRef.current?.stopMetronome();
       setIsPlaying(false);
       setCurrentBeat(0);
     } else {
-      // Start metronome
-      soundSystemRef.current?.startMetronome(bpm, timeSignature, soundType);
-      setIsPlaying(true);
+      // Start metronome; the trainer resumes from the current tempo, or its start
+      const startBpm = tempoTrainer.enabled
+        ? getTrainerTempo(tempoTrainer, getTrainerStepsAt(tempoTrainer, bpm))
+        : bpm;
+      setBpm(startBpm);
+      // METRONOME_STARTED marks it as playing once the audio runs
+      if (!soundSystemRef.current) return;
+      try {
+        await soundSystemRef.current.startMetronome({
+          bpm: startBpm,
+          timeSignature,
+          soundType,
+          countIn,
+          accents,
+          swing,
+          layers,
+          gapTrainer,
+          subdivision
+        });
+      } catch (error) {
+        Alert.alert(
+          'Playback Error',
+          `The metronome could not be started: ${error instanceof Error ? error.message : error}`,
+          [{ text: 'OK' }]
+        );
+      }
     }
   };
 
@@ -237,12 +494,27 @@ export default function MetronomeScreen() {
         bpm={bpm}
         onBpmChange={handleBpmChange}
         onTapBpm={handleTapBpm}
+        tempoTrainer={tempoTrainer}
+        onTempoTrainerChange={handleTempoTrainerChange}
+        trainerProgress={trainer.progress}
+        trainerFinished={trainer.finished}
+        onTrainerReset={handleTrainerReset}
         isPlaying={isPlaying}
         onPlayPause={handlePlayPause}
         subdivision={subdivision}
         onSubdivisionChange={handleSubdivisionChange}
+        swing={swing}
+        onSwingChange={handleSwingChange}
         soundType={soundType}
         onSoundChange={handleSoundChange}
+        accents={accents}
+        onAccentPress={handleAccentPress}
+        layers={layers}
+        onLayersChange={handleLayersChange}
+        currentLayerPulses={currentLayerPulses}
+        gapTrainer={gapTrainer}
+        onGapTrainerChange={handleGapTrainerChange}
+        isSilent={isSilent}
         currentBeat={currentBeat}
         onOpenSettings={openSettings}
       />
@@ -252,6 +524,8 @@ export default function MetronomeScreen() {
           onClose={closeSettings}
           currentSound={soundType}
           onSoundChange={handleSoundChange}
+          countIn={countIn}
+          onCountInChange={handleCountInChange}
         />
       </SettingsModal>
     </ThemedView>
@@ -1,36 +1,99 @@
 import { SettingsModal } from '@/components/SettingsModal';
 import { SettingsPage } from '@/components/SettingsPage';
 import { ThemedView } from '@/components/ThemedView';
+import { ExportShowsModal } from '@/components/show/ExportShowsModal';
 import { PlaybackControls } from '@/components/show/PlaybackControls';
 import { PlaybackOptionsModal } from '@/components/show/PlaybackOptionsModal';
 import { ShowSelector } from '@/components/show/ShowSelector';
 import { ShowVisualizer } from '@/components/show/ShowVisualizer';
 import { useSoundSystem } from '@/contexts/SoundSystemContext';
 import { useAppTheme } from '@/theme/AppTheme';
+import { ShowViewResponse } from '@/types/MessageProtocol';
+import { AccentPattern } from '@/utils/accentPattern';
+import { createId } from '@/utils/ids';
+import { TimeSignature } from '@/utils/meterGrouping';
+import { createShowMidi } from '@/utils/midiExport';
+import { parseMidiTempoMap } from '@/utils/midiImport';
+import { parseMusicXml, readMusicXmlArchive } from '@/utils/musicXmlImport';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  createShowArchive,
+  createShowFile,
+  getShowFileName,
+  readShowArchive,
+  readShowFile,
+} from '@/utils/showFiles';
+import { getTotalMeasureCount } from '@/utils/showMeasures';
+import {
+  createStoredShows,
+  formatShowIssue,
+  migrateStoredShows,
+  SHOW_SCHEMA_VERSION,
+  validateShow,
+  validateShowDocument,
+  withNewIds,
+} from '@/utils/showSchema';
+import { CountInSettings } from '@/utils/countIn';
+import { MeasureMarkers } from '@/utils/showStructure';
+import { getPlaybackStartOptions, PlaybackOptionsForm } from '@/utils/showTimeline';
+import {
+  ShowMeasureCompletedPayload,
+  ShowStartedPayload,
+  soundSystemEvents,
+  SoundSystemEventType
+} from '@/utils/SoundSystemEvents';
+import { TempoChange } from '@/utils/tempoCurve';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useFocusEffect } from '@react-navigation/native';
 import * as DocumentPicker from 'expo-document-picker';
 import * as FileSystem from 'expo-file-system';
-import React, { useEffect, useState } from 'react';
+import * as Sharing from 'expo-sharing';
+import { strToU8 } from 'fflate';
+import React, { useEffect, useRef, useState } from 'react';
 import { Alert, StyleSheet } from 'react-native';
 
-// Show data structure
-interface Measure {
+// Show data structure. Structural markers (repeats, endings, jumps) are
+// unrolled into playback order by resolvePlaybackOrder.
+interface Measure extends MeasureMarkers {
   id: string;
-  timeSignature: { numerator: number; denominator: number };
-  tempo: number;
+  timeSignature: TimeSignature;
+  tempo: number; // start tempo when the measures carry a tempo change
   count: number; // number of measures
   letter?: string; // optional letter to signify different parts of the show
+  tempoChange?: TempoChange; // accel./rit. across all of the measures
+  accents?: AccentPattern; // per-beat accent levels, defaulting to the meter's accents
+  subdivision?: number; // clicks per beat, 1 when missing
+  swing?: number; // swing percent for eighths and sixteenths, straight when missing
 }
 
 interface Show {
   id: string;
   name: string;
   measures: Measure[];
+  countIn?: CountInSettings; // Defaults to a four-beat count-in when missing
   createdAt: string;
   updatedAt: string;
 }
 
+// A show file read for import: the show, or the problems that stop it importing
+interface ImportedShowDocument {
+  show: Show | null;
+  problems: string[];
+  warnings: string[];
+}
+
+// Problems listed in an alert are cut short after this many
+const MAX_LISTED_PROBLEMS = 10;
+
+function formatProblemList(problems: string[]): string {
+  const listed = problems.slice(0, MAX_LISTED_PROBLEMS).map(problem => `• ${problem}`);
+  if (problems.length > MAX_LISTED_PROBLEMS) {
+    listed.push(`• …and ${problems.length - MAX_LISTED_PROBLEMS} more`);
+  }
+  return listed.join('\n');
+}
+
 export default function ShowModeScreen() {
   const { soundSystemRef, setCurrentMode } = useSoundSystem();
   const themeColors = useAppTheme().colors;
@@ -40,18 +103,23 @@ export default function ShowModeScreen() {
   const [selectedShow, setSelectedShow] = useState<string>('');
   const [settingsVisible, setSettingsVisible] = useState(false);
   const [playbackOptionsVisible, setPlaybackOptionsVisible] = useState(false);
+  const [exportShowsVisible, setExportShowsVisible] = useState(false);
+  const [exportShowIds, setExportShowIds] = useState<string[]>([]); // shows ticked when the export modal opens
   const [currentSound, setCurrentSound] = useState('synth');
+  // Stored shows that failed validation; they are saved back unchanged so nothing is lost
+  const unreadableShows = useRef<unknown[]>([]);
 
   // Show playback state
   const [isPlaying, setIsPlaying] = useState(false);
+  const [isHolding, setIsHolding] = useState(false);
   const [currentMeasure, setCurrentMeasure] = useState(1);
 
   // Playback options state
-  const [playbackOptions, setPlaybackOptions] = useState({
-    startType: 'beginning' as 'beginning' | 'current' | 'specific',
+  const [playbackOptions, setPlaybackOptions] = useState<PlaybackOptionsForm>({
+    startType: 'beginning',
     startMeasure: '1',
     startLetter: '',
-    endType: 'end' as 'end' | 'specific',
+    endType: 'end',
     endMeasure: '1',
     endLetter: '',
   });
@@ -62,6 +130,31 @@ export default function ShowModeScreen() {
     loadSoundType();
   }, []);
 
+  // Follow playback as the SoundSystem plays it. Holds are reported on the
+  // measure completion stream; a hold lasts until the next completed measure
+  // or until playback stops
+  useEffect(() => {
+    const subscription = soundSystemEvents.addListener(event => {
+      if (event.type === SoundSystemEventType.SHOW_STARTED) {
+        const payload = event.payload as ShowStartedPayload;
+        setIsPlaying(true);
+        setCurrentMeasure(payload.startMeasure);
+      } else if (event.type === SoundSystemEventType.SHOW_MEASURE_COMPLETED) {
+        const payload = event.payload as ShowMeasureCompletedPayload;
+        setIsHolding(payload.pause?.type === 'hold');
+        setCurrentMeasure(payload.nextMeasureNumber);
+      } else if (event.type === SoundSystemEventType.SHOW_STOPPED) {
+        setIsHolding(false);
+        setIsPlaying(false);
+        setCurrentMeasure(1);
+      }
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, []);
+
   // Set mode when component mounts and handle focus/blur
   useFocusEffect(
     React.useCallback(() => {
@@ -73,6 +166,7 @@ export default function ShowModeScreen() {
         if (soundSystemRef.current && isPlaying) {
           soundSystemRef.current.stopShowPlayback();
           setIsPlaying(false);
+          setIsHolding(false);
           setCurrentMeasure(1);
         }
       };
@@ -83,8 +177,35 @@ export default function ShowModeScreen() {
     try {
       const showsData = await AsyncStorage.getItem('metMaestro_shows');
       if (showsData) {
-        const parsedShows = JSON.parse(showsData);
+        // Shows stored by older versions are upgraded, and saved back upgraded
+        const stored = migrateStoredShows(JSON.parse(showsData));
+        const parsedShows: Show[] = [];
+        const problems: string[] = [];
+        unreadableShows.current = [];
+        stored.shows.forEach((data, index) => {
+          const validation = validateShow(data);
+          if (validation.show) {
+            parsedShows.push(validation.show as Show);
+            return;
+          }
+          const name = (data as { name?: unknown } | null)?.name;
+          const label = typeof name === 'string' ? name : `Saved show ${index + 1}`;
+          unreadableShows.current.push(data);
+          problems.push(...validation.errors.map(issue => `${label}: ${formatShowIssue(issue)}`));
+        });
+        if (unreadableShows.current.length > 0) {
+          const count = unreadableShows.current.length;
+          Alert.alert(
+            'Shows Not Opened',
+            `${count === 1 ? 'A saved show' : `${count} saved shows`} could not be opened and ` +
+              `${count === 1 ? 'is' : 'are'} kept unchanged:\n${formatProblemList(problems)}`,
+            [{ text: 'OK' }]
+          );
+        }
         setShows(parsedShows);
+        if (stored.version < SHOW_SCHEMA_VERSION) {
+          await saveShows(parsedShows);
+        }
         // Select the first show if available
         if (parsedShows.length > 0 && !selectedShow) {
           setSelectedShow(parsedShows[0].id);
@@ -119,14 +240,14 @@ export default function ShowModeScreen() {
     const now = new Date().toISOString();
     return [
       {
-        id: '1',
+        id: createId(),
         name: 'Show 1',
         measures: [],
         createdAt: now,
         updatedAt: now
       },
       {
-        id: '2',
+        id: createId(),
         name: 'Show 2',
         measures: [],
         createdAt: now,
@@ -137,7 +258,10 @@ export default function ShowModeScreen() {
 
   const saveShows = async (showsToSave: Show[]) => {
     try {
-      await AsyncStorage.setItem('metMaestro_shows', JSON.stringify(showsToSave));
+      await AsyncStorage.setItem(
+        'metMaestro_shows',
+        JSON.stringify(createStoredShows([...showsToSave, ...unreadableShows.current]))
+      );
       console.log('Saved shows to storage');
     } catch (error) {
       console.error('Error saving shows:', error);
@@ -145,11 +269,11 @@ export default function ShowModeScreen() {
   };
 
   const handleAddShow = async () => {
-    const newShowId = (shows.length + 1).toString();
+    const newShowId = createId();
     const now = new Date().toISOString();
     const newShow: Show = {
       id: newShowId,
-      name: `Show ${newShowId}`,
+      name: `Show ${shows.length + 1}`,
       measures: [],
       createdAt: now,
       updatedAt: now
@@ -164,8 +288,19 @@ export default function ShowModeScreen() {
 
 
 
+  // Handlers are called with ids from the WebView and the UI; ids of shows
+  // that no longer exist are ignored rather than touching another show
+  const findShow = (showId: string, action: string): Show | undefined => {
+    const show = shows.find(s => s.id === showId);
+    if (!show) {
+      console.warn(`Ignoring ${action} for unknown show:`, showId);
+    }
+    return show;
+  };
+
   const handleRenameShow = async (showId: string, newName: string) => {
     console.log('handleRenameShow called with:', showId, newName);
+    if (!findShow(showId, 'rename')) return;
     const updatedShows = shows.map(show => 
       show.id === showId 
         ? { ...show, name: newName, updatedAt: new Date().toISOString() }
@@ -178,6 +313,21 @@ export default function ShowModeScreen() {
   };
 
   const handleUpdateShowMeasures = async (showId: string, measures: Measure[]) => {
+    const show = findShow(showId, 'measure update');
+    if (!show) return;
+    // Measures must still make a valid show, with every measure id used once
+    const { errors } = validateShow({ ...show, measures });
+    if (errors.length > 0) {
+      Alert.alert(
+        'Measures Not Saved',
+        `The changes to "${show.name}" were not saved:\n${formatProblemList(errors.map(formatShowIssue))}`,
+        [{ text: 'OK' }]
+      );
+      // Send the saved measures back so the editor drops the rejected change
+      setShows(current => [...current]);
+      return;
+    }
+
     const updatedShows = shows.map(show => 
       show.id === showId 
         ? { ...show, measures, updatedAt: new Date().toISOString() }
@@ -188,23 +338,86 @@ export default function ShowModeScreen() {
     console.log('Updated measures for show:', showId);
   };
 
+  const handleUpdateShowCountIn = async (showId: string, countIn: CountInSettings) => {
+    if (!findShow(showId, 'count-in update')) return;
+    const updatedShows = shows.map(show =>
+      show.id === showId
+        ? { ...show, countIn, updatedAt: new Date().toISOString() }
+        : show
+    );
+    setShows(updatedShows);
+    await saveShows(updatedShows);
+    console.log('Updated count-in for show:', showId);
+  };
+
   const handleDeleteShow = async (showId: string) => {
+    if (!findShow(showId, 'delete')) return;
     const updatedShows = shows.filter(show => show.id !== showId);
     setShows(updatedShows);
-    if (selectedShow === showId && updatedShows.length > 0) {
-      setSelectedShow(updatedShows[0].id);
+    if (selectedShow === showId) {
+      setSelectedShow(updatedShows.length > 0 ? updatedShows[0].id : '');
     }
     await saveShows(updatedShows);
     console.log('Deleted show:', showId);
   };
 
+  // A new show from measures read out of a MIDI or MusicXML file, validated
+  // like a show file
+  const createImportedShow = (name: string, measures: Omit<Measure, 'id'>[]): ImportedShowDocument => {
+    const now = new Date().toISOString();
+    const validation = validateShow({
+      id: createId(),
+      name,
+      measures: measures.map(measure => ({ ...measure, id: createId() })),
+      createdAt: now,
+      updatedAt: now,
+    });
+    if (!validation.show) {
+      return { show: null, problems: validation.errors.map(formatShowIssue), warnings: [] };
+    }
+    return { show: validation.show as Show, problems: [], warnings: validation.warnings.map(formatShowIssue) };
+  };
+
+  // A show from the contents of a show file, upgraded to the current schema and
+  // validated; it gets new ids so it cannot collide with an existing show
+  const readShowDocument = (fileContent: string): ImportedShowDocument => {
+    let data: unknown;
+    try {
+      data = JSON.parse(fileContent);
+    } catch (parseError) {
+      console.error('Error parsing imported file:', parseError);
+      return { show: null, problems: ['The file is not a JSON show file'], warnings: [] };
+    }
+
+    const file = readShowFile(data);
+    const validation = validateShowDocument(file.show, file.version);
+    const warnings = validation.warnings.map(formatShowIssue);
+    if (!validation.show) {
+      return { show: null, problems: validation.errors.map(formatShowIssue), warnings };
+    }
+    return {
+      show: { ...withNewIds(validation.show as Show), updatedAt: new Date().toISOString() },
+      problems: [],
+      warnings,
+    };
+  };
+
   const handleImportShow = async () => {
     try {
-      // Pick a JSON file - try with specific MIME type first
+      // Pick a show file, show archive, MIDI or MusicXML file - try with specific MIME types first
       let result;
       try {
         result = await DocumentPicker.getDocumentAsync({
-          type: 'application/json',
+          type: [
+            'application/json',
+            'audio/midi',
+            'audio/x-midi',
+            'application/vnd.recordare.musicxml+xml',
+            'application/vnd.recordare.musicxml',
+            'application/xml',
+            'text/xml',
+            'application/zip',
+          ],
           copyToCacheDirectory: true,
         });
       } catch (error) {
@@ -218,50 +431,136 @@ export default function ShowModeScreen() {
         return;
       }
 
-      const fileUri = result.assets[0].uri;
-      const fileContent = await FileSystem.readAsStringAsync(fileUri);
+      const asset = result.assets[0];
+      const fileUri = asset.uri;
 
-      // Parse and validate the JSON
+      // MIDI files only bring a tempo map; the show is named after the file
       let importedShow: Show;
-      try {
-        const parsedData = JSON.parse(fileContent);
-        
-        // Validate the show structure
-        if (!parsedData.name || !Array.isArray(parsedData.measures)) {
-          throw new Error('Invalid show format: missing name or measures array');
-        }
-
-        // Validate each measure
-        for (const measure of parsedData.measures) {
-          if (!measure.id || 
-              !measure.timeSignature || 
-              typeof measure.timeSignature.numerator !== 'number' ||
-              typeof measure.timeSignature.denominator !== 'number' ||
-              typeof measure.tempo !== 'number') {
-            throw new Error('Invalid measure format in imported show');
+      let importWarnings: string[] = [];
+      if (/\.midi?$/i.test(asset.name) || asset.mimeType?.includes('midi')) {
+        try {
+          const midiData = await FileSystem.readAsStringAsync(fileUri, {
+            encoding: FileSystem.EncodingType.Base64,
+          });
+          const tempoMap = parseMidiTempoMap(base64ToBytes(midiData));
+          const document = createImportedShow(
+            asset.name.replace(/\.midi?$/i, '') || tempoMap.name || 'Imported Show',
+            tempoMap.measures
+          );
+          if (!document.show) {
+            Alert.alert(
+              'Import Error',
+              `The selected MIDI file does not make a valid show:\n${formatProblemList(document.problems)}`,
+              [{ text: 'OK' }]
+            );
+            return;
           }
-          // Add count property if missing (default to 1)
-          if (typeof measure.count !== 'number') {
-            measure.count = 1;
+          importedShow = document.show;
+          importWarnings = document.warnings;
+        } catch (parseError) {
+          console.error('Error reading MIDI file:', parseError);
+          Alert.alert(
+            'Import Error',
+            `The selected MIDI file could not be read: ${parseError instanceof Error ? parseError.message : parseError}`,
+            [{ text: 'OK' }]
+          );
+          return;
+        }
+      } else if (/\.(musicxml|mxl|xml)$/i.test(asset.name) || asset.mimeType?.includes('musicxml')) {
+        // MusicXML scores bring their measure structure; .mxl files are compressed
+        try {
+          const source = /\.mxl$/i.test(asset.name)
+            ? readMusicXmlArchive(base64ToBytes(await FileSystem.readAsStringAsync(fileUri, {
+              encoding: FileSystem.EncodingType.Base64,
+            })))
+            : await FileSystem.readAsStringAsync(fileUri);
+          const score = parseMusicXml(source);
+          const document = createImportedShow(
+            score.name || asset.name.replace(/\.(musicxml|mxl|xml)$/i, '') || 'Imported Show',
+            score.measures
+          );
+          if (!document.show) {
+            Alert.alert(
+              'Import Error',
+              `The selected MusicXML file does not make a valid show:\n${formatProblemList(document.problems)}`,
+              [{ text: 'OK' }]
+            );
+            return;
           }
+          importedShow = document.show;
+          importWarnings = [...score.warnings, ...document.warnings];
+        } catch (parseError) {
+          console.error('Error reading MusicXML file:', parseError);
+          Alert.alert(
+            'Import Error',
+            `The selected MusicXML file could not be read: ${parseError instanceof Error ? parseError.message : parseError}`,
+            [{ text: 'OK' }]
+          );
+          return;
+        }
+      } else if (/\.zip$/i.test(asset.name) || asset.mimeType?.includes('zip')) {
+        // Archives of show files; every show in it is imported, or none when any is invalid
+        let documents: { fileName: string; content: string }[];
+        try {
+          documents = readShowArchive(base64ToBytes(await FileSystem.readAsStringAsync(fileUri, {
+            encoding: FileSystem.EncodingType.Base64,
+          })));
+        } catch (parseError) {
+          console.error('Error reading show archive:', parseError);
+          documents = [];
+        }
+        if (documents.length === 0) {
+          Alert.alert(
+            'Import Error',
+            'The selected archive does not contain any Met Maestro show files.',
+            [{ text: 'OK' }]
+          );
+          return;
         }
 
-        importedShow = {
-          id: (shows.length + 1).toString(),
-          name: parsedData.name,
-          measures: parsedData.measures,
-          createdAt: parsedData.createdAt || new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        };
+        const results = documents.map(document => ({
+          fileName: document.fileName,
+          ...readShowDocument(document.content),
+        }));
+        const problems = results.flatMap(result => result.problems.map(problem => `${result.fileName}: ${problem}`));
+        if (problems.length > 0) {
+          Alert.alert(
+            'Import Error',
+            `No shows were imported. Problems found in the archive:\n${formatProblemList(problems)}`,
+            [{ text: 'OK' }]
+          );
+          return;
+        }
+        const importedShows = results.map(result => result.show as Show);
 
-      } catch (parseError) {
-        console.error('Error parsing imported file:', parseError);
-        Alert.alert(
-          'Import Error',
-          'The selected file is not a valid Met Maestro show file. Please make sure it\'s a JSON file exported from this app.',
-          [{ text: 'OK' }]
+        // Shows from an archive are imported together; clashing names become copies
+        const usedNames = new Set(shows.map(show => show.name));
+        importedShows.forEach(show => {
+          while (usedNames.has(show.name)) {
+            show.name = `${show.name} (Copy)`;
+          }
+          usedNames.add(show.name);
+        });
+        addImportedShows(
+          importedShows,
+          results.flatMap(result => result.warnings.map(warning => `${result.fileName}: ${warning}`))
         );
         return;
+      } else {
+        const fileContent = await FileSystem.readAsStringAsync(fileUri);
+
+        // Parse and validate the show
+        const document = readShowDocument(fileContent);
+        if (!document.show) {
+          Alert.alert(
+            'Import Error',
+            `The selected file is not a valid Met Maestro show file:\n${formatProblemList(document.problems)}`,
+            [{ text: 'OK' }]
+          );
+          return;
+        }
+        importedShow = document.show;
+        importWarnings = document.warnings;
       }
 
       // Check for name conflicts
@@ -276,7 +575,7 @@ export default function ShowModeScreen() {
               text: 'Import as Copy', 
               onPress: () => {
                 importedShow.name = `${importedShow.name} (Copy)`;
-                addImportedShow(importedShow);
+                addImportedShows([importedShow], importWarnings);
               }
             }
           ]
@@ -285,7 +584,7 @@ export default function ShowModeScreen() {
       }
 
       // Add the imported show
-      addImportedShow(importedShow);
+      addImportedShows([importedShow], importWarnings);
 
     } catch (error) {
       console.error('Error importing show:', error);
@@ -297,55 +596,179 @@ export default function ShowModeScreen() {
     }
   };
 
-  const addImportedShow = async (importedShow: Show) => {
-    const updatedShows = [...shows, importedShow];
+  const addImportedShows = async (importedShows: Show[], warnings: string[] = []) => {
+    const updatedShows = [...shows, ...importedShows];
     setShows(updatedShows);
-    setSelectedShow(importedShow.id);
+    setSelectedShow(importedShows[0].id);
     await saveShows(updatedShows);
+    // List anything the file had that a show cannot represent
+    const skipped = warnings.length > 0
+      ? `\n\nSome parts of the file were not imported exactly:\n${formatProblemList(warnings)}`
+      : '';
     Alert.alert(
       'Import Successful',
-      `Show "${importedShow.name}" has been imported successfully.`,
+      importedShows.length === 1
+        ? `Show "${importedShows[0].name}" has been imported successfully.${skipped}`
+        : `${importedShows.length} shows have been imported successfully:\n${importedShows.map(show => `• ${show.name}`).join('\n')}`,
       [{ text: 'OK' }]
     );
   };
 
-  const handleMessage = (event: any) => {
+  // Write a base64 file to the cache and open the share sheet for it
+  const shareShowFile = async (fileName: string, base64: string, options: Sharing.SharingOptions) => {
+    const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+    await FileSystem.writeAsStringAsync(fileUri, base64, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+
+    if (!(await Sharing.isAvailableAsync())) {
+      Alert.alert('Export Error', 'Sharing is not available on this device.', [{ text: 'OK' }]);
+      return;
+    }
+    await Sharing.shareAsync(fileUri, options);
+  };
+
+  const openExportShows = (showIds: string[]) => {
+    setExportShowIds(showIds);
+    setExportShowsVisible(true);
+  };
+
+  // Share one show as a show file, or several as an archive of show files
+  const handleExportShows = async (showIds: string[]) => {
+    const exportedShows = shows.filter(show => showIds.includes(show.id));
+    if (exportedShows.length === 0) {
+      return;
+    }
+    setExportShowsVisible(false);
+
     try {
-      const message = JSON.parse(event.nativeEvent.data);
-      console.log('Received message from WebView:', message);
-
-      switch (message.type) {
-        case 'SELECT_SHOW':
-          setSelectedShow(message.showId);
-          break;
-        case 'ADD_SHOW':
-          handleAddShow();
-          break;
-        case 'RENAME_SHOW':
-          handleRenameShow(message.showId, message.newName);
-          break;
-        case 'UPDATE_SHOW_MEASURES':
-          handleUpdateShowMeasures(message.showId, message.measures);
-          break;
-        case 'DELETE_SHOW':
-          handleDeleteShow(message.showId);
-          break;
-        case 'MEASURE_COMPLETED':
-          console.log('Measure completed:', message);
-          break;
-        case 'OPEN_SETTINGS':
-          console.log('Opening settings...');
-          openSettings();
-          break;
-        case 'OPEN_PLAYBACK_OPTIONS':
-          console.log('Received OPEN_PLAYBACK_OPTIONS message');
-          openPlaybackOptions();
-          break;
-        default:
-          console.log('Unknown message type:', message.type);
+      if (exportedShows.length === 1) {
+        const [show] = exportedShows;
+        await shareShowFile(getShowFileName(show.name, 'json'), bytesToBase64(strToU8(createShowFile(show))), {
+          mimeType: 'application/json',
+          dialogTitle: `Export "${show.name}"`,
+          UTI: 'public.json',
+        });
+      } else {
+        await shareShowFile('Met-Maestro-Shows.zip', bytesToBase64(createShowArchive(exportedShows)), {
+          mimeType: 'application/zip',
+          dialogTitle: `Export ${exportedShows.length} shows`,
+          UTI: 'public.zip-archive',
+        });
       }
     } catch (error) {
-      console.error('Error parsing message from WebView:', error);
+      console.error('Error exporting shows:', error);
+      Alert.alert('Export Error', 'Failed to export the shows. Please try again.', [{ text: 'OK' }]);
+    }
+  };
+
+  // Share the show's click track, rendered by the SoundSystem, as a WAV file
+  const handleExportWav = async (show: Show) => {
+    if (!soundSystemRef.current) {
+      Alert.alert('Export Error', 'The audio engine is not ready. Please try again.', [{ text: 'OK' }]);
+      return;
+    }
+
+    let data: string;
+    try {
+      ({ data } = await soundSystemRef.current.renderShowWav(show));
+    } catch (error) {
+      Alert.alert('Export Error', (error as Error).message || 'Failed to render the click track.', [{ text: 'OK' }]);
+      return;
+    }
+
+    try {
+      await shareShowFile(getShowFileName(show.name, 'wav'), data, {
+        mimeType: 'audio/wav',
+        dialogTitle: `Export "${show.name}" click track`,
+        UTI: 'com.microsoft.waveform-audio',
+      });
+    } catch (error) {
+      console.error('Error exporting click track:', error);
+      Alert.alert('Export Error', 'Failed to export the click track. Please try again.', [{ text: 'OK' }]);
+    }
+  };
+
+  // The export modal picks the show by id
+  const handleExportShowWav = (showId: string) => {
+    const show = findShow(showId, 'WAV export');
+    if (show) {
+      setExportShowsVisible(false);
+      handleExportWav(show);
+    }
+  };
+
+  // Share the show's tempo map and clicks as a Standard MIDI File
+  const handleExportMidi = async (show: Show) => {
+    try {
+      await shareShowFile(getShowFileName(show.name, 'mid'), bytesToBase64(createShowMidi(show)), {
+        mimeType: 'audio/midi',
+        dialogTitle: `Export "${show.name}" as MIDI`,
+        UTI: 'public.midi-audio',
+      });
+    } catch (error) {
+      console.error('Error exporting MIDI file:', error);
+      Alert.alert('Export Error', 'Failed to export the MIDI file. Please try again.', [{ text: 'OK' }]);
+    }
+  };
+
+  const handleExportShowMidi = (showId: string) => {
+    const show = findShow(showId, 'MIDI export');
+    if (show) {
+      setExportShowsVisible(false);
+      handleExportMidi(show);
+    }
+  };
+
+  const handleMessage = (message: ShowViewResponse) => {
+    console.log('Received message from WebView:', message);
+
+    switch (message.type) {
+      case 'SELECT_SHOW':
+        handleSelectShow(message.payload.showId);
+        break;
+      case 'ADD_SHOW':
+        handleAddShow();
+        break;
+      case 'RENAME_SHOW':
+        handleRenameShow(message.payload.showId, message.payload.newName);
+        break;
+      case 'UPDATE_SHOW_MEASURES':
+        handleUpdateShowMeasures(message.payload.showId, message.payload.measures);
+        break;
+      case 'DELETE_SHOW':
+        handleDeleteShow(message.payload.showId);
+        break;
+      case 'IMPORT_SHOW':
+        handleImportShow();
+        break;
+      case 'EXPORT_SHOW':
+        if (findShow(message.payload.showId, 'export')) {
+          openExportShows([message.payload.showId]);
+        }
+        break;
+      case 'EXPORT_SHOW_WAV': {
+        const show = findShow(message.payload.showId, 'WAV export');
+        if (show) {
+          handleExportWav(show);
+        }
+        break;
+      }
+      case 'EXPORT_SHOW_MIDI': {
+        const show = findShow(message.payload.showId, 'MIDI export');
+        if (show) {
+          handleExportMidi(show);
+        }
+        break;
+      }
+      case 'OPEN_SETTINGS':
+        console.log('Opening settings...');
+        openSettings();
+        break;
+      case 'OPEN_PLAYBACK_OPTIONS':
+        console.log('Received OPEN_PLAYBACK_OPTIONS message');
+        openPlaybackOptions();
+        break;
     }
   };
 
@@ -368,22 +791,8 @@ export default function ShowModeScreen() {
     setPlaybackOptionsVisible(false);
   };
 
-  const handlePlaybackOptionsChange = (options: {
-    startType: 'beginning' | 'measure' | 'letter';
-    startMeasure: string;
-    startLetter: string;
-    endType: 'beginning' | 'measure' | 'letter';
-    endMeasure: string;
-    endLetter: string;
-  }) => {
-    // Update the WebView with new playback options
-    if (webViewRef.current) {
-      webViewRef.current.injectJavaScript(`
-        if (window.updatePlaybackOptions) {
-          window.updatePlaybackOptions(${JSON.stringify(options)});
-        }
-      `);
-    }
+  const handlePlaybackOptionsChange = (options: PlaybackOptionsForm) => {
+    setPlaybackOptions(options);
   };
 
   const handleSoundChange = async (soundType: string) => {
@@ -410,32 +819,47 @@ export default function ShowModeScreen() {
 
   // Show control handlers
   const handleSelectShow = (showId: string) => {
+    const show = findShow(showId, 'select');
+    if (!show) return;
     setSelectedShow(showId);
-    const show = shows.find(s => s.id === showId);
-    if (show && soundSystemRef.current) {
+    if (soundSystemRef.current) {
       soundSystemRef.current.loadShow(show);
     }
   };
 
-  const handlePlayPause = () => {
+  const handlePlayPause = async () => {
     if (isPlaying) {
       // Stop playback
       soundSystemRef.current?.stopShowPlayback();
       setIsPlaying(false);
+      setIsHolding(false);
       setCurrentMeasure(1);
     } else {
-      // Start playback
+      // Start playback; SHOW_STARTED marks it as playing once the audio runs
       const show = shows.find(s => s.id === selectedShow);
       if (show && soundSystemRef.current) {
-        soundSystemRef.current.startShowPlayback(show, playbackOptions);
-        setIsPlaying(true);
+        try {
+          await soundSystemRef.current.startShowPlayback(show, getPlaybackStartOptions(playbackOptions, currentMeasure));
+        } catch (error) {
+          Alert.alert(
+            'Playback Error',
+            `The show could not be started: ${error instanceof Error ? error.message : error}`,
+            [{ text: 'OK' }]
+          );
+        }
       }
     }
   };
 
+  const handleResumeHold = () => {
+    soundSystemRef.current?.resumeShowHold();
+    setIsHolding(false);
+  };
+
 
 
   const selectedShowData = selectedShow ? shows.find(s => s.id === selectedShow) : null;
+  const totalMeasures = selectedShowData ? getTotalMeasureCount(selectedShowData.measures) : 0;
 
   return (
     <ThemedView style={[styles.container, { backgroundColor: themeColors.background }]}>
@@ -447,6 +871,7 @@ export default function ShowModeScreen() {
         onAddShow={handleAddShow}
         onRenameShow={handleRenameShow}
         onDeleteShow={handleDeleteShow}
+        onExportShows={() => openExportShows(selectedShow ? [selectedShow] : [])}
       />
 
       {/* Show Visualizer */}
@@ -458,13 +883,15 @@ export default function ShowModeScreen() {
       {/* Playback Controls */}
       <PlaybackControls
         isPlaying={isPlaying}
+        isHolding={isHolding}
         currentMeasure={currentMeasure}
-        totalMeasures={selectedShowData?.measures.length || 0}
+        totalMeasures={totalMeasures}
         onPlayPause={handlePlayPause}
         onPrevious={currentMeasure > 1 ? () => setCurrentMeasure(currentMeasure - 1) : undefined}
-        onNext={selectedShowData && currentMeasure < selectedShowData.measures.length ? () => setCurrentMeasure(currentMeasure + 1) : undefined}
+        onNext={currentMeasure < totalMeasures ? () => setCurrentMeasure(currentMeasure + 1) : undefined}
         onRestart={() => setCurrentMeasure(1)}
         showPlaybackOptions={() => setPlaybackOptionsVisible(true)}
+        onResumeHold={handleResumeHold}
       />
 
       {/* Playback Options Modal */}
@@ -473,7 +900,20 @@ export default function ShowModeScreen() {
         options={playbackOptions}
         onChange={handlePlaybackOptionsChange}
         onClose={() => setPlaybackOptionsVisible(false)}
-        totalMeasures={selectedShowData?.measures.length || 0}
+        totalMeasures={totalMeasures}
+        countIn={selectedShowData?.countIn}
+        onCountInChange={selectedShowData ? (countIn) => handleUpdateShowCountIn(selectedShowData.id, countIn) : undefined}
+      />
+
+      {/* Export Shows Modal */}
+      <ExportShowsModal
+        visible={exportShowsVisible}
+        shows={shows}
+        initialSelection={exportShowIds}
+        onExport={handleExportShows}
+        onExportWav={handleExportShowWav}
+        onExportMidi={handleExportShowMidi}
+        onClose={() => setExportShowsVisible(false)}
       />
 
       <SettingsModal visible={settingsVisible} onClose={closeSettings}>
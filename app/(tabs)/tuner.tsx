@@ -10,6 +10,7 @@ import { useFocusEffect } from '@react-navigation/native';
 import React, { useEffect, useState } from 'react';
 
 import { isMicPermissionGranted, requestMicPermission } from '../../utils/audioStream';
+import { soundSystemEvents, SoundSystemEventType, TunerDataPayload } from '../../utils/SoundSystemEvents';
 
 // Debug mode - set to true to enable detailed logging
 const DEBUG_MODE = false;
@@ -58,6 +59,24 @@ function TunerScreen() {
     }, [setCurrentMode, soundSystemRef, permission, referencePitch])
   );
 
+  // Pitch readings from the SoundSystem while the tuner runs
+  useEffect(() => {
+    const subscription = soundSystemEvents.addListener((event) => {
+      if (event.type === SoundSystemEventType.TUNER_DATA) {
+        const data = event.payload as TunerDataPayload;
+        setNote(data.note);
+        setFrequency(data.frequency);
+        setCents(data.cents);
+      } else if (event.type === SoundSystemEventType.TUNER_STOPPED) {
+        setNote(null);
+        setFrequency(null);
+        setCents(null);
+      }
+    });
+
+    return () => subscription.remove();
+  }, []);
+
   // Initial permission check
   useEffect(() => {
     const checkInitialPermission = async () => {
@@ -0,0 +1,196 @@
+import React from 'react';
+import { StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+import { useAppTheme } from '../theme/AppTheme';
+import {
+  COUNT_IN_SOUNDS,
+  CountInSettings,
+  MAX_COUNT_IN_LENGTH,
+  normalizeCountIn,
+} from '../utils/countIn';
+import { IconSymbol } from './ui/IconSymbol';
+
+interface CountInSettingsSectionProps {
+  settings?: Partial<CountInSettings>;
+  onChange: (settings: CountInSettings) => void;
+  // The metronome has no measures to resume from
+  showResumeOption?: boolean;
+  // What 'firstMeasure' follows: the show's first measure, or the metronome's meter
+  followMeterLabel?: string;
+}
+
+export const CountInSettingsSection: React.FC<CountInSettingsSectionProps> = ({
+  settings,
+  onChange,
+  showResumeOption = true,
+  followMeterLabel = 'First measure',
+}) => {
+  const theme = useAppTheme();
+  const countIn = normalizeCountIn(settings);
+
+  const updateCountIn = (updates: Partial<CountInSettings>) => {
+    onChange({ ...countIn, ...updates });
+  };
+
+  const renderChoices = <T extends string>(
+    choices: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.choiceRow}>
+      {choices.map((choice) => (
+        <TouchableOpacity
+          key={choice.value}
+          style={[
+            styles.choiceButton,
+            {
+              borderColor: selected === choice.value ? theme.colors.accent : theme.colors.icon,
+              backgroundColor: selected === choice.value ? 'rgba(187, 134, 252, 0.1)' : 'transparent',
+            }
+          ]}
+          onPress={() => onSelect(choice.value)}
+        >
+          <Text
+            style={[
+              styles.choiceText,
+              { color: selected === choice.value ? theme.colors.accent : theme.colors.text }
+            ]}
+          >
+            {choice.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderToggle = (label: string, value: boolean, onToggle: (value: boolean) => void) => (
+    <View style={styles.toggleRow}>
+      <Text style={[styles.label, { color: theme.colors.text }]}>{label}</Text>
+      <Switch
+        value={value}
+        onValueChange={onToggle}
+        trackColor={{ false: theme.colors.icon, true: theme.colors.accent }}
+      />
+    </View>
+  );
+
+  return (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+        Count-In
+      </Text>
+
+      {renderToggle('Count in before playing', countIn.enabled, (enabled) => updateCountIn({ enabled }))}
+
+      {countIn.enabled && (
+        <>
+          {/* Length in bars or beats */}
+          <Text style={[styles.label, { color: theme.colors.icon }]}>Length:</Text>
+          <View style={styles.lengthRow}>
+            <TouchableOpacity
+              style={[styles.inputButton, { borderColor: theme.colors.icon }]}
+              onPress={() => updateCountIn({ length: Math.max(1, countIn.length - 1) })}
+            >
+              <IconSymbol name="minus" size={16} color={theme.colors.icon} />
+            </TouchableOpacity>
+            <Text style={[styles.inputValue, { color: theme.colors.text }]}>
+              {countIn.length}
+            </Text>
+            <TouchableOpacity
+              style={[styles.inputButton, { borderColor: theme.colors.icon }]}
+              onPress={() => updateCountIn({ length: Math.min(MAX_COUNT_IN_LENGTH, countIn.length + 1) })}
+            >
+              <IconSymbol name="plus" size={16} color={theme.colors.icon} />
+            </TouchableOpacity>
+          </View>
+          {renderChoices(
+            [
+              { value: 'beats', label: 'Beats' },
+              { value: 'bars', label: 'Bars' },
+            ],
+            countIn.unit,
+            (unit) => updateCountIn({ unit })
+          )}
+
+          {/* Meter and tempo */}
+          <Text style={[styles.label, { color: theme.colors.icon }]}>Count in:</Text>
+          {renderChoices(
+            [
+              { value: 'firstMeasure', label: followMeterLabel },
+              { value: 'fixed', label: 'Fixed 4/4' },
+            ],
+            countIn.meter,
+            (meter) => updateCountIn({ meter })
+          )}
+
+          {/* Sound */}
+          <Text style={[styles.label, { color: theme.colors.icon }]}>Sound:</Text>
+          {renderChoices(COUNT_IN_SOUNDS, countIn.sound, (sound) => updateCountIn({ sound }))}
+
+          {renderToggle('Speak the count', countIn.spoken, (spoken) => updateCountIn({ spoken }))}
+          {showResumeOption &&
+            renderToggle('Skip when starting mid-show', countIn.skipWhenResuming, (skipWhenResuming) =>
+              updateCountIn({ skipWhenResuming })
+            )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  choiceButton: {
+    flex: 1,
+    paddingHorizontal: 8,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  choiceText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  lengthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  inputButton: {
+    width: 36,
+    height: 36,
+    borderWidth: 1,
+    borderRadius: 6,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  inputValue: {
+    fontSize: 18,
+    fontWeight: '600',
+    minWidth: 40,
+    textAlign: 'center',
+  },
+});
@@ -1,16 +1,20 @@
 import { AppTheme, useAppTheme } from '@/theme/AppTheme';
 import { AccentColor, useTheme } from '@/theme/ThemeContext';
+import { CountInSettings } from '@/utils/countIn';
 import React from 'react';
 import { Linking, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { CountInSettingsSection } from './CountInSettingsSection';
 import { ThemedText } from './ThemedText';
 
 interface SettingsPageProps {
   onClose: () => void;
   currentSound?: string;
   onSoundChange?: (soundType: string) => void;
+  countIn?: CountInSettings;
+  onCountInChange?: (countIn: CountInSettings) => void;
 }
 
-export const SettingsPage: React.FC<SettingsPageProps> = ({ onClose, currentSound = 'synth', onSoundChange }) => {
+export const SettingsPage: React.FC<SettingsPageProps> = ({ onClose, currentSound = 'synth', onSoundChange, countIn, onCountInChange }) => {
   const { accentColor, setAccentColor } = useTheme();
   const appTheme = useAppTheme();
   const themeColors = appTheme?.colors || AppTheme.colors;
@@ -122,6 +126,10 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onClose, currentSoun
           </View>
         </View>
 
+        {onCountInChange && (
+          <CountInSettingsSection settings={countIn} onChange={onCountInChange} showResumeOption={false} followMeterLabel="Time signature" />
+        )}
+
         <View style={styles.section}>
           <ThemedText type="subtitle" style={[styles.sectionTitle, { color: themeColors.text }]}>About</ThemedText>
           
@@ -1,244 +1,259 @@
-import { forwardRef, useImperativeHandle, useRef } from 'react';
-import { WebView } from 'react-native-webview';
-import { soundSystemEvents, SoundSystemEventType } from '../utils/SoundSystemEvents';
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import { usePageConnection } from '../hooks/usePageConnection';
+import { useTuner } from '../hooks/useTuner';
+import {
+  CommandAckPayload,
+  MetronomeStartPayload,
+  ShowLoadPayload,
+  ShowSettingsPayload,
+  ShowStartPayload,
+  SoundSystemMessage,
+  SoundSystemMessagePayloads,
+  ThemeColorsPayload
+} from '../types/MessageProtocol';
+import { createId } from '../utils/ids';
+import { parseMessage } from '../utils/messageSchema';
+import { freqToNote, getCents, noteToString } from '../utils/noteUtils';
+import { performanceMonitor } from '../utils/performanceMonitor';
+import { createRequestTracker } from '../utils/requestTracker';
+import { reportProtocolError, soundSystemEvents, SoundSystemEventType } from '../utils/SoundSystemEvents';
+import { soundSystemPage } from '../webview/generated/soundSystemPage';
+import { createPageHtml } from '../webview/pageHtml';
 
 interface SoundSystemProps {
   // No visual props - invisible component
 }
 
+// Commands resolve with the payload of their acknowledgement, and reject on
+// an AUDIO_ERROR for them, a message the page could not read, or a timeout
 export interface SoundSystemRef {
   // Metronome methods
-  startMetronome: (bpm: number, timeSignature: { numerator: number; denominator: number }, soundType: string) => void;
-  stopMetronome: () => void;
-  updateMetronomeSettings: (settings: any) => void;
+  startMetronome: (settings: MetronomeStartPayload) => Promise<CommandAckPayload<'START_METRONOME'>>;
+  stopMetronome: () => Promise<CommandAckPayload<'STOP_METRONOME'>>;
+  updateMetronomeSettings: (settings: Partial<MetronomeStartPayload>) => Promise<CommandAckPayload<'UPDATE_METRONOME_SETTINGS'>>;
 
   // Show methods
-  loadShow: (showData: any) => void;
-  startShowPlayback: (startOptions: any) => void;
-  stopShowPlayback: () => void;
-  updateShowSettings: (settings: any) => void;
+  loadShow: (show: ShowLoadPayload) => Promise<CommandAckPayload<'LOAD_SHOW'>>;
+  startShowPlayback: (show: ShowLoadPayload, options: ShowStartPayload) => Promise<CommandAckPayload<'START_SHOW'>>;
+  stopShowPlayback: () => Promise<CommandAckPayload<'STOP_SHOW'>>;
+  resumeShowHold: () => Promise<CommandAckPayload<'RESUME_SHOW'>>;
+  updateShowSettings: (settings: ShowSettingsPayload) => Promise<CommandAckPayload<'UPDATE_SHOW_SETTINGS'>>;
+  renderShowWav: (show: ShowLoadPayload) => Promise<CommandAckPayload<'RENDER_SHOW_WAV'>>;
 
   // Tuner methods
   startTuner: (referencePitch: number) => void;
   stopTuner: () => void;
-  updateTunerSettings: (settings: any) => void;
+  updateTunerSettings: (settings: { referencePitch: number }) => void;
 
   // System methods
-  initializeAudio: () => void;
-  suspendAudio: () => void;
-  updateTheme: (colors: any) => void;
+  initializeAudio: () => Promise<CommandAckPayload<'INIT_AUDIO'>>;
+  suspendAudio: () => Promise<CommandAckPayload<'SUSPEND_AUDIO'>>;
+  updateTheme: (colors: ThemeColorsPayload) => Promise<CommandAckPayload<'UPDATE_THEME'>>;
+  updateSound: (soundType: string) => Promise<CommandAckPayload<'UPDATE_SOUND'>>;
 }
 
-// Consolidated HTML template for all sound logic
-const soundSystemHTML = `
-<!DOCTYPE html>
-<html>
-<head>
-    <meta charset="utf-8">
-    <title>SoundSystem</title>
-    <style>
-        body {
-            background: transparent;
-            display: none; /* Completely hidden */
-        }
-    </style>
-</head>
-<body>
-    <!-- Consolidated JavaScript for all sound logic -->
-    <script>
-        // Message handling
-        window.addEventListener('message', handleMessage);
+// Notes within this many cents of the reference count as in tune
+const IN_TUNE_CENTS = 5;
 
-        function handleMessage(event) {
-            const message = JSON.parse(event.data);
-            console.log('SoundSystem received:', message);
+// Commands the page has not acknowledged this long after they were posted are rejected
+const REQUEST_TIMEOUT_MS = 5000;
 
-            switch (message.type) {
-                case 'INIT_AUDIO':
-                    initAudioContext();
-                    break;
-                case 'START_METRONOME':
-                    startMetronome(message.payload);
-                    break;
-                case 'STOP_METRONOME':
-                    stopMetronome();
-                    break;
-                case 'LOAD_SHOW':
-                    loadShow(message.payload);
-                    break;
-                case 'START_SHOW':
-                    startShowPlayback(message.payload);
-                    break;
-                case 'STOP_SHOW':
-                    stopShowPlayback();
-                    break;
-                case 'START_TUNER':
-                    startTuner(message.payload);
-                    break;
-                case 'STOP_TUNER':
-                    stopTuner();
-                    break;
-                case 'UPDATE_THEME':
-                    updateTheme(message.payload);
-                    break;
-                default:
-                    console.log('Unknown message type:', message.type);
-            }
-        }
+// Rendering a whole show to WAV takes longer than other commands
+const RENDER_TIMEOUT_MS = 60000;
 
-        // Audio context and sound logic will be consolidated here
-        let audioContext = null;
+// Settings the page keeps; the latest of each is sent again after a reload
+const REPLAYED_COMMANDS: SoundSystemMessage['type'][] = ['UPDATE_THEME', 'UPDATE_SOUND', 'UPDATE_SHOW_SETTINGS'];
 
-        function initAudioContext() {
-            if (!audioContext) {
-                audioContext = new (window.AudioContext || window.webkitAudioContext)();
-                console.log('SoundSystem: Audio context initialized');
-            }
-        }
+// The audio engine page bundled from webview/soundSystem. The metronome and
+// show playback share one AudioContext, one click sound bank and one
+// lookahead scheduler; starting either stops the other.
+const soundSystemHTML = createPageHtml(soundSystemPage, { title: 'SoundSystem', cssVariables: {} });
 
-        function suspendAudio() {
-            if (audioContext && audioContext.state !== 'closed') {
-                audioContext.close();
-                audioContext = null;
-                console.log('SoundSystem: Audio context suspended');
-            }
-        }
+// Pitch detection runs in React Native on the microphone stream; mounted
+// only while the tuner is on
+const TunerEngine = ({ referencePitch }: { referencePitch: number }) => {
+  const { freq, error } = useTuner(true);
 
-        function updateTheme(colors) {
-            console.log('SoundSystem: Theme updated', colors);
-            // Theme colors will be applied to sound system elements if needed
-        }
-
-        // Placeholder functions - will be consolidated from existing WebViews
-        function startMetronome(payload) {
-            console.log('SoundSystem: Starting metronome', payload);
-            // TODO: Consolidate metronome logic from WebViewMetronome
-        }
-
-        function stopMetronome() {
-            console.log('SoundSystem: Stopping metronome');
-            // TODO: Consolidate metronome stop logic
-        }
-
-        function loadShow(showData) {
-            console.log('SoundSystem: Loading show', showData);
-            // TODO: Consolidate show loading logic from WebViewShow
-        }
-
-        function startShowPlayback(options) {
-            console.log('SoundSystem: Starting show playback', options);
-            // TODO: Consolidate show playback logic
-        }
-
-        function stopShowPlayback() {
-            console.log('SoundSystem: Stopping show playback');
-            // TODO: Consolidate show stop logic
-        }
-
-        function startTuner(settings) {
-            console.log('SoundSystem: Starting tuner', settings);
-            // TODO: Consolidate tuner logic from WebViewTuner
-        }
-
-        function stopTuner() {
-            console.log('SoundSystem: Stopping tuner');
-            // TODO: Consolidate tuner stop logic
-        }
-
-        // Send messages back to React Native
-        function sendMessage(type, payload) {
-            window.ReactNativeWebView.postMessage(JSON.stringify({
-                type,
-                payload,
-                timestamp: Date.now()
-            }));
-        }
-
-        console.log('SoundSystem: Initialized');
-    </script>
-</body>
-</html>
-`;
+  useEffect(() => {
+    if (error) {
+      soundSystemEvents.emit(SoundSystemEventType.AUDIO_ERROR, { error, mode: 'tuner' });
+    }
+  }, [error]);
+
+  useEffect(() => {
+    if (!freq) {
+      soundSystemEvents.emit(SoundSystemEventType.TUNER_DATA, {
+        note: null,
+        frequency: null,
+        cents: null,
+        isInTune: false,
+        referencePitch
+      });
+      return;
+    }
+    // Notes are named against A4 = 440 Hz, so scale the reading to that pitch
+    const { note, octave, midi } = freqToNote(freq * 440 / referencePitch);
+    const cents = getCents(freq * 440 / referencePitch, midi);
+    soundSystemEvents.emit(SoundSystemEventType.TUNER_DATA, {
+      note: noteToString(note, octave),
+      frequency: freq,
+      cents,
+      isInTune: Math.abs(cents) <= IN_TUNE_CENTS,
+      referencePitch
+    });
+  }, [freq, referencePitch]);
+
+  return null;
+};
 
 const SoundSystem = forwardRef<SoundSystemRef, SoundSystemProps>((props, ref) => {
   const webViewRef = useRef<WebView>(null);
+  const requests = useRef(createRequestTracker({
+    onAnswered: latencyMs => performanceMonitor.recordMessagePassingLatency(latencyMs)
+  }));
+  const page = usePageConnection('soundSystem');
+  const [tuner, setTuner] = useState<{ referencePitch: number } | null>(null);
+
+  // Commands still waiting when the SoundSystem goes away will not be answered
+  useEffect(() => {
+    const tracker = requests.current;
+    return () => tracker.rejectAll('SoundSystem unmounted');
+  }, []);
 
   // Expose methods via ref
   useImperativeHandle(ref, () => ({
     // Metronome methods
-    startMetronome: (bpm: number, timeSignature: { numerator: number; denominator: number }, soundType: string) => {
-      sendMessage('START_METRONOME', { bpm, timeSignature, soundType });
+    startMetronome: (settings: MetronomeStartPayload) => {
+      // null accents ask for the default accents; undefined would be dropped in transit
+      return sendCommand('START_METRONOME', { ...settings, accents: settings.accents ?? null });
     },
     stopMetronome: () => {
-      sendMessage('STOP_METRONOME', {});
+      return sendCommand('STOP_METRONOME', {});
     },
-    updateMetronomeSettings: (settings: any) => {
-      sendMessage('UPDATE_METRONOME_SETTINGS', settings);
+    updateMetronomeSettings: (settings: Partial<MetronomeStartPayload>) => {
+      return sendCommand('UPDATE_METRONOME_SETTINGS', 'accents' in settings
+        ? { ...settings, accents: settings.accents ?? null }
+        : settings);
     },
 
     // Show methods
-    loadShow: (showData: any) => {
-      sendMessage('LOAD_SHOW', showData);
+    loadShow: (show: ShowLoadPayload) => {
+      return sendCommand('LOAD_SHOW', show);
     },
-    startShowPlayback: (startOptions: any) => {
-      sendMessage('START_SHOW', startOptions);
+    startShowPlayback: (show: ShowLoadPayload, options: ShowStartPayload) => {
+      // Both are sent at once; the page handles them in order
+      return Promise.all([sendCommand('LOAD_SHOW', show), sendCommand('START_SHOW', options)])
+        .then(([, started]) => started);
     },
     stopShowPlayback: () => {
-      sendMessage('STOP_SHOW', {});
+      return sendCommand('STOP_SHOW', {});
+    },
+    resumeShowHold: () => {
+      return sendCommand('RESUME_SHOW', {});
+    },
+    updateShowSettings: (settings: ShowSettingsPayload) => {
+      return sendCommand('UPDATE_SHOW_SETTINGS', settings);
     },
-    updateShowSettings: (settings: any) => {
-      sendMessage('UPDATE_SHOW_SETTINGS', settings);
+    renderShowWav: (show: ShowLoadPayload) => {
+      return sendCommand('RENDER_SHOW_WAV', show, RENDER_TIMEOUT_MS);
     },
 
     // Tuner methods
     startTuner: (referencePitch: number) => {
-      sendMessage('START_TUNER', { referencePitch });
+      setTuner({ referencePitch });
+      soundSystemEvents.emit(SoundSystemEventType.TUNER_STARTED, {});
     },
     stopTuner: () => {
-      sendMessage('STOP_TUNER', {});
+      setTuner(null);
+      soundSystemEvents.emit(SoundSystemEventType.TUNER_STOPPED, {});
     },
-    updateTunerSettings: (settings: any) => {
-      sendMessage('UPDATE_TUNER_SETTINGS', settings);
+    updateTunerSettings: (settings: { referencePitch: number }) => {
+      setTuner(current => current && { referencePitch: settings.referencePitch });
     },
 
     // System methods
     initializeAudio: () => {
-      sendMessage('INIT_AUDIO', {});
+      return sendCommand('INIT_AUDIO', {});
     },
     suspendAudio: () => {
-      sendMessage('SUSPEND_AUDIO', {});
+      return sendCommand('SUSPEND_AUDIO', {});
     },
-    updateTheme: (colors: any) => {
-      sendMessage('UPDATE_THEME', colors);
+    updateTheme: (colors: ThemeColorsPayload) => {
+      return sendCommand('UPDATE_THEME', colors);
+    },
+    updateSound: (soundType: string) => {
+      return sendCommand('UPDATE_SOUND', { soundType });
     },
   }));
 
-  const sendMessage = (type: string, payload: any) => {
-    if (webViewRef.current) {
-      webViewRef.current.postMessage(JSON.stringify({
-        type,
-        payload,
-        timestamp: Date.now()
-      }));
+  // Send a command under a new requestId and track it until the page answers;
+  // it waits for the page to be ready. Failures are logged here, so callers
+  // that do not wait for the result can leave the promise alone.
+  const sendCommand = <T extends SoundSystemMessage['type']>(
+    type: T,
+    payload: SoundSystemMessagePayloads[T],
+    timeoutMs = REQUEST_TIMEOUT_MS
+  ): Promise<CommandAckPayload<T>> => {
+    let result: Promise<CommandAckPayload<T>>;
+    if (!webViewRef.current) {
+      result = Promise.reject(new Error(`SoundSystem is not mounted; ${type} was not sent`));
+    } else {
+      const requestId = createId();
+      result = requests.current.track(requestId, type, timeoutMs);
+      const post = () => {
+        requests.current.markSent(requestId);
+        webViewRef.current?.postMessage(JSON.stringify({ type, payload, requestId, timestamp: Date.now() }));
+      };
+      if (REPLAYED_COMMANDS.includes(type)) {
+        // Replays after a reload restore the setting; nothing waits for their answer.
+        // A newer setting sent before the page is ready replaces this one unsent.
+        page.update(type, replay => replay
+          ? webViewRef.current?.postMessage(JSON.stringify({ type, payload, timestamp: Date.now() }))
+          : post(), () => requests.current.handleSuperseded(requestId));
+      } else {
+        page.command(post);
+      }
     }
+    result.catch(error => console.warn('SoundSystem:', error.message));
+    return result;
   };
 
-  const handleWebViewMessage = (event: any) => {
-    const message = JSON.parse(event.nativeEvent.data);
-    console.log('SoundSystem received message from WebView:', message);
+  // The page is (re)loading: commands it was handling will not be answered
+  const handleLoadStart = () => {
+    requests.current.handleReload();
+    page.handleLoadStart();
+  };
 
-    // Handle responses from WebView (beats, measure completion, tuner data, etc.)
+  const handleWebViewMessage = (event: WebViewMessageEvent) => {
+    const { message, type, errors } = parseMessage('soundSystemResponse', event.nativeEvent.data);
+    if (!message) {
+      reportProtocolError('soundSystem', 'app', { messageType: type, errors });
+      return;
+    }
+    requests.current.handleResponse(message);
+
+    // Handle responses from WebView (beats, measure completion, etc.)
     switch (message.type) {
       case 'METRONOME_BEAT':
         // Emit metronome beat event
         soundSystemEvents.emit(SoundSystemEventType.METRONOME_BEAT, message.payload);
         break;
+      case 'METRONOME_LAYER_PULSE':
+        soundSystemEvents.emit(SoundSystemEventType.METRONOME_LAYER_PULSE, message.payload);
+        break;
       case 'METRONOME_STARTED':
         soundSystemEvents.emit(SoundSystemEventType.METRONOME_STARTED, message.payload);
         break;
       case 'METRONOME_STOPPED':
         soundSystemEvents.emit(SoundSystemEventType.METRONOME_STOPPED, message.payload);
         break;
+      case 'SHOW_LOADED':
+        soundSystemEvents.emit(SoundSystemEventType.SHOW_LOADED, message.payload);
+        break;
+      case 'SHOW_BEAT':
+        soundSystemEvents.emit(SoundSystemEventType.SHOW_BEAT, message.payload);
+        break;
       case 'SHOW_MEASURE_COMPLETED':
         // Emit show measure completed event
         soundSystemEvents.emit(SoundSystemEventType.SHOW_MEASURE_COMPLETED, message.payload);
@@ -249,15 +264,14 @@ const SoundSystem = forwardRef<SoundSystemRef, SoundSystemProps>((props, ref) =>
       case 'SHOW_STOPPED':
         soundSystemEvents.emit(SoundSystemEventType.SHOW_STOPPED, message.payload);
         break;
-      case 'TUNER_DATA':
-        // Emit tuner data event
-        soundSystemEvents.emit(SoundSystemEventType.TUNER_DATA, message.payload);
+      case 'SHOW_WAV_RENDERED':
+        // Only settles its command
         break;
-      case 'TUNER_STARTED':
-        soundSystemEvents.emit(SoundSystemEventType.TUNER_STARTED, message.payload);
+      case 'READY':
+        page.handleReady(message.payload);
         break;
-      case 'TUNER_STOPPED':
-        soundSystemEvents.emit(SoundSystemEventType.TUNER_STOPPED, message.payload);
+      case 'COMMAND_APPLIED':
+        // Only settles its command
         break;
       case 'AUDIO_INITIALIZED':
         soundSystemEvents.emit(SoundSystemEventType.AUDIO_INITIALIZED, message.payload);
@@ -265,37 +279,42 @@ const SoundSystem = forwardRef<SoundSystemRef, SoundSystemProps>((props, ref) =>
       case 'AUDIO_ERROR':
         soundSystemEvents.emit(SoundSystemEventType.AUDIO_ERROR, message.payload);
         break;
-      default:
-        console.log('Unknown WebView message type:', message.type);
+      case 'PROTOCOL_ERROR':
+        reportProtocolError('soundSystem', 'webview', message.payload);
+        break;
     }
   };
 
   return (
-    <WebView
-      ref={webViewRef}
-      source={{ html: soundSystemHTML }}
-      style={{
-        position: 'absolute',
-        top: -10000, // Move far off-screen
-        left: -10000,
-        width: 1,
-        height: 1,
-        opacity: 0,
-        pointerEvents: 'none'
-      }}
-      onMessage={handleWebViewMessage}
-      javaScriptEnabled={true}
-      domStorageEnabled={true}
-      allowFileAccess={true}
-      allowUniversalAccessFromFileURLs={true}
-      mixedContentMode="always"
-      originWhitelist={['*']}
-      // Prevent any visual rendering
-      scalesPageToFit={false}
-      scrollEnabled={false}
-      showsHorizontalScrollIndicator={false}
-      showsVerticalScrollIndicator={false}
-    />
+    <>
+      <WebView
+        ref={webViewRef}
+        source={{ html: soundSystemHTML }}
+        style={{
+          position: 'absolute',
+          top: -10000, // Move far off-screen
+          left: -10000,
+          width: 1,
+          height: 1,
+          opacity: 0,
+          pointerEvents: 'none'
+        }}
+        onLoadStart={handleLoadStart}
+        onMessage={handleWebViewMessage}
+        javaScriptEnabled={true}
+        domStorageEnabled={true}
+        allowFileAccess={true}
+        allowUniversalAccessFromFileURLs={true}
+        mixedContentMode="always"
+        originWhitelist={['*']}
+        // Prevent any visual rendering
+        scalesPageToFit={false}
+        scrollEnabled={false}
+        showsHorizontalScrollIndicator={false}
+        showsVerticalScrollIndicator={false}
+      />
+      {tuner && <TunerEngine referencePitch={tuner.referencePitch} />}
+    </>
   );
 });
 
@@ -0,0 +1,116 @@
+import React from 'react';
+import { StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+import { useAppTheme } from '../../theme/AppTheme';
+import { GapTrainerSettings, MAX_GAP_BARS } from '../../utils/gapTrainer';
+import { IconSymbol } from '../ui/IconSymbol';
+
+interface GapTrainerControlsProps {
+  settings: GapTrainerSettings;
+  onChange: (settings: GapTrainerSettings) => void;
+}
+
+export const GapTrainerControls: React.FC<GapTrainerControlsProps> = ({
+  settings,
+  onChange,
+}) => {
+  const theme = useAppTheme();
+
+  const update = (changes: Partial<GapTrainerSettings>) => {
+    onChange({ ...settings, ...changes });
+  };
+
+  const clampBars = (bars: number) => Math.min(Math.max(bars, 1), MAX_GAP_BARS);
+
+  const renderStepper = (label: string, onDecrease: () => void, onIncrease: () => void) => (
+    <View style={styles.stepperRow}>
+      <TouchableOpacity
+        style={[styles.stepButton, { borderColor: theme.colors.icon }]}
+        onPress={onDecrease}
+      >
+        <IconSymbol name="minus" size={16} color={theme.colors.icon} />
+      </TouchableOpacity>
+      <Text style={[styles.stepValue, { color: theme.colors.text }]}>
+        {label}
+      </Text>
+      <TouchableOpacity
+        style={[styles.stepButton, { borderColor: theme.colors.icon }]}
+        onPress={onIncrease}
+      >
+        <IconSymbol name="plus" size={16} color={theme.colors.icon} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={[styles.label, { color: theme.colors.text }]}>
+          Gap Trainer
+        </Text>
+        <Switch
+          value={settings.enabled}
+          onValueChange={(enabled) => update({ enabled })}
+          trackColor={{ false: theme.colors.icon, true: theme.colors.accent }}
+        />
+      </View>
+
+      {settings.enabled && (
+        <>
+          {renderStepper(
+            `Play ${settings.playBars} ${settings.playBars === 1 ? 'bar' : 'bars'}`,
+            () => update({ playBars: clampBars(settings.playBars - 1) }),
+            () => update({ playBars: clampBars(settings.playBars + 1) })
+          )}
+          {renderStepper(
+            `Silent ${settings.silentBars} ${settings.silentBars === 1 ? 'bar' : 'bars'}`,
+            () => update({ silentBars: clampBars(settings.silentBars - 1) }),
+            () => update({ silentBars: clampBars(settings.silentBars + 1) })
+          )}
+          {/* Chance that any played beat drops out */}
+          {renderStepper(
+            settings.randomMute > 0 ? `Random gaps ${settings.randomMute}%` : 'No random gaps',
+            () => update({ randomMute: Math.max(0, settings.randomMute - 5) }),
+            () => update({ randomMute: Math.min(100, settings.randomMute + 5) })
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    paddingVertical: 16,
+    gap: 12,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderWidth: 1,
+    borderRadius: 6,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    minWidth: 130,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,229 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useAppTheme } from '../../theme/AppTheme';
+import { TimeSignature } from '../../utils/meterGrouping';
+import {
+  createLayer,
+  formatLayer,
+  LAYER_MODES,
+  LAYER_UNITS,
+  MAX_LAYER_PULSES,
+  MAX_LAYERS,
+  MIN_LAYER_PULSES,
+  RhythmLayer,
+} from '../../utils/rhythmLayers';
+import { IconSymbol } from '../ui/IconSymbol';
+
+interface LayerControlsProps {
+  layers: RhythmLayer[];
+  timeSignature: TimeSignature; // Main meter the layers play against
+  onChange: (layers: RhythmLayer[]) => void;
+}
+
+const LAYER_SOUNDS: { value: string; label: string }[] = [
+  { value: 'woodblock', label: 'Woodblock' },
+  { value: 'cowbell', label: 'Cowbell' },
+  { value: 'click', label: 'Click' },
+  { value: 'beep', label: 'Beep' },
+  { value: 'synth', label: 'Synth' },
+];
+
+export const LayerControls: React.FC<LayerControlsProps> = ({
+  layers,
+  timeSignature,
+  onChange,
+}) => {
+  const theme = useAppTheme();
+
+  const updateLayer = (index: number, changes: Partial<RhythmLayer>) => {
+    onChange(layers.map((layer, i) => {
+      if (i !== index) return layer;
+      // Accents are per pulse, so a new pulse count starts from the defaults
+      const accents = changes.pulses !== undefined && changes.pulses !== layer.pulses ? undefined : layer.accents;
+      return { ...layer, accents, ...changes };
+    }));
+  };
+
+  const addLayer = () => {
+    onChange([...layers, createLayer(`layer-${Date.now()}`)]);
+  };
+
+  const removeLayer = (index: number) => {
+    onChange(layers.filter((_, i) => i !== index));
+  };
+
+  const renderOption = (label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[
+        styles.optionButton,
+        {
+          borderColor: selected ? theme.colors.accent : theme.colors.icon,
+          backgroundColor: selected ? 'rgba(187, 134, 252, 0.2)' : 'transparent',
+        }
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.optionLabel, { color: selected ? theme.colors.accent : theme.colors.text }]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderStepper = (label: string, onDecrease: () => void, onIncrease: () => void) => (
+    <View style={styles.stepperRow}>
+      <TouchableOpacity
+        style={[styles.stepButton, { borderColor: theme.colors.icon }]}
+        onPress={onDecrease}
+      >
+        <IconSymbol name="minus" size={16} color={theme.colors.icon} />
+      </TouchableOpacity>
+      <Text style={[styles.stepValue, { color: theme.colors.text }]}>
+        {label}
+      </Text>
+      <TouchableOpacity
+        style={[styles.stepButton, { borderColor: theme.colors.icon }]}
+        onPress={onIncrease}
+      >
+        <IconSymbol name="plus" size={16} color={theme.colors.icon} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.label, { color: theme.colors.text }]}>
+        Layers
+      </Text>
+
+      {layers.map((layer, index) => (
+        <View key={layer.id} style={[styles.layerCard, { borderColor: theme.colors.icon }]}>
+          <View style={styles.layerHeader}>
+            <Text style={[styles.layerTitle, { color: theme.colors.accent }]}>
+              {formatLayer(layer, timeSignature)}
+            </Text>
+            <TouchableOpacity onPress={() => removeLayer(index)}>
+              <IconSymbol name="xmark" size={18} color={theme.colors.icon} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.optionsContainer}>
+            {LAYER_MODES.map(mode => renderOption(mode.label, layer.mode === mode.value, () =>
+              updateLayer(index, { mode: mode.value })
+            ))}
+          </View>
+
+          {/* Polyrhythms count pulses per main bar, polymeters the length of their own bar */}
+          {renderStepper(
+            layer.mode === 'polymeter' ? `${layer.pulses} per bar` : `${layer.pulses} against ${timeSignature.numerator}`,
+            () => updateLayer(index, { pulses: Math.max(MIN_LAYER_PULSES, layer.pulses - 1) }),
+            () => updateLayer(index, { pulses: Math.min(MAX_LAYER_PULSES, layer.pulses + 1) })
+          )}
+
+          {layer.mode === 'polymeter' && (
+            <View style={styles.optionsContainer}>
+              {LAYER_UNITS.map(unit => renderOption(`1/${unit}`, layer.unit === unit, () =>
+                updateLayer(index, { unit })
+              ))}
+            </View>
+          )}
+
+          <View style={styles.optionsContainer}>
+            {LAYER_SOUNDS.map(sound => renderOption(sound.label, layer.sound === sound.value, () =>
+              updateLayer(index, { sound: sound.value })
+            ))}
+          </View>
+
+          {renderStepper(
+            `Volume ${Math.round(layer.volume * 100)}%`,
+            () => updateLayer(index, { volume: Math.max(0, Math.round(layer.volume * 10 - 1) / 10) }),
+            () => updateLayer(index, { volume: Math.min(1, Math.round(layer.volume * 10 + 1) / 10) })
+          )}
+        </View>
+      ))}
+
+      {layers.length < MAX_LAYERS && (
+        <TouchableOpacity
+          style={[styles.optionButton, { borderColor: theme.colors.icon }]}
+          onPress={addLayer}
+        >
+          <IconSymbol name="plus" size={16} color={theme.colors.icon} />
+          <Text style={[styles.optionLabel, styles.addLabel, { color: theme.colors.text }]}>
+            Add Layer
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    paddingVertical: 16,
+    gap: 12,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  layerCard: {
+    width: '100%',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    gap: 12,
+  },
+  layerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  layerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  optionsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  optionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderRadius: 8,
+    minWidth: 64,
+    justifyContent: 'center',
+  },
+  optionLabel: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  addLabel: {
+    marginLeft: 6,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderWidth: 1,
+    borderRadius: 6,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    minWidth: 110,
+    textAlign: 'center',
+  },
+});
@@ -1,23 +1,44 @@
 import React from 'react';
 import { ScrollView, StyleSheet, View } from 'react-native';
 import { useAppTheme } from '../../theme/AppTheme';
+import { AccentPattern, cycleAccentLevel, getAccentLevel, getBeatLevels } from '../../utils/accentPattern';
+import { getGrouping, getGroupStarts, TimeSignature } from '../../utils/meterGrouping';
+import {
+  formatLayer,
+  getLayerLevels,
+  getLayerPulseLevel,
+  RhythmLayer,
+  setLayerPulseLevel,
+} from '../../utils/rhythmLayers';
+import { GapTrainerSettings } from '../../utils/gapTrainer';
+import { TempoTrainerSettings } from '../../utils/tempoTrainer';
 import { TempoBar } from '../ui/TempoBar';
 import { BpmControls } from './BpmControls';
+import { GapTrainerControls } from './GapTrainerControls';
+import { LayerControls } from './LayerControls';
 import { PlayButton } from './PlayButton';
 import { SoundControls } from './SoundControls';
 import { SubdivisionControls } from './SubdivisionControls';
+import { TempoTrainerControls } from './TempoTrainerControls';
 import { TimeSignatureSelector } from './TimeSignatureSelector';
 
 interface MetronomeControlsProps {
   // Time signature
-  timeSignature: { numerator: number; denominator: number };
-  onTimeSignatureChange: (ts: { numerator: number; denominator: number }) => void;
+  timeSignature: TimeSignature;
+  onTimeSignatureChange: (ts: TimeSignature) => void;
 
   // BPM
   bpm: number;
   onBpmChange: (bpm: number) => void;
   onTapBpm: () => void;
 
+  // Tempo trainer
+  tempoTrainer?: TempoTrainerSettings;
+  onTempoTrainerChange?: (settings: TempoTrainerSettings) => void;
+  trainerProgress?: number;
+  trainerFinished?: boolean;
+  onTrainerReset?: () => void;
+
   // Playback
   isPlaying: boolean;
   onPlayPause: () => void;
@@ -25,11 +46,27 @@ interface MetronomeControlsProps {
   // Subdivision
   subdivision: number;
   onSubdivisionChange: (subdivision: number) => void;
+  swing?: number;
+  onSwingChange?: (swing: number) => void;
 
   // Sound
   soundType: string;
   onSoundChange: (soundType: string) => void;
 
+  // Accents
+  accents?: AccentPattern;
+  onAccentPress?: (beatIndex: number, subdivisionIndex: number) => void;
+
+  // Polyrhythm and polymeter layers
+  layers?: RhythmLayer[];
+  onLayersChange?: (layers: RhythmLayer[]) => void;
+  currentLayerPulses?: Record<string, number>; // Sounding pulse of each layer by id
+
+  // Gap trainer
+  gapTrainer?: GapTrainerSettings;
+  onGapTrainerChange?: (settings: GapTrainerSettings) => void;
+  isSilent?: boolean; // Current bar is a silent bar
+
   // Visual feedback
   currentBeat?: number;
   onOpenSettings?: () => void;
@@ -41,16 +78,41 @@ export const MetronomeControls: React.FC<MetronomeControlsProps> = ({
   bpm,
   onBpmChange,
   onTapBpm,
+  tempoTrainer,
+  onTempoTrainerChange,
+  trainerProgress = 0,
+  trainerFinished,
+  onTrainerReset,
   isPlaying,
   onPlayPause,
   subdivision,
   onSubdivisionChange,
+  swing,
+  onSwingChange,
   soundType,
   onSoundChange,
+  accents,
+  onAccentPress,
+  layers = [],
+  onLayersChange,
+  currentLayerPulses,
+  gapTrainer,
+  onGapTrainerChange,
+  isSilent = false,
   currentBeat = 0,
   onOpenSettings,
 }) => {
   const theme = useAppTheme();
+  const subdivisionLevels = Array.from({ length: timeSignature.numerator }, (_, beat) =>
+    Array.from({ length: subdivision - 1 }, (_, index) => getAccentLevel(accents, beat, index + 1, 'normal'))
+  );
+
+  const handleLayerAccentPress = (layerIndex: number, pulseIndex: number) => {
+    if (!onLayersChange) return;
+    const layer = layers[layerIndex];
+    const level = cycleAccentLevel(getLayerPulseLevel(layer, pulseIndex));
+    onLayersChange(layers.map((other, i) => (i === layerIndex ? setLayerPulseLevel(layer, pulseIndex, level) : other)));
+  };
 
   return (
     <ScrollView
@@ -75,12 +137,37 @@ export const MetronomeControls: React.FC<MetronomeControlsProps> = ({
         />
       </View>
 
+      {/* Tempo Trainer */}
+      {tempoTrainer && onTempoTrainerChange && (
+        <View style={styles.section}>
+          <TempoTrainerControls
+            settings={tempoTrainer}
+            onChange={onTempoTrainerChange}
+            progress={trainerProgress}
+            finished={trainerFinished}
+            onReset={onTrainerReset}
+          />
+        </View>
+      )}
+
       {/* Tempo Bar - Visual beat indicator */}
       <View style={styles.section}>
         <TempoBar
           beats={timeSignature.numerator}
+          groupStarts={getGrouping(timeSignature) ? getGroupStarts(timeSignature) : undefined}
           currentBeat={currentBeat}
+          silent={isSilent}
           subdivision={subdivision}
+          levels={getBeatLevels(accents, timeSignature)}
+          subdivisionLevels={subdivisionLevels}
+          onAccentPress={onAccentPress}
+          layers={layers.map(layer => ({
+            id: layer.id,
+            label: formatLayer(layer, timeSignature),
+            levels: getLayerLevels(layer),
+            currentPulse: currentLayerPulses?.[layer.id],
+          }))}
+          onLayerAccentPress={onLayersChange ? handleLayerAccentPress : undefined}
         />
       </View>
 
@@ -97,6 +184,8 @@ export const MetronomeControls: React.FC<MetronomeControlsProps> = ({
         <SubdivisionControls
           value={subdivision}
           onChange={onSubdivisionChange}
+          swing={swing}
+          onSwingChange={onSwingChange}
         />
       </View>
 
@@ -107,6 +196,27 @@ export const MetronomeControls: React.FC<MetronomeControlsProps> = ({
           onChange={onSoundChange}
         />
       </View>
+
+      {/* Gap Trainer */}
+      {gapTrainer && onGapTrainerChange && (
+        <View style={styles.section}>
+          <GapTrainerControls
+            settings={gapTrainer}
+            onChange={onGapTrainerChange}
+          />
+        </View>
+      )}
+
+      {/* Layer Controls */}
+      {onLayersChange && (
+        <View style={styles.section}>
+          <LayerControls
+            layers={layers}
+            timeSignature={timeSignature}
+            onChange={onLayersChange}
+          />
+        </View>
+      )}
     </ScrollView>
   );
 };
@@ -63,8 +63,8 @@ export const MetronomeScreenExample: React.FC = () => {
       setCurrentBeat(0);
     } else {
       // Start metronome
-      soundSystemRef.current?.startMetronome(bpm, timeSignature, soundType);
-      setIsPlaying(true);
+      soundSystemRef.current?.startMetronome({ bpm, timeSignature, soundType })
+        .then(() => setIsPlaying(true), () => setIsPlaying(false));
     }
   };
 
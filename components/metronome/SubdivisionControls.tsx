@@ -1,11 +1,14 @@
 import React from 'react';
 import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { useAppTheme } from '../../theme/AppTheme';
+import { canSwing, MAX_SWING, STRAIGHT_SWING, SWING_PRESETS } from '../../utils/swing';
 import { IconSymbol } from '../ui/IconSymbol';
 
 interface SubdivisionControlsProps {
   value: number;
   onChange: (subdivision: number) => void;
+  swing?: number; // Swing ratio in percent, shown for eighths and sixteenths
+  onSwingChange?: (swing: number) => void;
 }
 
 type SubdivisionOption = {
@@ -26,6 +29,8 @@ const SUBDIVISION_OPTIONS: SubdivisionOption[] = [
 export const SubdivisionControls: React.FC<SubdivisionControlsProps> = ({
   value,
   onChange,
+  swing = STRAIGHT_SWING,
+  onSwingChange,
 }) => {
   const theme = useAppTheme();
 
@@ -68,6 +73,57 @@ export const SubdivisionControls: React.FC<SubdivisionControlsProps> = ({
           </TouchableOpacity>
         ))}
       </View>
+
+      {/* Swing for eighths and sixteenths */}
+      {onSwingChange && canSwing(value) && (
+        <View style={styles.swingContainer}>
+          <View style={styles.swingRow}>
+            <TouchableOpacity
+              style={[styles.swingStepButton, { borderColor: theme.colors.icon }]}
+              onPress={() => onSwingChange(Math.max(STRAIGHT_SWING, swing - 1))}
+            >
+              <IconSymbol name="minus" size={16} color={theme.colors.icon} />
+            </TouchableOpacity>
+            <Text style={[styles.swingValue, { color: theme.colors.text }]}>
+              Swing {swing}%
+            </Text>
+            <TouchableOpacity
+              style={[styles.swingStepButton, { borderColor: theme.colors.icon }]}
+              onPress={() => onSwingChange(Math.min(MAX_SWING, swing + 1))}
+            >
+              <IconSymbol name="plus" size={16} color={theme.colors.icon} />
+            </TouchableOpacity>
+          </View>
+          <View style={styles.optionsContainer}>
+            {SWING_PRESETS.map((preset) => (
+              <TouchableOpacity
+                key={preset.value}
+                style={[
+                  styles.optionButton,
+                  {
+                    borderColor: swing === preset.value ? theme.colors.accent : theme.colors.icon,
+                    backgroundColor: swing === preset.value
+                      ? 'rgba(187, 134, 252, 0.2)'
+                      : 'transparent',
+                  }
+                ]}
+                onPress={() => onSwingChange(preset.value)}
+              >
+                <Text
+                  style={[
+                    styles.optionLabel,
+                    {
+                      color: swing === preset.value ? theme.colors.accent : theme.colors.text,
+                    }
+                  ]}
+                >
+                  {preset.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
     </View>
   );
 };
@@ -103,4 +159,28 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '500',
   },
+  swingContainer: {
+    alignItems: 'center',
+    marginTop: 16,
+    gap: 12,
+  },
+  swingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  swingStepButton: {
+    width: 32,
+    height: 32,
+    borderWidth: 1,
+    borderRadius: 6,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  swingValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    minWidth: 90,
+    textAlign: 'center',
+  },
 });
@@ -0,0 +1,221 @@
+import React from 'react';
+import { StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+import { useAppTheme } from '../../theme/AppTheme';
+import {
+  MAX_TRAINER_BPM,
+  MIN_TRAINER_BPM,
+  TempoTrainerSettings,
+  TRAINER_INTERVAL_UNITS,
+} from '../../utils/tempoTrainer';
+import { IconSymbol } from '../ui/IconSymbol';
+
+interface TempoTrainerControlsProps {
+  settings: TempoTrainerSettings;
+  onChange: (settings: TempoTrainerSettings) => void;
+  progress: number; // 0 to 1 towards the target
+  finished?: boolean; // Holding the target with no drop-back left
+  onReset?: () => void; // Back to the start tempo
+}
+
+export const TempoTrainerControls: React.FC<TempoTrainerControlsProps> = ({
+  settings,
+  onChange,
+  progress,
+  finished = false,
+  onReset,
+}) => {
+  const theme = useAppTheme();
+
+  const update = (changes: Partial<TempoTrainerSettings>) => {
+    onChange({ ...settings, ...changes });
+  };
+
+  const clampBpm = (bpm: number) => Math.min(Math.max(bpm, MIN_TRAINER_BPM), MAX_TRAINER_BPM);
+
+  const renderStepper = (label: string, onDecrease: () => void, onIncrease: () => void) => (
+    <View style={styles.stepperRow}>
+      <TouchableOpacity
+        style={[styles.stepButton, { borderColor: theme.colors.icon }]}
+        onPress={onDecrease}
+      >
+        <IconSymbol name="minus" size={16} color={theme.colors.icon} />
+      </TouchableOpacity>
+      <Text style={[styles.stepValue, { color: theme.colors.text }]}>
+        {label}
+      </Text>
+      <TouchableOpacity
+        style={[styles.stepButton, { borderColor: theme.colors.icon }]}
+        onPress={onIncrease}
+      >
+        <IconSymbol name="plus" size={16} color={theme.colors.icon} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={[styles.label, { color: theme.colors.text }]}>
+          Tempo Trainer
+        </Text>
+        <Switch
+          value={settings.enabled}
+          onValueChange={(enabled) => update({ enabled })}
+          trackColor={{ false: theme.colors.icon, true: theme.colors.accent }}
+        />
+      </View>
+
+      {settings.enabled && (
+        <>
+          {/* Progress towards the target tempo */}
+          <View style={[styles.progressTrack, { backgroundColor: 'rgba(255, 255, 255, 0.1)' }]}>
+            <View
+              style={[
+                styles.progressFill,
+                { width: `${Math.round(progress * 100)}%`, backgroundColor: theme.colors.accent }
+              ]}
+            />
+          </View>
+          <Text style={[styles.progressText, { color: theme.colors.text }]}>
+            {settings.startBpm} → {settings.targetBpm} BPM · {finished ? 'Target reached' : `${Math.round(progress * 100)}%`}
+          </Text>
+
+          {renderStepper(
+            `Start ${settings.startBpm}`,
+            () => update({ startBpm: clampBpm(settings.startBpm - 1) }),
+            () => update({ startBpm: clampBpm(settings.startBpm + 1) })
+          )}
+          {renderStepper(
+            `Target ${settings.targetBpm}`,
+            () => update({ targetBpm: clampBpm(settings.targetBpm - 1) }),
+            () => update({ targetBpm: clampBpm(settings.targetBpm + 1) })
+          )}
+          {renderStepper(
+            `Step ${settings.step} BPM`,
+            () => update({ step: Math.max(1, settings.step - 1) }),
+            () => update({ step: settings.step + 1 })
+          )}
+          {renderStepper(
+            `Every ${settings.interval} ${settings.intervalUnit === 'bars' ? 'bars' : 'sec'}`,
+            () => update({ interval: Math.max(1, settings.interval - 1) }),
+            () => update({ interval: settings.interval + 1 })
+          )}
+
+          <View style={styles.optionsContainer}>
+            {TRAINER_INTERVAL_UNITS.map((unit) => (
+              <TouchableOpacity
+                key={unit.value}
+                style={[
+                  styles.optionButton,
+                  {
+                    borderColor: settings.intervalUnit === unit.value ? theme.colors.accent : theme.colors.icon,
+                    backgroundColor: settings.intervalUnit === unit.value
+                      ? 'rgba(187, 134, 252, 0.2)'
+                      : 'transparent',
+                  }
+                ]}
+                onPress={() => update({ intervalUnit: unit.value })}
+              >
+                <Text
+                  style={[
+                    styles.optionLabel,
+                    { color: settings.intervalUnit === unit.value ? theme.colors.accent : theme.colors.text }
+                  ]}
+                >
+                  {unit.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {/* Drop back and climb again once the target is reached */}
+          {renderStepper(
+            settings.dropBack > 0 ? `Drop back ${settings.dropBack} BPM` : 'No drop back',
+            () => update({ dropBack: Math.max(0, settings.dropBack - settings.step) }),
+            () => update({ dropBack: settings.dropBack + settings.step })
+          )}
+
+          {onReset && (
+            <TouchableOpacity
+              style={[styles.optionButton, { borderColor: theme.colors.icon }]}
+              onPress={onReset}
+            >
+              <Text style={[styles.optionLabel, { color: theme.colors.text }]}>
+                Restart From {settings.startBpm} BPM
+              </Text>
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    paddingVertical: 16,
+    gap: 12,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  progressTrack: {
+    width: '80%',
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  progressText: {
+    fontSize: 12,
+  },
+  optionsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  optionButton: {
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderRadius: 8,
+    minWidth: 80,
+    justifyContent: 'center',
+  },
+  optionLabel: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderWidth: 1,
+    borderRadius: 6,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    minWidth: 130,
+    textAlign: 'center',
+  },
+});
@@ -1,11 +1,12 @@
 import React from 'react';
 import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { useAppTheme } from '../../theme/AppTheme';
+import { formatGrouping, getGrouping, getGroupingOptions, TimeSignature } from '../../utils/meterGrouping';
 import { IconSymbol } from '../ui/IconSymbol';
 
 interface TimeSignatureSelectorProps {
-  value: { numerator: number; denominator: number };
-  onChange: (value: { numerator: number; denominator: number }) => void;
+  value: TimeSignature;
+  onChange: (value: TimeSignature) => void;
 }
 
 export const TimeSignatureSelector: React.FC<TimeSignatureSelectorProps> = ({
@@ -18,7 +19,22 @@ export const TimeSignatureSelector: React.FC<TimeSignatureSelectorProps> = ({
     const newNumerator = direction === 'up'
       ? Math.min(16, value.numerator + 1)
       : Math.max(1, value.numerator - 1);
-    onChange({ ...value, numerator: newNumerator });
+    // A grouping only fits the numerator it was made for
+    onChange({ numerator: newNumerator, denominator: value.denominator });
+  };
+
+  // Cycle through the 2+3 groupings of the bar, then back to ungrouped
+  const groupingOptions = getGroupingOptions(value.numerator);
+  const grouping = getGrouping(value);
+
+  const handleGroupingChange = () => {
+    const currentIndex = grouping
+      ? groupingOptions.findIndex(option => formatGrouping(option) === formatGrouping(grouping))
+      : -1;
+    const next = groupingOptions[currentIndex + 1];
+    onChange(next
+      ? { ...value, grouping: next }
+      : { numerator: value.numerator, denominator: value.denominator });
   };
 
   const handleDenominatorChange = (direction: 'up' | 'down') => {
@@ -34,51 +50,65 @@ export const TimeSignatureSelector: React.FC<TimeSignatureSelectorProps> = ({
   };
 
   return (
-    <View style={[styles.container, { borderColor: theme.colors.accent }]}>
-      {/* Numerator Controls */}
-      <View style={styles.controlGroup}>
-        <TouchableOpacity
-          style={[styles.button, { borderColor: theme.colors.icon }]}
-          onPress={() => handleNumeratorChange('up')}
-        >
-          <IconSymbol name="chevron.up" size={16} color={theme.colors.icon} />
-        </TouchableOpacity>
+    <View>
+      <View style={[styles.container, { borderColor: theme.colors.accent }]}>
+        {/* Numerator Controls */}
+        <View style={styles.controlGroup}>
+          <TouchableOpacity
+            style={[styles.button, { borderColor: theme.colors.icon }]}
+            onPress={() => handleNumeratorChange('up')}
+          >
+            <IconSymbol name="chevron.up" size={16} color={theme.colors.icon} />
+          </TouchableOpacity>
 
-        <Text style={[styles.number, { color: theme.colors.text }]}>
-          {value.numerator}
-        </Text>
+          <Text style={[styles.number, { color: theme.colors.text }]}>
+            {value.numerator}
+          </Text>
 
-        <TouchableOpacity
-          style={[styles.button, { borderColor: theme.colors.icon }]}
-          onPress={() => handleNumeratorChange('down')}
-        >
-          <IconSymbol name="chevron.down" size={16} color={theme.colors.icon} />
-        </TouchableOpacity>
-      </View>
+          <TouchableOpacity
+            style={[styles.button, { borderColor: theme.colors.icon }]}
+            onPress={() => handleNumeratorChange('down')}
+          >
+            <IconSymbol name="chevron.down" size={16} color={theme.colors.icon} />
+          </TouchableOpacity>
+        </View>
 
-      {/* Divider Line */}
-      <View style={[styles.divider, { backgroundColor: theme.colors.icon }]} />
+        {/* Divider Line */}
+        <View style={[styles.divider, { backgroundColor: theme.colors.icon }]} />
 
-      {/* Denominator Controls */}
-      <View style={styles.controlGroup}>
-        <TouchableOpacity
-          style={[styles.button, { borderColor: theme.colors.icon }]}
-          onPress={() => handleDenominatorChange('up')}
-        >
-          <IconSymbol name="chevron.up" size={16} color={theme.colors.icon} />
-        </TouchableOpacity>
+        {/* Denominator Controls */}
+        <View style={styles.controlGroup}>
+          <TouchableOpacity
+            style={[styles.button, { borderColor: theme.colors.icon }]}
+            onPress={() => handleDenominatorChange('up')}
+          >
+            <IconSymbol name="chevron.up" size={16} color={theme.colors.icon} />
+          </TouchableOpacity>
 
-        <Text style={[styles.number, { color: theme.colors.text }]}>
-          {value.denominator}
-        </Text>
+          <Text style={[styles.number, { color: theme.colors.text }]}>
+            {value.denominator}
+          </Text>
 
+          <TouchableOpacity
+            style={[styles.button, { borderColor: theme.colors.icon }]}
+            onPress={() => handleDenominatorChange('down')}
+          >
+            <IconSymbol name="chevron.down" size={16} color={theme.colors.icon} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* Beat grouping for compound and additive meters */}
+      {groupingOptions.length > 0 && (
         <TouchableOpacity
-          style={[styles.button, { borderColor: theme.colors.icon }]}
-          onPress={() => handleDenominatorChange('down')}
+          style={[styles.groupingButton, { borderColor: grouping ? theme.colors.accent : theme.colors.icon }]}
+          onPress={handleGroupingChange}
         >
-          <IconSymbol name="chevron.down" size={16} color={theme.colors.icon} />
+          <Text style={[styles.groupingText, { color: grouping ? theme.colors.accent : theme.colors.icon }]}>
+            {grouping ? `Grouping ${formatGrouping(grouping)}` : 'No grouping'}
+          </Text>
         </TouchableOpacity>
-      </View>
+      )}
     </View>
   );
 };
@@ -114,6 +144,17 @@ const styles = StyleSheet.create({
     minWidth: 40,
     marginVertical: 8,
   },
+  groupingButton: {
+    marginTop: 8,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  groupingText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
   divider: {
     width: 2,
     height: 40,
@@ -0,0 +1,269 @@
+import React, { useEffect, useState } from 'react';
+import {
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View
+} from 'react-native';
+import { useAppTheme } from '../../theme/AppTheme';
+import { getTotalMeasureCount } from '../../utils/showMeasures';
+import { IconSymbol } from '../ui/IconSymbol';
+
+interface ExportableShow {
+  id: string;
+  name: string;
+  measures: { count?: number }[];
+}
+
+interface ExportShowsModalProps {
+  visible: boolean;
+  shows: ExportableShow[];
+  initialSelection: string[]; // Show ids ticked when the modal opens
+  onExport: (showIds: string[]) => void;
+  onExportWav: (showId: string) => void; // Share one show's click track as a WAV file
+  onExportMidi: (showId: string) => void; // Share one show as a Standard MIDI File
+  onClose: () => void;
+}
+
+export const ExportShowsModal: React.FC<ExportShowsModalProps> = ({
+  visible,
+  shows,
+  initialSelection,
+  onExport,
+  onExportWav,
+  onExportMidi,
+  onClose,
+}) => {
+  const theme = useAppTheme();
+  const [selected, setSelected] = useState<string[]>(initialSelection);
+
+  useEffect(() => {
+    if (visible) {
+      setSelected(initialSelection);
+    }
+  }, [visible, initialSelection]);
+
+  const allSelected = shows.length > 0 && selected.length === shows.length;
+
+  const toggleShow = (showId: string) => {
+    setSelected(current => current.includes(showId)
+      ? current.filter(id => id !== showId)
+      : [...current, showId]
+    );
+  };
+
+  const toggleAll = () => {
+    setSelected(allSelected ? [] : shows.map(show => show.id));
+  };
+
+  // Keep the shows' order, whatever order they were ticked in
+  const exportSelected = () => {
+    onExport(shows.filter(show => selected.includes(show.id)).map(show => show.id));
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={[styles.modal, { backgroundColor: theme.colors.background }]}>
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: theme.colors.text }]}>
+              Export Shows
+            </Text>
+            <TouchableOpacity
+              style={[styles.closeButton, { borderColor: theme.colors.icon }]}
+              onPress={onClose}
+            >
+              <IconSymbol name="xmark" size={16} color={theme.colors.icon} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+            <TouchableOpacity style={styles.selectAll} onPress={toggleAll}>
+              <Text style={[styles.selectAllText, { color: theme.colors.accent }]}>
+                {allSelected ? 'Select None' : 'Select All'}
+              </Text>
+            </TouchableOpacity>
+
+            {shows.map((show) => {
+              const isSelected = selected.includes(show.id);
+              return (
+                <TouchableOpacity
+                  key={show.id}
+                  style={[
+                    styles.showItem,
+                    {
+                      borderColor: isSelected ? theme.colors.accent : theme.colors.icon,
+                      backgroundColor: isSelected ? 'rgba(187, 134, 252, 0.1)' : 'transparent',
+                    }
+                  ]}
+                  onPress={() => toggleShow(show.id)}
+                >
+                  <IconSymbol
+                    name={isSelected ? 'checkmark.circle.fill' : 'circle'}
+                    size={20}
+                    color={isSelected ? theme.colors.accent : theme.colors.icon}
+                  />
+                  <View style={styles.showInfo}>
+                    <Text style={[styles.showName, { color: theme.colors.text }]}>
+                      {show.name}
+                    </Text>
+                    <Text style={[styles.showDetails, { color: theme.colors.icon }]}>
+                      {getTotalMeasureCount(show.measures)} measures
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            {/* One show is shared as a show file, several as a zip archive of show files */}
+            <TouchableOpacity
+              style={[
+                styles.exportButton,
+                { backgroundColor: theme.colors.accent, opacity: selected.length > 0 ? 1 : 0.5 }
+              ]}
+              onPress={exportSelected}
+              disabled={selected.length === 0}
+            >
+              <Text style={[styles.exportButtonText, { color: theme.colors.text }]}>
+                {selected.length > 1 ? `Export ${selected.length} Shows as Archive` : 'Export Show'}
+              </Text>
+            </TouchableOpacity>
+
+            {/* WAV and MIDI files hold a single show */}
+            {selected.length === 1 && (
+              <View style={styles.formatButtons}>
+                <TouchableOpacity
+                  style={[styles.formatButton, { borderColor: theme.colors.accent }]}
+                  onPress={() => onExportWav(selected[0])}
+                >
+                  <Text style={[styles.formatButtonText, { color: theme.colors.accent }]}>
+                    Click Track (WAV)
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.formatButton, { borderColor: theme.colors.accent }]}
+                  onPress={() => onExportMidi(selected[0])}
+                >
+                  <Text style={[styles.formatButtonText, { color: theme.colors.accent }]}>
+                    MIDI File
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modal: {
+    width: '90%',
+    maxHeight: '80%',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderWidth: 1,
+    borderRadius: 6,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  selectAll: {
+    alignSelf: 'flex-end',
+    marginBottom: 8,
+  },
+  selectAllText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  showItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderRadius: 6,
+    marginVertical: 4,
+  },
+  showInfo: {
+    flex: 1,
+  },
+  showName: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  showDetails: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  exportButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  exportButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  formatButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  formatButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  formatButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
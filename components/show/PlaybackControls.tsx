@@ -5,6 +5,7 @@ import { IconSymbol } from '../ui/IconSymbol';
 
 interface PlaybackControlsProps {
   isPlaying: boolean;
+  isHolding?: boolean; // playback is waiting on a hold
   currentMeasure: number;
   totalMeasures: number;
   onPlayPause: () => void;
@@ -12,10 +13,12 @@ interface PlaybackControlsProps {
   onNext?: () => void;
   onRestart?: () => void;
   showPlaybackOptions?: () => void;
+  onResumeHold?: () => void;
 }
 
 export const PlaybackControls: React.FC<PlaybackControlsProps> = ({
   isPlaying,
+  isHolding = false,
   currentMeasure,
   totalMeasures,
   onPlayPause,
@@ -23,6 +26,7 @@ export const PlaybackControls: React.FC<PlaybackControlsProps> = ({
   onNext,
   onRestart,
   showPlaybackOptions,
+  onResumeHold,
 }) => {
   const theme = useAppTheme();
 
@@ -100,12 +104,24 @@ export const PlaybackControls: React.FC<PlaybackControlsProps> = ({
         )}
       </View>
 
-      {/* Playback Status */}
-      <View style={styles.statusRow}>
-        <Text style={[styles.statusText, { color: isPlaying ? theme.colors.accent : theme.colors.icon }]}>
-          {isPlaying ? 'Playing' : 'Paused'}
-        </Text>
-      </View>
+      {/* Playback Status - tap to continue when holding */}
+      {isHolding && onResumeHold ? (
+        <TouchableOpacity
+          style={[styles.holdButton, { backgroundColor: theme.colors.orange }]}
+          onPress={onResumeHold}
+          activeOpacity={0.8}
+        >
+          <Text style={[styles.holdText, { color: theme.colors.background }]}>
+            Hold - Tap to Continue
+          </Text>
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.statusRow}>
+          <Text style={[styles.statusText, { color: isPlaying ? theme.colors.accent : theme.colors.icon }]}>
+            {isPlaying ? 'Playing' : 'Paused'}
+          </Text>
+        </View>
+      )}
     </View>
   );
 };
@@ -169,4 +185,13 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  holdButton: {
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  holdText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
 });
@@ -8,6 +8,8 @@ import {
     View
 } from 'react-native';
 import { useAppTheme } from '../../theme/AppTheme';
+import { CountInSettings } from '../../utils/countIn';
+import { CountInSettingsSection } from '../CountInSettingsSection';
 import { IconSymbol } from '../ui/IconSymbol';
 
 interface PlaybackOptions {
@@ -25,6 +27,9 @@ interface PlaybackOptionsModalProps {
   onChange: (options: PlaybackOptions) => void;
   onClose: () => void;
   totalMeasures: number;
+  // Count-in of the selected show, saved with the show
+  countIn?: Partial<CountInSettings>;
+  onCountInChange?: (countIn: CountInSettings) => void;
 }
 
 export const PlaybackOptionsModal: React.FC<PlaybackOptionsModalProps> = ({
@@ -33,6 +38,8 @@ export const PlaybackOptionsModal: React.FC<PlaybackOptionsModalProps> = ({
   onChange,
   onClose,
   totalMeasures,
+  countIn,
+  onCountInChange,
 }) => {
   const theme = useAppTheme();
 
@@ -219,6 +226,9 @@ export const PlaybackOptionsModal: React.FC<PlaybackOptionsModalProps> = ({
           <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
             {renderStartSection()}
             {renderEndSection()}
+            {onCountInChange && (
+              <CountInSettingsSection settings={countIn} onChange={onCountInChange} />
+            )}
           </ScrollView>
 
           <View style={styles.footer}>
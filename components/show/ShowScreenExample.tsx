@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { StyleSheet, View } from 'react-native';
 import { useSoundSystem } from '../../contexts/SoundSystemContext';
 import { useAppTheme } from '../../theme/AppTheme';
+import { getPlaybackStartOptions } from '../../utils/showTimeline';
 import { PlaybackControls } from './PlaybackControls';
 import { PlaybackOptionsModal } from './PlaybackOptionsModal';
 import { ShowSelector } from './ShowSelector';
@@ -113,8 +114,8 @@ export const ShowScreenExample: React.FC = () => {
     } else {
       // Start playback
       if (selectedShow && soundSystemRef.current) {
-        soundSystemRef.current.startShowPlayback(selectedShow, playbackOptions);
-        setIsPlaying(true);
+        soundSystemRef.current.startShowPlayback(selectedShow, getPlaybackStartOptions(playbackOptions, currentMeasure))
+          .then(() => setIsPlaying(true), () => setIsPlaying(false));
       }
     }
   };
@@ -134,11 +135,11 @@ export const ShowScreenExample: React.FC = () => {
   const handleRestart = () => {
     setCurrentMeasure(1);
     if (selectedShow && soundSystemRef.current) {
-      soundSystemRef.current.startShowPlayback(selectedShow, {
+      soundSystemRef.current.startShowPlayback(selectedShow, getPlaybackStartOptions({
         ...playbackOptions,
         startType: 'specific',
         startMeasure: '1',
-      });
+      }, 1));
     }
   };
 
@@ -1,6 +1,7 @@
 import React from 'react';
 import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { useAppTheme } from '../../theme/AppTheme';
+import { getTotalMeasureCount } from '../../utils/showMeasures';
 import { IconSymbol } from '../ui/IconSymbol';
 
 interface Show {
@@ -24,6 +25,7 @@ interface ShowSelectorProps {
   onAddShow: () => void;
   onRenameShow?: (showId: string, newName: string) => void;
   onDeleteShow?: (showId: string) => void;
+  onExportShows?: () => void; // Share shows as files
 }
 
 export const ShowSelector: React.FC<ShowSelectorProps> = ({
@@ -33,6 +35,7 @@ export const ShowSelector: React.FC<ShowSelectorProps> = ({
   onAddShow,
   onRenameShow,
   onDeleteShow,
+  onExportShows,
 }) => {
   const theme = useAppTheme();
 
@@ -42,12 +45,22 @@ export const ShowSelector: React.FC<ShowSelectorProps> = ({
         <Text style={[styles.title, { color: theme.colors.text }]}>
           Shows
         </Text>
-        <TouchableOpacity
-          style={[styles.addButton, { borderColor: theme.colors.accent }]}
-          onPress={onAddShow}
-        >
-          <IconSymbol name="plus" size={16} color={theme.colors.accent} />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          {onExportShows && shows.length > 0 && (
+            <TouchableOpacity
+              style={[styles.addButton, { borderColor: theme.colors.accent }]}
+              onPress={onExportShows}
+            >
+              <IconSymbol name="square.and.arrow.up" size={16} color={theme.colors.accent} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.addButton, { borderColor: theme.colors.accent }]}
+            onPress={onAddShow}
+          >
+            <IconSymbol name="plus" size={16} color={theme.colors.accent} />
+          </TouchableOpacity>
+        </View>
       </View>
 
       <ScrollView style={styles.showList} showsVerticalScrollIndicator={false}>
@@ -70,7 +83,7 @@ export const ShowSelector: React.FC<ShowSelectorProps> = ({
                 {show.name}
               </Text>
               <Text style={[styles.showDetails, { color: theme.colors.icon }]}>
-                {show.measures.length} measures
+                {getTotalMeasureCount(show.measures)} measures
               </Text>
             </View>
 
@@ -132,6 +145,10 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   addButton: {
     width: 32,
     height: 32,
@@ -1,13 +1,17 @@
 import React from 'react';
 import { ScrollView, StyleSheet, Text, View } from 'react-native';
 import { useAppTheme } from '../../theme/AppTheme';
+import { formatTimeSignature, TimeSignature } from '../../utils/meterGrouping';
+import { getMeasureCount, getMeasureStartNumbers, getTotalMeasureCount } from '../../utils/showMeasures';
+import { getRampTempo, TempoChange } from '../../utils/tempoCurve';
 
 interface Measure {
   id: string;
-  timeSignature: { numerator: number; denominator: number };
+  timeSignature: TimeSignature;
   tempo: number;
   count: number;
   letter?: string;
+  tempoChange?: TempoChange;
 }
 
 interface Show {
@@ -16,6 +20,25 @@ interface Show {
   measures: Measure[];
 }
 
+// Number of steps and height of the accel./rit. ramp drawing
+const RAMP_STEPS = 8;
+const RAMP_HEIGHT = 10;
+
+// Step heights (0..1) sampling a measure's tempo curve, lowest tempo shortest
+function getRampHeights(measure: Measure): number[] {
+  const tempos = Array.from({ length: RAMP_STEPS }, (_, step) =>
+    getRampTempo(measure, step / (RAMP_STEPS - 1))
+  );
+  const minTempo = Math.min(...tempos);
+  const range = Math.max(...tempos) - minTempo || 1;
+  return tempos.map(tempo => 0.2 + 0.8 * ((tempo - minTempo) / range));
+}
+
+function getTempoText(measure: Measure): string {
+  if (!measure.tempoChange) return `${measure.tempo}`;
+  return `${Math.round(measure.tempo)}→${Math.round(measure.tempoChange.endTempo)}`;
+}
+
 interface ShowVisualizerProps {
   show: Show | null;
   currentMeasure: number;
@@ -41,6 +64,8 @@ export const ShowVisualizer: React.FC<ShowVisualizerProps> = ({
     );
   }
 
+  const startNumbers = getMeasureStartNumbers(show.measures);
+
   return (
     <View style={[styles.container, { borderColor: theme.colors.accent }]}>
       <View style={styles.header}>
@@ -48,7 +73,7 @@ export const ShowVisualizer: React.FC<ShowVisualizerProps> = ({
           {show.name}
         </Text>
         <Text style={[styles.measureCount, { color: theme.colors.icon }]}>
-          {show.measures.length} measures
+          {getTotalMeasureCount(show.measures)} measures
         </Text>
       </View>
 
@@ -60,8 +85,11 @@ export const ShowVisualizer: React.FC<ShowVisualizerProps> = ({
       >
         <View style={styles.measuresRow}>
           {show.measures.map((measure, index) => {
-            const isCurrentMeasure = index + 1 === currentMeasure;
-            const isPastMeasure = index + 1 < currentMeasure;
+            // One card covers every bar of the entry
+            const firstBar = startNumbers[index];
+            const lastBar = firstBar + getMeasureCount(measure) - 1;
+            const isCurrentMeasure = currentMeasure >= firstBar && currentMeasure <= lastBar;
+            const isPastMeasure = lastBar < currentMeasure;
 
             return (
               <View
@@ -96,7 +124,7 @@ export const ShowVisualizer: React.FC<ShowVisualizerProps> = ({
                       }
                     ]}
                   >
-                    {index + 1}
+                    {firstBar === lastBar ? firstBar : `${firstBar}-${lastBar}`}
                   </Text>
                   {measure.letter && (
                     <Text
@@ -124,7 +152,7 @@ export const ShowVisualizer: React.FC<ShowVisualizerProps> = ({
                       { color: theme.colors.text }
                     ]}
                   >
-                    {measure.timeSignature.numerator}/{measure.timeSignature.denominator}
+                    {formatTimeSignature(measure.timeSignature)}
                   </Text>
                 </View>
 
@@ -136,15 +164,30 @@ export const ShowVisualizer: React.FC<ShowVisualizerProps> = ({
                       { color: theme.colors.text }
                     ]}
                   >
-                    {measure.tempo}
+                    {getTempoText(measure)}
                   </Text>
+                  {measure.tempoChange && (
+                    <View style={styles.ramp}>
+                      {getRampHeights(measure).map((height, step) => (
+                        <View
+                          key={step}
+                          style={[
+                            styles.rampStep,
+                            { height: height * RAMP_HEIGHT, backgroundColor: theme.colors.accent }
+                          ]}
+                        />
+                      ))}
+                    </View>
+                  )}
                   <Text
                     style={[
                       styles.tempoLabel,
                       { color: theme.colors.icon }
                     ]}
                   >
-                    BPM
+                    {measure.tempoChange
+                      ? `BPM ${measure.tempoChange.endTempo > measure.tempo ? 'accel.' : 'rit.'}`
+                      : 'BPM'}
                   </Text>
                 </View>
 
@@ -156,7 +199,7 @@ export const ShowVisualizer: React.FC<ShowVisualizerProps> = ({
                       { color: theme.colors.icon }
                     ]}
                   >
-                    {measure.count}x
+                    {getMeasureCount(measure)}x
                   </Text>
                 </View>
 
@@ -245,6 +288,17 @@ const styles = StyleSheet.create({
     fontSize: 10,
     marginTop: 2,
   },
+  ramp: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: RAMP_HEIGHT,
+    gap: 2,
+    marginTop: 2,
+  },
+  rampStep: {
+    width: 4,
+    borderRadius: 1,
+  },
   count: {
     marginTop: 'auto',
   },
@@ -20,6 +20,9 @@ const MAPPING = {
   'chevron.right': 'chevron-right',
   'list.bullet.rectangle': 'list',
   'tuningfork': 'music-note',
+  'square.and.arrow.up': 'ios-share',
+  'checkmark.circle.fill': 'check-circle',
+  'circle': 'radio-button-unchecked',
 } as IconMapping;
 
 /**
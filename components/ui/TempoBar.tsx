@@ -1,22 +1,54 @@
 import React from 'react';
-import { StyleSheet, Text, View } from 'react-native';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { useAppTheme } from '../../theme/AppTheme';
+import { AccentLevel } from '../../utils/accentPattern';
 
 interface TempoBarProps {
   beats: number; // Number of beats in the measure (time signature numerator)
+  groupStarts?: number[]; // 0-based beats starting a group in a grouped meter
   currentBeat?: number; // Current beat (1-based, 0 means no beat active)
+  silent?: boolean; // Gap trainer silent bar: beats keep advancing, outlined instead of lit
   subdivision?: number; // Current subdivision level
+  levels?: AccentLevel[]; // Accent level of each beat
+  subdivisionLevels?: AccentLevel[][]; // Per beat, levels of the subdivision clicks after it
+  onAccentPress?: (beatIndex: number, subdivisionIndex: number) => void; // Tap to cycle a level
+  layers?: TempoBarLayer[]; // Polyrhythm and polymeter layers, drawn one row each
+  onLayerAccentPress?: (layerIndex: number, pulseIndex: number) => void; // Tap to cycle a pulse's level
 }
 
+export interface TempoBarLayer {
+  id: string;
+  label: string; // e.g. "3:4" or "7/8"
+  levels: AccentLevel[]; // Accent level of each pulse
+  currentPulse?: number; // Sounding pulse (0-based, -1 or undefined for none)
+}
+
+// Muted and ghosted clicks fade out of the bar
+const LEVEL_OPACITY: Record<AccentLevel, number> = {
+  accent: 1,
+  normal: 1,
+  ghost: 0.6,
+  mute: 0.25,
+};
+
 export const TempoBar: React.FC<TempoBarProps> = ({
   beats,
+  groupStarts,
   currentBeat = 0,
+  silent = false,
   subdivision = 1,
+  levels,
+  subdivisionLevels,
+  onAccentPress,
+  layers,
+  onLayerAccentPress,
 }) => {
   const theme = useAppTheme();
 
   // Create array of beat indicators
   const beatIndicators = Array.from({ length: beats }, (_, index) => index + 1);
+  // With accents editable, each beat shows its own subdivision clicks
+  const showBeatSubdivisions = !!onAccentPress && subdivision > 1;
 
   return (
     <View style={styles.container}>
@@ -24,50 +56,83 @@ export const TempoBar: React.FC<TempoBarProps> = ({
         {beatIndicators.map((beatNumber) => {
           const isActive = currentBeat === beatNumber;
           const isDownbeat = beatNumber === 1;
+          // Group starts are accented like the downbeat and set apart
+          const isGroupStart = !!groupStarts && groupStarts.includes(beatNumber - 1);
+          const level = levels?.[beatNumber - 1];
+          const isAccented = level ? level === 'accent' : isDownbeat || isGroupStart;
 
           return (
             <View
               key={beatNumber}
-              style={[
-                styles.beatIndicator,
-                {
-                  backgroundColor: isActive
-                    ? (isDownbeat ? theme.colors.accent : theme.colors.primary)
-                    : 'rgba(255, 255, 255, 0.1)',
-                  borderColor: isActive
-                    ? (isDownbeat ? theme.colors.accent : theme.colors.primary)
-                    : theme.colors.icon,
-                  transform: isActive ? [{ scale: 1.2 }] : [{ scale: 1 }],
-                }
-              ]}
+              style={[styles.beatColumn, isGroupStart && !isDownbeat && styles.groupStart]}
             >
-              {/* Beat number */}
-              <View style={[
-                styles.beatNumber,
-                {
-                  backgroundColor: isActive
-                    ? (isDownbeat ? theme.colors.accent : theme.colors.primary)
-                    : 'transparent',
-                }
-              ]}>
-                {/* Only show number on downbeat or when active */}
-                {(isDownbeat || isActive) && (
-                  <Text style={{
-                    color: theme.colors.text,
-                    fontSize: 12,
-                    fontWeight: isDownbeat ? 'bold' : 'normal'
-                  }}>
-                    {beatNumber}
-                  </Text>
-                )}
-              </View>
+              <TouchableOpacity
+                disabled={!onAccentPress}
+                onPress={() => onAccentPress?.(beatNumber - 1, 0)}
+                style={[
+                  styles.beatIndicator,
+                  {
+                    opacity: (level ? LEVEL_OPACITY[level] : 1) * (silent ? 0.5 : 1),
+                    backgroundColor: isActive && !silent
+                      ? (isAccented ? theme.colors.accent : theme.colors.primary)
+                      : 'rgba(255, 255, 255, 0.1)',
+                    borderColor: isActive
+                      ? (isAccented ? theme.colors.accent : theme.colors.primary)
+                      : theme.colors.icon,
+                    transform: isActive ? [{ scale: 1.2 }] : [{ scale: 1 }],
+                  }
+                ]}
+              >
+                {/* Beat number */}
+                <View style={[
+                  styles.beatNumber,
+                  {
+                    backgroundColor: isActive
+                      ? (isAccented ? theme.colors.accent : theme.colors.primary)
+                      : 'transparent',
+                  }
+                ]}>
+                  {/* Only show number on accented beats or when active */}
+                  {(isAccented || isActive) && (
+                    <Text style={{
+                      color: theme.colors.text,
+                      fontSize: 12,
+                      fontWeight: isAccented ? 'bold' : 'normal'
+                    }}>
+                      {beatNumber}
+                    </Text>
+                  )}
+                </View>
+              </TouchableOpacity>
+
+              {/* Subdivision clicks of this beat, tap to cycle their level */}
+              {showBeatSubdivisions && (
+                <View style={styles.beatSubdivisions}>
+                  {Array.from({ length: subdivision - 1 }, (_, index) => {
+                    const subLevel = subdivisionLevels?.[beatNumber - 1]?.[index] || 'normal';
+                    return (
+                      <TouchableOpacity
+                        key={index}
+                        onPress={() => onAccentPress?.(beatNumber - 1, index + 1)}
+                        style={[
+                          styles.beatSubdivisionDot,
+                          {
+                            backgroundColor: subLevel === 'accent' ? theme.colors.accent : theme.colors.icon,
+                            opacity: LEVEL_OPACITY[subLevel],
+                          }
+                        ]}
+                      />
+                    );
+                  })}
+                </View>
+              )}
             </View>
           );
         })}
       </View>
 
       {/* Subdivision indicators (if subdivision > 1) */}
-      {subdivision > 1 && (
+      {subdivision > 1 && !showBeatSubdivisions && (
         <View style={styles.subdivisionContainer}>
           {Array.from({ length: subdivision }, (_, index) => (
             <View
@@ -85,6 +150,39 @@ export const TempoBar: React.FC<TempoBarProps> = ({
           ))}
         </View>
       )}
+
+      {/* Layer rows: pulses spread across the track, tap to cycle their level */}
+      {layers && layers.map((layer, layerIndex) => (
+        <View key={layer.id} style={styles.layerRow}>
+          <Text style={[styles.layerLabel, { color: theme.colors.text }]}>
+            {layer.label}
+          </Text>
+          <View style={[styles.layerTrack, { borderColor: theme.colors.icon }]}>
+            {layer.levels.map((level, pulseIndex) => {
+              const isActive = layer.currentPulse === pulseIndex;
+              return (
+                <TouchableOpacity
+                  key={pulseIndex}
+                  disabled={!onLayerAccentPress}
+                  onPress={() => onLayerAccentPress?.(layerIndex, pulseIndex)}
+                  style={[
+                    styles.layerPulse,
+                    {
+                      left: `${(pulseIndex / layer.levels.length) * 100}%`,
+                      opacity: LEVEL_OPACITY[level],
+                      backgroundColor: isActive
+                        ? (level === 'accent' ? theme.colors.accent : theme.colors.primary)
+                        : 'rgba(255, 255, 255, 0.1)',
+                      borderColor: level === 'accent' ? theme.colors.accent : theme.colors.icon,
+                      transform: isActive ? [{ scale: 1.2 }] : [{ scale: 1 }],
+                    }
+                  ]}
+                />
+              );
+            })}
+          </View>
+        </View>
+      ))}
     </View>
   );
 };
@@ -117,6 +215,12 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 4,
   },
+  beatColumn: {
+    alignItems: 'center',
+  },
+  groupStart: {
+    marginLeft: 12,
+  },
   beatNumber: {
     width: 24,
     height: 24,
@@ -136,4 +240,39 @@ const styles = StyleSheet.create({
     height: 8,
     borderRadius: 4,
   },
+  beatSubdivisions: {
+    flexDirection: 'row',
+    marginTop: 10,
+    gap: 2,
+  },
+  beatSubdivisionDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  layerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  layerLabel: {
+    width: 40,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  layerTrack: {
+    width: 240,
+    height: 24,
+    marginHorizontal: 10,
+    borderBottomWidth: 1,
+  },
+  layerPulse: {
+    position: 'absolute',
+    top: 2,
+    width: 20,
+    height: 20,
+    marginLeft: -10,
+    borderRadius: 10,
+    borderWidth: 2,
+  },
 });
@@ -1,6 +1,7 @@
-import React, { createContext, useContext, useRef, useState } from 'react';
-import { View } from 'react-native';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { Alert, View } from 'react-native';
 import SoundSystem, { SoundSystemRef } from '../components/SoundSystem';
+import { ProtocolErrorEventPayload, soundSystemEvents, SoundSystemEventType } from '../utils/SoundSystemEvents';
 
 interface SoundSystemContextType {
   soundSystemRef: React.RefObject<SoundSystemRef>;
@@ -12,6 +13,14 @@ interface SoundSystemContextType {
 
 const SoundSystemContext = createContext<SoundSystemContextType | null>(null);
 
+// How protocol error alerts name the WebView a message was for
+const PROTOCOL_ERROR_SOURCES: Record<ProtocolErrorEventPayload['source'], string> = {
+  soundSystem: 'sound engine',
+  metronome: 'metronome screen',
+  show: 'show screen',
+  tuner: 'tuner screen',
+};
+
 export const useSoundSystem = () => {
   const context = useContext(SoundSystemContext);
   if (!context) {
@@ -28,6 +37,26 @@ export const SoundSystemProvider: React.FC<SoundSystemProviderProps> = ({ childr
   const soundSystemRef = useRef<SoundSystemRef>(null);
   const [isInitialized, setIsInitialized] = useState(false);
   const [currentMode, setCurrentMode] = useState<'metronome' | 'show' | 'tuner' | null>(null);
+  const isShowingProtocolError = useRef(false);
+
+  // Messages that failed their schema at either end; one alert at a time,
+  // since a broken message type usually fails again and again
+  useEffect(() => {
+    const subscription = soundSystemEvents.addListener((event) => {
+      if (event.type !== SoundSystemEventType.PROTOCOL_ERROR || isShowingProtocolError.current) return;
+      const { source, messageType, errors } = event.payload as ProtocolErrorEventPayload;
+      const target = PROTOCOL_ERROR_SOURCES[source];
+      isShowingProtocolError.current = true;
+      Alert.alert(
+        'Message Error',
+        `A message for the ${target} (${messageType}) could not be read, so the ${target} may not play or ` +
+          `display correctly. Restarting the app should fix this.${errors[0] ? `\n\n${errors[0]}` : ''}`,
+        [{ text: 'OK', onPress: () => { isShowingProtocolError.current = false; } }],
+        { onDismiss: () => { isShowingProtocolError.current = false; } }
+      );
+    });
+    return () => subscription.remove();
+  }, []);
 
   const initializeSoundSystem = () => {
     if (soundSystemRef.current && !isInitialized) {
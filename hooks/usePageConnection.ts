@@ -0,0 +1,27 @@
+import { useRef } from 'react';
+import { createPageConnection, PageConnection } from '../utils/pageConnection';
+import { ProtocolErrorEventPayload, reportProtocolError } from '../utils/SoundSystemEvents';
+
+/**
+ * usePageConnection React hook
+ * - Holds messages for a WebView page back until the page announces READY
+ * - Keeps the latest update of each kind (shows, sound, colors...) and sends
+ *   them all again when the page announces READY after a reload or reset
+ * - One-off commands wait for READY once and are not repeated
+ *
+ * Usage:
+ *   const page = usePageConnection('show');
+ *   page.update('SHOWS', () => webViewRef.current?.injectJavaScript(script));
+ *   <WebView onLoadStart={page.handleLoadStart} ... />
+ *   // and on a READY message: page.handleReady(message.payload)
+ */
+export const usePageConnection = (source: ProtocolErrorEventPayload['source']): PageConnection => {
+  const connection = useRef<PageConnection | null>(null);
+  if (!connection.current) {
+    connection.current = createPageConnection({
+      onVersionMismatch: errors => reportProtocolError(source, 'app', { messageType: 'READY', errors })
+    });
+  }
+  // Stable across renders, so effects can list it as a dependency
+  return connection.current;
+};
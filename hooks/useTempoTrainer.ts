@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  createTrainerSession,
+  getTrainerProgress,
+  getTrainerStepsAt,
+  isTrainerFinished,
+  TempoTrainerSettings,
+  TrainerSession,
+} from '../utils/tempoTrainer';
+
+interface TempoTrainerOptions {
+  settings: TempoTrainerSettings;
+  isPlaying: boolean;
+  currentBar: number | null; // bar the running metronome reports, null when stopped
+  bpm: number;
+  onTempoChange: (bpm: number) => void;
+}
+
+// Steps the metronome tempo while the trainer is on and the metronome plays
+export const useTempoTrainer = ({ settings, isPlaying, currentBar, bpm, onTempoChange }: TempoTrainerOptions) => {
+  const [steps, setSteps] = useState<number | null>(null); // null while the trainer is not running
+  const active = settings.enabled && isPlaying;
+
+  const bpmRef = useRef(bpm);
+  bpmRef.current = bpm;
+  const onTempoChangeRef = useRef(onTempoChange);
+  onTempoChangeRef.current = onTempoChange;
+
+  const session = useRef<TrainerSession | null>(null);
+  if (!session.current) {
+    session.current = createTrainerSession({
+      onStepsChange: setSteps,
+      onTempoChange: tempo => onTempoChangeRef.current(tempo),
+    });
+  }
+
+  // Each start picks up from the current tempo
+  useEffect(() => {
+    if (!active) return;
+    const trainerSession = session.current!;
+    trainerSession.start(settings, bpmRef.current);
+    return () => trainerSession.stop();
+  }, [active, settings]);
+
+  // Timed steps
+  useEffect(() => {
+    if (!active || settings.intervalUnit !== 'seconds') return;
+    const stepInterval = setInterval(() => {
+      session.current!.step();
+    }, settings.interval * 1000);
+    return () => clearInterval(stepInterval);
+  }, [active, settings.intervalUnit, settings.interval]);
+
+  // Bar steps
+  useEffect(() => {
+    if (!active || settings.intervalUnit !== 'bars' || currentBar === null) return;
+    session.current!.handleBar(currentBar);
+  }, [active, currentBar, settings.intervalUnit]);
+
+  // Back to the start tempo without stopping
+  const restart = useCallback(() => {
+    session.current!.restart();
+  }, []);
+
+  // While stopped, the steps are the ones the next start picks up from
+  const currentSteps = steps ?? getTrainerStepsAt(settings, bpm);
+
+  return {
+    steps: currentSteps,
+    progress: getTrainerProgress(settings, bpm),
+    finished: isTrainerFinished(settings, currentSteps),
+    restart,
+  };
+};
@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+
+/**
+ * Bundles the WebView pages in webview/<page>/ into webview/generated/, where
+ * the components import them from (see webview/pageHtml.ts).
+ *
+ * A page is a page.ts entry module with a page.css stylesheet and, for pages
+ * with something on screen, page.html markup. The entry and every module it imports (the shared utils included)
+ * are transpiled with TypeScript and wrapped in a small module registry, so
+ * the page runs as a single inline script.
+ *
+ * Usage, from the project root: node scripts/bundle-webviews.js [--check]
+ *   --check  only report generated files that are out of date (exit code 1)
+ */
+
+const fs = require("fs");
+const path = require("path");
+const ts = require("typescript");
+
+const root = process.cwd();
+const outputDir = path.join(root, "webview", "generated");
+
+const PAGES = [
+  { name: "metronomePage", dir: "webview/metronome" },
+  { name: "showPage", dir: "webview/show" },
+  { name: "soundSystemPage", dir: "webview/soundSystem" },
+  { name: "tunerPage", dir: "webview/tuner" },
+];
+
+const relative = (file) => path.relative(root, file).split(path.sep).join("/");
+
+// File a relative import refers to; pages cannot load packages at run time
+function resolveImport(fromFile, specifier) {
+  if (!specifier.startsWith(".")) {
+    throw new Error(`${relative(fromFile)}: only relative imports can be bundled into a page, not "${specifier}"`);
+  }
+  const base = path.resolve(path.dirname(fromFile), specifier);
+  const candidate = [`${base}.ts`, path.join(base, "index.ts")].find((file) => fs.existsSync(file));
+  if (!candidate) {
+    throw new Error(`${relative(fromFile)}: cannot find "${specifier}"`);
+  }
+  return candidate;
+}
+
+// Transpiled code of the entry and everything it imports, by repo-relative path
+function collectModules(entry) {
+  const modules = new Map();
+  const visit = (file) => {
+    const id = relative(file);
+    if (modules.has(id)) return;
+    modules.set(id, null); // taken, for import cycles
+
+    const { outputText, diagnostics } = ts.transpileModule(fs.readFileSync(file, "utf8"), {
+      fileName: file,
+      reportDiagnostics: true,
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019 },
+    });
+    if (diagnostics.length > 0) {
+      const message = ts.flattenDiagnosticMessageText(diagnostics[0].messageText, "\n");
+      throw new Error(`${id}: ${message}`);
+    }
+
+    // Type-only imports are gone after transpiling; what is left runs in the page
+    const code = outputText.replace(/require\("([^"]+)"\)/g, (match, specifier) => {
+      const dependency = resolveImport(file, specifier);
+      visit(dependency);
+      return `require(${JSON.stringify(relative(dependency))})`;
+    });
+    modules.set(id, code);
+  };
+  visit(entry);
+  return modules;
+}
+
+function bundleScript(entry) {
+  const modules = collectModules(entry);
+  const definitions = [...modules]
+    .map(([id, code]) => `  ${JSON.stringify(id)}: function (require, module, exports) {\n${code}\n  }`)
+    .join(",\n");
+
+  const script = `(function () {
+var definitions = {
+${definitions}
+};
+var cache = {};
+function require(id) {
+  if (!cache[id]) {
+    cache[id] = { exports: {} };
+    definitions[id](require, cache[id], cache[id].exports);
+  }
+  return cache[id].exports;
+}
+require(${JSON.stringify(relative(entry))});
+})();
+`;
+  // The script is inlined in a <script> element
+  return script.replace(/<\/script/gi, "<\\/script");
+}
+
+function generatePage(page) {
+  const dir = path.join(root, page.dir);
+  const read = (name) => fs.readFileSync(path.join(dir, name), "utf8");
+  const bundle = {
+    css: read("page.css"),
+    body: fs.existsSync(path.join(dir, "page.html")) ? read("page.html") : "",
+    script: bundleScript(path.join(dir, "page.ts")),
+  };
+
+  return `// Generated by scripts/bundle-webviews.js from ${page.dir} - do not edit.
+// Run \`npm run bundle-webviews\` after changing the page.
+import { WebViewPageBundle } from '../pageHtml';
+
+export const ${page.name}: WebViewPageBundle = {
+  css: ${JSON.stringify(bundle.css)},
+  body: ${JSON.stringify(bundle.body)},
+  script: ${JSON.stringify(bundle.script)},
+};
+`;
+}
+
+const checkOnly = process.argv.includes("--check");
+let stale = 0;
+
+PAGES.forEach((page) => {
+  const outputFile = path.join(outputDir, `${page.name}.ts`);
+  const content = generatePage(page);
+  const current = fs.existsSync(outputFile) ? fs.readFileSync(outputFile, "utf8") : null;
+
+  if (current === content) {
+    console.log(`✅ ${relative(outputFile)} is up to date`);
+  } else if (checkOnly) {
+    stale++;
+    console.log(`❌ ${relative(outputFile)} is out of date`);
+  } else {
+    fs.mkdirSync(outputDir, { recursive: true });
+    fs.writeFileSync(outputFile, content);
+    console.log(`📦 Wrote ${relative(outputFile)}`);
+  }
+});
+
+if (stale > 0) {
+  console.log("\nRun `npm run bundle-webviews` to update the generated pages.");
+  process.exit(1);
+}
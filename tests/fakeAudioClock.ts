@@ -0,0 +1,37 @@
+/**
+ * Fake audio clock for scheduler tests
+ * Stands in for the AudioContext a lookahead scheduler reads its time from.
+ * The clock only moves when advance() is called, which then gives the
+ * scheduler's refill timer a chance to run.
+ */
+
+// Refill interval for schedulers under test; advance() waits a few of these
+export const FAKE_TICK_MS = 1;
+
+export interface FakeAudioClock {
+  context: BaseAudioContext;
+  gainChanges: { value: number; time: number }[]; // output gain set by stop()
+  advance: (seconds: number) => Promise<void>;
+}
+
+export function createFakeAudioClock(): FakeAudioClock {
+  const gainChanges: { value: number; time: number }[] = [];
+  const context = {
+    currentTime: 0,
+    destination: {},
+    createGain: () => ({
+      gain: { setValueAtTime: (value: number, time: number) => { gainChanges.push({ value, time }); } },
+      connect: () => undefined,
+      disconnect: () => undefined,
+    }),
+  };
+
+  return {
+    context: context as unknown as BaseAudioContext,
+    gainChanges,
+    advance: async (seconds: number) => {
+      context.currentTime += seconds;
+      await new Promise(resolve => setTimeout(resolve, FAKE_TICK_MS * 10));
+    },
+  };
+}
@@ -0,0 +1,348 @@
+/**
+ * Message Protocol Test Script
+ * Tests how messages between the app and the WebView pages are validated, how
+ * the app holds them until a page is ready and sends them again after a reload,
+ * and how it tracks commands until they are answered
+ */
+
+import { COMMAND_ACKS, PROTOCOL_VERSION, ProtocolChannel, SoundSystemResponse } from '../types/MessageProtocol';
+import { parseMessage, validateMessage } from '../utils/messageSchema';
+import { createPageConnection } from '../utils/pageConnection';
+import { createRequestTracker } from '../utils/requestTracker';
+
+interface ProtocolTestResult {
+  test: string;
+  status: 'pass' | 'fail';
+  message: string;
+  timestamp: string;
+  details?: any;
+}
+
+// Whether a promise has settled, and how
+type Outcome = { state: 'pending' } | { state: 'resolved'; value: unknown } | { state: 'rejected'; error: string };
+
+const watch = (promise: Promise<unknown>) => {
+  const outcome: { current: Outcome } = { current: { state: 'pending' } };
+  promise.then(
+    value => { outcome.current = { state: 'resolved', value }; },
+    error => { outcome.current = { state: 'rejected', error: error.message }; }
+  );
+  return outcome;
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const response = (type: string, payload: unknown, requestId?: string) =>
+  ({ type, payload, requestId, timestamp: Date.now() }) as SoundSystemResponse;
+
+class MessageProtocolTester {
+  private results: ProtocolTestResult[] = [];
+
+  private logResult(test: string, status: 'pass' | 'fail', message: string, details?: any) {
+    const result: ProtocolTestResult = {
+      test,
+      status,
+      message,
+      timestamp: new Date().toISOString(),
+      details
+    };
+    this.results.push(result);
+    console.log(`[${status.toUpperCase()}] ${test}: ${message}`);
+    if (details) {
+      console.log('  Details:', details);
+    }
+  }
+
+  private logOutcome(test: string, outcome: Outcome, expected: Outcome) {
+    const matches = JSON.stringify(outcome) === JSON.stringify(expected);
+    this.logResult(test, matches ? 'pass' : 'fail', `Request ${outcome.state}`, matches ? undefined : { expected, actual: outcome });
+  }
+
+  async testRequestTracker() {
+    console.log('\n=== Testing Request Tracker ===');
+
+    const latencies: number[] = [];
+    const tracker = createRequestTracker({ onAnswered: latency => latencies.push(latency) });
+
+    // The acknowledgement settles the command; other responses under its requestId do not
+    const ack = watch(tracker.track('ack', 'START_METRONOME', 1000));
+    tracker.markSent('ack');
+    tracker.handleResponse(response('METRONOME_BEAT', {}, 'ack'));
+    await wait(0);
+    const pendingAfterBeat = ack.current.state;
+    tracker.handleResponse(response('METRONOME_STARTED', { bpm: 120 }, 'ack'));
+    await wait(0);
+    this.logOutcome('Request Tracker: Acknowledged', ack.current, { state: 'resolved', value: { bpm: 120 } });
+    this.logResult(
+      'Request Tracker: Other Responses Passed Over',
+      pendingAfterBeat === 'pending' && latencies.length === 1 ? 'pass' : 'fail',
+      `Pending after METRONOME_BEAT, ${latencies.length} latency recorded`
+    );
+
+    // AUDIO_ERROR and PROTOCOL_ERROR reject the command they answer
+    const audioError = watch(tracker.track('audio', 'START_SHOW', 1000));
+    tracker.markSent('audio');
+    tracker.handleResponse(response('AUDIO_ERROR', { error: 'No show with measures is loaded', mode: 'show' }, 'audio'));
+    const protocolError = watch(tracker.track('protocol', 'LOAD_SHOW', 1000));
+    tracker.markSent('protocol');
+    tracker.handleResponse(response('PROTOCOL_ERROR', { messageType: 'LOAD_SHOW', errors: ['LOAD_SHOW: payload.id is required'] }, 'protocol'));
+    await wait(0);
+    this.logOutcome('Request Tracker: Audio Error', audioError.current, { state: 'rejected', error: 'No show with measures is loaded' });
+    this.logOutcome('Request Tracker: Protocol Error', protocolError.current, {
+      state: 'rejected',
+      error: 'The SoundSystem rejected LOAD_SHOW: LOAD_SHOW: payload.id is required'
+    });
+
+    // The timeout starts when the command is posted, not while it waits for the page
+    const queued = watch(tracker.track('queued', 'STOP_METRONOME', 10));
+    await wait(40);
+    const stateWhileQueued = queued.current.state;
+    tracker.markSent('queued');
+    await wait(40);
+    this.logResult(
+      'Request Tracker: Queued Command Not Timed Out',
+      stateWhileQueued === 'pending' ? 'pass' : 'fail',
+      `Request ${stateWhileQueued} while queued`
+    );
+    this.logOutcome('Request Tracker: Timeout After Posting', queued.current, {
+      state: 'rejected',
+      error: 'STOP_METRONOME was not acknowledged within 10ms'
+    });
+
+    // A reload loses the posted commands; queued ones are still sent after READY
+    const posted = watch(tracker.track('posted', 'UPDATE_THEME', 1000));
+    tracker.markSent('posted');
+    const waiting = watch(tracker.track('waiting', 'UPDATE_SOUND', 1000));
+    tracker.handleReload();
+    await wait(0);
+    this.logOutcome('Request Tracker: Reload Rejects Posted', posted.current, {
+      state: 'rejected',
+      error: 'The SoundSystem page reloaded before UPDATE_THEME was acknowledged'
+    });
+    const waitingState = waiting.current.state;
+    tracker.markSent('waiting');
+    tracker.handleResponse(response('COMMAND_APPLIED', {}, 'waiting'));
+    await wait(0);
+    const answeredState = waiting.current.state;
+    this.logResult(
+      'Request Tracker: Reload Keeps Queued',
+      waitingState === 'pending' && answeredState === 'resolved' ? 'pass' : 'fail',
+      `Request ${waitingState} after the reload, ${answeredState} once answered`
+    );
+
+    // A queued command replaced by a newer one is never posted, so it is rejected
+    const replaced = watch(tracker.track('replaced', 'UPDATE_SOUND', 1000));
+    tracker.handleSuperseded('replaced');
+    await wait(0);
+    this.logOutcome('Request Tracker: Superseded', replaced.current, {
+      state: 'rejected',
+      error: 'UPDATE_SOUND was replaced by a newer UPDATE_SOUND before it was sent'
+    });
+
+    // Unmounting rejects everything left
+    const left = watch(tracker.track('left', 'SUSPEND_AUDIO', 1000));
+    tracker.rejectAll('SoundSystem unmounted');
+    await wait(0);
+    this.logOutcome('Request Tracker: Reject All', left.current, {
+      state: 'rejected',
+      error: 'SoundSystem unmounted before SUSPEND_AUDIO was acknowledged'
+    });
+  }
+
+  testPageConnection() {
+    console.log('\n=== Testing Page Connection ===');
+
+    const sent: string[] = [];
+    const mismatches: string[][] = [];
+    const page = createPageConnection({ onVersionMismatch: errors => mismatches.push(errors) });
+    const update = (kind: string, value: string) =>
+      page.update(kind, replay => sent.push(`${kind}=${value}${replay ? ' (replay)' : ''}`));
+    const expectSent = (test: string, expected: string[]) => {
+      const actual = sent.splice(0);
+      const matches = actual.join(',') === expected.join(',');
+      this.logResult(
+        test,
+        matches ? 'pass' : 'fail',
+        actual.length > 0 ? `Sent ${actual.join(', ')}` : 'Nothing sent',
+        matches ? undefined : { expected, actual }
+      );
+    };
+
+    // Nothing reaches the page before READY; then the latest updates go first, then the commands
+    update('SOUND', 'click');
+    page.command(() => sent.push('START'));
+    update('COLORS', 'dark');
+    update('SOUND', 'beep');
+    expectSent('Page Connection: Held Until Ready', []);
+    page.handleReady({ protocolVersion: PROTOCOL_VERSION });
+    expectSent('Page Connection: Sent On Ready', ['COLORS=dark', 'SOUND=beep', 'START']);
+
+    // Once ready, updates and commands go straight out
+    update('COLORS', 'light');
+    page.command(() => sent.push('STOP'));
+    expectSent('Page Connection: Sent When Ready', ['COLORS=light', 'STOP']);
+
+    // After a reload the latest updates are replayed; commands are not repeated
+    page.handleLoadStart();
+    update('THEME', 'blue');
+    page.command(() => sent.push('RESUME'));
+    expectSent('Page Connection: Held While Reloading', []);
+    page.handleReady({ protocolVersion: PROTOCOL_VERSION });
+    expectSent('Page Connection: Replayed After Reload', [
+      'SOUND=beep (replay)',
+      'COLORS=light (replay)',
+      'THEME=blue',
+      'RESUME'
+    ]);
+
+    // A page of another protocol version gets nothing
+    page.handleLoadStart();
+    page.handleReady({ protocolVersion: PROTOCOL_VERSION + 1 });
+    update('SOUND', 'wood');
+    expectSent('Page Connection: Nothing Sent On Version Mismatch', []);
+    this.logResult(
+      'Page Connection: Version Mismatch Reported',
+      mismatches.length === 1 ? 'pass' : 'fail',
+      mismatches.length === 1 ? mismatches[0][0] : `${mismatches.length} mismatches reported`
+    );
+
+    // An update replaced before it was sent is reported; one already sent is not
+    const superseded: string[] = [];
+    const reloading = createPageConnection({ onVersionMismatch: () => undefined });
+    const trackedUpdate = (value: string) =>
+      reloading.update('SOUND', () => sent.push(`SOUND=${value}`), () => superseded.push(value));
+    trackedUpdate('click');
+    trackedUpdate('beep');
+    reloading.handleReady({ protocolVersion: PROTOCOL_VERSION });
+    trackedUpdate('wood');
+    sent.splice(0);
+    this.logResult(
+      'Page Connection: Superseded Update Reported',
+      superseded.join(',') === 'click' ? 'pass' : 'fail',
+      `Superseded ${superseded.join(', ') || 'nothing'}`,
+      { expected: ['click'], actual: superseded }
+    );
+  }
+
+  testMessageSchema() {
+    console.log('\n=== Testing Message Schema ===');
+
+    const start = {
+      type: 'START_METRONOME',
+      payload: {
+        bpm: 120,
+        timeSignature: { numerator: 6, denominator: 8, grouping: [3, 3] },
+        soundType: 'synth',
+        accents: null,
+        layers: [{ id: 'layer-1', mode: 'polyrhythm', pulses: 3, unit: 8, sound: 'click', volume: 0.8 }]
+      },
+      timestamp: Date.now()
+    };
+
+    // Each case: the channel, the message and the errors it should get
+    const cases: { name: string; channel: ProtocolChannel; data: unknown; expected: string[] }[] = [
+      { name: 'Valid Start', channel: 'soundSystemMessage', data: start, expected: [] },
+      {
+        name: 'Wrong Field Types',
+        channel: 'soundSystemMessage',
+        data: { ...start, payload: { ...start.payload, bpm: '120', timeSignature: { numerator: 6 } } },
+        expected: [
+          'START_METRONOME: payload.bpm must be a number',
+          'START_METRONOME: payload.timeSignature.denominator is required'
+        ]
+      },
+      {
+        name: 'Value Not Allowed',
+        channel: 'soundSystemMessage',
+        data: { ...start, payload: { ...start.payload, layers: [{ ...start.payload.layers[0], mode: 'canon' }] } },
+        expected: ['START_METRONOME: payload.layers[0].mode must be one of polyrhythm, polymeter']
+      },
+      {
+        name: 'Missing Payload',
+        channel: 'showViewResponse',
+        data: { type: 'DELETE_SHOW' },
+        expected: ['DELETE_SHOW: payload must be an object']
+      },
+      {
+        name: 'Unknown Type',
+        channel: 'tunerViewResponse',
+        data: { type: 'LOG', payload: { message: 'hello' } },
+        expected: ['Unknown message type "LOG"']
+      },
+      {
+        name: 'Type Of Another Channel',
+        channel: 'soundSystemResponse',
+        data: { type: 'START_METRONOME', payload: start.payload },
+        expected: ['Unknown message type "START_METRONOME"']
+      },
+      {
+        name: 'Acknowledged Command',
+        channel: 'soundSystemResponse',
+        data: { type: 'COMMAND_APPLIED', payload: { command: 'STOP_SHOW' }, requestId: 'request-1' },
+        expected: []
+      },
+      {
+        name: 'Acknowledged Unknown Command',
+        channel: 'soundSystemResponse',
+        data: { type: 'COMMAND_APPLIED', payload: { command: 'PLAY' }, requestId: 'request-1' },
+        expected: [`COMMAND_APPLIED: payload.command must be one of ${Object.keys(COMMAND_ACKS).join(', ')}`]
+      },
+      {
+        name: 'Ready Without Version',
+        channel: 'tunerViewResponse',
+        data: { type: 'READY', payload: {} },
+        expected: ['READY: payload.protocolVersion is required']
+      }
+    ];
+
+    cases.forEach(({ name, channel, data, expected }) => {
+      const { message, errors } = validateMessage(channel, data);
+      const passed = errors.join('|') === expected.join('|') && (message !== null) === (expected.length === 0);
+      this.logResult(
+        `Message Schema: ${name}`,
+        passed ? 'pass' : 'fail',
+        errors.length > 0 ? errors.join('; ') : 'Accepted',
+        { expected, actual: errors }
+      );
+    });
+
+    const unreadable = parseMessage('soundSystemResponse', '{"type": "SHOW_STOPPED"');
+    this.logResult(
+      'Message Schema: Unreadable JSON',
+      unreadable.message === null && unreadable.type === null && unreadable.errors[0] === 'Message is not valid JSON'
+        ? 'pass' : 'fail',
+      unreadable.errors.join('; ')
+    );
+  }
+
+  async runAllTests(): Promise<ProtocolTestResult[]> {
+    console.log('📨 Starting Message Protocol Test Suite');
+    console.log(`Timestamp: ${new Date().toISOString()}`);
+
+    this.testMessageSchema();
+    this.testPageConnection();
+    await this.testRequestTracker();
+
+    console.log('\n=== Test Results Summary ===');
+    const passed = this.results.filter(r => r.status === 'pass').length;
+    const failed = this.results.filter(r => r.status === 'fail').length;
+
+    console.log(`✅ Passed: ${passed}`);
+    console.log(`❌ Failed: ${failed}`);
+
+    if (failed > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results.filter(r => r.status === 'fail').forEach(r => {
+        console.log(`- ${r.test}: ${r.message}`);
+      });
+    }
+
+    return this.results;
+  }
+}
+
+// Export for use in testing
+export const runMessageProtocolTests = async () => {
+  const tester = new MessageProtocolTester();
+  return await tester.runAllTests();
+};
@@ -0,0 +1,332 @@
+/**
+ * Metronome Test Script
+ * Tests swing, rhythm layers, the tempo and gap trainers, and the click stream
+ * the SoundSystem page plays the metronome from
+ */
+
+import { CountInPlan, getCountInBeats, normalizeCountIn } from '../utils/countIn';
+import { isRandomlyMuted, isSilentBar, normalizeGapTrainer } from '../utils/gapTrainer';
+import { createLayer, getLayerLevels, getLayerPulseAt, normalizeLayer, RhythmLayer } from '../utils/rhythmLayers';
+import { getSubdivisionOffset, normalizeSwing, STRAIGHT_SWING } from '../utils/swing';
+import { createTrainerSession, getTrainerStepsAt, getTrainerTempo, normalizeTempoTrainer } from '../utils/tempoTrainer';
+import { Click, ClickStreamState, getNextClick, startClickStream } from '../webview/soundSystem/clickStream';
+
+interface MetronomeTestResult {
+  test: string;
+  status: 'pass' | 'fail';
+  message: string;
+  timestamp: string;
+  details?: any;
+}
+
+class MetronomeTester {
+  private results: MetronomeTestResult[] = [];
+
+  private logResult(test: string, status: 'pass' | 'fail', message: string, details?: any) {
+    const result: MetronomeTestResult = {
+      test,
+      status,
+      message,
+      timestamp: new Date().toISOString(),
+      details
+    };
+    this.results.push(result);
+    console.log(`[${status.toUpperCase()}] ${test}: ${message}`);
+    if (details) {
+      console.log('  Details:', details);
+    }
+  }
+
+  testSwing() {
+    console.log('\n=== Testing Swing ===');
+
+    // Offsets of every click in one beat, as a fraction of the beat
+    const testCases = [
+      { name: 'Straight Eighths', subdivision: 2, swing: 50, offsets: '0.000,0.500' },
+      { name: 'Triplet Swing Eighths', subdivision: 2, swing: 66, offsets: '0.000,0.660' },
+      { name: 'Shuffled Sixteenths', subdivision: 4, swing: 75, offsets: '0.000,0.375,0.500,0.875' },
+      { name: 'Triplets Ignore Swing', subdivision: 3, swing: 75, offsets: '0.000,0.333,0.667' },
+      { name: 'Swing Clamped To Shuffle', subdivision: 2, swing: 90, offsets: '0.000,0.750' }
+    ];
+
+    testCases.forEach(({ name, subdivision, swing, offsets }) => {
+      const actual = Array.from({ length: subdivision }, (_, index) =>
+        getSubdivisionOffset(index, subdivision, swing).toFixed(3)
+      ).join(',');
+      this.logResult(
+        `Swing: ${name}`,
+        actual === offsets ? 'pass' : 'fail',
+        `Offsets ${actual}`,
+        { expected: offsets, actual }
+      );
+    });
+
+    const missing = normalizeSwing(undefined);
+    this.logResult(
+      'Swing: Missing Is Straight',
+      missing === 50 ? 'pass' : 'fail',
+      `Swing ${missing}%`
+    );
+  }
+
+  testRhythmLayers() {
+    console.log('\n=== Testing Rhythm Layers ===');
+
+    // Pulse sounding every half beat at 60 BPM, over two bars of 4/4
+    const timeSignature = { numerator: 4, denominator: 4 };
+    const testCases: { name: string; layer: RhythmLayer; pulses: string }[] = [
+      { name: 'Three Against Four', layer: createLayer('a'), pulses: '0,0,0,1,1,1,2,2,0,0,0,1,1,1,2,2' },
+      { name: 'Five Against Four', layer: { ...createLayer('b'), pulses: 5 }, pulses: '0,0,1,1,2,3,3,4,0,0,1,1,2,3,3,4' },
+      { name: 'Seven Eighths Cycling', layer: createLayer('c', 'polymeter'), pulses: '0,1,2,3,4,5,6,0,1,2,3,4,5,6,0,1' },
+      {
+        name: 'Three Quarters Cycling',
+        layer: { ...createLayer('d', 'polymeter'), pulses: 3, unit: 4 },
+        pulses: '0,0,1,1,2,2,0,0,1,1,2,2,0,0,1,1'
+      }
+    ];
+
+    testCases.forEach(({ name, layer, pulses }) => {
+      const actual = Array.from({ length: 16 }, (_, step) =>
+        getLayerPulseAt(layer, timeSignature, 1, step * 0.5 + 0.01)
+      ).join(',');
+      this.logResult(
+        `Rhythm Layers: ${name}`,
+        actual === pulses ? 'pass' : 'fail',
+        `Pulses ${actual}`,
+        { expected: pulses, actual }
+      );
+    });
+
+    // Stored layers are clamped, and accents default to the first pulse
+    const stored = normalizeLayer({ id: 'e', mode: 'polymeter', pulses: 40, unit: 6, volume: 2 });
+    const levels = getLayerLevels({ ...stored, pulses: 3 }).join(',');
+    this.logResult(
+      'Rhythm Layers: Stored Layer Normalized',
+      stored.pulses === 16 && stored.unit === 8 && stored.volume === 1 && levels === 'accent,normal,normal'
+        ? 'pass'
+        : 'fail',
+      `Pulses ${stored.pulses}, unit ${stored.unit}, volume ${stored.volume}, levels ${levels}`
+    );
+  }
+
+  testTempoTrainer() {
+    console.log('\n=== Testing Tempo Trainer ===');
+
+    // Tempo after each of the first eight steps
+    const testCases = [
+      { name: 'Climb Stops At Target', settings: { startBpm: 80, targetBpm: 92, step: 4 }, tempos: '80,84,88,92,92,92,92,92' },
+      { name: 'Last Step Capped', settings: { startBpm: 80, targetBpm: 90, step: 4 }, tempos: '80,84,88,90,90,90,90,90' },
+      { name: 'Slowing Down', settings: { startBpm: 120, targetBpm: 110, step: 5 }, tempos: '120,115,110,110,110,110,110,110' },
+      {
+        name: 'Drop Back And Climb Again',
+        settings: { startBpm: 80, targetBpm: 92, step: 4, dropBack: 8 },
+        tempos: '80,84,88,92,84,88,92,84'
+      }
+    ];
+
+    testCases.forEach(({ name, settings, tempos }) => {
+      const trainer = normalizeTempoTrainer({ enabled: true, ...settings });
+      const actual = Array.from({ length: 8 }, (_, steps) => getTrainerTempo(trainer, steps)).join(',');
+      this.logResult(
+        `Tempo Trainer: ${name}`,
+        actual === tempos ? 'pass' : 'fail',
+        `Tempos ${actual}`,
+        { expected: tempos, actual }
+      );
+    });
+
+    // A saved tempo inside the range resumes the climb; outside it starts over
+    const trainer = normalizeTempoTrainer({ startBpm: 80, targetBpm: 120, step: 4 });
+    const resumed = getTrainerStepsAt(trainer, 100);
+    const outside = getTrainerStepsAt(trainer, 140);
+    this.logResult(
+      'Tempo Trainer: Resume From Saved Tempo',
+      resumed === 5 && outside === 0 ? 'pass' : 'fail',
+      `Resumed at step ${resumed}, outside range at step ${outside}`
+    );
+
+    // Start, stop, reset to the start tempo and start again, as the metronome screen does
+    let bpm = 80;
+    const sent: number[] = [];
+    const session = createTrainerSession({
+      onStepsChange: () => undefined,
+      onTempoChange: tempo => { bpm = tempo; sent.push(tempo); }
+    });
+    const barTrainer = normalizeTempoTrainer({ enabled: true, startBpm: 80, targetBpm: 120, step: 4, interval: 1 });
+    session.start(barTrainer, bpm);
+    [0, 1, 2, 3].forEach(bar => session.handleBar(bar));
+    session.stop();
+    const firstRun = sent.splice(0).join(',');
+    bpm = barTrainer.startBpm;
+    session.start(barTrainer, bpm);
+    const sentOnRestart = sent.length;
+    [0, 1].forEach(bar => session.handleBar(bar));
+    this.logResult(
+      'Tempo Trainer: Restart After Reset',
+      firstRun === '84,88,92' && sentOnRestart === 0 && sent.join(',') === '84' ? 'pass' : 'fail',
+      `First run sent ${firstRun}, second run sent ${sent.join(',')}`,
+      { expected: { firstRun: '84,88,92', secondRun: '84' }, actual: { firstRun, secondRun: sent.join(',') } }
+    );
+
+    // A tempo outside the range starts over, and the first tempo sent is the start
+    sent.splice(0);
+    session.stop();
+    session.start(barTrainer, 140);
+    this.logResult(
+      'Tempo Trainer: Start Outside Range',
+      sent.join(',') === '80' ? 'pass' : 'fail',
+      `Sent ${sent.join(',') || 'nothing'}`
+    );
+  }
+
+  testGapTrainer() {
+    console.log('\n=== Testing Gap Trainer ===');
+
+    // Silent bars among the first ten bars, 1 = silent
+    const testCases = [
+      { name: 'Four On Four Off', settings: { enabled: true, playBars: 4, silentBars: 4 }, bars: '0000111100' },
+      { name: 'Two On One Off', settings: { enabled: true, playBars: 2, silentBars: 1 }, bars: '0010010010' },
+      { name: 'Disabled Never Silent', settings: { enabled: false, playBars: 1, silentBars: 1 }, bars: '0000000000' }
+    ];
+
+    testCases.forEach(({ name, settings, bars }) => {
+      const gapTrainer = normalizeGapTrainer(settings);
+      const actual = Array.from({ length: 10 }, (_, bar) => (isSilentBar(gapTrainer, bar) ? '1' : '0')).join('');
+      this.logResult(
+        `Gap Trainer: ${name}`,
+        actual === bars ? 'pass' : 'fail',
+        `Bars ${actual}`,
+        { expected: bars, actual }
+      );
+    });
+
+    // A 25% chance mutes rolls below 0.25 only
+    const gapTrainer = normalizeGapTrainer({ enabled: true, randomMute: 25 });
+    const rolls = [0, 0.2, 0.25, 0.9].map(random => isRandomlyMuted(gapTrainer, random));
+    this.logResult(
+      'Gap Trainer: Random Mute Chance',
+      rolls.join(',') === 'true,true,false,false' ? 'pass' : 'fail',
+      `Muted ${rolls.join(',')}`
+    );
+  }
+
+  testClickStream() {
+    console.log('\n=== Testing Click Stream ===');
+
+    const createState = (overrides: Partial<ClickStreamState>): ClickStreamState => ({
+      tempo: 120,
+      subdivision: 1,
+      pendingSubdivision: null,
+      swing: STRAIGHT_SWING,
+      meter: { numerator: 4, denominator: 4 },
+      accentPattern: null,
+      layers: [],
+      gapTrainer: normalizeGapTrainer({ enabled: false }),
+      countInClicks: [],
+      firstBeatClick: null,
+      ...overrides
+    });
+    const describeClicks = (state: ClickStreamState, plan: CountInPlan, startTime: number, length: number) => {
+      const clicks: string[] = [];
+      let click: Click | null = startClickStream(state, startTime, plan);
+      while (click && clicks.length < length) {
+        clicks.push(`${click.type}@${click.time.toFixed(3)}`);
+        click = getNextClick(state, click);
+      }
+      return clicks.join(' ');
+    };
+
+    const testCases = [
+      {
+        name: 'Count-In Then Eighths',
+        state: createState({ subdivision: 2, meter: { numerator: 3, denominator: 4 } }),
+        plan: getCountInBeats(normalizeCountIn({ length: 2 }), { timeSignature: { numerator: 3, denominator: 4 }, tempo: 120 }),
+        expected: 'countIn@10.000 countIn@10.500 beat@11.000 beat@11.250 beat@11.500 beat@11.750'
+      },
+      {
+        name: 'Polyrhythm 3 Against 2/4',
+        state: createState({ tempo: 60, meter: { numerator: 2, denominator: 4 }, layers: [createLayer('layer-1')] }),
+        plan: getCountInBeats(normalizeCountIn({ enabled: false }), { timeSignature: { numerator: 2, denominator: 4 }, tempo: 60 }),
+        expected: 'beat@10.000 layer@10.000 layer@10.667 beat@11.000 layer@11.333 beat@12.000 layer@12.000'
+      }
+    ];
+
+    testCases.forEach(({ name, state, plan, expected }) => {
+      const actual = describeClicks(state, plan, 10, expected.split(' ').length);
+      this.logResult(
+        `Click Stream: ${name}`,
+        actual === expected ? 'pass' : 'fail',
+        actual,
+        { expected, actual }
+      );
+    });
+
+    // A subdivision chosen while playing waits for the next beat
+    const state = createState({});
+    const noCountIn = getCountInBeats(normalizeCountIn({ enabled: false }), { timeSignature: state.meter, tempo: 120 });
+    const first = startClickStream(state, 0, noCountIn);
+    state.pendingSubdivision = 2;
+    const second = getNextClick(state, first);
+    const third = second && getNextClick(state, second);
+    const times = [first, second, third].map(click => click && click.time).join(',');
+    this.logResult(
+      'Click Stream: Subdivision Change On Next Beat',
+      times === '0,0.5,0.75' ? 'pass' : 'fail',
+      `Clicks at ${times}`
+    );
+
+    // Bars are counted beat by beat, so a one-beat meter and a meter change count right
+    const barState = createState({ meter: { numerator: 1, denominator: 4 } });
+    const bars: number[] = [];
+    let click: Click | null = startClickStream(barState, 0, noCountIn);
+    while (click && bars.length < 8) {
+      if (click.type === 'beat') {
+        bars.push(click.barNumber);
+      }
+      if (bars.length === 3) {
+        barState.meter = { numerator: 3, denominator: 4 };
+      }
+      click = getNextClick(barState, click);
+    }
+    const expectedBars = [0, 1, 2, 3, 3, 3, 4, 4];
+    this.logResult(
+      'Click Stream: Bar Numbers',
+      bars.join(',') === expectedBars.join(',') ? 'pass' : 'fail',
+      `Bars ${bars.join(', ')}`,
+      { expected: expectedBars, actual: bars }
+    );
+  }
+
+  async runAllTests(): Promise<MetronomeTestResult[]> {
+    console.log('🥁 Starting Metronome Test Suite');
+    console.log(`Timestamp: ${new Date().toISOString()}`);
+
+    this.testSwing();
+    this.testRhythmLayers();
+    this.testTempoTrainer();
+    this.testGapTrainer();
+    this.testClickStream();
+
+    console.log('\n=== Test Results Summary ===');
+    const passed = this.results.filter(r => r.status === 'pass').length;
+    const failed = this.results.filter(r => r.status === 'fail').length;
+
+    console.log(`✅ Passed: ${passed}`);
+    console.log(`❌ Failed: ${failed}`);
+
+    if (failed > 0) {
+      console.log('\n❌ FAILED TESTS:');
+      this.results.filter(r => r.status === 'fail').forEach(r => {
+        console.log(`- ${r.test}: ${r.message}`);
+      });
+    }
+
+    return this.results;
+  }
+}
+
+// Export for use in testing
+export const runMetronomeTests = async () => {
+  const tester = new MetronomeTester();
+  return await tester.runAllTests();
+};
@@ -3,6 +3,66 @@
  * Tests count-in sequence, measure transitions, tempo changes, and time signature changes
  */
 
+import {
+  ACCENT_LEVELS,
+  AccentPattern,
+  accentsFromBeatSounds,
+  cycleAccentLevel,
+  getAccentLevel,
+  getAccentVoice,
+  getBeatLevels,
+  setAccentLevel,
+} from '../utils/accentPattern';
+import { getCountInBeats, normalizeCountIn } from '../utils/countIn';
+import { strToU8, unzipSync, zipSync } from 'fflate';
+import { createLookaheadScheduler } from '../utils/lookaheadScheduler';
+import { getBeatScale, getGroupingOptions, getGroupStarts, parseGrouping } from '../utils/meterGrouping';
+import { createShowMidi } from '../utils/midiExport';
+import { createId, isId } from '../utils/ids';
+import { parseMidiTempoMap, parseRehearsalMark } from '../utils/midiImport';
+import { parseMusicXml, readMusicXmlArchive } from '../utils/musicXmlImport';
+import { createShowArchive, createShowFile, getShowFileName, readShowArchive, readShowFile } from '../utils/showFiles';
+import { expandMeasures, getMeasureStartNumbers, getTotalMeasureCount } from '../utils/showMeasures';
+import {
+  createStoredShows,
+  formatShowIssue,
+  migrateStoredShows,
+  SHOW_SCHEMA_VERSION,
+  validateShow,
+  validateShowDocument
+} from '../utils/showSchema';
+import { getPauseDuration, MeasureMarkers, resolvePlaybackOrder } from '../utils/showStructure';
+import {
+  buildShowTimeline,
+  getNextTimelineEvent,
+  getPlaybackPositions,
+  getPlaybackRange,
+  getPlaybackStartOptions,
+  isHold,
+  resumeTimeline,
+  TimelineEvent
+} from '../utils/showTimeline';
+import { getRampBeatDuration, TempoChange } from '../utils/tempoCurve';
+import { encodeWav, getHoldExportDuration } from '../utils/wavExport';
+import {
+  applyMarkers,
+  compactMeasures,
+  getAvailableLetters,
+  getGroupRange,
+  getMarkerLabels,
+  getPauseLabel,
+  getTempoLabel,
+  PageShow,
+  ShowMeasure
+} from '../webview/show/measureEditing';
+import {
+  DEFAULT_PLAYBACK_OPTIONS,
+  getPlaybackRangeLabels,
+  getShowStartOptions,
+  ShowPlaybackOptions
+} from '../webview/show/playbackRange';
+import { createFakeAudioClock, FAKE_TICK_MS } from './fakeAudioClock';
+
 interface ShowTestResult {
   test: string;
   status: 'pass' | 'fail' | 'warning';
@@ -11,13 +71,15 @@ interface ShowTestResult {
   details?: any;
 }
 
-interface Measure {
+interface Measure extends MeasureMarkers {
   timeSignature: {
     numerator: number;
     denominator: number;
   };
   tempo: number;
+  count?: number;
   label?: string;
+  tempoChange?: TempoChange;
 }
 
 interface Show {
@@ -322,6 +384,1053 @@ class ShowModeTester {
     });
   }
 
+  testMeasureCounts() {
+    console.log('\n=== Testing Measure Counts ===');
+
+    // One entry can stand for several identical bars
+    const measures: Measure[] = [
+      { timeSignature: { numerator: 4, denominator: 4 }, tempo: 132, count: 16 },
+      { timeSignature: { numerator: 3, denominator: 4 }, tempo: 100 },
+      { timeSignature: { numerator: 6, denominator: 8 }, tempo: 140, count: 4 }
+    ];
+
+    const totalMeasures = getTotalMeasureCount(measures);
+    this.logResult(
+      'Total Measure Count',
+      totalMeasures === 21 ? 'pass' : 'fail',
+      `${measures.length} entries expand to ${totalMeasures} measures`,
+      { expected: 21, actual: totalMeasures }
+    );
+
+    const startNumbers = getMeasureStartNumbers(measures);
+    const expectedStartNumbers = [1, 17, 18];
+    this.logResult(
+      'Measure Numbering',
+      startNumbers.join(',') === expectedStartNumbers.join(',') ? 'pass' : 'fail',
+      `Entries start at measures ${startNumbers.join(', ')}`,
+      { expected: expectedStartNumbers, actual: startNumbers }
+    );
+
+    // The played show has a beat for every beat of every repeated bar
+    const bars = expandMeasures(measures);
+    const timeline = buildShowTimeline(bars, resolvePlaybackOrder(bars), 0, normalizeCountIn({ enabled: false }));
+    const totalBeats = timeline.filter(event => event.type === 'beat').length;
+    this.logResult(
+      'Beats Across Counted Measures',
+      totalBeats === 91 ? 'pass' : 'fail',
+      `${totalBeats} total beats`,
+      { expected: 91, actual: totalBeats }
+    );
+  }
+
+  testTempoCurves() {
+    console.log('\n=== Testing Tempo Curves ===');
+
+    // Total time of a list of measures with every beat following its curve
+    const getDuration = (measures: Measure[]) => expandMeasures(measures).reduce((total, bar) => {
+      const beats = bar.timeSignature.numerator;
+      for (let beat = 0; beat < beats; beat++) {
+        total += getRampBeatDuration(bar, beat, beats, 4 / bar.timeSignature.denominator);
+      }
+      return total;
+    }, 0);
+
+    // 4 bars of 4/4 accelerating linearly from 100 to 140 BPM
+    const accel: Measure = {
+      timeSignature: { numerator: 4, denominator: 4 },
+      tempo: 100,
+      count: 4,
+      tempoChange: { endTempo: 140, curve: 'linear' }
+    };
+    const barTempos = expandMeasures([accel]).map(bar => bar.tempo);
+    this.logResult(
+      'Linear Accel. Bar Tempos',
+      barTempos.join(',') === '100,110,120,130' ? 'pass' : 'fail',
+      `Bars start at ${barTempos.join(', ')} BPM`,
+      { expected: [100, 110, 120, 130], actual: barTempos }
+    );
+
+    // Integral of 60 / T over 16 beats of a linear ramp: 60 * 16 / 40 * ln(140 / 100)
+    const accelDuration = getDuration([accel]);
+    const expectedAccelDuration = 24 * Math.log(1.4);
+    this.logResult(
+      'Linear Accel. Duration',
+      Math.abs(accelDuration - expectedAccelDuration) < 0.001 ? 'pass' : 'fail',
+      `Accel. lasts ${accelDuration.toFixed(4)}s`,
+      { expected: expectedAccelDuration, actual: accelDuration }
+    );
+
+    // Exponential rit. from 160 to 80 BPM halves the tempo at the same rate in every bar
+    const rit: Measure = {
+      timeSignature: { numerator: 3, denominator: 4 },
+      tempo: 160,
+      count: 2,
+      tempoChange: { endTempo: 80, curve: 'exponential' }
+    };
+    const midTempo = expandMeasures([rit])[1].tempo;
+    const expectedMidTempo = Math.round(80 * Math.SQRT2 * 1000) / 1000;
+    this.logResult(
+      'Exponential Rit. Midpoint',
+      midTempo === expectedMidTempo ? 'pass' : 'fail',
+      `Second bar starts at ${midTempo} BPM`,
+      { expected: expectedMidTempo, actual: midTempo }
+    );
+
+    // Integral of 60 / (160 * 2^(-x / 6)) over 6 beats: 60 * 6 / (160 * ln 2)
+    const ritDuration = getDuration([rit]);
+    const expectedRitDuration = 360 / (160 * Math.LN2);
+    this.logResult(
+      'Exponential Rit. Duration',
+      Math.abs(ritDuration - expectedRitDuration) < 0.001 ? 'pass' : 'fail',
+      `Rit. lasts ${ritDuration.toFixed(4)}s`,
+      { expected: expectedRitDuration, actual: ritDuration }
+    );
+  }
+
+  testMeterGrouping() {
+    console.log('\n=== Testing Meter Grouping ===');
+
+    // Seconds per beat at 60 BPM and the beats that start a group
+    const testCases = [
+      { name: '6/8 Ungrouped', timeSignature: { numerator: 6, denominator: 8 }, beatSeconds: 0.5, starts: '0,1,2,3,4,5' },
+      { name: '6/8 As 3+3', timeSignature: { numerator: 6, denominator: 8, grouping: [3, 3] }, beatSeconds: 1 / 3, starts: '0,3' },
+      { name: '7/8 As 2+2+3', timeSignature: { numerator: 7, denominator: 8, grouping: [2, 2, 3] }, beatSeconds: 0.5, starts: '0,2,4' },
+      { name: 'Grouping Not Filling The Bar', timeSignature: { numerator: 7, denominator: 8, grouping: [3, 3] }, beatSeconds: 0.5, starts: '0,1,2,3,4,5,6' }
+    ];
+
+    testCases.forEach(({ name, timeSignature, beatSeconds, starts }) => {
+      const actualSeconds = (60 / 60) * getBeatScale(timeSignature);
+      const actualStarts = getGroupStarts(timeSignature).join(',');
+      this.logResult(
+        `Meter grouping: ${name}`,
+        Math.abs(actualSeconds - beatSeconds) < 0.0001 && actualStarts === starts ? 'pass' : 'fail',
+        `Beat ${actualSeconds.toFixed(3)}s, groups start on ${actualStarts}`,
+        { expected: { beatSeconds, starts }, actual: { beatSeconds: actualSeconds, starts: actualStarts } }
+      );
+    });
+
+    const parsed = [parseGrouping('2+2+3', 7), parseGrouping('', 7), parseGrouping('3+3', 7)];
+    this.logResult(
+      'Meter grouping: Parse Input',
+      parsed[0]?.join('+') === '2+2+3' && parsed[1] === undefined && parsed[2] === null ? 'pass' : 'fail',
+      `Parsed ${parsed.map(grouping => String(grouping)).join(' | ')}`
+    );
+
+    const options = getGroupingOptions(7).map(option => option.join('+')).join(', ');
+    this.logResult(
+      'Meter grouping: Options For 7',
+      options === '2+2+3, 2+3+2, 3+2+2' ? 'pass' : 'fail',
+      `Options: ${options}`
+    );
+  }
+
+  testAccentPatterns() {
+    console.log('\n=== Testing Accent Patterns ===');
+
+    // Levels of every beat in the bar for each pattern
+    const testCases = [
+      { name: 'Default 4/4', pattern: undefined, timeSignature: { numerator: 4, denominator: 4 }, levels: 'accent,normal,normal,normal' },
+      {
+        name: 'Default 7/8 As 2+2+3',
+        pattern: undefined,
+        timeSignature: { numerator: 7, denominator: 8, grouping: [2, 2, 3] },
+        levels: 'accent,normal,accent,normal,accent,normal,normal'
+      },
+      {
+        name: 'Partial Pattern Falls Back',
+        pattern: { beats: ['mute', 'ghost'] } as AccentPattern,
+        timeSignature: { numerator: 3, denominator: 4 },
+        levels: 'mute,ghost,normal'
+      },
+      {
+        name: 'Legacy Beat Sounds',
+        pattern: accentsFromBeatSounds({ high: [0], low: [2] }, 3),
+        timeSignature: { numerator: 3, denominator: 4 },
+        levels: 'accent,mute,normal'
+      }
+    ];
+
+    testCases.forEach(({ name, pattern, timeSignature, levels }) => {
+      const actual = getBeatLevels(pattern, timeSignature).join(',');
+      this.logResult(
+        `Accent pattern: ${name}`,
+        actual === levels ? 'pass' : 'fail',
+        `Levels ${actual}`,
+        { expected: levels, actual }
+      );
+    });
+
+    // Muting the "&" of 2 in eighths leaves the beats and other subdivisions alone
+    const fourFour = { numerator: 4, denominator: 4 };
+    const muted = setAccentLevel(undefined, fourFour, 1, 1, 'mute');
+    const clicks = [0, 1].map(beat => [0, 1].map(sub => getAccentLevel(muted, beat, sub, 'normal')).join('/')).join(' ');
+    this.logResult(
+      'Accent pattern: Mute A Subdivision',
+      clicks === 'accent/normal normal/mute' ? 'pass' : 'fail',
+      `Clicks ${clicks}`
+    );
+
+    const cycle = ACCENT_LEVELS.map(cycleAccentLevel).join(',');
+    const ghost = getAccentVoice('woodblock', 'ghost');
+    this.logResult(
+      'Accent pattern: Levels Cycle And Sound',
+      cycle === 'normal,ghost,mute,accent' &&
+        getAccentVoice('synth', 'mute') === null &&
+        getAccentVoice('synth', 'accent')?.high === true &&
+        !!ghost && !ghost.high && ghost.gain < 1
+        ? 'pass'
+        : 'fail',
+      `Cycle ${cycle}, woodblock ghost ${JSON.stringify(ghost)}`
+    );
+  }
+
+  testWavExport() {
+    console.log('\n=== Testing WAV Export ===');
+
+    // Header fields and clamped 16-bit samples of a tiny mono file
+    const bytes = encodeWav(new Float32Array([0, 1, -1, 2]), 8000);
+    const view = new DataView(bytes.buffer);
+    const text = (offset: number) => String.fromCharCode(...Array.from(bytes.slice(offset, offset + 4)));
+    const header = [text(0), text(8), text(36)].join(',');
+    const samples = [0, 1, 2, 3].map(i => view.getInt16(44 + i * 2, true)).join(',');
+    const valid = header === 'RIFF,WAVE,data' &&
+      bytes.length === 52 &&
+      view.getUint32(4, true) === 44 &&
+      view.getUint32(24, true) === 8000 &&
+      view.getUint32(40, true) === 8 &&
+      samples === '0,32767,-32768,32767';
+    this.logResult(
+      'WAV Export: Header And Samples',
+      valid ? 'pass' : 'fail',
+      `${header}, ${bytes.length} bytes, samples ${samples}`
+    );
+
+    // Holds wait four of the bar's own beats, in the WAV and the MIDI export alike
+    const holds = [
+      { numerator: 4, denominator: 4 },
+      { numerator: 2, denominator: 2 },
+      { numerator: 6, denominator: 8 }
+    ].map(timeSignature => getHoldExportDuration({ timeSignature, tempo: 120 }).toFixed(3)).join(',');
+    this.logResult(
+      'WAV Export: Hold Length In Beats',
+      holds === '2.000,4.000,1.000' ? 'pass' : 'fail',
+      `Holds of ${holds}s in 4/4, 2/2 and 6/8 at 120 BPM`,
+      { expected: '2.000,4.000,1.000', actual: holds }
+    );
+
+    // File names keep letters and digits only
+    const testCases = [
+      { showName: 'Fall Show: Act 2', expected: 'Fall-Show-Act-2.wav' },
+      { showName: '  Café Opener  ', expected: 'Cafe-Opener.wav' },
+      { showName: '***', expected: 'show.wav' }
+    ];
+    testCases.forEach(({ showName, expected }) => {
+      const actual = getShowFileName(showName, 'wav');
+      this.logResult(
+        `WAV Export: File Name "${showName}"`,
+        actual === expected ? 'pass' : 'fail',
+        actual,
+        { expected, actual }
+      );
+    });
+  }
+
+  testMidiExport() {
+    console.log('\n=== Testing MIDI Export ===');
+
+    const bytes = createShowMidi({
+      name: 'Opener',
+      countIn: { enabled: true, length: 2, unit: 'beats', meter: 'fixed' },
+      measures: [
+        { timeSignature: { numerator: 2, denominator: 4 }, tempo: 120, count: 2, letter: 'A' },
+        {
+          timeSignature: { numerator: 3, denominator: 8 },
+          tempo: 60,
+          beatSounds: { high: [0], low: [] },
+          pause: { type: 'seconds', length: 2 }
+        }
+      ]
+    });
+
+    // Read back each track as "tick:event" entries
+    const readUint = (offset: number, length: number) =>
+      bytes.slice(offset, offset + length).reduce((value, byte) => value * 256 + byte, 0);
+    const text = (offset: number, length: number) =>
+      String.fromCharCode(...Array.from(bytes.slice(offset, offset + length)));
+    const tracks: string[][] = [];
+    let offset = 14;
+    while (offset < bytes.length) {
+      const end = offset + 8 + readUint(offset + 4, 4);
+      const events: string[] = [];
+      let tick = 0;
+      offset += 8;
+      while (offset < end) {
+        let delta = 0;
+        do {
+          delta = delta * 128 + (bytes[offset] & 0x7f);
+        } while (bytes[offset++] & 0x80);
+        tick += delta;
+        const status = bytes[offset];
+        if (status === 0xff) {
+          const type = bytes[offset + 1];
+          const length = bytes[offset + 2];
+          const data = offset + 3;
+          if (type === 0x51) events.push(`${tick}:tempo ${readUint(data, 3)}`);
+          if (type === 0x58) events.push(`${tick}:meter ${bytes[data]}/${Math.pow(2, bytes[data + 1])}`);
+          if (type === 0x06) events.push(`${tick}:marker ${text(data, length)}`);
+          if (type === 0x2f) events.push(`${tick}:end`);
+          offset = data + length;
+        } else {
+          if ((status & 0xf0) === 0x90) events.push(`${tick}:note ${bytes[offset + 1]}`);
+          offset += 3;
+        }
+      }
+      tracks.push(events);
+    }
+
+    const header = `${text(0, 4)} format ${readUint(8, 2)}, ${readUint(10, 2)} tracks, ${readUint(12, 2)} ticks`;
+    this.logResult(
+      'MIDI Export: Header',
+      header === 'MThd format 1, 2 tracks, 480 ticks' ? 'pass' : 'fail',
+      header
+    );
+
+    // Count-in in 2/4, letter A once for both bars, then 3/8 with quarter = 60 and a 2 second pause bar
+    const expectedTempoMap = [
+      '0:marker Count-in', '0:meter 2/4', '0:tempo 500000', '960:marker A',
+      '2880:meter 3/8', '2880:tempo 1000000', '3600:marker Pause', '3600:meter 4/8', '4560:end'
+    ].join(', ');
+    const tempoMap = (tracks[0] || []).join(', ');
+    this.logResult(
+      'MIDI Export: Tempo Map',
+      tempoMap === expectedTempoMap ? 'pass' : 'fail',
+      tempoMap,
+      { expected: expectedTempoMap, actual: tempoMap }
+    );
+
+    // Claves count-in, high and low wood blocks, muted beats from beatSounds left out
+    const expectedClicks = [
+      '0:note 75', '480:note 75', '960:note 76', '1440:note 77',
+      '1920:note 76', '2400:note 77', '2880:note 76', '4560:end'
+    ].join(', ');
+    const clicks = (tracks[1] || []).filter(event => event.includes('note') || event.includes('end')).join(', ');
+    this.logResult(
+      'MIDI Export: Click Track',
+      clicks === expectedClicks ? 'pass' : 'fail',
+      clicks,
+      { expected: expectedClicks, actual: clicks }
+    );
+  }
+
+  testMidiImport() {
+    console.log('\n=== Testing MIDI Import ===');
+
+    const describe = (measures: ReturnType<typeof parseMidiTempoMap>['measures']) => measures
+      .map(m => `${m.letter ? m.letter + ' ' : ''}${m.timeSignature.numerator}/${m.timeSignature.denominator}@${m.tempo}x${m.count}`)
+      .join(', ');
+
+    // A show exported without a count-in reads back as the same measures
+    const exported = createShowMidi({
+      name: 'Round Trip',
+      countIn: { enabled: false },
+      measures: [
+        { timeSignature: { numerator: 4, denominator: 4 }, tempo: 120, count: 2, letter: 'A' },
+        { timeSignature: { numerator: 3, denominator: 4 }, tempo: 90, count: 3 },
+        { timeSignature: { numerator: 7, denominator: 8 }, tempo: 132.5, count: 1, letter: 'B' }
+      ]
+    });
+    const roundTrip = parseMidiTempoMap(exported);
+    const expectedRoundTrip = 'A 4/4@120x2, 3/4@90x3, B 7/8@132.5x1';
+    this.logResult(
+      'MIDI Import: Round Trip',
+      describe(roundTrip.measures) === expectedRoundTrip && roundTrip.name === 'Round Trip' ? 'pass' : 'fail',
+      describe(roundTrip.measures),
+      { expected: expectedRoundTrip, actual: describe(roundTrip.measures) }
+    );
+
+    // Count-in, hold and pause markers written by the export do not become letters
+    const marked = parseMidiTempoMap(createShowMidi({
+      name: 'Markers',
+      countIn: { enabled: true, length: 1, unit: 'bars', meter: 'fixed' },
+      measures: [
+        { timeSignature: { numerator: 4, denominator: 4 }, tempo: 120, count: 2, pause: { type: 'hold' } },
+        { timeSignature: { numerator: 4, denominator: 4 }, tempo: 120, count: 1, letter: 'B', pause: { type: 'seconds', length: 2 } },
+        { timeSignature: { numerator: 3, denominator: 4 }, tempo: 90, count: 2 }
+      ]
+    }));
+    const expectedMarked = '4/4@120x4, B 4/4@120x2, 3/4@90x2';
+    this.logResult(
+      'MIDI Import: Export Markers Ignored',
+      describe(marked.measures) === expectedMarked ? 'pass' : 'fail',
+      describe(marked.measures),
+      { expected: expectedMarked, actual: describe(marked.measures) }
+    );
+
+    // Only markers that look like rehearsal marks give letters
+    const marks = ['A', ' letter c ', '[D]', 'Rehearsal Mark E', 'Verse', 'Count-in', 'AB'].map(text => parseRehearsalMark(text) ?? '-');
+    this.logResult(
+      'MIDI Import: Rehearsal Marks',
+      marks.join(',') === 'A,C,D,E,-,-,-' ? 'pass' : 'fail',
+      `Letters ${marks.join(',')}`
+    );
+
+    // Format 0, 96 ticks: 120 BPM halving to 60 half-way through bar 1, notes in running status,
+    // a "Verse" marker on bar 3 that is not a rehearsal mark
+    const file = Uint8Array.from([
+      0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 0, 0, 1, 0, 96,
+      0x4d, 0x54, 0x72, 0x6b, 0, 0, 0, 36,
+      0x00, 0xff, 0x51, 0x03, 0x07, 0xa1, 0x20,
+      0x00, 0x90, 0x24, 0x64,
+      0x60, 0x24, 0x00,
+      0x60, 0xff, 0x51, 0x03, 0x0f, 0x42, 0x40,
+      0x84, 0x40, 0xff, 0x06, 0x05, 0x56, 0x65, 0x72, 0x73, 0x65,
+      0x83, 0x00, 0xff, 0x2f, 0x00
+    ]);
+    const imported = describe(parseMidiTempoMap(file).measures);
+    const expectedImport = '4/4@80x1, 4/4@60x2';
+    this.logResult(
+      'MIDI Import: Tempo Changes And Markers',
+      imported === expectedImport ? 'pass' : 'fail',
+      imported,
+      { expected: expectedImport, actual: imported }
+    );
+
+    let error = '';
+    try {
+      parseMidiTempoMap(Uint8Array.from([0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 1, 0, 1, 0xe7, 0x28]));
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+    this.logResult(
+      'MIDI Import: SMPTE Timing Rejected',
+      error.includes('SMPTE') ? 'pass' : 'fail',
+      error || 'No error thrown'
+    );
+  }
+
+  testMusicXmlImport() {
+    console.log('\n=== Testing MusicXML Import ===');
+
+    // Two parts: meter and barlines come from the first, rehearsal marks from either
+    const measure = (number: string, content: string, attributes = '') =>
+      `<measure number="${number}"${attributes}>${content}</measure>`;
+    const score = `<?xml version="1.0" encoding="UTF-8"?>
+      <!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">
+      <score-partwise version="4.0">
+        <work><work-title>Opener &amp; Closer</work-title></work>
+        <part id="P1">
+          ${measure('1', `<barline location="left"><repeat direction="forward"/></barline>
+            <attributes><time><beats>4</beats><beat-type>4</beat-type></time></attributes>
+            <direction><direction-type><rehearsal>A</rehearsal></direction-type><sound tempo="100"/></direction>`)}
+          ${measure('2', '<note/>')}
+          ${measure('3', `<barline location="left"><ending number="1" type="start"/></barline>
+            <barline location="right"><ending number="1" type="stop"/><repeat direction="backward"/></barline>`)}
+          ${measure('4', `<barline location="left"><ending number="2" type="start"/></barline>
+            <direction><direction-type><words>Fine</words></direction-type></direction>
+            <barline location="right"><ending number="2" type="discontinue"/></barline>`)}
+          ${measure('5', `<attributes><time><beats>3+3</beats><beat-type>8</beat-type></time></attributes>
+            <direction><direction-type><metronome><beat-unit>quarter</beat-unit><beat-unit-dot/><per-minute>60</per-minute></metronome></direction-type></direction>`)}
+          ${measure('6', '<direction><direction-type><words>D.C. al Fine</words></direction-type></direction>', ' implicit="yes"')}
+        </part>
+        <part id="P2">
+          ${['1', '2', '3', '4'].map(number => measure(number, '<note/>')).join('')}
+          ${measure('5', '<direction><direction-type><rehearsal>Bridge</rehearsal></direction-type></direction>')}
+          ${measure('6', '<note/>')}
+        </part>
+      </score-partwise>`;
+
+    const describe = (measures: ReturnType<typeof parseMusicXml>['measures']) => measures.map(m => {
+      const { timeSignature, tempo, count, letter, ...markers } = m;
+      const meter = `${timeSignature.grouping ? timeSignature.grouping.join('+') : timeSignature.numerator}/${timeSignature.denominator}`;
+      return `${letter ? letter + ' ' : ''}${meter}@${tempo}x${count}${Object.keys(markers).length ? ' ' + JSON.stringify(markers) : ''}`;
+    }).join(', ');
+
+    const result = parseMusicXml(score);
+    const expected = [
+      'A 4/4@100x2 {"repeatStart":true}',
+      '4/4@100x1 {"repeatEnd":2,"ending":[1]}',
+      '4/4@100x1 {"ending":[2],"fine":true}',
+      'B 3+3/8@60x2 {"jump":"dcAlFine"}'
+    ].join(', ');
+    this.logResult(
+      'MusicXML Import: Measure Structure',
+      describe(result.measures) === expected && result.name === 'Opener & Closer' ? 'pass' : 'fail',
+      describe(result.measures),
+      { expected, actual: describe(result.measures), name: result.name }
+    );
+    this.logResult(
+      'MusicXML Import: Unsupported Constructs Reported',
+      result.warnings.join(' | ') === 'Pickup and incomplete measures are played as full bars (measure 6)' ? 'pass' : 'fail',
+      result.warnings.join(' | ') || 'No warnings'
+    );
+
+    // Compressed .mxl: the container names the score file
+    const archive = zipSync({
+      'META-INF/container.xml': strToU8('<container><rootfiles><rootfile full-path="scores/opener.musicxml"/></rootfiles></container>'),
+      'scores/opener.musicxml': strToU8(score),
+      'scores/other.xml': strToU8('<other/>')
+    });
+    const compressed = describe(parseMusicXml(readMusicXmlArchive(archive)).measures);
+    this.logResult(
+      'MusicXML Import: Compressed Archive',
+      compressed === expected ? 'pass' : 'fail',
+      compressed
+    );
+  }
+
+  testShowFiles() {
+    console.log('\n=== Testing Show Files ===');
+
+    const show = {
+      id: '1',
+      name: 'Opener',
+      measures: [
+        {
+          id: '1-1',
+          timeSignature: { numerator: 7, denominator: 8, grouping: [2, 2, 3] },
+          tempo: 120,
+          count: 4,
+          letter: 'A',
+          tempoChange: { endTempo: 140, curve: 'linear' },
+          accents: ['accent', 'normal', 'ghost'],
+          repeatStart: true
+        },
+        { id: '1-2', timeSignature: { numerator: 4, denominator: 4 }, tempo: 140, count: 1, pause: { type: 'hold' } }
+      ],
+      countIn: { enabled: true, length: 1, unit: 'bars', meter: 'firstMeasure', skipWhenResuming: true },
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-02T00:00:00.000Z'
+    };
+
+    // Versioned documents read back to the stored show
+    const document = createShowFile(show);
+    const file = readShowFile(JSON.parse(document));
+    const roundTrip = JSON.stringify(file.show) === JSON.stringify(show);
+    this.logResult(
+      'Show Files: Versioned Round Trip',
+      roundTrip && file.version === SHOW_SCHEMA_VERSION ? 'pass' : 'fail',
+      roundTrip ? 'Show read back unchanged' : 'Show changed in the round trip'
+    );
+
+    // Files exported before versioning are the bare show
+    this.logResult(
+      'Show Files: Unversioned File Read',
+      JSON.stringify(readShowFile(JSON.parse(JSON.stringify(show)))) === JSON.stringify({ version: 1, show }) ? 'pass' : 'fail',
+      'Bare show file'
+    );
+
+    // Archives hold one document per show; repeated names are numbered
+    const shows = [show, { ...show, id: '2' }, { ...show, id: '3', name: 'Closer' }];
+    const archive = createShowArchive(shows);
+    const fileNames = Object.keys(unzipSync(archive)).join(', ');
+    const documents = readShowArchive(archive).map(({ content }) => readShowFile(JSON.parse(content)).show);
+    const archiveRoundTrip = JSON.stringify(documents) === JSON.stringify(shows);
+    this.logResult(
+      'Show Files: Archive Round Trip',
+      archiveRoundTrip && fileNames === 'Opener.json, Opener-2.json, Closer.json' ? 'pass' : 'fail',
+      fileNames,
+      { roundTrip: archiveRoundTrip }
+    );
+  }
+
+  testShowSchema() {
+    console.log('\n=== Testing Show Schema ===');
+
+    const validShow = {
+      id: createId(),
+      name: 'Opener',
+      measures: [
+        { id: '1-1', timeSignature: { numerator: 4, denominator: 4 }, tempo: 120, count: 2, letter: 'A' },
+        { id: '1-2', timeSignature: { numerator: 6, denominator: 8, grouping: [3, 3] }, tempo: 60, count: 1, jump: 'dc' }
+      ],
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-02T00:00:00.000Z'
+    };
+    const valid = validateShow(validShow);
+    this.logResult(
+      'Show Schema: Valid Show',
+      valid.show === validShow && valid.errors.length === 0 && valid.warnings.length === 0 ? 'pass' : 'fail',
+      valid.errors.map(formatShowIssue).join(' | ') || 'No problems'
+    );
+
+    // Every problem is reported with the field it is in
+    const invalid = validateShow({
+      ...validShow,
+      name: '',
+      measures: [
+        { id: '1-1', timeSignature: { numerator: 4, denominator: 3 }, tempo: 120, count: 2, letter: 'A' },
+        { id: '1-1', timeSignature: { numerator: 4, denominator: 4 }, tempo: '120', letter: 'A', accents: { beats: ['loud'] } }
+      ],
+      colour: 'red'
+    });
+    const expectedErrors = [
+      'name: must be a non-empty string',
+      'Measure 1, timeSignature.denominator: must be one of 1, 2, 4, 8, 16, 32, 64',
+      'Measure 2, id: is already used by measure 1',
+      'Measure 2, tempo: must be a number from 1 to 1000',
+      'Measure 2, count: is required',
+      'Measure 2, letter: "A" is already used by measure 1',
+      'Measure 2, accents.beats[0]: must be one of "accent", "normal", "ghost", "mute"'
+    ].join(' | ');
+    const actualErrors = invalid.errors.map(formatShowIssue).join(' | ');
+    this.logResult(
+      'Show Schema: Per-Field Errors',
+      actualErrors === expectedErrors && invalid.show === null ? 'pass' : 'fail',
+      actualErrors,
+      { expected: expectedErrors, actual: actualErrors }
+    );
+    this.logResult(
+      'Show Schema: Unknown Fields Reported',
+      invalid.warnings.map(formatShowIssue).join(' | ') === 'colour: is not used by this version of Met Maestro' ? 'pass' : 'fail',
+      invalid.warnings.map(formatShowIssue).join(' | ')
+    );
+
+    // Version 1 measures get their count and accents from beat sounds
+    const legacyMeasure = { id: '1-1', timeSignature: { numerator: 3, denominator: 4 }, tempo: 90, beatSounds: { high: [0], low: [2] } };
+    const migrated = validateShowDocument({ id: '1', name: 'Legacy', measures: [legacyMeasure] }, 1);
+    const migratedMeasure = migrated.show?.measures[0];
+    this.logResult(
+      'Show Schema: Version 1 Migration',
+      migrated.errors.length === 0 &&
+        migratedMeasure?.count === 1 &&
+        JSON.stringify(migratedMeasure.accents) === '{"beats":["accent","mute","normal"]}' &&
+        migratedMeasure.beatSounds === undefined &&
+        !!migrated.show?.createdAt ? 'pass' : 'fail',
+      JSON.stringify(migratedMeasure),
+      { errors: migrated.errors.map(formatShowIssue) }
+    );
+
+    const newer = validateShowDocument(validShow, SHOW_SCHEMA_VERSION + 1);
+    this.logResult(
+      'Show Schema: Newer Version Rejected',
+      newer.show === null && newer.errors.length === 1 ? 'pass' : 'fail',
+      newer.errors.map(formatShowIssue).join(' | ')
+    );
+
+    // The stored entry was a bare array before it was versioned; its
+    // sequential ids, repeated after a delete, are replaced
+    const stored = migrateStoredShows([
+      { id: '1', name: 'Stored', measures: [legacyMeasure] },
+      { id: '1', name: 'Stored Again', measures: [legacyMeasure, { ...legacyMeasure, tempo: 100 }] }
+    ]);
+    const storedValid = stored.shows.every(show => validateShow(show).errors.length === 0);
+    const storedIds = stored.shows.map(show => (show as { id: string }).id);
+    const current = migrateStoredShows(createStoredShows([validShow]));
+    this.logResult(
+      'Show Schema: Stored Shows Migration',
+      stored.version === 1 &&
+        storedValid &&
+        storedIds.every(isId) &&
+        new Set(storedIds).size === 2 &&
+        current.version === SHOW_SCHEMA_VERSION &&
+        current.shows[0] === validShow
+        ? 'pass'
+        : 'fail',
+      `Stored version ${stored.version} upgraded ${storedValid ? 'to valid shows' : 'with problems'}`
+    );
+  }
+
+  testCountInSettings() {
+    console.log('\n=== Testing Count-In Settings ===');
+
+    const firstMeasure = { timeSignature: { numerator: 6, denominator: 8 }, tempo: 120 };
+
+    // Beats counted and seconds until the first measure starts
+    const testCases = [
+      { name: 'Default Four Beats', settings: normalizeCountIn(undefined), resuming: false, counts: '1,2,3,4', duration: 2 },
+      {
+        name: 'Bars In First Measure Meter',
+        settings: normalizeCountIn({ length: 1, unit: 'bars', meter: 'firstMeasure' }),
+        resuming: false,
+        counts: '1,2,3,4,5,6',
+        duration: 1.5
+      },
+      {
+        name: 'Fixed Bars Wrap The Count',
+        settings: normalizeCountIn({ length: 2, unit: 'bars' }),
+        resuming: false,
+        counts: '1,2,3,4,1,2,3,4',
+        duration: 4
+      },
+      { name: 'Disabled', settings: normalizeCountIn({ enabled: false }), resuming: false, counts: '', duration: 0 },
+      {
+        name: 'Skipped When Resuming',
+        settings: normalizeCountIn({ skipWhenResuming: true }),
+        resuming: true,
+        counts: '',
+        duration: 0
+      },
+      {
+        name: 'Kept When Resuming',
+        settings: normalizeCountIn({ skipWhenResuming: false }),
+        resuming: true,
+        counts: '1,2,3,4',
+        duration: 2
+      }
+    ];
+
+    testCases.forEach(({ name, settings, resuming, counts, duration }) => {
+      const plan = getCountInBeats(settings, firstMeasure, resuming);
+      const actualCounts = plan.beats.map(beat => beat.count).join(',');
+      const passed = actualCounts === counts && Math.abs(plan.duration - duration) < 0.0001;
+      this.logResult(
+        `Count-in: ${name}`,
+        passed ? 'pass' : 'fail',
+        `Counts ${actualCounts || 'none'} over ${plan.duration.toFixed(2)}s`,
+        { expected: { counts, duration }, actual: { counts: actualCounts, duration: plan.duration } }
+      );
+    });
+  }
+
+  testPauses() {
+    console.log('\n=== Testing Pauses ===');
+
+    const measure = (markers: MeasureMarkers, numerator = 4, denominator = 4, tempo = 120): Measure => ({
+      timeSignature: { numerator, denominator },
+      tempo,
+      ...markers
+    });
+
+    // Pause length in seconds; holds have no fixed length
+    const testCases: { name: string; measure: Measure; expected: number | null }[] = [
+      { name: 'Grand Pause In Seconds', measure: measure({ pause: { type: 'seconds', length: 2.5 } }), expected: 2.5 },
+      { name: 'Fermata In Beats', measure: measure({ pause: { type: 'beats', length: 2 } }), expected: 1 },
+      { name: 'Fermata In Eighth-Note Beats', measure: measure({ pause: { type: 'beats', length: 3 } }, 6, 8), expected: 0.75 },
+      {
+        name: 'Fermata After Rit.',
+        measure: { ...measure({ pause: { type: 'beats', length: 1 } }), tempoChange: { endTempo: 60, curve: 'linear' } },
+        expected: 1
+      },
+      { name: 'Indefinite Hold', measure: measure({ pause: { type: 'hold' } }), expected: null }
+    ];
+
+    testCases.forEach(({ name, measure, expected }) => {
+      const duration = getPauseDuration(measure);
+      this.logResult(
+        `Pause: ${name}`,
+        duration === expected ? 'pass' : 'fail',
+        `Pause lasts ${duration === null ? 'until resumed' : `${duration}s`}`,
+        { expected, actual: duration }
+      );
+    });
+
+    // A pause follows the last bar of a counted entry only
+    const bars = expandMeasures([{ ...measure({ pause: { type: 'hold' } }), count: 3 }]);
+    const pausedBars = bars.map(bar => !!bar.pause);
+    this.logResult(
+      'Pause On Last Counted Bar',
+      pausedBars.join(',') === 'false,false,true' ? 'pass' : 'fail',
+      `Paused bars: ${pausedBars.join(', ')}`,
+      { expected: [false, false, true], actual: pausedBars }
+    );
+  }
+
+  testShowTimeline() {
+    console.log('\n=== Testing Show Timeline ===');
+
+    const bar = (markers: MeasureMarkers = {}, tempo = 120, numerator = 4, letter?: string) => ({
+      timeSignature: { numerator, denominator: 4 },
+      tempo,
+      letter,
+      ...markers
+    });
+    const bars = expandMeasures([
+      bar(),
+      bar({ pause: { type: 'hold' } }),
+      bar({}, 60, 3, 'B'),
+      bar({ pause: { type: 'seconds', length: 2 } }, 60, 2)
+    ]);
+
+    // Start and end bars from the options modal's text fields
+    const positionCases: { name: string; form: Parameters<typeof getPlaybackStartOptions>[0]; expected: number[] }[] = [
+      {
+        name: 'Whole Show',
+        form: { startType: 'beginning', startMeasure: '3', startLetter: '', endType: 'end', endMeasure: '1', endLetter: '' },
+        expected: [0, 4]
+      },
+      {
+        name: 'Current Measure To Letter',
+        form: { startType: 'current', startMeasure: '1', startLetter: '', endType: 'specific', endMeasure: '', endLetter: 'B' },
+        expected: [1, 2]
+      },
+      {
+        name: 'Letter To Measure Past The End',
+        form: { startType: 'specific', startMeasure: '', startLetter: 'B', endType: 'specific', endMeasure: '9', endLetter: '' },
+        expected: [2, 4]
+      }
+    ];
+
+    positionCases.forEach(({ name, form, expected }) => {
+      const positions = getPlaybackPositions(bars, getPlaybackStartOptions(form, 2));
+      const actual = [positions.start, positions.end];
+      this.logResult(
+        `Playback Positions: ${name}`,
+        actual.join(',') === expected.join(',') ? 'pass' : 'fail',
+        `Plays bars ${positions.start + 1} to ${positions.end}`,
+        { expected, actual }
+      );
+    });
+
+    // A start bar that is never played starts at the next one that is
+    const range = getPlaybackRange([0, 1, 0, 3], 2, 4);
+    this.logResult(
+      'Playback Range Skips Unplayed Bar',
+      range.start === 3 && range.end === 4 ? 'pass' : 'fail',
+      `Order positions ${range.start} to ${range.end}`,
+      { expected: { start: 3, end: 4 }, actual: range }
+    );
+
+    // Two 4/4 bars at 120, a hold, a 3/4 bar at 60 and a 2/4 bar with a 2s pause
+    const timeline = buildShowTimeline(bars, resolvePlaybackOrder(bars), 10, normalizeCountIn({ enabled: false }));
+    const downbeats = timeline
+      .filter(event => event.type === 'beat' && event.isDownbeat)
+      .map(event => event.time);
+    const pauses = timeline.filter(event => event.type === 'pause');
+    const end = timeline[timeline.length - 1];
+    const expectedDownbeats = [10, 12, 14, 17];
+    this.logResult(
+      'Timeline Downbeats',
+      downbeats.join(',') === expectedDownbeats.join(',') ? 'pass' : 'fail',
+      `Downbeats at ${downbeats.join(', ')}s`,
+      { expected: expectedDownbeats, actual: downbeats }
+    );
+    this.logResult(
+      'Timeline Pauses',
+      pauses.length === 2 && isHold(pauses[0]) && !isHold(pauses[1]) && end.type === 'end' && end.time === 21 ? 'pass' : 'fail',
+      `Hold at ${pauses[0]?.time}s, timed pause at ${pauses[1]?.time}s, end at ${end.time}s`,
+      { expected: { hold: 14, pause: 19, end: 21 }, actual: { hold: pauses[0]?.time, pause: pauses[1]?.time, end: end.time } }
+    );
+  }
+
+  async testShowTimelineScheduling() {
+    console.log('\n=== Testing Show Timeline Scheduling ===');
+
+    // A 4/4 bar at 120, a 3/4 bar at 60 ending in a hold, then a 2/4 bar at 120
+    const bars = expandMeasures([
+      { timeSignature: { numerator: 4, denominator: 4 }, tempo: 120 },
+      { timeSignature: { numerator: 3, denominator: 4 }, tempo: 60, pause: { type: 'hold' } },
+      { timeSignature: { numerator: 2, denominator: 4 }, tempo: 120 }
+    ]);
+    const timeline = buildShowTimeline(bars, resolvePlaybackOrder(bars), 0.05, normalizeCountIn({ enabled: false }));
+
+    const clock = createFakeAudioClock();
+    const scheduled: TimelineEvent[] = [];
+    const scheduler = createLookaheadScheduler<TimelineEvent>({
+      getAudioContext: () => clock.context,
+      getNextEvent: previous => getNextTimelineEvent(timeline, previous),
+      onSchedule: event => scheduled.push(event),
+      tickInterval: FAKE_TICK_MS
+    });
+    const playUntil = async (time: number) => {
+      while (clock.context.currentTime < time) {
+        await clock.advance(0.25);
+      }
+    };
+    const times = (events: TimelineEvent[]) => events.map(event => event.time.toFixed(3));
+
+    // Tempo and meter change on the downbeat, one beat after the last beat of bar 1
+    scheduler.start(timeline[0]);
+    await playUntil(6);
+    const downbeats = times(scheduled.filter(event => event.type === 'beat' && event.isDownbeat));
+    const beats = times(scheduled.filter(event => event.type === 'beat'));
+    const expectedBeats = ['0.050', '0.550', '1.050', '1.550', '2.050', '3.050', '4.050'];
+    this.logResult(
+      'Scheduled Beats Across Tempo And Meter Change',
+      beats.join(',') === expectedBeats.join(',') && downbeats.join(',') === '0.050,2.050' ? 'pass' : 'fail',
+      `Beats at ${beats.join(', ')}s`,
+      { expected: expectedBeats, actual: beats }
+    );
+
+    // Scheduling waits at the hold with nothing queued past it
+    const last = scheduled[scheduled.length - 1];
+    this.logResult(
+      'Scheduling Stops At Hold',
+      isHold(last) && last.time.toFixed(3) === '5.050' && !scheduler.isRunning() ? 'pass' : 'fail',
+      `Last queued ${last.type} at ${last.time}s, scheduler ${scheduler.isRunning() ? 'running' : 'stopped'}`,
+      { expected: { type: 'pause', time: 5.05 }, actual: { type: last.type, time: last.time } }
+    );
+
+    // Resuming moves the rest of the show to the resume time
+    const next = resumeTimeline(timeline, last, 10);
+    if (next) {
+      scheduler.start(next);
+    }
+    await playUntil(12);
+    const resumed = times(scheduled.slice(scheduled.indexOf(last) + 1));
+    const expectedResumed = ['10.000', '10.500', '11.000'];
+    this.logResult(
+      'Scheduling Resumes After Hold',
+      resumed.join(',') === expectedResumed.join(',') && scheduled[scheduled.length - 1].type === 'end' ? 'pass' : 'fail',
+      `Resumed events at ${resumed.join(', ')}s`,
+      { expected: expectedResumed, actual: resumed }
+    );
+    scheduler.stop();
+  }
+
+  testStructureResolution() {
+    console.log('\n=== Testing Repeats and Jumps ===');
+
+    const bar = (markers: MeasureMarkers = {}, count?: number): Measure => ({
+      timeSignature: { numerator: 4, denominator: 4 },
+      tempo: 120,
+      count,
+      ...markers
+    });
+
+    // Expected playback order as written bar indexes
+    const testCases: { name: string; measures: Measure[]; expected: number[] }[] = [
+      {
+        name: 'Simple Repeat',
+        measures: [bar({ repeatStart: true }), bar({ repeatEnd: 2 }), bar(), bar()],
+        expected: [0, 1, 0, 1, 2, 3]
+      },
+      {
+        name: 'Repeat From Beginning',
+        measures: [bar(), bar({ repeatEnd: 3 }), bar()],
+        expected: [0, 1, 0, 1, 0, 1, 2]
+      },
+      {
+        name: 'Consecutive Repeats',
+        measures: [bar(), bar({ repeatEnd: 2 }), bar(), bar({ repeatEnd: 2 })],
+        expected: [0, 1, 0, 1, 2, 3, 2, 3]
+      },
+      {
+        name: 'First and Second Endings',
+        measures: [bar({ repeatStart: true }), bar({ ending: [1], repeatEnd: 2 }), bar({ ending: [2] }), bar()],
+        expected: [0, 1, 0, 2, 3]
+      },
+      {
+        name: 'D.C. al Fine',
+        measures: [bar(), bar({ fine: true }), bar({ jump: 'dcAlFine' })],
+        expected: [0, 1, 2, 0, 1]
+      },
+      {
+        name: 'D.S. al Coda',
+        measures: [bar(), bar({ segno: true }), bar({ toCoda: true }), bar({ jump: 'dsAlCoda' }), bar({ coda: true }), bar()],
+        expected: [0, 1, 2, 3, 1, 2, 4, 5]
+      },
+      {
+        name: 'Final Ending After D.C.',
+        measures: [bar({ repeatStart: true }), bar({ ending: [1], repeatEnd: 2 }), bar({ ending: [2], jump: 'dc' }), bar()],
+        expected: [0, 1, 0, 2, 0, 2, 3]
+      },
+      {
+        name: 'Markers On Counted Measures',
+        measures: [bar({ repeatStart: true, repeatEnd: 2 }, 2), bar()],
+        expected: [0, 1, 0, 1, 2]
+      }
+    ];
+
+    testCases.forEach(({ name, measures, expected }) => {
+      const order = resolvePlaybackOrder(expandMeasures(measures));
+      this.logResult(
+        name,
+        order.join(',') === expected.join(',') ? 'pass' : 'fail',
+        `Plays measures ${order.map(index => index + 1).join(', ')}`,
+        { expected, actual: order }
+      );
+    });
+  }
+
+  testMeasureEditing() {
+    console.log('\n=== Testing Measure Editing ===');
+
+    const fourFour = { numerator: 4, denominator: 4 };
+    const measures: ShowMeasure[] = [
+      { id: 'a', timeSignature: fourFour, tempo: 120, count: 2 },
+      { id: 'b', timeSignature: fourFour, tempo: 120, count: 1, repeatEnd: 2 },
+      { id: 'c', timeSignature: fourFour, tempo: 100, count: 4, tempoChange: { endTempo: 140, curve: 'linear' } },
+      { id: 'd', timeSignature: fourFour, tempo: 140, count: 1, letter: 'B' }
+    ];
+    const bars = expandMeasures(measures);
+
+    // Identical bars merge up to an end marker; a split ramp joins back up
+    const compacted = compactMeasures(bars)
+      .map(measure => `${measure.id}x${measure.count}${measure.repeatEnd ? ':‖' : ''}${measure.tempoChange ? '→' + measure.tempoChange.endTempo : ''}`)
+      .join(' ');
+    this.logResult(
+      'Measure Editing: Compact Bars',
+      compacted === 'ax3:‖ cx4→140 dx1' ? 'pass' : 'fail',
+      compacted
+    );
+
+    const groups = [0, 3, 5, 7].map(index => {
+      const range = getGroupRange(bars, index);
+      return `${range.start}-${range.end}`;
+    }).join(' ');
+    this.logResult(
+      'Measure Editing: Condensed Groups',
+      groups === '0-2 3-6 3-6 7-7' ? 'pass' : 'fail',
+      groups
+    );
+
+    // Markers are replaced as a whole; empty endings are dropped
+    const marked = applyMarkers({ ...measures[1] }, { segno: true, ending: [] });
+    this.logResult(
+      'Measure Editing: Apply Markers',
+      marked.segno === true && marked.repeatEnd === undefined && !('ending' in marked) ? 'pass' : 'fail',
+      JSON.stringify(marked)
+    );
+
+    const labels = [
+      getTempoLabel(measures[2]),
+      getTempoLabel(measures[3]),
+      getMarkerLabels({ repeatStart: true, ending: [1, 2], pause: { type: 'beats', length: 1 } }).join(' '),
+      getPauseLabel({ type: 'seconds', length: 2 })
+    ].join(' | ');
+    const expectedLabels = 'accel. 100→140 BPM | 140 BPM | ‖: 1,2. Fermata 1 beat | G.P. 2s';
+    this.logResult(
+      'Measure Editing: Labels',
+      labels === expectedLabels ? 'pass' : 'fail',
+      labels,
+      { expected: expectedLabels, actual: labels }
+    );
+
+    const show: PageShow = { id: 'show', name: 'Show', measures: [measures[0], { ...measures[3], letter: 'A' }, measures[3]] };
+    const letters = getAvailableLetters(show);
+    this.logResult(
+      'Measure Editing: Available Letters',
+      letters.length === 24 && letters[0] === 'C' ? 'pass' : 'fail',
+      `${letters.length} letters from ${letters[0]}`
+    );
+  }
+
+  testPlaybackRange() {
+    console.log('\n=== Testing Playback Range ===');
+
+    const show: PageShow = {
+      id: 'show',
+      name: 'Show',
+      measures: [
+        { id: 'a', timeSignature: { numerator: 4, denominator: 4 }, tempo: 120, count: 4 },
+        { id: 'b', timeSignature: { numerator: 3, denominator: 4 }, tempo: 120, count: 2, letter: 'B' }
+      ]
+    };
+
+    // Start and end bar indexes the SoundSystem plays, and the labels; end
+    // indexes are exclusive
+    const testCases: { name: string; options: Partial<ShowPlaybackOptions>; expected: string }[] = [
+      { name: 'Whole Show', options: {}, expected: '0-6 Beginning/End' },
+      { name: 'Measure Range', options: { startType: 'measure', startMeasure: '3', endType: 'measure', endMeasure: '99' }, expected: '2-6 Measure 3/Measure 99' },
+      { name: 'Up To Letter', options: { endType: 'letter', endLetter: 'B' }, expected: '0-4 Beginning/Letter B' },
+      { name: 'From Letter', options: { startType: 'letter', startLetter: 'B' }, expected: '4-6 Letter B/End' },
+      { name: 'Missing Letter', options: { startType: 'letter', startLetter: 'Q', endType: 'letter', endLetter: 'Q' }, expected: '0-6 Beginning/End' }
+    ];
+
+    testCases.forEach(({ name, options, expected }) => {
+      const playbackOptions = { ...DEFAULT_PLAYBACK_OPTIONS, ...options };
+      const labels = getPlaybackRangeLabels(show, playbackOptions);
+      const positions = getPlaybackPositions(expandMeasures(show.measures), getShowStartOptions(playbackOptions));
+      const actual = `${positions.start}-${positions.end} ${labels.start}/${labels.end}`;
+      this.logResult(
+        `Playback Range: ${name}`,
+        actual === expected ? 'pass' : 'fail',
+        actual,
+        { expected, actual }
+      );
+    });
+  }
+
   testShowCompletion() {
     console.log('\n=== Testing Show Completion ===');
 
@@ -483,9 +1592,26 @@ ${failed === 0 && warnings === 0 ? '✅ All automated tests passed - proceed wit
     
     this.testShowDataStructure();
     this.testCountInSequence();
+    this.testCountInSettings();
     this.testMeasureTransitions();
     this.testTempoChanges();
     this.testTimeSignatureChanges();
+    this.testMeterGrouping();
+    this.testAccentPatterns();
+    this.testWavExport();
+    this.testMidiExport();
+    this.testMidiImport();
+    this.testMusicXmlImport();
+    this.testShowFiles();
+    this.testShowSchema();
+    this.testMeasureCounts();
+    this.testTempoCurves();
+    this.testStructureResolution();
+    this.testPauses();
+    this.testShowTimeline();
+    await this.testShowTimelineScheduling();
+    this.testMeasureEditing();
+    this.testPlaybackRange();
     this.testShowCompletion();
     this.testShowPersistence();
 
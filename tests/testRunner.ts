@@ -7,6 +7,8 @@ import { runAudioPermissionTests, MANUAL_TEST_CHECKLIST } from './audioPermissio
 import { runTimingAccuracyTests, generateTimingTestReport } from './timingAccuracy.test';
 import { runShowModeTests, generateShowTestReport } from './showMode.test';
 import { runUIIntegrationTests, generateUITestReport } from './uiIntegration.test';
+import { runMessageProtocolTests } from './messageProtocol.test';
+import { runMetronomeTests } from './metronome.test';
 
 interface TestSuiteResult {
   suite: string;
@@ -315,6 +317,8 @@ Generated by Met Maestro Test Suite v1.0
     await this.runTestSuite('Timing Accuracy', runTimingAccuracyTests);
     await this.runTestSuite('Show Mode', runShowModeTests);
     await this.runTestSuite('UI Integration', runUIIntegrationTests);
+    await this.runTestSuite('Message Protocol', runMessageProtocolTests);
+    await this.runTestSuite('Metronome', runMetronomeTests);
     
     const endTime = new Date();
     const totalDuration = endTime.getTime() - startTime.getTime();
@@ -362,6 +366,8 @@ export {
   runTimingAccuracyTests, 
   runShowModeTests,
   runUIIntegrationTests,
+  runMessageProtocolTests,
+  runMetronomeTests,
   generateTimingTestReport,
   generateShowTestReport,
   generateUITestReport
@@ -2,13 +2,18 @@
  * Timing Accuracy Test Script
  * Compares WebView timing with timer.js implementation and verifies beat intervals
  * Tests mathematical correctness of tempo and time signature calculations
+ * and the lookahead scheduler that queues clicks on the audio clock
  */
 
+import { createLookaheadScheduler, SCHEDULER_LOOKAHEAD_SECONDS } from '../utils/lookaheadScheduler';
+import { createFakeAudioClock, FAKE_TICK_MS } from './fakeAudioClock';
+
 interface TimingTestResult {
   test: string;
   expected: number;
   actual: number;
   tolerance: number;
+  unit: string;
   status: 'pass' | 'fail';
   message: string;
   timestamp: string;
@@ -23,25 +28,26 @@ class TimingAccuracyTester {
   private results: TimingTestResult[] = [];
   private tolerance = 5; // 5ms tolerance for timing tests
 
-  private logResult(test: string, expected: number, actual: number, tolerance: number = this.tolerance) {
+  private logResult(test: string, expected: number, actual: number, tolerance: number = this.tolerance, unit: string = 'ms') {
     const diff = Math.abs(expected - actual);
     const status: 'pass' | 'fail' = diff <= tolerance ? 'pass' : 'fail';
     const message = status === 'pass' 
-      ? `Within tolerance (${diff.toFixed(2)}ms difference)`
-      : `Outside tolerance (${diff.toFixed(2)}ms difference, max ${tolerance}ms)`;
+      ? `Within tolerance (${diff.toFixed(2)}${unit} difference)`
+      : `Outside tolerance (${diff.toFixed(2)}${unit} difference, max ${tolerance}${unit})`;
 
     const result: TimingTestResult = {
       test,
       expected,
       actual,
       tolerance,
+      unit,
       status,
       message,
       timestamp: new Date().toISOString()
     };
     
     this.results.push(result);
-    console.log(`[${status.toUpperCase()}] ${test}: Expected ${expected}ms, Got ${actual}ms (${message})`);
+    console.log(`[${status.toUpperCase()}] ${test}: Expected ${expected}${unit}, Got ${actual}${unit} (${message})`);
   }
 
   /**
@@ -230,6 +236,65 @@ class TimingAccuracyTester {
     });
   }
 
+  async testLookaheadScheduler() {
+    console.log('\n=== Testing Lookahead Scheduler ===');
+
+    // A click every 'interval' seconds, like the metronome's click stream
+    const clock = createFakeAudioClock();
+    let interval = 0.25;
+    const scheduled: number[] = [];
+    const heard: number[] = [];
+    const scheduler = createLookaheadScheduler<{ time: number }>({
+      getAudioContext: () => clock.context,
+      getNextEvent: previous => ({ time: previous.time + interval }),
+      onSchedule: event => scheduled.push(event.time),
+      onUiEvent: event => heard.push(event.time),
+      tickInterval: FAKE_TICK_MS,
+    });
+    const toMs = (seconds: number) => Math.round(seconds * 1e6) / 1e3;
+
+    // Only clicks inside the window are queued when play is pressed
+    scheduler.start({ time: 0.05 });
+    this.logResult('Scheduler: clicks queued on start', 1, scheduled.length, 0, ' clicks');
+
+    // Each refill queues up to the horizon, at exact audio clock times
+    await clock.advance(0.5);
+    const horizon = 0.5 + SCHEDULER_LOOKAHEAD_SECONDS;
+    this.logResult('Scheduler: last click before the horizon', toMs(0.55), toMs(scheduled[scheduled.length - 1]), 0.001);
+    this.logResult('Scheduler: no click past the horizon', 0, scheduled.filter(time => time >= horizon).length, 0, ' clicks');
+    this.logResult('Scheduler: interval between queued clicks', 250, toMs(scheduled[2] - scheduled[1]), 0.001);
+
+    // A tempo change keeps queued clicks and spaces the next ones on from the last
+    interval = 0.5;
+    scheduler.reschedule();
+    await clock.advance(0.5);
+    this.logResult('Scheduler: clicks kept after a tempo change', 4, scheduled.length, 0, ' clicks');
+    this.logResult('Scheduler: interval after a tempo change', 500, toMs(scheduled[3] - scheduled[2]), 0.001);
+
+    // UI events arrive for every queued click, in order
+    await new Promise(resolve => setTimeout(resolve, 100));
+    this.logResult('Scheduler: UI events for queued clicks', scheduled.length, heard.length, 0, ' events');
+
+    // Stop silences the output on the audio clock and queues nothing more
+    scheduler.stop(1.2);
+    const stopGain = clock.gainChanges[clock.gainChanges.length - 1];
+    this.logResult('Scheduler: output silenced at the stop time', 1200, toMs(stopGain.time), 0.001);
+    await clock.advance(1);
+    this.logResult('Scheduler: nothing queued after stop', 4, scheduled.length, 0, ' clicks');
+    this.logResult('Scheduler: not running after stop', 0, scheduler.isRunning() ? 1 : 0, 0, ' timers');
+
+    // A finite source stops the refill timer once it runs out
+    const finite = createLookaheadScheduler<{ time: number; count: number }>({
+      getAudioContext: () => clock.context,
+      getNextEvent: previous => previous.count < 3 ? { time: previous.time + 0.25, count: previous.count + 1 } : null,
+      onSchedule: () => undefined,
+      tickInterval: FAKE_TICK_MS,
+    });
+    finite.start({ time: 2.05, count: 1 });
+    await clock.advance(1);
+    this.logResult('Scheduler: stops when the source is finished', 0, finite.isRunning() ? 1 : 0, 0, ' timers');
+  }
+
   generateTestReport(): string {
     const passed = this.results.filter(r => r.status === 'pass').length;
     const failed = this.results.filter(r => r.status === 'fail').length;
@@ -248,9 +313,9 @@ class TimingAccuracyTester {
 
 ${this.results.map(r => 
   `- ${r.status === 'pass' ? '✅' : '❌'} **${r.test}**
-    - Expected: ${r.expected}ms
-    - Actual: ${r.actual}ms
-    - Tolerance: ±${r.tolerance}ms
+    - Expected: ${r.expected}${r.unit}
+    - Actual: ${r.actual}${r.unit}
+    - Tolerance: ±${r.tolerance}${r.unit}
     - Result: ${r.message}`
 ).join('\n\n')}
 
@@ -279,6 +344,7 @@ ${failed === 0 ? '✅ Mathematical timing calculations are correct' : ''}
     this.testSubdivisionIntervals();
     this.testEdgeCases();
     this.testWebViewTimingConsistency();
+    await this.testLookaheadScheduler();
 
     console.log('\n=== Test Results Summary ===');
     const passed = this.results.filter(r => r.status === 'pass').length;
@@ -290,7 +356,7 @@ ${failed === 0 ? '✅ Mathematical timing calculations are correct' : ''}
     if (failed > 0) {
       console.log('\n❌ FAILED TESTS:');
       this.results.filter(r => r.status === 'fail').forEach(r => {
-        console.log(`- ${r.test}: Expected ${r.expected}ms, Got ${r.actual}ms`);
+        console.log(`- ${r.test}: Expected ${r.expected}${r.unit}, Got ${r.actual}${r.unit}`);
       });
     }
 
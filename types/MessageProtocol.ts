@@ -1,18 +1,31 @@
-// Unified message protocol for SoundSystem communication
+// Unified message protocol between React Native and the WebViews. Every
+// channel is a discriminated union on 'type'; the schemas in
+// utils/messageSchema.ts check each message where it is received.
 
-export interface SoundSystemMessage {
-  type: string;
-  payload?: any;
-  requestId?: string;
-  timestamp?: number;
-}
+// A message of a channel whose payload types are listed in 'Payloads'
+export type ProtocolMessageOf<Payloads> = {
+  [Type in keyof Payloads & string]: {
+    type: Type;
+    payload: Payloads[Type];
+    requestId?: string;
+    timestamp?: number;
+  };
+}[keyof Payloads & string];
+
+export type EmptyPayload = Record<string, never>;
+
+// Raised whenever a change to the messages would break a page built for the
+// previous version. Every page announces the version it speaks in READY.
+export const PROTOCOL_VERSION = 2;
 
-// Message types - React Native to WebView
+// Message types - React Native to the SoundSystem WebView. The tuner listens
+// to the microphone in React Native, so it has no messages of its own.
 export const MESSAGE_TYPES = {
   // System
   INIT_AUDIO: 'INIT_AUDIO',
   SUSPEND_AUDIO: 'SUSPEND_AUDIO',
   UPDATE_THEME: 'UPDATE_THEME',
+  UPDATE_SOUND: 'UPDATE_SOUND',
 
   // Metronome
   START_METRONOME: 'START_METRONOME',
@@ -23,63 +36,135 @@ export const MESSAGE_TYPES = {
   LOAD_SHOW: 'LOAD_SHOW',
   START_SHOW: 'START_SHOW',
   STOP_SHOW: 'STOP_SHOW',
+  RESUME_SHOW: 'RESUME_SHOW',
   UPDATE_SHOW_SETTINGS: 'UPDATE_SHOW_SETTINGS',
-
-  // Tuner
-  START_TUNER: 'START_TUNER',
-  STOP_TUNER: 'STOP_TUNER',
-  UPDATE_TUNER_SETTINGS: 'UPDATE_TUNER_SETTINGS',
+  RENDER_SHOW_WAV: 'RENDER_SHOW_WAV',
 } as const;
 
-// Message types - WebView to React Native
+// Message types - SoundSystem WebView to React Native
 export const RESPONSE_TYPES = {
   // Metronome responses
   METRONOME_BEAT: 'METRONOME_BEAT',
+  METRONOME_LAYER_PULSE: 'METRONOME_LAYER_PULSE',
   METRONOME_STARTED: 'METRONOME_STARTED',
   METRONOME_STOPPED: 'METRONOME_STOPPED',
 
   // Show responses
   SHOW_LOADED: 'SHOW_LOADED',
+  SHOW_BEAT: 'SHOW_BEAT',
   SHOW_MEASURE_COMPLETED: 'SHOW_MEASURE_COMPLETED',
   SHOW_STARTED: 'SHOW_STARTED',
   SHOW_STOPPED: 'SHOW_STOPPED',
-
-  // Tuner responses
-  TUNER_STARTED: 'TUNER_STARTED',
-  TUNER_STOPPED: 'TUNER_STOPPED',
-  TUNER_DATA: 'TUNER_DATA',
+  SHOW_WAV_RENDERED: 'SHOW_WAV_RENDERED',
 
   // System responses
+  READY: 'READY',
+  COMMAND_APPLIED: 'COMMAND_APPLIED',
   AUDIO_INITIALIZED: 'AUDIO_INITIALIZED',
   AUDIO_ERROR: 'AUDIO_ERROR',
+  PROTOCOL_ERROR: 'PROTOCOL_ERROR',
 } as const;
 
 // Payload type definitions
+// Count-in played before the metronome or a show starts
+export interface CountInPayload {
+  enabled: boolean;
+  length: number;
+  unit: 'bars' | 'beats';
+  meter: 'firstMeasure' | 'fixed';
+  sound: 'tone' | 'woodblock' | 'cowbell';
+  spoken: boolean;
+  skipWhenResuming: boolean;
+}
+
+// Accent level of every beat, and of the subdivision clicks after each beat
+export interface AccentPatternPayload {
+  beats: ('accent' | 'normal' | 'ghost' | 'mute')[];
+  subdivisions?: ('accent' | 'normal' | 'ghost' | 'mute')[][];
+}
+
+// Polyrhythm or polymeter layer played over the main beat
+export interface RhythmLayerPayload {
+  id: string;
+  mode: 'polyrhythm' | 'polymeter';
+  pulses: number;
+  unit: number;
+  sound: string;
+  volume: number;
+  accents?: ('accent' | 'normal' | 'ghost' | 'mute')[];
+}
+
+// Silent bars and randomly muted beats for internal time practice
+export interface GapTrainerPayload {
+  enabled: boolean;
+  playBars: number;
+  silentBars: number;
+  randomMute: number; // percent
+}
+
 export interface MetronomeStartPayload {
   bpm: number;
-  timeSignature: { numerator: number; denominator: number };
+  timeSignature: { numerator: number; denominator: number; grouping?: number[] };
   soundType: string;
   subdivision?: number;
+  countIn?: CountInPayload;
+  accents?: AccentPatternPayload | null; // null for the meter's default accents
+  swing?: number; // percent, 50 plays straight
+  layers?: RhythmLayerPayload[];
+  gapTrainer?: GapTrainerPayload;
 }
 
+// Main beat as it is heard; beatNumber counts 1..totalBeats through the bar
 export interface MetronomeBeatPayload {
   beatNumber: number;
   totalBeats: number;
+  barNumber: number; // bars started since the metronome started, 0 for the first
   isDownbeat: boolean;
+  isSilent: boolean; // silent bar or randomly muted beat of the gap trainer
+  bpm: number;
+  timeSignature: { numerator: number; denominator: number; grouping?: number[] };
+}
+
+export interface MetronomeLayerPulsePayload {
+  layerId: string;
+  pulseIndex: number;
+}
+
+export interface ShowMeasurePayload {
+  id: string;
+  timeSignature: { numerator: number; denominator: number; grouping?: number[] };
+  tempo: number;
+  count: number;
+  letter?: string;
+  tempoChange?: { endTempo: number; curve: 'linear' | 'exponential' };
+  accents?: AccentPatternPayload;
+  subdivision?: number;
+  swing?: number;
+  // Repeats, endings, jumps and pauses
+  repeatStart?: boolean;
+  repeatEnd?: number;
+  ending?: number[];
+  segno?: boolean;
+  coda?: boolean;
+  toCoda?: boolean;
+  fine?: boolean;
+  jump?: 'dc' | 'dcAlFine' | 'dcAlCoda' | 'ds' | 'dsAlFine' | 'dsAlCoda';
+  pause?: { type: 'seconds' | 'beats' | 'hold'; length?: number };
 }
 
 export interface ShowLoadPayload {
   id: string;
   name: string;
-  measures: {
-    id: string;
-    timeSignature: { numerator: number; denominator: number };
-    tempo: number;
-    count: number;
-    letter?: string;
-  }[];
+  measures: ShowMeasurePayload[];
+  countIn?: Partial<CountInPayload>;
+}
+
+export interface ShowLoadedPayload {
+  showId: string;
+  totalMeasures: number;
 }
 
+// Measures are 1-based bar numbers; a letter takes precedence over a measure
 export interface ShowStartPayload {
   startType: 'beginning' | 'current' | 'specific';
   startMeasure?: number;
@@ -89,23 +174,58 @@ export interface ShowStartPayload {
   endLetter?: string;
 }
 
+export interface ShowStartedPayload {
+  showId: string;
+  startMeasure: number;
+}
+
+// 'completed' when the show played to its end rather than being stopped
+export interface ShowStoppedPayload {
+  completed: boolean;
+}
+
+// Pause starting after the completed measure; duration is null for a hold
+export interface ShowPausePayload {
+  type: 'seconds' | 'beats' | 'hold';
+  duration: number | null;
+}
+
+// Beat of a show as it is heard; count-in beats have measureNumber 0
+export interface ShowBeatPayload {
+  measureNumber: number;
+  beatIndex: number; // 0-based in the bar
+  beatsInMeasure: number;
+  isCountIn: boolean;
+  isSilent: boolean; // a muted beat
+  timeSignature: { numerator: number; denominator: number; grouping?: number[] } | null; // null during the count-in
+}
+
+// The next measure is the one played after the completed one (and its pause),
+// the completed one again when the show ends
 export interface ShowMeasureCompletedPayload {
   measureNumber: number;
   beatsPerMeasure: number;
   tempo: number;
+  nextMeasureNumber: number;
   nextTempo: number;
   nextTimeSignature: { numerator: number; denominator: number };
+  showName: string;
+  pause?: ShowPausePayload;
 }
 
-export interface TunerStartPayload {
-  referencePitch: number;
+// Click track of a whole show, count-in included, rendered offline
+export interface ShowWavRenderedPayload {
+  showId: string;
+  duration: number; // seconds
+  data: string; // base64 WAV file
 }
 
-export interface TunerDataPayload {
-  note: string | null;
-  frequency: number | null;
-  cents: number | null;
-  isInTune: boolean;
+export interface ShowSettingsPayload {
+  countIn?: Partial<CountInPayload>;
+}
+
+export interface SoundUpdatePayload {
+  soundType: string;
 }
 
 export interface ThemeColorsPayload {
@@ -118,21 +238,161 @@ export interface ThemeColorsPayload {
   orange: string;
 }
 
-// Helper type for message payloads
-export type MessagePayload =
-  | MetronomeStartPayload
-  | MetronomeBeatPayload
-  | ShowLoadPayload
-  | ShowStartPayload
-  | ShowMeasureCompletedPayload
-  | TunerStartPayload
-  | TunerDataPayload
-  | ThemeColorsPayload
-  | {};
-
-// Helper type for response payloads
-export type ResponsePayload =
-  | MetronomeBeatPayload
-  | ShowMeasureCompletedPayload
-  | TunerDataPayload
-  | {};
+// Acknowledges a command that has no response of its own
+export interface CommandAppliedPayload {
+  command: SoundSystemMessage['type'];
+}
+
+export interface AudioInitializedPayload {
+  sampleRate: number;
+}
+
+export interface AudioErrorPayload {
+  error: string;
+  mode: 'metronome' | 'show' | 'tuner' | 'system';
+}
+
+// Sent by every page once it can take messages, and again after a reload
+export interface ReadyPayload {
+  protocolVersion: number;
+}
+
+// A message the receiving end could not read or does not know
+export interface ProtocolErrorPayload {
+  messageType: string | null; // null when the message has no readable type
+  errors: string[];
+}
+
+export interface SoundSystemMessagePayloads {
+  INIT_AUDIO: EmptyPayload;
+  SUSPEND_AUDIO: EmptyPayload;
+  UPDATE_THEME: ThemeColorsPayload;
+  UPDATE_SOUND: SoundUpdatePayload;
+  START_METRONOME: MetronomeStartPayload;
+  STOP_METRONOME: EmptyPayload;
+  UPDATE_METRONOME_SETTINGS: Partial<MetronomeStartPayload>;
+  LOAD_SHOW: ShowLoadPayload;
+  START_SHOW: ShowStartPayload;
+  STOP_SHOW: EmptyPayload;
+  RESUME_SHOW: EmptyPayload;
+  UPDATE_SHOW_SETTINGS: ShowSettingsPayload;
+  RENDER_SHOW_WAV: ShowLoadPayload;
+}
+
+export interface SoundSystemResponsePayloads {
+  METRONOME_BEAT: MetronomeBeatPayload;
+  METRONOME_LAYER_PULSE: MetronomeLayerPulsePayload;
+  METRONOME_STARTED: { bpm: number; timeSignature: MetronomeStartPayload['timeSignature'] };
+  METRONOME_STOPPED: EmptyPayload;
+  SHOW_LOADED: ShowLoadedPayload;
+  SHOW_BEAT: ShowBeatPayload;
+  SHOW_MEASURE_COMPLETED: ShowMeasureCompletedPayload;
+  SHOW_STARTED: ShowStartedPayload;
+  SHOW_STOPPED: ShowStoppedPayload;
+  SHOW_WAV_RENDERED: ShowWavRenderedPayload;
+  READY: ReadyPayload;
+  COMMAND_APPLIED: CommandAppliedPayload;
+  AUDIO_INITIALIZED: AudioInitializedPayload;
+  AUDIO_ERROR: AudioErrorPayload;
+  PROTOCOL_ERROR: ProtocolErrorPayload;
+}
+
+export type SoundSystemMessage = ProtocolMessageOf<SoundSystemMessagePayloads>;
+export type SoundSystemResponse = ProtocolMessageOf<SoundSystemResponsePayloads>;
+
+// The response that acknowledges each command, sent back with the command's
+// requestId. AUDIO_ERROR with the requestId means the command failed.
+export const COMMAND_ACKS = {
+  INIT_AUDIO: 'AUDIO_INITIALIZED',
+  SUSPEND_AUDIO: 'COMMAND_APPLIED',
+  UPDATE_THEME: 'COMMAND_APPLIED',
+  UPDATE_SOUND: 'COMMAND_APPLIED',
+  START_METRONOME: 'METRONOME_STARTED',
+  STOP_METRONOME: 'COMMAND_APPLIED',
+  UPDATE_METRONOME_SETTINGS: 'COMMAND_APPLIED',
+  LOAD_SHOW: 'SHOW_LOADED',
+  START_SHOW: 'SHOW_STARTED',
+  STOP_SHOW: 'COMMAND_APPLIED',
+  RESUME_SHOW: 'COMMAND_APPLIED',
+  UPDATE_SHOW_SETTINGS: 'COMMAND_APPLIED',
+  RENDER_SHOW_WAV: 'SHOW_WAV_RENDERED',
+} as const satisfies Record<SoundSystemMessage['type'], SoundSystemResponse['type']>;
+
+// What a command's promise resolves with
+export type CommandAckPayload<T extends SoundSystemMessage['type']> =
+  SoundSystemResponsePayloads[(typeof COMMAND_ACKS)[T]];
+
+// Metronome page (WebViewMetronome): the page only shows the metronome;
+// WebViewMetronome plays what it asks for on the SoundSystem and passes
+// the beats back
+export interface MetronomeViewMessagePayloads {
+  METRONOME_STARTED: EmptyPayload;
+  METRONOME_STOPPED: EmptyPayload;
+  METRONOME_BEAT: MetronomeBeatPayload;
+  TIME_SIGNATURE_CHANGE: { timeSignature: MetronomeStartPayload['timeSignature'] };
+  ACCENTS_CHANGE: { accents: AccentPatternPayload | null };
+  SWING_CHANGE: { swing: number };
+  COLOR_CHANGE: { colors: ThemeColorsPayload };
+}
+
+export interface MetronomeViewResponsePayloads {
+  OPEN_SETTINGS: EmptyPayload;
+  START_METRONOME: { bpm: number; subdivision: number };
+  STOP_METRONOME: EmptyPayload;
+  TEMPO_CHANGE: { bpm: number };
+  SUBDIVISION_CHANGE: { subdivision: number };
+  ACCENTS_CHANGE: { accents: AccentPatternPayload };
+  SWING_CHANGE: { swing: number };
+  RESET_WEBVIEW: EmptyPayload;
+  READY: ReadyPayload;
+  PROTOCOL_ERROR: ProtocolErrorPayload;
+}
+
+export type MetronomeViewMessage = ProtocolMessageOf<MetronomeViewMessagePayloads>;
+export type MetronomeViewResponse = ProtocolMessageOf<MetronomeViewResponsePayloads>;
+
+// Show page (WebViewShow): edits to the shows, and playback requests that
+// WebViewShow plays on the SoundSystem
+export interface ShowViewResponsePayloads {
+  ADD_SHOW: EmptyPayload;
+  SELECT_SHOW: { showId: string };
+  RENAME_SHOW: { showId: string; newName: string };
+  UPDATE_SHOW_MEASURES: { showId: string; measures: ShowMeasurePayload[] };
+  DELETE_SHOW: { showId: string };
+  IMPORT_SHOW: EmptyPayload;
+  EXPORT_SHOW: { showId: string };
+  EXPORT_SHOW_MIDI: { showId: string };
+  EXPORT_SHOW_WAV: { showId: string };
+  START_SHOW: { showId: string; range: ShowStartPayload };
+  STOP_SHOW: EmptyPayload;
+  RESUME_SHOW: EmptyPayload;
+  OPEN_SETTINGS: EmptyPayload;
+  OPEN_PLAYBACK_OPTIONS: EmptyPayload;
+  READY: ReadyPayload;
+  PROTOCOL_ERROR: ProtocolErrorPayload;
+}
+
+export type ShowViewResponse = ProtocolMessageOf<ShowViewResponsePayloads>;
+
+// Tuner page (WebViewTuner)
+export interface TunerViewResponsePayloads {
+  REQUEST_PERMISSION: EmptyPayload;
+  REFRESH_PERMISSION: EmptyPayload;
+  OPEN_SETTINGS: EmptyPayload;
+  READY: ReadyPayload;
+  PROTOCOL_ERROR: ProtocolErrorPayload;
+}
+
+export type TunerViewResponse = ProtocolMessageOf<TunerViewResponsePayloads>;
+
+// Every channel, named by the page and the direction messages travel in
+export interface ProtocolChannels {
+  soundSystemMessage: SoundSystemMessage;
+  soundSystemResponse: SoundSystemResponse;
+  metronomeViewMessage: MetronomeViewMessage;
+  metronomeViewResponse: MetronomeViewResponse;
+  showViewResponse: ShowViewResponse;
+  tunerViewResponse: TunerViewResponse;
+}
+
+export type ProtocolChannel = keyof ProtocolChannels;
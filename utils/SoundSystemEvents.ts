@@ -1,14 +1,19 @@
 import React from 'react';
 import { DeviceEventEmitter } from 'react-native';
+import { ProtocolChannel, ProtocolChannels, ProtocolErrorPayload } from '../types/MessageProtocol';
+import { parseMessage } from './messageSchema';
 
 // Event types for SoundSystem communication
 export enum SoundSystemEventType {
   // Metronome events
   METRONOME_BEAT = 'metronome-beat',
+  METRONOME_LAYER_PULSE = 'metronome-layer-pulse',
   METRONOME_STARTED = 'metronome-started',
   METRONOME_STOPPED = 'metronome-stopped',
 
   // Show events
+  SHOW_LOADED = 'show-loaded',
+  SHOW_BEAT = 'show-beat',
   SHOW_MEASURE_COMPLETED = 'show-measure-completed',
   SHOW_STARTED = 'show-started',
   SHOW_STOPPED = 'show-stopped',
@@ -21,24 +26,64 @@ export enum SoundSystemEventType {
   // System events
   AUDIO_INITIALIZED = 'audio-initialized',
   AUDIO_ERROR = 'audio-error',
+  PROTOCOL_ERROR = 'protocol-error',
 }
 
 // Event payload interfaces
 export interface MetronomeBeatPayload {
-  beatNumber: number;
+  beatNumber: number; // 1..totalBeats
   totalBeats: number;
+  barNumber: number; // 0 for the first bar since the start
   isDownbeat: boolean;
+  isSilent: boolean; // gap trainer silence
   bpm: number;
-  timeSignature: { numerator: number; denominator: number };
+  timeSignature: { numerator: number; denominator: number; grouping?: number[] };
+}
+
+export interface MetronomeLayerPulsePayload {
+  layerId: string;
+  pulseIndex: number;
+}
+
+export interface ShowLoadedPayload {
+  showId: string;
+  totalMeasures: number;
+}
+
+// Count-in beats have measureNumber 0 and no time signature
+export interface ShowBeatPayload {
+  measureNumber: number;
+  beatIndex: number; // 0-based in the bar
+  beatsInMeasure: number;
+  isCountIn: boolean;
+  isSilent: boolean; // a muted beat
+  timeSignature: { numerator: number; denominator: number; grouping?: number[] } | null;
+}
+
+export interface ShowStartedPayload {
+  showId: string;
+  startMeasure: number;
+}
+
+export interface ShowStoppedPayload {
+  completed: boolean; // played to the end rather than stopped
+}
+
+// Pause starting after the completed measure; duration is null for a hold
+export interface ShowPausePayload {
+  type: 'seconds' | 'beats' | 'hold';
+  duration: number | null;
 }
 
 export interface ShowMeasureCompletedPayload {
   measureNumber: number;
   beatsPerMeasure: number;
   tempo: number;
+  nextMeasureNumber: number;
   nextTempo: number;
   nextTimeSignature: { numerator: number; denominator: number };
   showName: string;
+  pause?: ShowPausePayload;
 }
 
 export interface TunerDataPayload {
@@ -55,12 +100,27 @@ export interface AudioErrorPayload {
   mode: 'metronome' | 'show' | 'tuner' | 'system';
 }
 
+// A message between React Native and a WebView that failed its schema;
+// 'rejectedBy' is the end that received it
+export interface ProtocolErrorEventPayload {
+  source: 'soundSystem' | 'metronome' | 'show' | 'tuner';
+  rejectedBy: 'app' | 'webview';
+  messageType: string | null;
+  errors: string[];
+}
+
 // Union type for all event payloads
 export type SoundSystemEventPayload =
   | MetronomeBeatPayload
+  | MetronomeLayerPulsePayload
+  | ShowLoadedPayload
+  | ShowBeatPayload
+  | ShowStartedPayload
+  | ShowStoppedPayload
   | ShowMeasureCompletedPayload
   | TunerDataPayload
   | AudioErrorPayload
+  | ProtocolErrorEventPayload
   | {};
 
 // Event interface
@@ -104,6 +164,37 @@ class SoundSystemEventEmitter {
 // Export singleton instance
 export const soundSystemEvents = SoundSystemEventEmitter.getInstance();
 
+// A channel's messages other than the PROTOCOL_ERROR reports
+export type ReceivedMessage<C extends ProtocolChannel> = Exclude<ProtocolChannels[C], { type: 'PROTOCOL_ERROR' }>;
+
+// Report a message that failed its schema at either end
+export function reportProtocolError(
+  source: ProtocolErrorEventPayload['source'],
+  rejectedBy: ProtocolErrorEventPayload['rejectedBy'],
+  { messageType, errors }: ProtocolErrorPayload
+) {
+  soundSystemEvents.emit(SoundSystemEventType.PROTOCOL_ERROR, { source, rejectedBy, messageType, errors });
+}
+
+// Decode a message from a WebView. Messages that fail their schema, and the
+// page's reports of messages it rejected, become PROTOCOL_ERROR events.
+export function receiveWebViewMessage<C extends ProtocolChannel>(
+  source: ProtocolErrorEventPayload['source'],
+  channel: C,
+  raw: string
+): ReceivedMessage<C> | null {
+  const { message, type, errors } = parseMessage(channel, raw);
+  if (!message) {
+    reportProtocolError(source, 'app', { messageType: type, errors });
+    return null;
+  }
+  if (message.type === 'PROTOCOL_ERROR') {
+    reportProtocolError(source, 'webview', message.payload as ProtocolErrorPayload);
+    return null;
+  }
+  return message as unknown as ReceivedMessage<C>;
+}
+
 // React hook for listening to SoundSystem events
 export const useSoundSystemEvents = () => {
   const [events, setEvents] = React.useState<Map<SoundSystemEventType, SoundSystemEventPayload>>(new Map());
@@ -0,0 +1,128 @@
+/**
+ * Accent Pattern
+ * Per-beat accent levels shared by show measures and the metronome. Every beat,
+ * and every subdivision click after it, is accented, normal, ghosted or muted;
+ * each sound type maps a level to its own volume and pitch.
+ */
+
+import { getGrouping, isGroupStart, TimeSignature } from './meterGrouping';
+
+export type AccentLevel = 'accent' | 'normal' | 'ghost' | 'mute';
+
+export const ACCENT_LEVELS: AccentLevel[] = ['accent', 'normal', 'ghost', 'mute'];
+
+export const ACCENT_LEVEL_LABELS: Record<AccentLevel, string> = {
+  accent: 'Accent',
+  normal: 'Normal',
+  ghost: 'Ghost',
+  mute: 'Mute',
+};
+
+export interface AccentPattern {
+  beats: AccentLevel[]; // one level per beat; missing beats use the meter's default
+  // Per beat, the clicks after it: subdivisions[1][0] is the "&" of 2
+  subdivisions?: AccentLevel[][];
+}
+
+// Show measures saved before accent levels: beats playing the high or low sound, others silent
+export interface BeatSounds {
+  high: number[];
+  low: number[];
+}
+
+// How a level sounds: the high (accent) or low click, scaled in volume and pitch
+export interface AccentVoice {
+  high: boolean;
+  gain: number;
+  pitch: number;
+}
+
+type VoiceTable = Record<Exclude<AccentLevel, 'mute'>, { gain: number; pitch: number }>;
+
+// Accent and normal keep each sound's original high and low clicks; ghost
+// notes are quieter and slightly lower, tuned per sound
+export const ACCENT_VOICES: Record<string, VoiceTable> = {
+  synth: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.35, pitch: 0.9 } },
+  woodblock: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.3, pitch: 0.94 } },
+  cowbell: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.4, pitch: 0.97 } },
+  click: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.3, pitch: 0.85 } },
+  beep: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.3, pitch: 0.9 } },
+  drbeat: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.2, pitch: 0.9 } },
+  sharp: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.2, pitch: 0.92 } },
+};
+
+export function getAccentVoice(soundType: string, level: AccentLevel): AccentVoice | null {
+  if (level === 'mute') return null;
+  const voices = ACCENT_VOICES[soundType] || ACCENT_VOICES.synth;
+  return { high: level === 'accent', ...voices[level] };
+}
+
+// The downbeat, and the first beat of each group in a grouped meter, are accented
+export function getDefaultAccentLevel(timeSignature: TimeSignature, beatIndex: number): AccentLevel {
+  if (beatIndex === 0) return 'accent';
+  return getGrouping(timeSignature) && isGroupStart(timeSignature, beatIndex) ? 'accent' : 'normal';
+}
+
+// Level of one click; subdivisionIndex 0 is the beat itself
+export function getAccentLevel(
+  pattern: AccentPattern | null | undefined,
+  beatIndex: number,
+  subdivisionIndex: number,
+  defaultLevel: AccentLevel
+): AccentLevel {
+  if (subdivisionIndex > 0) {
+    return pattern?.subdivisions?.[beatIndex]?.[subdivisionIndex - 1] || 'normal';
+  }
+  return pattern?.beats?.[beatIndex] || defaultLevel;
+}
+
+// One level per beat of the meter, filling in defaults
+export function getBeatLevels(pattern: AccentPattern | null | undefined, timeSignature: TimeSignature): AccentLevel[] {
+  return Array.from({ length: timeSignature.numerator }, (_, beat) =>
+    getAccentLevel(pattern, beat, 0, getDefaultAccentLevel(timeSignature, beat))
+  );
+}
+
+export function cycleAccentLevel(level: AccentLevel): AccentLevel {
+  return ACCENT_LEVELS[(ACCENT_LEVELS.indexOf(level) + 1) % ACCENT_LEVELS.length];
+}
+
+// A copy of the pattern with one click set to 'level'
+export function setAccentLevel(
+  pattern: AccentPattern | null | undefined,
+  timeSignature: TimeSignature,
+  beatIndex: number,
+  subdivisionIndex: number,
+  level: AccentLevel
+): AccentPattern {
+  const beats = getBeatLevels(pattern, timeSignature);
+  const subdivisions = (pattern?.subdivisions || []).map(levels => [...(levels || [])]);
+  if (subdivisionIndex === 0) {
+    beats[beatIndex] = level;
+  } else {
+    while (subdivisions.length <= beatIndex) subdivisions.push([]);
+    const levels = subdivisions[beatIndex];
+    while (levels.length < subdivisionIndex) levels.push('normal');
+    levels[subdivisionIndex - 1] = level;
+  }
+  return subdivisions.length > 0 ? { beats, subdivisions } : { beats };
+}
+
+export function accentsFromBeatSounds(beatSounds: BeatSounds, numerator: number): AccentPattern {
+  return {
+    beats: Array.from({ length: numerator }, (_, beat) => {
+      if ((beatSounds.high || []).includes(beat)) return 'accent';
+      return (beatSounds.low || []).includes(beat) ? 'normal' : 'mute';
+    }),
+  };
+}
+
+// A measure's accents, reading the older high/low beat sounds when it has no pattern
+export function getMeasureAccents(measure: {
+  timeSignature: TimeSignature;
+  accents?: AccentPattern;
+  beatSounds?: BeatSounds;
+}): AccentPattern | undefined {
+  if (measure.accents) return measure.accents;
+  return measure.beatSounds ? accentsFromBeatSounds(measure.beatSounds, measure.timeSignature.numerator) : undefined;
+}
@@ -0,0 +1,574 @@
+/**
+ * Click Sounds
+ * The synthesized click sound bank shared by the metronome and shows. Every
+ * sound is built from oscillators and noise on the given context, so live
+ * playback and offline WAV rendering use the same sounds.
+ */
+
+import { AccentLevel, getAccentVoice } from './accentPattern';
+import { CountInSound } from './countIn';
+
+// Route a click through the level's volume
+function createAccentOutput(context: BaseAudioContext, output: AudioNode, gain: number): AudioNode {
+  if (gain === 1) return output;
+  const gainNode = context.createGain();
+  gainNode.gain.value = gain;
+  gainNode.connect(output);
+  return gainNode;
+}
+
+/**
+ * Queue one click of 'sound' at 'level' on 'context' at 'time' (now when
+ * omitted). Muted clicks play nothing; the others pick the high or low sound
+ * and are scaled in volume and pitch for the sound type. 'volume' scales layers.
+ */
+export function playClickSound(
+  context: BaseAudioContext,
+  destination: AudioNode,
+  sound: string,
+  level: AccentLevel,
+  time?: number | null,
+  volume: number = 1
+): void {
+  const voice = getAccentVoice(sound, level);
+  if (!voice) {
+    return;
+  }
+  const isAccent = voice.high;
+  const pitch = voice.pitch;
+
+  const startTime = time ?? context.currentTime;
+  const duration = 0.08;
+  const output = createAccentOutput(context, destination, voice.gain * volume);
+
+  // Different sound types
+  if (sound === 'synth') {
+    if (isAccent) {
+      // Downbeat: higher frequency with more harmonics
+      const oscillator1 = context.createOscillator();
+      const oscillator2 = context.createOscillator();
+      const gainNode = context.createGain();
+
+      oscillator1.frequency.setValueAtTime(800 * pitch, startTime);
+      oscillator2.frequency.setValueAtTime(1200 * pitch, startTime);
+
+      gainNode.gain.setValueAtTime(0.3, startTime);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, startTime + duration);
+
+      oscillator1.connect(gainNode);
+      oscillator2.connect(gainNode);
+      gainNode.connect(output);
+
+      oscillator1.start(startTime);
+      oscillator2.start(startTime);
+      oscillator1.stop(startTime + duration);
+      oscillator2.stop(startTime + duration);
+    } else {
+      // Offbeat: simpler sound
+      const oscillator = context.createOscillator();
+      const gainNode = context.createGain();
+
+      oscillator.frequency.setValueAtTime(600 * pitch, startTime);
+      gainNode.gain.setValueAtTime(0.2, startTime);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, startTime + duration);
+
+      oscillator.connect(gainNode);
+      gainNode.connect(output);
+
+      oscillator.start(startTime);
+      oscillator.stop(startTime + duration);
+    }
+  } else if (sound === 'woodblock') {
+    // Woodblock sound - authentic synthesis with proper envelopes and filtering
+    const oscillator1 = context.createOscillator();
+    const oscillator2 = context.createOscillator();
+    const noiseBuffer = context.createBuffer(1, 2048, context.sampleRate);
+    const noiseData = noiseBuffer.getChannelData(0);
+    for (let i = 0; i < 2048; i++) {
+      noiseData[i] = Math.random() * 2 - 1;
+    }
+    const noiseSource = context.createBufferSource();
+    noiseSource.buffer = noiseBuffer;
+
+    const gainNode = context.createGain();
+    const noiseGain = context.createGain();
+    const filterNode = context.createBiquadFilter();
+    const filterEnv = context.createGain();
+
+    // Fundamental pitch - higher for accent
+    const baseFreq = (isAccent ? 1200 : 800) * pitch;
+
+    // Primary oscillator - square wave for rich harmonics
+    oscillator1.frequency.setValueAtTime(baseFreq, startTime);
+    oscillator1.type = 'square';
+
+    // Secondary oscillator - slightly detuned for complexity
+    oscillator2.frequency.setValueAtTime(baseFreq * 1.01, startTime);
+    oscillator2.type = 'square';
+
+    // Filter configuration - low-pass with resonance
+    filterNode.type = 'lowpass';
+    filterNode.frequency.setValueAtTime(6000, startTime);
+    filterNode.Q.setValueAtTime(0.2, startTime);
+
+    // Amplitude envelope - extremely fast attack, short decay
+    gainNode.gain.setValueAtTime(0, startTime);
+    gainNode.gain.linearRampToValueAtTime(isAccent ? 1.5 : 1.2, startTime + 0.001); // Fast attack
+    gainNode.gain.exponentialRampToValueAtTime(0.01, startTime + 0.08); // Short decay
+
+    // Noise envelope - very short burst for initial "thwack"
+    noiseGain.gain.setValueAtTime(0, startTime);
+    noiseGain.gain.linearRampToValueAtTime(0.8, startTime + 0.001); // Fast attack
+    noiseGain.gain.exponentialRampToValueAtTime(0.001, startTime + 0.005); // Very short decay
+
+    // Filter envelope - brighten then muffle
+    filterEnv.gain.setValueAtTime(1, startTime);
+    filterEnv.gain.exponentialRampToValueAtTime(0.3, startTime + 0.06); // Filter decay
+
+    // Connect oscillators
+    oscillator1.connect(filterNode);
+    oscillator2.connect(filterNode);
+
+    // Connect noise
+    noiseSource.connect(noiseGain);
+    noiseGain.connect(filterNode);
+
+    // Connect filter with envelope
+    filterNode.connect(filterEnv);
+    filterEnv.connect(gainNode);
+    gainNode.connect(output);
+
+    // Start oscillators
+    oscillator1.start(startTime);
+    oscillator2.start(startTime);
+    noiseSource.start(startTime);
+
+    // Stop oscillators
+    oscillator1.stop(startTime + 0.08);
+    oscillator2.stop(startTime + 0.08);
+    noiseSource.stop(startTime + 0.005);
+  } else if (sound === 'cowbell') {
+    // Cowbell sound - authentic metallic synthesis with inharmonic relationships
+    const oscillator1 = context.createOscillator();
+    const oscillator2 = context.createOscillator();
+    const oscillator3 = context.createOscillator();
+    const oscillator4 = context.createOscillator();
+    const oscillator5 = context.createOscillator();
+    const noiseBuffer = context.createBuffer(1, 2048, context.sampleRate);
+    const noiseData = noiseBuffer.getChannelData(0);
+    for (let i = 0; i < 2048; i++) {
+      noiseData[i] = Math.random() * 2 - 1;
+    }
+    const noiseSource = context.createBufferSource();
+    noiseSource.buffer = noiseBuffer;
+
+    const gainNode = context.createGain();
+    const noiseGain = context.createGain();
+    const filterNode = context.createBiquadFilter();
+    const filterEnv = context.createGain();
+
+    // Fundamental frequency - higher for accent
+    const baseFreq = (isAccent ? 600 : 400) * pitch;
+
+    // Additive synthesis with inharmonic relationships for metallic tone
+    oscillator1.frequency.setValueAtTime(baseFreq, startTime);
+    oscillator2.frequency.setValueAtTime(baseFreq * 1.6, startTime);
+    oscillator3.frequency.setValueAtTime(baseFreq * 2.1, startTime);
+    oscillator4.frequency.setValueAtTime(baseFreq * 2.7, startTime);
+    oscillator5.frequency.setValueAtTime(baseFreq * 3.2, startTime);
+
+    // All sine waves for metallic, inharmonic character
+    oscillator1.type = 'sine';
+    oscillator2.type = 'sine';
+    oscillator3.type = 'sine';
+    oscillator4.type = 'sine';
+    oscillator5.type = 'sine';
+
+    // Band-pass filter for metallic "clang" character
+    filterNode.type = 'bandpass';
+    filterNode.frequency.setValueAtTime(baseFreq * 2.0, startTime);
+    filterNode.Q.setValueAtTime(0.6, startTime);
+
+    // Amplitude envelope - fast attack, metallic decay
+    gainNode.gain.setValueAtTime(0, startTime);
+    gainNode.gain.linearRampToValueAtTime(isAccent ? 1.8 : 1.5, startTime + 0.001); // Fast attack
+    gainNode.gain.exponentialRampToValueAtTime(0.02, startTime + 0.2); // Metallic decay
+
+    // Noise envelope - very short burst for initial "clank"
+    noiseGain.gain.setValueAtTime(0, startTime);
+    noiseGain.gain.linearRampToValueAtTime(1.0, startTime + 0.001); // Fast attack
+    noiseGain.gain.exponentialRampToValueAtTime(0.001, startTime + 0.008); // Very short decay
+
+    // Filter envelope - brighten then muffle for metallic resonance
+    filterEnv.gain.setValueAtTime(1, startTime);
+    filterEnv.gain.exponentialRampToValueAtTime(0.4, startTime + 0.15); // Filter decay
+
+    // Connect oscillators
+    oscillator1.connect(filterNode);
+    oscillator2.connect(filterNode);
+    oscillator3.connect(filterNode);
+    oscillator4.connect(filterNode);
+    oscillator5.connect(filterNode);
+
+    // Connect noise
+    noiseSource.connect(noiseGain);
+    noiseGain.connect(filterNode);
+
+    // Connect filter with envelope
+    filterNode.connect(filterEnv);
+    filterEnv.connect(gainNode);
+    gainNode.connect(output);
+
+    // Start oscillators
+    oscillator1.start(startTime);
+    oscillator2.start(startTime);
+    oscillator3.start(startTime);
+    oscillator4.start(startTime);
+    oscillator5.start(startTime);
+    noiseSource.start(startTime);
+
+    // Stop oscillators
+    oscillator1.stop(startTime + 0.2);
+    oscillator2.stop(startTime + 0.2);
+    oscillator3.stop(startTime + 0.2);
+    oscillator4.stop(startTime + 0.2);
+    oscillator5.stop(startTime + 0.2);
+    noiseSource.stop(startTime + 0.008);
+  } else if (sound === 'click') {
+    // Click sound - extremely loud, thick, woody, percussive
+    const oscillator1 = context.createOscillator();
+    const oscillator2 = context.createOscillator();
+    const oscillator3 = context.createOscillator();
+    const oscillator4 = context.createOscillator();
+    const oscillator5 = context.createOscillator();
+    const gainNode = context.createGain();
+    const filterNode = context.createBiquadFilter();
+    const filterNode2 = context.createBiquadFilter();
+    const filterNode3 = context.createBiquadFilter();
+
+    // Multiple oscillators for a thick, woody percussive sound
+    oscillator1.frequency.setValueAtTime((isAccent ? 800 : 600) * pitch, startTime);
+    oscillator2.frequency.setValueAtTime((isAccent ? 1200 : 900) * pitch, startTime);
+    oscillator3.frequency.setValueAtTime((isAccent ? 1600 : 1200) * pitch, startTime);
+    oscillator4.frequency.setValueAtTime((isAccent ? 2400 : 1800) * pitch, startTime);
+    oscillator5.frequency.setValueAtTime((isAccent ? 3200 : 2400) * pitch, startTime);
+
+    oscillator1.type = 'sawtooth';
+    oscillator2.type = 'square';
+    oscillator3.type = 'triangle';
+    oscillator4.type = 'sawtooth';
+    oscillator5.type = 'square';
+
+    // Low-pass filter to make it thicker and less sharp
+    filterNode.type = 'lowpass';
+    filterNode.frequency.setValueAtTime(1600, startTime);
+    filterNode.Q.setValueAtTime(2, startTime);
+
+    // Band-pass filter for woody character
+    filterNode2.type = 'bandpass';
+    filterNode2.frequency.setValueAtTime(1200, startTime);
+    filterNode2.Q.setValueAtTime(8, startTime);
+
+    // High-pass filter to cut very low frequencies
+    filterNode3.type = 'highpass';
+    filterNode3.frequency.setValueAtTime(400, startTime);
+    filterNode3.Q.setValueAtTime(1, startTime);
+
+    // Extremely loud, thick envelope with very hard attack
+    gainNode.gain.setValueAtTime(isAccent ? 3.5 : 3.0, startTime);
+    gainNode.gain.exponentialRampToValueAtTime(0.02, startTime + 0.08); // Harder, shorter decay
+
+    oscillator1.connect(filterNode);
+    oscillator2.connect(filterNode);
+    oscillator3.connect(filterNode);
+    oscillator4.connect(filterNode);
+    oscillator5.connect(filterNode);
+    filterNode.connect(filterNode2);
+    filterNode2.connect(filterNode3);
+    filterNode3.connect(gainNode);
+    gainNode.connect(output);
+
+    oscillator1.start(startTime);
+    oscillator2.start(startTime);
+    oscillator3.start(startTime);
+    oscillator4.start(startTime);
+    oscillator5.start(startTime);
+    oscillator1.stop(startTime + 0.08);
+    oscillator2.stop(startTime + 0.08);
+    oscillator3.stop(startTime + 0.08);
+    oscillator4.stop(startTime + 0.08);
+    oscillator5.stop(startTime + 0.08);
+  } else if (sound === 'beep') {
+    // Beep sound - extremely loud, flat, annoying
+    const oscillator1 = context.createOscillator();
+    const oscillator2 = context.createOscillator();
+    const oscillator3 = context.createOscillator();
+    const gainNode = context.createGain();
+    const filterNode = context.createBiquadFilter();
+
+    // High frequencies for annoying, piercing sound
+    const baseFreq = (isAccent ? 2000 : 1800) * pitch;
+    oscillator1.frequency.setValueAtTime(baseFreq, startTime);
+    oscillator2.frequency.setValueAtTime(baseFreq * 1.0, startTime); // No detuning for flat sound
+    oscillator3.frequency.setValueAtTime(baseFreq * 1.0, startTime); // No detuning for flat sound
+
+    // Square waves for harsh, flat tone
+    oscillator1.type = 'square';
+    oscillator2.type = 'square';
+    oscillator3.type = 'square';
+
+    // High-pass filter to make it piercing and annoying
+    filterNode.type = 'highpass';
+    filterNode.frequency.setValueAtTime(baseFreq * 0.8, startTime);
+    filterNode.Q.setValueAtTime(8, startTime); // High resonance for piercing sound
+
+    // Extremely loud, flat envelope
+    gainNode.gain.setValueAtTime(isAccent ? 3.5 : 3.0, startTime);
+    gainNode.gain.exponentialRampToValueAtTime(0.1, startTime + 0.1); // Longer, flat decay
+
+    oscillator1.connect(filterNode);
+    oscillator2.connect(filterNode);
+    oscillator3.connect(filterNode);
+    filterNode.connect(gainNode);
+    gainNode.connect(output);
+
+    oscillator1.start(startTime);
+    oscillator2.start(startTime);
+    oscillator3.start(startTime);
+    oscillator1.stop(startTime + 0.1);
+    oscillator2.stop(startTime + 0.1);
+    oscillator3.stop(startTime + 0.1);
+  } else if (sound === 'drbeat') {
+    // Drbeat sound - fairly short, extremely loud and percussive like a marching snare shot
+    const oscillator1 = context.createOscillator();
+    const oscillator2 = context.createOscillator();
+    const oscillator3 = context.createOscillator();
+    const lowOscillator = context.createOscillator(); // New low-pitched oscillator
+    const noiseBuffer = context.createBuffer(1, 4096, context.sampleRate);
+    const noiseData = noiseBuffer.getChannelData(0);
+    for (let i = 0; i < 4096; i++) {
+      noiseData[i] = Math.random() * 2 - 1;
+    }
+    const noiseSource = context.createBufferSource();
+    noiseSource.buffer = noiseBuffer;
+
+    const gainNode = context.createGain();
+    const lowGainNode = context.createGain(); // Separate gain for low note
+    const noiseGain = context.createGain();
+    const filterNode = context.createBiquadFilter();
+    const filterNode2 = context.createBiquadFilter();
+
+    // Higher-pitched frequencies for sharper attack - increased by ~50%
+    const baseFreq = (isAccent ? 3600 : 2700) * pitch; // Increased from 2400/1800
+    const lowFreq = (isAccent ? 80 : 60) * pitch; // Low-pitched note
+
+    // Multiple oscillators for thick, sharp attack (higher pitched)
+    oscillator1.frequency.setValueAtTime(baseFreq, startTime);
+    oscillator2.frequency.setValueAtTime(baseFreq * 1.5, startTime);
+    oscillator3.frequency.setValueAtTime(baseFreq * 2.2, startTime);
+
+    // Low-pitched oscillator for depth
+    lowOscillator.frequency.setValueAtTime(lowFreq, startTime);
+
+    // Square waves for sharp, cutting character
+    oscillator1.type = 'square';
+    oscillator2.type = 'square';
+    oscillator3.type = 'sawtooth';
+    lowOscillator.type = 'sine'; // Smooth low note
+
+    // High-pass filter for sharp, cutting tone
+    filterNode.type = 'highpass';
+    filterNode.frequency.setValueAtTime(800, startTime);
+    filterNode.Q.setValueAtTime(3, startTime);
+
+    // Band-pass filter for snare-like character
+    filterNode2.type = 'bandpass';
+    filterNode2.frequency.setValueAtTime(baseFreq, startTime);
+    filterNode2.Q.setValueAtTime(8, startTime);
+
+    // Extremely loud, sharp envelope - instant attack, fairly short decay
+    gainNode.gain.setValueAtTime(0, startTime);
+    gainNode.gain.linearRampToValueAtTime(isAccent ? 4.5 : 4.0, startTime + 0.0005); // Ultra-fast attack
+    gainNode.gain.exponentialRampToValueAtTime(0.01, startTime + 0.06); // Fairly short decay
+
+    // Low note envelope - softer attack, longer sustain
+    lowGainNode.gain.setValueAtTime(0, startTime);
+    lowGainNode.gain.linearRampToValueAtTime(isAccent ? 0.8 : 0.6, startTime + 0.002); // Slightly slower attack
+    lowGainNode.gain.exponentialRampToValueAtTime(0.01, startTime + 0.12); // Longer decay for depth
+
+    // Sharp noise burst for snare crack
+    noiseGain.gain.setValueAtTime(0, startTime);
+    noiseGain.gain.linearRampToValueAtTime(2.0, startTime + 0.0005); // Ultra-fast attack
+    noiseGain.gain.exponentialRampToValueAtTime(0.001, startTime + 0.008); // Very short noise burst
+
+    // Connect high-pitched oscillators through filters
+    oscillator1.connect(filterNode);
+    oscillator2.connect(filterNode);
+    oscillator3.connect(filterNode);
+    filterNode.connect(filterNode2);
+
+    // Connect low oscillator directly (bypass filters for full low end)
+    lowOscillator.connect(lowGainNode);
+    lowGainNode.connect(output);
+
+    // Connect noise through filters
+    noiseSource.connect(noiseGain);
+    noiseGain.connect(filterNode2);
+
+    // Final output for high frequencies
+    filterNode2.connect(gainNode);
+    gainNode.connect(output);
+
+    // Start everything
+    oscillator1.start(startTime);
+    oscillator2.start(startTime);
+    oscillator3.start(startTime);
+    lowOscillator.start(startTime);
+    noiseSource.start(startTime);
+
+    // Stop everything
+    oscillator1.stop(startTime + 0.06);
+    oscillator2.stop(startTime + 0.06);
+    oscillator3.stop(startTime + 0.06);
+    lowOscillator.stop(startTime + 0.12); // Let low note sustain longer
+    noiseSource.stop(startTime + 0.008);
+  } else if (sound === 'sharp') {
+    // Snap sound - extremely short, sharp and piercing like a powerful woodblock hit
+    const oscillator1 = context.createOscillator();
+    const oscillator2 = context.createOscillator();
+    const oscillator3 = context.createOscillator();
+    const noiseBuffer = context.createBuffer(1, 2048, context.sampleRate);
+    const noiseData = noiseBuffer.getChannelData(0);
+    for (let i = 0; i < 2048; i++) {
+      noiseData[i] = Math.random() * 2 - 1;
+    }
+    const noiseSource = context.createBufferSource();
+    noiseSource.buffer = noiseBuffer;
+
+    const gainNode = context.createGain();
+    const noiseGain = context.createGain();
+    const filterNode = context.createBiquadFilter();
+    const compressor = context.createDynamicsCompressor();
+
+    // Extremely high frequencies for piercing snap
+    const baseFreq = (isAccent ? 3200 : 2800) * pitch;
+
+    // Multiple high-frequency oscillators for piercing attack
+    oscillator1.frequency.setValueAtTime(baseFreq, startTime);
+    oscillator2.frequency.setValueAtTime(baseFreq * 1.8, startTime);
+    oscillator3.frequency.setValueAtTime(baseFreq * 2.5, startTime);
+
+    // Square waves for maximum sharpness
+    oscillator1.type = 'square';
+    oscillator2.type = 'square';
+    oscillator3.type = 'square';
+
+    // High-pass filter for ultra-sharp, piercing tone
+    filterNode.type = 'highpass';
+    filterNode.frequency.setValueAtTime(1200, startTime);
+    filterNode.Q.setValueAtTime(6, startTime);
+
+    // Compressor for punch and loudness
+    compressor.threshold.setValueAtTime(-10, startTime);
+    compressor.knee.setValueAtTime(0, startTime);
+    compressor.ratio.setValueAtTime(20, startTime);
+    compressor.attack.setValueAtTime(0, startTime);
+    compressor.release.setValueAtTime(0.01, startTime);
+
+    // Extremely loud, instantaneous envelope - shortest possible
+    gainNode.gain.setValueAtTime(0, startTime);
+    gainNode.gain.linearRampToValueAtTime(isAccent ? 5.0 : 4.5, startTime + 0.0002); // Instantaneous attack
+    gainNode.gain.exponentialRampToValueAtTime(0.01, startTime + 0.025); // Extremely short decay
+
+    // Sharp, piercing noise crack
+    noiseGain.gain.setValueAtTime(0, startTime);
+    noiseGain.gain.linearRampToValueAtTime(2.5, startTime + 0.0002); // Instantaneous attack
+    noiseGain.gain.exponentialRampToValueAtTime(0.001, startTime + 0.003); // Ultra-short noise burst
+
+    // Connect oscillators
+    oscillator1.connect(filterNode);
+    oscillator2.connect(filterNode);
+    oscillator3.connect(filterNode);
+
+    // Connect noise
+    noiseSource.connect(noiseGain);
+    noiseGain.connect(filterNode);
+
+    // Through compressor for punch
+    filterNode.connect(compressor);
+    compressor.connect(gainNode);
+    gainNode.connect(output);
+
+    // Start everything
+    oscillator1.start(startTime);
+    oscillator2.start(startTime);
+    oscillator3.start(startTime);
+    noiseSource.start(startTime);
+
+    // Stop everything quickly
+    oscillator1.stop(startTime + 0.025);
+    oscillator2.stop(startTime + 0.025);
+    oscillator3.stop(startTime + 0.025);
+    noiseSource.stop(startTime + 0.003);
+  }}
+
+// Schedule one count-in click at 'time' on 'context'
+export function playCountInSound(
+  context: BaseAudioContext,
+  output: AudioNode,
+  time: number,
+  sound: CountInSound,
+  isDownbeat: boolean
+): void {
+  const gainNode = context.createGain();
+  gainNode.connect(output);
+
+  if (sound === 'woodblock') {
+    const osc = context.createOscillator();
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(isDownbeat ? 1400 : 1000, time);
+    osc.frequency.exponentialRampToValueAtTime(isDownbeat ? 900 : 700, time + 0.04);
+    gainNode.gain.setValueAtTime(isDownbeat ? 0.6 : 0.45, time);
+    gainNode.gain.exponentialRampToValueAtTime(0.001, time + 0.06);
+    osc.connect(gainNode);
+    osc.start(time);
+    osc.stop(time + 0.06);
+    return;
+  }
+
+  if (sound === 'cowbell') {
+    // Two detuned squares give the metallic cowbell colour
+    [540, 800].forEach(freq => {
+      const osc = context.createOscillator();
+      osc.type = 'square';
+      osc.frequency.setValueAtTime(isDownbeat ? freq * 1.25 : freq, time);
+      osc.connect(gainNode);
+      osc.start(time);
+      osc.stop(time + 0.2);
+    });
+    gainNode.gain.setValueAtTime(isDownbeat ? 0.25 : 0.18, time);
+    gainNode.gain.exponentialRampToValueAtTime(0.001, time + 0.2);
+    return;
+  }
+
+  // 'tone': the original count-off sound
+  [1200, 1800, 2400].forEach(freq => {
+    const osc = context.createOscillator();
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(freq, time);
+    osc.connect(gainNode);
+    osc.start(time);
+    osc.stop(time + 0.12);
+  });
+  gainNode.gain.setValueAtTime(0.4, time);
+  gainNode.gain.exponentialRampToValueAtTime(0.01, time + 0.12);
+}
+
+// Speak the count; silently skipped where speech synthesis is unavailable
+export function speakCountIn(count: number): void {
+  if (typeof window === 'undefined' || !window.speechSynthesis || typeof SpeechSynthesisUtterance === 'undefined') return;
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(String(count));
+  utterance.rate = 1.6;
+  window.speechSynthesis.speak(utterance);
+}
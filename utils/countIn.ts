@@ -0,0 +1,97 @@
+/**
+ * Count-In
+ * Count-in settings shared by shows and the metronome, and the beats they
+ * produce. Each show stores its own settings; the metronome keeps one set.
+ */
+
+import { getBeatScale, TimeSignature } from './meterGrouping';
+
+export type CountInUnit = 'bars' | 'beats';
+export type CountInMeter = 'firstMeasure' | 'fixed';
+export type CountInSound = 'tone' | 'woodblock' | 'cowbell';
+
+export interface CountInSettings {
+  enabled: boolean;
+  length: number; // number of bars or beats, see 'unit'
+  unit: CountInUnit;
+  meter: CountInMeter; // 'fixed' counts quarter notes in 4/4
+  sound: CountInSound;
+  spoken: boolean; // speak the count over the clicks
+  skipWhenResuming: boolean; // no count-in when starting past the first measure
+}
+
+export interface CountInBeat {
+  offset: number; // seconds from the start of the count-in
+  count: number; // number counted on this beat, 1-based within its bar
+  isDownbeat: boolean;
+}
+
+export interface CountInPlan {
+  beats: CountInBeat[];
+  beatsPerBar: number;
+  tempo: number;
+  duration: number; // seconds until the first measure starts
+}
+
+interface CountInMeasure {
+  timeSignature: TimeSignature;
+  tempo: number;
+}
+
+// Matches the fixed four-beat count-off shows used before it was configurable
+export const DEFAULT_COUNT_IN: CountInSettings = {
+  enabled: true,
+  length: 4,
+  unit: 'beats',
+  meter: 'fixed',
+  sound: 'tone',
+  spoken: false,
+  skipWhenResuming: false,
+};
+
+export const MAX_COUNT_IN_LENGTH = 16;
+
+export const COUNT_IN_SOUNDS: { value: CountInSound; label: string }[] = [
+  { value: 'tone', label: 'Tone' },
+  { value: 'woodblock', label: 'Woodblock' },
+  { value: 'cowbell', label: 'Cowbell' },
+];
+
+// Fill in missing fields so older shows and settings keep working
+export function normalizeCountIn(settings?: Partial<CountInSettings> | null): CountInSettings {
+  const merged = { ...DEFAULT_COUNT_IN, ...(settings || {}) };
+  const length = Math.round(Number(merged.length));
+  return {
+    ...merged,
+    length: Number.isFinite(length) ? Math.min(Math.max(length, 1), MAX_COUNT_IN_LENGTH) : DEFAULT_COUNT_IN.length,
+  };
+}
+
+/**
+ * Beats of the count-in before 'firstMeasure'. Empty when the count-in is
+ * disabled, or skipped because playback resumes from a later measure.
+ */
+export function getCountInBeats(
+  settings: CountInSettings,
+  firstMeasure: CountInMeasure,
+  resuming: boolean = false
+): CountInPlan {
+  const followMeasure = settings.meter === 'firstMeasure';
+  const beatsPerBar = followMeasure ? firstMeasure.timeSignature.numerator : 4;
+  const beatScale = followMeasure ? getBeatScale(firstMeasure.timeSignature) : 1;
+  const beatDuration = (60 / firstMeasure.tempo) * beatScale;
+  const plan: CountInPlan = { beats: [], beatsPerBar, tempo: firstMeasure.tempo, duration: 0 };
+
+  if (!settings.enabled || (resuming && settings.skipWhenResuming)) return plan;
+
+  const totalBeats = settings.unit === 'bars' ? settings.length * beatsPerBar : settings.length;
+  for (let i = 0; i < totalBeats; i++) {
+    plan.beats.push({
+      offset: i * beatDuration,
+      count: (i % beatsPerBar) + 1,
+      isDownbeat: i % beatsPerBar === 0,
+    });
+  }
+  plan.duration = totalBeats * beatDuration;
+  return plan;
+}
@@ -0,0 +1,49 @@
+/**
+ * Gap Trainer
+ * Silent-bar practice for internal time: the metronome plays a few bars,
+ * then drops out for a few bars while the beat carries on unheard, and
+ * repeats. Beats in the played bars can also drop out at random.
+ */
+
+export interface GapTrainerSettings {
+  enabled: boolean;
+  playBars: number; // bars of clicks before each gap
+  silentBars: number; // bars of silence in each gap
+  randomMute: number; // percent chance that a played beat is silent
+}
+
+export const MAX_GAP_BARS = 16;
+
+export const DEFAULT_GAP_TRAINER: GapTrainerSettings = {
+  enabled: false,
+  playBars: 4,
+  silentBars: 4,
+  randomMute: 0,
+};
+
+// Fill in and clamp fields so stored settings keep working
+export function normalizeGapTrainer(settings?: Partial<GapTrainerSettings> | null): GapTrainerSettings {
+  const merged = { ...DEFAULT_GAP_TRAINER, ...(settings || {}) };
+  const bars = (value: number, fallback: number) => {
+    const rounded = Math.round(Number(value));
+    return Number.isFinite(rounded) ? Math.min(Math.max(rounded, 1), MAX_GAP_BARS) : fallback;
+  };
+  const randomMute = Math.round(Number(merged.randomMute));
+  return {
+    ...merged,
+    playBars: bars(merged.playBars, DEFAULT_GAP_TRAINER.playBars),
+    silentBars: bars(merged.silentBars, DEFAULT_GAP_TRAINER.silentBars),
+    randomMute: Number.isFinite(randomMute) ? Math.min(Math.max(randomMute, 0), 100) : 0,
+  };
+}
+
+// Whether bar 'barNumber' (0-based from the start) falls in a gap
+export function isSilentBar(settings: GapTrainerSettings, barNumber: number): boolean {
+  if (!settings.enabled) return false;
+  return barNumber % (settings.playBars + settings.silentBars) >= settings.playBars;
+}
+
+// Roll for a randomly muted beat; 'random' returns 0 up to 1
+export function isRandomlyMuted(settings: GapTrainerSettings, random: number = Math.random()): boolean {
+  return settings.enabled && random * 100 < settings.randomMute;
+}
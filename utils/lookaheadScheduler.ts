@@ -0,0 +1,134 @@
+/**
+ * Lookahead Scheduler
+ * Queues audio events ahead of time at exact AudioContext times. A coarse JS
+ * timer only refills the scheduling window, so timer jitter never reaches the
+ * audio output.
+ */
+
+// How far ahead of the audio clock events are queued (seconds)
+export const SCHEDULER_LOOKAHEAD_SECONDS = 0.1;
+
+// How often the scheduling window is refilled (milliseconds)
+export const SCHEDULER_TICK_MS = 25;
+
+// Delay between pressing play and the first scheduled click (seconds)
+export const SCHEDULER_START_DELAY_SECONDS = 0.05;
+
+export interface LookaheadSchedulerOptions<E extends { time: number }> {
+  getAudioContext: () => BaseAudioContext | null | undefined; // its clock drives scheduling
+  getNextEvent: (previous: E) => E | null; // null when the event source is finished
+  onSchedule: (event: E) => void; // queue the audio for 'event' at event.time
+  onUiEvent?: (event: E) => void; // called on the JS thread when event.time is reached
+  lookahead?: number;
+  tickInterval?: number;
+}
+
+export interface LookaheadScheduler<E extends { time: number }> {
+  start: (firstEvent: E) => void; // firstEvent.time must be on the audio clock
+  stop: (atTime?: number) => void; // silences anything queued from 'atTime' onwards
+  reschedule: () => void; // recompute the next unscheduled event, e.g. after a tempo change
+  getOutput: () => GainNode | null; // destination for audio queued by onSchedule
+  isRunning: () => boolean;
+}
+
+/**
+ * Lookahead scheduler shared by every page that plays audio. Events already
+ * inside the scheduling window keep their times when the event source changes.
+ */
+export function createLookaheadScheduler<E extends { time: number }>(
+  options: LookaheadSchedulerOptions<E>
+): LookaheadScheduler<E> {
+  const lookahead = options.lookahead || SCHEDULER_LOOKAHEAD_SECONDS;
+  const tickInterval = options.tickInterval || SCHEDULER_TICK_MS;
+
+  let timerId: ReturnType<typeof setInterval> | null = null;
+  let nextEvent: E | null = null;
+  let lastScheduledEvent: E | null = null;
+  let output: GainNode | null = null;
+  let uiTimers: ReturnType<typeof setTimeout>[] = [];
+
+  const dispatchUiEvent = (event: E, context: BaseAudioContext) => {
+    const onUiEvent = options.onUiEvent;
+    if (!onUiEvent) return;
+    const delay = Math.max(0, (event.time - context.currentTime) * 1000);
+    const timeoutId = setTimeout(() => {
+      uiTimers = uiTimers.filter(id => id !== timeoutId);
+      onUiEvent(event);
+    }, delay);
+    uiTimers.push(timeoutId);
+  };
+
+  // Fill the scheduling window up to currentTime + lookahead
+  const tick = () => {
+    const context = options.getAudioContext();
+    if (!context || !nextEvent) return;
+
+    const horizon = context.currentTime + lookahead;
+    while (nextEvent && nextEvent.time < horizon) {
+      options.onSchedule(nextEvent);
+      dispatchUiEvent(nextEvent, context);
+      lastScheduledEvent = nextEvent;
+      nextEvent = options.getNextEvent(nextEvent);
+    }
+
+    // Event source is exhausted - nothing left to refill
+    if (!nextEvent && timerId) {
+      clearInterval(timerId);
+      timerId = null;
+    }
+  };
+
+  const stop = (atTime?: number) => {
+    if (timerId) {
+      clearInterval(timerId);
+      timerId = null;
+    }
+    uiTimers.forEach(id => clearTimeout(id));
+    uiTimers = [];
+    nextEvent = null;
+    lastScheduledEvent = null;
+
+    if (output) {
+      const context = options.getAudioContext();
+      const stoppedOutput = output;
+      output = null;
+      try {
+        stoppedOutput.gain.setValueAtTime(0, atTime !== undefined ? atTime : context ? context.currentTime : 0);
+      } catch (e) {
+        console.log('Scheduler: could not silence output', e);
+      }
+      // Disconnect once queued sources have had a chance to end
+      setTimeout(() => {
+        try {
+          stoppedOutput.disconnect();
+        } catch {}
+      }, 500);
+    }
+  };
+
+  return {
+    start: (firstEvent: E) => {
+      const context = options.getAudioContext();
+      stop();
+      if (!context) return;
+
+      // Every run gets its own output bus so it can be silenced on the audio clock
+      output = context.createGain();
+      output.connect(context.destination);
+
+      nextEvent = firstEvent;
+      tick();
+      if (nextEvent) {
+        timerId = setInterval(tick, tickInterval);
+      }
+    },
+    stop,
+    reschedule: () => {
+      if (!timerId || !lastScheduledEvent) return;
+      nextEvent = options.getNextEvent(lastScheduledEvent);
+      tick();
+    },
+    getOutput: () => output,
+    isRunning: () => timerId !== null || uiTimers.length > 0,
+  };
+}
@@ -0,0 +1,365 @@
+/**
+ * Message Schema
+ * Runtime checks for the message protocol in types/MessageProtocol.ts. Every
+ * channel lists the payload fields of each of its message types; a message is
+ * checked where it is received, and every problem is reported with the path
+ * of the field it is in. Fields a schema does not list are let through.
+ */
+
+import {
+  COMMAND_ACKS,
+  PROTOCOL_VERSION,
+  ProtocolChannel,
+  ProtocolChannels
+} from '../types/MessageProtocol';
+import { ACCENT_LEVELS } from './accentPattern';
+import { COUNT_IN_SOUNDS } from './countIn';
+import { LAYER_MODES } from './rhythmLayers';
+import { JUMP_LABELS } from './showStructure';
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+export interface FieldSpec {
+  type: FieldType;
+  optional?: boolean; // null or missing is allowed
+  values?: (string | number)[]; // the only values allowed
+  fields?: PayloadSpec; // for objects
+  items?: FieldSpec; // for arrays
+}
+
+export type PayloadSpec = Record<string, FieldSpec>;
+
+export interface MessageValidation<C extends ProtocolChannel> {
+  message: ProtocolChannels[C] | null; // null when there are errors
+  type: string | null; // the message's type, if it has a readable one
+  errors: string[]; // e.g. "START_METRONOME: payload.timeSignature.numerator must be a number"
+}
+
+const str = (values?: string[]): FieldSpec => (values ? { type: 'string', values } : { type: 'string' });
+const num: FieldSpec = { type: 'number' };
+const bool: FieldSpec = { type: 'boolean' };
+const obj = (fields: PayloadSpec): FieldSpec => ({ type: 'object', fields });
+const arr = (items: FieldSpec): FieldSpec => ({ type: 'array', items });
+const optional = (spec: FieldSpec): FieldSpec => ({ ...spec, optional: true });
+
+// Every field optional, for messages that update only some settings
+const partial = (fields: PayloadSpec): PayloadSpec => Object.fromEntries(
+  Object.entries(fields).map(([name, spec]) => [name, optional(spec)])
+);
+
+const TIME_SIGNATURE = obj({
+  numerator: num,
+  denominator: num,
+  grouping: optional(arr(num)),
+});
+
+const ACCENT_LEVEL = str(ACCENT_LEVELS);
+
+const ACCENTS = obj({
+  beats: arr(ACCENT_LEVEL),
+  subdivisions: optional(arr(arr(ACCENT_LEVEL))),
+});
+
+const COUNT_IN_FIELDS: PayloadSpec = {
+  enabled: bool,
+  length: num,
+  unit: str(['bars', 'beats']),
+  meter: str(['firstMeasure', 'fixed']),
+  sound: str(COUNT_IN_SOUNDS.map(sound => sound.value)),
+  spoken: bool,
+  skipWhenResuming: bool,
+};
+
+const LAYER = obj({
+  id: str(),
+  mode: str(LAYER_MODES.map(mode => mode.value)),
+  pulses: num,
+  unit: num,
+  sound: str(),
+  volume: num,
+  accents: optional(arr(ACCENT_LEVEL)),
+});
+
+const GAP_TRAINER = obj({
+  enabled: bool,
+  playBars: num,
+  silentBars: num,
+  randomMute: num,
+});
+
+const PAUSE_TYPES = ['seconds', 'beats', 'hold'];
+
+const MEASURE = obj({
+  id: str(),
+  timeSignature: TIME_SIGNATURE,
+  tempo: num,
+  count: num,
+  letter: optional(str()),
+  tempoChange: optional(obj({ endTempo: num, curve: str(['linear', 'exponential']) })),
+  accents: optional(ACCENTS),
+  subdivision: optional(num),
+  swing: optional(num),
+  repeatStart: optional(bool),
+  repeatEnd: optional(num),
+  ending: optional(arr(num)),
+  segno: optional(bool),
+  coda: optional(bool),
+  toCoda: optional(bool),
+  fine: optional(bool),
+  jump: optional(str(Object.keys(JUMP_LABELS))),
+  pause: optional(obj({ type: str(PAUSE_TYPES), length: optional(num) })),
+});
+
+const THEME_COLORS: PayloadSpec = {
+  background: str(),
+  surface: str(),
+  primary: str(),
+  text: str(),
+  icon: str(),
+  accent: str(),
+  orange: str(),
+};
+
+const METRONOME_START: PayloadSpec = {
+  bpm: num,
+  timeSignature: TIME_SIGNATURE,
+  soundType: str(),
+  subdivision: optional(num),
+  countIn: optional(obj(COUNT_IN_FIELDS)),
+  accents: optional(ACCENTS),
+  swing: optional(num),
+  layers: optional(arr(LAYER)),
+  gapTrainer: optional(GAP_TRAINER),
+};
+
+const METRONOME_BEAT: PayloadSpec = {
+  beatNumber: num,
+  totalBeats: num,
+  barNumber: num,
+  isDownbeat: bool,
+  isSilent: bool,
+  bpm: num,
+  timeSignature: TIME_SIGNATURE,
+};
+
+const SHOW: PayloadSpec = {
+  id: str(),
+  name: str(),
+  measures: arr(MEASURE),
+  countIn: optional(obj(partial(COUNT_IN_FIELDS))),
+};
+
+const SHOW_START: PayloadSpec = {
+  startType: str(['beginning', 'current', 'specific']),
+  startMeasure: optional(num),
+  startLetter: optional(str()),
+  endType: str(['end', 'specific']),
+  endMeasure: optional(num),
+  endLetter: optional(str()),
+};
+
+const SHOW_PAUSE = obj({ type: str(PAUSE_TYPES), duration: optional(num) });
+
+const SHOW_ID: PayloadSpec = { showId: str() };
+
+const SOUND: PayloadSpec = { soundType: str() };
+
+const READY: PayloadSpec = { protocolVersion: num };
+
+const PROTOCOL_ERROR: PayloadSpec = {
+  messageType: optional(str()),
+  errors: arr(str()),
+};
+
+type ChannelSchemas = {
+  [C in ProtocolChannel]: { [Type in ProtocolChannels[C]['type']]: PayloadSpec };
+};
+
+export const MESSAGE_SCHEMAS: ChannelSchemas = {
+  soundSystemMessage: {
+    INIT_AUDIO: {},
+    SUSPEND_AUDIO: {},
+    UPDATE_THEME: THEME_COLORS,
+    UPDATE_SOUND: SOUND,
+    START_METRONOME: METRONOME_START,
+    STOP_METRONOME: {},
+    UPDATE_METRONOME_SETTINGS: partial(METRONOME_START),
+    LOAD_SHOW: SHOW,
+    START_SHOW: SHOW_START,
+    STOP_SHOW: {},
+    RESUME_SHOW: {},
+    UPDATE_SHOW_SETTINGS: { countIn: optional(obj(partial(COUNT_IN_FIELDS))) },
+    RENDER_SHOW_WAV: SHOW,
+  },
+  soundSystemResponse: {
+    METRONOME_BEAT,
+    METRONOME_LAYER_PULSE: { layerId: str(), pulseIndex: num },
+    METRONOME_STARTED: { bpm: num, timeSignature: TIME_SIGNATURE },
+    METRONOME_STOPPED: {},
+    SHOW_LOADED: { showId: str(), totalMeasures: num },
+    SHOW_BEAT: {
+      measureNumber: num,
+      beatIndex: num,
+      beatsInMeasure: num,
+      isCountIn: bool,
+      isSilent: bool,
+      timeSignature: optional(TIME_SIGNATURE),
+    },
+    SHOW_MEASURE_COMPLETED: {
+      measureNumber: num,
+      beatsPerMeasure: num,
+      tempo: num,
+      nextMeasureNumber: num,
+      nextTempo: num,
+      nextTimeSignature: TIME_SIGNATURE,
+      showName: str(),
+      pause: optional(SHOW_PAUSE),
+    },
+    SHOW_STARTED: { showId: str(), startMeasure: num },
+    SHOW_STOPPED: { completed: bool },
+    SHOW_WAV_RENDERED: { showId: str(), duration: num, data: str() },
+    READY,
+    COMMAND_APPLIED: { command: str(Object.keys(COMMAND_ACKS)) },
+    AUDIO_INITIALIZED: { sampleRate: num },
+    AUDIO_ERROR: { error: str(), mode: str(['metronome', 'show', 'tuner', 'system']) },
+    PROTOCOL_ERROR,
+  },
+  metronomeViewMessage: {
+    METRONOME_STARTED: {},
+    METRONOME_STOPPED: {},
+    METRONOME_BEAT,
+    TIME_SIGNATURE_CHANGE: { timeSignature: TIME_SIGNATURE },
+    ACCENTS_CHANGE: { accents: optional(ACCENTS) },
+    SWING_CHANGE: { swing: num },
+    COLOR_CHANGE: { colors: obj(THEME_COLORS) },
+  },
+  metronomeViewResponse: {
+    OPEN_SETTINGS: {},
+    START_METRONOME: { bpm: num, subdivision: num },
+    STOP_METRONOME: {},
+    TEMPO_CHANGE: { bpm: num },
+    SUBDIVISION_CHANGE: { subdivision: num },
+    ACCENTS_CHANGE: { accents: ACCENTS },
+    SWING_CHANGE: { swing: num },
+    RESET_WEBVIEW: {},
+    READY,
+    PROTOCOL_ERROR,
+  },
+  showViewResponse: {
+    ADD_SHOW: {},
+    SELECT_SHOW: SHOW_ID,
+    RENAME_SHOW: { showId: str(), newName: str() },
+    UPDATE_SHOW_MEASURES: { showId: str(), measures: arr(MEASURE) },
+    DELETE_SHOW: SHOW_ID,
+    IMPORT_SHOW: {},
+    EXPORT_SHOW: SHOW_ID,
+    EXPORT_SHOW_MIDI: SHOW_ID,
+    EXPORT_SHOW_WAV: SHOW_ID,
+    START_SHOW: { showId: str(), range: obj(SHOW_START) },
+    STOP_SHOW: {},
+    RESUME_SHOW: {},
+    OPEN_SETTINGS: {},
+    OPEN_PLAYBACK_OPTIONS: {},
+    READY,
+    PROTOCOL_ERROR,
+  },
+  tunerViewResponse: {
+    REQUEST_PERMISSION: {},
+    REFRESH_PERMISSION: {},
+    OPEN_SETTINGS: {},
+    READY,
+    PROTOCOL_ERROR,
+  },
+};
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkField(value: unknown, spec: FieldSpec, path: string, errors: string[]): void {
+  if (value === undefined || value === null) {
+    if (!spec.optional) errors.push(`${path} is required`);
+    return;
+  }
+  switch (spec.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`${path} must be a number`);
+        return;
+      }
+      break;
+    case 'object':
+      if (!isObject(value)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+      checkFields(value, spec.fields || {}, path, errors);
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${path} must be an array`);
+        return;
+      }
+      if (spec.items) {
+        const items = spec.items;
+        value.forEach((item, index) => checkField(item, items, `${path}[${index}]`, errors));
+      }
+      return;
+    default:
+      if (typeof value !== spec.type) {
+        errors.push(`${path} must be a ${spec.type}`);
+        return;
+      }
+  }
+  if (spec.values && !spec.values.includes(value as string | number)) {
+    errors.push(`${path} must be one of ${spec.values.join(', ')}`);
+  }
+}
+
+function checkFields(value: Fields, fields: PayloadSpec, path: string, errors: string[]): void {
+  Object.keys(fields).forEach(name => checkField(value[name], fields[name], `${path}.${name}`, errors));
+}
+
+// Check a decoded message against the schema of its channel
+export function validateMessage<C extends ProtocolChannel>(channel: C, data: unknown): MessageValidation<C> {
+  if (!isObject(data)) {
+    return { message: null, type: null, errors: ['Message must be an object'] };
+  }
+  if (typeof data.type !== 'string') {
+    return { message: null, type: null, errors: ['Message type must be a string'] };
+  }
+  const type = data.type;
+  const schemas: Record<string, PayloadSpec> = MESSAGE_SCHEMAS[channel];
+  if (!Object.prototype.hasOwnProperty.call(schemas, type)) {
+    return { message: null, type, errors: [`Unknown message type "${type}"`] };
+  }
+
+  const errors: string[] = [];
+  if (!isObject(data.payload)) {
+    errors.push('payload must be an object');
+  } else {
+    checkFields(data.payload, schemas[type], 'payload', errors);
+  }
+  if (data.requestId !== undefined && typeof data.requestId !== 'string') {
+    errors.push('requestId must be a string');
+  }
+
+  return {
+    message: errors.length === 0 ? data as unknown as ProtocolChannels[C] : null,
+    type,
+    errors: errors.map(error => `${type}: ${error}`),
+  };
+}
+
+// Decode and check a message as it arrives from a WebView
+export function parseMessage<C extends ProtocolChannel>(channel: C, raw: string): MessageValidation<C> {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { message: null, type: null, errors: ['Message is not valid JSON'] };
+  }
+  return validateMessage(channel, data);
+}
@@ -0,0 +1,91 @@
+/**
+ * Meter Grouping
+ * Optional beat grouping for compound and additive meters (3+3/8, 2+2+3/8).
+ * A grouped meter pulses on the first beat of each group, and its tempo counts
+ * the shortest group: 6/8 grouped 3+3 at 60 BPM is dotted quarter = 60.
+ * Meters without a grouping keep the tempo in quarter notes.
+ */
+
+export interface TimeSignature {
+  numerator: number;
+  denominator: number;
+  grouping?: number[]; // beats per group, summing to the numerator
+}
+
+// Grouping suggestions are generated up to this many beats per bar
+export const MAX_GROUPED_BEATS = 16;
+
+export function isValidGrouping(grouping: number[] | undefined | null, numerator: number): grouping is number[] {
+  if (!Array.isArray(grouping) || grouping.length === 0) return false;
+  if (!grouping.every(size => Number.isInteger(size) && size >= 1)) return false;
+  return grouping.reduce((sum, size) => sum + size, 0) === numerator;
+}
+
+// The meter's grouping, or null when it has none (or it no longer fits)
+export function getGrouping(timeSignature: TimeSignature): number[] | null {
+  return isValidGrouping(timeSignature.grouping, timeSignature.numerator) ? timeSignature.grouping : null;
+}
+
+// Beat indices that start a group; every beat when the meter is not grouped
+export function getGroupStarts(timeSignature: TimeSignature): number[] {
+  const grouping = getGrouping(timeSignature);
+  if (!grouping) {
+    return Array.from({ length: timeSignature.numerator }, (_, beat) => beat);
+  }
+  const starts: number[] = [];
+  let beat = 0;
+  grouping.forEach(size => {
+    starts.push(beat);
+    beat += size;
+  });
+  return starts;
+}
+
+export function isGroupStart(timeSignature: TimeSignature, beatIndex: number): boolean {
+  return getGroupStarts(timeSignature).includes(beatIndex);
+}
+
+/**
+ * Length of one beat (one count of the numerator) in tempo units. Ungrouped
+ * meters count quarter notes (4 / denominator); grouped meters count the
+ * shortest group, so a beat is 1 / (shortest group) of a tempo unit.
+ */
+export function getBeatScale(timeSignature: TimeSignature): number {
+  const grouping = getGrouping(timeSignature);
+  return grouping ? 1 / Math.min(...grouping) : 4 / timeSignature.denominator;
+}
+
+export function formatGrouping(grouping: number[]): string {
+  return grouping.join('+');
+}
+
+// Parse "2+2+3"; undefined for an empty string, null when it is not a grouping
+export function parseGrouping(text: string, numerator: number): number[] | undefined | null {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+  const grouping = trimmed.split('+').map(part => Number(part.trim()));
+  return isValidGrouping(grouping, numerator) ? grouping : null;
+}
+
+export function formatTimeSignature(timeSignature: TimeSignature): string {
+  const grouping = getGrouping(timeSignature);
+  const prefix = grouping ? `${formatGrouping(grouping)}/` : `${timeSignature.numerator}/`;
+  return `${prefix}${timeSignature.denominator}`;
+}
+
+// Groupings of 2s and 3s that fill the bar, e.g. 7 -> 2+2+3, 2+3+2, 3+2+2
+export function getGroupingOptions(numerator: number): number[][] {
+  if (numerator < 4 || numerator > MAX_GROUPED_BEATS) return [];
+  const options: number[][] = [];
+  const build = (remaining: number, groups: number[]) => {
+    if (remaining === 0) {
+      options.push(groups);
+      return;
+    }
+    [2, 3].forEach(size => {
+      if (size <= remaining) build(remaining - size, [...groups, size]);
+    });
+  };
+  build(numerator, []);
+  return options;
+}
@@ -0,0 +1,250 @@
+/**
+ * MIDI Export
+ * Shows as Type 1 Standard MIDI Files: a tempo map track with every tempo and
+ * time-signature change and the rehearsal letters as markers, and a percussion
+ * track with the click pattern. Bars are written in playback order, with the
+ * count-in first, so the file lines up with what is heard.
+ */
+
+import { AccentLevel, AccentPattern, BeatSounds, getAccentLevel, getBeatLevels, getMeasureAccents } from './accentPattern';
+import { CountInSettings, getCountInBeats, normalizeCountIn } from './countIn';
+import { getBeatScale, getGrouping, TimeSignature } from './meterGrouping';
+import { expandMeasures, getMeasureStartNumbers } from './showMeasures';
+import { getPauseDuration, MeasureMarkers, resolvePlaybackOrder } from './showStructure';
+import { getSubdivisionOffset, STRAIGHT_SWING } from './swing';
+import { getRampBeatDuration, TempoChange } from './tempoCurve';
+import { getHoldExportDuration } from './wavExport';
+
+export const MIDI_TICKS_PER_QUARTER = 480;
+
+// General MIDI percussion (channel 10) notes for each click
+export const MIDI_CLICK_NOTES: Record<Exclude<AccentLevel, 'mute'> | 'countIn', { note: number; velocity: number }> = {
+  accent: { note: 76, velocity: 127 }, // Hi Wood Block
+  normal: { note: 77, velocity: 100 }, // Low Wood Block
+  ghost: { note: 77, velocity: 50 },
+  countIn: { note: 75, velocity: 100 }, // Claves
+};
+
+const PERCUSSION_CHANNEL = 9;
+const CLICK_NOTE_TICKS = MIDI_TICKS_PER_QUARTER / 8;
+const MAX_MIDI_TEMPO = 0xffffff; // microseconds per quarter note
+
+interface MidiMeasure extends MeasureMarkers {
+  id?: string;
+  timeSignature: TimeSignature;
+  tempo: number;
+  count?: number;
+  letter?: string;
+  tempoChange?: TempoChange;
+  accents?: AccentPattern;
+  beatSounds?: BeatSounds;
+  subdivision?: number;
+  swing?: number;
+}
+
+interface MidiShow {
+  name: string;
+  measures: MidiMeasure[];
+  countIn?: Partial<CountInSettings>;
+}
+
+interface MidiEvent {
+  tick: number;
+  data: number[];
+}
+
+// Variable-length quantity: 7 bits per byte, high bit set on all but the last
+function writeVarLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  let rest = Math.floor(value / 128);
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest = Math.floor(rest / 128);
+  }
+  return bytes;
+}
+
+function writeText(text: string): number[] {
+  // Meta text is bytes; keep to ASCII so every reader shows the same thing
+  return Array.from(text.normalize('NFKD').replace(/[^\x20-\x7e]/g, ''), char => char.charCodeAt(0));
+}
+
+function metaEvent(tick: number, type: number, data: number[]): MidiEvent {
+  return { tick, data: [0xff, type, ...writeVarLength(data.length), ...data] };
+}
+
+function textEvent(tick: number, type: number, text: string): MidiEvent {
+  return metaEvent(tick, type, writeText(text));
+}
+
+function tempoEvent(tick: number, microsecondsPerQuarter: number): MidiEvent {
+  const value = Math.min(Math.max(Math.round(microsecondsPerQuarter), 1), MAX_MIDI_TEMPO);
+  return metaEvent(tick, 0x51, [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]);
+}
+
+function timeSignatureEvent(tick: number, timeSignature: TimeSignature): MidiEvent {
+  // MIDI clocks (24 per quarter) per metronome click: one beat, or one group's shortest unit
+  const grouping = getGrouping(timeSignature);
+  const clocksPerClick = Math.round((96 / timeSignature.denominator) * (grouping ? Math.min(...grouping) : 1));
+  return metaEvent(tick, 0x58, [
+    timeSignature.numerator,
+    Math.round(Math.log2(timeSignature.denominator)),
+    Math.min(clocksPerClick, 0x7f),
+    8,
+  ]);
+}
+
+// A track chunk ending at 'endTick'; events are sorted by tick with note-offs
+// before anything else on the same tick
+function writeTrack(events: MidiEvent[], endTick: number): number[] {
+  const sorted = events
+    .map((event, order) => ({ event, order }))
+    .sort((a, b) => a.event.tick - b.event.tick || isNoteOff(b.event) - isNoteOff(a.event) || a.order - b.order)
+    .map(({ event }) => event);
+
+  const data: number[] = [];
+  let lastTick = 0;
+  sorted.forEach(event => {
+    data.push(...writeVarLength(event.tick - lastTick), ...event.data);
+    lastTick = event.tick;
+  });
+  data.push(...writeVarLength(Math.max(endTick - lastTick, 0)), 0xff, 0x2f, 0x00); // end of track
+
+  return [...writeText('MTrk'), ...writeUint32(data.length), ...data];
+}
+
+function isNoteOff(event: MidiEvent): number {
+  return (event.data[0] & 0xf0) === 0x80 ? 1 : 0;
+}
+
+function writeUint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+// Ticks in one beat (one count of the numerator)
+function getBeatTicks(timeSignature: TimeSignature): number {
+  return Math.round((MIDI_TICKS_PER_QUARTER * 4) / timeSignature.denominator);
+}
+
+// Microseconds per quarter note that make one beat last 'beatSeconds'
+function getBeatTempo(timeSignature: TimeSignature, beatSeconds: number): number {
+  return (beatSeconds * 1000000 * timeSignature.denominator) / 4;
+}
+
+/**
+ * The show as a Type 1 Standard MIDI File. Tempo curves get a tempo event on
+ * every beat; a pause becomes a silent bar of about as many beats at the
+ * measure's final tempo, and a hold waits HOLD_EXPORT_BEATS beats.
+ */
+export function createShowMidi(show: MidiShow): Uint8Array {
+  const tempoTrack: MidiEvent[] = [textEvent(0, 0x03, show.name)];
+  const clickTrack: MidiEvent[] = [textEvent(0, 0x03, 'Click')];
+  let tick = 0;
+  let currentMeter = '';
+  let currentTempo = 0;
+
+  const setMeter = (timeSignature: TimeSignature) => {
+    const meter = `${timeSignature.numerator}/${timeSignature.denominator}/${(getGrouping(timeSignature) || []).join('+')}`;
+    if (meter !== currentMeter) {
+      tempoTrack.push(timeSignatureEvent(tick, timeSignature));
+      currentMeter = meter;
+    }
+  };
+  const setTempo = (at: number, microsecondsPerQuarter: number) => {
+    const value = Math.round(microsecondsPerQuarter);
+    if (value !== currentTempo) {
+      tempoTrack.push(tempoEvent(at, value));
+      currentTempo = value;
+    }
+  };
+  const addClick = (at: number, click: { note: number; velocity: number }) => {
+    clickTrack.push({ tick: at, data: [0x90 | PERCUSSION_CHANNEL, click.note, click.velocity] });
+    clickTrack.push({ tick: at + CLICK_NOTE_TICKS, data: [0x80 | PERCUSSION_CHANNEL, click.note, 0] });
+  };
+
+  const bars = expandMeasures(show.measures);
+  const playbackOrder = resolvePlaybackOrder(bars);
+
+  // Count-in bars in the count-in meter; a shorter last bar gets its own meter
+  if (playbackOrder.length > 0) {
+    const firstMeasure = bars[playbackOrder[0]];
+    const countIn = normalizeCountIn(show.countIn);
+    const plan = getCountInBeats(countIn, firstMeasure);
+    if (plan.beats.length > 0) {
+      const timeSignature: TimeSignature = countIn.meter === 'firstMeasure'
+        ? firstMeasure.timeSignature
+        : { numerator: 4, denominator: 4 };
+      const beatScale = countIn.meter === 'firstMeasure' ? getBeatScale(timeSignature) : 1;
+      tempoTrack.push(textEvent(0, 0x06, 'Count-in'));
+      plan.beats.forEach((beat, beatIndex) => {
+        if (beat.isDownbeat) {
+          const beatsLeft = plan.beats.length - beatIndex;
+          setMeter(beatsLeft < plan.beatsPerBar
+            ? { numerator: beatsLeft, denominator: timeSignature.denominator }
+            : timeSignature);
+        }
+        setTempo(tick, getBeatTempo(timeSignature, (60 / plan.tempo) * beatScale));
+        addClick(tick, { ...MIDI_CLICK_NOTES.countIn, velocity: beat.isDownbeat ? 127 : MIDI_CLICK_NOTES.countIn.velocity });
+        tick += getBeatTicks(timeSignature);
+      });
+    }
+  }
+
+  // Letters are marked where their measure entry starts
+  const entryStarts = new Set(getMeasureStartNumbers(show.measures).map(barNumber => barNumber - 1));
+
+  playbackOrder.forEach(measureIndex => {
+    const measure = bars[measureIndex];
+    const { timeSignature } = measure;
+    const beatsInMeasure = timeSignature.numerator;
+    const beatTicks = getBeatTicks(timeSignature);
+    const beatScale = getBeatScale(timeSignature);
+    const accents = getMeasureAccents(measure);
+    const beatLevels = getBeatLevels(accents, timeSignature);
+    const subdivision = measure.subdivision || 1;
+
+    setMeter(timeSignature);
+    if (measure.letter && entryStarts.has(measureIndex)) {
+      tempoTrack.push(textEvent(tick, 0x06, measure.letter));
+    }
+
+    for (let beatIndex = 0; beatIndex < beatsInMeasure; beatIndex++) {
+      const beatSeconds = getRampBeatDuration(measure, beatIndex, beatsInMeasure, beatScale);
+      setTempo(tick, getBeatTempo(timeSignature, beatSeconds));
+      for (let subdivisionIndex = 0; subdivisionIndex < subdivision; subdivisionIndex++) {
+        const level = subdivisionIndex === 0
+          ? beatLevels[beatIndex]
+          : getAccentLevel(accents, beatIndex, subdivisionIndex, 'normal');
+        if (level === 'mute') continue;
+        const offset = Math.round(beatTicks * getSubdivisionOffset(subdivisionIndex, subdivision, measure.swing ?? STRAIGHT_SWING));
+        addClick(tick + offset, MIDI_CLICK_NOTES[level]);
+      }
+      tick += beatTicks;
+    }
+
+    // Pauses and holds as a silent bar; its tempo makes it last the pause exactly
+    if (measure.pause) {
+      const finalBeatSeconds = getRampBeatDuration(measure, beatsInMeasure - 1, beatsInMeasure, beatScale);
+      const pauseSeconds = getPauseDuration(measure) ?? getHoldExportDuration(measure);
+      if (pauseSeconds > 0) {
+        const pauseBeats = Math.max(1, Math.round(pauseSeconds / finalBeatSeconds));
+        tempoTrack.push(textEvent(tick, 0x06, measure.pause.type === 'hold' ? 'Hold' : 'Pause'));
+        setMeter({ numerator: pauseBeats, denominator: timeSignature.denominator });
+        setTempo(tick, getBeatTempo(timeSignature, pauseSeconds / pauseBeats));
+        tick += pauseBeats * beatTicks;
+      }
+    }
+  });
+
+  // Both tracks end with the last bar
+  const tracks = [tempoTrack, clickTrack].map(events => writeTrack(events, tick));
+
+  const header = [
+    ...writeText('MThd'),
+    ...writeUint32(6),
+    0x00, 0x01, // format 1
+    0x00, tracks.length,
+    (MIDI_TICKS_PER_QUARTER >> 8) & 0xff, MIDI_TICKS_PER_QUARTER & 0xff,
+  ];
+  return Uint8Array.from([...header, ...tracks.flat()]);
+}
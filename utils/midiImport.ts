@@ -0,0 +1,283 @@
+/**
+ * MIDI Import
+ * Builds show measures from the tempo map of a Standard MIDI File: its tempo
+ * and time-signature meta events, with markers that look like rehearsal marks
+ * as letters. Identical consecutive bars are collapsed into one measure with a
+ * count.
+ */
+
+import { TimeSignature } from './meterGrouping';
+import { roundTempo } from './tempoCurve';
+
+export interface ImportedMeasure {
+  timeSignature: TimeSignature;
+  tempo: number;
+  count: number;
+  letter?: string;
+}
+
+export interface MidiTempoMap {
+  name?: string; // track name of the first track, when it has one
+  measures: ImportedMeasure[];
+}
+
+interface MetaEvent<T> {
+  tick: number;
+  value: T;
+}
+
+// Tempo and meter before the file sets them, as the MIDI specification defines
+const DEFAULT_MICROSECONDS_PER_QUARTER = 500000;
+const DEFAULT_TIME_SIGNATURE: TimeSignature = { numerator: 4, denominator: 4 };
+
+// Upper bound on bars so a corrupt end-of-track time cannot build a huge show
+const MAX_IMPORTED_BARS = 10000;
+
+const REHEARSAL_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+// Marker texts read as rehearsal marks: "A", "Letter A", "[A]" and "Rehearsal A".
+// Other markers, such as the count-in, pause and hold markers of our own MIDI
+// export, do not letter a bar.
+const REHEARSAL_MARK_PATTERNS = [
+  /^([A-Z])$/i,
+  /^letter\s+([A-Z])$/i,
+  /^\[\s*([A-Z])\s*\]$/i,
+  /^rehearsal(?:\s+mark)?\s+([A-Z])$/i,
+];
+
+class MidiReader {
+  offset = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  byte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error('Unexpected end of MIDI file');
+    }
+    return this.bytes[this.offset++];
+  }
+
+  uint(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) value = value * 256 + this.byte();
+    return value;
+  }
+
+  varLength(): number {
+    let value = 0;
+    let byte: number;
+    do {
+      byte = this.byte();
+      value = value * 128 + (byte & 0x7f);
+    } while (byte & 0x80);
+    return value;
+  }
+
+  text(length: number): string {
+    return String.fromCharCode(...Array.from(this.take(length)));
+  }
+
+  take(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Unexpected end of MIDI file');
+    }
+    const data = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return data;
+  }
+}
+
+// The marker's own letter when it is a free one, otherwise the first free letter
+export function getRehearsalLetter(text: string, usedLetters: Set<string>): string | undefined {
+  const requested = text.trim().toUpperCase();
+  const letter = REHEARSAL_LETTERS.includes(requested) && !usedLetters.has(requested)
+    ? requested
+    : REHEARSAL_LETTERS.find(candidate => !usedLetters.has(candidate));
+  if (letter) usedLetters.add(letter);
+  return letter;
+}
+
+// The letter of a marker that looks like a rehearsal mark
+export function parseRehearsalMark(text: string): string | undefined {
+  const trimmed = text.trim();
+  for (const pattern of REHEARSAL_MARK_PATTERNS) {
+    const match = trimmed.match(pattern);
+    if (match) return match[1].toUpperCase();
+  }
+  return undefined;
+}
+
+// Imported tempos that are nearly whole are rounded to whole BPM
+export function roundImportedTempo(bpm: number): number {
+  return Math.abs(bpm - Math.round(bpm)) < 0.05 ? Math.round(bpm) : roundTempo(bpm);
+}
+
+// Show tempos count quarter notes
+function toShowTempo(microsecondsPerQuarter: number): number {
+  return roundImportedTempo(60000000 / microsecondsPerQuarter);
+}
+
+/**
+ * Read the tempo map of a Standard MIDI File (format 0, 1 or 2). Time
+ * signatures take effect at the next bar line, and a bar whose tempo changes
+ * part-way through gets the average tempo that keeps its length. Throws when
+ * the file cannot be read.
+ */
+export function parseMidiTempoMap(bytes: Uint8Array): MidiTempoMap {
+  const reader = new MidiReader(bytes);
+  if (reader.text(4) !== 'MThd') {
+    throw new Error('Not a Standard MIDI File');
+  }
+  const headerLength = reader.uint(4);
+  reader.uint(2); // format; every format's tempo map is read the same way
+  const trackCount = reader.uint(2);
+  const division = reader.uint(2);
+  reader.take(Math.max(headerLength - 6, 0));
+  if (division & 0x8000) {
+    throw new Error('MIDI files timed in SMPTE frames are not supported');
+  }
+  if (division === 0) {
+    throw new Error('Invalid MIDI time division');
+  }
+  const ticksPerQuarter = division;
+
+  const tempos: MetaEvent<number>[] = [];
+  const meters: MetaEvent<TimeSignature>[] = [];
+  const markers: MetaEvent<string>[] = [];
+  let name: string | undefined;
+  let endTick = 0;
+
+  let track = 0;
+  while (track < trackCount && !reader.done) {
+    const chunkType = reader.text(4);
+    const chunkLength = reader.uint(4);
+    if (chunkType !== 'MTrk') {
+      reader.take(chunkLength); // skip unknown chunks
+      continue;
+    }
+
+    const chunkEnd = reader.offset + chunkLength;
+    let tick = 0;
+    let runningStatus = 0;
+    while (reader.offset < chunkEnd) {
+      tick += reader.varLength();
+      let status = reader.byte();
+      if (status < 0x80) {
+        // Running status: the byte just read is the first data byte
+        if (!runningStatus) throw new Error('Invalid MIDI event data');
+        reader.offset--;
+        status = runningStatus;
+      }
+
+      if (status === 0xff) {
+        const type = reader.byte();
+        const data = reader.take(reader.varLength());
+        if (type === 0x51 && data.length === 3) {
+          tempos.push({ tick, value: (data[0] << 16) | (data[1] << 8) | data[2] });
+        } else if (type === 0x58 && data.length >= 2 && data[0] > 0) {
+          meters.push({ tick, value: { numerator: data[0], denominator: Math.pow(2, data[1]) } });
+        } else if (type === 0x06) {
+          markers.push({ tick, value: String.fromCharCode(...Array.from(data)).trim() });
+        } else if (type === 0x03 && track === 0 && name === undefined) {
+          name = String.fromCharCode(...Array.from(data)).trim() || undefined;
+        }
+      } else if (status === 0xf0 || status === 0xf7) {
+        reader.take(reader.varLength()); // system exclusive
+      } else {
+        runningStatus = status;
+        const kind = status & 0xf0;
+        reader.take(kind === 0xc0 || kind === 0xd0 ? 1 : 2);
+      }
+    }
+    reader.offset = chunkEnd;
+    endTick = Math.max(endTick, tick);
+    track++;
+  }
+
+  const byTick = <T>(events: MetaEvent<T>[]) => events.sort((a, b) => a.tick - b.tick);
+  byTick(tempos);
+  byTick(meters);
+  byTick(markers);
+
+  // Microseconds between two ticks under the tempo map
+  const tempoAt = (tick: number) => {
+    let value = DEFAULT_MICROSECONDS_PER_QUARTER;
+    for (const tempo of tempos) {
+      if (tempo.tick > tick) break;
+      value = tempo.value;
+    }
+    return value;
+  };
+  const getMicroseconds = (from: number, to: number) => {
+    let microseconds = 0;
+    let tick = from;
+    let value = tempoAt(from);
+    tempos.filter(tempo => tempo.tick > from && tempo.tick < to).forEach(tempo => {
+      microseconds += ((tempo.tick - tick) / ticksPerQuarter) * value;
+      tick = tempo.tick;
+      value = tempo.value;
+    });
+    return microseconds + ((to - tick) / ticksPerQuarter) * value;
+  };
+
+  // Walk the file bar by bar
+  const bars: ImportedMeasure[] = [];
+  const usedLetters = new Set<string>();
+  let timeSignature = DEFAULT_TIME_SIGNATURE;
+  let meterIndex = 0;
+  let markerIndex = 0;
+  let barStart = 0;
+  do {
+    while (meterIndex < meters.length && meters[meterIndex].tick <= barStart) {
+      timeSignature = meters[meterIndex++].value;
+    }
+    const barTicks = Math.round((ticksPerQuarter * 4 * timeSignature.numerator) / timeSignature.denominator);
+    const barEnd = barStart + barTicks;
+    const quarters = barTicks / ticksPerQuarter;
+    const bar: ImportedMeasure = {
+      timeSignature,
+      tempo: toShowTempo(getMicroseconds(barStart, barEnd) / quarters),
+      count: 1,
+    };
+
+    // The first rehearsal mark in the bar names it; marks are matched to free letters
+    let mark: string | undefined;
+    while (markerIndex < markers.length && markers[markerIndex].tick < barEnd) {
+      mark = mark ?? parseRehearsalMark(markers[markerIndex].value);
+      markerIndex++;
+    }
+    if (mark !== undefined) {
+      const letter = getRehearsalLetter(mark, usedLetters);
+      if (letter) bar.letter = letter;
+    }
+
+    bars.push(bar);
+    if (bars.length > MAX_IMPORTED_BARS) {
+      throw new Error(`MIDI file is longer than ${MAX_IMPORTED_BARS} bars`);
+    }
+    barStart = barEnd;
+  } while (barStart < endTick);
+
+  // Collapse identical bars; a lettered bar starts a new measure
+  const measures: ImportedMeasure[] = [];
+  bars.forEach(bar => {
+    const previous = measures[measures.length - 1];
+    if (
+      previous &&
+      !bar.letter &&
+      previous.tempo === bar.tempo &&
+      previous.timeSignature.numerator === bar.timeSignature.numerator &&
+      previous.timeSignature.denominator === bar.timeSignature.denominator
+    ) {
+      previous.count++;
+    } else {
+      measures.push(bar);
+    }
+  });
+
+  return { name, measures };
+}
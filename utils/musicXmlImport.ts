@@ -0,0 +1,354 @@
+/**
+ * MusicXML Import
+ * Builds show measures from the measure structure of a MusicXML score
+ * (.musicxml, or compressed .mxl): time signatures, tempo directions,
+ * rehearsal marks, repeats, endings and D.C./D.S. jumps. Notes are not read.
+ * Anything the show cannot represent is listed in the result's warnings.
+ */
+
+import { strFromU8, unzipSync } from 'fflate';
+import { getRehearsalLetter, ImportedMeasure, roundImportedTempo } from './midiImport';
+import { END_MARKER_KEYS, JumpType, MeasureMarkers, START_MARKER_KEYS } from './showStructure';
+
+export interface ScoreMeasure extends ImportedMeasure, MeasureMarkers {}
+
+export interface MusicXmlScore {
+  name?: string; // work or movement title
+  measures: ScoreMeasure[];
+  warnings: string[]; // constructs that were skipped or approximated
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+// Tempo before the score sets one, as MusicXML defines
+const DEFAULT_SCORE_TEMPO = 120;
+
+// Quarter notes in each <beat-unit> of a metronome mark
+const BEAT_UNIT_QUARTERS: Record<string, number> = {
+  whole: 4,
+  half: 2,
+  quarter: 1,
+  eighth: 0.5,
+  '16th': 0.25,
+  '32nd': 0.125,
+};
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return String.fromCodePoint(value);
+    }
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+// Minimal XML reader: elements, attributes and text; comments, processing
+// instructions and the doctype are skipped
+function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '', attributes: {}, children: [], text: '' };
+  const stack = [root];
+  let index = 0;
+  const indexAfter = (marker: string, from: number) => {
+    const found = source.indexOf(marker, from);
+    if (found === -1) throw new Error('Malformed MusicXML file');
+    return found + marker.length;
+  };
+
+  while (index < source.length) {
+    const open = source.indexOf('<', index);
+    const current = stack[stack.length - 1];
+    if (open === -1) break;
+    current.text += decodeEntities(source.slice(index, open));
+
+    if (source.startsWith('<!--', open)) {
+      index = indexAfter('-->', open);
+    } else if (source.startsWith('<![CDATA[', open)) {
+      index = indexAfter(']]>', open);
+      current.text += source.slice(open + 9, index - 3);
+    } else if (source.startsWith('<?', open)) {
+      index = indexAfter('?>', open);
+    } else if (source.startsWith('<!', open)) {
+      const subset = source.indexOf('[', open);
+      const close = indexAfter('>', open);
+      index = subset !== -1 && subset < close ? indexAfter(']>', subset) : close;
+    } else if (source[open + 1] === '/') {
+      if (stack.length > 1) stack.pop();
+      index = indexAfter('>', open);
+    } else {
+      const close = indexAfter('>', open) - 1;
+      const selfClosing = source[close - 1] === '/';
+      const tag = source.slice(open + 1, selfClosing ? close - 1 : close);
+      const name = tag.match(/^[^\s/>]+/)?.[0] || '';
+      const element: XmlElement = { name, attributes: {}, children: [], text: '' };
+      tag.replace(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g, (match, key: string, double?: string, single?: string) => {
+        element.attributes[key] = decodeEntities(double ?? single ?? '');
+        return match;
+      });
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+      index = close + 1;
+    }
+  }
+
+  const document = root.children[0];
+  if (!document) throw new Error('The file contains no XML');
+  return document;
+}
+
+function child(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find(candidate => candidate.name === name);
+}
+
+function childrenNamed(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element ? element.children.filter(candidate => candidate.name === name) : [];
+}
+
+// Every element named 'name' below 'element', in document order
+function descendants(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  element.children.forEach(candidate => {
+    if (candidate.name === name) found.push(candidate);
+    found.push(...descendants(candidate, name));
+  });
+  return found;
+}
+
+function textOf(element: XmlElement | undefined): string {
+  return element ? element.text.trim() : '';
+}
+
+/**
+ * The score document inside a compressed .mxl file: the root file named by
+ * META-INF/container.xml, or the first MusicXML file in the archive.
+ */
+export function readMusicXmlArchive(bytes: Uint8Array): string {
+  const files = unzipSync(bytes);
+  const container = files['META-INF/container.xml'];
+  const rootPath = container
+    ? descendants(parseXml(strFromU8(container)), 'rootfile')[0]?.attributes['full-path']
+    : undefined;
+  const path = rootPath && files[rootPath]
+    ? rootPath
+    : Object.keys(files).find(name => !name.startsWith('META-INF/') && /\.(musicxml|xml)$/i.test(name));
+  if (!path) {
+    throw new Error('No MusicXML score found in the archive');
+  }
+  return strFromU8(files[path]);
+}
+
+/**
+ * Read the measure structure of a MusicXML score. Time signatures come from
+ * the first part; tempo, rehearsal marks and jumps from any part. Throws when
+ * the file is not a MusicXML score.
+ */
+export function parseMusicXml(source: string): MusicXmlScore {
+  const score = parseXml(source);
+  if (score.name !== 'score-partwise' && score.name !== 'score-timewise') {
+    throw new Error('Not a MusicXML score');
+  }
+
+  // Each measure's content in every part, first part first
+  let measureParts: XmlElement[][];
+  let measureNumbers: string[];
+  if (score.name === 'score-partwise') {
+    const parts = childrenNamed(score, 'part').map(part => childrenNamed(part, 'measure'));
+    measureParts = (parts[0] || []).map((_, index) => parts.map(measures => measures[index]).filter(Boolean));
+    measureNumbers = (parts[0] || []).map((measure, index) => measure.attributes.number || String(index + 1));
+  } else {
+    const measures = childrenNamed(score, 'measure');
+    measureParts = measures.map(measure => childrenNamed(measure, 'part'));
+    measureNumbers = measures.map((measure, index) => measure.attributes.number || String(index + 1));
+  }
+  if (measureParts.length === 0 || measureParts.every(parts => parts.length === 0)) {
+    throw new Error('The score has no measures');
+  }
+
+  // Unsupported constructs, with the measures they appear in
+  const skipped = new Map<string, string[]>();
+  const warn = (message: string, measureNumber: string) => {
+    const numbers = skipped.get(message) || [];
+    if (!numbers.includes(measureNumber)) numbers.push(measureNumber);
+    skipped.set(message, numbers);
+  };
+
+  const bars: ScoreMeasure[] = [];
+  const usedLetters = new Set<string>();
+  let numerator = 4;
+  let denominator = 4;
+  let grouping: number[] | undefined;
+  let quarterTempo = DEFAULT_SCORE_TEMPO;
+  let ending: number[] | undefined;
+  const codaSigns: number[] = [];
+
+  measureParts.forEach((parts, index) => {
+    const measureNumber = measureNumbers[index];
+    const primary = parts[0];
+    if (!primary) return;
+    const bar: ScoreMeasure = { timeSignature: { numerator, denominator }, tempo: 0, count: 1 };
+
+    // Time signature, from the first part only
+    const time = descendants(primary, 'time')[0];
+    if (time) {
+      if (child(time, 'senza-misura')) {
+        warn('Unmetered (senza misura) passages keep the previous meter', measureNumber);
+      } else {
+        const beats = childrenNamed(time, 'beats');
+        const beatTypes = childrenNamed(time, 'beat-type');
+        if (beats.length > 1 || beatTypes.length > 1) {
+          warn('Composite time signatures use their first meter only', measureNumber);
+        }
+        const groups = textOf(beats[0]).split('+').map(value => parseInt(value, 10));
+        const beatType = parseInt(textOf(beatTypes[0]), 10);
+        if (groups.every(value => value > 0) && beatType > 0) {
+          numerator = groups.reduce((sum, value) => sum + value, 0);
+          denominator = beatType;
+          grouping = groups.length > 1 ? groups : undefined;
+        }
+      }
+    }
+    bar.timeSignature = grouping ? { numerator, denominator, grouping } : { numerator, denominator };
+    if (primary.attributes.implicit === 'yes') {
+      warn('Pickup and incomplete measures are played as full bars', measureNumber);
+    }
+
+    // Tempo: playback <sound tempo> first, then a metronome mark
+    const sounds = parts.flatMap(part => descendants(part, 'sound'));
+    const soundTempos = sounds
+      .map(sound => parseFloat(sound.attributes.tempo))
+      .filter(tempo => tempo > 0);
+    if (soundTempos.length > 0) {
+      quarterTempo = soundTempos[0];
+    } else {
+      const metronome = parts.flatMap(part => descendants(part, 'metronome'))[0];
+      if (metronome) {
+        const units = childrenNamed(metronome, 'beat-unit');
+        const perMinute = parseFloat(textOf(child(metronome, 'per-minute')));
+        const unitQuarters = BEAT_UNIT_QUARTERS[textOf(units[0])];
+        if (units.length > 1 || !(perMinute > 0) || !unitQuarters) {
+          warn('Metric modulations and text metronome marks are ignored', measureNumber);
+        } else {
+          const dots = metronome.children.filter(element => element.name === 'beat-unit-dot').length;
+          quarterTempo = perMinute * unitQuarters * (2 - Math.pow(0.5, dots));
+        }
+      }
+    }
+    if (new Set(soundTempos).size > 1) {
+      warn('Tempo changes within a measure use the first tempo', measureNumber);
+    }
+    // Grouped meters count their shortest group instead of quarter notes
+    const beatTempo = grouping ? (quarterTempo * denominator) / (4 * Math.min(...grouping)) : quarterTempo;
+    bar.tempo = roundImportedTempo(beatTempo);
+
+    // Rehearsal marks become letters
+    const rehearsal = parts.flatMap(part => descendants(part, 'rehearsal'))[0];
+    if (rehearsal) {
+      const letter = getRehearsalLetter(textOf(rehearsal), usedLetters);
+      if (letter) bar.letter = letter;
+    }
+
+    // Repeats and endings, from the first part's barlines
+    childrenNamed(primary, 'barline').forEach(barline => {
+      const repeat = child(barline, 'repeat');
+      if (repeat?.attributes.direction === 'forward') bar.repeatStart = true;
+      if (repeat?.attributes.direction === 'backward') {
+        bar.repeatEnd = parseInt(repeat.attributes.times, 10) || 2;
+      }
+      const endingMark = child(barline, 'ending');
+      if (endingMark?.attributes.type === 'start') {
+        const passes = (endingMark.attributes.number || '1')
+          .split(/[\s,]+/)
+          .map(value => parseInt(value, 10))
+          .filter(value => value > 0);
+        ending = passes.length > 0 ? passes : [1];
+      }
+    });
+    if (ending) bar.ending = [...ending];
+    childrenNamed(primary, 'barline').forEach(barline => {
+      const type = child(barline, 'ending')?.attributes.type;
+      if (type === 'stop' || type === 'discontinue') ending = undefined;
+    });
+
+    // Segno, coda and jumps from <sound> playback attributes or direction words
+    const words = parts.flatMap(part => descendants(part, 'words')).map(textOf);
+    let jump: 'dc' | 'ds' | undefined;
+    sounds.forEach(sound => {
+      if (sound.attributes.segno) bar.segno = true;
+      if (sound.attributes.coda) bar.coda = true;
+      if (sound.attributes.tocoda) bar.toCoda = true;
+      if (sound.attributes.fine) bar.fine = true;
+      if (sound.attributes.dacapo === 'yes') jump = 'dc';
+      if (sound.attributes.dalsegno) jump = 'ds';
+    });
+    words.forEach(word => {
+      if (/^d\.?\s*c\.?(\s|$)|da capo/i.test(word)) jump = jump || 'dc';
+      if (/^d\.?\s*s\.?(\s|$)|dal segno/i.test(word)) jump = jump || 'ds';
+      if (/to coda/i.test(word)) bar.toCoda = true;
+      if (/^fine$/i.test(word)) bar.fine = true;
+    });
+    if (parts.some(part => descendants(part, 'segno').length > 0)) bar.segno = true;
+    if (!bar.toCoda && !bar.coda && parts.some(part => descendants(part, 'coda').length > 0)) {
+      codaSigns.push(bars.length);
+    }
+    if (jump) {
+      const endings = words.join(' ');
+      bar.jump = (jump + (/al fine/i.test(endings) ? 'AlFine' : /al coda/i.test(endings) ? 'AlCoda' : '')) as JumpType;
+    }
+
+    bars.push(bar);
+  });
+
+  // Coda signs without playback attributes: with two, the first is the To Coda
+  if (codaSigns.length >= 2 && !bars.some(bar => bar.toCoda)) {
+    bars[codaSigns[0]].toCoda = true;
+    codaSigns.slice(1).forEach(index => { bars[index].coda = true; });
+  } else {
+    codaSigns.forEach(index => { bars[index].coda = true; });
+  }
+
+  // A plain D.C./D.S. ends at the Fine or takes the coda when the score has one
+  const hasFine = bars.some(bar => bar.fine);
+  const hasToCoda = bars.some(bar => bar.toCoda);
+  bars.forEach(bar => {
+    if (bar.jump === 'dc' || bar.jump === 'ds') {
+      if (hasFine) bar.jump = `${bar.jump}AlFine`;
+      else if (hasToCoda) bar.jump = `${bar.jump}AlCoda`;
+    }
+  });
+
+  // Collapse identical bars; markers stay on the first or last bar of a measure
+  const measures: ScoreMeasure[] = [];
+  bars.forEach(bar => {
+    const previous = measures[measures.length - 1];
+    const startsMeasure = bar.letter || START_MARKER_KEYS.some(key => bar[key] !== undefined);
+    const previousEnds = previous && END_MARKER_KEYS.some(key => previous[key] !== undefined);
+    if (
+      previous &&
+      !startsMeasure &&
+      !previousEnds &&
+      previous.tempo === bar.tempo &&
+      JSON.stringify(previous.timeSignature) === JSON.stringify(bar.timeSignature) &&
+      JSON.stringify(previous.ending) === JSON.stringify(bar.ending)
+    ) {
+      previous.count++;
+      END_MARKER_KEYS.forEach(key => {
+        if (bar[key] !== undefined) Object.assign(previous, { [key]: bar[key] });
+      });
+    } else {
+      measures.push(bar);
+    }
+  });
+
+  const name = textOf(child(child(score, 'work'), 'work-title')) || textOf(child(score, 'movement-title')) || undefined;
+  const warnings = Array.from(skipped.entries()).map(([message, numbers]) =>
+    `${message} (${numbers.length === 1 ? 'measure' : 'measures'} ${numbers.join(', ')})`
+  );
+  return { name, measures, warnings };
+}
@@ -0,0 +1,75 @@
+/**
+ * Page Connection
+ * What the app sends to one WebView page, held back until the page announces
+ * READY. The latest update of each kind (shows, sound, colors...) is sent
+ * again whenever the page announces READY after a reload or reset; one-off
+ * commands wait for READY once and are not repeated.
+ */
+
+import { PROTOCOL_VERSION, ReadyPayload } from '../types/MessageProtocol';
+
+// 'replay' is true when the update already reached an earlier page load
+export type SendUpdate = (replay: boolean) => void;
+
+export interface PageConnectionOptions {
+  onVersionMismatch: (errors: string[]) => void; // the page speaks another protocol version
+}
+
+export interface PageConnection {
+  // 'onSuperseded' is called if a newer update of the kind replaces this one before it is sent
+  update: (kind: string, send: SendUpdate, onSuperseded?: () => void) => void;
+  command: (send: () => void) => void;
+  handleLoadStart: () => void; // the page is (re)loading; anything sent now would be lost
+  handleReady: (payload: ReadyPayload) => void;
+}
+
+export function createPageConnection(options: PageConnectionOptions): PageConnection {
+  let isReady = false;
+  const latestUpdates = new Map<string, { send: SendUpdate; sent: boolean; onSuperseded?: () => void }>();
+  let queuedCommands: (() => void)[] = [];
+
+  return {
+    // Send an update now if the page is ready; either way it is sent again
+    // after every reload until an update of the same kind replaces it
+    update: (kind: string, send: SendUpdate, onSuperseded?: () => void) => {
+      const previous = latestUpdates.get(kind);
+      latestUpdates.delete(kind); // keeps the updates in the order they last changed
+      latestUpdates.set(kind, { send, sent: isReady, onSuperseded });
+      if (previous && !previous.sent) {
+        previous.onSuperseded?.();
+      }
+      if (isReady) send(false);
+    },
+
+    command: (send: () => void) => {
+      if (isReady) {
+        send();
+      } else {
+        queuedCommands.push(send);
+      }
+    },
+
+    handleLoadStart: () => {
+      isReady = false;
+    },
+
+    handleReady: ({ protocolVersion }: ReadyPayload) => {
+      if (protocolVersion !== PROTOCOL_VERSION) {
+        // Messages of another version could be misread, so none are sent
+        isReady = false;
+        options.onVersionMismatch([
+          `READY: the page speaks protocol version ${protocolVersion}, the app speaks ${PROTOCOL_VERSION}`
+        ]);
+        return;
+      }
+      isReady = true;
+      latestUpdates.forEach(update => {
+        update.send(update.sent);
+        update.sent = true;
+      });
+      const commands = queuedCommands;
+      queuedCommands = [];
+      commands.forEach(send => send());
+    },
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Request Tracker
+ * Commands sent to the SoundSystem page under a requestId, waiting for the
+ * page to answer with the acknowledgement listed in COMMAND_ACKS, an
+ * AUDIO_ERROR or a PROTOCOL_ERROR. A command's timeout starts when it is
+ * posted, so a command queued while the page loads is not timed out before
+ * the page has seen it.
+ */
+
+import { COMMAND_ACKS, CommandAckPayload, SoundSystemMessage, SoundSystemResponse } from '../types/MessageProtocol';
+
+type Command = SoundSystemMessage['type'];
+
+// A command waiting for its answer
+interface TrackedRequest {
+  command: Command;
+  timeoutMs: number;
+  sentAt: number | null; // performance.now() when it was posted, null while queued
+  resolve: (payload: SoundSystemResponse['payload']) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout> | null;
+}
+
+export interface RequestTrackerOptions {
+  onAnswered?: (latencyMs: number) => void; // the page answered a posted command
+}
+
+export interface RequestTracker {
+  // Settles with the command's acknowledgement, or rejects on an error or timeout
+  track: <T extends Command>(requestId: string, command: T, timeoutMs: number) => Promise<CommandAckPayload<T>>;
+  markSent: (requestId: string) => void; // the command was posted; its timeout starts now
+  handleResponse: (message: SoundSystemResponse) => void;
+  handleReload: () => void; // posted commands are lost, queued ones are still sent
+  handleSuperseded: (requestId: string) => void; // a newer command replaced this one before it was posted
+  rejectAll: (reason: string) => void;
+}
+
+export function createRequestTracker(options: RequestTrackerOptions = {}): RequestTracker {
+  const requests = new Map<string, TrackedRequest>();
+
+  const settle = (requestId: string, request: TrackedRequest, error: Error | null, payload?: SoundSystemResponse['payload']) => {
+    requests.delete(requestId);
+    if (request.timeout) {
+      clearTimeout(request.timeout);
+    }
+    if (error) {
+      request.reject(error);
+    } else {
+      request.resolve(payload as SoundSystemResponse['payload']);
+    }
+  };
+
+  return {
+    track: <T extends Command>(requestId: string, command: T, timeoutMs: number) =>
+      new Promise<CommandAckPayload<T>>((resolve, reject) => {
+        requests.set(requestId, {
+          command,
+          timeoutMs,
+          sentAt: null,
+          resolve: payload => resolve(payload as CommandAckPayload<T>),
+          reject,
+          timeout: null,
+        });
+      }),
+
+    markSent: (requestId: string) => {
+      const request = requests.get(requestId);
+      if (!request || request.sentAt !== null) return;
+      request.sentAt = performance.now();
+      request.timeout = setTimeout(() => {
+        settle(requestId, request, new Error(`${request.command} was not acknowledged within ${request.timeoutMs}ms`));
+      }, request.timeoutMs);
+    },
+
+    // Other responses sent while the page handled the command carry its
+    // requestId too, and are passed over
+    handleResponse: (message: SoundSystemResponse) => {
+      const request = message.requestId ? requests.get(message.requestId) : undefined;
+      if (!request || !message.requestId) return;
+
+      let error: string | null = null;
+      if (message.type === 'AUDIO_ERROR') {
+        error = message.payload.error;
+      } else if (message.type === 'PROTOCOL_ERROR') {
+        error = `The SoundSystem rejected ${request.command}: ${message.payload.errors.join('; ')}`;
+      } else if (message.type !== COMMAND_ACKS[request.command]) {
+        return;
+      }
+
+      if (request.sentAt !== null) {
+        options.onAnswered?.(performance.now() - request.sentAt);
+      }
+      settle(message.requestId, request, error === null ? null : new Error(error), message.payload);
+    },
+
+    handleReload: () => {
+      requests.forEach((request, requestId) => {
+        if (request.sentAt === null) return;
+        settle(requestId, request, new Error(`The SoundSystem page reloaded before ${request.command} was acknowledged`));
+      });
+    },
+
+    handleSuperseded: (requestId: string) => {
+      const request = requests.get(requestId);
+      if (!request) return;
+      settle(requestId, request, new Error(`${request.command} was replaced by a newer ${request.command} before it was sent`));
+    },
+
+    rejectAll: (reason: string) => {
+      requests.forEach((request, requestId) => {
+        settle(requestId, request, new Error(`${reason} before ${request.command} was acknowledged`));
+      });
+    },
+  };
+}
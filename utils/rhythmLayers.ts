@@ -0,0 +1,108 @@
+/**
+ * Rhythm Layers
+ * Extra click layers the metronome stacks on its main beat. A polyrhythm layer
+ * spreads its pulses evenly over the main bar (3 against 2, 5 against 4); a
+ * polymeter layer plays its own bar at a fixed note value (7/8 against 4/4)
+ * and cycles against the main bar until both line up again.
+ */
+
+import { AccentLevel } from './accentPattern';
+import { TimeSignature } from './meterGrouping';
+
+export type LayerMode = 'polyrhythm' | 'polymeter';
+
+export interface RhythmLayer {
+  id: string;
+  mode: LayerMode;
+  pulses: number; // pulses in one bar of the layer
+  unit: number; // polymeter note value of a pulse, 8 = eighths; unused by polyrhythms
+  sound: string;
+  volume: number; // 0 to 1, on top of the accent level
+  accents?: AccentLevel[]; // one level per pulse; missing pulses use the default
+}
+
+export const MAX_LAYERS = 3;
+export const MIN_LAYER_PULSES = 2;
+export const MAX_LAYER_PULSES = 16;
+export const LAYER_UNITS = [2, 4, 8, 16];
+
+export const LAYER_MODES: { value: LayerMode; label: string }[] = [
+  { value: 'polyrhythm', label: 'Polyrhythm' },
+  { value: 'polymeter', label: 'Polymeter' },
+];
+
+// A new layer: three against the bar, or a bar of 7/8
+export function createLayer(id: string, mode: LayerMode = 'polyrhythm'): RhythmLayer {
+  return {
+    id,
+    mode,
+    pulses: mode === 'polymeter' ? 7 : 3,
+    unit: 8,
+    sound: 'woodblock',
+    volume: 0.8,
+  };
+}
+
+// Fill in and clamp fields so stored layers keep working
+export function normalizeLayer(layer: Partial<RhythmLayer> & { id: string }): RhythmLayer {
+  const pulses = Math.round(Number(layer.pulses));
+  const volume = Number(layer.volume);
+  return {
+    ...layer,
+    mode: layer.mode === 'polymeter' ? 'polymeter' : 'polyrhythm',
+    pulses: Number.isFinite(pulses) ? Math.min(Math.max(pulses, MIN_LAYER_PULSES), MAX_LAYER_PULSES) : 3,
+    unit: LAYER_UNITS.includes(Number(layer.unit)) ? Number(layer.unit) : 8,
+    sound: layer.sound || 'woodblock',
+    volume: Number.isFinite(volume) ? Math.min(Math.max(volume, 0), 1) : 0.8,
+  };
+}
+
+// The layer's first pulse is accented unless its pattern says otherwise
+export function getLayerPulseLevel(layer: RhythmLayer, pulseIndex: number): AccentLevel {
+  return layer.accents?.[pulseIndex] || (pulseIndex === 0 ? 'accent' : 'normal');
+}
+
+export function getLayerLevels(layer: RhythmLayer): AccentLevel[] {
+  return Array.from({ length: layer.pulses }, (_, pulse) => getLayerPulseLevel(layer, pulse));
+}
+
+// A copy of the layer with one pulse set to 'level'
+export function setLayerPulseLevel(layer: RhythmLayer, pulseIndex: number, level: AccentLevel): RhythmLayer {
+  const accents = getLayerLevels(layer);
+  accents[pulseIndex] = level;
+  return { ...layer, accents };
+}
+
+/**
+ * Seconds between two pulses of the layer. Polyrhythms divide the main bar;
+ * polymeters convert their note value against the main beat, which is one
+ * 1/denominator note of the main meter.
+ */
+export function getLayerPulseDuration(layer: RhythmLayer, timeSignature: TimeSignature, beatDuration: number): number {
+  if (layer.mode === 'polymeter') {
+    return (beatDuration * timeSignature.denominator) / layer.unit;
+  }
+  return (beatDuration * timeSignature.numerator) / layer.pulses;
+}
+
+// Pulse sounding 'elapsed' seconds after the first main beat, 0-based
+export function getLayerPulseAt(
+  layer: RhythmLayer,
+  timeSignature: TimeSignature,
+  beatDuration: number,
+  elapsed: number
+): number {
+  const pulseDuration = getLayerPulseDuration(layer, timeSignature, beatDuration);
+  if (layer.mode === 'polymeter') {
+    return Math.floor(elapsed / pulseDuration) % layer.pulses;
+  }
+  const barDuration = beatDuration * timeSignature.numerator;
+  return Math.min(Math.floor((elapsed % barDuration) / pulseDuration), layer.pulses - 1);
+}
+
+// "3:4" for three against a bar of four, "7/8" for a polymeter
+export function formatLayer(layer: RhythmLayer, timeSignature: TimeSignature): string {
+  return layer.mode === 'polymeter'
+    ? `${layer.pulses}/${layer.unit}`
+    : `${layer.pulses}:${timeSignature.numerator}`;
+}
@@ -0,0 +1,101 @@
+/**
+ * Show Files
+ * Names and contents of files exported from a show or imported into one.
+ * Shows are shared as versioned JSON documents; several shows go into one
+ * zip archive holding a document per show.
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { SHOW_SCHEMA_VERSION } from './showSchema';
+
+export const SHOW_FILE_FORMAT = 'met-maestro-show';
+
+// A shared show; 'show' holds the show exactly as it is stored
+export interface ShowFile<T> {
+  format: typeof SHOW_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  show: T;
+}
+
+// "Fall Show: Act 2" -> "Fall-Show-Act-2.wav"; falls back to "show" when nothing is left
+export function getShowFileName(showName: string, extension: string): string {
+  const base = showName
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/[\s_-]+/g, '-');
+  return `${base || 'show'}.${extension}`;
+}
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Binary file contents as base64, for writing with expo-file-system
+export function bytesToBase64(bytes: Uint8Array): string {
+  let base64 = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0);
+    base64 += BASE64_CHARS[(chunk >> 18) & 63] + BASE64_CHARS[(chunk >> 12) & 63];
+    base64 += i + 1 < bytes.length ? BASE64_CHARS[(chunk >> 6) & 63] : '=';
+    base64 += i + 2 < bytes.length ? BASE64_CHARS[chunk & 63] : '=';
+  }
+  return base64;
+}
+
+// File contents read as base64 back into bytes
+export function base64ToBytes(base64: string): Uint8Array {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const chunk = [0, 1, 2, 3].reduce(
+      (value, offset) => (value << 6) | Math.max(BASE64_CHARS.indexOf(clean[i + offset] || 'A'), 0),
+      0
+    );
+    [16, 8, 0].forEach(shift => {
+      if (byteIndex < bytes.length) bytes[byteIndex++] = (chunk >> shift) & 0xff;
+    });
+  }
+  return bytes;
+}
+
+export function createShowFile<T>(show: T): string {
+  const file: ShowFile<T> = {
+    format: SHOW_FILE_FORMAT,
+    version: SHOW_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    show,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// The show data in a parsed show file and its schema version; files exported
+// before versioning are the bare show, in version 1
+export function readShowFile(data: unknown): { version: number; show: unknown } {
+  const file = data as Partial<ShowFile<unknown>> | null;
+  if (file && file.format === SHOW_FILE_FORMAT) {
+    return { version: typeof file.version === 'number' ? file.version : 1, show: file.show };
+  }
+  return { version: 1, show: data };
+}
+
+// One show file per show, named after the show and numbered when names repeat
+export function createShowArchive<T extends { name: string }>(shows: T[]): Uint8Array {
+  const files: Record<string, Uint8Array> = {};
+  shows.forEach(show => {
+    let fileName = getShowFileName(show.name, 'json');
+    for (let copy = 2; files[fileName]; copy++) {
+      fileName = getShowFileName(`${show.name} ${copy}`, 'json');
+    }
+    files[fileName] = strToU8(createShowFile(show));
+  });
+  return zipSync(files);
+}
+
+// The JSON files in a show archive, in archive order
+export function readShowArchive(bytes: Uint8Array): { fileName: string; content: string }[] {
+  const files = unzipSync(bytes);
+  return Object.keys(files)
+    .filter(name => /\.json$/i.test(name) && !name.startsWith('__MACOSX/'))
+    .map(name => ({ fileName: name, content: strFromU8(files[name]) }));
+}
@@ -0,0 +1,69 @@
+/**
+ * Show Measures
+ * Shows are stored compactly: one measure entry with `count` N stands for N
+ * identical bars. These helpers convert between entries and bar numbers.
+ */
+
+import { END_MARKER_KEYS, MeasureMarkers, START_MARKER_KEYS } from './showStructure';
+import { getRampTempo, roundTempo, TempoChange } from './tempoCurve';
+
+interface CountedMeasure {
+  id?: string;
+  count?: number;
+}
+
+interface RampedMeasure {
+  tempo: number;
+  tempoChange?: TempoChange;
+}
+
+// Number of bars a measure entry stands for
+export function getMeasureCount(measure: CountedMeasure): number {
+  return measure.count && measure.count > 0 ? measure.count : 1;
+}
+
+// Total number of bars in a list of measure entries
+export function getTotalMeasureCount(measures: CountedMeasure[]): number {
+  return measures.reduce((total, measure) => total + getMeasureCount(measure), 0);
+}
+
+// 1-based bar number of the first bar of each measure entry
+export function getMeasureStartNumbers(measures: CountedMeasure[]): number[] {
+  const startNumbers: number[] = [];
+  let barNumber = 1;
+  measures.forEach(measure => {
+    startNumbers.push(barNumber);
+    barNumber += getMeasureCount(measure);
+  });
+  return startNumbers;
+}
+
+// Expand measure entries into one entry per bar. Start markers stay on the
+// first bar and end markers on the last; ids of later bars are derived from
+// the entry's id. A tempo change is split so each bar ramps over its own
+// part of the curve.
+export function expandMeasures<T extends CountedMeasure & MeasureMarkers & RampedMeasure>(measures: T[]): T[] {
+  const bars: T[] = [];
+  measures.forEach(measure => {
+    const count = getMeasureCount(measure);
+    for (let i = 0; i < count; i++) {
+      const bar: T = { ...measure, count: 1 };
+      if (i > 0) {
+        if (measure.id !== undefined) bar.id = `${measure.id}:${i}`;
+        START_MARKER_KEYS.forEach(key => delete bar[key]);
+      }
+      if (i < count - 1) {
+        END_MARKER_KEYS.forEach(key => delete bar[key]);
+      }
+      if (measure.tempoChange && count > 1) {
+        bar.tempo = roundTempo(getRampTempo(measure, i / count));
+        bar.tempoChange = {
+          ...measure.tempoChange,
+          endTempo: roundTempo(getRampTempo(measure, (i + 1) / count)),
+        };
+      }
+      bars.push(bar);
+    }
+  });
+  return bars;
+}
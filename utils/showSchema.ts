@@ -0,0 +1,455 @@
+/**
+ * Show Schema
+ * The versioned show document shared by show files and stored shows. The
+ * validator reports every problem it finds with the path of the field it is
+ * in, and migrations bring shows written by older versions up to the current
+ * one before they are validated.
+ */
+
+import { ACCENT_LEVELS, AccentPattern, accentsFromBeatSounds, BeatSounds } from './accentPattern';
+import { COUNT_IN_SOUNDS, CountInSettings, MAX_COUNT_IN_LENGTH } from './countIn';
+import { createId, isId } from './ids';
+import { isValidGrouping, TimeSignature } from './meterGrouping';
+import { JUMP_LABELS, MeasureMarkers } from './showStructure';
+import { MAX_SWING, STRAIGHT_SWING } from './swing';
+import { TempoChange } from './tempoCurve';
+
+/**
+ * Versions of the show document:
+ * 1 - shows saved before the schema; a measure may have no count, and may
+ *     store its accents as high/low beatSounds
+ * 2 - every measure has a count and an accent pattern instead of beatSounds;
+ *     shows always carry createdAt and updatedAt
+ * 3 - show ids are UUIDs, and measure ids are unique within their show
+ */
+export const SHOW_SCHEMA_VERSION = 3;
+
+export interface ShowMeasureData extends MeasureMarkers {
+  id: string;
+  timeSignature: TimeSignature;
+  tempo: number;
+  count: number;
+  letter?: string;
+  tempoChange?: TempoChange;
+  accents?: AccentPattern;
+  beatSounds?: BeatSounds; // read from version 1 shows, migrated to accents
+  subdivision?: number;
+  swing?: number;
+}
+
+export interface ShowData {
+  id: string;
+  name: string;
+  measures: ShowMeasureData[];
+  countIn?: Partial<CountInSettings>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The 'metMaestro_shows' storage entry; version 1 stored the bare array
+export interface StoredShows {
+  version: number;
+  shows: unknown[];
+}
+
+export interface ShowIssue {
+  path: string; // e.g. "measures[2].timeSignature.denominator"
+  message: string;
+}
+
+export interface ShowValidation {
+  show: ShowData | null; // null when there are errors
+  errors: ShowIssue[];
+  warnings: ShowIssue[]; // fields this version does not know; they are kept
+}
+
+// Bounds of what playback handles; the editor itself is stricter
+const MAX_TEMPO = 1000;
+const MAX_NUMERATOR = 64;
+const MAX_MEASURE_COUNT = 10000;
+const MAX_SUBDIVISION = 6;
+const DENOMINATORS = [1, 2, 4, 8, 16, 32, 64];
+
+const SHOW_FIELDS = ['id', 'name', 'measures', 'countIn', 'createdAt', 'updatedAt'];
+const MEASURE_FIELDS = [
+  'id', 'timeSignature', 'tempo', 'count', 'letter', 'tempoChange', 'accents', 'beatSounds', 'subdivision', 'swing',
+  'repeatStart', 'repeatEnd', 'ending', 'segno', 'coda', 'toCoda', 'fine', 'jump', 'pause',
+];
+const COUNT_IN_FIELDS = ['enabled', 'length', 'unit', 'meter', 'sound', 'spoken', 'skipWhenResuming'];
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Missing and null optional fields are treated alike
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+function isDate(value: unknown): boolean {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Upgrades from each version to the next. They only touch what changed
+ * between versions and leave anything they do not recognize for the validator.
+ */
+const MIGRATIONS: Record<number, (show: Fields) => Fields> = {
+  1: (show) => {
+    const now = new Date().toISOString();
+    const measures = Array.isArray(show.measures)
+      ? show.measures.map(measure => {
+        if (!isObject(measure)) return measure;
+        const { beatSounds, ...rest } = measure;
+        const timeSignature = isObject(measure.timeSignature) ? measure.timeSignature : null;
+        return {
+          ...rest,
+          count: isMissing(measure.count) ? 1 : measure.count,
+          // Only convert beat sounds that can be read; anything else is left for the validator
+          ...(isMissing(measure.accents) && isObject(beatSounds) && typeof timeSignature?.numerator === 'number'
+            ? { accents: accentsFromBeatSounds(beatSounds as unknown as BeatSounds, timeSignature.numerator) }
+            : isMissing(beatSounds) ? {} : { beatSounds }),
+        };
+      })
+      : show.measures;
+    return {
+      ...show,
+      measures,
+      createdAt: isMissing(show.createdAt) ? now : show.createdAt,
+      updatedAt: isMissing(show.updatedAt) ? now : show.updatedAt,
+    };
+  },
+  // Sequential ids could be reused after a delete; every show and measure gets a new one
+  2: (show) => withNewIds(show),
+};
+
+/**
+ * The show with a new UUID, and new UUIDs for its measures. Imported shows
+ * get new ids so they can never collide with the shows already there.
+ */
+export function withNewIds<T extends { measures?: unknown }>(show: T): T & { id: string } {
+  return {
+    ...show,
+    id: createId(),
+    measures: Array.isArray(show.measures)
+      ? show.measures.map(measure => (isObject(measure) ? { ...measure, id: createId() } : measure))
+      : show.measures,
+  };
+}
+
+/**
+ * A show from 'version' upgraded to SHOW_SCHEMA_VERSION. Returns the data
+ * unchanged when it is not an object, for the validator to report.
+ */
+export function migrateShow(data: unknown, version: number): unknown {
+  if (!isObject(data)) return data;
+  let show = data;
+  for (let from = version; from < SHOW_SCHEMA_VERSION; from++) {
+    show = MIGRATIONS[from] ? MIGRATIONS[from](show) : show;
+  }
+  return show;
+}
+
+// Collects issues while walking a show
+class ShowValidator {
+  errors: ShowIssue[] = [];
+  warnings: ShowIssue[] = [];
+
+  error(path: string, message: string) {
+    this.errors.push({ path, message });
+  }
+
+  unknownFields(path: string, fields: Fields, known: string[]) {
+    Object.keys(fields)
+      .filter(key => !known.includes(key))
+      .forEach(key => this.warnings.push({
+        path: path ? `${path}.${key}` : key,
+        message: 'is not used by this version of Met Maestro',
+      }));
+  }
+
+  number(path: string, value: unknown, min: number, max: number, integer = false): boolean {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+      this.error(path, `must be ${integer ? 'a whole number' : 'a number'} from ${min} to ${max}`);
+      return false;
+    }
+    return true;
+  }
+
+  oneOf(path: string, value: unknown, options: readonly unknown[]) {
+    if (!options.includes(value)) {
+      this.error(path, `must be one of ${options.map(option => JSON.stringify(option)).join(', ')}`);
+    }
+  }
+
+  boolean(path: string, value: unknown) {
+    if (!isMissing(value) && typeof value !== 'boolean') {
+      this.error(path, 'must be true or false');
+    }
+  }
+
+  levels(path: string, value: unknown) {
+    if (!Array.isArray(value)) {
+      this.error(path, 'must be a list of accent levels');
+      return;
+    }
+    value.forEach((level, index) => this.oneOf(`${path}[${index}]`, level, ACCENT_LEVELS));
+  }
+
+  beats(path: string, value: unknown, numerator: number) {
+    if (!Array.isArray(value) || !value.every(beat => Number.isInteger(beat) && beat >= 0 && beat < numerator)) {
+      this.error(path, `must be a list of beat numbers from 0 to ${numerator - 1}`);
+    }
+  }
+}
+
+function validateTimeSignature(validator: ShowValidator, path: string, value: unknown): number | null {
+  if (!isObject(value)) {
+    validator.error(path, isMissing(value) ? 'is required' : 'must be an object with a numerator and denominator');
+    return null;
+  }
+  validator.unknownFields(path, value, ['numerator', 'denominator', 'grouping']);
+  const numeratorValid = validator.number(`${path}.numerator`, value.numerator, 1, MAX_NUMERATOR, true);
+  validator.oneOf(`${path}.denominator`, value.denominator, DENOMINATORS);
+  if (!numeratorValid) return null;
+  const numerator = value.numerator as number;
+  if (!isMissing(value.grouping) && !isValidGrouping(value.grouping as number[], numerator)) {
+    validator.error(`${path}.grouping`, `must be whole beat groups adding up to ${numerator}`);
+  }
+  return numerator;
+}
+
+// Letters and measure ids seen so far in a show, with the measure number using each
+interface SeenInShow {
+  letters: Map<string, number>;
+  ids: Map<string, number>;
+}
+
+function validateMeasure(validator: ShowValidator, index: number, measure: unknown, seen: SeenInShow) {
+  const path = `measures[${index}]`;
+  if (!isObject(measure)) {
+    validator.error(path, 'must be an object');
+    return;
+  }
+  validator.unknownFields(path, measure, MEASURE_FIELDS);
+
+  if (typeof measure.id !== 'string' || measure.id === '') {
+    validator.error(`${path}.id`, isMissing(measure.id) ? 'is required' : 'must be a non-empty string');
+  } else if (seen.ids.has(measure.id)) {
+    validator.error(`${path}.id`, `is already used by measure ${seen.ids.get(measure.id)}`);
+  } else {
+    seen.ids.set(measure.id, index + 1);
+  }
+  const numerator = validateTimeSignature(validator, `${path}.timeSignature`, measure.timeSignature);
+  if (isMissing(measure.tempo)) {
+    validator.error(`${path}.tempo`, 'is required');
+  } else {
+    validator.number(`${path}.tempo`, measure.tempo, 1, MAX_TEMPO);
+  }
+  if (isMissing(measure.count)) {
+    validator.error(`${path}.count`, 'is required');
+  } else {
+    validator.number(`${path}.count`, measure.count, 1, MAX_MEASURE_COUNT, true);
+  }
+
+  // Letters are single capitals, each used once per show
+  if (!isMissing(measure.letter)) {
+    if (typeof measure.letter !== 'string' || !/^[A-Z]$/.test(measure.letter)) {
+      validator.error(`${path}.letter`, 'must be a single capital letter A-Z');
+    } else if (seen.letters.has(measure.letter)) {
+      validator.error(`${path}.letter`, `"${measure.letter}" is already used by measure ${seen.letters.get(measure.letter)}`);
+    } else {
+      seen.letters.set(measure.letter, index + 1);
+    }
+  }
+
+  if (!isMissing(measure.tempoChange)) {
+    const tempoChange = measure.tempoChange;
+    if (!isObject(tempoChange)) {
+      validator.error(`${path}.tempoChange`, 'must be an object with an endTempo and curve');
+    } else {
+      validator.unknownFields(`${path}.tempoChange`, tempoChange, ['endTempo', 'curve']);
+      validator.number(`${path}.tempoChange.endTempo`, tempoChange.endTempo, 1, MAX_TEMPO);
+      validator.oneOf(`${path}.tempoChange.curve`, tempoChange.curve, ['linear', 'exponential']);
+    }
+  }
+
+  if (!isMissing(measure.accents)) {
+    const accents = measure.accents;
+    if (!isObject(accents)) {
+      validator.error(`${path}.accents`, 'must be an object with a list of beats');
+    } else {
+      validator.unknownFields(`${path}.accents`, accents, ['beats', 'subdivisions']);
+      validator.levels(`${path}.accents.beats`, accents.beats);
+      if (!isMissing(accents.subdivisions)) {
+        if (Array.isArray(accents.subdivisions)) {
+          accents.subdivisions.forEach((levels, beat) => {
+            if (!isMissing(levels)) validator.levels(`${path}.accents.subdivisions[${beat}]`, levels);
+          });
+        } else {
+          validator.error(`${path}.accents.subdivisions`, 'must be a list with the accent levels of each beat');
+        }
+      }
+    }
+  }
+
+  if (!isMissing(measure.beatSounds) && numerator !== null) {
+    const beatSounds = measure.beatSounds;
+    if (!isObject(beatSounds)) {
+      validator.error(`${path}.beatSounds`, 'must be an object with high and low beats');
+    } else {
+      validator.unknownFields(`${path}.beatSounds`, beatSounds, ['high', 'low']);
+      validator.beats(`${path}.beatSounds.high`, beatSounds.high, numerator);
+      validator.beats(`${path}.beatSounds.low`, beatSounds.low, numerator);
+    }
+  }
+
+  if (!isMissing(measure.subdivision)) {
+    validator.number(`${path}.subdivision`, measure.subdivision, 1, MAX_SUBDIVISION, true);
+  }
+  if (!isMissing(measure.swing)) {
+    validator.number(`${path}.swing`, measure.swing, STRAIGHT_SWING, MAX_SWING);
+  }
+
+  validateMarkers(validator, path, measure);
+}
+
+function validateMarkers(validator: ShowValidator, path: string, measure: Fields) {
+  ['repeatStart', 'segno', 'coda', 'toCoda', 'fine'].forEach(key => validator.boolean(`${path}.${key}`, measure[key]));
+  if (!isMissing(measure.repeatEnd)) {
+    validator.number(`${path}.repeatEnd`, measure.repeatEnd, 2, 99, true);
+  }
+  if (!isMissing(measure.ending)) {
+    const ending = measure.ending;
+    if (!Array.isArray(ending) || !ending.every(pass => Number.isInteger(pass) && pass >= 1)) {
+      validator.error(`${path}.ending`, 'must be a list of pass numbers, e.g. [1, 2]');
+    }
+  }
+  if (!isMissing(measure.jump)) {
+    validator.oneOf(`${path}.jump`, measure.jump, Object.keys(JUMP_LABELS));
+  }
+  if (!isMissing(measure.pause)) {
+    const pause = measure.pause;
+    if (!isObject(pause)) {
+      validator.error(`${path}.pause`, 'must be an object with a type');
+    } else {
+      validator.unknownFields(`${path}.pause`, pause, ['type', 'length']);
+      validator.oneOf(`${path}.pause.type`, pause.type, ['seconds', 'beats', 'hold']);
+      if (pause.type !== 'hold' && !isMissing(pause.length)) {
+        validator.number(`${path}.pause.length`, pause.length, 0, 3600);
+      }
+    }
+  }
+}
+
+function validateCountIn(validator: ShowValidator, countIn: unknown) {
+  if (!isObject(countIn)) {
+    validator.error('countIn', 'must be an object');
+    return;
+  }
+  validator.unknownFields('countIn', countIn, COUNT_IN_FIELDS);
+  ['enabled', 'spoken', 'skipWhenResuming'].forEach(key => validator.boolean(`countIn.${key}`, countIn[key]));
+  if (!isMissing(countIn.length)) {
+    validator.number('countIn.length', countIn.length, 1, MAX_COUNT_IN_LENGTH, true);
+  }
+  if (!isMissing(countIn.unit)) validator.oneOf('countIn.unit', countIn.unit, ['bars', 'beats']);
+  if (!isMissing(countIn.meter)) validator.oneOf('countIn.meter', countIn.meter, ['firstMeasure', 'fixed']);
+  if (!isMissing(countIn.sound)) validator.oneOf('countIn.sound', countIn.sound, COUNT_IN_SOUNDS.map(sound => sound.value));
+}
+
+/**
+ * Check a show against the current schema. Every problem is reported, not
+ * just the first; the show is returned unchanged when there are no errors.
+ */
+export function validateShow(data: unknown): ShowValidation {
+  const validator = new ShowValidator();
+  if (!isObject(data)) {
+    validator.error('', 'must be a show object');
+    return { show: null, errors: validator.errors, warnings: validator.warnings };
+  }
+
+  validator.unknownFields('', data, SHOW_FIELDS);
+  if (!isId(data.id)) {
+    validator.error('id', isMissing(data.id) ? 'is required' : 'must be a UUID');
+  }
+  if (typeof data.name !== 'string' || data.name.trim() === '') {
+    validator.error('name', isMissing(data.name) ? 'is required' : 'must be a non-empty string');
+  }
+  ['createdAt', 'updatedAt'].forEach(key => {
+    if (!isDate(data[key])) {
+      validator.error(key, isMissing(data[key]) ? 'is required' : 'must be a date');
+    }
+  });
+  if (!isMissing(data.countIn)) {
+    validateCountIn(validator, data.countIn);
+  }
+
+  if (!Array.isArray(data.measures)) {
+    validator.error('measures', isMissing(data.measures) ? 'is required' : 'must be a list of measures');
+  } else {
+    const seen: SeenInShow = { letters: new Map(), ids: new Map() };
+    data.measures.forEach((measure, index) => validateMeasure(validator, index, measure, seen));
+  }
+
+  return {
+    show: validator.errors.length === 0 ? (data as unknown as ShowData) : null,
+    errors: validator.errors,
+    warnings: validator.warnings,
+  };
+}
+
+// "measures[2].tempo" -> "Measure 3, tempo: must be ..."
+export function formatShowIssue(issue: ShowIssue): string {
+  const field = issue.path.replace(
+    /^measures\[(\d+)\](\.?)/,
+    (_, index, separator) => `Measure ${Number(index) + 1}${separator ? ', ' : ''}`
+  );
+  return field ? `${field}: ${issue.message}` : `Show ${issue.message}`;
+}
+
+/**
+ * A show read from a document of 'version': migrated, then validated. Shows
+ * from a newer version than this one are rejected rather than guessed at.
+ */
+export function validateShowDocument(show: unknown, version: number): ShowValidation {
+  if (version > SHOW_SCHEMA_VERSION) {
+    return {
+      show: null,
+      errors: [{ path: '', message: `was saved by a newer version of Met Maestro (format version ${version})` }],
+      warnings: [],
+    };
+  }
+  return validateShow(migrateShow(show, version));
+}
+
+// Shows for the storage entry, tagged with the schema version
+export function createStoredShows<T>(shows: T[]): StoredShows {
+  return { version: SHOW_SCHEMA_VERSION, shows };
+}
+
+/**
+ * Stored shows upgraded to the current version, from either the versioned
+ * entry or the bare array version 1 stored. A show whose id repeats an
+ * earlier show's is given a new one.
+ */
+export function migrateStoredShows(data: unknown): { version: number; shows: unknown[] } {
+  const stored = Array.isArray(data)
+    ? { version: 1, shows: data }
+    : isObject(data) && Array.isArray(data.shows) && typeof data.version === 'number'
+      ? { version: data.version, shows: data.shows }
+      : null;
+  if (!stored) {
+    throw new Error('Stored shows are not in a known format');
+  }
+  const ids = new Set<unknown>();
+  const shows = stored.shows.map(show => {
+    const migrated = migrateShow(show, stored.version);
+    if (!isObject(migrated)) return migrated;
+    const unique = ids.has(migrated.id) ? { ...migrated, id: createId() } : migrated;
+    ids.add(unique.id);
+    return unique;
+  });
+  return { version: stored.version, shows };
+}
@@ -0,0 +1,180 @@
+/**
+ * Show Structure
+ * Structural markers on show measures (repeats, numbered endings, segno, coda,
+ * fine, D.C./D.S. jumps and pauses) and the resolver that unrolls them into the
+ * order bars are actually played in.
+ */
+
+import { getBeatScale, TimeSignature } from './meterGrouping';
+import { getRampTempo, TempoChange } from './tempoCurve';
+
+export type JumpType = 'dc' | 'dcAlFine' | 'dcAlCoda' | 'ds' | 'dsAlFine' | 'dsAlCoda';
+
+export type PauseType = 'seconds' | 'beats' | 'hold';
+
+/**
+ * Pause after the last beat of a measure (fermata, G.P.). 'length' is in
+ * seconds or in beats at the measure's final tempo; a hold has no length and
+ * lasts until playback is resumed.
+ */
+export interface MeasurePause {
+  type: PauseType;
+  length?: number;
+}
+
+/**
+ * Markers on a measure entry. When an entry stands for several bars, start
+ * markers belong to its first bar and end markers to its last bar; an ending
+ * applies to every bar of the entry.
+ */
+export interface MeasureMarkers {
+  repeatStart?: boolean;
+  repeatEnd?: number; // total number of times the repeated section is played
+  ending?: number[]; // passes this measure is played on, e.g. [1] or [1, 2]
+  segno?: boolean;
+  coda?: boolean;
+  toCoda?: boolean;
+  fine?: boolean;
+  jump?: JumpType;
+  pause?: MeasurePause;
+}
+
+export const START_MARKER_KEYS: (keyof MeasureMarkers)[] = ['repeatStart', 'segno', 'coda'];
+export const END_MARKER_KEYS: (keyof MeasureMarkers)[] = ['repeatEnd', 'toCoda', 'fine', 'jump', 'pause'];
+
+export const JUMP_LABELS: Record<JumpType, string> = {
+  dc: 'D.C.',
+  dcAlFine: 'D.C. al Fine',
+  dcAlCoda: 'D.C. al Coda',
+  ds: 'D.S.',
+  dsAlFine: 'D.S. al Fine',
+  dsAlCoda: 'D.S. al Coda',
+};
+
+// Upper bound on unrolled bars so malformed markers can never loop forever
+const MAX_PLAYED_BARS = 10000;
+
+interface PausedMeasure extends MeasureMarkers {
+  timeSignature: TimeSignature;
+  tempo: number;
+  tempoChange?: TempoChange;
+}
+
+// Length in seconds of the pause after a measure, null for a hold (or no pause: 0)
+export function getPauseDuration(measure: PausedMeasure): number | null {
+  const pause = measure.pause;
+  if (!pause) return 0;
+  if (pause.type === 'hold') return null;
+  const length = pause.length && pause.length > 0 ? pause.length : 0;
+  if (pause.type === 'seconds') return length;
+
+  // Beats continue at the tempo the measure ends on
+  const beatDuration = (60 / getRampTempo(measure, 1)) * getBeatScale(measure.timeSignature);
+  return length * beatDuration;
+}
+
+function hasEnding(bar: MeasureMarkers): boolean {
+  return !!bar.ending && bar.ending.length > 0;
+}
+
+// Highest ending number of the volta bracket group containing bar 'index'
+function getFinalEnding(bars: MeasureMarkers[], index: number): number {
+  let start = index;
+  let end = index;
+  while (start > 0 && hasEnding(bars[start - 1])) start--;
+  while (end + 1 < bars.length && hasEnding(bars[end + 1])) end++;
+
+  let finalEnding = 1;
+  for (let i = start; i <= end; i++) {
+    bars[i].ending!.forEach(ending => {
+      finalEnding = Math.max(finalEnding, ending);
+    });
+  }
+  return finalEnding;
+}
+
+function findMarker(bars: MeasureMarkers[], marker: keyof MeasureMarkers, fromIndex: number): number {
+  for (let i = fromIndex; i < bars.length; i++) {
+    if (bars[i][marker]) return i;
+  }
+  return -1;
+}
+
+/**
+ * Unroll the markers of a per-bar measure list into playback order.
+ * Returns written bar indexes (0-based) in the order they are played.
+ * Repeats are not taken again after a D.C./D.S. jump, and only the final
+ * ending of each volta bracket is played on that pass.
+ */
+export function resolvePlaybackOrder(bars: MeasureMarkers[]): number[] {
+  const order: number[] = [];
+  const repeatsTaken: Record<number, number> = {};
+  let sectionStart = 0;
+  let pass = 1;
+  let activeRepeatEnd = -1;
+  let returning = false;
+  let jumpTaken = false;
+  let jumpUntil: 'fine' | 'coda' | null = null;
+  let i = 0;
+
+  while (i < bars.length && order.length < MAX_PLAYED_BARS) {
+    const bar = bars[i];
+
+    // A repeat sign reached going forwards opens a new section
+    if (bar.repeatStart && !returning) {
+      sectionStart = i;
+      pass = 1;
+      activeRepeatEnd = -1;
+    } else if (activeRepeatEnd >= 0 && i > activeRepeatEnd && !hasEnding(bar)) {
+      // Past the last repeat and its endings - the next repeat goes back to here
+      sectionStart = i;
+      pass = 1;
+      activeRepeatEnd = -1;
+    }
+    returning = false;
+
+    // Numbered endings are only played on their pass
+    if (hasEnding(bar)) {
+      const playedPass = jumpTaken ? getFinalEnding(bars, i) : pass;
+      if (!bar.ending!.includes(playedPass)) {
+        i++;
+        continue;
+      }
+    }
+
+    order.push(i);
+
+    if (jumpTaken) {
+      if (jumpUntil === 'fine' && bar.fine) break;
+      if (jumpUntil === 'coda' && bar.toCoda) {
+        const codaIndex = findMarker(bars, 'coda', i + 1);
+        if (codaIndex === -1) break;
+        i = codaIndex;
+        continue;
+      }
+    }
+
+    if (!jumpTaken && bar.repeatEnd && bar.repeatEnd > 1) {
+      const taken = repeatsTaken[i] || 0;
+      if (taken < bar.repeatEnd - 1) {
+        repeatsTaken[i] = taken + 1;
+        pass++;
+        activeRepeatEnd = Math.max(activeRepeatEnd, i);
+        returning = true;
+        i = sectionStart;
+        continue;
+      }
+    }
+
+    if (!jumpTaken && bar.jump) {
+      jumpTaken = true;
+      jumpUntil = bar.jump.endsWith('AlFine') ? 'fine' : bar.jump.endsWith('AlCoda') ? 'coda' : null;
+      i = bar.jump.startsWith('ds') ? Math.max(0, findMarker(bars, 'segno', 0)) : 0;
+      continue;
+    }
+
+    i++;
+  }
+
+  return order;
+}
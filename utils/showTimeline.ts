@@ -0,0 +1,294 @@
+/**
+ * Show Timeline
+ * Show playback runs on a precomputed timeline: the count-in and every beat,
+ * subdivision click and pause of the bars being played, each with its
+ * AudioContext time, so tempo and meter changes land exactly on the downbeat.
+ * Live playback and WAV export build the same timeline.
+ */
+
+import { AccentLevel, AccentPattern, BeatSounds, getAccentLevel, getBeatLevels, getMeasureAccents } from './accentPattern';
+import { CountInSettings, CountInSound, getCountInBeats } from './countIn';
+import { getBeatScale, TimeSignature } from './meterGrouping';
+import { getPauseDuration, MeasureMarkers, MeasurePause } from './showStructure';
+import { getSubdivisionOffset, STRAIGHT_SWING } from './swing';
+import { getRampBeatDuration, getRampTempo, TempoChange } from './tempoCurve';
+
+// One bar of an expanded show
+export interface TimelineBar extends MeasureMarkers {
+  timeSignature: TimeSignature;
+  tempo: number;
+  tempoChange?: TempoChange;
+  letter?: string;
+  subdivision?: number;
+  swing?: number;
+  accents?: AccentPattern;
+  beatSounds?: BeatSounds;
+}
+
+interface CountOffEvent {
+  type: 'countOff';
+  index: number;
+  time: number;
+  beatIndex: number;
+  count: number;
+  isDownbeat: boolean;
+  beatsPerBar: number;
+  tempo: number;
+  sound: CountInSound;
+  spoken: boolean;
+}
+
+interface BeatEvent {
+  type: 'beat';
+  index: number;
+  time: number;
+  measureIndex: number; // index of the bar in the expanded show
+  playIndex: number; // position of the bar in the played section
+  beatIndex: number;
+  beatsInMeasure: number;
+  isDownbeat: boolean;
+  level: AccentLevel;
+  tempo: number;
+  afterPause: boolean; // downbeat right after a pause
+  measureData: TimelineBar;
+}
+
+interface SubdivisionEvent {
+  type: 'subdivision';
+  index: number;
+  time: number;
+  level: AccentLevel;
+}
+
+// Pause after a measure; 'duration' is null for a hold
+interface PauseEvent {
+  type: 'pause';
+  index: number;
+  time: number;
+  measureIndex: number;
+  playIndex: number;
+  beatsInMeasure: number;
+  tempo: number;
+  pause: MeasurePause;
+  duration: number | null;
+}
+
+interface EndEvent {
+  type: 'end';
+  index: number;
+  time: number;
+}
+
+export type TimelineEvent = CountOffEvent | BeatEvent | SubdivisionEvent | PauseEvent | EndEvent;
+
+// Section of the playback order to play, as indexes into the order
+export interface PlaybackRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Where playback starts and stops, chosen in the playback options. Measures
+ * are 1-based bar numbers; a letter takes precedence over a measure number.
+ */
+export interface PlaybackPositionOptions {
+  startType: 'beginning' | 'current' | 'specific';
+  startMeasure?: number;
+  startLetter?: string;
+  endType: 'end' | 'specific';
+  endMeasure?: number;
+  endLetter?: string;
+}
+
+// Playback options as the options modal edits them, measures as typed text
+export interface PlaybackOptionsForm {
+  startType: 'beginning' | 'current' | 'specific';
+  startMeasure: string;
+  startLetter: string;
+  endType: 'end' | 'specific';
+  endMeasure: string;
+  endLetter: string;
+}
+
+// Start options for the sound system; 'current' starts at the measure shown on screen
+export function getPlaybackStartOptions(form: PlaybackOptionsForm, currentMeasure: number): PlaybackPositionOptions {
+  const toMeasure = (text: string) => {
+    const measure = parseInt(text, 10);
+    return measure > 0 ? measure : undefined;
+  };
+  return {
+    startType: form.startType,
+    startMeasure: form.startType === 'current' ? currentMeasure : toMeasure(form.startMeasure),
+    startLetter: form.startLetter || undefined,
+    endType: form.endType,
+    endMeasure: toMeasure(form.endMeasure),
+    endLetter: form.endLetter || undefined,
+  };
+}
+
+/**
+ * Bar index playback starts at, and the bar index it stops before (the bar
+ * count to play to the end), for the given playback options.
+ */
+export function getPlaybackPositions(bars: TimelineBar[], options: PlaybackPositionOptions): PlaybackRange {
+  if (bars.length === 0) return { start: 0, end: 0 };
+
+  let start = 0;
+  if (options.startType !== 'beginning') {
+    if (options.startLetter) {
+      start = Math.max(0, bars.findIndex(bar => bar.letter === options.startLetter));
+    } else if (options.startMeasure) {
+      start = Math.max(0, Math.min(options.startMeasure - 1, bars.length - 1));
+    }
+  }
+
+  let end = bars.length;
+  if (options.endType === 'specific') {
+    if (options.endLetter) {
+      const letterIndex = bars.findIndex(bar => bar.letter === options.endLetter);
+      end = letterIndex === -1 ? bars.length : letterIndex;
+    } else if (options.endMeasure) {
+      end = Math.max(1, Math.min(options.endMeasure, bars.length));
+    }
+  }
+  return { start, end };
+}
+
+/**
+ * Section of the playback order between the start and end bars. Playback
+ * starts at the first time the start bar is played and stops when the order
+ * next reaches the end bar (or runs out).
+ */
+export function getPlaybackRange(playbackOrder: number[], startPosition: number, endPosition: number): PlaybackRange {
+  let start = playbackOrder.indexOf(startPosition);
+  if (start === -1) {
+    // Start bar is never played (e.g. an unused ending) - use the next one that is
+    start = playbackOrder.findIndex(measureIndex => measureIndex > startPosition);
+  }
+  if (start === -1) {
+    return { start: 0, end: 0 };
+  }
+  const end = playbackOrder.indexOf(endPosition, start + 1);
+  return { start, end: end === -1 ? playbackOrder.length : end };
+}
+
+// Duration of one beat of a bar in seconds, following its tempo curve. A beat
+// grouping moves the tempo to the shortest group (3+3/8: dotted quarter)
+function getBeatDuration(bar: TimelineBar, beatIndex: number): number {
+  return getRampBeatDuration(bar, beatIndex, bar.timeSignature.numerator, getBeatScale(bar.timeSignature));
+}
+
+/**
+ * Count-in and every beat of the bars in 'playbackOrder', starting at
+ * 'startTime'. A pause delays everything after it; a hold has no duration
+ * here, so the rest of the timeline is shifted when playback resumes.
+ */
+export function buildShowTimeline(
+  bars: TimelineBar[],
+  playbackOrder: number[],
+  startTime: number,
+  countIn: CountInSettings,
+  resuming: boolean = false
+): TimelineEvent[] {
+  const timeline: TimelineEvent[] = [];
+
+  // Count-in at the start measure's tempo, in its meter or a fixed 4/4
+  const plan = getCountInBeats(countIn, bars[playbackOrder[0]], resuming);
+  plan.beats.forEach((beat, beatIndex) => {
+    timeline.push({
+      type: 'countOff',
+      index: timeline.length,
+      time: startTime + beat.offset,
+      beatIndex,
+      count: beat.count,
+      isDownbeat: beat.isDownbeat,
+      beatsPerBar: plan.beatsPerBar,
+      tempo: Math.round(plan.tempo),
+      sound: countIn.sound,
+      spoken: countIn.spoken,
+    });
+  });
+  let time = startTime + plan.duration;
+
+  let afterPause = false;
+  playbackOrder.forEach((measureIndex, playIndex) => {
+    const bar = bars[measureIndex];
+    const beatsInMeasure = bar.timeSignature.numerator;
+    // Grouped meters accent the first beat of every group by default
+    const accents = getMeasureAccents(bar);
+    const beatLevels = getBeatLevels(accents, bar.timeSignature);
+    const subdivision = bar.subdivision || 1;
+
+    for (let beatIndex = 0; beatIndex < beatsInMeasure; beatIndex++) {
+      timeline.push({
+        type: 'beat',
+        index: timeline.length,
+        time,
+        measureIndex,
+        playIndex,
+        beatIndex,
+        beatsInMeasure,
+        isDownbeat: beatIndex === 0,
+        level: beatLevels[beatIndex],
+        tempo: Math.round(getRampTempo(bar, beatIndex / beatsInMeasure)),
+        afterPause: afterPause && beatIndex === 0,
+        measureData: bar,
+      });
+      const beatDuration = getBeatDuration(bar, beatIndex);
+      // Subdivision clicks only sound; swing pushes back every second one
+      for (let subdivisionIndex = 1; subdivisionIndex < subdivision; subdivisionIndex++) {
+        timeline.push({
+          type: 'subdivision',
+          index: timeline.length,
+          time: time + beatDuration * getSubdivisionOffset(subdivisionIndex, subdivision, bar.swing ?? STRAIGHT_SWING),
+          level: getAccentLevel(accents, beatIndex, subdivisionIndex, 'normal'),
+        });
+      }
+      time += beatDuration;
+    }
+    afterPause = false;
+
+    if (bar.pause) {
+      const duration = getPauseDuration(bar);
+      timeline.push({
+        type: 'pause',
+        index: timeline.length,
+        time,
+        measureIndex,
+        playIndex,
+        beatsInMeasure,
+        tempo: Math.round(getRampTempo(bar, 1)),
+        pause: bar.pause,
+        duration,
+      });
+      time += duration || 0;
+      afterPause = true;
+    }
+  });
+
+  // The show ends one full beat after the last click
+  timeline.push({ type: 'end', index: timeline.length, time });
+  return timeline;
+}
+
+// Whether playback waits at 'event' until it is resumed
+export function isHold(event: TimelineEvent): boolean {
+  return event.type === 'pause' && event.duration === null;
+}
+
+// Event scheduled after 'previous'; scheduling stops at a hold until it is resumed
+export function getNextTimelineEvent(timeline: TimelineEvent[], previous: TimelineEvent): TimelineEvent | null {
+  return isHold(previous) ? null : timeline[previous.index + 1] || null;
+}
+
+/**
+ * Move everything after 'hold' so playback goes on at 'resumeTime', and
+ * return the event to restart scheduling from (null when the hold ends the show).
+ */
+export function resumeTimeline(timeline: TimelineEvent[], hold: TimelineEvent, resumeTime: number): TimelineEvent | null {
+  const offset = resumeTime - hold.time;
+  for (let i = hold.index + 1; i < timeline.length; i++) {
+    timeline[i].time += offset;
+  }
+  return timeline[hold.index + 1] || null;
+}
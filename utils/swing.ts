@@ -0,0 +1,40 @@
+/**
+ * Swing
+ * Swing feel for eighth and sixteenth subdivisions. The swing ratio is the
+ * share of each pair of subdivisions taken by its first note: 50% plays
+ * straight, 66% is triplet swing and 75% a hard (dotted) shuffle.
+ */
+
+export const STRAIGHT_SWING = 50;
+export const TRIPLET_SWING = 66;
+export const MAX_SWING = 75;
+
+export const SWING_PRESETS: { value: number; label: string }[] = [
+  { value: STRAIGHT_SWING, label: 'Straight' },
+  { value: TRIPLET_SWING, label: 'Triplet' },
+  { value: MAX_SWING, label: 'Shuffle' },
+];
+
+// Only eighths and sixteenths come in pairs that can be swung
+export function canSwing(subdivision: number): boolean {
+  return subdivision === 2 || subdivision === 4;
+}
+
+// Whole percent between straight and the hardest shuffle
+export function normalizeSwing(swing?: number | null): number {
+  const percent = Math.round(Number(swing));
+  return Number.isFinite(percent) ? Math.min(Math.max(percent, STRAIGHT_SWING), MAX_SWING) : STRAIGHT_SWING;
+}
+
+/**
+ * Where a subdivision click falls, as a fraction of its beat. Every second
+ * click of a pair is pushed back to the swing ratio; subdivisions that cannot
+ * swing stay evenly spaced.
+ */
+export function getSubdivisionOffset(subdivisionIndex: number, subdivision: number, swing: number): number {
+  if (!canSwing(subdivision)) return subdivisionIndex / subdivision;
+  const pairLength = 2 / subdivision;
+  const pair = Math.floor(subdivisionIndex / 2);
+  const offBeat = subdivisionIndex % 2 === 1 ? normalizeSwing(swing) / 100 : 0;
+  return (pair + offBeat) * pairLength;
+}
@@ -0,0 +1,65 @@
+/**
+ * Tempo Curve
+ * Gradual tempo changes (accelerando / ritardando) across a measure entry.
+ * The tempo moves from the entry's tempo to endTempo over all of its beats,
+ * and beat durations are integrated from the curve so every beat lands
+ * exactly where the curve puts it.
+ */
+
+export type TempoCurveShape = 'linear' | 'exponential';
+
+export interface TempoChange {
+  endTempo: number;
+  curve: TempoCurveShape;
+}
+
+interface RampMeasure {
+  tempo: number;
+  tempoChange?: TempoChange;
+}
+
+// Tempos derived from a curve are stored with this many decimals
+const TEMPO_PRECISION = 1000;
+
+export function roundTempo(tempo: number): number {
+  return Math.round(tempo * TEMPO_PRECISION) / TEMPO_PRECISION;
+}
+
+// Tempo after 'fraction' (0..1) of the measure's beats
+export function getRampTempo(measure: RampMeasure, fraction: number): number {
+  const change = measure.tempoChange;
+  if (!change) return measure.tempo;
+  if (change.curve === 'exponential') {
+    return measure.tempo * Math.pow(change.endTempo / measure.tempo, fraction);
+  }
+  return measure.tempo + (change.endTempo - measure.tempo) * fraction;
+}
+
+/**
+ * Duration in seconds of beat 'beatIndex' of a single bar whose tempo follows
+ * its curve over 'beatsInBar' beats. 'beatScale' converts quarter notes to
+ * the beat unit (4 / denominator).
+ */
+export function getRampBeatDuration(
+  measure: RampMeasure,
+  beatIndex: number,
+  beatsInBar: number,
+  beatScale: number
+): number {
+  const startTempo = getRampTempo(measure, beatIndex / beatsInBar);
+  const change = measure.tempoChange;
+  if (!change || change.endTempo === measure.tempo) {
+    return (60 / startTempo) * beatScale;
+  }
+
+  if (change.curve === 'exponential') {
+    // T(x) = T0 * r^x per beat: integral of 60 / T(x) over one beat
+    const logRatio = Math.log(change.endTempo / measure.tempo) / beatsInBar;
+    return (60 / startTempo) * ((1 - Math.exp(-logRatio)) / logRatio) * beatScale;
+  }
+
+  // T(x) = T0 + k * x per beat: integral of 60 / T(x) over one beat
+  const slope = (change.endTempo - measure.tempo) / beatsInBar;
+  const endTempo = startTempo + slope;
+  return (60 / slope) * Math.log(endTempo / startTempo) * beatScale;
+}
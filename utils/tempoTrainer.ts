@@ -0,0 +1,182 @@
+/**
+ * Tempo Trainer
+ * Automatic tempo ramps for the metronome: from a start BPM the tempo moves
+ * one step towards the target every few bars or seconds. With a drop-back set,
+ * reaching the target falls back that many BPM and climbs again, round after
+ * round, until the metronome is stopped.
+ */
+
+export type TrainerIntervalUnit = 'bars' | 'seconds';
+
+export interface TempoTrainerSettings {
+  enabled: boolean;
+  startBpm: number;
+  targetBpm: number; // may be below the start to slow down
+  step: number; // BPM per step, always positive
+  interval: number; // bars or seconds between steps, see 'intervalUnit'
+  intervalUnit: TrainerIntervalUnit;
+  dropBack: number; // BPM to fall back after reaching the target, 0 stops there
+}
+
+export const MIN_TRAINER_BPM = 40;
+export const MAX_TRAINER_BPM = 240;
+
+export const DEFAULT_TEMPO_TRAINER: TempoTrainerSettings = {
+  enabled: false,
+  startBpm: 80,
+  targetBpm: 120,
+  step: 4,
+  interval: 4,
+  intervalUnit: 'bars',
+  dropBack: 0,
+};
+
+export const TRAINER_INTERVAL_UNITS: { value: TrainerIntervalUnit; label: string }[] = [
+  { value: 'bars', label: 'Bars' },
+  { value: 'seconds', label: 'Seconds' },
+];
+
+const clampBpm = (bpm: number) => Math.min(Math.max(Math.round(bpm), MIN_TRAINER_BPM), MAX_TRAINER_BPM);
+
+// Fill in and clamp fields so stored settings keep working
+export function normalizeTempoTrainer(settings?: Partial<TempoTrainerSettings> | null): TempoTrainerSettings {
+  const merged = { ...DEFAULT_TEMPO_TRAINER, ...(settings || {}) };
+  const positive = (value: number, fallback: number) => {
+    const rounded = Math.round(Number(value));
+    return Number.isFinite(rounded) && rounded >= 1 ? rounded : fallback;
+  };
+  const dropBack = Math.round(Number(merged.dropBack));
+  return {
+    ...merged,
+    startBpm: Number.isFinite(Number(merged.startBpm)) ? clampBpm(Number(merged.startBpm)) : DEFAULT_TEMPO_TRAINER.startBpm,
+    targetBpm: Number.isFinite(Number(merged.targetBpm)) ? clampBpm(Number(merged.targetBpm)) : DEFAULT_TEMPO_TRAINER.targetBpm,
+    step: positive(merged.step, DEFAULT_TEMPO_TRAINER.step),
+    interval: positive(merged.interval, DEFAULT_TEMPO_TRAINER.interval),
+    intervalUnit: merged.intervalUnit === 'seconds' ? 'seconds' : 'bars',
+    dropBack: Number.isFinite(dropBack) && dropBack > 0 ? dropBack : 0,
+  };
+}
+
+// Steps from the start BPM to the target
+export function getStepsToTarget(settings: TempoTrainerSettings): number {
+  return Math.ceil(Math.abs(settings.targetBpm - settings.startBpm) / settings.step);
+}
+
+/**
+ * Tempo after 'steps' intervals. The climb stops at the target; with a
+ * drop-back, each later interval falls back below the target (never past
+ * the start) and then climbs to it again.
+ */
+export function getTrainerTempo(settings: TempoTrainerSettings, steps: number): number {
+  const { startBpm, targetBpm, step, dropBack } = settings;
+  const direction = targetBpm >= startBpm ? 1 : -1;
+  const toTarget = getStepsToTarget(settings);
+
+  if (steps <= toTarget || dropBack <= 0) {
+    const tempo = startBpm + direction * step * Math.min(steps, toTarget);
+    return direction > 0 ? Math.min(tempo, targetBpm) : Math.max(tempo, targetBpm);
+  }
+
+  // Rounds of one drop followed by the climb back to the target
+  const fallback = Math.min(dropBack, Math.abs(targetBpm - startBpm));
+  const bottom = targetBpm - direction * fallback;
+  const roundLength = Math.ceil(fallback / step) + 1;
+  const phase = (steps - toTarget - 1) % roundLength;
+  const tempo = bottom + direction * step * phase;
+  return direction > 0 ? Math.min(tempo, targetBpm) : Math.max(tempo, targetBpm);
+}
+
+// Steps already climbed at 'bpm', so a stopped session resumes where it left off;
+// 0 when the tempo is outside the start-to-target range
+export function getTrainerStepsAt(settings: TempoTrainerSettings, bpm: number): number {
+  const low = Math.min(settings.startBpm, settings.targetBpm);
+  const high = Math.max(settings.startBpm, settings.targetBpm);
+  if (bpm < low || bpm > high) return 0;
+  return Math.min(Math.floor(Math.abs(bpm - settings.startBpm) / settings.step), getStepsToTarget(settings));
+}
+
+// Share of the way from the start BPM to the target, 0 to 1
+export function getTrainerProgress(settings: TempoTrainerSettings, bpm: number): number {
+  const span = settings.targetBpm - settings.startBpm;
+  if (span === 0) return 1;
+  return Math.min(Math.max((bpm - settings.startBpm) / span, 0), 1);
+}
+
+// A trainer without drop-back is done once it holds the target
+export function isTrainerFinished(settings: TempoTrainerSettings, steps: number): boolean {
+  return settings.dropBack <= 0 && steps >= getStepsToTarget(settings);
+}
+
+export interface TrainerSessionOptions {
+  onStepsChange: (steps: number | null) => void; // null once the session stops
+  onTempoChange: (bpm: number) => void; // the trainer moved the tempo
+}
+
+export interface TrainerSession {
+  start: (settings: TempoTrainerSettings, bpm: number) => void; // picks up from the tempo playing now
+  stop: () => void;
+  step: () => void; // one timed step
+  handleBar: (bar: number) => void; // bar number reported by the running metronome
+  restart: () => void; // back to the start tempo without stopping
+}
+
+/**
+ * One run of the trainer, from start to stop. The steps are worked out from
+ * the tempo when the run starts, so no tempo left over from an earlier run is
+ * ever sent.
+ */
+export function createTrainerSession(options: TrainerSessionOptions): TrainerSession {
+  let settings: TempoTrainerSettings | null = null; // null while stopped
+  let steps = 0;
+  let tempo = 0;
+  let firstBar: number | null = null;
+  let lastBar: number | null = null;
+
+  const setSteps = (next: number) => {
+    if (!settings) return;
+    steps = next;
+    options.onStepsChange(steps);
+    const nextTempo = getTrainerTempo(settings, steps);
+    if (nextTempo !== tempo) {
+      tempo = nextTempo;
+      options.onTempoChange(tempo);
+    }
+  };
+
+  return {
+    start: (newSettings: TempoTrainerSettings, bpm: number) => {
+      settings = newSettings;
+      tempo = bpm;
+      firstBar = null;
+      lastBar = null;
+      setSteps(getTrainerStepsAt(newSettings, bpm));
+    },
+
+    stop: () => {
+      settings = null;
+      options.onStepsChange(null);
+    },
+
+    step: () => setSteps(steps + 1),
+
+    // Count bars from the first one heard since the start
+    handleBar: (bar: number) => {
+      if (!settings || bar === lastBar) return;
+      lastBar = bar;
+      if (firstBar === null) {
+        firstBar = bar;
+        return;
+      }
+      const completedBars = bar - firstBar;
+      if (completedBars > 0 && completedBars % settings.interval === 0) {
+        setSteps(steps + 1);
+      }
+    },
+
+    restart: () => {
+      firstBar = null;
+      lastBar = null;
+      setSteps(0);
+    },
+  };
+}
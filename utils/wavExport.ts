@@ -0,0 +1,67 @@
+/**
+ * WAV Export
+ * Click tracks of whole shows, rendered offline from the playback timeline
+ * and encoded as mono 16-bit PCM WAV files that load into any DAW.
+ */
+
+import { getBeatScale, TimeSignature } from './meterGrouping';
+import { getRampBeatDuration, TempoChange } from './tempoCurve';
+
+export const WAV_SAMPLE_RATE = 44100;
+export const EXPORT_TAIL_SECONDS = 1; // lets the last click ring out
+export const HOLD_EXPORT_BEATS = 4; // holds wait for a cue live; the track waits this many beats
+
+const WAV_HEADER_BYTES = 44;
+
+interface HoldBar {
+  timeSignature: TimeSignature;
+  tempo: number;
+  tempoChange?: TempoChange;
+}
+
+// Seconds an exported WAV or MIDI file waits at a hold after 'bar':
+// HOLD_EXPORT_BEATS of the bar's final beat, in its beat unit
+export function getHoldExportDuration(bar: HoldBar): number {
+  const beatsInBar = bar.timeSignature.numerator;
+  return HOLD_EXPORT_BEATS * getRampBeatDuration(bar, beatsInBar - 1, beatsInBar, getBeatScale(bar.timeSignature));
+}
+
+// Mono samples between -1 and 1 as a 16-bit PCM WAV file
+export function encodeWav(samples: Float32Array, sampleRate: number = WAV_SAMPLE_RATE): Uint8Array {
+  const bytes = new Uint8Array(WAV_HEADER_BYTES + samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeText(0, 'RIFF');
+  view.setUint32(4, bytes.length - 8, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // bytes per second
+  view.setUint16(32, 2, true); // bytes per frame
+  view.setUint16(34, 16, true); // bits per sample
+  writeText(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(WAV_HEADER_BYTES + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return bytes;
+}
+
+// Mono samples as a base64 WAV file, for pages sending the file over the bridge
+export function encodeWavBase64(samples: Float32Array, sampleRate: number = WAV_SAMPLE_RATE): string {
+  const bytes = encodeWav(samples, sampleRate);
+  // btoa takes a binary string; build it in chunks to stay within argument limits
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
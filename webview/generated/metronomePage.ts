@@ -0,0 +1,9 @@
+// Generated by scripts/bundle-webviews.js from webview/metronome - do not edit.
+// Run `npm run bundle-webviews` after changing the page.
+import { WebViewPageBundle } from '../pageHtml';
+
+export const metronomePage: WebViewPageBundle = {
+  css: ":root {\n    --white: #ffffff;\n    --dark-gray: #202127;\n    --medium-gray: #23242A;\n    --light-gray: #333;\n}\nhtml {\n    height: 100%;\n    overflow: hidden;\n}\n\n* {\n    margin: 0;\n    padding: 0;\n    box-sizing: border-box;\n}\n\nbody {\n    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;\n    background-color: var(--background);\n    color: var(--text);\n    display: flex;\n    flex-direction: column;\n    align-items: center;\n    justify-content: center;\n    min-height: 100vh;\n    padding: 20px;\n    -webkit-touch-callout: none;\n    -webkit-user-select: none;\n    -khtml-user-select: none;\n    -moz-user-select: none;\n    -ms-user-select: none;\n    user-select: none;\n    -webkit-tap-highlight-color: transparent;\n    overflow: hidden;\n    position: fixed;\n    top: 0;\n    left: 0;\n    width: 100%;\n    height: 100%;\n}\n\n.container {\n    text-align: center;\n    width: 100%;\n    max-width: 400px;\n    display: flex;\n    flex-direction: column;\n    align-items: center;\n    justify-content: center;\n}\n\n.tempo-display {\n    font-size: 48px;\n    font-weight: bold;\n    margin-bottom: 20px;\n    color: var(--text);\n    cursor: pointer;\n}\n\n.tempo-bar {\n    display: flex;\n    gap: 4px;\n    width: 100%;\n    margin-bottom: 10px;\n}\n\n.tempo-beat {\n    flex: 1;\n    display: flex;\n    flex-direction: column;\n    gap: 3px;\n}\n\n.tempo-beat.group-start {\n    margin-left: 8px;\n}\n\n.tempo-segment {\n    height: 14px;\n    background: var(--surface);\n    border-radius: 6px;\n    cursor: pointer;\n    transition: background-color 0.1s ease;\n}\n\n.tempo-segment.active {\n    background: var(--accent);\n}\n\n.tempo-subdivisions {\n    display: flex;\n    gap: 2px;\n}\n\n.tempo-subsegment {\n    flex: 1;\n    height: 6px;\n    background: var(--surface);\n    border-radius: 3px;\n    cursor: pointer;\n}\n\n/* Accent levels: tap a segment to cycle accent, normal, ghost and mute */\n.level-accent {\n    box-shadow: inset 0 0 0 2px var(--accent);\n}\n\n.level-ghost {\n    opacity: 0.5;\n}\n\n.level-mute {\n    opacity: 0.15;\n}\n\n/* Gap trainer: the bar keeps counting through silence, outlined instead of lit */\n.tempo-bar.muted-beat .tempo-segment.active {\n    background: var(--surface);\n    box-shadow: inset 0 0 0 2px var(--accent);\n}\n\n.tempo-slider-container {\n    width: 100%;\n    margin: 20px 0;\n}\n\n.slider-row {\n    display: flex;\n    align-items: center;\n    gap: 10px;\n    margin-bottom: 10px;\n}\n\n.slider {\n    flex: 1;\n    height: 40px;\n    -webkit-appearance: none;\n    appearance: none;\n    background: #2a2a2a;\n    outline: none;\n    border-radius: 20px;\n    padding: 0 10px;\n}\n\n.slider::-webkit-slider-thumb {\n    -webkit-appearance: none;\n    appearance: none;\n    width: 20px;\n    height: 20px;\n    border-radius: 50%;\n    background: var(--accent);\n    cursor: pointer;\n}\n\n.slider::-moz-range-thumb {\n    width: 20px;\n    height: 20px;\n    border-radius: 50%;\n    background: var(--accent);\n    cursor: pointer;\n    border: none;\n}\n\n.tempo-controls {\n    display: flex;\n    align-items: center;\n    gap: 10px;\n}\n\n.tempo-btn {\n    width: 40px;\n    height: 40px;\n    border-radius: 50%;\n    background: var(--surface);\n    border: none;\n    color: var(--text);\n    font-size: 18px;\n    cursor: pointer;\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    -webkit-tap-highlight-color: transparent;\n    -webkit-touch-callout: none;\n    -webkit-user-select: none;\n    user-select: none;\n}\n\n.tempo-btn:hover {\n    background: var(--accent);\n}\n\n.tempo-btn:disabled {\n    opacity: 0.5;\n    cursor: not-allowed;\n}\n\n.play-button {\n    width: 120px;\n    height: 120px;\n    border-radius: 50%;\n    background: var(--accent) !important;\n    border: none;\n    color: white;\n    font-size: 48px;\n    cursor: pointer;\n    transition: all 0.2s ease;\n    margin: 30px 0;\n    -webkit-tap-highlight-color: transparent;\n    -webkit-touch-callout: none;\n    -webkit-user-select: none;\n    user-select: none;\n    display: flex;\n    align-items: center;\n    justify-content: center;\n}\n\n.play-button:hover {\n    background: var(--accent);\n    transform: scale(1.05);\n}\n\n.play-button.playing {\n    background: var(--orange);\n}\n\n.play-button.playing:hover {\n    background: #e6951f;\n}\n\n.play-icon {\n    width: 0;\n    height: 0;\n    border-style: solid;\n    border-width: 12px 0 12px 20px;\n    border-color: transparent transparent transparent #ffffff;\n    margin-left: 4px;\n}\n\n.stop-icon {\n    width: 16px;\n    height: 16px;\n    background-color: #ffffff;\n    border-radius: 2px;\n}\n\n.tap-bpm-btn {\n    position: absolute;\n    top: 8vh;\n    left: 20px;\n    width: 80px;\n    height: 80px;\n    border-radius: 50%;\n    background: var(--surface);\n    border: 2px solid var(--icon);\n    color: var(--text);\n    font-size: 24px;\n    cursor: pointer;\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    transition: all 0.2s ease;\n    -webkit-tap-highlight-color: transparent;\n    -webkit-touch-callout: none;\n    -webkit-user-select: none;\n    user-select: none;\n}\n\n\n\n.tap-bpm-btn:hover {\n    border-color: var(--accent);\n    background: rgba(var(--accent-rgb), 0.2);\n}\n\n.tap-bpm-btn.active {\n    border-color: var(--accent);\n    background: rgba(var(--accent-rgb), 0.2);\n}\n\n.tap-bpm-btn::before {\n    content: \"\";\n    width: 24px;\n    height: 24px;\n    background-image: url(\"data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='none' stroke='%23ffffff' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'%3E%3Cpath d='M9 11l3 3l8-8'/%3E%3Cpath d='M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11'/%3E%3C/svg%3E\");\n    background-size: contain;\n    background-repeat: no-repeat;\n    background-position: center;\n    display: inline-block;\n}\n\n.subdivision-btn {\n    position: absolute;\n    top: 8vh;\n    right: 20px;\n    width: 80px;\n    height: 80px;\n    border-radius: 50%;\n    background: var(--surface);\n    border: 2px solid var(--icon);\n    color: var(--text);\n    font-size: 24px;\n    cursor: pointer;\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    transition: all 0.2s ease;\n    -webkit-tap-highlight-color: transparent;\n    -webkit-touch-callout: none;\n    -webkit-user-select: none;\n    user-select: none;\n}\n\n\n\n.subdivision-btn:hover {\n    border-color: var(--accent);\n    background: rgba(var(--accent-rgb), 0.2);\n}\n\n.button-label {\n    position: absolute;\n    font-size: 12px;\n    color: var(--icon);\n    font-weight: 500;\n    text-align: center;\n    white-space: nowrap;\n}\n\n.tap-bpm-label {\n    top: calc(8vh + 90px);\n    left: 20px;\n    width: 80px;\n}\n\n.subdivision-label {\n    top: calc(8vh + 90px);\n    right: 20px;\n    width: 80px;\n}\n\n.subdivision-btn::before {\n    content: \"\";\n    width: 24px;\n    height: 24px;\n    background-image: url(\"data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 24 24' fill='none' stroke='%23ffffff' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'%3E%3Cpath d='M9 18V5l12-2v13'/%3E%3Ccircle cx='6' cy='18' r='3'/%3E%3Ccircle cx='18' cy='16' r='3'/%3E%3C/svg%3E\");\n    background-size: contain;\n    background-repeat: no-repeat;\n    background-position: center;\n    display: inline-block;\n}\n\n.subdivision-grid {\n    display: grid;\n    grid-template-columns: repeat(3, 1fr);\n    gap: 10px;\n    margin: 20px 0;\n}\n\n.subdivision-card {\n    background: var(--surface);\n    border: 1px solid var(--icon);\n    border-radius: 12px;\n    padding: 12px 8px;\n    cursor: pointer;\n    transition: all 0.2s ease;\n    -webkit-tap-highlight-color: transparent;\n    -webkit-touch-callout: none;\n    -webkit-user-select: none;\n    user-select: none;\n    text-align: center;\n    display: flex;\n    flex-direction: column;\n    align-items: center;\n    justify-content: center;\n    gap: 6px;\n    min-height: 70px;\n}\n\n.subdivision-card:hover {\n    border-color: var(--accent);\n    background: rgba(var(--accent-rgb), 0.05);\n}\n\n.subdivision-card.selected {\n    border-color: var(--accent);\n    background: rgba(var(--accent-rgb), 0.1);\n}\n\n.subdivision-icon {\n    font-size: 24px;\n    line-height: 1;\n    color: var(--text);\n    transition: color 0.2s ease;\n}\n\n.subdivision-card.selected .subdivision-icon {\n    color: var(--accent);\n}\n\n.subdivision-title {\n    color: var(--text);\n    font-size: 13px;\n    font-weight: 500;\n    margin: 0;\n}\n\n.swing-section {\n    display: none;\n    margin-bottom: 20px;\n}\n\n.swing-label {\n    color: var(--text);\n    font-size: 14px;\n    margin-bottom: 8px;\n}\n\n.swing-presets {\n    display: flex;\n    gap: 8px;\n    margin-top: 8px;\n}\n\n.swing-preset {\n    flex: 1;\n    background: var(--surface);\n    color: var(--text);\n    border: 1px solid var(--icon);\n    border-radius: 8px;\n    padding: 8px 4px;\n    font-size: 13px;\n    cursor: pointer;\n}\n\n.swing-preset.selected {\n    border-color: var(--accent);\n    color: var(--accent);\n}\n\n.modal {\n    display: none;\n    position: fixed;\n    top: 0;\n    left: 0;\n    width: 100%;\n    height: 100%;\n    background: rgba(0,0,0,0.6);\n    z-index: 1000;\n    align-items: center;\n    justify-content: center;\n}\n\n.modal-content {\n    background: var(--surface);\n    border-radius: 16px;\n    padding: 32px;\n    width: 360px;\n    max-width: 90vw;\n    text-align: center;\n}\n\n.modal-title {\n    color: var(--text);\n    font-size: 24px;\n    font-weight: bold;\n    margin-bottom: 12px;\n}\n\n.modal-input {\n    background: var(--background);\n    color: var(--text);\n    border-radius: 8px;\n    padding: 12px;\n    font-size: 28px;\n    width: 120px;\n    text-align: center;\n    border: 1px solid var(--icon);\n    margin-bottom: 12px;\n}\n\n.modal-buttons {\n    display: flex;\n    gap: 16px;\n    justify-content: center;\n}\n\n.modal-btn {\n    border-radius: 8px;\n    padding: 10px 24px;\n    font-weight: bold;\n    font-size: 18px;\n    cursor: pointer;\n    border: none;\n    -webkit-tap-highlight-color: transparent;\n    -webkit-touch-callout: none;\n    -webkit-user-select: none;\n    user-select: none;\n}\n\n.modal-btn.cancel {\n    background: var(--icon);\n    color: var(--text);\n}\n\n.modal-btn.save {\n    background: var(--accent);\n    color: var(--text);\n}\n\n.modal-btn.save:disabled {\n    background: #888;\n    cursor: not-allowed;\n}\n\n/* Settings Button */\n.settings-button {\n    position: fixed;\n    bottom: 15vh;\n    right: 20px;\n    width: 56px;\n    height: 56px;\n    background-color: var(--surface);\n    border-radius: 28px;\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);\n    cursor: pointer;\n    z-index: 1000;\n    transition: all 0.2s ease;\n    border: 1px solid var(--light-gray);\n}\n\n.settings-button:hover {\n    background-color: var(--medium-gray);\n    transform: scale(1.05);\n}\n\n.settings-button:active {\n    transform: scale(0.95);\n}\n\n.settings-icon {\n    width: 24px;\n    height: 24px;\n    fill: var(--text);\n    opacity: 0.8;\n}\n\n/* Troubleshooting Modal */\n.troubleshooting-modal {\n    display: none;\n    position: fixed;\n    top: 10vh;\n    left: 50%;\n    transform: translateX(-50%);\n    background: var(--surface);\n    border-radius: 16px;\n    padding: 24px;\n    max-width: 90vw;\n    width: 320px;\n    z-index: 2000;\n    box-shadow: 0 8px 32px rgba(0, 0, 0, 0.3);\n    border: 1px solid var(--accent);\n    flex-direction: column;\n    align-items: center;\n}\n\n.troubleshooting-title {\n    color: var(--text);\n    font-size: 20px;\n    font-weight: bold;\n    margin-bottom: 16px;\n    text-align: center;\n    width: 100%;\n}\n\n.troubleshooting-description {\n    color: var(--text);\n    font-size: 14px;\n    margin-bottom: 24px;\n    text-align: center;\n    opacity: 0.8;\n    line-height: 1.4;\n    width: 100%;\n}\n\n.troubleshooting-buttons {\n    display: flex;\n    gap: 12px;\n    justify-content: center;\n    width: 100%;\n}\n\n.troubleshooting-btn {\n    border-radius: 8px;\n    padding: 12px 24px;\n    font-weight: 500;\n    font-size: 14px;\n    cursor: pointer;\n    border: none;\n    -webkit-tap-highlight-color: transparent;\n    -webkit-touch-callout: none;\n    -webkit-user-select: none;\n    user-select: none;\n    transition: all 0.2s ease;\n    flex: 1;\n    max-width: 120px;\n}\n\n.troubleshooting-btn.dismiss {\n    background: var(--light-gray);\n    color: var(--text);\n}\n\n.troubleshooting-btn.reset {\n    background: var(--accent);\n    color: white;\n}\n\n.troubleshooting-btn:hover {\n    opacity: 0.8;\n}\n",
+  body: "<div class=\"container\">\n    <!-- Tap BPM Button -->\n    <button class=\"tap-bpm-btn\" id=\"tapBpmBtn\" title=\"Tap BPM\"></button>\n    <div class=\"button-label tap-bpm-label\">Tap BPM</div>\n    \n    <!-- Subdivision Button -->\n    <button class=\"subdivision-btn\" id=\"subdivisionBtn\" title=\"Subdivision\"></button>\n    <div class=\"button-label subdivision-label\">Subdivision</div>\n    \n    <!-- Tempo Display -->\n    <div class=\"tempo-display\" id=\"tempoDisplay\">120 BPM</div>\n    \n    <!-- Tempo Bar -->\n    <div class=\"tempo-bar\" id=\"tempoBar\"></div>\n    \n    <!-- Tempo Slider -->\n    <div class=\"tempo-slider-container\">\n        <div class=\"slider-row\">\n            <button class=\"tempo-btn\" id=\"minusBtn\">−</button>\n            <input type=\"range\" class=\"slider\" id=\"tempoSlider\" min=\"40\" max=\"240\" value=\"120\" step=\"1\">\n            <button class=\"tempo-btn\" id=\"plusBtn\">+</button>\n        </div>\n    </div>\n    \n    <!-- Play Button -->\n    <button class=\"play-button\" id=\"playButton\">\n        <div class=\"play-icon\"></div>\n    </button>\n</div>\n\n<!-- BPM Edit Modal -->\n<div class=\"modal\" id=\"bpmModal\">\n    <div class=\"modal-content\">\n        <div class=\"modal-title\">Edit BPM</div>\n        <input type=\"text\" class=\"modal-input\" id=\"bpmInput\" value=\"120\" inputmode=\"numeric\" pattern=\"[0-9]*\">\n        <div class=\"modal-buttons\">\n            <button class=\"modal-btn cancel\" id=\"cancelBtn\">Cancel</button>\n            <button class=\"modal-btn save\" id=\"saveBtn\">Save</button>\n        </div>\n    </div>\n</div>\n\n<!-- Subdivision Modal -->\n<div class=\"modal\" id=\"subdivisionModal\">\n    <div class=\"modal-content\">\n        <div class=\"modal-title\">Choose Subdivision</div>\n        <div class=\"subdivision-grid\">\n            <div class=\"subdivision-card\" data-subdivision=\"1\">\n                <div class=\"subdivision-icon\">♪</div>\n                <div class=\"subdivision-title\">None</div>\n            </div>\n            <div class=\"subdivision-card\" data-subdivision=\"2\">\n                <div class=\"subdivision-icon\">♫</div>\n                <div class=\"subdivision-title\">Eighth</div>\n            </div>\n            <div class=\"subdivision-card\" data-subdivision=\"3\">\n                <div class=\"subdivision-icon\">♫♪</div>\n                <div class=\"subdivision-title\">Triplet</div>\n            </div>\n            <div class=\"subdivision-card\" data-subdivision=\"4\">\n                <div class=\"subdivision-icon\">♫♫</div>\n                <div class=\"subdivision-title\">Sixteenth</div>\n            </div>\n            <div class=\"subdivision-card\" data-subdivision=\"5\">\n                <div class=\"subdivision-icon\">♫♫♪</div>\n                <div class=\"subdivision-title\">Quintuplet</div>\n            </div>\n            <div class=\"subdivision-card\" data-subdivision=\"6\">\n                <div class=\"subdivision-icon\">♫♫♫</div>\n                <div class=\"subdivision-title\">Sixtuplet</div>\n            </div>\n        </div>\n        <!-- Swing, for eighths and sixteenths -->\n        <div class=\"swing-section\" id=\"swingSection\">\n            <div class=\"swing-label\" id=\"swingLabel\">Swing 50%</div>\n            <div class=\"slider-row\">\n                <input type=\"range\" class=\"slider\" id=\"swingSlider\" step=\"1\">\n            </div>\n            <div class=\"swing-presets\" id=\"swingPresets\"></div>\n        </div>\n        <div class=\"modal-buttons\">\n            <button class=\"modal-btn cancel\" id=\"subdivisionCancelBtn\">Close</button>\n        </div>\n    </div>\n</div>\n\n<!-- Troubleshooting Modal -->\n<div class=\"troubleshooting-modal\" id=\"troubleshootingModal\">\n    <div class=\"troubleshooting-title\">Sound not working?</div>\n    <div class=\"troubleshooting-description\">\n        If you're not hearing any sound, try resetting the app. This will refresh the audio system.\n    </div>\n    <div class=\"troubleshooting-buttons\">\n        <button class=\"troubleshooting-btn dismiss\" id=\"dismissTroubleshootingBtn\">Dismiss</button>\n        <button class=\"troubleshooting-btn reset\" id=\"resetWebViewBtn\">Reset App</button>\n    </div>\n</div>\n\n<!-- Settings Button -->\n<div class=\"settings-button\" id=\"settingsButton\">\n    <svg class=\"settings-icon\" viewBox=\"0 0 24 24\">\n        <path d=\"M12,15.5A3.5,3.5 0 0,1 8.5,12A3.5,3.5 0 0,1 12,8.5A3.5,3.5 0 0,1 15.5,12A3.5,3.5 0 0,1 12,15.5M19.43,12.97C19.47,12.65 19.5,12.33 19.5,12C19.5,11.67 19.47,11.34 19.43,11L21.54,9.37C21.73,9.22 21.78,8.95 21.66,8.73L19.66,5.27C19.54,5.05 19.27,4.96 19.05,5.05L16.56,6.05C16.04,5.66 15.5,5.32 14.87,5.07L14.5,2.42C14.46,2.18 14.25,2 14,2H10C9.75,2 9.54,2.18 9.5,2.42L9.13,5.07C8.5,5.32 7.96,5.66 7.44,6.05L4.95,5.05C4.73,4.96 4.46,5.05 4.34,5.27L2.34,8.73C2.22,8.95 2.27,9.22 2.46,9.37L4.57,11C4.53,11.34 4.5,11.67 4.5,12C4.5,12.33 4.53,12.65 4.57,12.97L2.46,14.63C2.27,14.78 2.22,15.05 2.34,15.27L4.34,18.73C4.46,18.95 4.73,19.03 4.95,18.95L7.44,17.94C7.96,18.34 8.5,18.68 9.13,18.93L9.5,21.58C9.54,21.82 9.75,22 10,22H14C14.25,22 14.46,21.82 14.5,21.58L14.87,18.93C15.5,18.68 16.04,18.34 16.56,17.94L19.05,18.95C19.27,19.03 19.54,18.95 19.66,18.73L21.66,15.27C21.78,15.05 21.73,14.78 21.54,14.63L19.43,12.97Z\"/>\n    </svg>\n</div>\n",
+  script: "(function () {\nvar definitions = {\n  \"webview/metronome/page.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Metronome page\n * The metronome UI inside WebViewMetronome: tempo controls, tap tempo, the\n * tempo bar with its accent levels, subdivisions and swing. The page plays\n * nothing itself: it asks the app to start and stop the SoundSystem\n * metronome, and the app sends the beats back as metronomeViewMessage\n * messages along with its settings.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nconst bridge_1 = require(\"webview/shared/bridge.ts\");\nconst dom_1 = require(\"webview/shared/dom.ts\");\nconst theme_1 = require(\"webview/shared/theme.ts\");\nconst clickStream_1 = require(\"webview/soundSystem/clickStream.ts\");\nconst accentPattern_1 = require(\"utils/accentPattern.ts\");\nconst meterGrouping_1 = require(\"utils/meterGrouping.ts\");\nconst swing_1 = require(\"utils/swing.ts\");\nconst bridge = (0, bridge_1.createPageBridge)('metronomeViewResponse', 'metronomeViewMessage');\nlet isPlaying = false; // Whether the SoundSystem metronome is running\nlet tempoBarActiveBeat = 0; // Beat highlighted in the tempo bar, 1-based\nlet tapTimes = [];\nlet isTapBpmActive = false;\nlet tapBpmTimeout = null;\n// Settings shown on the page; the app keeps the SoundSystem in step\nlet tempo = 120;\nlet subdivision = 1;\nlet pendingSubdivision = null; // New subdivision, shown from the next beat\nlet swing = swing_1.STRAIGHT_SWING;\nconst bar = {\n    meter: { numerator: 4, denominator: 4 },\n    accentPattern: null,\n};\n// Rapid tap detection for troubleshooting\nlet playButtonTaps = [];\nconst rapidTapThreshold = 6; // Number of taps\nconst rapidTapTimeWindow = 1500; // Time window in milliseconds\nfunction showPlayIcon() {\n    const playButton = (0, dom_1.byId)('playButton');\n    playButton.classList.remove('playing');\n    playButton.innerHTML = '<div class=\"play-icon\"></div>';\n}\nfunction showStopIcon() {\n    const playButton = (0, dom_1.byId)('playButton');\n    playButton.innerHTML = '<div class=\"stop-icon\"></div>';\n    playButton.classList.add('playing');\n}\n// Rapid tap detection for troubleshooting\nfunction detectRapidTaps() {\n    const now = Date.now();\n    playButtonTaps.push(now);\n    // Remove taps older than the time window\n    playButtonTaps = playButtonTaps.filter(tapTime => now - tapTime <= rapidTapTimeWindow);\n    // Check if we've hit the threshold\n    if (playButtonTaps.length >= rapidTapThreshold) {\n        console.log('Rapid tapping detected - showing troubleshooting modal');\n        showTroubleshootingModal();\n        playButtonTaps = []; // Reset the tap counter\n    }\n}\nfunction showTroubleshootingModal() {\n    (0, dom_1.byId)('troubleshootingModal').style.display = 'flex';\n    resetTroubleshootingTimer();\n}\nfunction hideTroubleshootingModal() {\n    (0, dom_1.byId)('troubleshootingModal').style.display = 'none';\n}\n// Reset WebView (equivalent to closing and reopening app)\nfunction resetWebView() {\n    bridge.postToApp('RESET_WEBVIEW', {});\n    hideTroubleshootingModal();\n}\n// Timer for auto-hiding modal\nlet troubleshootingTimer = null;\nfunction resetTroubleshootingTimer() {\n    if (troubleshootingTimer) {\n        clearTimeout(troubleshootingTimer);\n    }\n    troubleshootingTimer = setTimeout(() => {\n        hideTroubleshootingModal();\n    }, 10000); // 10 seconds\n}\n// Move one click to its next level and tell the app about the new pattern\nfunction cycleClickLevel(beatIndex, subdivisionIndex) {\n    // Start from the levels as heard, so the page's defaults carry over\n    const current = {\n        beats: Array.from({ length: bar.meter.numerator }, (_, beat) => (0, clickStream_1.getClickLevel)(bar, beat, 0)),\n        subdivisions: bar.accentPattern ? bar.accentPattern.subdivisions : undefined,\n    };\n    const level = (0, accentPattern_1.cycleAccentLevel)((0, clickStream_1.getClickLevel)(bar, beatIndex, subdivisionIndex));\n    bar.accentPattern = (0, accentPattern_1.setAccentLevel)(current, bar.meter, beatIndex, subdivisionIndex, level);\n    updateTempoBar(tempoBarActiveBeat);\n    bridge.postToApp('ACCENTS_CHANGE', {\n        accents: bar.accentPattern,\n    });\n}\n// Subdivision heard from the next beat on\nfunction getActiveSubdivision() {\n    return pendingSubdivision !== null ? pendingSubdivision : subdivision;\n}\n// Tempo bar with one segment per beat of the bar, groups set apart, and\n// a row of subdivision clicks under each beat. Segments show their accent\n// level and cycle it when tapped. 'activeBeat' is 1-based; 0 clears the highlight.\nfunction updateTempoBar(activeBeat) {\n    const tempoBar = (0, dom_1.byId)('tempoBar');\n    tempoBarActiveBeat = activeBeat;\n    const meter = bar.meter;\n    const activeSubdivision = getActiveSubdivision();\n    const layout = [(0, meterGrouping_1.formatTimeSignature)(meter), activeSubdivision, JSON.stringify(bar.accentPattern)].join('|');\n    if (tempoBar.getAttribute('data-layout') !== layout) {\n        tempoBar.setAttribute('data-layout', layout);\n        tempoBar.innerHTML = '';\n        const groupStarts = (0, meterGrouping_1.getGrouping)(meter) ? (0, meterGrouping_1.getGroupStarts)(meter) : [];\n        for (let i = 0; i < meter.numerator; i++) {\n            const beat = document.createElement('div');\n            beat.className = i > 0 && groupStarts.includes(i) ? 'tempo-beat group-start' : 'tempo-beat';\n            const segment = document.createElement('div');\n            segment.className = 'tempo-segment level-' + (0, clickStream_1.getClickLevel)(bar, i, 0);\n            segment.setAttribute('data-beat', String(i));\n            segment.setAttribute('data-sub', '0');\n            beat.appendChild(segment);\n            if (activeSubdivision > 1) {\n                const row = document.createElement('div');\n                row.className = 'tempo-subdivisions';\n                for (let sub = 1; sub < activeSubdivision; sub++) {\n                    const subSegment = document.createElement('div');\n                    subSegment.className = 'tempo-subsegment level-' + (0, clickStream_1.getClickLevel)(bar, i, sub);\n                    subSegment.setAttribute('data-beat', String(i));\n                    subSegment.setAttribute('data-sub', String(sub));\n                    row.appendChild(subSegment);\n                }\n                beat.appendChild(row);\n            }\n            tempoBar.appendChild(beat);\n        }\n    }\n    tempoBar.querySelectorAll('.tempo-segment').forEach((segment, index) => {\n        segment.classList.toggle('active', index === activeBeat - 1);\n    });\n    if (activeBeat === 0) {\n        tempoBar.classList.remove('muted-beat');\n    }\n}\n// A beat heard from the SoundSystem; silent bars and muted beats of the\n// gap trainer are shown as silent\nfunction showBeat(beatNumber, isSilent) {\n    if (!isPlaying)\n        return;\n    if (pendingSubdivision !== null) {\n        subdivision = pendingSubdivision;\n        pendingSubdivision = null;\n        updateSubdivisionSelection();\n    }\n    updateTempoBar(beatNumber);\n    (0, dom_1.byId)('tempoBar').classList.toggle('muted-beat', isSilent);\n}\n// The SoundSystem metronome started or stopped\nfunction setPlaying(playing) {\n    isPlaying = playing;\n    if (playing) {\n        showStopIcon();\n        return;\n    }\n    // Apply any pending subdivision change when stopping\n    if (pendingSubdivision !== null) {\n        subdivision = pendingSubdivision;\n        pendingSubdivision = null;\n        updateSubdivisionSelection();\n    }\n    showPlayIcon();\n    updateTempoBar(0);\n}\n// Update tempo display\nfunction updateTempoDisplay() {\n    (0, dom_1.byId)('tempoDisplay').textContent = tempo + ' BPM';\n    (0, dom_1.byId)('tempoSlider').value = String(tempo);\n}\n// Update tempo; a running metronome picks it up from the next click\nfunction updateTempo(newTempo) {\n    tempo = newTempo;\n    updateTempoDisplay();\n    bridge.postToApp('TEMPO_CHANGE', { bpm: tempo });\n}\n// Tap BPM functionality\nfunction startTapBpm() {\n    isTapBpmActive = true;\n    tapTimes = [];\n    (0, dom_1.byId)('tapBpmBtn').classList.add('active');\n    // Set timeout to auto-disengage after 5 seconds of inactivity\n    if (tapBpmTimeout) {\n        clearTimeout(tapBpmTimeout);\n    }\n    tapBpmTimeout = setTimeout(() => {\n        stopTapBpm();\n    }, 5000);\n}\nfunction tap() {\n    const now = Date.now();\n    tapTimes.push(now);\n    // Keep only last 8 taps\n    if (tapTimes.length > 8) {\n        tapTimes.shift();\n    }\n    // Only reset timeout if there's been a significant gap (indicating inactivity)\n    // This prevents the timeout from resetting during active tapping\n    if (tapTimes.length >= 2) {\n        const lastInterval = now - tapTimes[tapTimes.length - 2];\n        if (lastInterval > 2000) { // If gap is more than 2 seconds, reset timeout\n            if (tapBpmTimeout) {\n                clearTimeout(tapBpmTimeout);\n            }\n            tapBpmTimeout = setTimeout(() => {\n                stopTapBpm();\n            }, 5000);\n        }\n    }\n    // Calculate BPM if we have at least 2 taps\n    if (tapTimes.length >= 2) {\n        const intervals = [];\n        for (let i = 1; i < tapTimes.length; i++) {\n            intervals.push(tapTimes[i] - tapTimes[i - 1]);\n        }\n        const avgInterval = intervals.reduce((a, b) => a + b) / intervals.length;\n        const newTempo = Math.round(60000 / avgInterval);\n        // Clamp to valid range\n        updateTempo(Math.max(40, Math.min(240, newTempo)));\n    }\n}\nfunction stopTapBpm() {\n    isTapBpmActive = false;\n    tapTimes = [];\n    const button = (0, dom_1.byId)('tapBpmBtn');\n    button.classList.remove('active');\n    // Ensure color reset\n    button.style.borderColor = '';\n    button.style.backgroundColor = '';\n    // Clear timeout\n    if (tapBpmTimeout) {\n        clearTimeout(tapBpmTimeout);\n        tapBpmTimeout = null;\n    }\n}\n// Modal functionality\nfunction showBpmModal() {\n    const bpmInput = (0, dom_1.byId)('bpmInput');\n    bpmInput.value = String(tempo);\n    (0, dom_1.byId)('bpmModal').style.display = 'flex';\n    bpmInput.focus();\n    bpmInput.select();\n}\nfunction hideBpmModal() {\n    (0, dom_1.byId)('bpmModal').style.display = 'none';\n}\nfunction saveBpm() {\n    const inputValue = (0, dom_1.byId)('bpmInput').value;\n    const newTempo = parseInt(inputValue, 10);\n    if (inputValue && !isNaN(newTempo) && newTempo >= 40 && newTempo <= 240) {\n        updateTempo(newTempo);\n        hideBpmModal();\n    }\n}\n// Subdivision modal functions\nfunction showSubdivisionModal() {\n    (0, dom_1.byId)('subdivisionModal').style.display = 'flex';\n    updateSubdivisionSelection();\n}\nfunction hideSubdivisionModal() {\n    (0, dom_1.byId)('subdivisionModal').style.display = 'none';\n}\nfunction updateSubdivisionSelection() {\n    // Select the subdivision that will be active (current or pending)\n    const activeSubdivision = String(getActiveSubdivision());\n    document.querySelectorAll('.subdivision-card').forEach(option => {\n        option.classList.toggle('selected', option.getAttribute('data-subdivision') === activeSubdivision);\n    });\n    updateSwingDisplay();\n}\n// Swing controls only show for subdivisions that can swing\nfunction updateSwingDisplay() {\n    (0, dom_1.byId)('swingSection').style.display = (0, swing_1.canSwing)(getActiveSubdivision()) ? 'block' : 'none';\n    (0, dom_1.byId)('swingSlider').value = String(swing);\n    (0, dom_1.byId)('swingLabel').textContent = swing === swing_1.STRAIGHT_SWING ? `Swing ${swing_1.STRAIGHT_SWING}% (straight)` : 'Swing ' + swing + '%';\n    document.querySelectorAll('.swing-preset').forEach(preset => {\n        preset.classList.toggle('selected', parseInt(preset.getAttribute('data-swing') || '', 10) === swing);\n    });\n}\n// New swing ratio, heard from the next click on\nfunction selectSwing(newSwing) {\n    swing = (0, swing_1.normalizeSwing)(newSwing);\n    updateSwingDisplay();\n    bridge.postToApp('SWING_CHANGE', {\n        swing,\n    });\n}\nfunction selectSubdivision(newSubdivision) {\n    if (isPlaying) {\n        // If metronome is playing, the change is shown from the next beat\n        pendingSubdivision = newSubdivision;\n    }\n    else {\n        // If not playing, apply immediately\n        subdivision = newSubdivision;\n    }\n    bridge.postToApp('SUBDIVISION_CHANGE', { subdivision: newSubdivision });\n    // Don't close the modal - just update the selection\n    updateSubdivisionSelection();\n    updateTempoBar(tempoBarActiveBeat);\n}\n// Swing slider range and presets\nconst swingSlider = (0, dom_1.byId)('swingSlider');\nswingSlider.min = String(swing_1.STRAIGHT_SWING);\nswingSlider.max = String(swing_1.MAX_SWING);\nswingSlider.value = String(swing_1.STRAIGHT_SWING);\n(0, dom_1.byId)('swingPresets').innerHTML = swing_1.SWING_PRESETS\n    .map(preset => `<button class=\"swing-preset\" data-swing=\"${preset.value}\">${preset.label}</button>`)\n    .join('');\n// Event listeners; the play button shows the new state once the app\n// reports the metronome started or stopped\n(0, dom_1.byId)('playButton').addEventListener('click', () => {\n    // Detect rapid tapping for troubleshooting\n    detectRapidTaps();\n    if (isPlaying) {\n        bridge.postToApp('STOP_METRONOME', {});\n    }\n    else {\n        bridge.postToApp('START_METRONOME', { bpm: tempo, subdivision: getActiveSubdivision() });\n    }\n});\n(0, dom_1.byId)('tempoSlider').addEventListener('input', event => {\n    updateTempo(parseInt(event.target.value, 10));\n});\n(0, dom_1.byId)('minusBtn').addEventListener('click', () => {\n    if (tempo > 40) {\n        updateTempo(tempo - 1);\n    }\n});\n(0, dom_1.byId)('plusBtn').addEventListener('click', () => {\n    if (tempo < 240) {\n        updateTempo(tempo + 1);\n    }\n});\n(0, dom_1.byId)('tempoDisplay').addEventListener('click', showBpmModal);\n// Tapping a beat or subdivision segment cycles its accent level\n(0, dom_1.byId)('tempoBar').addEventListener('click', event => {\n    const segment = (0, dom_1.closestTo)(event.target, '[data-sub]');\n    if (!segment)\n        return;\n    cycleClickLevel(parseInt(segment.getAttribute('data-beat') || '0', 10), parseInt(segment.getAttribute('data-sub') || '0', 10));\n});\n(0, dom_1.byId)('tapBpmBtn').addEventListener('click', () => {\n    if (isTapBpmActive) {\n        tap();\n    }\n    else {\n        startTapBpm();\n    }\n});\n(0, dom_1.byId)('tapBpmBtn').addEventListener('contextmenu', event => {\n    event.preventDefault();\n    if (isTapBpmActive) {\n        stopTapBpm();\n    }\n});\n(0, dom_1.byId)('subdivisionBtn').addEventListener('click', showSubdivisionModal);\n(0, dom_1.byId)('cancelBtn').addEventListener('click', hideBpmModal);\n(0, dom_1.byId)('saveBtn').addEventListener('click', saveBpm);\n(0, dom_1.byId)('subdivisionCancelBtn').addEventListener('click', hideSubdivisionModal);\n(0, dom_1.byId)('bpmInput').addEventListener('keypress', event => {\n    if (event.key === 'Enter') {\n        saveBpm();\n    }\n});\n// Close modal when clicking outside\n(0, dom_1.byId)('bpmModal').addEventListener('click', event => {\n    if (event.target === (0, dom_1.byId)('bpmModal')) {\n        hideBpmModal();\n    }\n});\n(0, dom_1.byId)('subdivisionModal').addEventListener('click', event => {\n    if (event.target === (0, dom_1.byId)('subdivisionModal')) {\n        hideSubdivisionModal();\n    }\n});\n// Subdivision option click handlers\ndocument.querySelectorAll('.subdivision-card').forEach(option => {\n    option.addEventListener('click', () => {\n        selectSubdivision(parseInt(option.getAttribute('data-subdivision') || '1', 10));\n    });\n});\n// Swing slider and presets\nswingSlider.addEventListener('input', () => {\n    selectSwing(parseInt(swingSlider.value, 10));\n});\ndocument.querySelectorAll('.swing-preset').forEach(preset => {\n    preset.addEventListener('click', () => {\n        selectSwing(parseInt(preset.getAttribute('data-swing') || '', 10));\n    });\n});\n// Initialize\nconsole.log('WebView JavaScript initialized');\nupdateTempoDisplay();\nupdateTempoBar(0);\n// Settings button event listener\n(0, dom_1.byId)('settingsButton').addEventListener('click', () => {\n    bridge.postToApp('OPEN_SETTINGS', {});\n});\n// Troubleshooting modal event listeners\n(0, dom_1.byId)('dismissTroubleshootingBtn').addEventListener('click', () => {\n    hideTroubleshootingModal();\n});\n(0, dom_1.byId)('resetWebViewBtn').addEventListener('click', () => {\n    resetWebView();\n});\n// Reset timer when user interacts with the troubleshooting modal\n(0, dom_1.byId)('troubleshootingModal').addEventListener('click', event => {\n    event.stopPropagation(); // Don't close when clicking inside modal\n    resetTroubleshootingTimer(); // Reset the auto-hide timer\n});\n// Handle messages from React Native\nwindow.addEventListener('message', event => {\n    // Messages that fail their schema are reported back and dropped\n    const message = bridge.readMessage(event.data);\n    if (!message)\n        return;\n    try {\n        switch (message.type) {\n            case 'METRONOME_STARTED':\n                setPlaying(true);\n                break;\n            case 'METRONOME_STOPPED':\n                setPlaying(false);\n                break;\n            case 'METRONOME_BEAT':\n                showBeat(message.payload.beatNumber, message.payload.isSilent);\n                break;\n            case 'TIME_SIGNATURE_CHANGE':\n                console.log('Received TIME_SIGNATURE_CHANGE message:', message.payload.timeSignature);\n                bar.meter = message.payload.timeSignature;\n                updateTempoBar(0);\n                break;\n            case 'SWING_CHANGE':\n                console.log('Received SWING_CHANGE message:', message.payload.swing);\n                swing = (0, swing_1.normalizeSwing)(message.payload.swing);\n                updateSwingDisplay();\n                break;\n            case 'ACCENTS_CHANGE':\n                console.log('Received ACCENTS_CHANGE message:', message.payload.accents);\n                bar.accentPattern = message.payload.accents || null;\n                updateTempoBar(tempoBarActiveBeat);\n                break;\n            case 'COLOR_CHANGE': {\n                console.log('Received COLOR_CHANGE message:', message.payload.colors);\n                const root = document.documentElement;\n                Object.entries((0, theme_1.getThemeVariables)(message.payload.colors)).forEach(([name, value]) => {\n                    root.style.setProperty('--' + name, value);\n                });\n                break;\n            }\n        }\n    }\n    catch (error) {\n        console.log('Error handling message:', error);\n    }\n});\nbridge.announceReady();\n\n  },\n  \"webview/shared/bridge.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Page Bridge\n * The page side of the message protocol in types/MessageProtocol.ts, for\n * pages bundled from TypeScript: typed messages to React Native, incoming\n * messages checked against the same schemas React Native uses, and the\n * READY announcement that releases the messages React Native held back.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.createPageBridge = createPageBridge;\nconst MessageProtocol_1 = require(\"types/MessageProtocol.ts\");\nconst messageSchema_1 = require(\"utils/messageSchema.ts\");\nconst pageWindow_1 = require(\"webview/shared/pageWindow.ts\");\n// Bridge of a page answering on 'responseChannel' and listening on 'messageChannel'\nfunction createPageBridge(responseChannel, messageChannel) {\n    // Every response channel carries READY and PROTOCOL_ERROR, which the\n    // generic payload types cannot show\n    const post = (type, payload, requestId) => {\n        const nativeBridge = (0, pageWindow_1.getPageWindow)().ReactNativeWebView;\n        if (!nativeBridge)\n            return;\n        nativeBridge.postMessage(JSON.stringify({\n            type,\n            payload,\n            timestamp: Date.now(),\n            ...(requestId ? { requestId } : {}),\n        }));\n    };\n    const readMessage = (raw) => {\n        if (!messageChannel)\n            return null;\n        let data;\n        try {\n            data = typeof raw === 'string' ? JSON.parse(raw) : raw;\n        }\n        catch {\n            post('PROTOCOL_ERROR', { messageType: null, errors: ['Message is not valid JSON'] });\n            return null;\n        }\n        const result = (0, messageSchema_1.validateMessage)(messageChannel, data);\n        if (!result.message) {\n            const requestId = data === null || data === void 0 ? void 0 : data.requestId;\n            post('PROTOCOL_ERROR', { messageType: result.type, errors: result.errors }, typeof requestId === 'string' ? requestId : undefined);\n        }\n        return result.message;\n    };\n    return {\n        postToApp: post,\n        readMessage,\n        announceReady: () => post('READY', { protocolVersion: MessageProtocol_1.PROTOCOL_VERSION }),\n    };\n}\n\n  },\n  \"types/MessageProtocol.ts\": function (require, module, exports) {\n\"use strict\";\n// Unified message protocol between React Native and the WebViews. Every\n// channel is a discriminated union on 'type'; the schemas in\n// utils/messageSchema.ts check each message where it is received.\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.COMMAND_ACKS = exports.RESPONSE_TYPES = exports.MESSAGE_TYPES = exports.PROTOCOL_VERSION = void 0;\n// Raised whenever a change to the messages would break a page built for the\n// previous version. Every page announces the version it speaks in READY.\nexports.PROTOCOL_VERSION = 2;\n// Message types - React Native to the SoundSystem WebView. The tuner listens\n// to the microphone in React Native, so it has no messages of its own.\nexports.MESSAGE_TYPES = {\n    // System\n    INIT_AUDIO: 'INIT_AUDIO',\n    SUSPEND_AUDIO: 'SUSPEND_AUDIO',\n    UPDATE_THEME: 'UPDATE_THEME',\n    UPDATE_SOUND: 'UPDATE_SOUND',\n    // Metronome\n    START_METRONOME: 'START_METRONOME',\n    STOP_METRONOME: 'STOP_METRONOME',\n    UPDATE_METRONOME_SETTINGS: 'UPDATE_METRONOME_SETTINGS',\n    // Show\n    LOAD_SHOW: 'LOAD_SHOW',\n    START_SHOW: 'START_SHOW',\n    STOP_SHOW: 'STOP_SHOW',\n    RESUME_SHOW: 'RESUME_SHOW',\n    UPDATE_SHOW_SETTINGS: 'UPDATE_SHOW_SETTINGS',\n    RENDER_SHOW_WAV: 'RENDER_SHOW_WAV',\n};\n// Message types - SoundSystem WebView to React Native\nexports.RESPONSE_TYPES = {\n    // Metronome responses\n    METRONOME_BEAT: 'METRONOME_BEAT',\n    METRONOME_LAYER_PULSE: 'METRONOME_LAYER_PULSE',\n    METRONOME_STARTED: 'METRONOME_STARTED',\n    METRONOME_STOPPED: 'METRONOME_STOPPED',\n    // Show responses\n    SHOW_LOADED: 'SHOW_LOADED',\n    SHOW_BEAT: 'SHOW_BEAT',\n    SHOW_MEASURE_COMPLETED: 'SHOW_MEASURE_COMPLETED',\n    SHOW_STARTED: 'SHOW_STARTED',\n    SHOW_STOPPED: 'SHOW_STOPPED',\n    SHOW_WAV_RENDERED: 'SHOW_WAV_RENDERED',\n    // System responses\n    READY: 'READY',\n    COMMAND_APPLIED: 'COMMAND_APPLIED',\n    AUDIO_INITIALIZED: 'AUDIO_INITIALIZED',\n    AUDIO_ERROR: 'AUDIO_ERROR',\n    PROTOCOL_ERROR: 'PROTOCOL_ERROR',\n};\n// The response that acknowledges each command, sent back with the command's\n// requestId. AUDIO_ERROR with the requestId means the command failed.\nexports.COMMAND_ACKS = {\n    INIT_AUDIO: 'AUDIO_INITIALIZED',\n    SUSPEND_AUDIO: 'COMMAND_APPLIED',\n    UPDATE_THEME: 'COMMAND_APPLIED',\n    UPDATE_SOUND: 'COMMAND_APPLIED',\n    START_METRONOME: 'METRONOME_STARTED',\n    STOP_METRONOME: 'COMMAND_APPLIED',\n    UPDATE_METRONOME_SETTINGS: 'COMMAND_APPLIED',\n    LOAD_SHOW: 'SHOW_LOADED',\n    START_SHOW: 'SHOW_STARTED',\n    STOP_SHOW: 'COMMAND_APPLIED',\n    RESUME_SHOW: 'COMMAND_APPLIED',\n    UPDATE_SHOW_SETTINGS: 'COMMAND_APPLIED',\n    RENDER_SHOW_WAV: 'SHOW_WAV_RENDERED',\n};\n\n  },\n  \"utils/messageSchema.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Message Schema\n * Runtime checks for the message protocol in types/MessageProtocol.ts. Every\n * channel lists the payload fields of each of its message types; a message is\n * checked where it is received, and every problem is reported with the path\n * of the field it is in. Fields a schema does not list are let through.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.MESSAGE_SCHEMAS = void 0;\nexports.validateMessage = validateMessage;\nexports.parseMessage = parseMessage;\nconst MessageProtocol_1 = require(\"types/MessageProtocol.ts\");\nconst accentPattern_1 = require(\"utils/accentPattern.ts\");\nconst countIn_1 = require(\"utils/countIn.ts\");\nconst rhythmLayers_1 = require(\"utils/rhythmLayers.ts\");\nconst showStructure_1 = require(\"utils/showStructure.ts\");\nconst str = (values) => (values ? { type: 'string', values } : { type: 'string' });\nconst num = { type: 'number' };\nconst bool = { type: 'boolean' };\nconst obj = (fields) => ({ type: 'object', fields });\nconst arr = (items) => ({ type: 'array', items });\nconst optional = (spec) => ({ ...spec, optional: true });\n// Every field optional, for messages that update only some settings\nconst partial = (fields) => Object.fromEntries(Object.entries(fields).map(([name, spec]) => [name, optional(spec)]));\nconst TIME_SIGNATURE = obj({\n    numerator: num,\n    denominator: num,\n    grouping: optional(arr(num)),\n});\nconst ACCENT_LEVEL = str(accentPattern_1.ACCENT_LEVELS);\nconst ACCENTS = obj({\n    beats: arr(ACCENT_LEVEL),\n    subdivisions: optional(arr(arr(ACCENT_LEVEL))),\n});\nconst COUNT_IN_FIELDS = {\n    enabled: bool,\n    length: num,\n    unit: str(['bars', 'beats']),\n    meter: str(['firstMeasure', 'fixed']),\n    sound: str(countIn_1.COUNT_IN_SOUNDS.map(sound => sound.value)),\n    spoken: bool,\n    skipWhenResuming: bool,\n};\nconst LAYER = obj({\n    id: str(),\n    mode: str(rhythmLayers_1.LAYER_MODES.map(mode => mode.value)),\n    pulses: num,\n    unit: num,\n    sound: str(),\n    volume: num,\n    accents: optional(arr(ACCENT_LEVEL)),\n});\nconst GAP_TRAINER = obj({\n    enabled: bool,\n    playBars: num,\n    silentBars: num,\n    randomMute: num,\n});\nconst PAUSE_TYPES = ['seconds', 'beats', 'hold'];\nconst MEASURE = obj({\n    id: str(),\n    timeSignature: TIME_SIGNATURE,\n    tempo: num,\n    count: num,\n    letter: optional(str()),\n    tempoChange: optional(obj({ endTempo: num, curve: str(['linear', 'exponential']) })),\n    accents: optional(ACCENTS),\n    subdivision: optional(num),\n    swing: optional(num),\n    repeatStart: optional(bool),\n    repeatEnd: optional(num),\n    ending: optional(arr(num)),\n    segno: optional(bool),\n    coda: optional(bool),\n    toCoda: optional(bool),\n    fine: optional(bool),\n    jump: optional(str(Object.keys(showStructure_1.JUMP_LABELS))),\n    pause: optional(obj({ type: str(PAUSE_TYPES), length: optional(num) })),\n});\nconst THEME_COLORS = {\n    background: str(),\n    surface: str(),\n    primary: str(),\n    text: str(),\n    icon: str(),\n    accent: str(),\n    orange: str(),\n};\nconst METRONOME_START = {\n    bpm: num,\n    timeSignature: TIME_SIGNATURE,\n    soundType: str(),\n    subdivision: optional(num),\n    countIn: optional(obj(COUNT_IN_FIELDS)),\n    accents: optional(ACCENTS),\n    swing: optional(num),\n    layers: optional(arr(LAYER)),\n    gapTrainer: optional(GAP_TRAINER),\n};\nconst METRONOME_BEAT = {\n    beatNumber: num,\n    totalBeats: num,\n    barNumber: num,\n    isDownbeat: bool,\n    isSilent: bool,\n    bpm: num,\n    timeSignature: TIME_SIGNATURE,\n};\nconst SHOW = {\n    id: str(),\n    name: str(),\n    measures: arr(MEASURE),\n    countIn: optional(obj(partial(COUNT_IN_FIELDS))),\n};\nconst SHOW_START = {\n    startType: str(['beginning', 'current', 'specific']),\n    startMeasure: optional(num),\n    startLetter: optional(str()),\n    endType: str(['end', 'specific']),\n    endMeasure: optional(num),\n    endLetter: optional(str()),\n};\nconst SHOW_PAUSE = obj({ type: str(PAUSE_TYPES), duration: optional(num) });\nconst SHOW_ID = { showId: str() };\nconst SOUND = { soundType: str() };\nconst READY = { protocolVersion: num };\nconst PROTOCOL_ERROR = {\n    messageType: optional(str()),\n    errors: arr(str()),\n};\nexports.MESSAGE_SCHEMAS = {\n    soundSystemMessage: {\n        INIT_AUDIO: {},\n        SUSPEND_AUDIO: {},\n        UPDATE_THEME: THEME_COLORS,\n        UPDATE_SOUND: SOUND,\n        START_METRONOME: METRONOME_START,\n        STOP_METRONOME: {},\n        UPDATE_METRONOME_SETTINGS: partial(METRONOME_START),\n        LOAD_SHOW: SHOW,\n        START_SHOW: SHOW_START,\n        STOP_SHOW: {},\n        RESUME_SHOW: {},\n        UPDATE_SHOW_SETTINGS: { countIn: optional(obj(partial(COUNT_IN_FIELDS))) },\n        RENDER_SHOW_WAV: SHOW,\n    },\n    soundSystemResponse: {\n        METRONOME_BEAT,\n        METRONOME_LAYER_PULSE: { layerId: str(), pulseIndex: num },\n        METRONOME_STARTED: { bpm: num, timeSignature: TIME_SIGNATURE },\n        METRONOME_STOPPED: {},\n        SHOW_LOADED: { showId: str(), totalMeasures: num },\n        SHOW_BEAT: {\n            measureNumber: num,\n            beatIndex: num,\n            beatsInMeasure: num,\n            isCountIn: bool,\n            isSilent: bool,\n            timeSignature: optional(TIME_SIGNATURE),\n        },\n        SHOW_MEASURE_COMPLETED: {\n            measureNumber: num,\n            beatsPerMeasure: num,\n            tempo: num,\n            nextMeasureNumber: num,\n            nextTempo: num,\n            nextTimeSignature: TIME_SIGNATURE,\n            showName: str(),\n            pause: optional(SHOW_PAUSE),\n        },\n        SHOW_STARTED: { showId: str(), startMeasure: num },\n        SHOW_STOPPED: { completed: bool },\n        SHOW_WAV_RENDERED: { showId: str(), duration: num, data: str() },\n        READY,\n        COMMAND_APPLIED: { command: str(Object.keys(MessageProtocol_1.COMMAND_ACKS)) },\n        AUDIO_INITIALIZED: { sampleRate: num },\n        AUDIO_ERROR: { error: str(), mode: str(['metronome', 'show', 'tuner', 'system']) },\n        PROTOCOL_ERROR,\n    },\n    metronomeViewMessage: {\n        METRONOME_STARTED: {},\n        METRONOME_STOPPED: {},\n        METRONOME_BEAT,\n        TIME_SIGNATURE_CHANGE: { timeSignature: TIME_SIGNATURE },\n        ACCENTS_CHANGE: { accents: optional(ACCENTS) },\n        SWING_CHANGE: { swing: num },\n        COLOR_CHANGE: { colors: obj(THEME_COLORS) },\n    },\n    metronomeViewResponse: {\n        OPEN_SETTINGS: {},\n        START_METRONOME: { bpm: num, subdivision: num },\n        STOP_METRONOME: {},\n        TEMPO_CHANGE: { bpm: num },\n        SUBDIVISION_CHANGE: { subdivision: num },\n        ACCENTS_CHANGE: { accents: ACCENTS },\n        SWING_CHANGE: { swing: num },\n        RESET_WEBVIEW: {},\n        READY,\n        PROTOCOL_ERROR,\n    },\n    showViewResponse: {\n        ADD_SHOW: {},\n        SELECT_SHOW: SHOW_ID,\n        RENAME_SHOW: { showId: str(), newName: str() },\n        UPDATE_SHOW_MEASURES: { showId: str(), measures: arr(MEASURE) },\n        DELETE_SHOW: SHOW_ID,\n        IMPORT_SHOW: {},\n        EXPORT_SHOW: SHOW_ID,\n        EXPORT_SHOW_MIDI: SHOW_ID,\n        EXPORT_SHOW_WAV: SHOW_ID,\n        START_SHOW: { showId: str(), range: obj(SHOW_START) },\n        STOP_SHOW: {},\n        RESUME_SHOW: {},\n        OPEN_SETTINGS: {},\n        OPEN_PLAYBACK_OPTIONS: {},\n        READY,\n        PROTOCOL_ERROR,\n    },\n    tunerViewResponse: {\n        REQUEST_PERMISSION: {},\n        REFRESH_PERMISSION: {},\n        OPEN_SETTINGS: {},\n        READY,\n        PROTOCOL_ERROR,\n    },\n};\nfunction isObject(value) {\n    return typeof value === 'object' && value !== null && !Array.isArray(value);\n}\nfunction checkField(value, spec, path, errors) {\n    if (value === undefined || value === null) {\n        if (!spec.optional)\n            errors.push(`${path} is required`);\n        return;\n    }\n    switch (spec.type) {\n        case 'number':\n            if (typeof value !== 'number' || !Number.isFinite(value)) {\n                errors.push(`${path} must be a number`);\n                return;\n            }\n            break;\n        case 'object':\n            if (!isObject(value)) {\n                errors.push(`${path} must be an object`);\n                return;\n            }\n            checkFields(value, spec.fields || {}, path, errors);\n            return;\n        case 'array':\n            if (!Array.isArray(value)) {\n                errors.push(`${path} must be an array`);\n                return;\n            }\n            if (spec.items) {\n                const items = spec.items;\n                value.forEach((item, index) => checkField(item, items, `${path}[${index}]`, errors));\n            }\n            return;\n        default:\n            if (typeof value !== spec.type) {\n                errors.push(`${path} must be a ${spec.type}`);\n                return;\n            }\n    }\n    if (spec.values && !spec.values.includes(value)) {\n        errors.push(`${path} must be one of ${spec.values.join(', ')}`);\n    }\n}\nfunction checkFields(value, fields, path, errors) {\n    Object.keys(fields).forEach(name => checkField(value[name], fields[name], `${path}.${name}`, errors));\n}\n// Check a decoded message against the schema of its channel\nfunction validateMessage(channel, data) {\n    if (!isObject(data)) {\n        return { message: null, type: null, errors: ['Message must be an object'] };\n    }\n    if (typeof data.type !== 'string') {\n        return { message: null, type: null, errors: ['Message type must be a string'] };\n    }\n    const type = data.type;\n    const schemas = exports.MESSAGE_SCHEMAS[channel];\n    if (!Object.prototype.hasOwnProperty.call(schemas, type)) {\n        return { message: null, type, errors: [`Unknown message type \"${type}\"`] };\n    }\n    const errors = [];\n    if (!isObject(data.payload)) {\n        errors.push('payload must be an object');\n    }\n    else {\n        checkFields(data.payload, schemas[type], 'payload', errors);\n    }\n    if (data.requestId !== undefined && typeof data.requestId !== 'string') {\n        errors.push('requestId must be a string');\n    }\n    return {\n        message: errors.length === 0 ? data : null,\n        type,\n        errors: errors.map(error => `${type}: ${error}`),\n    };\n}\n// Decode and check a message as it arrives from a WebView\nfunction parseMessage(channel, raw) {\n    let data;\n    try {\n        data = JSON.parse(raw);\n    }\n    catch {\n        return { message: null, type: null, errors: ['Message is not valid JSON'] };\n    }\n    return validateMessage(channel, data);\n}\n\n  },\n  \"utils/accentPattern.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Accent Pattern\n * Per-beat accent levels shared by show measures and the metronome. Every beat,\n * and every subdivision click after it, is accented, normal, ghosted or muted;\n * each sound type maps a level to its own volume and pitch.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.ACCENT_VOICES = exports.ACCENT_LEVEL_LABELS = exports.ACCENT_LEVELS = void 0;\nexports.getAccentVoice = getAccentVoice;\nexports.getDefaultAccentLevel = getDefaultAccentLevel;\nexports.getAccentLevel = getAccentLevel;\nexports.getBeatLevels = getBeatLevels;\nexports.cycleAccentLevel = cycleAccentLevel;\nexports.setAccentLevel = setAccentLevel;\nexports.accentsFromBeatSounds = accentsFromBeatSounds;\nexports.getMeasureAccents = getMeasureAccents;\nconst meterGrouping_1 = require(\"utils/meterGrouping.ts\");\nexports.ACCENT_LEVELS = ['accent', 'normal', 'ghost', 'mute'];\nexports.ACCENT_LEVEL_LABELS = {\n    accent: 'Accent',\n    normal: 'Normal',\n    ghost: 'Ghost',\n    mute: 'Mute',\n};\n// Accent and normal keep each sound's original high and low clicks; ghost\n// notes are quieter and slightly lower, tuned per sound\nexports.ACCENT_VOICES = {\n    synth: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.35, pitch: 0.9 } },\n    woodblock: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.3, pitch: 0.94 } },\n    cowbell: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.4, pitch: 0.97 } },\n    click: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.3, pitch: 0.85 } },\n    beep: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.3, pitch: 0.9 } },\n    drbeat: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.2, pitch: 0.9 } },\n    sharp: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.2, pitch: 0.92 } },\n};\nfunction getAccentVoice(soundType, level) {\n    if (level === 'mute')\n        return null;\n    const voices = exports.ACCENT_VOICES[soundType] || exports.ACCENT_VOICES.synth;\n    return { high: level === 'accent', ...voices[level] };\n}\n// The downbeat, and the first beat of each group in a grouped meter, are accented\nfunction getDefaultAccentLevel(timeSignature, beatIndex) {\n    if (beatIndex === 0)\n        return 'accent';\n    return (0, meterGrouping_1.getGrouping)(timeSignature) && (0, meterGrouping_1.isGroupStart)(timeSignature, beatIndex) ? 'accent' : 'normal';\n}\n// Level of one click; subdivisionIndex 0 is the beat itself\nfunction getAccentLevel(pattern, beatIndex, subdivisionIndex, defaultLevel) {\n    var _a, _b, _c;\n    if (subdivisionIndex > 0) {\n        return ((_b = (_a = pattern === null || pattern === void 0 ? void 0 : pattern.subdivisions) === null || _a === void 0 ? void 0 : _a[beatIndex]) === null || _b === void 0 ? void 0 : _b[subdivisionIndex - 1]) || 'normal';\n    }\n    return ((_c = pattern === null || pattern === void 0 ? void 0 : pattern.beats) === null || _c === void 0 ? void 0 : _c[beatIndex]) || defaultLevel;\n}\n// One level per beat of the meter, filling in defaults\nfunction getBeatLevels(pattern, timeSignature) {\n    return Array.from({ length: timeSignature.numerator }, (_, beat) => getAccentLevel(pattern, beat, 0, getDefaultAccentLevel(timeSignature, beat)));\n}\nfunction cycleAccentLevel(level) {\n    return exports.ACCENT_LEVELS[(exports.ACCENT_LEVELS.indexOf(level) + 1) % exports.ACCENT_LEVELS.length];\n}\n// A copy of the pattern with one click set to 'level'\nfunction setAccentLevel(pattern, timeSignature, beatIndex, subdivisionIndex, level) {\n    const beats = getBeatLevels(pattern, timeSignature);\n    const subdivisions = ((pattern === null || pattern === void 0 ? void 0 : pattern.subdivisions) || []).map(levels => [...(levels || [])]);\n    if (subdivisionIndex === 0) {\n        beats[beatIndex] = level;\n    }\n    else {\n        while (subdivisions.length <= beatIndex)\n            subdivisions.push([]);\n        const levels = subdivisions[beatIndex];\n        while (levels.length < subdivisionIndex)\n            levels.push('normal');\n        levels[subdivisionIndex - 1] = level;\n    }\n    return subdivisions.length > 0 ? { beats, subdivisions } : { beats };\n}\nfunction accentsFromBeatSounds(beatSounds, numerator) {\n    return {\n        beats: Array.from({ length: numerator }, (_, beat) => {\n            if ((beatSounds.high || []).includes(beat))\n                return 'accent';\n            return (beatSounds.low || []).includes(beat) ? 'normal' : 'mute';\n        }),\n    };\n}\n// A measure's accents, reading the older high/low beat sounds when it has no pattern\nfunction getMeasureAccents(measure) {\n    if (measure.accents)\n        return measure.accents;\n    return measure.beatSounds ? accentsFromBeatSounds(measure.beatSounds, measure.timeSignature.numerator) : undefined;\n}\n\n  },\n  \"utils/meterGrouping.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Meter Grouping\n * Optional beat grouping for compound and additive meters (3+3/8, 2+2+3/8).\n * A grouped meter pulses on the first beat of each group, and its tempo counts\n * the shortest group: 6/8 grouped 3+3 at 60 BPM is dotted quarter = 60.\n * Meters without a grouping keep the tempo in quarter notes.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.MAX_GROUPED_BEATS = void 0;\nexports.isValidGrouping = isValidGrouping;\nexports.getGrouping = getGrouping;\nexports.getGroupStarts = getGroupStarts;\nexports.isGroupStart = isGroupStart;\nexports.getBeatScale = getBeatScale;\nexports.formatGrouping = formatGrouping;\nexports.parseGrouping = parseGrouping;\nexports.formatTimeSignature = formatTimeSignature;\nexports.getGroupingOptions = getGroupingOptions;\n// Grouping suggestions are generated up to this many beats per bar\nexports.MAX_GROUPED_BEATS = 16;\nfunction isValidGrouping(grouping, numerator) {\n    if (!Array.isArray(grouping) || grouping.length === 0)\n        return false;\n    if (!grouping.every(size => Number.isInteger(size) && size >= 1))\n        return false;\n    return grouping.reduce((sum, size) => sum + size, 0) === numerator;\n}\n// The meter's grouping, or null when it has none (or it no longer fits)\nfunction getGrouping(timeSignature) {\n    return isValidGrouping(timeSignature.grouping, timeSignature.numerator) ? timeSignature.grouping : null;\n}\n// Beat indices that start a group; every beat when the meter is not grouped\nfunction getGroupStarts(timeSignature) {\n    const grouping = getGrouping(timeSignature);\n    if (!grouping) {\n        return Array.from({ length: timeSignature.numerator }, (_, beat) => beat);\n    }\n    const starts = [];\n    let beat = 0;\n    grouping.forEach(size => {\n        starts.push(beat);\n        beat += size;\n    });\n    return starts;\n}\nfunction isGroupStart(timeSignature, beatIndex) {\n    return getGroupStarts(timeSignature).includes(beatIndex);\n}\n/**\n * Length of one beat (one count of the numerator) in tempo units. Ungrouped\n * meters count quarter notes (4 / denominator); grouped meters count the\n * shortest group, so a beat is 1 / (shortest group) of a tempo unit.\n */\nfunction getBeatScale(timeSignature) {\n    const grouping = getGrouping(timeSignature);\n    return grouping ? 1 / Math.min(...grouping) : 4 / timeSignature.denominator;\n}\nfunction formatGrouping(grouping) {\n    return grouping.join('+');\n}\n// Parse \"2+2+3\"; undefined for an empty string, null when it is not a grouping\nfunction parseGrouping(text, numerator) {\n    const trimmed = text.trim();\n    if (!trimmed)\n        return undefined;\n    const grouping = trimmed.split('+').map(part => Number(part.trim()));\n    return isValidGrouping(grouping, numerator) ? grouping : null;\n}\nfunction formatTimeSignature(timeSignature) {\n    const grouping = getGrouping(timeSignature);\n    const prefix = grouping ? `${formatGrouping(grouping)}/` : `${timeSignature.numerator}/`;\n    return `${prefix}${timeSignature.denominator}`;\n}\n// Groupings of 2s and 3s that fill the bar, e.g. 7 -> 2+2+3, 2+3+2, 3+2+2\nfunction getGroupingOptions(numerator) {\n    if (numerator < 4 || numerator > exports.MAX_GROUPED_BEATS)\n        return [];\n    const options = [];\n    const build = (remaining, groups) => {\n        if (remaining === 0) {\n            options.push(groups);\n            return;\n        }\n        [2, 3].forEach(size => {\n            if (size <= remaining)\n                build(remaining - size, [...groups, size]);\n        });\n    };\n    build(numerator, []);\n    return options;\n}\n\n  },\n  \"utils/countIn.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Count-In\n * Count-in settings shared by shows and the metronome, and the beats they\n * produce. Each show stores its own settings; the metronome keeps one set.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.COUNT_IN_SOUNDS = exports.MAX_COUNT_IN_LENGTH = exports.DEFAULT_COUNT_IN = void 0;\nexports.normalizeCountIn = normalizeCountIn;\nexports.getCountInBeats = getCountInBeats;\nconst meterGrouping_1 = require(\"utils/meterGrouping.ts\");\n// Matches the fixed four-beat count-off shows used before it was configurable\nexports.DEFAULT_COUNT_IN = {\n    enabled: true,\n    length: 4,\n    unit: 'beats',\n    meter: 'fixed',\n    sound: 'tone',\n    spoken: false,\n    skipWhenResuming: false,\n};\nexports.MAX_COUNT_IN_LENGTH = 16;\nexports.COUNT_IN_SOUNDS = [\n    { value: 'tone', label: 'Tone' },\n    { value: 'woodblock', label: 'Woodblock' },\n    { value: 'cowbell', label: 'Cowbell' },\n];\n// Fill in missing fields so older shows and settings keep working\nfunction normalizeCountIn(settings) {\n    const merged = { ...exports.DEFAULT_COUNT_IN, ...(settings || {}) };\n    const length = Math.round(Number(merged.length));\n    return {\n        ...merged,\n        length: Number.isFinite(length) ? Math.min(Math.max(length, 1), exports.MAX_COUNT_IN_LENGTH) : exports.DEFAULT_COUNT_IN.length,\n    };\n}\n/**\n * Beats of the count-in before 'firstMeasure'. Empty when the count-in is\n * disabled, or skipped because playback resumes from a later measure.\n */\nfunction getCountInBeats(settings, firstMeasure, resuming = false) {\n    const followMeasure = settings.meter === 'firstMeasure';\n    const beatsPerBar = followMeasure ? firstMeasure.timeSignature.numerator : 4;\n    const beatScale = followMeasure ? (0, meterGrouping_1.getBeatScale)(firstMeasure.timeSignature) : 1;\n    const beatDuration = (60 / firstMeasure.tempo) * beatScale;\n    const plan = { beats: [], beatsPerBar, tempo: firstMeasure.tempo, duration: 0 };\n    if (!settings.enabled || (resuming && settings.skipWhenResuming))\n        return plan;\n    const totalBeats = settings.unit === 'bars' ? settings.length * beatsPerBar : settings.length;\n    for (let i = 0; i < totalBeats; i++) {\n        plan.beats.push({\n            offset: i * beatDuration,\n            count: (i % beatsPerBar) + 1,\n            isDownbeat: i % beatsPerBar === 0,\n        });\n    }\n    plan.duration = totalBeats * beatDuration;\n    return plan;\n}\n\n  },\n  \"utils/rhythmLayers.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Rhythm Layers\n * Extra click layers the metronome stacks on its main beat. A polyrhythm layer\n * spreads its pulses evenly over the main bar (3 against 2, 5 against 4); a\n * polymeter layer plays its own bar at a fixed note value (7/8 against 4/4)\n * and cycles against the main bar until both line up again.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.LAYER_MODES = exports.LAYER_UNITS = exports.MAX_LAYER_PULSES = exports.MIN_LAYER_PULSES = exports.MAX_LAYERS = void 0;\nexports.createLayer = createLayer;\nexports.normalizeLayer = normalizeLayer;\nexports.getLayerPulseLevel = getLayerPulseLevel;\nexports.getLayerLevels = getLayerLevels;\nexports.setLayerPulseLevel = setLayerPulseLevel;\nexports.getLayerPulseDuration = getLayerPulseDuration;\nexports.getLayerPulseAt = getLayerPulseAt;\nexports.formatLayer = formatLayer;\nexports.MAX_LAYERS = 3;\nexports.MIN_LAYER_PULSES = 2;\nexports.MAX_LAYER_PULSES = 16;\nexports.LAYER_UNITS = [2, 4, 8, 16];\nexports.LAYER_MODES = [\n    { value: 'polyrhythm', label: 'Polyrhythm' },\n    { value: 'polymeter', label: 'Polymeter' },\n];\n// A new layer: three against the bar, or a bar of 7/8\nfunction createLayer(id, mode = 'polyrhythm') {\n    return {\n        id,\n        mode,\n        pulses: mode === 'polymeter' ? 7 : 3,\n        unit: 8,\n        sound: 'woodblock',\n        volume: 0.8,\n    };\n}\n// Fill in and clamp fields so stored layers keep working\nfunction normalizeLayer(layer) {\n    const pulses = Math.round(Number(layer.pulses));\n    const volume = Number(layer.volume);\n    return {\n        ...layer,\n        mode: layer.mode === 'polymeter' ? 'polymeter' : 'polyrhythm',\n        pulses: Number.isFinite(pulses) ? Math.min(Math.max(pulses, exports.MIN_LAYER_PULSES), exports.MAX_LAYER_PULSES) : 3,\n        unit: exports.LAYER_UNITS.includes(Number(layer.unit)) ? Number(layer.unit) : 8,\n        sound: layer.sound || 'woodblock',\n        volume: Number.isFinite(volume) ? Math.min(Math.max(volume, 0), 1) : 0.8,\n    };\n}\n// The layer's first pulse is accented unless its pattern says otherwise\nfunction getLayerPulseLevel(layer, pulseIndex) {\n    var _a;\n    return ((_a = layer.accents) === null || _a === void 0 ? void 0 : _a[pulseIndex]) || (pulseIndex === 0 ? 'accent' : 'normal');\n}\nfunction getLayerLevels(layer) {\n    return Array.from({ length: layer.pulses }, (_, pulse) => getLayerPulseLevel(layer, pulse));\n}\n// A copy of the layer with one pulse set to 'level'\nfunction setLayerPulseLevel(layer, pulseIndex, level) {\n    const accents = getLayerLevels(layer);\n    accents[pulseIndex] = level;\n    return { ...layer, accents };\n}\n/**\n * Seconds between two pulses of the layer. Polyrhythms divide the main bar;\n * polymeters convert their note value against the main beat, which is one\n * 1/denominator note of the main meter.\n */\nfunction getLayerPulseDuration(layer, timeSignature, beatDuration) {\n    if (layer.mode === 'polymeter') {\n        return (beatDuration * timeSignature.denominator) / layer.unit;\n    }\n    return (beatDuration * timeSignature.numerator) / layer.pulses;\n}\n// Pulse sounding 'elapsed' seconds after the first main beat, 0-based\nfunction getLayerPulseAt(layer, timeSignature, beatDuration, elapsed) {\n    const pulseDuration = getLayerPulseDuration(layer, timeSignature, beatDuration);\n    if (layer.mode === 'polymeter') {\n        return Math.floor(elapsed / pulseDuration) % layer.pulses;\n    }\n    const barDuration = beatDuration * timeSignature.numerator;\n    return Math.min(Math.floor((elapsed % barDuration) / pulseDuration), layer.pulses - 1);\n}\n// \"3:4\" for three against a bar of four, \"7/8\" for a polymeter\nfunction formatLayer(layer, timeSignature) {\n    return layer.mode === 'polymeter'\n        ? `${layer.pulses}/${layer.unit}`\n        : `${layer.pulses}:${timeSignature.numerator}`;\n}\n\n  },\n  \"utils/showStructure.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Show Structure\n * Structural markers on show measures (repeats, numbered endings, segno, coda,\n * fine, D.C./D.S. jumps and pauses) and the resolver that unrolls them into the\n * order bars are actually played in.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.JUMP_LABELS = exports.END_MARKER_KEYS = exports.START_MARKER_KEYS = void 0;\nexports.getPauseDuration = getPauseDuration;\nexports.resolvePlaybackOrder = resolvePlaybackOrder;\nconst meterGrouping_1 = require(\"utils/meterGrouping.ts\");\nconst tempoCurve_1 = require(\"utils/tempoCurve.ts\");\nexports.START_MARKER_KEYS = ['repeatStart', 'segno', 'coda'];\nexports.END_MARKER_KEYS = ['repeatEnd', 'toCoda', 'fine', 'jump', 'pause'];\nexports.JUMP_LABELS = {\n    dc: 'D.C.',\n    dcAlFine: 'D.C. al Fine',\n    dcAlCoda: 'D.C. al Coda',\n    ds: 'D.S.',\n    dsAlFine: 'D.S. al Fine',\n    dsAlCoda: 'D.S. al Coda',\n};\n// Upper bound on unrolled bars so malformed markers can never loop forever\nconst MAX_PLAYED_BARS = 10000;\n// Length in seconds of the pause after a measure, null for a hold (or no pause: 0)\nfunction getPauseDuration(measure) {\n    const pause = measure.pause;\n    if (!pause)\n        return 0;\n    if (pause.type === 'hold')\n        return null;\n    const length = pause.length && pause.length > 0 ? pause.length : 0;\n    if (pause.type === 'seconds')\n        return length;\n    // Beats continue at the tempo the measure ends on\n    const beatDuration = (60 / (0, tempoCurve_1.getRampTempo)(measure, 1)) * (0, meterGrouping_1.getBeatScale)(measure.timeSignature);\n    return length * beatDuration;\n}\nfunction hasEnding(bar) {\n    return !!bar.ending && bar.ending.length > 0;\n}\n// Highest ending number of the volta bracket group containing bar 'index'\nfunction getFinalEnding(bars, index) {\n    let start = index;\n    let end = index;\n    while (start > 0 && hasEnding(bars[start - 1]))\n        start--;\n    while (end + 1 < bars.length && hasEnding(bars[end + 1]))\n        end++;\n    let finalEnding = 1;\n    for (let i = start; i <= end; i++) {\n        bars[i].ending.forEach(ending => {\n            finalEnding = Math.max(finalEnding, ending);\n        });\n    }\n    return finalEnding;\n}\nfunction findMarker(bars, marker, fromIndex) {\n    for (let i = fromIndex; i < bars.length; i++) {\n        if (bars[i][marker])\n            return i;\n    }\n    return -1;\n}\n/**\n * Unroll the markers of a per-bar measure list into playback order.\n * Returns written bar indexes (0-based) in the order they are played.\n * Repeats are not taken again after a D.C./D.S. jump, and only the final\n * ending of each volta bracket is played on that pass.\n */\nfunction resolvePlaybackOrder(bars) {\n    const order = [];\n    const repeatsTaken = {};\n    let sectionStart = 0;\n    let pass = 1;\n    let activeRepeatEnd = -1;\n    let returning = false;\n    let jumpTaken = false;\n    let jumpUntil = null;\n    let i = 0;\n    while (i < bars.length && order.length < MAX_PLAYED_BARS) {\n        const bar = bars[i];\n        // A repeat sign reached going forwards opens a new section\n        if (bar.repeatStart && !returning) {\n            sectionStart = i;\n            pass = 1;\n            activeRepeatEnd = -1;\n        }\n        else if (activeRepeatEnd >= 0 && i > activeRepeatEnd && !hasEnding(bar)) {\n            // Past the last repeat and its endings - the next repeat goes back to here\n            sectionStart = i;\n            pass = 1;\n            activeRepeatEnd = -1;\n        }\n        returning = false;\n        // Numbered endings are only played on their pass\n        if (hasEnding(bar)) {\n            const playedPass = jumpTaken ? getFinalEnding(bars, i) : pass;\n            if (!bar.ending.includes(playedPass)) {\n                i++;\n                continue;\n            }\n        }\n        order.push(i);\n        if (jumpTaken) {\n            if (jumpUntil === 'fine' && bar.fine)\n                break;\n            if (jumpUntil === 'coda' && bar.toCoda) {\n                const codaIndex = findMarker(bars, 'coda', i + 1);\n                if (codaIndex === -1)\n                    break;\n                i = codaIndex;\n                continue;\n            }\n        }\n        if (!jumpTaken && bar.repeatEnd && bar.repeatEnd > 1) {\n            const taken = repeatsTaken[i] || 0;\n            if (taken < bar.repeatEnd - 1) {\n                repeatsTaken[i] = taken + 1;\n                pass++;\n                activeRepeatEnd = Math.max(activeRepeatEnd, i);\n                returning = true;\n                i = sectionStart;\n                continue;\n            }\n        }\n        if (!jumpTaken && bar.jump) {\n            jumpTaken = true;\n            jumpUntil = bar.jump.endsWith('AlFine') ? 'fine' : bar.jump.endsWith('AlCoda') ? 'coda' : null;\n            i = bar.jump.startsWith('ds') ? Math.max(0, findMarker(bars, 'segno', 0)) : 0;\n            continue;\n        }\n        i++;\n    }\n    return order;\n}\n\n  },\n  \"utils/tempoCurve.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Tempo Curve\n * Gradual tempo changes (accelerando / ritardando) across a measure entry.\n * The tempo moves from the entry's tempo to endTempo over all of its beats,\n * and beat durations are integrated from the curve so every beat lands\n * exactly where the curve puts it.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.roundTempo = roundTempo;\nexports.getRampTempo = getRampTempo;\nexports.getRampBeatDuration = getRampBeatDuration;\n// Tempos derived from a curve are stored with this many decimals\nconst TEMPO_PRECISION = 1000;\nfunction roundTempo(tempo) {\n    return Math.round(tempo * TEMPO_PRECISION) / TEMPO_PRECISION;\n}\n// Tempo after 'fraction' (0..1) of the measure's beats\nfunction getRampTempo(measure, fraction) {\n    const change = measure.tempoChange;\n    if (!change)\n        return measure.tempo;\n    if (change.curve === 'exponential') {\n        return measure.tempo * Math.pow(change.endTempo / measure.tempo, fraction);\n    }\n    return measure.tempo + (change.endTempo - measure.tempo) * fraction;\n}\n/**\n * Duration in seconds of beat 'beatIndex' of a single bar whose tempo follows\n * its curve over 'beatsInBar' beats. 'beatScale' converts quarter notes to\n * the beat unit (4 / denominator).\n */\nfunction getRampBeatDuration(measure, beatIndex, beatsInBar, beatScale) {\n    const startTempo = getRampTempo(measure, beatIndex / beatsInBar);\n    const change = measure.tempoChange;\n    if (!change || change.endTempo === measure.tempo) {\n        return (60 / startTempo) * beatScale;\n    }\n    if (change.curve === 'exponential') {\n        // T(x) = T0 * r^x per beat: integral of 60 / T(x) over one beat\n        const logRatio = Math.log(change.endTempo / measure.tempo) / beatsInBar;\n        return (60 / startTempo) * ((1 - Math.exp(-logRatio)) / logRatio) * beatScale;\n    }\n    // T(x) = T0 + k * x per beat: integral of 60 / T(x) over one beat\n    const slope = (change.endTempo - measure.tempo) / beatsInBar;\n    const endTempo = startTempo + slope;\n    return (60 / slope) * Math.log(endTempo / startTempo) * beatScale;\n}\n\n  },\n  \"webview/shared/pageWindow.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Page Window\n * What a page finds on `window` inside the WebView: the React Native bridge\n * and the prefixed audio constructors of older WebKit.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.getPageWindow = void 0;\nexports.createAudioContext = createAudioContext;\n// The page's window; pages extend PageWindow with the functions they expose\nconst getPageWindow = () => window;\nexports.getPageWindow = getPageWindow;\n// A new AudioContext, or null where Web Audio is unavailable\nfunction createAudioContext() {\n    const pageWindow = (0, exports.getPageWindow)();\n    const AudioContextClass = pageWindow.AudioContext || pageWindow.webkitAudioContext;\n    return AudioContextClass ? new AudioContextClass() : null;\n}\n\n  },\n  \"webview/shared/dom.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Page DOM helpers\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.byId = byId;\nexports.closestTo = closestTo;\n// An element of the page's markup. The markup is bundled with the script,\n// so a missing element is a bug in the page and fails loudly.\nfunction byId(id) {\n    const element = document.getElementById(id);\n    if (!element) {\n        throw new Error(`Page element #${id} is missing`);\n    }\n    return element;\n}\n// Nearest element at or above an event target matching 'selector'\nfunction closestTo(target, selector) {\n    return target instanceof Element ? target.closest(selector) : null;\n}\n\n  },\n  \"webview/shared/theme.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Page Theme\n * The app's theme colors as the CSS variables the page stylesheets read.\n * Used by the host to build a page and by pages applying new colors.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.hexToRgb = hexToRgb;\nexports.getThemeVariables = getThemeVariables;\n// \"r, g, b\" of a hex color, for rgba() in the stylesheets\nfunction hexToRgb(hex) {\n    const result = /^#?([a-f\\d]{2})([a-f\\d]{2})([a-f\\d]{2})$/i.exec(hex);\n    return result ? `${parseInt(result[1], 16)}, ${parseInt(result[2], 16)}, ${parseInt(result[3], 16)}` : '187, 134, 252';\n}\n// CSS variables of the theme, by name without the leading \"--\"\nfunction getThemeVariables(colors) {\n    return {\n        background: colors.background,\n        surface: colors.surface,\n        primary: colors.primary,\n        text: colors.text,\n        icon: colors.icon,\n        accent: colors.accent,\n        orange: colors.orange,\n        'accent-rgb': hexToRgb(colors.accent),\n    };\n}\n\n  },\n  \"webview/soundSystem/clickStream.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Metronome Click Stream\n * The clicks the SoundSystem page schedules for the metronome, one after\n * another on the audio clock: the count-in, then the main beat with its\n * subdivisions and, running alongside, the pulses of each polyrhythm or\n * polymeter layer. Every click carries the upcoming click of each other\n * stream in 'pending', and the earliest of them plays next.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.getMeterScale = getMeterScale;\nexports.getBeatDuration = getBeatDuration;\nexports.getClickLevel = getClickLevel;\nexports.startClickStream = startClickStream;\nexports.getNextClick = getNextClick;\nconst accentPattern_1 = require(\"utils/accentPattern.ts\");\nconst gapTrainer_1 = require(\"utils/gapTrainer.ts\");\nconst meterGrouping_1 = require(\"utils/meterGrouping.ts\");\nconst rhythmLayers_1 = require(\"utils/rhythmLayers.ts\");\nconst swing_1 = require(\"utils/swing.ts\");\n// Beat length in tempo units: the tempo counts every beat, or the shortest\n// group when the meter is grouped (3+3/8: dotted quarter)\nfunction getMeterScale(meter) {\n    return (0, meterGrouping_1.getGrouping)(meter) ? (0, meterGrouping_1.getBeatScale)(meter) : 1;\n}\n// Duration of one beat in seconds\nfunction getBeatDuration(state) {\n    return (60 / state.tempo) * getMeterScale(state.meter);\n}\n// Accent level of a click; beats are accented on every beat, or on group\n// starts in a grouped meter, unless the pattern says otherwise\nfunction getClickLevel(state, beatNumber, subdivisionIndex) {\n    const beatInBar = beatNumber % state.meter.numerator;\n    const isAccented = !(0, meterGrouping_1.getGrouping)(state.meter) || (0, meterGrouping_1.isGroupStart)(state.meter, beatInBar);\n    return (0, accentPattern_1.getAccentLevel)(state.accentPattern, beatInBar, subdivisionIndex, isAccented ? 'accent' : 'normal');\n}\n/**\n * First click of a start at 'startTime': the count-in of 'plan', then the\n * first beat with the layers coming in alongside it. A subdivision chosen\n * while stopped applies from the first beat.\n */\nfunction startClickStream(state, startTime, plan) {\n    if (state.pendingSubdivision !== null) {\n        state.subdivision = state.pendingSubdivision;\n        state.pendingSubdivision = null;\n    }\n    state.countInClicks = plan.beats.map((beat, countInIndex) => ({\n        type: 'countIn',\n        time: startTime + beat.offset,\n        countInIndex,\n        count: beat.count,\n        isDownbeat: beat.isDownbeat,\n    }));\n    const firstBeatClick = {\n        type: 'beat',\n        time: startTime + plan.duration,\n        beatNumber: 0,\n        barNumber: 0,\n        subdivisionIndex: 0,\n        subdivision: state.subdivision,\n        isDownbeat: true,\n        level: getClickLevel(state, 0, 0),\n        silentBar: false,\n        beatMuted: (0, gapTrainer_1.isRandomlyMuted)(state.gapTrainer),\n    };\n    const layerStarts = [];\n    startLayers(state, layerStarts, firstBeatClick.time);\n    firstBeatClick.pending = layerStarts;\n    state.firstBeatClick = firstBeatClick;\n    return state.countInClicks[0] || firstBeatClick;\n}\n// The click that follows 'previous' on the audio clock\nfunction getNextClick(state, previous) {\n    if (previous.type === 'countIn') {\n        return state.countInClicks[previous.countInIndex + 1] || state.firstBeatClick;\n    }\n    const upcoming = (previous.pending || []).slice();\n    if (previous.type === 'layer') {\n        const following = getNextLayerPulse(state, previous);\n        if (following) {\n            upcoming.push(following);\n        }\n    }\n    else {\n        const following = getNextBeatClick(state, previous);\n        upcoming.push(following);\n        if (following.isDownbeat && following.beatNumber % state.meter.numerator === 0) {\n            startLayers(state, upcoming, following.time);\n        }\n    }\n    return takeEarliestClick(upcoming);\n}\n// Earliest of the upcoming clicks, carrying the rest; main beats sound\n// before layer pulses at the same time\nfunction takeEarliestClick(upcoming) {\n    upcoming.sort((a, b) => (a.time - b.time) || ((a.type === 'layer' ? 1 : 0) - (b.type === 'layer' ? 1 : 0)));\n    const earliest = upcoming.shift();\n    return earliest ? { ...earliest, pending: upcoming } : null;\n}\n// Layers restart on each main downbeat: polyrhythms lay their pulses over\n// the coming bar, polymeters keep cycling and only start when not yet running\nfunction startLayers(state, upcoming, barTime) {\n    const beatDuration = getBeatDuration(state);\n    state.layers.forEach(layer => {\n        const isLayerPulse = (click) => click.type === 'layer' && click.layerId === layer.id;\n        if (layer.mode === 'polymeter') {\n            if (upcoming.some(isLayerPulse))\n                return;\n        }\n        else {\n            // After a tempo change the last bar's pulses may run past this downbeat\n            const stale = upcoming.findIndex(click => isLayerPulse(click) && click.time >= barTime);\n            if (stale !== -1) {\n                upcoming.splice(stale, 1);\n            }\n        }\n        upcoming.push({\n            type: 'layer',\n            time: barTime,\n            layerId: layer.id,\n            mode: layer.mode,\n            pulses: layer.pulses,\n            pulseIndex: 0,\n            barTime,\n            pulseDuration: (0, rhythmLayers_1.getLayerPulseDuration)(layer, state.meter, beatDuration),\n            level: (0, rhythmLayers_1.getLayerPulseLevel)(layer, 0),\n        });\n    });\n}\n// Next pulse of a layer; null once a polyrhythm has filled its bar or the\n// layer was removed or changed mode\nfunction getNextLayerPulse(state, previous) {\n    const layer = state.layers.find(candidate => candidate.id === previous.layerId);\n    if (!layer || layer.mode !== previous.mode)\n        return null;\n    if (layer.mode === 'polymeter') {\n        // Follow tempo changes from pulse to pulse\n        const pulseDuration = (0, rhythmLayers_1.getLayerPulseDuration)(layer, state.meter, getBeatDuration(state));\n        const pulseIndex = (previous.pulseIndex + 1) % layer.pulses;\n        return {\n            ...previous,\n            time: previous.time + pulseDuration,\n            pulseIndex,\n            pulseDuration,\n            level: (0, rhythmLayers_1.getLayerPulseLevel)(layer, pulseIndex),\n            pending: undefined,\n        };\n    }\n    // Polyrhythm pulses are spaced from the bar start so they never drift\n    const pulseIndex = previous.pulseIndex + 1;\n    if (pulseIndex >= previous.pulses)\n        return null;\n    return {\n        ...previous,\n        time: previous.barTime + previous.pulseDuration * pulseIndex,\n        pulseIndex,\n        level: (0, rhythmLayers_1.getLayerPulseLevel)(layer, pulseIndex),\n        pending: undefined,\n    };\n}\n// Main beat and subdivision click that follows 'previous'\nfunction getNextBeatClick(state, previous) {\n    let beatNumber = previous.beatNumber;\n    let barNumber = previous.barNumber;\n    let subdivisionIndex = previous.subdivisionIndex + 1;\n    let clickSubdivision = previous.subdivision;\n    if (subdivisionIndex >= clickSubdivision) {\n        // Next click starts a new beat - pending subdivision changes land here\n        beatNumber++;\n        subdivisionIndex = 0;\n        if (beatNumber % state.meter.numerator === 0) {\n            barNumber++;\n        }\n        if (state.pendingSubdivision !== null) {\n            state.subdivision = state.pendingSubdivision;\n            state.pendingSubdivision = null;\n        }\n        clickSubdivision = state.subdivision;\n    }\n    // Swing moves clicks within their beat: step from where the previous\n    // click sat in its beat to where this one sits\n    const previousOffset = (0, swing_1.getSubdivisionOffset)(previous.subdivisionIndex, previous.subdivision, state.swing);\n    const offset = subdivisionIndex === 0 ? 1 : (0, swing_1.getSubdivisionOffset)(subdivisionIndex, clickSubdivision, state.swing);\n    return {\n        type: 'beat',\n        time: previous.time + getBeatDuration(state) * (offset - previousOffset),\n        beatNumber,\n        barNumber,\n        subdivisionIndex,\n        subdivision: clickSubdivision,\n        isDownbeat: subdivisionIndex === 0,\n        level: getClickLevel(state, beatNumber, subdivisionIndex),\n        // Gap trainer: whole bars drop out, and a muted beat silences its subdivisions too\n        silentBar: (0, gapTrainer_1.isSilentBar)(state.gapTrainer, barNumber),\n        beatMuted: subdivisionIndex === 0 ? (0, gapTrainer_1.isRandomlyMuted)(state.gapTrainer) : previous.beatMuted,\n    };\n}\n\n  },\n  \"utils/gapTrainer.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Gap Trainer\n * Silent-bar practice for internal time: the metronome plays a few bars,\n * then drops out for a few bars while the beat carries on unheard, and\n * repeats. Beats in the played bars can also drop out at random.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.DEFAULT_GAP_TRAINER = exports.MAX_GAP_BARS = void 0;\nexports.normalizeGapTrainer = normalizeGapTrainer;\nexports.isSilentBar = isSilentBar;\nexports.isRandomlyMuted = isRandomlyMuted;\nexports.MAX_GAP_BARS = 16;\nexports.DEFAULT_GAP_TRAINER = {\n    enabled: false,\n    playBars: 4,\n    silentBars: 4,\n    randomMute: 0,\n};\n// Fill in and clamp fields so stored settings keep working\nfunction normalizeGapTrainer(settings) {\n    const merged = { ...exports.DEFAULT_GAP_TRAINER, ...(settings || {}) };\n    const bars = (value, fallback) => {\n        const rounded = Math.round(Number(value));\n        return Number.isFinite(rounded) ? Math.min(Math.max(rounded, 1), exports.MAX_GAP_BARS) : fallback;\n    };\n    const randomMute = Math.round(Number(merged.randomMute));\n    return {\n        ...merged,\n        playBars: bars(merged.playBars, exports.DEFAULT_GAP_TRAINER.playBars),\n        silentBars: bars(merged.silentBars, exports.DEFAULT_GAP_TRAINER.silentBars),\n        randomMute: Number.isFinite(randomMute) ? Math.min(Math.max(randomMute, 0), 100) : 0,\n    };\n}\n// Whether bar 'barNumber' (0-based from the start) falls in a gap\nfunction isSilentBar(settings, barNumber) {\n    if (!settings.enabled)\n        return false;\n    return barNumber % (settings.playBars + settings.silentBars) >= settings.playBars;\n}\n// Roll for a randomly muted beat; 'random' returns 0 up to 1\nfunction isRandomlyMuted(settings, random = Math.random()) {\n    return settings.enabled && random * 100 < settings.randomMute;\n}\n\n  },\n  \"utils/swing.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Swing\n * Swing feel for eighth and sixteenth subdivisions. The swing ratio is the\n * share of each pair of subdivisions taken by its first note: 50% plays\n * straight, 66% is triplet swing and 75% a hard (dotted) shuffle.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.SWING_PRESETS = exports.MAX_SWING = exports.TRIPLET_SWING = exports.STRAIGHT_SWING = void 0;\nexports.canSwing = canSwing;\nexports.normalizeSwing = normalizeSwing;\nexports.getSubdivisionOffset = getSubdivisionOffset;\nexports.STRAIGHT_SWING = 50;\nexports.TRIPLET_SWING = 66;\nexports.MAX_SWING = 75;\nexports.SWING_PRESETS = [\n    { value: exports.STRAIGHT_SWING, label: 'Straight' },\n    { value: exports.TRIPLET_SWING, label: 'Triplet' },\n    { value: exports.MAX_SWING, label: 'Shuffle' },\n];\n// Only eighths and sixteenths come in pairs that can be swung\nfunction canSwing(subdivision) {\n    return subdivision === 2 || subdivision === 4;\n}\n// Whole percent between straight and the hardest shuffle\nfunction normalizeSwing(swing) {\n    const percent = Math.round(Number(swing));\n    return Number.isFinite(percent) ? Math.min(Math.max(percent, exports.STRAIGHT_SWING), exports.MAX_SWING) : exports.STRAIGHT_SWING;\n}\n/**\n * Where a subdivision click falls, as a fraction of its beat. Every second\n * click of a pair is pushed back to the swing ratio; subdivisions that cannot\n * swing stay evenly spaced.\n */\nfunction getSubdivisionOffset(subdivisionIndex, subdivision, swing) {\n    if (!canSwing(subdivision))\n        return subdivisionIndex / subdivision;\n    const pairLength = 2 / subdivision;\n    const pair = Math.floor(subdivisionIndex / 2);\n    const offBeat = subdivisionIndex % 2 === 1 ? normalizeSwing(swing) / 100 : 0;\n    return (pair + offBeat) * pairLength;\n}\n\n  }\n};\nvar cache = {};\nfunction require(id) {\n  if (!cache[id]) {\n    cache[id] = { exports: {} };\n    definitions[id](require, cache[id], cache[id].exports);\n  }\n  return cache[id].exports;\n}\nrequire(\"webview/metronome/page.ts\");\n})();\n",
+};
@@ -0,0 +1,9 @@
+// Generated by scripts/bundle-webviews.js from webview/show - do not edit.
+// Run `npm run bundle-webviews` after changing the page.
+import { WebViewPageBundle } from '../pageHtml';
+
+export const showPage: WebViewPageBundle = {
+  css: ":root {\n    --white: #ffffff;\n    --dark-gray: #202127;\n    --medium-gray: #23242A;\n    --light-gray: #333;\n    --input-bg: #181A20;\n    --red: #e53935;\n}\n\n* {\n    margin: 0;\n    padding: 0;\n    box-sizing: border-box;\n}\n\nhtml {\n    height: 100%;\n    overflow: hidden;\n}\n\nbody {\n    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;\n    background-color: var(--background);\n    color: var(--text);\n    display: flex;\n    flex-direction: column;\n    min-height: 100vh;\n    padding: 10px;\n    -webkit-touch-callout: none;\n    -webkit-user-select: none;\n    -khtml-user-select: none;\n    -moz-user-select: none;\n    -ms-user-select: none;\n    user-select: none;\n    -webkit-tap-highlight-color: transparent;\n    overflow: hidden;\n    position: fixed;\n    top: 0;\n    left: 0;\n    width: 100%;\n    height: 100%;\n}\n\n.container {\n    display: flex;\n    flex-direction: column;\n    height: 100%;\n    gap: 4px;\n    padding-top: 5vh;\n}\n\n\n\n\n\n\n\n/* Playback Range Display */\n.playback-range-container {\n    display: flex;\n    margin-bottom: 4px;\n    border-radius: 16px;\n    padding: 2vh 8px;\n    // box-shadow: 0 0 10px rgba(0,0,0,0.2);\n    height: calc(36px + 4vh);\n    align-items: center;\n    cursor: pointer;\n    -webkit-tap-highlight-color: transparent;\n    -webkit-touch-callout: none;\n    -webkit-user-select: none;\n    user-select: none;\n    transition: all 0.2s ease;\n}\n\n.playback-range-container:hover {\n    opacity: 0.8;\n}\n\n.playback-range-info {\n    display: flex;\n    flex-direction: column;\n    align-items: center;\n    justify-content: center;\n    width: 100%;\n    color: var(--text);\n    font-size: var(--font-size);\n}\n\n.playback-range-label {\n    font-size: var(--font-size);\n    font-weight: 600;\n    margin-bottom: 2px;\n    opacity: 0.8;\n}\n\n.playback-range-display {\n    display: flex;\n    align-items: center;\n    gap: 8px;\n    font-size: calc(var(--font-size) * 1.2);\n    font-weight: bold;\n}\n\n.playback-start {\n    color: var(--accent);\n    font-size: calc(var(--font-size) * 1.2);\n}\n\n.playback-separator {\n    color: var(--icon);\n    font-weight: normal;\n    font-size: calc(var(--font-size) * 1.2);\n}\n\n.playback-end {\n    color: var(--accent);\n    font-size: calc(var(--font-size) * 1.2);\n}\n\n/* Tempo Bar */\n.tempo-bar-container {\n    display: flex;\n    margin-bottom: 4px;\n    background-color: var(--dark-gray);\n    border-radius: 16px;\n    padding: 1vh 8px;\n    box-shadow: 0 0 10px rgba(0,0,0,0.2);\n    align-items: stretch;\n    gap: 3px;\n}\n\n.tempo-bar {\n    flex: 1;\n    display: flex;\n    gap: 2px;\n    height: 100%;\n}\n\n.tempo-segment {\n    flex: 1;\n    background-color: var(--medium-gray);\n    border-radius: 6px;\n    transition: all 0.1s ease;\n    height: 100%;\n}\n\n.tempo-segment.active {\n    background-color: var(--accent);\n-            box-shadow: 0 0 8px rgba(187,134,252,0.4);\n+            box-shadow: 0 0 8px var(--accent-40);\n}\n\n.tempo-segment.group-start {\n    margin-left: 6px;\n}\n\n.tempo-segment.silent-beat {\n    background-color: var(--medium-gray);\n    box-shadow: 0 0 12px var(--accent-70), 0 0 4px var(--accent-40);\n}\n\n.tempo-segment.count-off-segment {\n    background-color: var(--medium-gray);\n}\n\n.tempo-segment.count-off-segment.active {\n    background-color: var(--orange);\n    box-shadow: 0 0 8px rgba(255,165,0,0.4);\n}\n\n.tempo-countdown {\n    flex: 1;\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    color: var(--orange);\n    font-size: var(--font-size);\n    font-weight: bold;\n}\n\n.tempo-info {\n    display: flex;\n    flex-direction: column;\n    align-items: center;\n    justify-content: center;\n    min-width: 80px;\n    color: var(--text);\n    font-size: var(--font-size);\n    font-weight: 600;\n}\n\n.tempo-bpm {\n    font-size: var(--font-size);\n    font-weight: bold;\n    color: var(--accent);\n}\n\n.tempo-time-signature {\n    font-size: var(--font-size);\n    opacity: 0.7;\n}\n\n.measure-button {\n    font-size: var(--font-size);\n    font-weight: bold;\n    color: var(--accent);\n    background-color: transparent;\n    border: 2px solid var(--accent);\n    border-radius: 8px;\n    padding: 4px 10px;\n    cursor: pointer;\n    -webkit-tap-highlight-color: transparent;\n    -webkit-touch-callout: none;\n    -webkit-user-select: none;\n    user-select: none;\n    transition: all 0.2s ease;\n    min-width: 60px;\n    text-align: center;\n    display: flex;\n    flex-direction: column;\n    align-items: center;\n    gap: 0;\n}\n\n.measure-number {\n    font-size: var(--font-size);\n    font-weight: bold;\n}\n\n.measure-total {\n    font-size: var(--font-size);\n    opacity: 0.7;\n}\n\n.measure-total.count-off {\n    font-size: var(--font-size);\n    font-weight: bold;\n    opacity: 1;\n}\n\n.measure-button:hover {\n    background-color: rgba(var(--accent-rgb), 0.1);\n}\n\n/* Show Manager Row */\n.show-manager-row {\n    display: flex;\n    margin-bottom: 4px;\n    background-color: var(--dark-gray);\n    border-radius: 16px;\n    padding: 2vh 8px;\n    box-shadow: 0 0 10px rgba(0,0,0,0.2);\n    height: calc(36px + 4vh);\n    align-items: center;\n}\n\n.show-scroll {\n    display: flex;\n    flex: 1;\n    overflow-x: auto;\n    align-items: center;\n    gap: 8px;\n}\n\n.icon-button {\n    background-color: var(--medium-gray);\n    border-radius: 16px;\n    padding: 8px;\n    margin-right: 8px;\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    cursor: pointer;\n    -webkit-tap-highlight-color: transparent;\n    -webkit-touch-callout: none;\n    -webkit-user-select: none;\n    user-select: none;\n    transition: all 0.2s ease;\n}\n\n.icon-button:hover {\n    background-color: var(--accent);\n}\n\n.show-chip {\n    background-color: var(--medium-gray);\n    border-radius: 12px;\n    padding: 4px 16px;\n    margin-right: 8px;\n    display: flex;\n    align-items: center;\n    gap: 8px;\n    cursor: pointer;\n    transition: all 0.2s ease;\n    white-space: nowrap;\n    font-size: var(--font-size);\n}\n\n.show-chip.active {\n    background-color: var(--accent);\n}\n\n.icon-button-small {\n    background-color: var(--accent);\n    border-radius: 12px;\n    padding: 6px;\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    cursor: pointer;\n    -webkit-tap-highlight-color: transparent;\n    -webkit-touch-callout: none;\n    -webkit-user-select: none;\n    user-select: none;\n}\n\n/* Measure Manager */\n.measure-manager {\n    flex: 1;\n    background-color: var(--dark-gray);\n    border-radius: 16px;\n    padding: 8px;\n    box-shadow: 0 0 10px rgba(0,0,0,0.2);\n    display: flex;\n    flex-direction: column;\n    gap: 4px;\n    margin-bottom: var(--measure-manager-margin-bottom);\n    max-height: var(--measure-manager-max-height);\n    height: var(--measure-manager-height);\n}\n\n\n\n.measure-header {\n    display: flex;\n    align-items: center;\n    margin-bottom: 2px;\n}\n\n.add-measure-btn {\n    background-color: transparent;\n    border: 1px solid var(--accent);\n    border-radius: 8px;\n    padding: 8px 16px;\n    color: var(--text);\n    cursor: pointer;\n    font-size: var(--font-size);\n    display: flex;\n    align-items: center;\n    gap: 8px;\n    -webkit-tap-highlight-color: transparent;\n    -webkit-touch-callout: none;\n    -webkit-user-select: none;\n    user-select: none;\n}\n\n.add-measure-btn:hover {\n    background-color: var(--accent-10);\n}\n\n.condensed-toggle {\n    margin-left: auto;\n    display: flex;\n    align-items: center;\n    gap: 6px;\n}\n\n.toggle-switch {\n    width: 40px;\n    height: 20px;\n    background-color: var(--light-gray);\n    border-radius: 10px;\n    position: relative;\n    cursor: pointer;\n    transition: all 0.2s ease;\n}\n\n.toggle-switch.active {\n    background-color: var(--accent);\n}\n\n.toggle-switch::after {\n    content: '';\n    position: absolute;\n    top: 2px;\n    left: 2px;\n    width: 16px;\n    height: 16px;\n    background-color: var(--white);\n    border-radius: 50%;\n    transition: all 0.2s ease;\n}\n\n.toggle-switch.active::after {\n    transform: translateX(20px);\n}\n\n.measure-list {\n    flex: 1;\n    overflow-y: auto;\n    max-height: var(--measure-list-max-height);\n}\n\n.measure-item {\n    display: flex;\n    align-items: center;\n    justify-content: space-between;\n    background-color: var(--medium-gray);\n    border-radius: 12px;\n    padding: 8px;\n    margin-bottom: 2px;\n    font-size: var(--font-size);\n}\n\n.measure-info {\n    display: flex;\n    align-items: center;\n    gap: 16px;\n}\n\n.measure-actions {\n    display: flex;\n    gap: 4px;\n}\n\n.empty-state {\n    flex: 1;\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    opacity: 0.5;\n}\n\n\n\n/* Play Button */\n.play-button-container {\n    position: fixed;\n    bottom: 17vh;\n    left: 50%;\n    transform: translateX(-50%);\n    z-index: 10;\n}\n\n.play-button {\n    width: 100px;\n    height: 100px;\n    border-radius: 50%;\n    background: rgba(255, 255, 255, 0.1);\n    backdrop-filter: blur(6px);\n    -webkit-backdrop-filter: blur(6px);\n    border: 2px solid var(--accent);\n    color: white;\n    cursor: pointer;\n    transition: all 0.2s ease;\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    -webkit-tap-highlight-color: transparent;\n    -webkit-touch-callout: none;\n    -webkit-user-select: none;\n    user-select: none;\n    box-shadow: 0 0 16px var(--accent-70);\n}\n\n.play-button:hover {\n    box-shadow: 0 0 16px var(--accent-70);\n}\n\n.play-button.playing {\n    border: 2px solid var(--orange);\n    box-shadow: 0 0 16px rgba(255, 165, 38, 0.7);\n}\n\n.play-icon {\n    width: 0;\n    height: 0;\n    border-style: solid;\n    border-width: 10px 0 10px 18px;\n    border-color: transparent transparent transparent var(--white);\n    margin-left: 3px;\n    transition: all 0.3s ease;\n}\n\n.stop-icon {\n    width: 16px;\n    height: 16px;\n    background-color: var(--white);\n    border-radius: 2px;\n    transition: all 0.3s ease;\n}\n\n/* Animation for icon morphing */\n.icon-container {\n    position: relative;\n    width: 18px;\n    height: 18px;\n    display: flex;\n    align-items: center;\n    justify-content: center;\n}\n\n.icon-container .play-icon,\n.icon-container .stop-icon {\n    position: absolute;\n    top: 50%;\n    left: 50%;\n    transform: translate(-50%, -50%);\n}\n\n.icon-container .play-icon {\n    opacity: 1;\n    transform: translate(-50%, -50%) scale(1);\n}\n\n.icon-container .stop-icon {\n    opacity: 0;\n    transform: translate(-50%, -50%) scale(0.8);\n}\n\n.icon-container.playing .play-icon {\n    opacity: 0;\n    transform: translate(-50%, -50%) scale(0.8);\n}\n\n.icon-container.playing .stop-icon {\n    opacity: 1;\n    transform: translate(-50%, -50%) scale(1);\n}\n\n/* Modals */\n.modal {\n    display: none;\n    position: fixed;\n    top: 0;\n    left: 0;\n    width: 100%;\n    height: 100%;\n    background: rgba(0,0,0,0.6);\n    z-index: 1000;\n    align-items: center;\n    justify-content: center;\n}\n\n.modal-content {\n    background: var(--surface);\n    border-radius: 16px;\n    padding: 24px;\n    width: 320px;\n    max-width: 90vw;\n}\n\n.modal-title {\n    color: var(--text);\n    font-size: var(--font-size);\n    font-weight: bold;\n    margin-bottom: 8px;\n}\n\n.input-group {\n    margin-bottom: 8px;\n}\n\n.input-label {\n    color: var(--text);\n    margin-bottom: 4px;\n    font-size: var(--font-size);\n}\n\n.input {\n    background: var(--input-bg);\n    color: var(--text);\n    border-radius: 8px;\n    padding: 12px;\n    border: 1px solid var(--light-gray);\n    width: 100%;\n    font-size: var(--font-size);\n}\n\n.input-row {\n    display: flex;\n    align-items: center;\n    gap: 8px;\n}\n\n.input-row .input {\n    flex: 1;\n}\n\n.modal-buttons {\n    display: flex;\n    gap: 8px;\n    justify-content: flex-end;\n}\n\n.modal-btn {\n    border-radius: 8px;\n    padding: 8px 16px;\n    font-weight: bold;\n    font-size: var(--font-size);\n    cursor: pointer;\n    border: none;\n    -webkit-tap-highlight-color: transparent;\n    -webkit-touch-callout: none;\n    -webkit-user-select: none;\n    user-select: none;\n}\n\n.modal-btn.cancel {\n    background: var(--icon);\n    color: var(--text);\n}\n\n.modal-btn.save {\n    background: var(--accent);\n    color: var(--text);\n}\n\n.modal-btn.delete {\n    background: var(--red);\n    color: var(--white);\n}\n\n.modal-actions {\n    display: flex;\n    gap: 12px;\n    margin-top: 24px;\n}\n\n.action-buttons {\n    display: flex;\n    flex-direction: column;\n    gap: 12px;\n    margin-top: 20px;\n}\n\n.btn {\n    flex: 1;\n    padding: 12px 16px;\n    border: none;\n    border-radius: 8px;\n    font-size: var(--font-size);\n    font-weight: 600;\n    cursor: pointer;\n    transition: all 0.2s ease;\n    display: flex;\n    align-items: center;\n    gap: 8px;\n    justify-content: center;\n}\n\n.btn-primary {\n    background: var(--accent);\n    color: var(--white);\n}\n\n.btn-secondary {\n    background: var(--medium-gray);\n    color: var(--text);\n}\n\n.btn-danger {\n    background: var(--red);\n    color: var(--white);\n}\n\n.modal-btn.outline {\n    background: transparent;\n    border: 1px solid var(--accent);\n    color: var(--text);\n}\n\n/* Structural Marker Styles */\n.marker-toggle-row {\n    display: flex;\n    align-items: center;\n    justify-content: space-between;\n    margin-bottom: 12px;\n}\n\n.marker-badge {\n    background: var(--light-gray);\n    color: var(--text);\n    padding: 2px 6px;\n    border-radius: 4px;\n    font-size: 12px;\n    font-weight: 600;\n}\n\n.measure-number {\n    opacity: 0.6;\n    font-size: 12px;\n}\n\n/* Beat Sound Configuration Styles */\n.beat-sound-description {\n    color: var(--text);\n    font-size: 14px;\n    margin-bottom: 20px;\n    text-align: center;\n    opacity: 0.8;\n}\n\n.beat-sound-grid {\n    display: grid;\n    gap: 8px;\n    margin: 20px 0;\n    padding-bottom: 30px;\n    justify-content: center;\n    overflow-x: auto;\n}\n\n.beat-sound-row {\n    display: grid;\n    gap: 8px;\n    align-items: center;\n}\n\n.beat-sound-label {\n    color: var(--text);\n    font-weight: 600;\n    font-size: 14px;\n    text-align: center;\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    height: 100%;\n}\n\n.beat-sound-cell-container {\n    display: flex;\n    flex-direction: column;\n    align-items: center;\n    gap: 4px;\n}\n\n.beat-sound-cell {\n    width: 100%;\n    aspect-ratio: 1;\n    min-width: 24px;\n    max-width: 48px;\n    border: 2px solid var(--light-gray);\n    border-radius: 4px;\n    background: var(--surface);\n    cursor: pointer;\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    transition: all 0.2s ease;\n    position: relative;\n}\n\n.beat-sound-cell:hover {\n    border-color: var(--accent);\n    background: rgba(var(--accent-rgb), 0.1);\n}\n\n.beat-sound-cell.selected {\n    background: var(--accent);\n    border-color: var(--accent);\n}\n\n\n.beat-number {\n    color: var(--text);\n    font-size: 12px;\n    font-weight: 500;\n    text-align: center;\n}\n\n/* Snackbar removed */\n\n/* Settings Button */\n.settings-button {\n    position: fixed;\n    bottom: var(--settings-button-bottom);\n    right: 20px;\n    width: 56px;\n    height: 56px;\n    background-color: var(--surface);\n    border-radius: 28px;\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);\n    cursor: pointer;\n    z-index: 1000;\n    transition: all 0.2s ease;\n    border: 1px solid var(--light-gray);\n}\n\n.settings-button:hover {\n    background-color: var(--medium-gray);\n    transform: scale(1.05);\n}\n\n.settings-button:active {\n    transform: scale(0.95);\n}\n\n.settings-icon {\n    width: 24px;\n    height: 24px;\n    fill: var(--text);\n    opacity: 0.8;\n}\n",
+  body: "<div class=\"container\">\n\n    \n\n    \n\n    \n    <!-- Playback Range Display -->\n    <div class=\"playback-range-container\" id=\"playbackRangeContainer\">\n        <div class=\"playback-range-info\">\n            <div class=\"playback-range-display\" id=\"playbackRangeDisplay\">\n                <span class=\"playback-start\" id=\"playbackStart\">Beginning</span>\n                <span class=\"playback-separator\">→</span>\n                <span class=\"playback-end\" id=\"playbackEnd\">End</span>\n            </div>\n        </div>\n    </div>\n    \n    <!-- Tempo Bar -->\n    <div class=\"tempo-bar-container\">\n        <div class=\"tempo-bar\" id=\"tempoBar\">\n            <!-- Tempo segments will be dynamically generated here -->\n        </div>\n        <div class=\"tempo-info\">\n            <button class=\"measure-button\" id=\"measureButton\">\n                <div class=\"measure-number\" id=\"measureNumber\">-</div>\n                <div class=\"measure-total\" id=\"measureTotal\">of 0</div>\n            </button>\n        </div>\n    </div>\n    \n    <!-- Show Manager Row -->\n    <div class=\"show-manager-row\">\n        <div class=\"show-scroll\" id=\"showScroll\">\n            <div class=\"icon-button\" id=\"addShowBtn\" title=\"Add Show\">\n                <svg width=\"22\" height=\"22\" viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2\">\n                    <line x1=\"12\" y1=\"5\" x2=\"12\" y2=\"19\"></line>\n                    <line x1=\"5\" y1=\"12\" x2=\"19\" y2=\"12\"></line>\n                </svg>\n            </div>\n            <div class=\"icon-button\" id=\"importShowBtn\" title=\"Import Show\">\n                <svg width=\"22\" height=\"22\" viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2\">\n                    <path d=\"M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4\"></path>\n                    <polyline points=\"7,10 12,15 17,10\"></polyline>\n                    <line x1=\"12\" y1=\"15\" x2=\"12\" y2=\"3\"></line>\n                </svg>\n            </div>\n        </div>\n    </div>\n    \n    <!-- Measure Manager -->\n    <div class=\"measure-manager\">\n        <div class=\"measure-header\">\n            <button class=\"add-measure-btn\" id=\"addMeasureBtn\">\n                <svg width=\"16\" height=\"16\" viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2\">\n                    <line x1=\"12\" y1=\"5\" x2=\"12\" y2=\"19\"></line>\n                    <line x1=\"5\" y1=\"12\" x2=\"19\" y2=\"12\"></line>\n                </svg>\n                Add Measures\n            </button>\n            <div class=\"condensed-toggle\">\n                <span style=\"color: var(--white); margin-right: 6px; font-size: var(--font-size);\">Condensed</span>\n                <div class=\"toggle-switch active\" id=\"condensedToggle\"></div>\n            </div>\n        </div>\n        \n        <div class=\"measure-list\" id=\"measureList\">\n            <!-- Measures will be dynamically populated here -->\n        </div>\n    </div>\n    \n    <!-- Play Button -->\n    <div class=\"play-button-container\">\n        <button class=\"play-button\" id=\"playButton\">\n            <div class=\"icon-container\" id=\"iconContainer\">\n                <div class=\"play-icon\"></div>\n                <div class=\"stop-icon\"></div>\n            </div>\n        </button>\n    </div>\n    \n\n</div>\n\n<!-- Add Measure Modal -->\n<div class=\"modal\" id=\"addMeasureModal\">\n    <div class=\"modal-content\">\n        <div class=\"modal-title\">Add Measures</div>\n        <div class=\"input-group\">\n            <div class=\"input-label\">Number of measures (1-500)</div>\n            <input type=\"text\" class=\"input\" id=\"numMeasuresInput\" value=\"1\" inputmode=\"numeric\" pattern=\"[0-9]*\">\n        </div>\n        <div class=\"input-group\">\n            <div class=\"input-label\">Tempo (BPM) (40-300)</div>\n            <input type=\"text\" class=\"input\" id=\"tempoInput\" value=\"120\" inputmode=\"numeric\" pattern=\"[0-9]*\">\n        </div>\n        <div class=\"input-group\">\n            <div class=\"input-label\">Time Signature</div>\n            <div class=\"input-row\">\n                <input type=\"text\" class=\"input\" id=\"numeratorInput\" value=\"4\" inputmode=\"numeric\" pattern=\"[0-9]*\">\n                <span style=\"color: var(--text); font-weight: 600; font-size: var(--font-size);\">/</span>\n                <input type=\"text\" class=\"input\" id=\"denominatorInput\" value=\"4\" inputmode=\"numeric\" pattern=\"[0-9]*\">\n            </div>\n        </div>\n        <div class=\"input-group\">\n            <div class=\"input-label\">Beat Grouping (Optional, e.g. 2+2+3)</div>\n            <input type=\"text\" class=\"input\" id=\"groupingInput\" value=\"\" placeholder=\"None\">\n        </div>\n        <div class=\"input-group\">\n            <div class=\"input-label\">Section Letter (Optional)</div>\n            <select class=\"input\" id=\"letterInput\" style=\"background: var(--input-bg); color: var(--text); border: 1px solid var(--light-gray); border-radius: 8px; padding: 12px; font-size: var(--font-size);\">\n                <option value=\"\">None</option>\n                <option value=\"A\">A</option>\n                <option value=\"B\">B</option>\n                <option value=\"C\">C</option>\n                <option value=\"D\">D</option>\n                <option value=\"E\">E</option>\n                <option value=\"F\">F</option>\n                <option value=\"G\">G</option>\n                <option value=\"H\">H</option>\n                <option value=\"I\">I</option>\n                <option value=\"J\">J</option>\n                <option value=\"K\">K</option>\n                <option value=\"L\">L</option>\n                <option value=\"M\">M</option>\n                <option value=\"N\">N</option>\n                <option value=\"O\">O</option>\n                <option value=\"P\">P</option>\n                <option value=\"Q\">Q</option>\n                <option value=\"R\">R</option>\n                <option value=\"S\">S</option>\n                <option value=\"T\">T</option>\n                <option value=\"U\">U</option>\n                <option value=\"V\">V</option>\n                <option value=\"W\">W</option>\n                <option value=\"X\">X</option>\n                <option value=\"Y\">Y</option>\n                <option value=\"Z\">Z</option>\n            </select>\n        </div>\n        <div class=\"modal-buttons\">\n            <button class=\"modal-btn cancel\" id=\"addMeasureCancelBtn\">Cancel</button>\n            <button class=\"modal-btn save\" id=\"addMeasureSaveBtn\">Add</button>\n        </div>\n    </div>\n</div>\n\n<!-- Edit Show Modal -->\n<div class=\"modal\" id=\"editShowModal\">\n    <div class=\"modal-content\">\n        <div class=\"modal-title\">Edit Show</div>\n        <div class=\"input-group\">\n            <div class=\"input-label\">Show Name</div>\n            <input type=\"text\" class=\"input\" id=\"showNameInput\" value=\"Show 1\">\n        </div>\n        <button class=\"modal-btn outline\" id=\"exportShowBtn\" style=\"margin-top: 12px; width: 100%;\">Export as File</button>\n        <button class=\"modal-btn outline\" id=\"exportWavBtn\" style=\"margin-top: 8px; width: 100%;\">Export Click Track (WAV)</button>\n        <button class=\"modal-btn outline\" id=\"exportMidiBtn\" style=\"margin-top: 8px; width: 100%;\">Export Tempo Map (MIDI)</button>\n        <button class=\"modal-btn delete\" id=\"deleteShowBtn\" style=\"margin-top: 8px; width: 100%;\">Delete Show</button>\n        <div class=\"modal-buttons\" style=\"margin-top: 16px;\">\n            <button class=\"modal-btn cancel\" id=\"editShowCancelBtn\">Cancel</button>\n            <button class=\"modal-btn save\" id=\"editShowSaveBtn\">Save</button>\n        </div>\n    </div>\n</div>\n\n<!-- Import Conflict Modal -->\n<div class=\"modal\" id=\"importConflictModal\">\n    <div class=\"modal-content\">\n        <div class=\"modal-title\">Import Conflict</div>\n        <div style=\"color: var(--text); margin-bottom: 16px; font-size: var(--font-size);\">\n            A show with the same ID already exists. Would you like to replace it or import as a copy?\n        </div>\n        <div class=\"modal-buttons\">\n            <button class=\"modal-btn cancel\" id=\"importConflictCancelBtn\">Cancel</button>\n            <button class=\"modal-btn outline\" id=\"importAsCopyBtn\">Import as Copy</button>\n            <button class=\"modal-btn save\" id=\"replaceShowBtn\">Replace</button>\n        </div>\n    </div>\n</div>\n\n<!-- Edit Measures Modal -->\n<div class=\"modal\" id=\"editMeasuresModal\">\n    <div class=\"modal-content\">\n        <div class=\"modal-title\">Edit Measures</div>\n        <div class=\"input-group\">\n            <div class=\"input-label\">Number of measures</div>\n            <input type=\"text\" class=\"input\" id=\"editNumMeasuresInput\" value=\"1\" inputmode=\"numeric\" pattern=\"[0-9]*\" disabled>\n        </div>\n        <div class=\"input-group\">\n            <div class=\"input-label\">Tempo (BPM)</div>\n            <input type=\"text\" class=\"input\" id=\"editTempoInput\" value=\"120\" inputmode=\"numeric\" pattern=\"[0-9]*\">\n        </div>\n        <div class=\"input-group\">\n            <div class=\"input-label\">Tempo Change</div>\n            <select class=\"input\" id=\"editTempoCurveInput\" style=\"background: var(--input-bg); color: var(--text); border: 1px solid var(--light-gray); border-radius: 8px; padding: 12px; font-size: var(--font-size);\">\n                <option value=\"\">None</option>\n                <option value=\"linear\">Accel. / Rit. (linear)</option>\n                <option value=\"exponential\">Accel. / Rit. (exponential)</option>\n            </select>\n        </div>\n        <div class=\"input-group\" id=\"editEndTempoGroup\" style=\"display: none;\">\n            <div class=\"input-label\">End Tempo (BPM)</div>\n            <input type=\"text\" class=\"input\" id=\"editEndTempoInput\" value=\"120\" inputmode=\"numeric\" pattern=\"[0-9]*\">\n        </div>\n        <div class=\"input-group\">\n            <div class=\"input-label\">Time Signature</div>\n            <div class=\"input-row\">\n                <input type=\"text\" class=\"input\" id=\"editNumeratorInput\" value=\"4\" inputmode=\"numeric\" pattern=\"[0-9]*\">\n                <span style=\"color: var(--text); font-weight: 600; font-size: var(--font-size);\">/</span>\n                <input type=\"text\" class=\"input\" id=\"editDenominatorInput\" value=\"4\" inputmode=\"numeric\" pattern=\"[0-9]*\">\n            </div>\n        </div>\n        <div class=\"input-group\">\n            <div class=\"input-label\">Beat Grouping (Optional, e.g. 2+2+3)</div>\n            <input type=\"text\" class=\"input\" id=\"editGroupingInput\" value=\"\" placeholder=\"None\">\n        </div>\n        <div class=\"input-group\">\n            <div class=\"input-label\">Subdivision</div>\n            <select class=\"input\" id=\"editSubdivisionInput\" style=\"background: var(--input-bg); color: var(--text); border: 1px solid var(--light-gray); border-radius: 8px; padding: 12px; font-size: var(--font-size);\">\n                <option value=\"1\">None</option>\n                <option value=\"2\">Eighth</option>\n                <option value=\"3\">Triplet</option>\n                <option value=\"4\">Sixteenth</option>\n                <option value=\"5\">Quintuplet</option>\n                <option value=\"6\">Sixtuplet</option>\n            </select>\n        </div>\n        <div class=\"input-group\" id=\"editSwingGroup\" style=\"display: none;\">\n            <div class=\"input-label\" id=\"editSwingLabel\"></div>\n            <input type=\"text\" class=\"input\" id=\"editSwingInput\" inputmode=\"numeric\" pattern=\"[0-9]*\">\n        </div>\n        <div class=\"input-group\">\n            <div class=\"input-label\">Section Letter (Optional)</div>\n            <select class=\"input\" id=\"editLetterInput\" style=\"background: var(--input-bg); color: var(--text); border: 1px solid var(--light-gray); border-radius: 8px; padding: 12px; font-size: var(--font-size);\">\n                <option value=\"\">None</option>\n                <option value=\"A\">A</option>\n                <option value=\"B\">B</option>\n                <option value=\"C\">C</option>\n                <option value=\"D\">D</option>\n                <option value=\"E\">E</option>\n                <option value=\"F\">F</option>\n                <option value=\"G\">G</option>\n                <option value=\"H\">H</option>\n                <option value=\"I\">I</option>\n                <option value=\"J\">J</option>\n                <option value=\"K\">K</option>\n                <option value=\"L\">L</option>\n                <option value=\"M\">M</option>\n                <option value=\"N\">N</option>\n                <option value=\"O\">O</option>\n                <option value=\"P\">P</option>\n                <option value=\"Q\">Q</option>\n                <option value=\"R\">R</option>\n                <option value=\"S\">S</option>\n                <option value=\"T\">T</option>\n                <option value=\"U\">U</option>\n                <option value=\"V\">V</option>\n                <option value=\"W\">W</option>\n                <option value=\"X\">X</option>\n                <option value=\"Y\">Y</option>\n                <option value=\"Z\">Z</option>\n            </select>\n        </div>\n        <div class=\"input-group\">\n            <button class=\"modal-btn outline\" id=\"beatSoundConfigBtn\" style=\"width: 100%; margin-bottom: 16px;\">Configure Accents</button>\n            <button class=\"modal-btn outline\" id=\"markersConfigBtn\" style=\"width: 100%; margin-bottom: 16px;\">Repeats, Jumps &amp; Pauses</button>\n        </div>\n        <div class=\"modal-buttons\">\n            <button class=\"modal-btn cancel\" id=\"editMeasuresCancelBtn\">Cancel</button>\n            <button class=\"modal-btn delete\" id=\"deleteMeasuresBtn\">Delete</button>\n            <button class=\"modal-btn save\" id=\"editMeasuresSaveBtn\">Save</button>\n        </div>\n    </div>\n</div>\n\n<!-- Markers Modal -->\n<div class=\"modal\" id=\"markersModal\">\n    <div class=\"modal-content\">\n        <div class=\"modal-title\">Repeats, Jumps &amp; Pauses</div>\n        <div class=\"marker-toggle-row\">\n            <div class=\"input-label\">Repeat start</div>\n            <div class=\"toggle-switch\" id=\"markerRepeatStart\"></div>\n        </div>\n        <div class=\"input-group\">\n            <div class=\"input-label\">Repeat end</div>\n            <select class=\"input\" id=\"markerRepeatEnd\" style=\"background: var(--input-bg); color: var(--text); border: 1px solid var(--light-gray); border-radius: 8px; padding: 12px; font-size: var(--font-size);\">\n                <option value=\"0\">None</option>\n                <option value=\"2\">Play 2 times</option>\n                <option value=\"3\">Play 3 times</option>\n                <option value=\"4\">Play 4 times</option>\n            </select>\n        </div>\n        <div class=\"input-group\">\n            <div class=\"input-label\">Ending (e.g. 1 or 1,2)</div>\n            <input type=\"text\" class=\"input\" id=\"markerEnding\" value=\"\">\n        </div>\n        <div class=\"marker-toggle-row\">\n            <div class=\"input-label\">Segno</div>\n            <div class=\"toggle-switch\" id=\"markerSegno\"></div>\n        </div>\n        <div class=\"marker-toggle-row\">\n            <div class=\"input-label\">Coda</div>\n            <div class=\"toggle-switch\" id=\"markerCoda\"></div>\n        </div>\n        <div class=\"marker-toggle-row\">\n            <div class=\"input-label\">To Coda</div>\n            <div class=\"toggle-switch\" id=\"markerToCoda\"></div>\n        </div>\n        <div class=\"marker-toggle-row\">\n            <div class=\"input-label\">Fine</div>\n            <div class=\"toggle-switch\" id=\"markerFine\"></div>\n        </div>\n        <div class=\"input-group\">\n            <div class=\"input-label\">Jump</div>\n            <select class=\"input\" id=\"markerJump\" style=\"background: var(--input-bg); color: var(--text); border: 1px solid var(--light-gray); border-radius: 8px; padding: 12px; font-size: var(--font-size);\">\n                <option value=\"\">None</option>\n                <option value=\"dc\">D.C.</option>\n                <option value=\"dcAlFine\">D.C. al Fine</option>\n                <option value=\"dcAlCoda\">D.C. al Coda</option>\n                <option value=\"ds\">D.S.</option>\n                <option value=\"dsAlFine\">D.S. al Fine</option>\n                <option value=\"dsAlCoda\">D.S. al Coda</option>\n            </select>\n        </div>\n        <div class=\"input-group\">\n            <div class=\"input-label\">Pause after measure</div>\n            <select class=\"input\" id=\"markerPauseType\" style=\"background: var(--input-bg); color: var(--text); border: 1px solid var(--light-gray); border-radius: 8px; padding: 12px; font-size: var(--font-size);\">\n                <option value=\"\">None</option>\n                <option value=\"seconds\">Seconds</option>\n                <option value=\"beats\">Beats</option>\n                <option value=\"hold\">Hold until tapped</option>\n            </select>\n        </div>\n        <div class=\"input-group\" id=\"markerPauseLengthGroup\" style=\"display: none;\">\n            <div class=\"input-label\">Pause length</div>\n            <input type=\"text\" class=\"input\" id=\"markerPauseLength\" value=\"2\" inputmode=\"decimal\">\n        </div>\n        <div class=\"modal-buttons\">\n            <button class=\"modal-btn cancel\" id=\"markersCancelBtn\">Cancel</button>\n            <button class=\"modal-btn save\" id=\"markersSaveBtn\">Save</button>\n        </div>\n    </div>\n</div>\n\n<!-- Beat Sound Configuration Modal -->\n<div class=\"modal\" id=\"beatSoundModal\">\n    <div class=\"modal-content\" style=\"max-width: 95vw; width: fit-content; min-width: 350px;\">\n        <div class=\"modal-title\">Configure Accents</div>\n        <div class=\"beat-sound-description\">\n            Choose how loud each beat plays: accented, normal, ghosted or muted. Each column represents a beat in the measure.\n        </div>\n        <div class=\"beat-sound-grid\" id=\"beatSoundGrid\">\n            <!-- Grid will be populated dynamically -->\n        </div>\n        <div class=\"modal-buttons\">\n            <button class=\"modal-btn cancel\" id=\"beatSoundCancelBtn\">Cancel</button>\n            <button class=\"modal-btn save\" id=\"beatSoundSaveBtn\">Save</button>\n        </div>\n    </div>\n</div>\n\n<!-- Edit Show Modal -->\n<div class=\"modal\" id=\"editShowModal\">\n    <div class=\"modal-content\">\n        <div class=\"modal-title\">Edit Show</div>\n        \n        <div class=\"input-group\">\n            <div class=\"input-label\">Show Name</div>\n            <input type=\"text\" class=\"input\" id=\"editShowNameInput\" value=\"Show 1\">\n        </div>\n        \n        <div class=\"action-buttons\">\n            <button class=\"btn btn-secondary\" id=\"exportShowBtn\">\n                <svg width=\"16\" height=\"16\" viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2\">\n                    <path d=\"M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4\"></path>\n                    <polyline points=\"7,10 12,15 17,10\"></polyline>\n                    <line x1=\"12\" y1=\"15\" x2=\"12\" y2=\"3\"></line>\n                </svg>\n                Export to File\n            </button>\n            \n            <button class=\"btn btn-danger\" id=\"deleteShowBtn\">\n                <svg width=\"16\" height=\"16\" viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2\">\n                    <polyline points=\"3,6 5,6 21,6\"></polyline>\n                    <path d=\"M19,6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2\"></path>\n                </svg>\n                Delete Show\n            </button>\n        </div>\n        \n        <div class=\"modal-actions\">\n            <button class=\"btn btn-secondary\" id=\"cancelEditShowBtn\">Cancel</button>\n            <button class=\"btn btn-primary\" id=\"saveEditShowBtn\">Save</button>\n        </div>\n    </div>\n</div>\n\n<!-- Settings Button -->\n<div class=\"settings-button\" id=\"settingsButton\">\n    <svg class=\"settings-icon\" viewBox=\"0 0 24 24\">\n        <path d=\"M12,15.5A3.5,3.5 0 0,1 8.5,12A3.5,3.5 0 0,1 12,8.5A3.5,3.5 0 0,1 15.5,12A3.5,3.5 0 0,1 12,15.5M19.43,12.97C19.47,12.65 19.5,12.33 19.5,12C19.5,11.67 19.47,11.34 19.43,11L21.54,9.37C21.73,9.22 21.78,8.95 21.66,8.73L19.66,5.27C19.54,5.05 19.27,4.96 19.05,5.05L16.56,6.05C16.04,5.66 15.5,5.32 14.87,5.07L14.5,2.42C14.46,2.18 14.25,2 14,2H10C9.75,2 9.54,2.18 9.5,2.42L9.13,5.07C8.5,5.32 7.96,5.66 7.44,6.05L4.95,5.05C4.73,4.96 4.46,5.05 4.34,5.27L2.34,8.73C2.22,8.95 2.27,9.22 2.46,9.37L4.57,11C4.53,11.34 4.5,11.67 4.5,12C4.5,12.33 4.53,12.65 4.57,12.97L2.46,14.63C2.27,14.78 2.22,15.05 2.34,15.27L4.34,18.73C4.46,18.95 4.73,19.03 4.95,18.95L7.44,17.94C7.96,18.34 8.5,18.68 9.13,18.93L9.5,21.58C9.54,21.82 9.75,22 10,22H14C14.25,22 14.46,21.82 14.5,21.58L14.87,18.93C15.5,18.68 16.04,18.34 16.56,17.94L19.05,18.95C19.27,19.03 19.54,18.95 19.66,18.73L21.66,15.27C21.78,15.05 21.73,14.78 21.54,14.63L19.43,12.97Z\"/>\n    </svg>\n</div>\n\n<!-- Snackbar removed -->\n",
+  script: "(function () {\nvar definitions = {\n  \"webview/show/page.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Show page\n * The show UI inside WebViewShow: the show list, the measure manager with\n * its add, edit, marker and accent modals, and the playback display. Shows\n * are played by the SoundSystem: the page asks WebViewShow to start, stop or\n * resume them, and the app pushes shows, playback options and the beats\n * heard through the functions the page exposes on `window`; the page\n * answers with showViewResponse messages.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nconst measureEditing_1 = require(\"webview/show/measureEditing.ts\");\nconst playbackRange_1 = require(\"webview/show/playbackRange.ts\");\nconst bridge_1 = require(\"webview/shared/bridge.ts\");\nconst dom_1 = require(\"webview/shared/dom.ts\");\nconst pageWindow_1 = require(\"webview/shared/pageWindow.ts\");\nconst accentPattern_1 = require(\"utils/accentPattern.ts\");\nconst ids_1 = require(\"utils/ids.ts\");\nconst meterGrouping_1 = require(\"utils/meterGrouping.ts\");\nconst showMeasures_1 = require(\"utils/showMeasures.ts\");\nconst swing_1 = require(\"utils/swing.ts\");\nconst pageWindow = (0, pageWindow_1.getPageWindow)();\nconst bridge = (0, bridge_1.createPageBridge)('showViewResponse');\n// Show data from React Native, sent once the page is ready\nlet shows = [];\nlet selectedShow = '1';\nlet playbackOptions = playbackRange_1.DEFAULT_PLAYBACK_OPTIONS;\n// Edits in progress in the show and measure modals\nlet editingShowId = null;\nlet editingMeasureId = null;\nlet editingAccents = null;\nlet editingMarkers = null;\nlet skipNextRender = false; // the next shows update echoes a local edit\n// Initialize condensedView from localStorage if available, otherwise default to true\nlet condensedView = true;\ntry {\n    const savedCondensedView = localStorage.getItem('condensedView');\n    if (savedCondensedView !== null) {\n        condensedView = JSON.parse(savedCondensedView);\n    }\n}\ncatch (e) {\n    console.log('Could not load condensedView from localStorage:', e);\n}\nfunction getSelectedShow() {\n    return shows.find(show => show.id === selectedShow);\n}\nfunction getShowMeasureCount(show) {\n    return show && show.measures ? (0, showMeasures_1.getTotalMeasureCount)(show.measures) : 0;\n}\n// Function to update shows data from React Native\nfunction updateShowsData(newShows, newSelectedShow) {\n    console.log('WebView: updateShowsData called, condensedView before:', condensedView, 'skipNextRender:', skipNextRender);\n    // If this is a result of a local update, just update the data without re-rendering\n    if (skipNextRender) {\n        console.log('WebView: Skipping render due to skipNextRender flag');\n        shows = newShows;\n        selectedShow = newSelectedShow;\n        skipNextRender = false;\n        return;\n    }\n    // Preserve the current condensedView state\n    const wasCondensed = condensedView;\n    shows = newShows;\n    selectedShow = newSelectedShow;\n    renderShows();\n    // Restore condensedView state and update toggle UI\n    condensedView = wasCondensed;\n    console.log('WebView: condensedView restored to:', condensedView);\n    const toggle = (0, dom_1.byId)('condensedToggle');\n    toggle.classList.toggle('active', condensedView);\n    console.log('WebView: toggle UI updated, active classes:', toggle.classList.contains('active'));\n    // Render measures for the initially selected show\n    const selectedShowData = getSelectedShow();\n    if (selectedShowData) {\n        renderMeasures(selectedShowData);\n    }\n}\n// Function to update playback options from React Native\nfunction updatePlaybackOptions(newOptions) {\n    console.log('Updating playback options:', newOptions);\n    playbackOptions = newOptions;\n    updatePlaybackRangeDisplay();\n}\n// Function to update letter dropdown options\nfunction updateLetterDropdown(dropdownId, show, currentLetter = '') {\n    const dropdown = (0, dom_1.byId)(dropdownId);\n    // Clear existing options except \"None\"\n    dropdown.innerHTML = '<option value=\"\">None</option>';\n    // Add available letters as options\n    const availableLetters = (0, measureEditing_1.getAvailableLetters)(show);\n    availableLetters.forEach(letter => {\n        const option = document.createElement('option');\n        option.value = letter;\n        option.textContent = letter;\n        dropdown.appendChild(option);\n    });\n    // Set current value if provided\n    dropdown.value = currentLetter && availableLetters.includes(currentLetter) ? currentLetter : '';\n}\n// Function to render shows\nfunction renderShows() {\n    const showScroll = (0, dom_1.byId)('showScroll');\n    showScroll.querySelectorAll('.show-chip').forEach(chip => chip.remove());\n    shows.forEach(show => {\n        const showChip = document.createElement('div');\n        showChip.className = 'show-chip';\n        showChip.setAttribute('data-show-id', show.id);\n        if (show.id === selectedShow) {\n            showChip.classList.add('active');\n        }\n        showChip.innerHTML = `\n      <span>${show.name}</span>\n      <div class=\"icon-button-small edit-show-btn\" title=\"Edit Show\" data-show-id=\"${show.id}\">\n        <svg width=\"16\" height=\"16\" viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2\">\n          <path d=\"M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 1 2-2v-7\"></path>\n          <path d=\"M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z\"></path>\n        </svg>\n      </div>\n    `;\n        showChip.addEventListener('click', () => {\n            document.querySelectorAll('.show-chip').forEach(chip => chip.classList.remove('active'));\n            showChip.classList.add('active');\n            selectedShow = show.id;\n            bridge.postToApp('SELECT_SHOW', {\n                showId: show.id,\n            });\n            renderMeasures(show);\n            updateMeasureDisplay();\n            updatePlaybackRangeDisplay();\n        });\n        showScroll.appendChild(showChip);\n    });\n    updateMeasureDisplay();\n    updatePlaybackRangeDisplay();\n}\n// Function to update playback range display\nfunction updatePlaybackRangeDisplay() {\n    const labels = (0, playbackRange_1.getPlaybackRangeLabels)(getSelectedShow(), playbackOptions);\n    (0, dom_1.byId)('playbackStart').textContent = labels.start;\n    (0, dom_1.byId)('playbackEnd').textContent = labels.end;\n}\n// Function to render measures for a show\nfunction renderMeasures(show) {\n    console.log('Rendering measures with condensedView:', condensedView);\n    const measureList = (0, dom_1.byId)('measureList');\n    // Store current scroll position\n    const scrollTop = measureList.scrollTop;\n    measureList.innerHTML = '';\n    if (!show.measures || show.measures.length === 0) {\n        measureList.innerHTML = '<div class=\"empty-state\">No measures in this show</div>';\n        return;\n    }\n    let toRender;\n    if (condensedView) {\n        // Group consecutive measures with the same time signature, tempo, and letter\n        toRender = (0, measureEditing_1.compactMeasures)(show.measures);\n        console.log('Condensed groups:', toRender.length, 'from', getShowMeasureCount(show), 'measures');\n    }\n    else {\n        // Show each measure individually (no grouping)\n        toRender = (0, showMeasures_1.expandMeasures)(show.measures);\n    }\n    // Written measure numbers, independent of repeats and jumps\n    let barNumber = 1;\n    toRender.forEach((measure, index) => {\n        const firstBar = barNumber;\n        const lastBar = barNumber + (0, showMeasures_1.getMeasureCount)(measure) - 1;\n        barNumber = lastBar + 1;\n        const measureItem = document.createElement('div');\n        measureItem.className = 'measure-item';\n        measureItem.setAttribute('data-measure-id', measure.id);\n        measureItem.innerHTML =\n            '<div class=\"measure-info\">' +\n                '<span class=\"measure-number\">m. ' + (firstBar === lastBar ? firstBar : firstBar + '-' + lastBar) + '</span>' +\n                (measure.letter ? '<span style=\"background: var(--accent); color: white; padding: 2px 6px; border-radius: 4px; font-weight: bold; margin-right: 8px;\">' + measure.letter + '</span>' : '') +\n                (condensedView ? '<span>' + measure.count + ' mes.</span>' : '') +\n                '<span>' + (0, meterGrouping_1.formatTimeSignature)(measure.timeSignature) + '</span>' +\n                '<span>' + (0, measureEditing_1.getTempoLabel)(measure) + '</span>' +\n                (0, measureEditing_1.getMarkerLabels)(measure).map(label => '<span class=\"marker-badge\">' + label + '</span>').join('') +\n                '</div>' +\n                '<div class=\"measure-actions\">' +\n                '<div class=\"icon-button-small\" title=\"Move Up\"' + (index === 0 ? ' style=\"opacity: 0.3;\"' : '') + '>' +\n                '<svg width=\"16\" height=\"16\" viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2\">' +\n                '<polyline points=\"18,15 12,9 6,15\"></polyline>' +\n                '</svg>' +\n                '</div>' +\n                '<div class=\"icon-button-small\" title=\"Move Down\"' + (index === toRender.length - 1 ? ' style=\"opacity: 0.3;\"' : '') + '>' +\n                '<svg width=\"16\" height=\"16\" viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2\">' +\n                '<polyline points=\"6,9 12,15 18,9\"></polyline>' +\n                '</svg>' +\n                '</div>' +\n                '<div class=\"icon-button-small edit-measure-btn\" title=\"Edit\" data-measure-id=\"' + measure.id + '\">' +\n                '<svg width=\"18\" height=\"18\" viewBox=\"0 0 24 24\" fill=\"none\" stroke=\"currentColor\" stroke-width=\"2\">' +\n                '<path d=\"M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 1 2-2v-7\"></path>' +\n                '<path d=\"M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z\"></path>' +\n                '</svg>' +\n                '</div>' +\n                '</div>';\n        measureList.appendChild(measureItem);\n    });\n    // Restore scroll position\n    measureList.scrollTop = scrollTop;\n}\n// Set initial toggle state based on loaded condensedView\ndocument.addEventListener('DOMContentLoaded', () => {\n    (0, dom_1.byId)('condensedToggle').classList.toggle('active', condensedView);\n});\nfunction showModal(modalId) {\n    console.log('Showing modal:', modalId);\n    (0, dom_1.byId)(modalId).style.display = 'flex';\n}\nfunction hideModal(modalId) {\n    console.log('Hiding modal:', modalId);\n    (0, dom_1.byId)(modalId).style.display = 'none';\n}\n// Value of a form control of the page\nfunction readValue(id) {\n    return (0, dom_1.byId)(id).value;\n}\nfunction writeValue(id, value) {\n    (0, dom_1.byId)(id).value = String(value);\n}\n// Row labels of the accent grid, in the order of ACCENT_LEVELS\nconst ACCENT_ROW_LABELS = { accent: 'Acc', normal: 'Norm', ghost: 'Ghost', mute: 'Mute' };\n// Build the accent configuration grid: one row per level, one column per beat\nfunction buildAccentGrid(timeSignature, existingAccents) {\n    const grid = (0, dom_1.byId)('beatSoundGrid');\n    const numerator = timeSignature.numerator;\n    // Beats without a configured level use the meter's default accents\n    const levels = (0, accentPattern_1.getBeatLevels)(existingAccents, timeSignature);\n    // Set up grid layout: 1 column for labels + flexible columns for beats\n    // Calculate available space: 95vw - label width - modal padding - gaps\n    const viewportWidth = window.innerWidth;\n    const maxModalWidth = viewportWidth * 0.95;\n    const labelWidth = 44; // Wide enough for the level names\n    const modalPadding = 48; // Padding, margins, gaps, etc.\n    const gridGaps = (numerator - 1) * 8; // 8px gap between cells\n    const availableWidth = maxModalWidth - labelWidth - modalPadding - gridGaps;\n    const idealCellSize = availableWidth / numerator;\n    const cellSize = Math.min(48, Math.max(24, idealCellSize));\n    grid.style.gridTemplateColumns = `${labelWidth}px repeat(${numerator}, ${cellSize}px)`;\n    let html = '';\n    accentPattern_1.ACCENT_LEVELS.forEach((level, row) => {\n        html += '<div class=\"beat-sound-row\" style=\"grid-column: 1 / -1; display: grid; gap: 8px; grid-template-columns: subgrid;\">';\n        html += `<div class=\"beat-sound-label\">${ACCENT_ROW_LABELS[level]}</div>`;\n        for (let beat = 1; beat <= numerator; beat++) {\n            const isSelected = levels[beat - 1] === level;\n            const cell = `<div class=\"beat-sound-cell ${isSelected ? 'selected' : ''}\" data-level=\"${level}\" data-beat=\"${beat - 1}\"></div>`;\n            // The first row also carries the beat numbers\n            html += row === 0\n                ? `<div class=\"beat-sound-cell-container\">\n            <div class=\"beat-number\">${beat}</div>\n            ${cell}\n          </div>`\n                : cell;\n        }\n        html += '</div>';\n    });\n    grid.innerHTML = html;\n    // Every beat has exactly one level: selecting a cell deselects the rest of its column\n    grid.querySelectorAll('.beat-sound-cell').forEach(cell => {\n        cell.addEventListener('click', () => {\n            const beatIndex = cell.getAttribute('data-beat');\n            grid.querySelectorAll(`[data-beat=\"${beatIndex}\"].selected`).forEach(otherCell => {\n                otherCell.classList.remove('selected');\n            });\n            cell.classList.add('selected');\n        });\n    });\n}\n// Collect the accent pattern from the grid\nfunction collectAccents() {\n    const beats = [];\n    (0, dom_1.byId)('beatSoundGrid').querySelectorAll('.beat-sound-cell.selected').forEach(cell => {\n        const beat = parseInt(cell.getAttribute('data-beat') || '0', 10);\n        beats[beat] = cell.getAttribute('data-level');\n    });\n    return { beats };\n}\n// Send reordered measures to React Native and show them at once\nfunction updateMeasureOrder(show, measures) {\n    const updatedMeasures = (0, measureEditing_1.compactMeasures)(measures);\n    bridge.postToApp('UPDATE_SHOW_MEASURES', {\n        showId: show.id,\n        measures: updatedMeasures,\n    });\n    // Update measures locally without triggering full re-render\n    const localShow = shows.find(candidate => candidate.id === show.id);\n    if (localShow) {\n        localShow.measures = updatedMeasures;\n        // Re-render only the measures for the current show\n        const selectedShowData = getSelectedShow();\n        if (selectedShowData) {\n            renderMeasures(selectedShowData);\n        }\n    }\n}\n// Open the edit modal for the measure (group) of the edit button\nfunction openMeasureEditor(measureId) {\n    const show = getSelectedShow();\n    if (!show)\n        return;\n    const bars = (0, showMeasures_1.expandMeasures)(show.measures);\n    const measure = bars.find(bar => bar.id === measureId);\n    if (!measure)\n        return;\n    // Store the measure being edited\n    editingMeasureId = measureId;\n    editingMarkers = null;\n    // Calculate the correct number of measures\n    let measureCount = 1;\n    let lastBar = measure;\n    if (condensedView) {\n        // In condensed view, count the bars of the whole group\n        const group = (0, measureEditing_1.getGroupRange)(bars, bars.findIndex(bar => bar.id === measureId));\n        measureCount = group.end - group.start + 1;\n        lastBar = bars[group.end];\n    }\n    writeValue('editNumMeasuresInput', measureCount);\n    writeValue('editTempoInput', Math.round(measure.tempo));\n    writeValue('editTempoCurveInput', measure.tempoChange ? measure.tempoChange.curve : '');\n    writeValue('editEndTempoInput', Math.round(lastBar.tempoChange ? lastBar.tempoChange.endTempo : lastBar.tempo));\n    updateEndTempoVisibility();\n    writeValue('editNumeratorInput', measure.timeSignature.numerator);\n    writeValue('editDenominatorInput', measure.timeSignature.denominator);\n    writeValue('editGroupingInput', measure.timeSignature.grouping ? measure.timeSignature.grouping.join('+') : '');\n    writeValue('editSubdivisionInput', measure.subdivision || 1);\n    writeValue('editSwingInput', (0, swing_1.normalizeSwing)(measure.swing));\n    updateSwingVisibility();\n    writeValue('editLetterInput', measure.letter || '');\n    // Update letter dropdown with available letters (excluding current letter)\n    updateLetterDropdown('editLetterInput', show, measure.letter || '');\n    showModal('editMeasuresModal');\n}\n// Move the measure (group) of a list item one place up or down\nfunction moveMeasure(measureId, direction) {\n    const show = getSelectedShow();\n    if (!show)\n        return;\n    const bars = (0, showMeasures_1.expandMeasures)(show.measures);\n    const measureIndex = bars.findIndex(bar => bar.id === measureId);\n    if (direction === 'up') {\n        if (measureIndex <= 0)\n            return;\n        if (condensedView) {\n            // Move the current group above the previous group\n            const groupEnd = (0, measureEditing_1.getGroupRange)(bars, measureIndex).end;\n            const prevGroupStart = (0, measureEditing_1.getGroupRange)(bars, measureIndex - 1).start;\n            updateMeasureOrder(show, [\n                ...bars.slice(0, prevGroupStart),\n                ...bars.slice(measureIndex, groupEnd + 1),\n                ...bars.slice(prevGroupStart, measureIndex),\n                ...bars.slice(groupEnd + 1),\n            ]);\n        }\n        else {\n            // In uncondensed mode, just swap the current measure with the previous one\n            const updatedMeasures = [...bars];\n            updatedMeasures[measureIndex] = bars[measureIndex - 1];\n            updatedMeasures[measureIndex - 1] = bars[measureIndex];\n            updateMeasureOrder(show, updatedMeasures);\n        }\n        return;\n    }\n    if (measureIndex >= bars.length - 1)\n        return;\n    if (condensedView) {\n        // Move the current group below the next group\n        const groupEnd = (0, measureEditing_1.getGroupRange)(bars, measureIndex).end;\n        const nextGroupEnd = groupEnd + 1 < bars.length ? (0, measureEditing_1.getGroupRange)(bars, groupEnd + 1).end : groupEnd;\n        updateMeasureOrder(show, [\n            ...bars.slice(0, measureIndex),\n            ...bars.slice(groupEnd + 1, nextGroupEnd + 1),\n            ...bars.slice(measureIndex, groupEnd + 1),\n            ...bars.slice(nextGroupEnd + 1),\n        ]);\n    }\n    else {\n        // In uncondensed mode, just swap the current measure with the next one\n        const updatedMeasures = [...bars];\n        updatedMeasures[measureIndex] = bars[measureIndex + 1];\n        updatedMeasures[measureIndex + 1] = bars[measureIndex];\n        updateMeasureOrder(show, updatedMeasures);\n    }\n}\n// Event listeners\n(0, dom_1.byId)('addMeasureBtn').addEventListener('click', () => {\n    // Get current show and update letter dropdown\n    const show = getSelectedShow();\n    if (show) {\n        updateLetterDropdown('letterInput', show);\n    }\n    showModal('addMeasureModal');\n});\n(0, dom_1.byId)('playbackRangeContainer').addEventListener('click', () => {\n    bridge.postToApp('OPEN_PLAYBACK_OPTIONS', {});\n});\n(0, dom_1.byId)('addShowBtn').addEventListener('click', () => {\n    bridge.postToApp('ADD_SHOW', {});\n});\n// Edit show, edit measure and move buttons are rendered with the lists\ndocument.addEventListener('click', event => {\n    const editShowButton = (0, dom_1.closestTo)(event.target, '.edit-show-btn');\n    if (editShowButton) {\n        console.log('Edit button clicked!');\n        event.preventDefault();\n        event.stopPropagation();\n        const showId = editShowButton.getAttribute('data-show-id');\n        const show = shows.find(candidate => candidate.id === showId);\n        console.log('Found show:', show);\n        if (show) {\n            // Store the show ID being edited (not necessarily the selected show)\n            editingShowId = show.id;\n            writeValue('showNameInput', show.name);\n            showModal('editShowModal');\n        }\n    }\n    const editMeasureButton = (0, dom_1.closestTo)(event.target, '.edit-measure-btn');\n    if (editMeasureButton) {\n        console.log('Edit measure button clicked!');\n        event.preventDefault();\n        event.stopPropagation();\n        openMeasureEditor(editMeasureButton.getAttribute('data-measure-id') || '');\n    }\n    const moveButton = (0, dom_1.closestTo)(event.target, '[title=\"Move Up\"], [title=\"Move Down\"]');\n    const measureItem = (0, dom_1.closestTo)(event.target, '.measure-item');\n    if (moveButton && measureItem) {\n        event.preventDefault();\n        event.stopPropagation();\n        const direction = moveButton.getAttribute('title') === 'Move Up' ? 'up' : 'down';\n        const measureId = measureItem.getAttribute('data-measure-id') || '';\n        console.log('Move', direction, 'clicked for measure:', measureId);\n        moveMeasure(measureId, direction);\n    }\n});\n// The show modal exists twice in the markup; both copies rename the show\nfunction saveShowName() {\n    const newName = readValue('showNameInput').trim();\n    console.log('Editing show ID:', editingShowId);\n    if (newName && editingShowId) {\n        console.log('Sending RENAME_SHOW message to React Native');\n        bridge.postToApp('RENAME_SHOW', {\n            showId: editingShowId,\n            newName,\n        });\n    }\n    hideModal('editShowModal');\n}\n(0, dom_1.byId)('cancelEditShowBtn').addEventListener('click', () => {\n    hideModal('editShowModal');\n});\n(0, dom_1.byId)('saveEditShowBtn').addEventListener('click', saveShowName);\n(0, dom_1.byId)('editShowCancelBtn').addEventListener('click', () => {\n    hideModal('editShowModal');\n});\n(0, dom_1.byId)('editShowSaveBtn').addEventListener('click', saveShowName);\nconst importButton = (0, dom_1.byId)('importShowBtn');\nimportButton.addEventListener('click', () => {\n    // Add visual feedback\n    importButton.style.backgroundColor = 'var(--accent)';\n    setTimeout(() => {\n        importButton.style.backgroundColor = '';\n    }, 200);\n    // React Native opens the file picker\n    bridge.postToApp('IMPORT_SHOW', {});\n});\n(0, dom_1.byId)('addMeasureCancelBtn').addEventListener('click', () => {\n    hideModal('addMeasureModal');\n});\n(0, dom_1.byId)('addMeasureSaveBtn').addEventListener('click', () => {\n    const numMeasures = parseInt(readValue('numMeasuresInput'), 10);\n    const tempo = parseInt(readValue('tempoInput'), 10);\n    const numerator = parseInt(readValue('numeratorInput'), 10);\n    const denominator = parseInt(readValue('denominatorInput'), 10);\n    const grouping = (0, meterGrouping_1.parseGrouping)(readValue('groupingInput'), numerator);\n    const letter = readValue('letterInput');\n    if (isNaN(numMeasures) || numMeasures < 1 || numMeasures > 500 ||\n        isNaN(tempo) || tempo < 40 || tempo > 300 ||\n        isNaN(numerator) || numerator < 1 || numerator > 32 ||\n        isNaN(denominator) || ![2, 4, 8, 16].includes(denominator) ||\n        grouping === null) {\n        return;\n    }\n    const show = getSelectedShow();\n    if (!show) {\n        return;\n    }\n    // Store the new measures compactly as a single entry\n    const newMeasures = (0, measureEditing_1.compactMeasures)([...show.measures, {\n            id: (0, ids_1.createId)(),\n            timeSignature: { numerator, denominator, grouping },\n            tempo,\n            count: numMeasures,\n            letter: letter || undefined,\n        }]);\n    bridge.postToApp('UPDATE_SHOW_MEASURES', {\n        showId: show.id,\n        measures: newMeasures,\n    });\n    hideModal('addMeasureModal');\n});\n// The show edited in the show modal, else the selected show\nfunction getEditedShow() {\n    const showId = editingShowId || selectedShow;\n    return shows.find(show => show.id === showId);\n}\n(0, dom_1.byId)('exportShowBtn').addEventListener('click', () => {\n    const show = getEditedShow();\n    if (show) {\n        bridge.postToApp('EXPORT_SHOW', {\n            showId: show.id,\n        });\n    }\n});\n(0, dom_1.byId)('exportWavBtn').addEventListener('click', () => {\n    const show = getEditedShow();\n    if (show) {\n        bridge.postToApp('EXPORT_SHOW_WAV', {\n            showId: show.id,\n        });\n    }\n});\n(0, dom_1.byId)('exportMidiBtn').addEventListener('click', () => {\n    const show = getEditedShow();\n    if (show) {\n        bridge.postToApp('EXPORT_SHOW_MIDI', {\n            showId: show.id,\n        });\n    }\n});\n(0, dom_1.byId)('deleteShowBtn').addEventListener('click', () => {\n    console.log('Delete show button clicked!');\n    if (editingShowId) {\n        console.log('Sending DELETE_SHOW message to React Native');\n        bridge.postToApp('DELETE_SHOW', {\n            showId: editingShowId,\n        });\n    }\n    hideModal('editShowModal');\n    // Clear the measure manager\n    (0, dom_1.byId)('measureList').innerHTML = '<div class=\"empty-state\">No measures in this show</div>';\n});\n(0, dom_1.byId)('importConflictCancelBtn').addEventListener('click', () => {\n    hideModal('importConflictModal');\n});\n(0, dom_1.byId)('importAsCopyBtn').addEventListener('click', () => {\n    hideModal('importConflictModal');\n});\n(0, dom_1.byId)('replaceShowBtn').addEventListener('click', () => {\n    hideModal('importConflictModal');\n});\n(0, dom_1.byId)('editMeasuresCancelBtn').addEventListener('click', () => {\n    hideModal('editMeasuresModal');\n});\n// The end tempo only applies to accel./rit. measures\nfunction updateEndTempoVisibility() {\n    const hasTempoCurve = readValue('editTempoCurveInput') !== '';\n    (0, dom_1.byId)('editEndTempoGroup').style.display = hasTempoCurve ? 'block' : 'none';\n}\n(0, dom_1.byId)('editTempoCurveInput').addEventListener('change', updateEndTempoVisibility);\n// Swing only applies to eighth and sixteenth subdivisions\nfunction updateSwingVisibility() {\n    const subdivision = parseInt(readValue('editSubdivisionInput'), 10);\n    (0, dom_1.byId)('editSwingGroup').style.display = (0, swing_1.canSwing)(subdivision) ? 'block' : 'none';\n}\n(0, dom_1.byId)('editSubdivisionInput').addEventListener('change', updateSwingVisibility);\n// Swing input range, straight until a measure is edited\n(0, dom_1.byId)('editSwingLabel').textContent = `Swing % (${swing_1.STRAIGHT_SWING} straight, 66 triplet, ${swing_1.MAX_SWING} shuffle)`;\nwriteValue('editSwingInput', swing_1.STRAIGHT_SWING);\n// Tempo from an input, keeping the exact tempo of a split ramp when the\n// rounded value shown was left unchanged\nfunction readTempoInput(inputId, originalTempo) {\n    const tempo = parseInt(readValue(inputId), 10);\n    return tempo === Math.round(originalTempo) ? originalTempo : tempo;\n}\n(0, dom_1.byId)('editMeasuresSaveBtn').addEventListener('click', () => {\n    const numMeasures = parseInt(readValue('editNumMeasuresInput'), 10);\n    const tempo = parseInt(readValue('editTempoInput'), 10);\n    const tempoCurve = readValue('editTempoCurveInput');\n    const endTempo = parseInt(readValue('editEndTempoInput'), 10);\n    const numerator = parseInt(readValue('editNumeratorInput'), 10);\n    const denominator = parseInt(readValue('editDenominatorInput'), 10);\n    const grouping = (0, meterGrouping_1.parseGrouping)(readValue('editGroupingInput'), numerator);\n    const letter = readValue('editLetterInput');\n    const subdivision = parseInt(readValue('editSubdivisionInput'), 10);\n    const swingInput = parseInt(readValue('editSwingInput'), 10);\n    if (isNaN(numMeasures) || numMeasures < 1 || numMeasures > 500 ||\n        isNaN(tempo) || tempo < 40 || tempo > 300 ||\n        (tempoCurve && (isNaN(endTempo) || endTempo < 40 || endTempo > 300)) ||\n        isNaN(numerator) || numerator < 1 || numerator > 32 ||\n        isNaN(denominator) || ![2, 4, 8, 16].includes(denominator) ||\n        grouping === null ||\n        ((0, swing_1.canSwing)(subdivision) && (isNaN(swingInput) || swingInput !== (0, swing_1.normalizeSwing)(swingInput)))) {\n        return;\n    }\n    const show = getSelectedShow();\n    if (!show || !editingMeasureId) {\n        return;\n    }\n    const bars = (0, showMeasures_1.expandMeasures)(show.measures);\n    const updatedMeasures = [...bars];\n    const measureIndex = bars.findIndex(bar => bar.id === editingMeasureId);\n    const originalMeasure = bars[measureIndex];\n    const groupEnd = condensedView ? (0, measureEditing_1.getGroupRange)(bars, measureIndex).end : measureIndex;\n    const lastBar = bars[groupEnd];\n    const originalEnd = lastBar.tempoChange ? lastBar.tempoChange.endTempo : lastBar.tempo;\n    // An accel./rit. ramps from the start tempo to the end tempo across\n    // all edited bars; a ramp to the same tempo is a steady tempo\n    const startTempo = readTempoInput('editTempoInput', originalMeasure.tempo);\n    const rampEndTempo = readTempoInput('editEndTempoInput', originalEnd);\n    const tempoChange = tempoCurve && rampEndTempo !== startTempo\n        ? { endTempo: rampEndTempo, curve: tempoCurve }\n        : undefined;\n    // Straight subdivisions and unsubdivided measures store nothing\n    const swing = (0, swing_1.canSwing)(subdivision) && swingInput !== swing_1.STRAIGHT_SWING ? swingInput : undefined;\n    const editedMeasure = {\n        ...originalMeasure,\n        timeSignature: { numerator, denominator, grouping },\n        tempo: startTempo,\n        tempoChange,\n        letter: letter || undefined,\n        accents: editingAccents || (0, accentPattern_1.getMeasureAccents)(originalMeasure),\n        beatSounds: undefined,\n        subdivision: subdivision > 1 ? subdivision : undefined,\n        swing,\n    };\n    if (condensedView) {\n        // In condensed view the whole group is replaced by numMeasures bars,\n        // keeping the end markers of its last bar\n        (0, measureEditing_1.copyEndMarkers)(editedMeasure, lastBar);\n        editedMeasure.count = numMeasures;\n        updatedMeasures.splice(measureIndex, groupEnd - measureIndex + 1, editingMarkers ? (0, measureEditing_1.applyMarkers)(editedMeasure, editingMarkers) : editedMeasure);\n    }\n    else {\n        // In detailed view, update only the single measure\n        updatedMeasures[measureIndex] = editingMarkers ? (0, measureEditing_1.applyMarkers)(editedMeasure, editingMarkers) : editedMeasure;\n    }\n    // The app echoes the edit back; the list already shows it\n    skipNextRender = true;\n    bridge.postToApp('UPDATE_SHOW_MEASURES', {\n        showId: show.id,\n        measures: (0, measureEditing_1.compactMeasures)(updatedMeasures),\n    });\n    // Clean up accent and marker configuration\n    editingAccents = null;\n    editingMarkers = null;\n    hideModal('editMeasuresModal');\n});\n(0, dom_1.byId)('deleteMeasuresBtn').addEventListener('click', () => {\n    const show = getSelectedShow();\n    if (!show || !editingMeasureId) {\n        return;\n    }\n    const bars = (0, showMeasures_1.expandMeasures)(show.measures);\n    const measureIndex = bars.findIndex(bar => bar.id === editingMeasureId);\n    if (measureIndex === -1) {\n        return;\n    }\n    // In condensed view, delete the whole group\n    console.log('Deleting measure in condensedView:', condensedView);\n    const range = condensedView ? (0, measureEditing_1.getGroupRange)(bars, measureIndex) : { start: measureIndex, end: measureIndex };\n    const updatedMeasures = (0, measureEditing_1.compactMeasures)([\n        ...bars.slice(0, range.start),\n        ...bars.slice(range.end + 1),\n    ]);\n    // Update the local show object so that the UI can be refreshed immediately\n    show.measures = updatedMeasures;\n    renderMeasures(show);\n    // The app echoes the edit back; the list already shows it\n    skipNextRender = true;\n    bridge.postToApp('UPDATE_SHOW_MEASURES', {\n        showId: show.id,\n        measures: updatedMeasures,\n    });\n    hideModal('editMeasuresModal');\n});\n// Beat sound configuration event listeners\n(0, dom_1.byId)('beatSoundConfigBtn').addEventListener('click', () => {\n    const numerator = parseInt(readValue('editNumeratorInput'), 10);\n    if (isNaN(numerator) || numerator < 1 || numerator > 32) {\n        return;\n    }\n    const denominator = parseInt(readValue('editDenominatorInput'), 10);\n    const grouping = (0, meterGrouping_1.parseGrouping)(readValue('editGroupingInput'), numerator);\n    const timeSignature = { numerator, denominator, grouping: grouping || undefined };\n    // Start from accents chosen earlier in this edit, else the measure's own\n    const show = getSelectedShow();\n    const measure = show ? (0, showMeasures_1.expandMeasures)(show.measures).find(bar => bar.id === editingMeasureId) : undefined;\n    const existingAccents = editingAccents || (measure ? (0, accentPattern_1.getMeasureAccents)(measure) : undefined);\n    buildAccentGrid(timeSignature, existingAccents);\n    showModal('beatSoundModal');\n});\n(0, dom_1.byId)('beatSoundCancelBtn').addEventListener('click', () => {\n    hideModal('beatSoundModal');\n});\n(0, dom_1.byId)('beatSoundSaveBtn').addEventListener('click', () => {\n    // Stored for when the measure is saved\n    editingAccents = collectAccents();\n    hideModal('beatSoundModal');\n});\nconst MARKER_TOGGLE_IDS = {\n    repeatStart: 'markerRepeatStart',\n    segno: 'markerSegno',\n    coda: 'markerCoda',\n    toCoda: 'markerToCoda',\n    fine: 'markerFine',\n};\n// Current markers of the measure (group) being edited\nfunction getEditedMeasureMarkers(show) {\n    const bars = (0, showMeasures_1.expandMeasures)(show.measures);\n    const measureIndex = bars.findIndex(bar => bar.id === editingMeasureId);\n    if (measureIndex === -1)\n        return null;\n    const groupEnd = condensedView ? (0, measureEditing_1.getGroupRange)(bars, measureIndex).end : measureIndex;\n    return (0, measureEditing_1.copyEndMarkers)({ ...bars[measureIndex] }, bars[groupEnd]);\n}\n// Structural marker configuration event listeners\n(0, dom_1.byId)('markersConfigBtn').addEventListener('click', () => {\n    const show = getSelectedShow();\n    if (!show || !editingMeasureId)\n        return;\n    // Load markers being edited, or the current ones of the measure (group)\n    const markers = editingMarkers || getEditedMeasureMarkers(show);\n    if (!markers)\n        return;\n    Object.entries(MARKER_TOGGLE_IDS).forEach(([key, id]) => {\n        (0, dom_1.byId)(id).classList.toggle('active', !!markers[key]);\n    });\n    writeValue('markerRepeatEnd', String(markers.repeatEnd || 0));\n    writeValue('markerEnding', (markers.ending || []).join(','));\n    writeValue('markerJump', markers.jump || '');\n    writeValue('markerPauseType', markers.pause ? markers.pause.type : '');\n    writeValue('markerPauseLength', markers.pause && markers.pause.length ? markers.pause.length : 2);\n    updatePauseLengthVisibility();\n    showModal('markersModal');\n});\n// Holds last until tapped, so only timed pauses have a length\nfunction updatePauseLengthVisibility() {\n    const pauseType = readValue('markerPauseType');\n    (0, dom_1.byId)('markerPauseLengthGroup').style.display = pauseType && pauseType !== 'hold' ? 'block' : 'none';\n}\n(0, dom_1.byId)('markerPauseType').addEventListener('change', updatePauseLengthVisibility);\nObject.values(MARKER_TOGGLE_IDS).forEach(id => {\n    const toggle = (0, dom_1.byId)(id);\n    toggle.addEventListener('click', () => {\n        toggle.classList.toggle('active');\n    });\n});\n(0, dom_1.byId)('markersCancelBtn').addEventListener('click', () => {\n    hideModal('markersModal');\n});\n(0, dom_1.byId)('markersSaveBtn').addEventListener('click', () => {\n    // Endings are a list of positive pass numbers, e.g. \"1,2\"\n    const ending = readValue('markerEnding')\n        .split(',')\n        .map(value => parseInt(value.trim(), 10))\n        .filter(value => !isNaN(value) && value > 0);\n    // A timed pause needs a positive length\n    const pauseType = readValue('markerPauseType');\n    const pauseLength = parseFloat(readValue('markerPauseLength'));\n    let pause;\n    if (pauseType === 'hold') {\n        pause = { type: 'hold' };\n    }\n    else if (pauseType && !isNaN(pauseLength) && pauseLength > 0) {\n        pause = { type: pauseType, length: pauseLength };\n    }\n    const isActive = (id) => (0, dom_1.byId)(id).classList.contains('active');\n    // Stored for when the measure is saved\n    editingMarkers = {\n        repeatStart: isActive(MARKER_TOGGLE_IDS.repeatStart),\n        repeatEnd: parseInt(readValue('markerRepeatEnd'), 10) || undefined,\n        ending,\n        segno: isActive(MARKER_TOGGLE_IDS.segno),\n        coda: isActive(MARKER_TOGGLE_IDS.coda),\n        toCoda: isActive(MARKER_TOGGLE_IDS.toCoda),\n        fine: isActive(MARKER_TOGGLE_IDS.fine),\n        jump: (readValue('markerJump') || undefined),\n        pause,\n    };\n    hideModal('markersModal');\n});\n// Condensed toggle\nconst condensedToggle = (0, dom_1.byId)('condensedToggle');\ncondensedToggle.addEventListener('click', () => {\n    condensedToggle.classList.toggle('active');\n    condensedView = condensedToggle.classList.contains('active');\n    // Save condensedView state to localStorage\n    try {\n        localStorage.setItem('condensedView', JSON.stringify(condensedView));\n    }\n    catch (e) {\n        console.log('Could not save condensedView to localStorage:', e);\n    }\n    console.log('Condensed view toggled to:', condensedView);\n    // Re-render measures in the new mode\n    const show = getSelectedShow();\n    if (show) {\n        renderMeasures(show);\n    }\n});\nlet beatsPerMeasure = 4; // Configurable beats per measure\nfunction updateBeatsPerMeasure(newBeatsPerMeasure) {\n    beatsPerMeasure = newBeatsPerMeasure;\n    console.log('Updated beats per measure to:', beatsPerMeasure);\n}\n// One tempo bar segment per beat; groups of a grouped meter are set apart\nfunction updateTempoBar(numerator, timeSignature) {\n    const tempoBar = (0, dom_1.byId)('tempoBar');\n    tempoBar.innerHTML = '';\n    const groupStarts = timeSignature && (0, meterGrouping_1.getGrouping)(timeSignature) ? (0, meterGrouping_1.getGroupStarts)(timeSignature) : [];\n    for (let i = 0; i < numerator; i++) {\n        const segment = document.createElement('div');\n        segment.className = i > 0 && groupStarts.includes(i) ? 'tempo-segment group-start' : 'tempo-segment';\n        segment.setAttribute('data-beat', String(i));\n        tempoBar.appendChild(segment);\n    }\n}\nfunction updateMeasureNumber(measureNumber, totalMeasures = 0) {\n    const measureNumberElement = (0, dom_1.byId)('measureNumber');\n    const measureTotalElement = (0, dom_1.byId)('measureTotal');\n    if (measureNumber === 'COUNT-OFF') {\n        measureNumberElement.textContent = 'COUNT';\n        measureTotalElement.textContent = 'OFF';\n        measureTotalElement.classList.add('count-off');\n    }\n    else {\n        measureNumberElement.textContent = String(measureNumber || '-');\n        measureTotalElement.textContent = totalMeasures > 0 ? 'of ' + totalMeasures : '';\n        measureTotalElement.classList.remove('count-off');\n    }\n}\nfunction updateMeasureDisplay() {\n    updateMeasureNumber('-', getShowMeasureCount(getSelectedShow()));\n}\n// Highlight the current beat; muted beats are shown as silent\nfunction highlightBeat(beatIndex, isSilent = false) {\n    document.querySelectorAll('.tempo-segment').forEach(segment => {\n        segment.classList.remove('active', 'silent-beat');\n    });\n    const currentSegment = document.querySelector('[data-beat=\"' + beatIndex + '\"]');\n    if (currentSegment) {\n        currentSegment.classList.add(isSilent ? 'silent-beat' : 'active');\n    }\n}\n// Show playback runs on the SoundSystem: the page asks for starts, stops\n// and resumes, and WebViewShow passes the beats and measures heard back\nlet isPlaying = false;\nlet isHolding = false;\nlet pauseDisplayTimer = null;\n(0, dom_1.byId)('playButton').addEventListener('click', () => {\n    if (isPlaying) {\n        bridge.postToApp('STOP_SHOW', {});\n        stopPlaybackDisplay();\n        return;\n    }\n    const show = getSelectedShow();\n    if (!show || !show.measures || show.measures.length === 0) {\n        console.log('No show or measures found');\n        return;\n    }\n    isPlaying = true;\n    (0, dom_1.byId)('playButton').classList.add('playing');\n    (0, dom_1.byId)('iconContainer').classList.add('playing');\n    // Start count-off followed by the show\n    bridge.postToApp('START_SHOW', {\n        showId: show.id,\n        range: (0, playbackRange_1.getShowStartOptions)(playbackOptions),\n    });\n});\n// A beat heard on the SoundSystem; count-in beats show in orange\nfunction showBeat(beat) {\n    if (!isPlaying)\n        return;\n    if (beat.isCountIn) {\n        if (beat.beatIndex === 0) {\n            // Set up orange tempo bar for each bar of the count-in\n            updateTempoBarForCountOff(beat.beatsInMeasure);\n        }\n        highlightBeatForCountOff(beat.beatIndex);\n        return;\n    }\n    if (beat.beatIndex === 0) {\n        stopPauseDisplay();\n        isHolding = false;\n        beatsPerMeasure = beat.beatsInMeasure;\n        updateTempoBar(beatsPerMeasure, beat.timeSignature);\n        updateMeasureNumber(beat.measureNumber, getShowMeasureCount(getSelectedShow()));\n    }\n    highlightBeat(beat.beatIndex, beat.isSilent);\n}\n// A measure completed; a pause after it counts down in the tempo bar\nfunction showMeasureCompleted(measure) {\n    if (!isPlaying || !measure.pause)\n        return;\n    startPauseDisplay(measure.pause, measure.tempo);\n}\n// Tempo bar countdown while a pause runs; holds wait for a tap\nfunction startPauseDisplay(pause, tempo) {\n    stopPauseDisplay();\n    const tempoBar = (0, dom_1.byId)('tempoBar');\n    tempoBar.innerHTML = '<div class=\"tempo-countdown\" id=\"pauseCountdown\"></div>';\n    const countdown = (0, dom_1.byId)('pauseCountdown');\n    const pauseDuration = pause.duration;\n    if (pauseDuration === null) {\n        isHolding = true;\n        countdown.textContent = 'HOLD - TAP TO CONTINUE';\n        return;\n    }\n    const endTime = Date.now() + pauseDuration * 1000;\n    const updateCountdown = () => {\n        const remaining = Math.max(0, endTime - Date.now()) / 1000;\n        if (pause.type === 'beats') {\n            countdown.textContent = String(Math.ceil(remaining * tempo / 60 - 0.001));\n        }\n        else {\n            countdown.textContent = remaining.toFixed(1) + 's';\n        }\n    };\n    updateCountdown();\n    pauseDisplayTimer = setInterval(updateCountdown, 100);\n}\nfunction stopPauseDisplay() {\n    if (pauseDisplayTimer) {\n        clearInterval(pauseDisplayTimer);\n        pauseDisplayTimer = null;\n    }\n}\n// Tap the tempo bar to continue after a hold\n(0, dom_1.byId)('tempoBar').addEventListener('click', () => {\n    if (!isPlaying || !isHolding)\n        return;\n    isHolding = false;\n    stopPauseDisplay();\n    bridge.postToApp('RESUME_SHOW', {});\n});\n// One orange segment per count-in beat in the bar\nfunction updateTempoBarForCountOff(numerator) {\n    const tempoBar = (0, dom_1.byId)('tempoBar');\n    updateMeasureNumber('COUNT-OFF', 0);\n    tempoBar.innerHTML = '';\n    for (let i = 0; i < numerator; i++) {\n        const segment = document.createElement('div');\n        segment.className = 'tempo-segment count-off-segment';\n        segment.setAttribute('data-beat', String(i));\n        tempoBar.appendChild(segment);\n    }\n}\nfunction highlightBeatForCountOff(beatIndex) {\n    document.querySelectorAll('.tempo-segment').forEach(segment => {\n        segment.classList.remove('active', 'silent-beat');\n    });\n    const currentSegment = document.querySelector('[data-beat=\"' + beatIndex + '\"]');\n    if (currentSegment) {\n        currentSegment.classList.add('active');\n    }\n}\n// Playback stopped, ended or failed to start\nfunction stopPlaybackDisplay() {\n    isPlaying = false;\n    isHolding = false;\n    stopPauseDisplay();\n    // Set default 4/4 tempo bar state and reset measure number\n    updateTempoBar(4);\n    updateMeasureDisplay();\n    // Reset button state to play\n    (0, dom_1.byId)('playButton').classList.remove('playing');\n    (0, dom_1.byId)('iconContainer').classList.remove('playing');\n}\n// Initialize\nrenderShows();\n// Initialize tempo bar with default 4/4 state and measure number\nupdateTempoBar(4);\nupdateMeasureDisplay();\n(0, dom_1.byId)('settingsButton').addEventListener('click', () => {\n    bridge.postToApp('OPEN_SETTINGS', {});\n});\n(0, dom_1.byId)('measureButton').addEventListener('click', () => {\n    console.log('Measure button clicked!');\n    bridge.postToApp('OPEN_PLAYBACK_OPTIONS', {});\n});\n// Expose functions to React Native\npageWindow.updateShowsData = updateShowsData;\npageWindow.updatePlaybackOptions = updatePlaybackOptions;\npageWindow.updateBeatsPerMeasure = updateBeatsPerMeasure;\npageWindow.showBeat = showBeat;\npageWindow.showMeasureCompleted = showMeasureCompleted;\npageWindow.showStopped = stopPlaybackDisplay;\nbridge.announceReady();\nconsole.log('WebView Show UI initialized');\n\n  },\n  \"webview/show/measureEditing.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Measure Editing\n * How the show page lists and edits measures. Shows are stored as compact\n * entries; the page expands them into bars, edits the bars and compacts\n * them again. The condensed view groups consecutive bars that play the same\n * (or continue the same tempo ramp) without a marker in between.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.compareAccents = compareAccents;\nexports.hasSameSettings = hasSameSettings;\nexports.isSameMeasure = isSameMeasure;\nexports.continuesTempoRamp = continuesTempoRamp;\nexports.canJoinGroup = canJoinGroup;\nexports.getGroupRange = getGroupRange;\nexports.copyEndMarkers = copyEndMarkers;\nexports.applyMarkers = applyMarkers;\nexports.compactMeasures = compactMeasures;\nexports.getPauseLabel = getPauseLabel;\nexports.getMarkerLabels = getMarkerLabels;\nexports.getTempoLabel = getTempoLabel;\nexports.getUsedLetters = getUsedLetters;\nexports.getAvailableLetters = getAvailableLetters;\nconst accentPattern_1 = require(\"utils/accentPattern.ts\");\nconst showMeasures_1 = require(\"utils/showMeasures.ts\");\nconst showStructure_1 = require(\"utils/showStructure.ts\");\nconst swing_1 = require(\"utils/swing.ts\");\nconst REHEARSAL_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');\n// Whether two measures play the same accent levels (legacy beat sounds included)\nfunction compareAccents(measure1, measure2) {\n    const levels1 = (0, accentPattern_1.getBeatLevels)((0, accentPattern_1.getMeasureAccents)(measure1), measure1.timeSignature);\n    const levels2 = (0, accentPattern_1.getBeatLevels)((0, accentPattern_1.getMeasureAccents)(measure2), measure2.timeSignature);\n    return levels1.join(',') === levels2.join(',');\n}\n// Whether two measures share everything but their tempo\nfunction hasSameSettings(measure1, measure2) {\n    return measure1.timeSignature.numerator === measure2.timeSignature.numerator &&\n        measure1.timeSignature.denominator === measure2.timeSignature.denominator &&\n        (measure1.timeSignature.grouping || []).join('+') === (measure2.timeSignature.grouping || []).join('+') &&\n        measure1.letter === measure2.letter &&\n        (measure1.ending || []).join(',') === (measure2.ending || []).join(',') &&\n        (measure1.subdivision || 1) === (measure2.subdivision || 1) &&\n        (0, swing_1.normalizeSwing)(measure1.swing) === (0, swing_1.normalizeSwing)(measure2.swing) &&\n        compareAccents(measure1, measure2);\n}\n// Whether two measures sound identical and share the same endings\nfunction isSameMeasure(measure1, measure2) {\n    return hasSameSettings(measure1, measure2) &&\n        measure1.tempo === measure2.tempo &&\n        !measure1.tempoChange && !measure2.tempoChange;\n}\n// Tempo change per bar of a ramp entry: BPM per bar for linear curves,\n// log ratio per bar for exponential ones\nfunction getRampRate(measure) {\n    const change = measure.tempoChange;\n    if (!change)\n        return 0;\n    const count = (0, showMeasures_1.getMeasureCount)(measure);\n    if (change.curve === 'exponential') {\n        return Math.log(change.endTempo / measure.tempo) / count;\n    }\n    return (change.endTempo - measure.tempo) / count;\n}\n// Whether 'measure' picks up the tempo curve exactly where 'previous' ends\nfunction continuesTempoRamp(previous, measure) {\n    if (!previous.tempoChange || !measure.tempoChange)\n        return false;\n    if (previous.tempoChange.curve !== measure.tempoChange.curve)\n        return false;\n    const tolerance = measure.tempoChange.curve === 'exponential' ? 0.0001 : 0.01;\n    return hasSameSettings(previous, measure) &&\n        Math.abs(previous.tempoChange.endTempo - measure.tempo) < 0.01 &&\n        Math.abs(getRampRate(previous) - getRampRate(measure)) < tolerance;\n}\nfunction hasStartMarker(measure) {\n    return showStructure_1.START_MARKER_KEYS.some(key => measure[key]);\n}\nfunction hasEndMarker(measure) {\n    return showStructure_1.END_MARKER_KEYS.some(key => measure[key]);\n}\n// Whether 'measure' can continue the entry or group ending with 'previous'\n// without losing a marker in between\nfunction canJoinGroup(previous, measure) {\n    if (hasEndMarker(previous) || hasStartMarker(measure))\n        return false;\n    if (previous.tempoChange || measure.tempoChange)\n        return continuesTempoRamp(previous, measure);\n    return isSameMeasure(previous, measure);\n}\n// Index range of the condensed group containing bar 'index'\nfunction getGroupRange(bars, index) {\n    let start = index;\n    let end = index;\n    while (start > 0 && canJoinGroup(bars[start - 1], bars[start]))\n        start--;\n    while (end + 1 < bars.length && canJoinGroup(bars[end], bars[end + 1]))\n        end++;\n    return { start, end };\n}\nfunction setMarker(measure, key, value) {\n    if (value) {\n        measure[key] = value;\n    }\n    else {\n        delete measure[key];\n    }\n}\n// Copy the end markers of 'source' onto 'target'\nfunction copyEndMarkers(target, source) {\n    showStructure_1.END_MARKER_KEYS.forEach(key => setMarker(target, key, source[key]));\n    return target;\n}\n// Replace all structural markers of 'measure' with 'markers'\nfunction applyMarkers(measure, markers) {\n    showStructure_1.START_MARKER_KEYS.concat(showStructure_1.END_MARKER_KEYS).forEach(key => setMarker(measure, key, markers[key]));\n    setMarker(measure, 'ending', markers.ending && markers.ending.length > 0 ? markers.ending : undefined);\n    return measure;\n}\n// Merge consecutive identical measures into compact entries with a count\nfunction compactMeasures(measures) {\n    const compacted = [];\n    measures.forEach(measure => {\n        const last = compacted.length > 0 ? compacted[compacted.length - 1] : null;\n        if (last && canJoinGroup(last, measure)) {\n            last.count += (0, showMeasures_1.getMeasureCount)(measure);\n            copyEndMarkers(last, measure);\n            if (last.tempoChange && measure.tempoChange) {\n                last.tempoChange = { ...last.tempoChange, endTempo: measure.tempoChange.endTempo };\n            }\n        }\n        else {\n            compacted.push({ ...measure, count: (0, showMeasures_1.getMeasureCount)(measure) });\n        }\n    });\n    return compacted;\n}\n// e.g. \"Hold\", \"G.P. 2s\" or \"Fermata 3 beats\"\nfunction getPauseLabel(pause) {\n    if (pause.type === 'hold')\n        return 'Hold';\n    if (pause.type === 'seconds')\n        return 'G.P. ' + pause.length + 's';\n    return 'Fermata ' + pause.length + (pause.length === 1 ? ' beat' : ' beats');\n}\n// Short labels for the markers shown in the measure list\nfunction getMarkerLabels(measure) {\n    const labels = [];\n    if (measure.repeatStart)\n        labels.push('‖:');\n    if (measure.segno)\n        labels.push('Segno');\n    if (measure.coda)\n        labels.push('Coda');\n    if (measure.ending && measure.ending.length > 0)\n        labels.push(measure.ending.join(',') + '.');\n    if (measure.repeatEnd)\n        labels.push(':‖ ×' + measure.repeatEnd);\n    if (measure.toCoda)\n        labels.push('To Coda');\n    if (measure.fine)\n        labels.push('Fine');\n    if (measure.jump)\n        labels.push(showStructure_1.JUMP_LABELS[measure.jump]);\n    if (measure.pause)\n        labels.push(getPauseLabel(measure.pause));\n    return labels;\n}\n// Tempo shown in the measure list, e.g. \"120 BPM\" or \"accel. 100→140 BPM\"\nfunction getTempoLabel(measure) {\n    if (!measure.tempoChange)\n        return Math.round(measure.tempo) + ' BPM';\n    const direction = measure.tempoChange.endTempo > measure.tempo ? 'accel.' : 'rit.';\n    return direction + ' ' + Math.round(measure.tempo) + '→' + Math.round(measure.tempoChange.endTempo) + ' BPM';\n}\n// Rehearsal letters of a show, each once\nfunction getUsedLetters(show) {\n    if (!show || !show.measures)\n        return [];\n    return show.measures\n        .map(measure => measure.letter)\n        .filter((letter) => !!letter && letter.trim() !== '')\n        .filter((letter, index, letters) => letters.indexOf(letter) === index);\n}\n// Rehearsal letters not yet used in a show\nfunction getAvailableLetters(show) {\n    const usedLetters = getUsedLetters(show);\n    return REHEARSAL_LETTERS.filter(letter => !usedLetters.includes(letter));\n}\n\n  },\n  \"utils/accentPattern.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Accent Pattern\n * Per-beat accent levels shared by show measures and the metronome. Every beat,\n * and every subdivision click after it, is accented, normal, ghosted or muted;\n * each sound type maps a level to its own volume and pitch.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.ACCENT_VOICES = exports.ACCENT_LEVEL_LABELS = exports.ACCENT_LEVELS = void 0;\nexports.getAccentVoice = getAccentVoice;\nexports.getDefaultAccentLevel = getDefaultAccentLevel;\nexports.getAccentLevel = getAccentLevel;\nexports.getBeatLevels = getBeatLevels;\nexports.cycleAccentLevel = cycleAccentLevel;\nexports.setAccentLevel = setAccentLevel;\nexports.accentsFromBeatSounds = accentsFromBeatSounds;\nexports.getMeasureAccents = getMeasureAccents;\nconst meterGrouping_1 = require(\"utils/meterGrouping.ts\");\nexports.ACCENT_LEVELS = ['accent', 'normal', 'ghost', 'mute'];\nexports.ACCENT_LEVEL_LABELS = {\n    accent: 'Accent',\n    normal: 'Normal',\n    ghost: 'Ghost',\n    mute: 'Mute',\n};\n// Accent and normal keep each sound's original high and low clicks; ghost\n// notes are quieter and slightly lower, tuned per sound\nexports.ACCENT_VOICES = {\n    synth: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.35, pitch: 0.9 } },\n    woodblock: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.3, pitch: 0.94 } },\n    cowbell: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.4, pitch: 0.97 } },\n    click: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.3, pitch: 0.85 } },\n    beep: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.3, pitch: 0.9 } },\n    drbeat: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.2, pitch: 0.9 } },\n    sharp: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.2, pitch: 0.92 } },\n};\nfunction getAccentVoice(soundType, level) {\n    if (level === 'mute')\n        return null;\n    const voices = exports.ACCENT_VOICES[soundType] || exports.ACCENT_VOICES.synth;\n    return { high: level === 'accent', ...voices[level] };\n}\n// The downbeat, and the first beat of each group in a grouped meter, are accented\nfunction getDefaultAccentLevel(timeSignature, beatIndex) {\n    if (beatIndex === 0)\n        return 'accent';\n    return (0, meterGrouping_1.getGrouping)(timeSignature) && (0, meterGrouping_1.isGroupStart)(timeSignature, beatIndex) ? 'accent' : 'normal';\n}\n// Level of one click; subdivisionIndex 0 is the beat itself\nfunction getAccentLevel(pattern, beatIndex, subdivisionIndex, defaultLevel) {\n    var _a, _b, _c;\n    if (subdivisionIndex > 0) {\n        return ((_b = (_a = pattern === null || pattern === void 0 ? void 0 : pattern.subdivisions) === null || _a === void 0 ? void 0 : _a[beatIndex]) === null || _b === void 0 ? void 0 : _b[subdivisionIndex - 1]) || 'normal';\n    }\n    return ((_c = pattern === null || pattern === void 0 ? void 0 : pattern.beats) === null || _c === void 0 ? void 0 : _c[beatIndex]) || defaultLevel;\n}\n// One level per beat of the meter, filling in defaults\nfunction getBeatLevels(pattern, timeSignature) {\n    return Array.from({ length: timeSignature.numerator }, (_, beat) => getAccentLevel(pattern, beat, 0, getDefaultAccentLevel(timeSignature, beat)));\n}\nfunction cycleAccentLevel(level) {\n    return exports.ACCENT_LEVELS[(exports.ACCENT_LEVELS.indexOf(level) + 1) % exports.ACCENT_LEVELS.length];\n}\n// A copy of the pattern with one click set to 'level'\nfunction setAccentLevel(pattern, timeSignature, beatIndex, subdivisionIndex, level) {\n    const beats = getBeatLevels(pattern, timeSignature);\n    const subdivisions = ((pattern === null || pattern === void 0 ? void 0 : pattern.subdivisions) || []).map(levels => [...(levels || [])]);\n    if (subdivisionIndex === 0) {\n        beats[beatIndex] = level;\n    }\n    else {\n        while (subdivisions.length <= beatIndex)\n            subdivisions.push([]);\n        const levels = subdivisions[beatIndex];\n        while (levels.length < subdivisionIndex)\n            levels.push('normal');\n        levels[subdivisionIndex - 1] = level;\n    }\n    return subdivisions.length > 0 ? { beats, subdivisions } : { beats };\n}\nfunction accentsFromBeatSounds(beatSounds, numerator) {\n    return {\n        beats: Array.from({ length: numerator }, (_, beat) => {\n            if ((beatSounds.high || []).includes(beat))\n                return 'accent';\n            return (beatSounds.low || []).includes(beat) ? 'normal' : 'mute';\n        }),\n    };\n}\n// A measure's accents, reading the older high/low beat sounds when it has no pattern\nfunction getMeasureAccents(measure) {\n    if (measure.accents)\n        return measure.accents;\n    return measure.beatSounds ? accentsFromBeatSounds(measure.beatSounds, measure.timeSignature.numerator) : undefined;\n}\n\n  },\n  \"utils/meterGrouping.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Meter Grouping\n * Optional beat grouping for compound and additive meters (3+3/8, 2+2+3/8).\n * A grouped meter pulses on the first beat of each group, and its tempo counts\n * the shortest group: 6/8 grouped 3+3 at 60 BPM is dotted quarter = 60.\n * Meters without a grouping keep the tempo in quarter notes.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.MAX_GROUPED_BEATS = void 0;\nexports.isValidGrouping = isValidGrouping;\nexports.getGrouping = getGrouping;\nexports.getGroupStarts = getGroupStarts;\nexports.isGroupStart = isGroupStart;\nexports.getBeatScale = getBeatScale;\nexports.formatGrouping = formatGrouping;\nexports.parseGrouping = parseGrouping;\nexports.formatTimeSignature = formatTimeSignature;\nexports.getGroupingOptions = getGroupingOptions;\n// Grouping suggestions are generated up to this many beats per bar\nexports.MAX_GROUPED_BEATS = 16;\nfunction isValidGrouping(grouping, numerator) {\n    if (!Array.isArray(grouping) || grouping.length === 0)\n        return false;\n    if (!grouping.every(size => Number.isInteger(size) && size >= 1))\n        return false;\n    return grouping.reduce((sum, size) => sum + size, 0) === numerator;\n}\n// The meter's grouping, or null when it has none (or it no longer fits)\nfunction getGrouping(timeSignature) {\n    return isValidGrouping(timeSignature.grouping, timeSignature.numerator) ? timeSignature.grouping : null;\n}\n// Beat indices that start a group; every beat when the meter is not grouped\nfunction getGroupStarts(timeSignature) {\n    const grouping = getGrouping(timeSignature);\n    if (!grouping) {\n        return Array.from({ length: timeSignature.numerator }, (_, beat) => beat);\n    }\n    const starts = [];\n    let beat = 0;\n    grouping.forEach(size => {\n        starts.push(beat);\n        beat += size;\n    });\n    return starts;\n}\nfunction isGroupStart(timeSignature, beatIndex) {\n    return getGroupStarts(timeSignature).includes(beatIndex);\n}\n/**\n * Length of one beat (one count of the numerator) in tempo units. Ungrouped\n * meters count quarter notes (4 / denominator); grouped meters count the\n * shortest group, so a beat is 1 / (shortest group) of a tempo unit.\n */\nfunction getBeatScale(timeSignature) {\n    const grouping = getGrouping(timeSignature);\n    return grouping ? 1 / Math.min(...grouping) : 4 / timeSignature.denominator;\n}\nfunction formatGrouping(grouping) {\n    return grouping.join('+');\n}\n// Parse \"2+2+3\"; undefined for an empty string, null when it is not a grouping\nfunction parseGrouping(text, numerator) {\n    const trimmed = text.trim();\n    if (!trimmed)\n        return undefined;\n    const grouping = trimmed.split('+').map(part => Number(part.trim()));\n    return isValidGrouping(grouping, numerator) ? grouping : null;\n}\nfunction formatTimeSignature(timeSignature) {\n    const grouping = getGrouping(timeSignature);\n    const prefix = grouping ? `${formatGrouping(grouping)}/` : `${timeSignature.numerator}/`;\n    return `${prefix}${timeSignature.denominator}`;\n}\n// Groupings of 2s and 3s that fill the bar, e.g. 7 -> 2+2+3, 2+3+2, 3+2+2\nfunction getGroupingOptions(numerator) {\n    if (numerator < 4 || numerator > exports.MAX_GROUPED_BEATS)\n        return [];\n    const options = [];\n    const build = (remaining, groups) => {\n        if (remaining === 0) {\n            options.push(groups);\n            return;\n        }\n        [2, 3].forEach(size => {\n            if (size <= remaining)\n                build(remaining - size, [...groups, size]);\n        });\n    };\n    build(numerator, []);\n    return options;\n}\n\n  },\n  \"utils/showMeasures.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Show Measures\n * Shows are stored compactly: one measure entry with `count` N stands for N\n * identical bars. These helpers convert between entries and bar numbers.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.getMeasureCount = getMeasureCount;\nexports.getTotalMeasureCount = getTotalMeasureCount;\nexports.getMeasureStartNumbers = getMeasureStartNumbers;\nexports.expandMeasures = expandMeasures;\nconst showStructure_1 = require(\"utils/showStructure.ts\");\nconst tempoCurve_1 = require(\"utils/tempoCurve.ts\");\n// Number of bars a measure entry stands for\nfunction getMeasureCount(measure) {\n    return measure.count && measure.count > 0 ? measure.count : 1;\n}\n// Total number of bars in a list of measure entries\nfunction getTotalMeasureCount(measures) {\n    return measures.reduce((total, measure) => total + getMeasureCount(measure), 0);\n}\n// 1-based bar number of the first bar of each measure entry\nfunction getMeasureStartNumbers(measures) {\n    const startNumbers = [];\n    let barNumber = 1;\n    measures.forEach(measure => {\n        startNumbers.push(barNumber);\n        barNumber += getMeasureCount(measure);\n    });\n    return startNumbers;\n}\n// Expand measure entries into one entry per bar. Start markers stay on the\n// first bar and end markers on the last; ids of later bars are derived from\n// the entry's id. A tempo change is split so each bar ramps over its own\n// part of the curve.\nfunction expandMeasures(measures) {\n    const bars = [];\n    measures.forEach(measure => {\n        const count = getMeasureCount(measure);\n        for (let i = 0; i < count; i++) {\n            const bar = { ...measure, count: 1 };\n            if (i > 0) {\n                if (measure.id !== undefined)\n                    bar.id = `${measure.id}:${i}`;\n                showStructure_1.START_MARKER_KEYS.forEach(key => delete bar[key]);\n            }\n            if (i < count - 1) {\n                showStructure_1.END_MARKER_KEYS.forEach(key => delete bar[key]);\n            }\n            if (measure.tempoChange && count > 1) {\n                bar.tempo = (0, tempoCurve_1.roundTempo)((0, tempoCurve_1.getRampTempo)(measure, i / count));\n                bar.tempoChange = {\n                    ...measure.tempoChange,\n                    endTempo: (0, tempoCurve_1.roundTempo)((0, tempoCurve_1.getRampTempo)(measure, (i + 1) / count)),\n                };\n            }\n            bars.push(bar);\n        }\n    });\n    return bars;\n}\n\n  },\n  \"utils/showStructure.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Show Structure\n * Structural markers on show measures (repeats, numbered endings, segno, coda,\n * fine, D.C./D.S. jumps and pauses) and the resolver that unrolls them into the\n * order bars are actually played in.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.JUMP_LABELS = exports.END_MARKER_KEYS = exports.START_MARKER_KEYS = void 0;\nexports.getPauseDuration = getPauseDuration;\nexports.resolvePlaybackOrder = resolvePlaybackOrder;\nconst meterGrouping_1 = require(\"utils/meterGrouping.ts\");\nconst tempoCurve_1 = require(\"utils/tempoCurve.ts\");\nexports.START_MARKER_KEYS = ['repeatStart', 'segno', 'coda'];\nexports.END_MARKER_KEYS = ['repeatEnd', 'toCoda', 'fine', 'jump', 'pause'];\nexports.JUMP_LABELS = {\n    dc: 'D.C.',\n    dcAlFine: 'D.C. al Fine',\n    dcAlCoda: 'D.C. al Coda',\n    ds: 'D.S.',\n    dsAlFine: 'D.S. al Fine',\n    dsAlCoda: 'D.S. al Coda',\n};\n// Upper bound on unrolled bars so malformed markers can never loop forever\nconst MAX_PLAYED_BARS = 10000;\n// Length in seconds of the pause after a measure, null for a hold (or no pause: 0)\nfunction getPauseDuration(measure) {\n    const pause = measure.pause;\n    if (!pause)\n        return 0;\n    if (pause.type === 'hold')\n        return null;\n    const length = pause.length && pause.length > 0 ? pause.length : 0;\n    if (pause.type === 'seconds')\n        return length;\n    // Beats continue at the tempo the measure ends on\n    const beatDuration = (60 / (0, tempoCurve_1.getRampTempo)(measure, 1)) * (0, meterGrouping_1.getBeatScale)(measure.timeSignature);\n    return length * beatDuration;\n}\nfunction hasEnding(bar) {\n    return !!bar.ending && bar.ending.length > 0;\n}\n// Highest ending number of the volta bracket group containing bar 'index'\nfunction getFinalEnding(bars, index) {\n    let start = index;\n    let end = index;\n    while (start > 0 && hasEnding(bars[start - 1]))\n        start--;\n    while (end + 1 < bars.length && hasEnding(bars[end + 1]))\n        end++;\n    let finalEnding = 1;\n    for (let i = start; i <= end; i++) {\n        bars[i].ending.forEach(ending => {\n            finalEnding = Math.max(finalEnding, ending);\n        });\n    }\n    return finalEnding;\n}\nfunction findMarker(bars, marker, fromIndex) {\n    for (let i = fromIndex; i < bars.length; i++) {\n        if (bars[i][marker])\n            return i;\n    }\n    return -1;\n}\n/**\n * Unroll the markers of a per-bar measure list into playback order.\n * Returns written bar indexes (0-based) in the order they are played.\n * Repeats are not taken again after a D.C./D.S. jump, and only the final\n * ending of each volta bracket is played on that pass.\n */\nfunction resolvePlaybackOrder(bars) {\n    const order = [];\n    const repeatsTaken = {};\n    let sectionStart = 0;\n    let pass = 1;\n    let activeRepeatEnd = -1;\n    let returning = false;\n    let jumpTaken = false;\n    let jumpUntil = null;\n    let i = 0;\n    while (i < bars.length && order.length < MAX_PLAYED_BARS) {\n        const bar = bars[i];\n        // A repeat sign reached going forwards opens a new section\n        if (bar.repeatStart && !returning) {\n            sectionStart = i;\n            pass = 1;\n            activeRepeatEnd = -1;\n        }\n        else if (activeRepeatEnd >= 0 && i > activeRepeatEnd && !hasEnding(bar)) {\n            // Past the last repeat and its endings - the next repeat goes back to here\n            sectionStart = i;\n            pass = 1;\n            activeRepeatEnd = -1;\n        }\n        returning = false;\n        // Numbered endings are only played on their pass\n        if (hasEnding(bar)) {\n            const playedPass = jumpTaken ? getFinalEnding(bars, i) : pass;\n            if (!bar.ending.includes(playedPass)) {\n                i++;\n                continue;\n            }\n        }\n        order.push(i);\n        if (jumpTaken) {\n            if (jumpUntil === 'fine' && bar.fine)\n                break;\n            if (jumpUntil === 'coda' && bar.toCoda) {\n                const codaIndex = findMarker(bars, 'coda', i + 1);\n                if (codaIndex === -1)\n                    break;\n                i = codaIndex;\n                continue;\n            }\n        }\n        if (!jumpTaken && bar.repeatEnd && bar.repeatEnd > 1) {\n            const taken = repeatsTaken[i] || 0;\n            if (taken < bar.repeatEnd - 1) {\n                repeatsTaken[i] = taken + 1;\n                pass++;\n                activeRepeatEnd = Math.max(activeRepeatEnd, i);\n                returning = true;\n                i = sectionStart;\n                continue;\n            }\n        }\n        if (!jumpTaken && bar.jump) {\n            jumpTaken = true;\n            jumpUntil = bar.jump.endsWith('AlFine') ? 'fine' : bar.jump.endsWith('AlCoda') ? 'coda' : null;\n            i = bar.jump.startsWith('ds') ? Math.max(0, findMarker(bars, 'segno', 0)) : 0;\n            continue;\n        }\n        i++;\n    }\n    return order;\n}\n\n  },\n  \"utils/tempoCurve.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Tempo Curve\n * Gradual tempo changes (accelerando / ritardando) across a measure entry.\n * The tempo moves from the entry's tempo to endTempo over all of its beats,\n * and beat durations are integrated from the curve so every beat lands\n * exactly where the curve puts it.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.roundTempo = roundTempo;\nexports.getRampTempo = getRampTempo;\nexports.getRampBeatDuration = getRampBeatDuration;\n// Tempos derived from a curve are stored with this many decimals\nconst TEMPO_PRECISION = 1000;\nfunction roundTempo(tempo) {\n    return Math.round(tempo * TEMPO_PRECISION) / TEMPO_PRECISION;\n}\n// Tempo after 'fraction' (0..1) of the measure's beats\nfunction getRampTempo(measure, fraction) {\n    const change = measure.tempoChange;\n    if (!change)\n        return measure.tempo;\n    if (change.curve === 'exponential') {\n        return measure.tempo * Math.pow(change.endTempo / measure.tempo, fraction);\n    }\n    return measure.tempo + (change.endTempo - measure.tempo) * fraction;\n}\n/**\n * Duration in seconds of beat 'beatIndex' of a single bar whose tempo follows\n * its curve over 'beatsInBar' beats. 'beatScale' converts quarter notes to\n * the beat unit (4 / denominator).\n */\nfunction getRampBeatDuration(measure, beatIndex, beatsInBar, beatScale) {\n    const startTempo = getRampTempo(measure, beatIndex / beatsInBar);\n    const change = measure.tempoChange;\n    if (!change || change.endTempo === measure.tempo) {\n        return (60 / startTempo) * beatScale;\n    }\n    if (change.curve === 'exponential') {\n        // T(x) = T0 * r^x per beat: integral of 60 / T(x) over one beat\n        const logRatio = Math.log(change.endTempo / measure.tempo) / beatsInBar;\n        return (60 / startTempo) * ((1 - Math.exp(-logRatio)) / logRatio) * beatScale;\n    }\n    // T(x) = T0 + k * x per beat: integral of 60 / T(x) over one beat\n    const slope = (change.endTempo - measure.tempo) / beatsInBar;\n    const endTempo = startTempo + slope;\n    return (60 / slope) * Math.log(endTempo / startTempo) * beatScale;\n}\n\n  },\n  \"utils/swing.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Swing\n * Swing feel for eighth and sixteenth subdivisions. The swing ratio is the\n * share of each pair of subdivisions taken by its first note: 50% plays\n * straight, 66% is triplet swing and 75% a hard (dotted) shuffle.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.SWING_PRESETS = exports.MAX_SWING = exports.TRIPLET_SWING = exports.STRAIGHT_SWING = void 0;\nexports.canSwing = canSwing;\nexports.normalizeSwing = normalizeSwing;\nexports.getSubdivisionOffset = getSubdivisionOffset;\nexports.STRAIGHT_SWING = 50;\nexports.TRIPLET_SWING = 66;\nexports.MAX_SWING = 75;\nexports.SWING_PRESETS = [\n    { value: exports.STRAIGHT_SWING, label: 'Straight' },\n    { value: exports.TRIPLET_SWING, label: 'Triplet' },\n    { value: exports.MAX_SWING, label: 'Shuffle' },\n];\n// Only eighths and sixteenths come in pairs that can be swung\nfunction canSwing(subdivision) {\n    return subdivision === 2 || subdivision === 4;\n}\n// Whole percent between straight and the hardest shuffle\nfunction normalizeSwing(swing) {\n    const percent = Math.round(Number(swing));\n    return Number.isFinite(percent) ? Math.min(Math.max(percent, exports.STRAIGHT_SWING), exports.MAX_SWING) : exports.STRAIGHT_SWING;\n}\n/**\n * Where a subdivision click falls, as a fraction of its beat. Every second\n * click of a pair is pushed back to the swing ratio; subdivisions that cannot\n * swing stay evenly spaced.\n */\nfunction getSubdivisionOffset(subdivisionIndex, subdivision, swing) {\n    if (!canSwing(subdivision))\n        return subdivisionIndex / subdivision;\n    const pairLength = 2 / subdivision;\n    const pair = Math.floor(subdivisionIndex / 2);\n    const offBeat = subdivisionIndex % 2 === 1 ? normalizeSwing(swing) / 100 : 0;\n    return (pair + offBeat) * pairLength;\n}\n\n  },\n  \"webview/show/playbackRange.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Playback Range\n * Where show playback starts and stops, as chosen in the playback options\n * the app keeps, turned into the start options of the SoundSystem. A\n * letter points at the first bar carrying it.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.DEFAULT_PLAYBACK_OPTIONS = void 0;\nexports.getShowStartOptions = getShowStartOptions;\nexports.getPlaybackRangeLabels = getPlaybackRangeLabels;\nconst measureEditing_1 = require(\"webview/show/measureEditing.ts\");\nexports.DEFAULT_PLAYBACK_OPTIONS = {\n    startType: 'beginning',\n    startMeasure: '1',\n    startLetter: '',\n    endType: 'beginning',\n    endMeasure: '1',\n    endLetter: '',\n};\n// Start and end for the SoundSystem's START_SHOW; measures and letters\n// missing from the show fall back to the beginning and end there\nfunction getShowStartOptions(options) {\n    const range = { startType: 'beginning', endType: 'end' };\n    if (options.startType === 'measure') {\n        range.startType = 'specific';\n        range.startMeasure = parseInt(options.startMeasure, 10) || 1;\n    }\n    else if (options.startType === 'letter' && options.startLetter) {\n        range.startType = 'specific';\n        range.startLetter = options.startLetter;\n    }\n    if (options.endType === 'measure') {\n        range.endType = 'specific';\n        range.endMeasure = parseInt(options.endMeasure, 10) || 1;\n    }\n    else if (options.endType === 'letter' && options.endLetter) {\n        range.endType = 'specific';\n        range.endLetter = options.endLetter;\n    }\n    return range;\n}\n// Start and end as shown under the play button; letters missing from the\n// show fall back to the beginning and end\nfunction getPlaybackRangeLabels(show, options) {\n    const letters = (0, measureEditing_1.getUsedLetters)(show);\n    let start = 'Beginning';\n    if (options.startType === 'measure') {\n        start = `Measure ${options.startMeasure}`;\n    }\n    else if (options.startType === 'letter' && options.startLetter && letters.includes(options.startLetter)) {\n        start = `Letter ${options.startLetter}`;\n    }\n    let end = 'End';\n    if (options.endType === 'measure') {\n        end = `Measure ${options.endMeasure}`;\n    }\n    else if (options.endType === 'letter' && options.endLetter && letters.includes(options.endLetter)) {\n        end = `Letter ${options.endLetter}`;\n    }\n    return { start, end };\n}\n\n  },\n  \"webview/shared/bridge.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Page Bridge\n * The page side of the message protocol in types/MessageProtocol.ts, for\n * pages bundled from TypeScript: typed messages to React Native, incoming\n * messages checked against the same schemas React Native uses, and the\n * READY announcement that releases the messages React Native held back.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.createPageBridge = createPageBridge;\nconst MessageProtocol_1 = require(\"types/MessageProtocol.ts\");\nconst messageSchema_1 = require(\"utils/messageSchema.ts\");\nconst pageWindow_1 = require(\"webview/shared/pageWindow.ts\");\n// Bridge of a page answering on 'responseChannel' and listening on 'messageChannel'\nfunction createPageBridge(responseChannel, messageChannel) {\n    // Every response channel carries READY and PROTOCOL_ERROR, which the\n    // generic payload types cannot show\n    const post = (type, payload, requestId) => {\n        const nativeBridge = (0, pageWindow_1.getPageWindow)().ReactNativeWebView;\n        if (!nativeBridge)\n            return;\n        nativeBridge.postMessage(JSON.stringify({\n            type,\n            payload,\n            timestamp: Date.now(),\n            ...(requestId ? { requestId } : {}),\n        }));\n    };\n    const readMessage = (raw) => {\n        if (!messageChannel)\n            return null;\n        let data;\n        try {\n            data = typeof raw === 'string' ? JSON.parse(raw) : raw;\n        }\n        catch {\n            post('PROTOCOL_ERROR', { messageType: null, errors: ['Message is not valid JSON'] });\n            return null;\n        }\n        const result = (0, messageSchema_1.validateMessage)(messageChannel, data);\n        if (!result.message) {\n            const requestId = data === null || data === void 0 ? void 0 : data.requestId;\n            post('PROTOCOL_ERROR', { messageType: result.type, errors: result.errors }, typeof requestId === 'string' ? requestId : undefined);\n        }\n        return result.message;\n    };\n    return {\n        postToApp: post,\n        readMessage,\n        announceReady: () => post('READY', { protocolVersion: MessageProtocol_1.PROTOCOL_VERSION }),\n    };\n}\n\n  },\n  \"types/MessageProtocol.ts\": function (require, module, exports) {\n\"use strict\";\n// Unified message protocol between React Native and the WebViews. Every\n// channel is a discriminated union on 'type'; the schemas in\n// utils/messageSchema.ts check each message where it is received.\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.COMMAND_ACKS = exports.RESPONSE_TYPES = exports.MESSAGE_TYPES = exports.PROTOCOL_VERSION = void 0;\n// Raised whenever a change to the messages would break a page built for the\n// previous version. Every page announces the version it speaks in READY.\nexports.PROTOCOL_VERSION = 2;\n// Message types - React Native to the SoundSystem WebView. The tuner listens\n// to the microphone in React Native, so it has no messages of its own.\nexports.MESSAGE_TYPES = {\n    // System\n    INIT_AUDIO: 'INIT_AUDIO',\n    SUSPEND_AUDIO: 'SUSPEND_AUDIO',\n    UPDATE_THEME: 'UPDATE_THEME',\n    UPDATE_SOUND: 'UPDATE_SOUND',\n    // Metronome\n    START_METRONOME: 'START_METRONOME',\n    STOP_METRONOME: 'STOP_METRONOME',\n    UPDATE_METRONOME_SETTINGS: 'UPDATE_METRONOME_SETTINGS',\n    // Show\n    LOAD_SHOW: 'LOAD_SHOW',\n    START_SHOW: 'START_SHOW',\n    STOP_SHOW: 'STOP_SHOW',\n    RESUME_SHOW: 'RESUME_SHOW',\n    UPDATE_SHOW_SETTINGS: 'UPDATE_SHOW_SETTINGS',\n    RENDER_SHOW_WAV: 'RENDER_SHOW_WAV',\n};\n// Message types - SoundSystem WebView to React Native\nexports.RESPONSE_TYPES = {\n    // Metronome responses\n    METRONOME_BEAT: 'METRONOME_BEAT',\n    METRONOME_LAYER_PULSE: 'METRONOME_LAYER_PULSE',\n    METRONOME_STARTED: 'METRONOME_STARTED',\n    METRONOME_STOPPED: 'METRONOME_STOPPED',\n    // Show responses\n    SHOW_LOADED: 'SHOW_LOADED',\n    SHOW_BEAT: 'SHOW_BEAT',\n    SHOW_MEASURE_COMPLETED: 'SHOW_MEASURE_COMPLETED',\n    SHOW_STARTED: 'SHOW_STARTED',\n    SHOW_STOPPED: 'SHOW_STOPPED',\n    SHOW_WAV_RENDERED: 'SHOW_WAV_RENDERED',\n    // System responses\n    READY: 'READY',\n    COMMAND_APPLIED: 'COMMAND_APPLIED',\n    AUDIO_INITIALIZED: 'AUDIO_INITIALIZED',\n    AUDIO_ERROR: 'AUDIO_ERROR',\n    PROTOCOL_ERROR: 'PROTOCOL_ERROR',\n};\n// The response that acknowledges each command, sent back with the command's\n// requestId. AUDIO_ERROR with the requestId means the command failed.\nexports.COMMAND_ACKS = {\n    INIT_AUDIO: 'AUDIO_INITIALIZED',\n    SUSPEND_AUDIO: 'COMMAND_APPLIED',\n    UPDATE_THEME: 'COMMAND_APPLIED',\n    UPDATE_SOUND: 'COMMAND_APPLIED',\n    START_METRONOME: 'METRONOME_STARTED',\n    STOP_METRONOME: 'COMMAND_APPLIED',\n    UPDATE_METRONOME_SETTINGS: 'COMMAND_APPLIED',\n    LOAD_SHOW: 'SHOW_LOADED',\n    START_SHOW: 'SHOW_STARTED',\n    STOP_SHOW: 'COMMAND_APPLIED',\n    RESUME_SHOW: 'COMMAND_APPLIED',\n    UPDATE_SHOW_SETTINGS: 'COMMAND_APPLIED',\n    RENDER_SHOW_WAV: 'SHOW_WAV_RENDERED',\n};\n\n  },\n  \"utils/messageSchema.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Message Schema\n * Runtime checks for the message protocol in types/MessageProtocol.ts. Every\n * channel lists the payload fields of each of its message types; a message is\n * checked where it is received, and every problem is reported with the path\n * of the field it is in. Fields a schema does not list are let through.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.MESSAGE_SCHEMAS = void 0;\nexports.validateMessage = validateMessage;\nexports.parseMessage = parseMessage;\nconst MessageProtocol_1 = require(\"types/MessageProtocol.ts\");\nconst accentPattern_1 = require(\"utils/accentPattern.ts\");\nconst countIn_1 = require(\"utils/countIn.ts\");\nconst rhythmLayers_1 = require(\"utils/rhythmLayers.ts\");\nconst showStructure_1 = require(\"utils/showStructure.ts\");\nconst str = (values) => (values ? { type: 'string', values } : { type: 'string' });\nconst num = { type: 'number' };\nconst bool = { type: 'boolean' };\nconst obj = (fields) => ({ type: 'object', fields });\nconst arr = (items) => ({ type: 'array', items });\nconst optional = (spec) => ({ ...spec, optional: true });\n// Every field optional, for messages that update only some settings\nconst partial = (fields) => Object.fromEntries(Object.entries(fields).map(([name, spec]) => [name, optional(spec)]));\nconst TIME_SIGNATURE = obj({\n    numerator: num,\n    denominator: num,\n    grouping: optional(arr(num)),\n});\nconst ACCENT_LEVEL = str(accentPattern_1.ACCENT_LEVELS);\nconst ACCENTS = obj({\n    beats: arr(ACCENT_LEVEL),\n    subdivisions: optional(arr(arr(ACCENT_LEVEL))),\n});\nconst COUNT_IN_FIELDS = {\n    enabled: bool,\n    length: num,\n    unit: str(['bars', 'beats']),\n    meter: str(['firstMeasure', 'fixed']),\n    sound: str(countIn_1.COUNT_IN_SOUNDS.map(sound => sound.value)),\n    spoken: bool,\n    skipWhenResuming: bool,\n};\nconst LAYER = obj({\n    id: str(),\n    mode: str(rhythmLayers_1.LAYER_MODES.map(mode => mode.value)),\n    pulses: num,\n    unit: num,\n    sound: str(),\n    volume: num,\n    accents: optional(arr(ACCENT_LEVEL)),\n});\nconst GAP_TRAINER = obj({\n    enabled: bool,\n    playBars: num,\n    silentBars: num,\n    randomMute: num,\n});\nconst PAUSE_TYPES = ['seconds', 'beats', 'hold'];\nconst MEASURE = obj({\n    id: str(),\n    timeSignature: TIME_SIGNATURE,\n    tempo: num,\n    count: num,\n    letter: optional(str()),\n    tempoChange: optional(obj({ endTempo: num, curve: str(['linear', 'exponential']) })),\n    accents: optional(ACCENTS),\n    subdivision: optional(num),\n    swing: optional(num),\n    repeatStart: optional(bool),\n    repeatEnd: optional(num),\n    ending: optional(arr(num)),\n    segno: optional(bool),\n    coda: optional(bool),\n    toCoda: optional(bool),\n    fine: optional(bool),\n    jump: optional(str(Object.keys(showStructure_1.JUMP_LABELS))),\n    pause: optional(obj({ type: str(PAUSE_TYPES), length: optional(num) })),\n});\nconst THEME_COLORS = {\n    background: str(),\n    surface: str(),\n    primary: str(),\n    text: str(),\n    icon: str(),\n    accent: str(),\n    orange: str(),\n};\nconst METRONOME_START = {\n    bpm: num,\n    timeSignature: TIME_SIGNATURE,\n    soundType: str(),\n    subdivision: optional(num),\n    countIn: optional(obj(COUNT_IN_FIELDS)),\n    accents: optional(ACCENTS),\n    swing: optional(num),\n    layers: optional(arr(LAYER)),\n    gapTrainer: optional(GAP_TRAINER),\n};\nconst METRONOME_BEAT = {\n    beatNumber: num,\n    totalBeats: num,\n    barNumber: num,\n    isDownbeat: bool,\n    isSilent: bool,\n    bpm: num,\n    timeSignature: TIME_SIGNATURE,\n};\nconst SHOW = {\n    id: str(),\n    name: str(),\n    measures: arr(MEASURE),\n    countIn: optional(obj(partial(COUNT_IN_FIELDS))),\n};\nconst SHOW_START = {\n    startType: str(['beginning', 'current', 'specific']),\n    startMeasure: optional(num),\n    startLetter: optional(str()),\n    endType: str(['end', 'specific']),\n    endMeasure: optional(num),\n    endLetter: optional(str()),\n};\nconst SHOW_PAUSE = obj({ type: str(PAUSE_TYPES), duration: optional(num) });\nconst SHOW_ID = { showId: str() };\nconst SOUND = { soundType: str() };\nconst READY = { protocolVersion: num };\nconst PROTOCOL_ERROR = {\n    messageType: optional(str()),\n    errors: arr(str()),\n};\nexports.MESSAGE_SCHEMAS = {\n    soundSystemMessage: {\n        INIT_AUDIO: {},\n        SUSPEND_AUDIO: {},\n        UPDATE_THEME: THEME_COLORS,\n        UPDATE_SOUND: SOUND,\n        START_METRONOME: METRONOME_START,\n        STOP_METRONOME: {},\n        UPDATE_METRONOME_SETTINGS: partial(METRONOME_START),\n        LOAD_SHOW: SHOW,\n        START_SHOW: SHOW_START,\n        STOP_SHOW: {},\n        RESUME_SHOW: {},\n        UPDATE_SHOW_SETTINGS: { countIn: optional(obj(partial(COUNT_IN_FIELDS))) },\n        RENDER_SHOW_WAV: SHOW,\n    },\n    soundSystemResponse: {\n        METRONOME_BEAT,\n        METRONOME_LAYER_PULSE: { layerId: str(), pulseIndex: num },\n        METRONOME_STARTED: { bpm: num, timeSignature: TIME_SIGNATURE },\n        METRONOME_STOPPED: {},\n        SHOW_LOADED: { showId: str(), totalMeasures: num },\n        SHOW_BEAT: {\n            measureNumber: num,\n            beatIndex: num,\n            beatsInMeasure: num,\n            isCountIn: bool,\n            isSilent: bool,\n            timeSignature: optional(TIME_SIGNATURE),\n        },\n        SHOW_MEASURE_COMPLETED: {\n            measureNumber: num,\n            beatsPerMeasure: num,\n            tempo: num,\n            nextMeasureNumber: num,\n            nextTempo: num,\n            nextTimeSignature: TIME_SIGNATURE,\n            showName: str(),\n            pause: optional(SHOW_PAUSE),\n        },\n        SHOW_STARTED: { showId: str(), startMeasure: num },\n        SHOW_STOPPED: { completed: bool },\n        SHOW_WAV_RENDERED: { showId: str(), duration: num, data: str() },\n        READY,\n        COMMAND_APPLIED: { command: str(Object.keys(MessageProtocol_1.COMMAND_ACKS)) },\n        AUDIO_INITIALIZED: { sampleRate: num },\n        AUDIO_ERROR: { error: str(), mode: str(['metronome', 'show', 'tuner', 'system']) },\n        PROTOCOL_ERROR,\n    },\n    metronomeViewMessage: {\n        METRONOME_STARTED: {},\n        METRONOME_STOPPED: {},\n        METRONOME_BEAT,\n        TIME_SIGNATURE_CHANGE: { timeSignature: TIME_SIGNATURE },\n        ACCENTS_CHANGE: { accents: optional(ACCENTS) },\n        SWING_CHANGE: { swing: num },\n        COLOR_CHANGE: { colors: obj(THEME_COLORS) },\n    },\n    metronomeViewResponse: {\n        OPEN_SETTINGS: {},\n        START_METRONOME: { bpm: num, subdivision: num },\n        STOP_METRONOME: {},\n        TEMPO_CHANGE: { bpm: num },\n        SUBDIVISION_CHANGE: { subdivision: num },\n        ACCENTS_CHANGE: { accents: ACCENTS },\n        SWING_CHANGE: { swing: num },\n        RESET_WEBVIEW: {},\n        READY,\n        PROTOCOL_ERROR,\n    },\n    showViewResponse: {\n        ADD_SHOW: {},\n        SELECT_SHOW: SHOW_ID,\n        RENAME_SHOW: { showId: str(), newName: str() },\n        UPDATE_SHOW_MEASURES: { showId: str(), measures: arr(MEASURE) },\n        DELETE_SHOW: SHOW_ID,\n        IMPORT_SHOW: {},\n        EXPORT_SHOW: SHOW_ID,\n        EXPORT_SHOW_MIDI: SHOW_ID,\n        EXPORT_SHOW_WAV: SHOW_ID,\n        START_SHOW: { showId: str(), range: obj(SHOW_START) },\n        STOP_SHOW: {},\n        RESUME_SHOW: {},\n        OPEN_SETTINGS: {},\n        OPEN_PLAYBACK_OPTIONS: {},\n        READY,\n        PROTOCOL_ERROR,\n    },\n    tunerViewResponse: {\n        REQUEST_PERMISSION: {},\n        REFRESH_PERMISSION: {},\n        OPEN_SETTINGS: {},\n        READY,\n        PROTOCOL_ERROR,\n    },\n};\nfunction isObject(value) {\n    return typeof value === 'object' && value !== null && !Array.isArray(value);\n}\nfunction checkField(value, spec, path, errors) {\n    if (value === undefined || value === null) {\n        if (!spec.optional)\n            errors.push(`${path} is required`);\n        return;\n    }\n    switch (spec.type) {\n        case 'number':\n            if (typeof value !== 'number' || !Number.isFinite(value)) {\n                errors.push(`${path} must be a number`);\n                return;\n            }\n            break;\n        case 'object':\n            if (!isObject(value)) {\n                errors.push(`${path} must be an object`);\n                return;\n            }\n            checkFields(value, spec.fields || {}, path, errors);\n            return;\n        case 'array':\n            if (!Array.isArray(value)) {\n                errors.push(`${path} must be an array`);\n                return;\n            }\n            if (spec.items) {\n                const items = spec.items;\n                value.forEach((item, index) => checkField(item, items, `${path}[${index}]`, errors));\n            }\n            return;\n        default:\n            if (typeof value !== spec.type) {\n                errors.push(`${path} must be a ${spec.type}`);\n                return;\n            }\n    }\n    if (spec.values && !spec.values.includes(value)) {\n        errors.push(`${path} must be one of ${spec.values.join(', ')}`);\n    }\n}\nfunction checkFields(value, fields, path, errors) {\n    Object.keys(fields).forEach(name => checkField(value[name], fields[name], `${path}.${name}`, errors));\n}\n// Check a decoded message against the schema of its channel\nfunction validateMessage(channel, data) {\n    if (!isObject(data)) {\n        return { message: null, type: null, errors: ['Message must be an object'] };\n    }\n    if (typeof data.type !== 'string') {\n        return { message: null, type: null, errors: ['Message type must be a string'] };\n    }\n    const type = data.type;\n    const schemas = exports.MESSAGE_SCHEMAS[channel];\n    if (!Object.prototype.hasOwnProperty.call(schemas, type)) {\n        return { message: null, type, errors: [`Unknown message type \"${type}\"`] };\n    }\n    const errors = [];\n    if (!isObject(data.payload)) {\n        errors.push('payload must be an object');\n    }\n    else {\n        checkFields(data.payload, schemas[type], 'payload', errors);\n    }\n    if (data.requestId !== undefined && typeof data.requestId !== 'string') {\n        errors.push('requestId must be a string');\n    }\n    return {\n        message: errors.length === 0 ? data : null,\n        type,\n        errors: errors.map(error => `${type}: ${error}`),\n    };\n}\n// Decode and check a message as it arrives from a WebView\nfunction parseMessage(channel, raw) {\n    let data;\n    try {\n        data = JSON.parse(raw);\n    }\n    catch {\n        return { message: null, type: null, errors: ['Message is not valid JSON'] };\n    }\n    return validateMessage(channel, data);\n}\n\n  },\n  \"utils/countIn.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Count-In\n * Count-in settings shared by shows and the metronome, and the beats they\n * produce. Each show stores its own settings; the metronome keeps one set.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.COUNT_IN_SOUNDS = exports.MAX_COUNT_IN_LENGTH = exports.DEFAULT_COUNT_IN = void 0;\nexports.normalizeCountIn = normalizeCountIn;\nexports.getCountInBeats = getCountInBeats;\nconst meterGrouping_1 = require(\"utils/meterGrouping.ts\");\n// Matches the fixed four-beat count-off shows used before it was configurable\nexports.DEFAULT_COUNT_IN = {\n    enabled: true,\n    length: 4,\n    unit: 'beats',\n    meter: 'fixed',\n    sound: 'tone',\n    spoken: false,\n    skipWhenResuming: false,\n};\nexports.MAX_COUNT_IN_LENGTH = 16;\nexports.COUNT_IN_SOUNDS = [\n    { value: 'tone', label: 'Tone' },\n    { value: 'woodblock', label: 'Woodblock' },\n    { value: 'cowbell', label: 'Cowbell' },\n];\n// Fill in missing fields so older shows and settings keep working\nfunction normalizeCountIn(settings) {\n    const merged = { ...exports.DEFAULT_COUNT_IN, ...(settings || {}) };\n    const length = Math.round(Number(merged.length));\n    return {\n        ...merged,\n        length: Number.isFinite(length) ? Math.min(Math.max(length, 1), exports.MAX_COUNT_IN_LENGTH) : exports.DEFAULT_COUNT_IN.length,\n    };\n}\n/**\n * Beats of the count-in before 'firstMeasure'. Empty when the count-in is\n * disabled, or skipped because playback resumes from a later measure.\n */\nfunction getCountInBeats(settings, firstMeasure, resuming = false) {\n    const followMeasure = settings.meter === 'firstMeasure';\n    const beatsPerBar = followMeasure ? firstMeasure.timeSignature.numerator : 4;\n    const beatScale = followMeasure ? (0, meterGrouping_1.getBeatScale)(firstMeasure.timeSignature) : 1;\n    const beatDuration = (60 / firstMeasure.tempo) * beatScale;\n    const plan = { beats: [], beatsPerBar, tempo: firstMeasure.tempo, duration: 0 };\n    if (!settings.enabled || (resuming && settings.skipWhenResuming))\n        return plan;\n    const totalBeats = settings.unit === 'bars' ? settings.length * beatsPerBar : settings.length;\n    for (let i = 0; i < totalBeats; i++) {\n        plan.beats.push({\n            offset: i * beatDuration,\n            count: (i % beatsPerBar) + 1,\n            isDownbeat: i % beatsPerBar === 0,\n        });\n    }\n    plan.duration = totalBeats * beatDuration;\n    return plan;\n}\n\n  },\n  \"utils/rhythmLayers.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Rhythm Layers\n * Extra click layers the metronome stacks on its main beat. A polyrhythm layer\n * spreads its pulses evenly over the main bar (3 against 2, 5 against 4); a\n * polymeter layer plays its own bar at a fixed note value (7/8 against 4/4)\n * and cycles against the main bar until both line up again.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.LAYER_MODES = exports.LAYER_UNITS = exports.MAX_LAYER_PULSES = exports.MIN_LAYER_PULSES = exports.MAX_LAYERS = void 0;\nexports.createLayer = createLayer;\nexports.normalizeLayer = normalizeLayer;\nexports.getLayerPulseLevel = getLayerPulseLevel;\nexports.getLayerLevels = getLayerLevels;\nexports.setLayerPulseLevel = setLayerPulseLevel;\nexports.getLayerPulseDuration = getLayerPulseDuration;\nexports.getLayerPulseAt = getLayerPulseAt;\nexports.formatLayer = formatLayer;\nexports.MAX_LAYERS = 3;\nexports.MIN_LAYER_PULSES = 2;\nexports.MAX_LAYER_PULSES = 16;\nexports.LAYER_UNITS = [2, 4, 8, 16];\nexports.LAYER_MODES = [\n    { value: 'polyrhythm', label: 'Polyrhythm' },\n    { value: 'polymeter', label: 'Polymeter' },\n];\n// A new layer: three against the bar, or a bar of 7/8\nfunction createLayer(id, mode = 'polyrhythm') {\n    return {\n        id,\n        mode,\n        pulses: mode === 'polymeter' ? 7 : 3,\n        unit: 8,\n        sound: 'woodblock',\n        volume: 0.8,\n    };\n}\n// Fill in and clamp fields so stored layers keep working\nfunction normalizeLayer(layer) {\n    const pulses = Math.round(Number(layer.pulses));\n    const volume = Number(layer.volume);\n    return {\n        ...layer,\n        mode: layer.mode === 'polymeter' ? 'polymeter' : 'polyrhythm',\n        pulses: Number.isFinite(pulses) ? Math.min(Math.max(pulses, exports.MIN_LAYER_PULSES), exports.MAX_LAYER_PULSES) : 3,\n        unit: exports.LAYER_UNITS.includes(Number(layer.unit)) ? Number(layer.unit) : 8,\n        sound: layer.sound || 'woodblock',\n        volume: Number.isFinite(volume) ? Math.min(Math.max(volume, 0), 1) : 0.8,\n    };\n}\n// The layer's first pulse is accented unless its pattern says otherwise\nfunction getLayerPulseLevel(layer, pulseIndex) {\n    var _a;\n    return ((_a = layer.accents) === null || _a === void 0 ? void 0 : _a[pulseIndex]) || (pulseIndex === 0 ? 'accent' : 'normal');\n}\nfunction getLayerLevels(layer) {\n    return Array.from({ length: layer.pulses }, (_, pulse) => getLayerPulseLevel(layer, pulse));\n}\n// A copy of the layer with one pulse set to 'level'\nfunction setLayerPulseLevel(layer, pulseIndex, level) {\n    const accents = getLayerLevels(layer);\n    accents[pulseIndex] = level;\n    return { ...layer, accents };\n}\n/**\n * Seconds between two pulses of the layer. Polyrhythms divide the main bar;\n * polymeters convert their note value against the main beat, which is one\n * 1/denominator note of the main meter.\n */\nfunction getLayerPulseDuration(layer, timeSignature, beatDuration) {\n    if (layer.mode === 'polymeter') {\n        return (beatDuration * timeSignature.denominator) / layer.unit;\n    }\n    return (beatDuration * timeSignature.numerator) / layer.pulses;\n}\n// Pulse sounding 'elapsed' seconds after the first main beat, 0-based\nfunction getLayerPulseAt(layer, timeSignature, beatDuration, elapsed) {\n    const pulseDuration = getLayerPulseDuration(layer, timeSignature, beatDuration);\n    if (layer.mode === 'polymeter') {\n        return Math.floor(elapsed / pulseDuration) % layer.pulses;\n    }\n    const barDuration = beatDuration * timeSignature.numerator;\n    return Math.min(Math.floor((elapsed % barDuration) / pulseDuration), layer.pulses - 1);\n}\n// \"3:4\" for three against a bar of four, \"7/8\" for a polymeter\nfunction formatLayer(layer, timeSignature) {\n    return layer.mode === 'polymeter'\n        ? `${layer.pulses}/${layer.unit}`\n        : `${layer.pulses}:${timeSignature.numerator}`;\n}\n\n  },\n  \"webview/shared/pageWindow.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Page Window\n * What a page finds on `window` inside the WebView: the React Native bridge\n * and the prefixed audio constructors of older WebKit.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.getPageWindow = void 0;\nexports.createAudioContext = createAudioContext;\n// The page's window; pages extend PageWindow with the functions they expose\nconst getPageWindow = () => window;\nexports.getPageWindow = getPageWindow;\n// A new AudioContext, or null where Web Audio is unavailable\nfunction createAudioContext() {\n    const pageWindow = (0, exports.getPageWindow)();\n    const AudioContextClass = pageWindow.AudioContext || pageWindow.webkitAudioContext;\n    return AudioContextClass ? new AudioContextClass() : null;\n}\n\n  },\n  \"webview/shared/dom.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Page DOM helpers\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.byId = byId;\nexports.closestTo = closestTo;\n// An element of the page's markup. The markup is bundled with the script,\n// so a missing element is a bug in the page and fails loudly.\nfunction byId(id) {\n    const element = document.getElementById(id);\n    if (!element) {\n        throw new Error(`Page element #${id} is missing`);\n    }\n    return element;\n}\n// Nearest element at or above an event target matching 'selector'\nfunction closestTo(target, selector) {\n    return target instanceof Element ? target.closest(selector) : null;\n}\n\n  },\n  \"utils/ids.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * IDs\n * Random (version 4) UUIDs for shows and measures, so an id is never reused\n * after a show or measure is deleted.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.createId = createId;\nexports.isId = isId;\nconst UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;\n// Crypto randomness where the runtime has it; Hermes does not, so Math.random otherwise\nfunction getRandomBytes(length) {\n    const bytes = new Uint8Array(length);\n    const cryptoSource = globalThis.crypto;\n    if (cryptoSource === null || cryptoSource === void 0 ? void 0 : cryptoSource.getRandomValues) {\n        cryptoSource.getRandomValues(bytes);\n    }\n    else {\n        for (let i = 0; i < length; i++)\n            bytes[i] = Math.floor(Math.random() * 256);\n    }\n    return bytes;\n}\nfunction createId() {\n    const bytes = getRandomBytes(16);\n    bytes[6] = (bytes[6] & 0x0f) | 0x40; // version 4\n    bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant\n    const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');\n    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;\n}\nfunction isId(value) {\n    return typeof value === 'string' && UUID_PATTERN.test(value);\n}\n\n  }\n};\nvar cache = {};\nfunction require(id) {\n  if (!cache[id]) {\n    cache[id] = { exports: {} };\n    definitions[id](require, cache[id], cache[id].exports);\n  }\n  return cache[id].exports;\n}\nrequire(\"webview/show/page.ts\");\n})();\n",
+};
@@ -0,0 +1,9 @@
+// Generated by scripts/bundle-webviews.js from webview/soundSystem - do not edit.
+// Run `npm run bundle-webviews` after changing the page.
+import { WebViewPageBundle } from '../pageHtml';
+
+export const soundSystemPage: WebViewPageBundle = {
+  css: "body {\n    background: transparent;\n    display: none; /* Completely hidden */\n}\n",
+  body: "",
+  script: "(function () {\nvar definitions = {\n  \"webview/soundSystem/page.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * SoundSystem page\n * The audio engine inside the invisible SoundSystem WebView. The metronome\n * and show playback share one AudioContext, one click sound bank and one\n * lookahead scheduler; starting either stops the other. Click tracks of\n * shows are rendered offline with the same sounds. The app sends\n * soundSystemMessage commands, and the page answers each one under its\n * requestId with the response listed in COMMAND_ACKS, or an AUDIO_ERROR.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nconst clickStream_1 = require(\"webview/soundSystem/clickStream.ts\");\nconst bridge_1 = require(\"webview/shared/bridge.ts\");\nconst pageWindow_1 = require(\"webview/shared/pageWindow.ts\");\nconst clickSounds_1 = require(\"utils/clickSounds.ts\");\nconst countIn_1 = require(\"utils/countIn.ts\");\nconst gapTrainer_1 = require(\"utils/gapTrainer.ts\");\nconst lookaheadScheduler_1 = require(\"utils/lookaheadScheduler.ts\");\nconst meterGrouping_1 = require(\"utils/meterGrouping.ts\");\nconst rhythmLayers_1 = require(\"utils/rhythmLayers.ts\");\nconst showMeasures_1 = require(\"utils/showMeasures.ts\");\nconst showStructure_1 = require(\"utils/showStructure.ts\");\nconst showTimeline_1 = require(\"utils/showTimeline.ts\");\nconst swing_1 = require(\"utils/swing.ts\");\nconst tempoCurve_1 = require(\"utils/tempoCurve.ts\");\nconst wavExport_1 = require(\"utils/wavExport.ts\");\nconst bridge = (0, bridge_1.createPageBridge)('soundSystemResponse', 'soundSystemMessage');\nlet audioContext = null;\nlet currentSound = 'synth'; // Click sound of the metronome and shows\nlet scheduler = null; // Lookahead scheduler shared by the engines\nlet activeMode = null; // Mode that is playing\nlet requestedMode = null; // Mode asked to start, until it is stopped\nfunction reportError(mode, error, requestId) {\n    console.error('SoundSystem:', error);\n    bridge.postToApp('AUDIO_ERROR', { error, mode }, requestId);\n}\n// Audio context, created once and shared by every mode\nfunction initAudioContext(mode, requestId) {\n    if (audioContext && audioContext.state !== 'closed')\n        return true;\n    try {\n        audioContext = (0, pageWindow_1.createAudioContext)();\n    }\n    catch (e) {\n        audioContext = null;\n        reportError(mode, 'AudioContext not supported: ' + e.message, requestId);\n        return false;\n    }\n    if (!audioContext) {\n        reportError(mode, 'AudioContext not supported', requestId);\n        return false;\n    }\n    return true;\n}\n// Run 'start' once the audio clock runs; a context may start suspended\n// until the first user gesture. A stop before then cancels the start.\nfunction withRunningAudio(mode, requestId, start) {\n    if (!initAudioContext(mode, requestId)) {\n        requestedMode = null;\n        return;\n    }\n    const context = audioContext;\n    if (context.state === 'suspended') {\n        context.resume().then(() => {\n            if (requestedMode === mode && context === audioContext) {\n                start(context);\n            }\n            else {\n                reportError(mode, 'Stopped before the audio started', requestId);\n            }\n        }).catch(e => {\n            requestedMode = null;\n            reportError(mode, 'Failed to resume audio context: ' + e.message, requestId);\n        });\n    }\n    else {\n        start(context);\n    }\n}\nfunction suspendAudio() {\n    stopPlayback();\n    if (audioContext && audioContext.state !== 'closed') {\n        audioContext.close();\n    }\n    audioContext = null;\n}\n// The scheduler hands every event to the engine that is playing\nfunction getScheduler() {\n    if (!scheduler) {\n        const getEngine = () => activeMode ? engines[activeMode] : null;\n        scheduler = (0, lookaheadScheduler_1.createLookaheadScheduler)({\n            getAudioContext: () => audioContext,\n            getNextEvent: previous => { var _a, _b; return (_b = (_a = getEngine()) === null || _a === void 0 ? void 0 : _a.getNextEvent(previous)) !== null && _b !== void 0 ? _b : null; },\n            onSchedule: event => { var _a; return (_a = getEngine()) === null || _a === void 0 ? void 0 : _a.schedule(event); },\n            onUiEvent: event => { var _a; return (_a = getEngine()) === null || _a === void 0 ? void 0 : _a.handleUiEvent(event); },\n        });\n    }\n    return scheduler;\n}\n// Audio destination for clicks - the scheduler's bus while playing\nfunction getClickOutput(context) {\n    const schedulerOutput = scheduler ? scheduler.getOutput() : null;\n    return schedulerOutput || context.destination;\n}\n// Stop the scheduler and silence any clicks already queued\nfunction haltScheduler() {\n    if (scheduler) {\n        scheduler.stop(audioContext && audioContext.state !== 'closed' ? audioContext.currentTime : undefined);\n    }\n}\n// Stop whichever mode is playing or about to start\nfunction stopPlayback() {\n    stopMetronome();\n    stopShowPlayback(false);\n}\n// ---- Metronome ----\nlet countInSettings = (0, countIn_1.normalizeCountIn)({ enabled: false }); // Off until the app turns it on\nlet scheduledBarSilent = false; // Whether the bar being scheduled is a silent bar, for layer pulses\n// Tempo, meter, accents, swing, layers and gaps the clicks are built from\nconst stream = {\n    tempo: 120,\n    subdivision: 1,\n    pendingSubdivision: null, // New subdivision to apply on the next beat\n    swing: swing_1.STRAIGHT_SWING,\n    meter: { numerator: 4, denominator: 4 },\n    accentPattern: null,\n    layers: [],\n    gapTrainer: (0, gapTrainer_1.normalizeGapTrainer)({ enabled: false }),\n    countInClicks: [],\n    firstBeatClick: null,\n};\n// Queue the audio for a click at its exact time\nfunction scheduleClick(click) {\n    if (!audioContext)\n        return;\n    if (click.type === 'countIn') {\n        (0, clickSounds_1.playCountInSound)(audioContext, getClickOutput(audioContext), click.time, countInSettings.sound, click.isDownbeat);\n    }\n    else if (click.type === 'layer') {\n        // Clicks are scheduled in time order, so the last main click tells the bar\n        const layer = stream.layers.find(candidate => candidate.id === click.layerId);\n        if (layer && !scheduledBarSilent) {\n            (0, clickSounds_1.playClickSound)(audioContext, getClickOutput(audioContext), layer.sound, click.level, click.time, layer.volume);\n        }\n    }\n    else {\n        scheduledBarSilent = click.silentBar;\n        if (!click.silentBar && !click.beatMuted) {\n            (0, clickSounds_1.playClickSound)(audioContext, getClickOutput(audioContext), currentSound, click.level, click.time);\n        }\n    }\n}\n// Tell the app about each beat and layer pulse when it is heard\nfunction handleClickUiEvent(click) {\n    if (click.type === 'countIn') {\n        if (countInSettings.spoken) {\n            (0, clickSounds_1.speakCountIn)(click.count);\n        }\n        return;\n    }\n    if (click.type === 'layer') {\n        bridge.postToApp('METRONOME_LAYER_PULSE', { layerId: click.layerId, pulseIndex: click.pulseIndex });\n        return;\n    }\n    // Subdivision clicks are heard but not reported\n    if (!click.isDownbeat)\n        return;\n    const beatInBar = click.beatNumber % stream.meter.numerator;\n    bridge.postToApp('METRONOME_BEAT', {\n        beatNumber: beatInBar + 1,\n        totalBeats: stream.meter.numerator,\n        barNumber: click.barNumber,\n        isDownbeat: beatInBar === 0,\n        isSilent: click.silentBar || click.beatMuted,\n        bpm: stream.tempo,\n        timeSignature: stream.meter,\n    });\n}\n// Apply the settings present in 'settings'; the rest stay as they are\nfunction applyMetronomeSettings(settings) {\n    // Only a new tempo or meter retimes the stream; rescheduling for anything\n    // else would restart the bar and roll the random mutes again\n    let retime = false;\n    if (settings.bpm !== undefined && settings.bpm !== stream.tempo) {\n        stream.tempo = settings.bpm;\n        retime = true;\n    }\n    if (settings.timeSignature && (0, meterGrouping_1.formatTimeSignature)(settings.timeSignature) !== (0, meterGrouping_1.formatTimeSignature)(stream.meter)) {\n        stream.meter = settings.timeSignature;\n        retime = true;\n    }\n    if (settings.subdivision !== undefined) {\n        // Changes while playing wait for the next beat\n        if (activeMode === 'metronome') {\n            stream.pendingSubdivision = settings.subdivision;\n        }\n        else {\n            stream.subdivision = settings.subdivision;\n        }\n    }\n    if (settings.soundType) {\n        currentSound = settings.soundType;\n    }\n    if ('accents' in settings) {\n        stream.accentPattern = settings.accents || null;\n    }\n    if (settings.swing !== undefined) {\n        stream.swing = (0, swing_1.normalizeSwing)(settings.swing);\n    }\n    if (settings.layers) {\n        stream.layers = settings.layers.map(rhythmLayers_1.normalizeLayer);\n    }\n    if (settings.gapTrainer) {\n        stream.gapTrainer = (0, gapTrainer_1.normalizeGapTrainer)(settings.gapTrainer);\n    }\n    if (settings.countIn) {\n        countInSettings = (0, countIn_1.normalizeCountIn)(settings.countIn);\n    }\n    // Retime the next unscheduled click on the audio clock\n    if (retime && activeMode === 'metronome') {\n        getScheduler().reschedule();\n    }\n}\nfunction startMetronome(settings, requestId) {\n    stopPlayback();\n    applyMetronomeSettings(settings);\n    requestedMode = 'metronome';\n    withRunningAudio('metronome', requestId, context => startMetronomeInternal(context, requestId));\n}\nfunction startMetronomeInternal(context, requestId) {\n    activeMode = 'metronome';\n    // First click is queued just ahead of the audio clock, the rest follow from it.\n    // Count-in at the current tempo, following the current meter unless the count is fixed\n    const plan = (0, countIn_1.getCountInBeats)(countInSettings, {\n        timeSignature: stream.meter,\n        tempo: stream.tempo,\n    });\n    getScheduler().start((0, clickStream_1.startClickStream)(stream, context.currentTime + lookaheadScheduler_1.SCHEDULER_START_DELAY_SECONDS, plan));\n    bridge.postToApp('METRONOME_STARTED', { bpm: stream.tempo, timeSignature: stream.meter }, requestId);\n}\nfunction stopMetronome() {\n    if (requestedMode === 'metronome') {\n        requestedMode = null;\n    }\n    if (activeMode !== 'metronome')\n        return;\n    activeMode = null;\n    haltScheduler();\n    // Apply any pending subdivision change when stopping\n    if (stream.pendingSubdivision !== null) {\n        stream.subdivision = stream.pendingSubdivision;\n        stream.pendingSubdivision = null;\n    }\n    bridge.postToApp('METRONOME_STOPPED', {});\n}\n// ---- Show ----\nlet loadedShow = null;\nlet showBars = []; // Bars of the loaded show, grouped measures expanded\nlet showTimeline = [];\nlet heldEvent = null; // Hold the show is waiting at\nlet lastShowBeat = null; // Last beat heard, for measure completion\nlet measureReported = false; // Whether the measure of lastShowBeat was reported\nfunction loadShow(show, requestId) {\n    loadedShow = show;\n    showBars = (0, showMeasures_1.expandMeasures)(show.measures || []);\n    bridge.postToApp('SHOW_LOADED', { showId: show.id, totalMeasures: showBars.length }, requestId);\n}\nfunction startShowPlayback(options, requestId) {\n    stopPlayback();\n    if (!loadedShow || showBars.length === 0) {\n        reportError('show', 'No show with measures is loaded', requestId);\n        return;\n    }\n    const show = loadedShow;\n    requestedMode = 'show';\n    withRunningAudio('show', requestId, context => startShowPlaybackInternal(context, show, options, requestId));\n}\nfunction startShowPlaybackInternal(context, show, options, requestId) {\n    // Unroll repeats and jumps into the order bars are played in\n    const positions = (0, showTimeline_1.getPlaybackPositions)(showBars, options);\n    const playbackOrder = (0, showStructure_1.resolvePlaybackOrder)(showBars);\n    const range = (0, showTimeline_1.getPlaybackRange)(playbackOrder, positions.start, positions.end);\n    if (range.end <= range.start) {\n        requestedMode = null;\n        reportError('show', 'Nothing to play in the selected range', requestId);\n        return;\n    }\n    activeMode = 'show';\n    heldEvent = null;\n    lastShowBeat = null;\n    measureReported = false;\n    const startTime = context.currentTime + lookaheadScheduler_1.SCHEDULER_START_DELAY_SECONDS;\n    const countIn = (0, countIn_1.normalizeCountIn)(show.countIn);\n    showTimeline = (0, showTimeline_1.buildShowTimeline)(showBars, playbackOrder.slice(range.start, range.end), startTime, countIn, positions.start > 0);\n    getScheduler().start(showTimeline[0]);\n    bridge.postToApp('SHOW_STARTED', { showId: show.id, startMeasure: playbackOrder[range.start] + 1 }, requestId);\n}\n// Queue the audio for a timeline event at its exact time\nfunction scheduleShowEvent(event) {\n    if (!audioContext)\n        return;\n    if (event.type === 'countOff') {\n        (0, clickSounds_1.playCountInSound)(audioContext, getClickOutput(audioContext), event.time, event.sound, event.isDownbeat);\n    }\n    else if (event.type === 'beat' || event.type === 'subdivision') {\n        (0, clickSounds_1.playClickSound)(audioContext, getClickOutput(audioContext), currentSound, event.level, event.time);\n    }\n}\n// Report beats and completed measures when they are heard; a measure\n// completes at the next downbeat, or when the measure's pause starts\nfunction handleShowUiEvent(event) {\n    if (event.type === 'countOff') {\n        if (event.spoken) {\n            (0, clickSounds_1.speakCountIn)(event.count);\n        }\n        bridge.postToApp('SHOW_BEAT', {\n            measureNumber: 0,\n            beatIndex: event.count - 1,\n            beatsInMeasure: event.beatsPerBar,\n            isCountIn: true,\n            isSilent: false,\n            timeSignature: null,\n        });\n        return;\n    }\n    if (event.type === 'pause') {\n        if ((0, showTimeline_1.isHold)(event)) {\n            heldEvent = event;\n        }\n        const next = showTimeline.find((candidate) => candidate.index > event.index && candidate.type === 'beat');\n        reportMeasureCompleted(next || null, { type: event.pause.type, duration: event.duration });\n        return;\n    }\n    if (event.type === 'end') {\n        if (lastShowBeat && !measureReported) {\n            reportMeasureCompleted(null);\n        }\n        stopShowPlayback(true);\n        return;\n    }\n    if (event.type === 'beat') {\n        if (event.isDownbeat) {\n            if (lastShowBeat && !measureReported) {\n                reportMeasureCompleted(event);\n            }\n            measureReported = false;\n        }\n        lastShowBeat = event;\n        bridge.postToApp('SHOW_BEAT', {\n            measureNumber: event.measureIndex + 1,\n            beatIndex: event.beatIndex,\n            beatsInMeasure: event.beatsInMeasure,\n            isCountIn: false,\n            isSilent: event.level === 'mute',\n            timeSignature: event.measureData.timeSignature,\n        });\n    }\n}\n// 'next' is the first beat played after the measure, none at the end\nfunction reportMeasureCompleted(next, pause) {\n    if (!lastShowBeat || !loadedShow)\n        return;\n    const bar = lastShowBeat.measureData;\n    const endTempo = Math.round((0, tempoCurve_1.getRampTempo)(bar, 1));\n    const payload = {\n        measureNumber: lastShowBeat.measureIndex + 1,\n        beatsPerMeasure: lastShowBeat.beatsInMeasure,\n        tempo: endTempo,\n        nextMeasureNumber: (next || lastShowBeat).measureIndex + 1,\n        nextTempo: next ? next.tempo : endTempo,\n        nextTimeSignature: (next ? next.measureData : bar).timeSignature,\n        showName: loadedShow.name,\n    };\n    if (pause) {\n        payload.pause = pause;\n    }\n    measureReported = true;\n    bridge.postToApp('SHOW_MEASURE_COMPLETED', payload);\n}\n// Play on after a hold: the rest of the timeline moves to start now\nfunction resumeShowHold() {\n    if (activeMode !== 'show' || !heldEvent || !audioContext)\n        return;\n    const next = (0, showTimeline_1.resumeTimeline)(showTimeline, heldEvent, audioContext.currentTime + lookaheadScheduler_1.SCHEDULER_START_DELAY_SECONDS);\n    heldEvent = null;\n    if (next) {\n        getScheduler().start(next);\n    }\n}\n// 'completed' when the show played to its end\nfunction stopShowPlayback(completed) {\n    if (requestedMode === 'show') {\n        requestedMode = null;\n    }\n    if (activeMode !== 'show')\n        return;\n    activeMode = null;\n    haltScheduler();\n    showTimeline = [];\n    heldEvent = null;\n    lastShowBeat = null;\n    bridge.postToApp('SHOW_STOPPED', { completed });\n}\nfunction updateShowSettings(settings) {\n    if (loadedShow && settings.countIn) {\n        loadedShow.countIn = settings.countIn;\n    }\n}\n// Render a whole show, count-in included, to a WAV click track offline,\n// with the same timeline and sounds as playback. Spoken counts are not rendered.\nfunction renderShowWav(show, requestId) {\n    const pageWindow = (0, pageWindow_1.getPageWindow)();\n    const OfflineContext = pageWindow.OfflineAudioContext || pageWindow.webkitOfflineAudioContext;\n    if (!OfflineContext) {\n        reportError('show', 'Offline audio rendering is not supported on this device', requestId);\n        return;\n    }\n    const bars = (0, showMeasures_1.expandMeasures)(show.measures || []);\n    if (bars.length === 0) {\n        reportError('show', 'The show has no measures to export', requestId);\n        return;\n    }\n    const playbackOrder = (0, showStructure_1.resolvePlaybackOrder)(bars);\n    const timeline = (0, showTimeline_1.buildShowTimeline)(bars, playbackOrder, 0, (0, countIn_1.normalizeCountIn)(show.countIn), false);\n    // Holds wait for a cue when played live; the file gives them a few beats\n    let holdOffset = 0;\n    const events = timeline.map(event => {\n        const time = event.time + holdOffset;\n        if (event.type === 'pause' && (0, showTimeline_1.isHold)(event)) {\n            holdOffset += (0, wavExport_1.getHoldExportDuration)(bars[event.measureIndex]);\n        }\n        return { event, time };\n    });\n    const duration = events[events.length - 1].time + wavExport_1.EXPORT_TAIL_SECONDS;\n    const context = new OfflineContext(1, Math.ceil(duration * wavExport_1.WAV_SAMPLE_RATE), wavExport_1.WAV_SAMPLE_RATE);\n    events.forEach(({ event, time }) => {\n        if (event.type === 'countOff') {\n            (0, clickSounds_1.playCountInSound)(context, context.destination, time, event.sound, event.isDownbeat);\n        }\n        else if (event.type === 'beat' || event.type === 'subdivision') {\n            (0, clickSounds_1.playClickSound)(context, context.destination, currentSound, event.level, time);\n        }\n    });\n    context.startRendering().then(buffer => {\n        bridge.postToApp('SHOW_WAV_RENDERED', {\n            showId: show.id,\n            duration,\n            data: (0, wavExport_1.encodeWavBase64)(buffer.getChannelData(0), wavExport_1.WAV_SAMPLE_RATE),\n        }, requestId);\n    }).catch(error => {\n        reportError('show', 'The click track could not be rendered: ' + error.message, requestId);\n    });\n}\n// Engines driven by the shared scheduler\nconst engines = {\n    metronome: {\n        getNextEvent: previous => (0, clickStream_1.getNextClick)(stream, previous),\n        schedule: scheduleClick,\n        handleUiEvent: handleClickUiEvent,\n    },\n    show: {\n        getNextEvent: previous => (0, showTimeline_1.getNextTimelineEvent)(showTimeline, previous), // stops at a hold until resumeShowHold()\n        schedule: scheduleShowEvent,\n        handleUiEvent: handleShowUiEvent,\n    },\n};\n// Message handling; messages that fail their schema are reported\n// back as PROTOCOL_ERROR and dropped\nfunction handleMessage(event) {\n    const message = bridge.readMessage(event.data);\n    if (!message)\n        return;\n    const requestId = message.requestId;\n    // Starts, loads and renders answer with their own response (or an\n    // AUDIO_ERROR); every other command with COMMAND_APPLIED\n    switch (message.type) {\n        case 'INIT_AUDIO':\n            if (initAudioContext('system', requestId) && audioContext) {\n                bridge.postToApp('AUDIO_INITIALIZED', { sampleRate: audioContext.sampleRate }, requestId);\n            }\n            return;\n        case 'START_METRONOME':\n            startMetronome(message.payload, requestId);\n            return;\n        case 'LOAD_SHOW':\n            loadShow(message.payload, requestId);\n            return;\n        case 'START_SHOW':\n            startShowPlayback(message.payload, requestId);\n            return;\n        case 'RENDER_SHOW_WAV':\n            renderShowWav(message.payload, requestId);\n            return;\n        case 'SUSPEND_AUDIO':\n            suspendAudio();\n            break;\n        case 'UPDATE_SOUND':\n            currentSound = message.payload.soundType;\n            break;\n        case 'UPDATE_THEME':\n            // Nothing on screen to theme\n            break;\n        case 'STOP_METRONOME':\n            stopMetronome();\n            break;\n        case 'UPDATE_METRONOME_SETTINGS':\n            applyMetronomeSettings(message.payload);\n            break;\n        case 'STOP_SHOW':\n            stopShowPlayback(false);\n            break;\n        case 'RESUME_SHOW':\n            resumeShowHold();\n            break;\n        case 'UPDATE_SHOW_SETTINGS':\n            updateShowSettings(message.payload);\n            break;\n    }\n    bridge.postToApp('COMMAND_APPLIED', { command: message.type }, requestId);\n}\n// React Native posts to window on iOS and to document on Android\nwindow.addEventListener('message', handleMessage);\ndocument.addEventListener('message', handleMessage);\nbridge.announceReady();\n\n  },\n  \"webview/soundSystem/clickStream.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Metronome Click Stream\n * The clicks the SoundSystem page schedules for the metronome, one after\n * another on the audio clock: the count-in, then the main beat with its\n * subdivisions and, running alongside, the pulses of each polyrhythm or\n * polymeter layer. Every click carries the upcoming click of each other\n * stream in 'pending', and the earliest of them plays next.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.getMeterScale = getMeterScale;\nexports.getBeatDuration = getBeatDuration;\nexports.getClickLevel = getClickLevel;\nexports.startClickStream = startClickStream;\nexports.getNextClick = getNextClick;\nconst accentPattern_1 = require(\"utils/accentPattern.ts\");\nconst gapTrainer_1 = require(\"utils/gapTrainer.ts\");\nconst meterGrouping_1 = require(\"utils/meterGrouping.ts\");\nconst rhythmLayers_1 = require(\"utils/rhythmLayers.ts\");\nconst swing_1 = require(\"utils/swing.ts\");\n// Beat length in tempo units: the tempo counts every beat, or the shortest\n// group when the meter is grouped (3+3/8: dotted quarter)\nfunction getMeterScale(meter) {\n    return (0, meterGrouping_1.getGrouping)(meter) ? (0, meterGrouping_1.getBeatScale)(meter) : 1;\n}\n// Duration of one beat in seconds\nfunction getBeatDuration(state) {\n    return (60 / state.tempo) * getMeterScale(state.meter);\n}\n// Accent level of a click; beats are accented on every beat, or on group\n// starts in a grouped meter, unless the pattern says otherwise\nfunction getClickLevel(state, beatNumber, subdivisionIndex) {\n    const beatInBar = beatNumber % state.meter.numerator;\n    const isAccented = !(0, meterGrouping_1.getGrouping)(state.meter) || (0, meterGrouping_1.isGroupStart)(state.meter, beatInBar);\n    return (0, accentPattern_1.getAccentLevel)(state.accentPattern, beatInBar, subdivisionIndex, isAccented ? 'accent' : 'normal');\n}\n/**\n * First click of a start at 'startTime': the count-in of 'plan', then the\n * first beat with the layers coming in alongside it. A subdivision chosen\n * while stopped applies from the first beat.\n */\nfunction startClickStream(state, startTime, plan) {\n    if (state.pendingSubdivision !== null) {\n        state.subdivision = state.pendingSubdivision;\n        state.pendingSubdivision = null;\n    }\n    state.countInClicks = plan.beats.map((beat, countInIndex) => ({\n        type: 'countIn',\n        time: startTime + beat.offset,\n        countInIndex,\n        count: beat.count,\n        isDownbeat: beat.isDownbeat,\n    }));\n    const firstBeatClick = {\n        type: 'beat',\n        time: startTime + plan.duration,\n        beatNumber: 0,\n        barNumber: 0,\n        subdivisionIndex: 0,\n        subdivision: state.subdivision,\n        isDownbeat: true,\n        level: getClickLevel(state, 0, 0),\n        silentBar: false,\n        beatMuted: (0, gapTrainer_1.isRandomlyMuted)(state.gapTrainer),\n    };\n    const layerStarts = [];\n    startLayers(state, layerStarts, firstBeatClick.time);\n    firstBeatClick.pending = layerStarts;\n    state.firstBeatClick = firstBeatClick;\n    return state.countInClicks[0] || firstBeatClick;\n}\n// The click that follows 'previous' on the audio clock\nfunction getNextClick(state, previous) {\n    if (previous.type === 'countIn') {\n        return state.countInClicks[previous.countInIndex + 1] || state.firstBeatClick;\n    }\n    const upcoming = (previous.pending || []).slice();\n    if (previous.type === 'layer') {\n        const following = getNextLayerPulse(state, previous);\n        if (following) {\n            upcoming.push(following);\n        }\n    }\n    else {\n        const following = getNextBeatClick(state, previous);\n        upcoming.push(following);\n        if (following.isDownbeat && following.beatNumber % state.meter.numerator === 0) {\n            startLayers(state, upcoming, following.time);\n        }\n    }\n    return takeEarliestClick(upcoming);\n}\n// Earliest of the upcoming clicks, carrying the rest; main beats sound\n// before layer pulses at the same time\nfunction takeEarliestClick(upcoming) {\n    upcoming.sort((a, b) => (a.time - b.time) || ((a.type === 'layer' ? 1 : 0) - (b.type === 'layer' ? 1 : 0)));\n    const earliest = upcoming.shift();\n    return earliest ? { ...earliest, pending: upcoming } : null;\n}\n// Layers restart on each main downbeat: polyrhythms lay their pulses over\n// the coming bar, polymeters keep cycling and only start when not yet running\nfunction startLayers(state, upcoming, barTime) {\n    const beatDuration = getBeatDuration(state);\n    state.layers.forEach(layer => {\n        const isLayerPulse = (click) => click.type === 'layer' && click.layerId === layer.id;\n        if (layer.mode === 'polymeter') {\n            if (upcoming.some(isLayerPulse))\n                return;\n        }\n        else {\n            // After a tempo change the last bar's pulses may run past this downbeat\n            const stale = upcoming.findIndex(click => isLayerPulse(click) && click.time >= barTime);\n            if (stale !== -1) {\n                upcoming.splice(stale, 1);\n            }\n        }\n        upcoming.push({\n            type: 'layer',\n            time: barTime,\n            layerId: layer.id,\n            mode: layer.mode,\n            pulses: layer.pulses,\n            pulseIndex: 0,\n            barTime,\n            pulseDuration: (0, rhythmLayers_1.getLayerPulseDuration)(layer, state.meter, beatDuration),\n            level: (0, rhythmLayers_1.getLayerPulseLevel)(layer, 0),\n        });\n    });\n}\n// Next pulse of a layer; null once a polyrhythm has filled its bar or the\n// layer was removed or changed mode\nfunction getNextLayerPulse(state, previous) {\n    const layer = state.layers.find(candidate => candidate.id === previous.layerId);\n    if (!layer || layer.mode !== previous.mode)\n        return null;\n    if (layer.mode === 'polymeter') {\n        // Follow tempo changes from pulse to pulse\n        const pulseDuration = (0, rhythmLayers_1.getLayerPulseDuration)(layer, state.meter, getBeatDuration(state));\n        const pulseIndex = (previous.pulseIndex + 1) % layer.pulses;\n        return {\n            ...previous,\n            time: previous.time + pulseDuration,\n            pulseIndex,\n            pulseDuration,\n            level: (0, rhythmLayers_1.getLayerPulseLevel)(layer, pulseIndex),\n            pending: undefined,\n        };\n    }\n    // Polyrhythm pulses are spaced from the bar start so they never drift\n    const pulseIndex = previous.pulseIndex + 1;\n    if (pulseIndex >= previous.pulses)\n        return null;\n    return {\n        ...previous,\n        time: previous.barTime + previous.pulseDuration * pulseIndex,\n        pulseIndex,\n        level: (0, rhythmLayers_1.getLayerPulseLevel)(layer, pulseIndex),\n        pending: undefined,\n    };\n}\n// Main beat and subdivision click that follows 'previous'\nfunction getNextBeatClick(state, previous) {\n    let beatNumber = previous.beatNumber;\n    let barNumber = previous.barNumber;\n    let subdivisionIndex = previous.subdivisionIndex + 1;\n    let clickSubdivision = previous.subdivision;\n    if (subdivisionIndex >= clickSubdivision) {\n        // Next click starts a new beat - pending subdivision changes land here\n        beatNumber++;\n        subdivisionIndex = 0;\n        if (beatNumber % state.meter.numerator === 0) {\n            barNumber++;\n        }\n        if (state.pendingSubdivision !== null) {\n            state.subdivision = state.pendingSubdivision;\n            state.pendingSubdivision = null;\n        }\n        clickSubdivision = state.subdivision;\n    }\n    // Swing moves clicks within their beat: step from where the previous\n    // click sat in its beat to where this one sits\n    const previousOffset = (0, swing_1.getSubdivisionOffset)(previous.subdivisionIndex, previous.subdivision, state.swing);\n    const offset = subdivisionIndex === 0 ? 1 : (0, swing_1.getSubdivisionOffset)(subdivisionIndex, clickSubdivision, state.swing);\n    return {\n        type: 'beat',\n        time: previous.time + getBeatDuration(state) * (offset - previousOffset),\n        beatNumber,\n        barNumber,\n        subdivisionIndex,\n        subdivision: clickSubdivision,\n        isDownbeat: subdivisionIndex === 0,\n        level: getClickLevel(state, beatNumber, subdivisionIndex),\n        // Gap trainer: whole bars drop out, and a muted beat silences its subdivisions too\n        silentBar: (0, gapTrainer_1.isSilentBar)(state.gapTrainer, barNumber),\n        beatMuted: subdivisionIndex === 0 ? (0, gapTrainer_1.isRandomlyMuted)(state.gapTrainer) : previous.beatMuted,\n    };\n}\n\n  },\n  \"utils/accentPattern.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Accent Pattern\n * Per-beat accent levels shared by show measures and the metronome. Every beat,\n * and every subdivision click after it, is accented, normal, ghosted or muted;\n * each sound type maps a level to its own volume and pitch.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.ACCENT_VOICES = exports.ACCENT_LEVEL_LABELS = exports.ACCENT_LEVELS = void 0;\nexports.getAccentVoice = getAccentVoice;\nexports.getDefaultAccentLevel = getDefaultAccentLevel;\nexports.getAccentLevel = getAccentLevel;\nexports.getBeatLevels = getBeatLevels;\nexports.cycleAccentLevel = cycleAccentLevel;\nexports.setAccentLevel = setAccentLevel;\nexports.accentsFromBeatSounds = accentsFromBeatSounds;\nexports.getMeasureAccents = getMeasureAccents;\nconst meterGrouping_1 = require(\"utils/meterGrouping.ts\");\nexports.ACCENT_LEVELS = ['accent', 'normal', 'ghost', 'mute'];\nexports.ACCENT_LEVEL_LABELS = {\n    accent: 'Accent',\n    normal: 'Normal',\n    ghost: 'Ghost',\n    mute: 'Mute',\n};\n// Accent and normal keep each sound's original high and low clicks; ghost\n// notes are quieter and slightly lower, tuned per sound\nexports.ACCENT_VOICES = {\n    synth: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.35, pitch: 0.9 } },\n    woodblock: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.3, pitch: 0.94 } },\n    cowbell: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.4, pitch: 0.97 } },\n    click: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.3, pitch: 0.85 } },\n    beep: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.3, pitch: 0.9 } },\n    drbeat: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.2, pitch: 0.9 } },\n    sharp: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.2, pitch: 0.92 } },\n};\nfunction getAccentVoice(soundType, level) {\n    if (level === 'mute')\n        return null;\n    const voices = exports.ACCENT_VOICES[soundType] || exports.ACCENT_VOICES.synth;\n    return { high: level === 'accent', ...voices[level] };\n}\n// The downbeat, and the first beat of each group in a grouped meter, are accented\nfunction getDefaultAccentLevel(timeSignature, beatIndex) {\n    if (beatIndex === 0)\n        return 'accent';\n    return (0, meterGrouping_1.getGrouping)(timeSignature) && (0, meterGrouping_1.isGroupStart)(timeSignature, beatIndex) ? 'accent' : 'normal';\n}\n// Level of one click; subdivisionIndex 0 is the beat itself\nfunction getAccentLevel(pattern, beatIndex, subdivisionIndex, defaultLevel) {\n    var _a, _b, _c;\n    if (subdivisionIndex > 0) {\n        return ((_b = (_a = pattern === null || pattern === void 0 ? void 0 : pattern.subdivisions) === null || _a === void 0 ? void 0 : _a[beatIndex]) === null || _b === void 0 ? void 0 : _b[subdivisionIndex - 1]) || 'normal';\n    }\n    return ((_c = pattern === null || pattern === void 0 ? void 0 : pattern.beats) === null || _c === void 0 ? void 0 : _c[beatIndex]) || defaultLevel;\n}\n// One level per beat of the meter, filling in defaults\nfunction getBeatLevels(pattern, timeSignature) {\n    return Array.from({ length: timeSignature.numerator }, (_, beat) => getAccentLevel(pattern, beat, 0, getDefaultAccentLevel(timeSignature, beat)));\n}\nfunction cycleAccentLevel(level) {\n    return exports.ACCENT_LEVELS[(exports.ACCENT_LEVELS.indexOf(level) + 1) % exports.ACCENT_LEVELS.length];\n}\n// A copy of the pattern with one click set to 'level'\nfunction setAccentLevel(pattern, timeSignature, beatIndex, subdivisionIndex, level) {\n    const beats = getBeatLevels(pattern, timeSignature);\n    const subdivisions = ((pattern === null || pattern === void 0 ? void 0 : pattern.subdivisions) || []).map(levels => [...(levels || [])]);\n    if (subdivisionIndex === 0) {\n        beats[beatIndex] = level;\n    }\n    else {\n        while (subdivisions.length <= beatIndex)\n            subdivisions.push([]);\n        const levels = subdivisions[beatIndex];\n        while (levels.length < subdivisionIndex)\n            levels.push('normal');\n        levels[subdivisionIndex - 1] = level;\n    }\n    return subdivisions.length > 0 ? { beats, subdivisions } : { beats };\n}\nfunction accentsFromBeatSounds(beatSounds, numerator) {\n    return {\n        beats: Array.from({ length: numerator }, (_, beat) => {\n            if ((beatSounds.high || []).includes(beat))\n                return 'accent';\n            return (beatSounds.low || []).includes(beat) ? 'normal' : 'mute';\n        }),\n    };\n}\n// A measure's accents, reading the older high/low beat sounds when it has no pattern\nfunction getMeasureAccents(measure) {\n    if (measure.accents)\n        return measure.accents;\n    return measure.beatSounds ? accentsFromBeatSounds(measure.beatSounds, measure.timeSignature.numerator) : undefined;\n}\n\n  },\n  \"utils/meterGrouping.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Meter Grouping\n * Optional beat grouping for compound and additive meters (3+3/8, 2+2+3/8).\n * A grouped meter pulses on the first beat of each group, and its tempo counts\n * the shortest group: 6/8 grouped 3+3 at 60 BPM is dotted quarter = 60.\n * Meters without a grouping keep the tempo in quarter notes.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.MAX_GROUPED_BEATS = void 0;\nexports.isValidGrouping = isValidGrouping;\nexports.getGrouping = getGrouping;\nexports.getGroupStarts = getGroupStarts;\nexports.isGroupStart = isGroupStart;\nexports.getBeatScale = getBeatScale;\nexports.formatGrouping = formatGrouping;\nexports.parseGrouping = parseGrouping;\nexports.formatTimeSignature = formatTimeSignature;\nexports.getGroupingOptions = getGroupingOptions;\n// Grouping suggestions are generated up to this many beats per bar\nexports.MAX_GROUPED_BEATS = 16;\nfunction isValidGrouping(grouping, numerator) {\n    if (!Array.isArray(grouping) || grouping.length === 0)\n        return false;\n    if (!grouping.every(size => Number.isInteger(size) && size >= 1))\n        return false;\n    return grouping.reduce((sum, size) => sum + size, 0) === numerator;\n}\n// The meter's grouping, or null when it has none (or it no longer fits)\nfunction getGrouping(timeSignature) {\n    return isValidGrouping(timeSignature.grouping, timeSignature.numerator) ? timeSignature.grouping : null;\n}\n// Beat indices that start a group; every beat when the meter is not grouped\nfunction getGroupStarts(timeSignature) {\n    const grouping = getGrouping(timeSignature);\n    if (!grouping) {\n        return Array.from({ length: timeSignature.numerator }, (_, beat) => beat);\n    }\n    const starts = [];\n    let beat = 0;\n    grouping.forEach(size => {\n        starts.push(beat);\n        beat += size;\n    });\n    return starts;\n}\nfunction isGroupStart(timeSignature, beatIndex) {\n    return getGroupStarts(timeSignature).includes(beatIndex);\n}\n/**\n * Length of one beat (one count of the numerator) in tempo units. Ungrouped\n * meters count quarter notes (4 / denominator); grouped meters count the\n * shortest group, so a beat is 1 / (shortest group) of a tempo unit.\n */\nfunction getBeatScale(timeSignature) {\n    const grouping = getGrouping(timeSignature);\n    return grouping ? 1 / Math.min(...grouping) : 4 / timeSignature.denominator;\n}\nfunction formatGrouping(grouping) {\n    return grouping.join('+');\n}\n// Parse \"2+2+3\"; undefined for an empty string, null when it is not a grouping\nfunction parseGrouping(text, numerator) {\n    const trimmed = text.trim();\n    if (!trimmed)\n        return undefined;\n    const grouping = trimmed.split('+').map(part => Number(part.trim()));\n    return isValidGrouping(grouping, numerator) ? grouping : null;\n}\nfunction formatTimeSignature(timeSignature) {\n    const grouping = getGrouping(timeSignature);\n    const prefix = grouping ? `${formatGrouping(grouping)}/` : `${timeSignature.numerator}/`;\n    return `${prefix}${timeSignature.denominator}`;\n}\n// Groupings of 2s and 3s that fill the bar, e.g. 7 -> 2+2+3, 2+3+2, 3+2+2\nfunction getGroupingOptions(numerator) {\n    if (numerator < 4 || numerator > exports.MAX_GROUPED_BEATS)\n        return [];\n    const options = [];\n    const build = (remaining, groups) => {\n        if (remaining === 0) {\n            options.push(groups);\n            return;\n        }\n        [2, 3].forEach(size => {\n            if (size <= remaining)\n                build(remaining - size, [...groups, size]);\n        });\n    };\n    build(numerator, []);\n    return options;\n}\n\n  },\n  \"utils/gapTrainer.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Gap Trainer\n * Silent-bar practice for internal time: the metronome plays a few bars,\n * then drops out for a few bars while the beat carries on unheard, and\n * repeats. Beats in the played bars can also drop out at random.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.DEFAULT_GAP_TRAINER = exports.MAX_GAP_BARS = void 0;\nexports.normalizeGapTrainer = normalizeGapTrainer;\nexports.isSilentBar = isSilentBar;\nexports.isRandomlyMuted = isRandomlyMuted;\nexports.MAX_GAP_BARS = 16;\nexports.DEFAULT_GAP_TRAINER = {\n    enabled: false,\n    playBars: 4,\n    silentBars: 4,\n    randomMute: 0,\n};\n// Fill in and clamp fields so stored settings keep working\nfunction normalizeGapTrainer(settings) {\n    const merged = { ...exports.DEFAULT_GAP_TRAINER, ...(settings || {}) };\n    const bars = (value, fallback) => {\n        const rounded = Math.round(Number(value));\n        return Number.isFinite(rounded) ? Math.min(Math.max(rounded, 1), exports.MAX_GAP_BARS) : fallback;\n    };\n    const randomMute = Math.round(Number(merged.randomMute));\n    return {\n        ...merged,\n        playBars: bars(merged.playBars, exports.DEFAULT_GAP_TRAINER.playBars),\n        silentBars: bars(merged.silentBars, exports.DEFAULT_GAP_TRAINER.silentBars),\n        randomMute: Number.isFinite(randomMute) ? Math.min(Math.max(randomMute, 0), 100) : 0,\n    };\n}\n// Whether bar 'barNumber' (0-based from the start) falls in a gap\nfunction isSilentBar(settings, barNumber) {\n    if (!settings.enabled)\n        return false;\n    return barNumber % (settings.playBars + settings.silentBars) >= settings.playBars;\n}\n// Roll for a randomly muted beat; 'random' returns 0 up to 1\nfunction isRandomlyMuted(settings, random = Math.random()) {\n    return settings.enabled && random * 100 < settings.randomMute;\n}\n\n  },\n  \"utils/rhythmLayers.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Rhythm Layers\n * Extra click layers the metronome stacks on its main beat. A polyrhythm layer\n * spreads its pulses evenly over the main bar (3 against 2, 5 against 4); a\n * polymeter layer plays its own bar at a fixed note value (7/8 against 4/4)\n * and cycles against the main bar until both line up again.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.LAYER_MODES = exports.LAYER_UNITS = exports.MAX_LAYER_PULSES = exports.MIN_LAYER_PULSES = exports.MAX_LAYERS = void 0;\nexports.createLayer = createLayer;\nexports.normalizeLayer = normalizeLayer;\nexports.getLayerPulseLevel = getLayerPulseLevel;\nexports.getLayerLevels = getLayerLevels;\nexports.setLayerPulseLevel = setLayerPulseLevel;\nexports.getLayerPulseDuration = getLayerPulseDuration;\nexports.getLayerPulseAt = getLayerPulseAt;\nexports.formatLayer = formatLayer;\nexports.MAX_LAYERS = 3;\nexports.MIN_LAYER_PULSES = 2;\nexports.MAX_LAYER_PULSES = 16;\nexports.LAYER_UNITS = [2, 4, 8, 16];\nexports.LAYER_MODES = [\n    { value: 'polyrhythm', label: 'Polyrhythm' },\n    { value: 'polymeter', label: 'Polymeter' },\n];\n// A new layer: three against the bar, or a bar of 7/8\nfunction createLayer(id, mode = 'polyrhythm') {\n    return {\n        id,\n        mode,\n        pulses: mode === 'polymeter' ? 7 : 3,\n        unit: 8,\n        sound: 'woodblock',\n        volume: 0.8,\n    };\n}\n// Fill in and clamp fields so stored layers keep working\nfunction normalizeLayer(layer) {\n    const pulses = Math.round(Number(layer.pulses));\n    const volume = Number(layer.volume);\n    return {\n        ...layer,\n        mode: layer.mode === 'polymeter' ? 'polymeter' : 'polyrhythm',\n        pulses: Number.isFinite(pulses) ? Math.min(Math.max(pulses, exports.MIN_LAYER_PULSES), exports.MAX_LAYER_PULSES) : 3,\n        unit: exports.LAYER_UNITS.includes(Number(layer.unit)) ? Number(layer.unit) : 8,\n        sound: layer.sound || 'woodblock',\n        volume: Number.isFinite(volume) ? Math.min(Math.max(volume, 0), 1) : 0.8,\n    };\n}\n// The layer's first pulse is accented unless its pattern says otherwise\nfunction getLayerPulseLevel(layer, pulseIndex) {\n    var _a;\n    return ((_a = layer.accents) === null || _a === void 0 ? void 0 : _a[pulseIndex]) || (pulseIndex === 0 ? 'accent' : 'normal');\n}\nfunction getLayerLevels(layer) {\n    return Array.from({ length: layer.pulses }, (_, pulse) => getLayerPulseLevel(layer, pulse));\n}\n// A copy of the layer with one pulse set to 'level'\nfunction setLayerPulseLevel(layer, pulseIndex, level) {\n    const accents = getLayerLevels(layer);\n    accents[pulseIndex] = level;\n    return { ...layer, accents };\n}\n/**\n * Seconds between two pulses of the layer. Polyrhythms divide the main bar;\n * polymeters convert their note value against the main beat, which is one\n * 1/denominator note of the main meter.\n */\nfunction getLayerPulseDuration(layer, timeSignature, beatDuration) {\n    if (layer.mode === 'polymeter') {\n        return (beatDuration * timeSignature.denominator) / layer.unit;\n    }\n    return (beatDuration * timeSignature.numerator) / layer.pulses;\n}\n// Pulse sounding 'elapsed' seconds after the first main beat, 0-based\nfunction getLayerPulseAt(layer, timeSignature, beatDuration, elapsed) {\n    const pulseDuration = getLayerPulseDuration(layer, timeSignature, beatDuration);\n    if (layer.mode === 'polymeter') {\n        return Math.floor(elapsed / pulseDuration) % layer.pulses;\n    }\n    const barDuration = beatDuration * timeSignature.numerator;\n    return Math.min(Math.floor((elapsed % barDuration) / pulseDuration), layer.pulses - 1);\n}\n// \"3:4\" for three against a bar of four, \"7/8\" for a polymeter\nfunction formatLayer(layer, timeSignature) {\n    return layer.mode === 'polymeter'\n        ? `${layer.pulses}/${layer.unit}`\n        : `${layer.pulses}:${timeSignature.numerator}`;\n}\n\n  },\n  \"utils/swing.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Swing\n * Swing feel for eighth and sixteenth subdivisions. The swing ratio is the\n * share of each pair of subdivisions taken by its first note: 50% plays\n * straight, 66% is triplet swing and 75% a hard (dotted) shuffle.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.SWING_PRESETS = exports.MAX_SWING = exports.TRIPLET_SWING = exports.STRAIGHT_SWING = void 0;\nexports.canSwing = canSwing;\nexports.normalizeSwing = normalizeSwing;\nexports.getSubdivisionOffset = getSubdivisionOffset;\nexports.STRAIGHT_SWING = 50;\nexports.TRIPLET_SWING = 66;\nexports.MAX_SWING = 75;\nexports.SWING_PRESETS = [\n    { value: exports.STRAIGHT_SWING, label: 'Straight' },\n    { value: exports.TRIPLET_SWING, label: 'Triplet' },\n    { value: exports.MAX_SWING, label: 'Shuffle' },\n];\n// Only eighths and sixteenths come in pairs that can be swung\nfunction canSwing(subdivision) {\n    return subdivision === 2 || subdivision === 4;\n}\n// Whole percent between straight and the hardest shuffle\nfunction normalizeSwing(swing) {\n    const percent = Math.round(Number(swing));\n    return Number.isFinite(percent) ? Math.min(Math.max(percent, exports.STRAIGHT_SWING), exports.MAX_SWING) : exports.STRAIGHT_SWING;\n}\n/**\n * Where a subdivision click falls, as a fraction of its beat. Every second\n * click of a pair is pushed back to the swing ratio; subdivisions that cannot\n * swing stay evenly spaced.\n */\nfunction getSubdivisionOffset(subdivisionIndex, subdivision, swing) {\n    if (!canSwing(subdivision))\n        return subdivisionIndex / subdivision;\n    const pairLength = 2 / subdivision;\n    const pair = Math.floor(subdivisionIndex / 2);\n    const offBeat = subdivisionIndex % 2 === 1 ? normalizeSwing(swing) / 100 : 0;\n    return (pair + offBeat) * pairLength;\n}\n\n  },\n  \"webview/shared/bridge.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Page Bridge\n * The page side of the message protocol in types/MessageProtocol.ts, for\n * pages bundled from TypeScript: typed messages to React Native, incoming\n * messages checked against the same schemas React Native uses, and the\n * READY announcement that releases the messages React Native held back.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.createPageBridge = createPageBridge;\nconst MessageProtocol_1 = require(\"types/MessageProtocol.ts\");\nconst messageSchema_1 = require(\"utils/messageSchema.ts\");\nconst pageWindow_1 = require(\"webview/shared/pageWindow.ts\");\n// Bridge of a page answering on 'responseChannel' and listening on 'messageChannel'\nfunction createPageBridge(responseChannel, messageChannel) {\n    // Every response channel carries READY and PROTOCOL_ERROR, which the\n    // generic payload types cannot show\n    const post = (type, payload, requestId) => {\n        const nativeBridge = (0, pageWindow_1.getPageWindow)().ReactNativeWebView;\n        if (!nativeBridge)\n            return;\n        nativeBridge.postMessage(JSON.stringify({\n            type,\n            payload,\n            timestamp: Date.now(),\n            ...(requestId ? { requestId } : {}),\n        }));\n    };\n    const readMessage = (raw) => {\n        if (!messageChannel)\n            return null;\n        let data;\n        try {\n            data = typeof raw === 'string' ? JSON.parse(raw) : raw;\n        }\n        catch {\n            post('PROTOCOL_ERROR', { messageType: null, errors: ['Message is not valid JSON'] });\n            return null;\n        }\n        const result = (0, messageSchema_1.validateMessage)(messageChannel, data);\n        if (!result.message) {\n            const requestId = data === null || data === void 0 ? void 0 : data.requestId;\n            post('PROTOCOL_ERROR', { messageType: result.type, errors: result.errors }, typeof requestId === 'string' ? requestId : undefined);\n        }\n        return result.message;\n    };\n    return {\n        postToApp: post,\n        readMessage,\n        announceReady: () => post('READY', { protocolVersion: MessageProtocol_1.PROTOCOL_VERSION }),\n    };\n}\n\n  },\n  \"types/MessageProtocol.ts\": function (require, module, exports) {\n\"use strict\";\n// Unified message protocol between React Native and the WebViews. Every\n// channel is a discriminated union on 'type'; the schemas in\n// utils/messageSchema.ts check each message where it is received.\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.COMMAND_ACKS = exports.RESPONSE_TYPES = exports.MESSAGE_TYPES = exports.PROTOCOL_VERSION = void 0;\n// Raised whenever a change to the messages would break a page built for the\n// previous version. Every page announces the version it speaks in READY.\nexports.PROTOCOL_VERSION = 2;\n// Message types - React Native to the SoundSystem WebView. The tuner listens\n// to the microphone in React Native, so it has no messages of its own.\nexports.MESSAGE_TYPES = {\n    // System\n    INIT_AUDIO: 'INIT_AUDIO',\n    SUSPEND_AUDIO: 'SUSPEND_AUDIO',\n    UPDATE_THEME: 'UPDATE_THEME',\n    UPDATE_SOUND: 'UPDATE_SOUND',\n    // Metronome\n    START_METRONOME: 'START_METRONOME',\n    STOP_METRONOME: 'STOP_METRONOME',\n    UPDATE_METRONOME_SETTINGS: 'UPDATE_METRONOME_SETTINGS',\n    // Show\n    LOAD_SHOW: 'LOAD_SHOW',\n    START_SHOW: 'START_SHOW',\n    STOP_SHOW: 'STOP_SHOW',\n    RESUME_SHOW: 'RESUME_SHOW',\n    UPDATE_SHOW_SETTINGS: 'UPDATE_SHOW_SETTINGS',\n    RENDER_SHOW_WAV: 'RENDER_SHOW_WAV',\n};\n// Message types - SoundSystem WebView to React Native\nexports.RESPONSE_TYPES = {\n    // Metronome responses\n    METRONOME_BEAT: 'METRONOME_BEAT',\n    METRONOME_LAYER_PULSE: 'METRONOME_LAYER_PULSE',\n    METRONOME_STARTED: 'METRONOME_STARTED',\n    METRONOME_STOPPED: 'METRONOME_STOPPED',\n    // Show responses\n    SHOW_LOADED: 'SHOW_LOADED',\n    SHOW_BEAT: 'SHOW_BEAT',\n    SHOW_MEASURE_COMPLETED: 'SHOW_MEASURE_COMPLETED',\n    SHOW_STARTED: 'SHOW_STARTED',\n    SHOW_STOPPED: 'SHOW_STOPPED',\n    SHOW_WAV_RENDERED: 'SHOW_WAV_RENDERED',\n    // System responses\n    READY: 'READY',\n    COMMAND_APPLIED: 'COMMAND_APPLIED',\n    AUDIO_INITIALIZED: 'AUDIO_INITIALIZED',\n    AUDIO_ERROR: 'AUDIO_ERROR',\n    PROTOCOL_ERROR: 'PROTOCOL_ERROR',\n};\n// The response that acknowledges each command, sent back with the command's\n// requestId. AUDIO_ERROR with the requestId means the command failed.\nexports.COMMAND_ACKS = {\n    INIT_AUDIO: 'AUDIO_INITIALIZED',\n    SUSPEND_AUDIO: 'COMMAND_APPLIED',\n    UPDATE_THEME: 'COMMAND_APPLIED',\n    UPDATE_SOUND: 'COMMAND_APPLIED',\n    START_METRONOME: 'METRONOME_STARTED',\n    STOP_METRONOME: 'COMMAND_APPLIED',\n    UPDATE_METRONOME_SETTINGS: 'COMMAND_APPLIED',\n    LOAD_SHOW: 'SHOW_LOADED',\n    START_SHOW: 'SHOW_STARTED',\n    STOP_SHOW: 'COMMAND_APPLIED',\n    RESUME_SHOW: 'COMMAND_APPLIED',\n    UPDATE_SHOW_SETTINGS: 'COMMAND_APPLIED',\n    RENDER_SHOW_WAV: 'SHOW_WAV_RENDERED',\n};\n\n  },\n  \"utils/messageSchema.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Message Schema\n * Runtime checks for the message protocol in types/MessageProtocol.ts. Every\n * channel lists the payload fields of each of its message types; a message is\n * checked where it is received, and every problem is reported with the path\n * of the field it is in. Fields a schema does not list are let through.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.MESSAGE_SCHEMAS = void 0;\nexports.validateMessage = validateMessage;\nexports.parseMessage = parseMessage;\nconst MessageProtocol_1 = require(\"types/MessageProtocol.ts\");\nconst accentPattern_1 = require(\"utils/accentPattern.ts\");\nconst countIn_1 = require(\"utils/countIn.ts\");\nconst rhythmLayers_1 = require(\"utils/rhythmLayers.ts\");\nconst showStructure_1 = require(\"utils/showStructure.ts\");\nconst str = (values) => (values ? { type: 'string', values } : { type: 'string' });\nconst num = { type: 'number' };\nconst bool = { type: 'boolean' };\nconst obj = (fields) => ({ type: 'object', fields });\nconst arr = (items) => ({ type: 'array', items });\nconst optional = (spec) => ({ ...spec, optional: true });\n// Every field optional, for messages that update only some settings\nconst partial = (fields) => Object.fromEntries(Object.entries(fields).map(([name, spec]) => [name, optional(spec)]));\nconst TIME_SIGNATURE = obj({\n    numerator: num,\n    denominator: num,\n    grouping: optional(arr(num)),\n});\nconst ACCENT_LEVEL = str(accentPattern_1.ACCENT_LEVELS);\nconst ACCENTS = obj({\n    beats: arr(ACCENT_LEVEL),\n    subdivisions: optional(arr(arr(ACCENT_LEVEL))),\n});\nconst COUNT_IN_FIELDS = {\n    enabled: bool,\n    length: num,\n    unit: str(['bars', 'beats']),\n    meter: str(['firstMeasure', 'fixed']),\n    sound: str(countIn_1.COUNT_IN_SOUNDS.map(sound => sound.value)),\n    spoken: bool,\n    skipWhenResuming: bool,\n};\nconst LAYER = obj({\n    id: str(),\n    mode: str(rhythmLayers_1.LAYER_MODES.map(mode => mode.value)),\n    pulses: num,\n    unit: num,\n    sound: str(),\n    volume: num,\n    accents: optional(arr(ACCENT_LEVEL)),\n});\nconst GAP_TRAINER = obj({\n    enabled: bool,\n    playBars: num,\n    silentBars: num,\n    randomMute: num,\n});\nconst PAUSE_TYPES = ['seconds', 'beats', 'hold'];\nconst MEASURE = obj({\n    id: str(),\n    timeSignature: TIME_SIGNATURE,\n    tempo: num,\n    count: num,\n    letter: optional(str()),\n    tempoChange: optional(obj({ endTempo: num, curve: str(['linear', 'exponential']) })),\n    accents: optional(ACCENTS),\n    subdivision: optional(num),\n    swing: optional(num),\n    repeatStart: optional(bool),\n    repeatEnd: optional(num),\n    ending: optional(arr(num)),\n    segno: optional(bool),\n    coda: optional(bool),\n    toCoda: optional(bool),\n    fine: optional(bool),\n    jump: optional(str(Object.keys(showStructure_1.JUMP_LABELS))),\n    pause: optional(obj({ type: str(PAUSE_TYPES), length: optional(num) })),\n});\nconst THEME_COLORS = {\n    background: str(),\n    surface: str(),\n    primary: str(),\n    text: str(),\n    icon: str(),\n    accent: str(),\n    orange: str(),\n};\nconst METRONOME_START = {\n    bpm: num,\n    timeSignature: TIME_SIGNATURE,\n    soundType: str(),\n    subdivision: optional(num),\n    countIn: optional(obj(COUNT_IN_FIELDS)),\n    accents: optional(ACCENTS),\n    swing: optional(num),\n    layers: optional(arr(LAYER)),\n    gapTrainer: optional(GAP_TRAINER),\n};\nconst METRONOME_BEAT = {\n    beatNumber: num,\n    totalBeats: num,\n    barNumber: num,\n    isDownbeat: bool,\n    isSilent: bool,\n    bpm: num,\n    timeSignature: TIME_SIGNATURE,\n};\nconst SHOW = {\n    id: str(),\n    name: str(),\n    measures: arr(MEASURE),\n    countIn: optional(obj(partial(COUNT_IN_FIELDS))),\n};\nconst SHOW_START = {\n    startType: str(['beginning', 'current', 'specific']),\n    startMeasure: optional(num),\n    startLetter: optional(str()),\n    endType: str(['end', 'specific']),\n    endMeasure: optional(num),\n    endLetter: optional(str()),\n};\nconst SHOW_PAUSE = obj({ type: str(PAUSE_TYPES), duration: optional(num) });\nconst SHOW_ID = { showId: str() };\nconst SOUND = { soundType: str() };\nconst READY = { protocolVersion: num };\nconst PROTOCOL_ERROR = {\n    messageType: optional(str()),\n    errors: arr(str()),\n};\nexports.MESSAGE_SCHEMAS = {\n    soundSystemMessage: {\n        INIT_AUDIO: {},\n        SUSPEND_AUDIO: {},\n        UPDATE_THEME: THEME_COLORS,\n        UPDATE_SOUND: SOUND,\n        START_METRONOME: METRONOME_START,\n        STOP_METRONOME: {},\n        UPDATE_METRONOME_SETTINGS: partial(METRONOME_START),\n        LOAD_SHOW: SHOW,\n        START_SHOW: SHOW_START,\n        STOP_SHOW: {},\n        RESUME_SHOW: {},\n        UPDATE_SHOW_SETTINGS: { countIn: optional(obj(partial(COUNT_IN_FIELDS))) },\n        RENDER_SHOW_WAV: SHOW,\n    },\n    soundSystemResponse: {\n        METRONOME_BEAT,\n        METRONOME_LAYER_PULSE: { layerId: str(), pulseIndex: num },\n        METRONOME_STARTED: { bpm: num, timeSignature: TIME_SIGNATURE },\n        METRONOME_STOPPED: {},\n        SHOW_LOADED: { showId: str(), totalMeasures: num },\n        SHOW_BEAT: {\n            measureNumber: num,\n            beatIndex: num,\n            beatsInMeasure: num,\n            isCountIn: bool,\n            isSilent: bool,\n            timeSignature: optional(TIME_SIGNATURE),\n        },\n        SHOW_MEASURE_COMPLETED: {\n            measureNumber: num,\n            beatsPerMeasure: num,\n            tempo: num,\n            nextMeasureNumber: num,\n            nextTempo: num,\n            nextTimeSignature: TIME_SIGNATURE,\n            showName: str(),\n            pause: optional(SHOW_PAUSE),\n        },\n        SHOW_STARTED: { showId: str(), startMeasure: num },\n        SHOW_STOPPED: { completed: bool },\n        SHOW_WAV_RENDERED: { showId: str(), duration: num, data: str() },\n        READY,\n        COMMAND_APPLIED: { command: str(Object.keys(MessageProtocol_1.COMMAND_ACKS)) },\n        AUDIO_INITIALIZED: { sampleRate: num },\n        AUDIO_ERROR: { error: str(), mode: str(['metronome', 'show', 'tuner', 'system']) },\n        PROTOCOL_ERROR,\n    },\n    metronomeViewMessage: {\n        METRONOME_STARTED: {},\n        METRONOME_STOPPED: {},\n        METRONOME_BEAT,\n        TIME_SIGNATURE_CHANGE: { timeSignature: TIME_SIGNATURE },\n        ACCENTS_CHANGE: { accents: optional(ACCENTS) },\n        SWING_CHANGE: { swing: num },\n        COLOR_CHANGE: { colors: obj(THEME_COLORS) },\n    },\n    metronomeViewResponse: {\n        OPEN_SETTINGS: {},\n        START_METRONOME: { bpm: num, subdivision: num },\n        STOP_METRONOME: {},\n        TEMPO_CHANGE: { bpm: num },\n        SUBDIVISION_CHANGE: { subdivision: num },\n        ACCENTS_CHANGE: { accents: ACCENTS },\n        SWING_CHANGE: { swing: num },\n        RESET_WEBVIEW: {},\n        READY,\n        PROTOCOL_ERROR,\n    },\n    showViewResponse: {\n        ADD_SHOW: {},\n        SELECT_SHOW: SHOW_ID,\n        RENAME_SHOW: { showId: str(), newName: str() },\n        UPDATE_SHOW_MEASURES: { showId: str(), measures: arr(MEASURE) },\n        DELETE_SHOW: SHOW_ID,\n        IMPORT_SHOW: {},\n        EXPORT_SHOW: SHOW_ID,\n        EXPORT_SHOW_MIDI: SHOW_ID,\n        EXPORT_SHOW_WAV: SHOW_ID,\n        START_SHOW: { showId: str(), range: obj(SHOW_START) },\n        STOP_SHOW: {},\n        RESUME_SHOW: {},\n        OPEN_SETTINGS: {},\n        OPEN_PLAYBACK_OPTIONS: {},\n        READY,\n        PROTOCOL_ERROR,\n    },\n    tunerViewResponse: {\n        REQUEST_PERMISSION: {},\n        REFRESH_PERMISSION: {},\n        OPEN_SETTINGS: {},\n        READY,\n        PROTOCOL_ERROR,\n    },\n};\nfunction isObject(value) {\n    return typeof value === 'object' && value !== null && !Array.isArray(value);\n}\nfunction checkField(value, spec, path, errors) {\n    if (value === undefined || value === null) {\n        if (!spec.optional)\n            errors.push(`${path} is required`);\n        return;\n    }\n    switch (spec.type) {\n        case 'number':\n            if (typeof value !== 'number' || !Number.isFinite(value)) {\n                errors.push(`${path} must be a number`);\n                return;\n            }\n            break;\n        case 'object':\n            if (!isObject(value)) {\n                errors.push(`${path} must be an object`);\n                return;\n            }\n            checkFields(value, spec.fields || {}, path, errors);\n            return;\n        case 'array':\n            if (!Array.isArray(value)) {\n                errors.push(`${path} must be an array`);\n                return;\n            }\n            if (spec.items) {\n                const items = spec.items;\n                value.forEach((item, index) => checkField(item, items, `${path}[${index}]`, errors));\n            }\n            return;\n        default:\n            if (typeof value !== spec.type) {\n                errors.push(`${path} must be a ${spec.type}`);\n                return;\n            }\n    }\n    if (spec.values && !spec.values.includes(value)) {\n        errors.push(`${path} must be one of ${spec.values.join(', ')}`);\n    }\n}\nfunction checkFields(value, fields, path, errors) {\n    Object.keys(fields).forEach(name => checkField(value[name], fields[name], `${path}.${name}`, errors));\n}\n// Check a decoded message against the schema of its channel\nfunction validateMessage(channel, data) {\n    if (!isObject(data)) {\n        return { message: null, type: null, errors: ['Message must be an object'] };\n    }\n    if (typeof data.type !== 'string') {\n        return { message: null, type: null, errors: ['Message type must be a string'] };\n    }\n    const type = data.type;\n    const schemas = exports.MESSAGE_SCHEMAS[channel];\n    if (!Object.prototype.hasOwnProperty.call(schemas, type)) {\n        return { message: null, type, errors: [`Unknown message type \"${type}\"`] };\n    }\n    const errors = [];\n    if (!isObject(data.payload)) {\n        errors.push('payload must be an object');\n    }\n    else {\n        checkFields(data.payload, schemas[type], 'payload', errors);\n    }\n    if (data.requestId !== undefined && typeof data.requestId !== 'string') {\n        errors.push('requestId must be a string');\n    }\n    return {\n        message: errors.length === 0 ? data : null,\n        type,\n        errors: errors.map(error => `${type}: ${error}`),\n    };\n}\n// Decode and check a message as it arrives from a WebView\nfunction parseMessage(channel, raw) {\n    let data;\n    try {\n        data = JSON.parse(raw);\n    }\n    catch {\n        return { message: null, type: null, errors: ['Message is not valid JSON'] };\n    }\n    return validateMessage(channel, data);\n}\n\n  },\n  \"utils/countIn.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Count-In\n * Count-in settings shared by shows and the metronome, and the beats they\n * produce. Each show stores its own settings; the metronome keeps one set.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.COUNT_IN_SOUNDS = exports.MAX_COUNT_IN_LENGTH = exports.DEFAULT_COUNT_IN = void 0;\nexports.normalizeCountIn = normalizeCountIn;\nexports.getCountInBeats = getCountInBeats;\nconst meterGrouping_1 = require(\"utils/meterGrouping.ts\");\n// Matches the fixed four-beat count-off shows used before it was configurable\nexports.DEFAULT_COUNT_IN = {\n    enabled: true,\n    length: 4,\n    unit: 'beats',\n    meter: 'fixed',\n    sound: 'tone',\n    spoken: false,\n    skipWhenResuming: false,\n};\nexports.MAX_COUNT_IN_LENGTH = 16;\nexports.COUNT_IN_SOUNDS = [\n    { value: 'tone', label: 'Tone' },\n    { value: 'woodblock', label: 'Woodblock' },\n    { value: 'cowbell', label: 'Cowbell' },\n];\n// Fill in missing fields so older shows and settings keep working\nfunction normalizeCountIn(settings) {\n    const merged = { ...exports.DEFAULT_COUNT_IN, ...(settings || {}) };\n    const length = Math.round(Number(merged.length));\n    return {\n        ...merged,\n        length: Number.isFinite(length) ? Math.min(Math.max(length, 1), exports.MAX_COUNT_IN_LENGTH) : exports.DEFAULT_COUNT_IN.length,\n    };\n}\n/**\n * Beats of the count-in before 'firstMeasure'. Empty when the count-in is\n * disabled, or skipped because playback resumes from a later measure.\n */\nfunction getCountInBeats(settings, firstMeasure, resuming = false) {\n    const followMeasure = settings.meter === 'firstMeasure';\n    const beatsPerBar = followMeasure ? firstMeasure.timeSignature.numerator : 4;\n    const beatScale = followMeasure ? (0, meterGrouping_1.getBeatScale)(firstMeasure.timeSignature) : 1;\n    const beatDuration = (60 / firstMeasure.tempo) * beatScale;\n    const plan = { beats: [], beatsPerBar, tempo: firstMeasure.tempo, duration: 0 };\n    if (!settings.enabled || (resuming && settings.skipWhenResuming))\n        return plan;\n    const totalBeats = settings.unit === 'bars' ? settings.length * beatsPerBar : settings.length;\n    for (let i = 0; i < totalBeats; i++) {\n        plan.beats.push({\n            offset: i * beatDuration,\n            count: (i % beatsPerBar) + 1,\n            isDownbeat: i % beatsPerBar === 0,\n        });\n    }\n    plan.duration = totalBeats * beatDuration;\n    return plan;\n}\n\n  },\n  \"utils/showStructure.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Show Structure\n * Structural markers on show measures (repeats, numbered endings, segno, coda,\n * fine, D.C./D.S. jumps and pauses) and the resolver that unrolls them into the\n * order bars are actually played in.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.JUMP_LABELS = exports.END_MARKER_KEYS = exports.START_MARKER_KEYS = void 0;\nexports.getPauseDuration = getPauseDuration;\nexports.resolvePlaybackOrder = resolvePlaybackOrder;\nconst meterGrouping_1 = require(\"utils/meterGrouping.ts\");\nconst tempoCurve_1 = require(\"utils/tempoCurve.ts\");\nexports.START_MARKER_KEYS = ['repeatStart', 'segno', 'coda'];\nexports.END_MARKER_KEYS = ['repeatEnd', 'toCoda', 'fine', 'jump', 'pause'];\nexports.JUMP_LABELS = {\n    dc: 'D.C.',\n    dcAlFine: 'D.C. al Fine',\n    dcAlCoda: 'D.C. al Coda',\n    ds: 'D.S.',\n    dsAlFine: 'D.S. al Fine',\n    dsAlCoda: 'D.S. al Coda',\n};\n// Upper bound on unrolled bars so malformed markers can never loop forever\nconst MAX_PLAYED_BARS = 10000;\n// Length in seconds of the pause after a measure, null for a hold (or no pause: 0)\nfunction getPauseDuration(measure) {\n    const pause = measure.pause;\n    if (!pause)\n        return 0;\n    if (pause.type === 'hold')\n        return null;\n    const length = pause.length && pause.length > 0 ? pause.length : 0;\n    if (pause.type === 'seconds')\n        return length;\n    // Beats continue at the tempo the measure ends on\n    const beatDuration = (60 / (0, tempoCurve_1.getRampTempo)(measure, 1)) * (0, meterGrouping_1.getBeatScale)(measure.timeSignature);\n    return length * beatDuration;\n}\nfunction hasEnding(bar) {\n    return !!bar.ending && bar.ending.length > 0;\n}\n// Highest ending number of the volta bracket group containing bar 'index'\nfunction getFinalEnding(bars, index) {\n    let start = index;\n    let end = index;\n    while (start > 0 && hasEnding(bars[start - 1]))\n        start--;\n    while (end + 1 < bars.length && hasEnding(bars[end + 1]))\n        end++;\n    let finalEnding = 1;\n    for (let i = start; i <= end; i++) {\n        bars[i].ending.forEach(ending => {\n            finalEnding = Math.max(finalEnding, ending);\n        });\n    }\n    return finalEnding;\n}\nfunction findMarker(bars, marker, fromIndex) {\n    for (let i = fromIndex; i < bars.length; i++) {\n        if (bars[i][marker])\n            return i;\n    }\n    return -1;\n}\n/**\n * Unroll the markers of a per-bar measure list into playback order.\n * Returns written bar indexes (0-based) in the order they are played.\n * Repeats are not taken again after a D.C./D.S. jump, and only the final\n * ending of each volta bracket is played on that pass.\n */\nfunction resolvePlaybackOrder(bars) {\n    const order = [];\n    const repeatsTaken = {};\n    let sectionStart = 0;\n    let pass = 1;\n    let activeRepeatEnd = -1;\n    let returning = false;\n    let jumpTaken = false;\n    let jumpUntil = null;\n    let i = 0;\n    while (i < bars.length && order.length < MAX_PLAYED_BARS) {\n        const bar = bars[i];\n        // A repeat sign reached going forwards opens a new section\n        if (bar.repeatStart && !returning) {\n            sectionStart = i;\n            pass = 1;\n            activeRepeatEnd = -1;\n        }\n        else if (activeRepeatEnd >= 0 && i > activeRepeatEnd && !hasEnding(bar)) {\n            // Past the last repeat and its endings - the next repeat goes back to here\n            sectionStart = i;\n            pass = 1;\n            activeRepeatEnd = -1;\n        }\n        returning = false;\n        // Numbered endings are only played on their pass\n        if (hasEnding(bar)) {\n            const playedPass = jumpTaken ? getFinalEnding(bars, i) : pass;\n            if (!bar.ending.includes(playedPass)) {\n                i++;\n                continue;\n            }\n        }\n        order.push(i);\n        if (jumpTaken) {\n            if (jumpUntil === 'fine' && bar.fine)\n                break;\n            if (jumpUntil === 'coda' && bar.toCoda) {\n                const codaIndex = findMarker(bars, 'coda', i + 1);\n                if (codaIndex === -1)\n                    break;\n                i = codaIndex;\n                continue;\n            }\n        }\n        if (!jumpTaken && bar.repeatEnd && bar.repeatEnd > 1) {\n            const taken = repeatsTaken[i] || 0;\n            if (taken < bar.repeatEnd - 1) {\n                repeatsTaken[i] = taken + 1;\n                pass++;\n                activeRepeatEnd = Math.max(activeRepeatEnd, i);\n                returning = true;\n                i = sectionStart;\n                continue;\n            }\n        }\n        if (!jumpTaken && bar.jump) {\n            jumpTaken = true;\n            jumpUntil = bar.jump.endsWith('AlFine') ? 'fine' : bar.jump.endsWith('AlCoda') ? 'coda' : null;\n            i = bar.jump.startsWith('ds') ? Math.max(0, findMarker(bars, 'segno', 0)) : 0;\n            continue;\n        }\n        i++;\n    }\n    return order;\n}\n\n  },\n  \"utils/tempoCurve.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Tempo Curve\n * Gradual tempo changes (accelerando / ritardando) across a measure entry.\n * The tempo moves from the entry's tempo to endTempo over all of its beats,\n * and beat durations are integrated from the curve so every beat lands\n * exactly where the curve puts it.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.roundTempo = roundTempo;\nexports.getRampTempo = getRampTempo;\nexports.getRampBeatDuration = getRampBeatDuration;\n// Tempos derived from a curve are stored with this many decimals\nconst TEMPO_PRECISION = 1000;\nfunction roundTempo(tempo) {\n    return Math.round(tempo * TEMPO_PRECISION) / TEMPO_PRECISION;\n}\n// Tempo after 'fraction' (0..1) of the measure's beats\nfunction getRampTempo(measure, fraction) {\n    const change = measure.tempoChange;\n    if (!change)\n        return measure.tempo;\n    if (change.curve === 'exponential') {\n        return measure.tempo * Math.pow(change.endTempo / measure.tempo, fraction);\n    }\n    return measure.tempo + (change.endTempo - measure.tempo) * fraction;\n}\n/**\n * Duration in seconds of beat 'beatIndex' of a single bar whose tempo follows\n * its curve over 'beatsInBar' beats. 'beatScale' converts quarter notes to\n * the beat unit (4 / denominator).\n */\nfunction getRampBeatDuration(measure, beatIndex, beatsInBar, beatScale) {\n    const startTempo = getRampTempo(measure, beatIndex / beatsInBar);\n    const change = measure.tempoChange;\n    if (!change || change.endTempo === measure.tempo) {\n        return (60 / startTempo) * beatScale;\n    }\n    if (change.curve === 'exponential') {\n        // T(x) = T0 * r^x per beat: integral of 60 / T(x) over one beat\n        const logRatio = Math.log(change.endTempo / measure.tempo) / beatsInBar;\n        return (60 / startTempo) * ((1 - Math.exp(-logRatio)) / logRatio) * beatScale;\n    }\n    // T(x) = T0 + k * x per beat: integral of 60 / T(x) over one beat\n    const slope = (change.endTempo - measure.tempo) / beatsInBar;\n    const endTempo = startTempo + slope;\n    return (60 / slope) * Math.log(endTempo / startTempo) * beatScale;\n}\n\n  },\n  \"webview/shared/pageWindow.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Page Window\n * What a page finds on `window` inside the WebView: the React Native bridge\n * and the prefixed audio constructors of older WebKit.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.getPageWindow = void 0;\nexports.createAudioContext = createAudioContext;\n// The page's window; pages extend PageWindow with the functions they expose\nconst getPageWindow = () => window;\nexports.getPageWindow = getPageWindow;\n// A new AudioContext, or null where Web Audio is unavailable\nfunction createAudioContext() {\n    const pageWindow = (0, exports.getPageWindow)();\n    const AudioContextClass = pageWindow.AudioContext || pageWindow.webkitAudioContext;\n    return AudioContextClass ? new AudioContextClass() : null;\n}\n\n  },\n  \"utils/clickSounds.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Click Sounds\n * The synthesized click sound bank shared by the metronome and shows. Every\n * sound is built from oscillators and noise on the given context, so live\n * playback and offline WAV rendering use the same sounds.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.playClickSound = playClickSound;\nexports.playCountInSound = playCountInSound;\nexports.speakCountIn = speakCountIn;\nconst accentPattern_1 = require(\"utils/accentPattern.ts\");\n// Route a click through the level's volume\nfunction createAccentOutput(context, output, gain) {\n    if (gain === 1)\n        return output;\n    const gainNode = context.createGain();\n    gainNode.gain.value = gain;\n    gainNode.connect(output);\n    return gainNode;\n}\n/**\n * Queue one click of 'sound' at 'level' on 'context' at 'time' (now when\n * omitted). Muted clicks play nothing; the others pick the high or low sound\n * and are scaled in volume and pitch for the sound type. 'volume' scales layers.\n */\nfunction playClickSound(context, destination, sound, level, time, volume = 1) {\n    const voice = (0, accentPattern_1.getAccentVoice)(sound, level);\n    if (!voice) {\n        return;\n    }\n    const isAccent = voice.high;\n    const pitch = voice.pitch;\n    const startTime = time !== null && time !== void 0 ? time : context.currentTime;\n    const duration = 0.08;\n    const output = createAccentOutput(context, destination, voice.gain * volume);\n    // Different sound types\n    if (sound === 'synth') {\n        if (isAccent) {\n            // Downbeat: higher frequency with more harmonics\n            const oscillator1 = context.createOscillator();\n            const oscillator2 = context.createOscillator();\n            const gainNode = context.createGain();\n            oscillator1.frequency.setValueAtTime(800 * pitch, startTime);\n            oscillator2.frequency.setValueAtTime(1200 * pitch, startTime);\n            gainNode.gain.setValueAtTime(0.3, startTime);\n            gainNode.gain.exponentialRampToValueAtTime(0.01, startTime + duration);\n            oscillator1.connect(gainNode);\n            oscillator2.connect(gainNode);\n            gainNode.connect(output);\n            oscillator1.start(startTime);\n            oscillator2.start(startTime);\n            oscillator1.stop(startTime + duration);\n            oscillator2.stop(startTime + duration);\n        }\n        else {\n            // Offbeat: simpler sound\n            const oscillator = context.createOscillator();\n            const gainNode = context.createGain();\n            oscillator.frequency.setValueAtTime(600 * pitch, startTime);\n            gainNode.gain.setValueAtTime(0.2, startTime);\n            gainNode.gain.exponentialRampToValueAtTime(0.01, startTime + duration);\n            oscillator.connect(gainNode);\n            gainNode.connect(output);\n            oscillator.start(startTime);\n            oscillator.stop(startTime + duration);\n        }\n    }\n    else if (sound === 'woodblock') {\n        // Woodblock sound - authentic synthesis with proper envelopes and filtering\n        const oscillator1 = context.createOscillator();\n        const oscillator2 = context.createOscillator();\n        const noiseBuffer = context.createBuffer(1, 2048, context.sampleRate);\n        const noiseData = noiseBuffer.getChannelData(0);\n        for (let i = 0; i < 2048; i++) {\n            noiseData[i] = Math.random() * 2 - 1;\n        }\n        const noiseSource = context.createBufferSource();\n        noiseSource.buffer = noiseBuffer;\n        const gainNode = context.createGain();\n        const noiseGain = context.createGain();\n        const filterNode = context.createBiquadFilter();\n        const filterEnv = context.createGain();\n        // Fundamental pitch - higher for accent\n        const baseFreq = (isAccent ? 1200 : 800) * pitch;\n        // Primary oscillator - square wave for rich harmonics\n        oscillator1.frequency.setValueAtTime(baseFreq, startTime);\n        oscillator1.type = 'square';\n        // Secondary oscillator - slightly detuned for complexity\n        oscillator2.frequency.setValueAtTime(baseFreq * 1.01, startTime);\n        oscillator2.type = 'square';\n        // Filter configuration - low-pass with resonance\n        filterNode.type = 'lowpass';\n        filterNode.frequency.setValueAtTime(6000, startTime);\n        filterNode.Q.setValueAtTime(0.2, startTime);\n        // Amplitude envelope - extremely fast attack, short decay\n        gainNode.gain.setValueAtTime(0, startTime);\n        gainNode.gain.linearRampToValueAtTime(isAccent ? 1.5 : 1.2, startTime + 0.001); // Fast attack\n        gainNode.gain.exponentialRampToValueAtTime(0.01, startTime + 0.08); // Short decay\n        // Noise envelope - very short burst for initial \"thwack\"\n        noiseGain.gain.setValueAtTime(0, startTime);\n        noiseGain.gain.linearRampToValueAtTime(0.8, startTime + 0.001); // Fast attack\n        noiseGain.gain.exponentialRampToValueAtTime(0.001, startTime + 0.005); // Very short decay\n        // Filter envelope - brighten then muffle\n        filterEnv.gain.setValueAtTime(1, startTime);\n        filterEnv.gain.exponentialRampToValueAtTime(0.3, startTime + 0.06); // Filter decay\n        // Connect oscillators\n        oscillator1.connect(filterNode);\n        oscillator2.connect(filterNode);\n        // Connect noise\n        noiseSource.connect(noiseGain);\n        noiseGain.connect(filterNode);\n        // Connect filter with envelope\n        filterNode.connect(filterEnv);\n        filterEnv.connect(gainNode);\n        gainNode.connect(output);\n        // Start oscillators\n        oscillator1.start(startTime);\n        oscillator2.start(startTime);\n        noiseSource.start(startTime);\n        // Stop oscillators\n        oscillator1.stop(startTime + 0.08);\n        oscillator2.stop(startTime + 0.08);\n        noiseSource.stop(startTime + 0.005);\n    }\n    else if (sound === 'cowbell') {\n        // Cowbell sound - authentic metallic synthesis with inharmonic relationships\n        const oscillator1 = context.createOscillator();\n        const oscillator2 = context.createOscillator();\n        const oscillator3 = context.createOscillator();\n        const oscillator4 = context.createOscillator();\n        const oscillator5 = context.createOscillator();\n        const noiseBuffer = context.createBuffer(1, 2048, context.sampleRate);\n        const noiseData = noiseBuffer.getChannelData(0);\n        for (let i = 0; i < 2048; i++) {\n            noiseData[i] = Math.random() * 2 - 1;\n        }\n        const noiseSource = context.createBufferSource();\n        noiseSource.buffer = noiseBuffer;\n        const gainNode = context.createGain();\n        const noiseGain = context.createGain();\n        const filterNode = context.createBiquadFilter();\n        const filterEnv = context.createGain();\n        // Fundamental frequency - higher for accent\n        const baseFreq = (isAccent ? 600 : 400) * pitch;\n        // Additive synthesis with inharmonic relationships for metallic tone\n        oscillator1.frequency.setValueAtTime(baseFreq, startTime);\n        oscillator2.frequency.setValueAtTime(baseFreq * 1.6, startTime);\n        oscillator3.frequency.setValueAtTime(baseFreq * 2.1, startTime);\n        oscillator4.frequency.setValueAtTime(baseFreq * 2.7, startTime);\n        oscillator5.frequency.setValueAtTime(baseFreq * 3.2, startTime);\n        // All sine waves for metallic, inharmonic character\n        oscillator1.type = 'sine';\n        oscillator2.type = 'sine';\n        oscillator3.type = 'sine';\n        oscillator4.type = 'sine';\n        oscillator5.type = 'sine';\n        // Band-pass filter for metallic \"clang\" character\n        filterNode.type = 'bandpass';\n        filterNode.frequency.setValueAtTime(baseFreq * 2.0, startTime);\n        filterNode.Q.setValueAtTime(0.6, startTime);\n        // Amplitude envelope - fast attack, metallic decay\n        gainNode.gain.setValueAtTime(0, startTime);\n        gainNode.gain.linearRampToValueAtTime(isAccent ? 1.8 : 1.5, startTime + 0.001); // Fast attack\n        gainNode.gain.exponentialRampToValueAtTime(0.02, startTime + 0.2); // Metallic decay\n        // Noise envelope - very short burst for initial \"clank\"\n        noiseGain.gain.setValueAtTime(0, startTime);\n        noiseGain.gain.linearRampToValueAtTime(1.0, startTime + 0.001); // Fast attack\n        noiseGain.gain.exponentialRampToValueAtTime(0.001, startTime + 0.008); // Very short decay\n        // Filter envelope - brighten then muffle for metallic resonance\n        filterEnv.gain.setValueAtTime(1, startTime);\n        filterEnv.gain.exponentialRampToValueAtTime(0.4, startTime + 0.15); // Filter decay\n        // Connect oscillators\n        oscillator1.connect(filterNode);\n        oscillator2.connect(filterNode);\n        oscillator3.connect(filterNode);\n        oscillator4.connect(filterNode);\n        oscillator5.connect(filterNode);\n        // Connect noise\n        noiseSource.connect(noiseGain);\n        noiseGain.connect(filterNode);\n        // Connect filter with envelope\n        filterNode.connect(filterEnv);\n        filterEnv.connect(gainNode);\n        gainNode.connect(output);\n        // Start oscillators\n        oscillator1.start(startTime);\n        oscillator2.start(startTime);\n        oscillator3.start(startTime);\n        oscillator4.start(startTime);\n        oscillator5.start(startTime);\n        noiseSource.start(startTime);\n        // Stop oscillators\n        oscillator1.stop(startTime + 0.2);\n        oscillator2.stop(startTime + 0.2);\n        oscillator3.stop(startTime + 0.2);\n        oscillator4.stop(startTime + 0.2);\n        oscillator5.stop(startTime + 0.2);\n        noiseSource.stop(startTime + 0.008);\n    }\n    else if (sound === 'click') {\n        // Click sound - extremely loud, thick, woody, percussive\n        const oscillator1 = context.createOscillator();\n        const oscillator2 = context.createOscillator();\n        const oscillator3 = context.createOscillator();\n        const oscillator4 = context.createOscillator();\n        const oscillator5 = context.createOscillator();\n        const gainNode = context.createGain();\n        const filterNode = context.createBiquadFilter();\n        const filterNode2 = context.createBiquadFilter();\n        const filterNode3 = context.createBiquadFilter();\n        // Multiple oscillators for a thick, woody percussive sound\n        oscillator1.frequency.setValueAtTime((isAccent ? 800 : 600) * pitch, startTime);\n        oscillator2.frequency.setValueAtTime((isAccent ? 1200 : 900) * pitch, startTime);\n        oscillator3.frequency.setValueAtTime((isAccent ? 1600 : 1200) * pitch, startTime);\n        oscillator4.frequency.setValueAtTime((isAccent ? 2400 : 1800) * pitch, startTime);\n        oscillator5.frequency.setValueAtTime((isAccent ? 3200 : 2400) * pitch, startTime);\n        oscillator1.type = 'sawtooth';\n        oscillator2.type = 'square';\n        oscillator3.type = 'triangle';\n        oscillator4.type = 'sawtooth';\n        oscillator5.type = 'square';\n        // Low-pass filter to make it thicker and less sharp\n        filterNode.type = 'lowpass';\n        filterNode.frequency.setValueAtTime(1600, startTime);\n        filterNode.Q.setValueAtTime(2, startTime);\n        // Band-pass filter for woody character\n        filterNode2.type = 'bandpass';\n        filterNode2.frequency.setValueAtTime(1200, startTime);\n        filterNode2.Q.setValueAtTime(8, startTime);\n        // High-pass filter to cut very low frequencies\n        filterNode3.type = 'highpass';\n        filterNode3.frequency.setValueAtTime(400, startTime);\n        filterNode3.Q.setValueAtTime(1, startTime);\n        // Extremely loud, thick envelope with very hard attack\n        gainNode.gain.setValueAtTime(isAccent ? 3.5 : 3.0, startTime);\n        gainNode.gain.exponentialRampToValueAtTime(0.02, startTime + 0.08); // Harder, shorter decay\n        oscillator1.connect(filterNode);\n        oscillator2.connect(filterNode);\n        oscillator3.connect(filterNode);\n        oscillator4.connect(filterNode);\n        oscillator5.connect(filterNode);\n        filterNode.connect(filterNode2);\n        filterNode2.connect(filterNode3);\n        filterNode3.connect(gainNode);\n        gainNode.connect(output);\n        oscillator1.start(startTime);\n        oscillator2.start(startTime);\n        oscillator3.start(startTime);\n        oscillator4.start(startTime);\n        oscillator5.start(startTime);\n        oscillator1.stop(startTime + 0.08);\n        oscillator2.stop(startTime + 0.08);\n        oscillator3.stop(startTime + 0.08);\n        oscillator4.stop(startTime + 0.08);\n        oscillator5.stop(startTime + 0.08);\n    }\n    else if (sound === 'beep') {\n        // Beep sound - extremely loud, flat, annoying\n        const oscillator1 = context.createOscillator();\n        const oscillator2 = context.createOscillator();\n        const oscillator3 = context.createOscillator();\n        const gainNode = context.createGain();\n        const filterNode = context.createBiquadFilter();\n        // High frequencies for annoying, piercing sound\n        const baseFreq = (isAccent ? 2000 : 1800) * pitch;\n        oscillator1.frequency.setValueAtTime(baseFreq, startTime);\n        oscillator2.frequency.setValueAtTime(baseFreq * 1.0, startTime); // No detuning for flat sound\n        oscillator3.frequency.setValueAtTime(baseFreq * 1.0, startTime); // No detuning for flat sound\n        // Square waves for harsh, flat tone\n        oscillator1.type = 'square';\n        oscillator2.type = 'square';\n        oscillator3.type = 'square';\n        // High-pass filter to make it piercing and annoying\n        filterNode.type = 'highpass';\n        filterNode.frequency.setValueAtTime(baseFreq * 0.8, startTime);\n        filterNode.Q.setValueAtTime(8, startTime); // High resonance for piercing sound\n        // Extremely loud, flat envelope\n        gainNode.gain.setValueAtTime(isAccent ? 3.5 : 3.0, startTime);\n        gainNode.gain.exponentialRampToValueAtTime(0.1, startTime + 0.1); // Longer, flat decay\n        oscillator1.connect(filterNode);\n        oscillator2.connect(filterNode);\n        oscillator3.connect(filterNode);\n        filterNode.connect(gainNode);\n        gainNode.connect(output);\n        oscillator1.start(startTime);\n        oscillator2.start(startTime);\n        oscillator3.start(startTime);\n        oscillator1.stop(startTime + 0.1);\n        oscillator2.stop(startTime + 0.1);\n        oscillator3.stop(startTime + 0.1);\n    }\n    else if (sound === 'drbeat') {\n        // Drbeat sound - fairly short, extremely loud and percussive like a marching snare shot\n        const oscillator1 = context.createOscillator();\n        const oscillator2 = context.createOscillator();\n        const oscillator3 = context.createOscillator();\n        const lowOscillator = context.createOscillator(); // New low-pitched oscillator\n        const noiseBuffer = context.createBuffer(1, 4096, context.sampleRate);\n        const noiseData = noiseBuffer.getChannelData(0);\n        for (let i = 0; i < 4096; i++) {\n            noiseData[i] = Math.random() * 2 - 1;\n        }\n        const noiseSource = context.createBufferSource();\n        noiseSource.buffer = noiseBuffer;\n        const gainNode = context.createGain();\n        const lowGainNode = context.createGain(); // Separate gain for low note\n        const noiseGain = context.createGain();\n        const filterNode = context.createBiquadFilter();\n        const filterNode2 = context.createBiquadFilter();\n        // Higher-pitched frequencies for sharper attack - increased by ~50%\n        const baseFreq = (isAccent ? 3600 : 2700) * pitch; // Increased from 2400/1800\n        const lowFreq = (isAccent ? 80 : 60) * pitch; // Low-pitched note\n        // Multiple oscillators for thick, sharp attack (higher pitched)\n        oscillator1.frequency.setValueAtTime(baseFreq, startTime);\n        oscillator2.frequency.setValueAtTime(baseFreq * 1.5, startTime);\n        oscillator3.frequency.setValueAtTime(baseFreq * 2.2, startTime);\n        // Low-pitched oscillator for depth\n        lowOscillator.frequency.setValueAtTime(lowFreq, startTime);\n        // Square waves for sharp, cutting character\n        oscillator1.type = 'square';\n        oscillator2.type = 'square';\n        oscillator3.type = 'sawtooth';\n        lowOscillator.type = 'sine'; // Smooth low note\n        // High-pass filter for sharp, cutting tone\n        filterNode.type = 'highpass';\n        filterNode.frequency.setValueAtTime(800, startTime);\n        filterNode.Q.setValueAtTime(3, startTime);\n        // Band-pass filter for snare-like character\n        filterNode2.type = 'bandpass';\n        filterNode2.frequency.setValueAtTime(baseFreq, startTime);\n        filterNode2.Q.setValueAtTime(8, startTime);\n        // Extremely loud, sharp envelope - instant attack, fairly short decay\n        gainNode.gain.setValueAtTime(0, startTime);\n        gainNode.gain.linearRampToValueAtTime(isAccent ? 4.5 : 4.0, startTime + 0.0005); // Ultra-fast attack\n        gainNode.gain.exponentialRampToValueAtTime(0.01, startTime + 0.06); // Fairly short decay\n        // Low note envelope - softer attack, longer sustain\n        lowGainNode.gain.setValueAtTime(0, startTime);\n        lowGainNode.gain.linearRampToValueAtTime(isAccent ? 0.8 : 0.6, startTime + 0.002); // Slightly slower attack\n        lowGainNode.gain.exponentialRampToValueAtTime(0.01, startTime + 0.12); // Longer decay for depth\n        // Sharp noise burst for snare crack\n        noiseGain.gain.setValueAtTime(0, startTime);\n        noiseGain.gain.linearRampToValueAtTime(2.0, startTime + 0.0005); // Ultra-fast attack\n        noiseGain.gain.exponentialRampToValueAtTime(0.001, startTime + 0.008); // Very short noise burst\n        // Connect high-pitched oscillators through filters\n        oscillator1.connect(filterNode);\n        oscillator2.connect(filterNode);\n        oscillator3.connect(filterNode);\n        filterNode.connect(filterNode2);\n        // Connect low oscillator directly (bypass filters for full low end)\n        lowOscillator.connect(lowGainNode);\n        lowGainNode.connect(output);\n        // Connect noise through filters\n        noiseSource.connect(noiseGain);\n        noiseGain.connect(filterNode2);\n        // Final output for high frequencies\n        filterNode2.connect(gainNode);\n        gainNode.connect(output);\n        // Start everything\n        oscillator1.start(startTime);\n        oscillator2.start(startTime);\n        oscillator3.start(startTime);\n        lowOscillator.start(startTime);\n        noiseSource.start(startTime);\n        // Stop everything\n        oscillator1.stop(startTime + 0.06);\n        oscillator2.stop(startTime + 0.06);\n        oscillator3.stop(startTime + 0.06);\n        lowOscillator.stop(startTime + 0.12); // Let low note sustain longer\n        noiseSource.stop(startTime + 0.008);\n    }\n    else if (sound === 'sharp') {\n        // Snap sound - extremely short, sharp and piercing like a powerful woodblock hit\n        const oscillator1 = context.createOscillator();\n        const oscillator2 = context.createOscillator();\n        const oscillator3 = context.createOscillator();\n        const noiseBuffer = context.createBuffer(1, 2048, context.sampleRate);\n        const noiseData = noiseBuffer.getChannelData(0);\n        for (let i = 0; i < 2048; i++) {\n            noiseData[i] = Math.random() * 2 - 1;\n        }\n        const noiseSource = context.createBufferSource();\n        noiseSource.buffer = noiseBuffer;\n        const gainNode = context.createGain();\n        const noiseGain = context.createGain();\n        const filterNode = context.createBiquadFilter();\n        const compressor = context.createDynamicsCompressor();\n        // Extremely high frequencies for piercing snap\n        const baseFreq = (isAccent ? 3200 : 2800) * pitch;\n        // Multiple high-frequency oscillators for piercing attack\n        oscillator1.frequency.setValueAtTime(baseFreq, startTime);\n        oscillator2.frequency.setValueAtTime(baseFreq * 1.8, startTime);\n        oscillator3.frequency.setValueAtTime(baseFreq * 2.5, startTime);\n        // Square waves for maximum sharpness\n        oscillator1.type = 'square';\n        oscillator2.type = 'square';\n        oscillator3.type = 'square';\n        // High-pass filter for ultra-sharp, piercing tone\n        filterNode.type = 'highpass';\n        filterNode.frequency.setValueAtTime(1200, startTime);\n        filterNode.Q.setValueAtTime(6, startTime);\n        // Compressor for punch and loudness\n        compressor.threshold.setValueAtTime(-10, startTime);\n        compressor.knee.setValueAtTime(0, startTime);\n        compressor.ratio.setValueAtTime(20, startTime);\n        compressor.attack.setValueAtTime(0, startTime);\n        compressor.release.setValueAtTime(0.01, startTime);\n        // Extremely loud, instantaneous envelope - shortest possible\n        gainNode.gain.setValueAtTime(0, startTime);\n        gainNode.gain.linearRampToValueAtTime(isAccent ? 5.0 : 4.5, startTime + 0.0002); // Instantaneous attack\n        gainNode.gain.exponentialRampToValueAtTime(0.01, startTime + 0.025); // Extremely short decay\n        // Sharp, piercing noise crack\n        noiseGain.gain.setValueAtTime(0, startTime);\n        noiseGain.gain.linearRampToValueAtTime(2.5, startTime + 0.0002); // Instantaneous attack\n        noiseGain.gain.exponentialRampToValueAtTime(0.001, startTime + 0.003); // Ultra-short noise burst\n        // Connect oscillators\n        oscillator1.connect(filterNode);\n        oscillator2.connect(filterNode);\n        oscillator3.connect(filterNode);\n        // Connect noise\n        noiseSource.connect(noiseGain);\n        noiseGain.connect(filterNode);\n        // Through compressor for punch\n        filterNode.connect(compressor);\n        compressor.connect(gainNode);\n        gainNode.connect(output);\n        // Start everything\n        oscillator1.start(startTime);\n        oscillator2.start(startTime);\n        oscillator3.start(startTime);\n        noiseSource.start(startTime);\n        // Stop everything quickly\n        oscillator1.stop(startTime + 0.025);\n        oscillator2.stop(startTime + 0.025);\n        oscillator3.stop(startTime + 0.025);\n        noiseSource.stop(startTime + 0.003);\n    }\n}\n// Schedule one count-in click at 'time' on 'context'\nfunction playCountInSound(context, output, time, sound, isDownbeat) {\n    const gainNode = context.createGain();\n    gainNode.connect(output);\n    if (sound === 'woodblock') {\n        const osc = context.createOscillator();\n        osc.type = 'sine';\n        osc.frequency.setValueAtTime(isDownbeat ? 1400 : 1000, time);\n        osc.frequency.exponentialRampToValueAtTime(isDownbeat ? 900 : 700, time + 0.04);\n        gainNode.gain.setValueAtTime(isDownbeat ? 0.6 : 0.45, time);\n        gainNode.gain.exponentialRampToValueAtTime(0.001, time + 0.06);\n        osc.connect(gainNode);\n        osc.start(time);\n        osc.stop(time + 0.06);\n        return;\n    }\n    if (sound === 'cowbell') {\n        // Two detuned squares give the metallic cowbell colour\n        [540, 800].forEach(freq => {\n            const osc = context.createOscillator();\n            osc.type = 'square';\n            osc.frequency.setValueAtTime(isDownbeat ? freq * 1.25 : freq, time);\n            osc.connect(gainNode);\n            osc.start(time);\n            osc.stop(time + 0.2);\n        });\n        gainNode.gain.setValueAtTime(isDownbeat ? 0.25 : 0.18, time);\n        gainNode.gain.exponentialRampToValueAtTime(0.001, time + 0.2);\n        return;\n    }\n    // 'tone': the original count-off sound\n    [1200, 1800, 2400].forEach(freq => {\n        const osc = context.createOscillator();\n        osc.type = 'sine';\n        osc.frequency.setValueAtTime(freq, time);\n        osc.connect(gainNode);\n        osc.start(time);\n        osc.stop(time + 0.12);\n    });\n    gainNode.gain.setValueAtTime(0.4, time);\n    gainNode.gain.exponentialRampToValueAtTime(0.01, time + 0.12);\n}\n// Speak the count; silently skipped where speech synthesis is unavailable\nfunction speakCountIn(count) {\n    if (typeof window === 'undefined' || !window.speechSynthesis || typeof SpeechSynthesisUtterance === 'undefined')\n        return;\n    window.speechSynthesis.cancel();\n    const utterance = new SpeechSynthesisUtterance(String(count));\n    utterance.rate = 1.6;\n    window.speechSynthesis.speak(utterance);\n}\n\n  },\n  \"utils/lookaheadScheduler.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Lookahead Scheduler\n * Queues audio events ahead of time at exact AudioContext times. A coarse JS\n * timer only refills the scheduling window, so timer jitter never reaches the\n * audio output.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.SCHEDULER_START_DELAY_SECONDS = exports.SCHEDULER_TICK_MS = exports.SCHEDULER_LOOKAHEAD_SECONDS = void 0;\nexports.createLookaheadScheduler = createLookaheadScheduler;\n// How far ahead of the audio clock events are queued (seconds)\nexports.SCHEDULER_LOOKAHEAD_SECONDS = 0.1;\n// How often the scheduling window is refilled (milliseconds)\nexports.SCHEDULER_TICK_MS = 25;\n// Delay between pressing play and the first scheduled click (seconds)\nexports.SCHEDULER_START_DELAY_SECONDS = 0.05;\n/**\n * Lookahead scheduler shared by every page that plays audio. Events already\n * inside the scheduling window keep their times when the event source changes.\n */\nfunction createLookaheadScheduler(options) {\n    const lookahead = options.lookahead || exports.SCHEDULER_LOOKAHEAD_SECONDS;\n    const tickInterval = options.tickInterval || exports.SCHEDULER_TICK_MS;\n    let timerId = null;\n    let nextEvent = null;\n    let lastScheduledEvent = null;\n    let output = null;\n    let uiTimers = [];\n    const dispatchUiEvent = (event, context) => {\n        const onUiEvent = options.onUiEvent;\n        if (!onUiEvent)\n            return;\n        const delay = Math.max(0, (event.time - context.currentTime) * 1000);\n        const timeoutId = setTimeout(() => {\n            uiTimers = uiTimers.filter(id => id !== timeoutId);\n            onUiEvent(event);\n        }, delay);\n        uiTimers.push(timeoutId);\n    };\n    // Fill the scheduling window up to currentTime + lookahead\n    const tick = () => {\n        const context = options.getAudioContext();\n        if (!context || !nextEvent)\n            return;\n        const horizon = context.currentTime + lookahead;\n        while (nextEvent && nextEvent.time < horizon) {\n            options.onSchedule(nextEvent);\n            dispatchUiEvent(nextEvent, context);\n            lastScheduledEvent = nextEvent;\n            nextEvent = options.getNextEvent(nextEvent);\n        }\n        // Event source is exhausted - nothing left to refill\n        if (!nextEvent && timerId) {\n            clearInterval(timerId);\n            timerId = null;\n        }\n    };\n    const stop = (atTime) => {\n        if (timerId) {\n            clearInterval(timerId);\n            timerId = null;\n        }\n        uiTimers.forEach(id => clearTimeout(id));\n        uiTimers = [];\n        nextEvent = null;\n        lastScheduledEvent = null;\n        if (output) {\n            const context = options.getAudioContext();\n            const stoppedOutput = output;\n            output = null;\n            try {\n                stoppedOutput.gain.setValueAtTime(0, atTime !== undefined ? atTime : context ? context.currentTime : 0);\n            }\n            catch (e) {\n                console.log('Scheduler: could not silence output', e);\n            }\n            // Disconnect once queued sources have had a chance to end\n            setTimeout(() => {\n                try {\n                    stoppedOutput.disconnect();\n                }\n                catch { }\n            }, 500);\n        }\n    };\n    return {\n        start: (firstEvent) => {\n            const context = options.getAudioContext();\n            stop();\n            if (!context)\n                return;\n            // Every run gets its own output bus so it can be silenced on the audio clock\n            output = context.createGain();\n            output.connect(context.destination);\n            nextEvent = firstEvent;\n            tick();\n            if (nextEvent) {\n                timerId = setInterval(tick, tickInterval);\n            }\n        },\n        stop,\n        reschedule: () => {\n            if (!timerId || !lastScheduledEvent)\n                return;\n            nextEvent = options.getNextEvent(lastScheduledEvent);\n            tick();\n        },\n        getOutput: () => output,\n        isRunning: () => timerId !== null || uiTimers.length > 0,\n    };\n}\n\n  },\n  \"utils/showMeasures.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Show Measures\n * Shows are stored compactly: one measure entry with `count` N stands for N\n * identical bars. These helpers convert between entries and bar numbers.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.getMeasureCount = getMeasureCount;\nexports.getTotalMeasureCount = getTotalMeasureCount;\nexports.getMeasureStartNumbers = getMeasureStartNumbers;\nexports.expandMeasures = expandMeasures;\nconst showStructure_1 = require(\"utils/showStructure.ts\");\nconst tempoCurve_1 = require(\"utils/tempoCurve.ts\");\n// Number of bars a measure entry stands for\nfunction getMeasureCount(measure) {\n    return measure.count && measure.count > 0 ? measure.count : 1;\n}\n// Total number of bars in a list of measure entries\nfunction getTotalMeasureCount(measures) {\n    return measures.reduce((total, measure) => total + getMeasureCount(measure), 0);\n}\n// 1-based bar number of the first bar of each measure entry\nfunction getMeasureStartNumbers(measures) {\n    const startNumbers = [];\n    let barNumber = 1;\n    measures.forEach(measure => {\n        startNumbers.push(barNumber);\n        barNumber += getMeasureCount(measure);\n    });\n    return startNumbers;\n}\n// Expand measure entries into one entry per bar. Start markers stay on the\n// first bar and end markers on the last; ids of later bars are derived from\n// the entry's id. A tempo change is split so each bar ramps over its own\n// part of the curve.\nfunction expandMeasures(measures) {\n    const bars = [];\n    measures.forEach(measure => {\n        const count = getMeasureCount(measure);\n        for (let i = 0; i < count; i++) {\n            const bar = { ...measure, count: 1 };\n            if (i > 0) {\n                if (measure.id !== undefined)\n                    bar.id = `${measure.id}:${i}`;\n                showStructure_1.START_MARKER_KEYS.forEach(key => delete bar[key]);\n            }\n            if (i < count - 1) {\n                showStructure_1.END_MARKER_KEYS.forEach(key => delete bar[key]);\n            }\n            if (measure.tempoChange && count > 1) {\n                bar.tempo = (0, tempoCurve_1.roundTempo)((0, tempoCurve_1.getRampTempo)(measure, i / count));\n                bar.tempoChange = {\n                    ...measure.tempoChange,\n                    endTempo: (0, tempoCurve_1.roundTempo)((0, tempoCurve_1.getRampTempo)(measure, (i + 1) / count)),\n                };\n            }\n            bars.push(bar);\n        }\n    });\n    return bars;\n}\n\n  },\n  \"utils/showTimeline.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Show Timeline\n * Show playback runs on a precomputed timeline: the count-in and every beat,\n * subdivision click and pause of the bars being played, each with its\n * AudioContext time, so tempo and meter changes land exactly on the downbeat.\n * Live playback and WAV export build the same timeline.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.getPlaybackStartOptions = getPlaybackStartOptions;\nexports.getPlaybackPositions = getPlaybackPositions;\nexports.getPlaybackRange = getPlaybackRange;\nexports.buildShowTimeline = buildShowTimeline;\nexports.isHold = isHold;\nexports.getNextTimelineEvent = getNextTimelineEvent;\nexports.resumeTimeline = resumeTimeline;\nconst accentPattern_1 = require(\"utils/accentPattern.ts\");\nconst countIn_1 = require(\"utils/countIn.ts\");\nconst meterGrouping_1 = require(\"utils/meterGrouping.ts\");\nconst showStructure_1 = require(\"utils/showStructure.ts\");\nconst swing_1 = require(\"utils/swing.ts\");\nconst tempoCurve_1 = require(\"utils/tempoCurve.ts\");\n// Start options for the sound system; 'current' starts at the measure shown on screen\nfunction getPlaybackStartOptions(form, currentMeasure) {\n    const toMeasure = (text) => {\n        const measure = parseInt(text, 10);\n        return measure > 0 ? measure : undefined;\n    };\n    return {\n        startType: form.startType,\n        startMeasure: form.startType === 'current' ? currentMeasure : toMeasure(form.startMeasure),\n        startLetter: form.startLetter || undefined,\n        endType: form.endType,\n        endMeasure: toMeasure(form.endMeasure),\n        endLetter: form.endLetter || undefined,\n    };\n}\n/**\n * Bar index playback starts at, and the bar index it stops before (the bar\n * count to play to the end), for the given playback options.\n */\nfunction getPlaybackPositions(bars, options) {\n    if (bars.length === 0)\n        return { start: 0, end: 0 };\n    let start = 0;\n    if (options.startType !== 'beginning') {\n        if (options.startLetter) {\n            start = Math.max(0, bars.findIndex(bar => bar.letter === options.startLetter));\n        }\n        else if (options.startMeasure) {\n            start = Math.max(0, Math.min(options.startMeasure - 1, bars.length - 1));\n        }\n    }\n    let end = bars.length;\n    if (options.endType === 'specific') {\n        if (options.endLetter) {\n            const letterIndex = bars.findIndex(bar => bar.letter === options.endLetter);\n            end = letterIndex === -1 ? bars.length : letterIndex;\n        }\n        else if (options.endMeasure) {\n            end = Math.max(1, Math.min(options.endMeasure, bars.length));\n        }\n    }\n    return { start, end };\n}\n/**\n * Section of the playback order between the start and end bars. Playback\n * starts at the first time the start bar is played and stops when the order\n * next reaches the end bar (or runs out).\n */\nfunction getPlaybackRange(playbackOrder, startPosition, endPosition) {\n    let start = playbackOrder.indexOf(startPosition);\n    if (start === -1) {\n        // Start bar is never played (e.g. an unused ending) - use the next one that is\n        start = playbackOrder.findIndex(measureIndex => measureIndex > startPosition);\n    }\n    if (start === -1) {\n        return { start: 0, end: 0 };\n    }\n    const end = playbackOrder.indexOf(endPosition, start + 1);\n    return { start, end: end === -1 ? playbackOrder.length : end };\n}\n// Duration of one beat of a bar in seconds, following its tempo curve. A beat\n// grouping moves the tempo to the shortest group (3+3/8: dotted quarter)\nfunction getBeatDuration(bar, beatIndex) {\n    return (0, tempoCurve_1.getRampBeatDuration)(bar, beatIndex, bar.timeSignature.numerator, (0, meterGrouping_1.getBeatScale)(bar.timeSignature));\n}\n/**\n * Count-in and every beat of the bars in 'playbackOrder', starting at\n * 'startTime'. A pause delays everything after it; a hold has no duration\n * here, so the rest of the timeline is shifted when playback resumes.\n */\nfunction buildShowTimeline(bars, playbackOrder, startTime, countIn, resuming = false) {\n    const timeline = [];\n    // Count-in at the start measure's tempo, in its meter or a fixed 4/4\n    const plan = (0, countIn_1.getCountInBeats)(countIn, bars[playbackOrder[0]], resuming);\n    plan.beats.forEach((beat, beatIndex) => {\n        timeline.push({\n            type: 'countOff',\n            index: timeline.length,\n            time: startTime + beat.offset,\n            beatIndex,\n            count: beat.count,\n            isDownbeat: beat.isDownbeat,\n            beatsPerBar: plan.beatsPerBar,\n            tempo: Math.round(plan.tempo),\n            sound: countIn.sound,\n            spoken: countIn.spoken,\n        });\n    });\n    let time = startTime + plan.duration;\n    let afterPause = false;\n    playbackOrder.forEach((measureIndex, playIndex) => {\n        var _a;\n        const bar = bars[measureIndex];\n        const beatsInMeasure = bar.timeSignature.numerator;\n        // Grouped meters accent the first beat of every group by default\n        const accents = (0, accentPattern_1.getMeasureAccents)(bar);\n        const beatLevels = (0, accentPattern_1.getBeatLevels)(accents, bar.timeSignature);\n        const subdivision = bar.subdivision || 1;\n        for (let beatIndex = 0; beatIndex < beatsInMeasure; beatIndex++) {\n            timeline.push({\n                type: 'beat',\n                index: timeline.length,\n                time,\n                measureIndex,\n                playIndex,\n                beatIndex,\n                beatsInMeasure,\n                isDownbeat: beatIndex === 0,\n                level: beatLevels[beatIndex],\n                tempo: Math.round((0, tempoCurve_1.getRampTempo)(bar, beatIndex / beatsInMeasure)),\n                afterPause: afterPause && beatIndex === 0,\n                measureData: bar,\n            });\n            const beatDuration = getBeatDuration(bar, beatIndex);\n            // Subdivision clicks only sound; swing pushes back every second one\n            for (let subdivisionIndex = 1; subdivisionIndex < subdivision; subdivisionIndex++) {\n                timeline.push({\n                    type: 'subdivision',\n                    index: timeline.length,\n                    time: time + beatDuration * (0, swing_1.getSubdivisionOffset)(subdivisionIndex, subdivision, (_a = bar.swing) !== null && _a !== void 0 ? _a : swing_1.STRAIGHT_SWING),\n                    level: (0, accentPattern_1.getAccentLevel)(accents, beatIndex, subdivisionIndex, 'normal'),\n                });\n            }\n            time += beatDuration;\n        }\n        afterPause = false;\n        if (bar.pause) {\n            const duration = (0, showStructure_1.getPauseDuration)(bar);\n            timeline.push({\n                type: 'pause',\n                index: timeline.length,\n                time,\n                measureIndex,\n                playIndex,\n                beatsInMeasure,\n                tempo: Math.round((0, tempoCurve_1.getRampTempo)(bar, 1)),\n                pause: bar.pause,\n                duration,\n            });\n            time += duration || 0;\n            afterPause = true;\n        }\n    });\n    // The show ends one full beat after the last click\n    timeline.push({ type: 'end', index: timeline.length, time });\n    return timeline;\n}\n// Whether playback waits at 'event' until it is resumed\nfunction isHold(event) {\n    return event.type === 'pause' && event.duration === null;\n}\n// Event scheduled after 'previous'; scheduling stops at a hold until it is resumed\nfunction getNextTimelineEvent(timeline, previous) {\n    return isHold(previous) ? null : timeline[previous.index + 1] || null;\n}\n/**\n * Move everything after 'hold' so playback goes on at 'resumeTime', and\n * return the event to restart scheduling from (null when the hold ends the show).\n */\nfunction resumeTimeline(timeline, hold, resumeTime) {\n    const offset = resumeTime - hold.time;\n    for (let i = hold.index + 1; i < timeline.length; i++) {\n        timeline[i].time += offset;\n    }\n    return timeline[hold.index + 1] || null;\n}\n\n  },\n  \"utils/wavExport.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * WAV Export\n * Click tracks of whole shows, rendered offline from the playback timeline\n * and encoded as mono 16-bit PCM WAV files that load into any DAW.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.HOLD_EXPORT_BEATS = exports.EXPORT_TAIL_SECONDS = exports.WAV_SAMPLE_RATE = void 0;\nexports.getHoldExportDuration = getHoldExportDuration;\nexports.encodeWav = encodeWav;\nexports.encodeWavBase64 = encodeWavBase64;\nconst meterGrouping_1 = require(\"utils/meterGrouping.ts\");\nconst tempoCurve_1 = require(\"utils/tempoCurve.ts\");\nexports.WAV_SAMPLE_RATE = 44100;\nexports.EXPORT_TAIL_SECONDS = 1; // lets the last click ring out\nexports.HOLD_EXPORT_BEATS = 4; // holds wait for a cue live; the track waits this many beats\nconst WAV_HEADER_BYTES = 44;\n// Seconds an exported WAV or MIDI file waits at a hold after 'bar':\n// HOLD_EXPORT_BEATS of the bar's final beat, in its beat unit\nfunction getHoldExportDuration(bar) {\n    const beatsInBar = bar.timeSignature.numerator;\n    return exports.HOLD_EXPORT_BEATS * (0, tempoCurve_1.getRampBeatDuration)(bar, beatsInBar - 1, beatsInBar, (0, meterGrouping_1.getBeatScale)(bar.timeSignature));\n}\n// Mono samples between -1 and 1 as a 16-bit PCM WAV file\nfunction encodeWav(samples, sampleRate = exports.WAV_SAMPLE_RATE) {\n    const bytes = new Uint8Array(WAV_HEADER_BYTES + samples.length * 2);\n    const view = new DataView(bytes.buffer);\n    const writeText = (offset, text) => {\n        for (let i = 0; i < text.length; i++)\n            view.setUint8(offset + i, text.charCodeAt(i));\n    };\n    writeText(0, 'RIFF');\n    view.setUint32(4, bytes.length - 8, true);\n    writeText(8, 'WAVE');\n    writeText(12, 'fmt ');\n    view.setUint32(16, 16, true); // fmt chunk size\n    view.setUint16(20, 1, true); // PCM\n    view.setUint16(22, 1, true); // mono\n    view.setUint32(24, sampleRate, true);\n    view.setUint32(28, sampleRate * 2, true); // bytes per second\n    view.setUint16(32, 2, true); // bytes per frame\n    view.setUint16(34, 16, true); // bits per sample\n    writeText(36, 'data');\n    view.setUint32(40, samples.length * 2, true);\n    for (let i = 0; i < samples.length; i++) {\n        const sample = Math.max(-1, Math.min(1, samples[i]));\n        view.setInt16(WAV_HEADER_BYTES + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);\n    }\n    return bytes;\n}\n// Mono samples as a base64 WAV file, for pages sending the file over the bridge\nfunction encodeWavBase64(samples, sampleRate = exports.WAV_SAMPLE_RATE) {\n    const bytes = encodeWav(samples, sampleRate);\n    // btoa takes a binary string; build it in chunks to stay within argument limits\n    let binary = '';\n    for (let i = 0; i < bytes.length; i += 0x8000) {\n        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));\n    }\n    return btoa(binary);\n}\n\n  }\n};\nvar cache = {};\nfunction require(id) {\n  if (!cache[id]) {\n    cache[id] = { exports: {} };\n    definitions[id](require, cache[id], cache[id].exports);\n  }\n  return cache[id].exports;\n}\nrequire(\"webview/soundSystem/page.ts\");\n})();\n",
+};
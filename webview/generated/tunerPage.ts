@@ -0,0 +1,9 @@
+// Generated by scripts/bundle-webviews.js from webview/tuner - do not edit.
+// Run `npm run bundle-webviews` after changing the page.
+import { WebViewPageBundle } from '../pageHtml';
+
+export const tunerPage: WebViewPageBundle = {
+  css: ":root {\n    --white: #ffffff;\n    --medium-gray: #23242A;\n    --light-gray: #333;\n    --red: #e53935;\n    --accent-70: rgba(187,134,252,0.7);\n}\n* {\n    margin: 0;\n    padding: 0;\n    box-sizing: border-box;\n}\n\nhtml {\n    height: 100%;\n    overflow: hidden;\n}\n\nbody {\n    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;\n    background-color: var(--background);\n    color: var(--text);\n    display: flex;\n    flex-direction: column;\n    min-height: 100vh;\n    padding: 20px;\n    -webkit-touch-callout: none;\n    -webkit-user-select: none;\n    -khtml-user-select: none;\n    -moz-user-select: none;\n    -ms-user-select: none;\n    user-select: none;\n    -webkit-tap-highlight-color: transparent;\n    overflow: hidden;\n    position: fixed;\n    top: 0;\n    left: 0;\n    width: 100%;\n    height: 100%;\n}\n\n.container {\n    display: flex;\n    flex-direction: column;\n    height: 100%;\n    align-items: center;\n    justify-content: center;\n    gap: 8vh;\n}\n\n/* Permission Screen */\n.permission-screen {\n    display: none;\n    flex-direction: column;\n    align-items: center;\n    justify-content: center;\n    text-align: center;\n    padding: 24px;\n    height: 100%;\n}\n\n.permission-title {\n    font-size: 24px;\n    font-weight: bold;\n    margin-bottom: 16px;\n    color: var(--text);\n}\n\n.permission-description {\n    font-size: 16px;\n    margin-bottom: 24px;\n    color: var(--text);\n    opacity: 0.8;\n    line-height: 1.5;\n}\n\n.permission-error {\n    font-size: 14px;\n    margin-bottom: 16px;\n    color: var(--red);\n    text-align: center;\n}\n\n.permission-button {\n    background-color: var(--accent);\n    color: var(--white);\n    border: none;\n    border-radius: 12px;\n    padding: 16px 32px;\n    font-size: 18px;\n    font-weight: bold;\n    cursor: pointer;\n    -webkit-tap-highlight-color: transparent;\n    -webkit-touch-callout: none;\n    -webkit-user-select: none;\n    user-select: none;\n    transition: all 0.2s ease;\n}\n\n.permission-button:hover {\n    background-color: var(--accent-70);\n}\n\n/* Tuner UI */\n.tuner-ui {\n    display: none;\n    flex-direction: column;\n    align-items: center;\n    justify-content: center;\n    height: 100%;\n    gap: 8vh;\n}\n\n/* Needle Bar */\n.needle-container {\n    position: relative;\n    width: 80vw;\n    height: 18vh;\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    margin-bottom: 7vh;\n}\n\n.needle-bar {\n    width: 12px;\n    height: 14.4vh;\n    background-color: var(--accent);\n    border-radius: 2px;\n    position: absolute;\n    bottom: 0;\n    transform-origin: bottom center;\n    transition: transform 0.12s cubic-bezier(0.25, 0.46, 0.45, 0.94);\n}\n\n.needle-bar.inactive {\n    background-color: #888;\n    opacity: 0.5;\n}\n\n.needle-bar.sharp {\n    background-color: var(--orange);\n}\n\n.needle-bar.flat {\n    background-color: var(--orange);\n}\n\n.needle-bar.in-tune {\n    background-color: var(--accent);\n}\n\n/* Reference Labels */\n.ref-zero {\n    position: absolute;\n    top: 0;\n    font-size: 2.5vh;\n    color: #9BA1A6;\n    text-align: center;\n}\n\n.ref-minus {\n    position: absolute;\n    bottom: 0;\n    left: 2vw;\n    font-size: 2vh;\n    color: #9BA1A6;\n}\n\n.ref-plus {\n    position: absolute;\n    bottom: 0;\n    right: 2vw;\n    font-size: 2vh;\n    color: #9BA1A6;\n}\n\n/* Note Display */\n.note-container {\n    margin-bottom: 3vh;\n}\n\n.note-label {\n    font-size: 8vh;\n    font-weight: bold;\n    letter-spacing: 1.5px;\n    text-align: center;\n    color: var(--text);\n    transition: color 0.2s ease;\n}\n\n.note-label.inactive {\n    color: var(--text);\n}\n\n.note-label.in-tune {\n    color: var(--accent);\n}\n\n/* Info Display */\n.info-container {\n    display: flex;\n    flex-direction: row;\n    justify-content: space-around;\n    width: 100%;\n    margin-bottom: 2vh;\n}\n\n.freq-label {\n    font-size: 2.5vh;\n    color: #888;\n    text-align: center;\n    font-variant-numeric: tabular-nums;\n    margin-bottom: 2vh;\n}\n\n.cents-label {\n    font-size: 3vh;\n    font-weight: 600;\n    text-align: center;\n    margin-bottom: 2.5vh;\n    letter-spacing: 1px;\n    color: var(--accent);\n}\n\n/* Loading Screen */\n.loading-screen {\n    display: none;\n    flex-direction: column;\n    align-items: center;\n    justify-content: center;\n    height: 100%;\n}\n\n.loading-spinner {\n    width: 40px;\n    height: 40px;\n    border: 4px solid var(--medium-gray);\n    border-top: 4px solid var(--accent);\n    border-radius: 50%;\n    animation: spin 1s linear infinite;\n    margin-bottom: 16px;\n}\n\n@keyframes spin {\n    0% { transform: rotate(0deg); }\n    100% { transform: rotate(360deg); }\n}\n\n.loading-text {\n    font-size: 16px;\n    color: var(--text);\n}\n\n/* Settings Button */\n.settings-button {\n    position: fixed;\n    bottom: 15vh;\n    right: 20px;\n    width: 56px;\n    height: 56px;\n    background-color: var(--surface);\n    border-radius: 28px;\n    display: flex;\n    align-items: center;\n    justify-content: center;\n    box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);\n    cursor: pointer;\n    z-index: 1000;\n    transition: all 0.2s ease;\n    border: 1px solid var(--light-gray);\n}\n\n.settings-button:hover {\n    background-color: var(--medium-gray);\n    transform: scale(1.05);\n}\n\n.settings-button:active {\n    transform: scale(0.95);\n}\n\n.settings-icon {\n    width: 24px;\n    height: 24px;\n    fill: var(--text);\n    opacity: 0.8;\n}\n",
+  body: "<div class=\"container\">\n    <!-- Loading Screen -->\n    <div class=\"loading-screen\" id=\"loadingScreen\">\n        <div class=\"loading-spinner\"></div>\n        <div class=\"loading-text\">Checking microphone permission…</div>\n    </div>\n\n    <!-- Permission Screen -->\n    <div class=\"permission-screen\" id=\"permissionScreen\">\n        <div class=\"permission-title\">Microphone Access Needed</div>\n        <div class=\"permission-description\">\n            To use the tuner, Met Maestro needs access to your device's microphone to listen and detect pitch in real time.\n        </div>\n        <div class=\"permission-error\" id=\"permissionError\" style=\"display: none;\"></div>\n        <div class=\"permission-error\" id=\"permissionStatus\" style=\"display: none;\"></div>\n        <button class=\"permission-button\" id=\"requestPermissionBtn\">Grant Microphone Access</button>\n        <button class=\"permission-button\" id=\"refreshPermissionBtn\" style=\"margin-top: 8px;\">Refresh Permission Status</button>\n    </div>\n\n    <!-- Tuner UI -->\n    <div class=\"tuner-ui\" id=\"tunerUI\">\n        <!-- Needle Bar -->\n        <div class=\"needle-container\">\n            <div class=\"ref-zero\">0¢</div>\n            <div class=\"ref-minus\">-30¢</div>\n            <div class=\"ref-plus\">+30¢</div>\n            <div class=\"needle-bar\" id=\"needleBar\"></div>\n        </div>\n\n        <!-- Note Display -->\n        <div class=\"note-container\">\n            <div class=\"note-label\" id=\"noteLabel\">—</div>\n        </div>\n\n        <!-- Info Display -->\n        <div class=\"info-container\">\n            <div class=\"freq-label\" id=\"freqLabel\">—</div>\n            <div class=\"cents-label\" id=\"centsLabel\">—</div>\n        </div>\n    </div>\n\n    <!-- Settings Button -->\n    <div class=\"settings-button\" id=\"settingsButton\">\n        <svg class=\"settings-icon\" viewBox=\"0 0 24 24\">\n            <path d=\"M12,15.5A3.5,3.5 0 0,1 8.5,12A3.5,3.5 0 0,1 12,8.5A3.5,3.5 0 0,1 15.5,12A3.5,3.5 0 0,1 12,15.5M19.43,12.97C19.47,12.65 19.5,12.33 19.5,12C19.5,11.67 19.47,11.34 19.43,11L21.54,9.37C21.73,9.22 21.78,8.95 21.66,8.73L19.66,5.27C19.54,5.05 19.27,4.96 19.05,5.05L16.56,6.05C16.04,5.66 15.5,5.32 14.87,5.07L14.5,2.42C14.46,2.18 14.25,2 14,2H10C9.75,2 9.54,2.18 9.5,2.42L9.13,5.07C8.5,5.32 7.96,5.66 7.44,6.05L4.95,5.05C4.73,4.96 4.46,5.05 4.34,5.27L2.34,8.73C2.22,8.95 2.27,9.22 2.46,9.37L4.57,11C4.53,11.34 4.5,11.67 4.5,12C4.5,12.33 4.53,12.65 4.57,12.97L2.46,14.63C2.27,14.78 2.22,15.05 2.34,15.27L4.34,18.73C4.46,18.95 4.73,19.03 4.95,18.95L7.44,17.94C7.96,18.34 8.5,18.68 9.13,18.93L9.5,21.58C9.54,21.82 9.75,22 10,22H14C14.25,22 14.46,21.82 14.5,21.58L14.87,18.93C15.5,18.68 16.04,18.34 16.56,17.94L19.05,18.95C19.27,19.03 19.54,18.95 19.66,18.73L21.66,15.27C21.78,15.05 21.73,14.78 21.54,14.63L19.43,12.97Z\"/>\n        </svg>\n    </div>\n</div>\n",
+  script: "(function () {\nvar definitions = {\n  \"webview/tuner/page.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Tuner page\n * The tuner UI inside WebViewTuner: the permission and loading screens, the\n * cents needle and the detected note, frequency and cents. Pitch detection\n * runs in the app, which pushes each reading through updateTunerData; the\n * page answers with tunerViewResponse messages.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nconst bridge_1 = require(\"webview/shared/bridge.ts\");\nconst dom_1 = require(\"webview/shared/dom.ts\");\nconst pageWindow_1 = require(\"webview/shared/pageWindow.ts\");\nconst pageWindow = (0, pageWindow_1.getPageWindow)();\nconst bridge = (0, bridge_1.createPageBridge)('tunerViewResponse');\n// Tuner data from React Native; the first reading arrives once the page is ready\nlet tunerData = { note: null, freq: null, cents: null, error: null, permission: 'unknown' };\nlet lastDetectedNote = null;\nlet lastDetectedCents = null;\nlet lastDetectedFreq = null;\nlet showDash = true;\nlet timeoutRef = null;\n// Sharps shown with their flat spelling too (e.g. A♯ / B♭)\nconst ENHARMONICS = {\n    'C#': 'D♭',\n    'D#': 'E♭',\n    'F#': 'G♭',\n    'G#': 'A♭',\n    'A#': 'B♭',\n};\n// Function to update tuner data from React Native\nfunction updateTunerData(newTunerData) {\n    // Only log if there's an actual change in permission state\n    if (tunerData.permission !== newTunerData.permission) {\n        console.log('Permission state changed from', tunerData.permission, 'to', newTunerData.permission);\n    }\n    tunerData = newTunerData;\n    updateUI();\n}\n// Function to update the UI based on current state\nfunction updateUI() {\n    const loadingScreen = (0, dom_1.byId)('loadingScreen');\n    const permissionScreen = (0, dom_1.byId)('permissionScreen');\n    const tunerUI = (0, dom_1.byId)('tunerUI');\n    const permissionError = (0, dom_1.byId)('permissionError');\n    const permissionStatus = (0, dom_1.byId)('permissionStatus');\n    const requestPermissionBtn = (0, dom_1.byId)('requestPermissionBtn');\n    // Show appropriate screen based on permission state\n    if (tunerData.permission === 'unknown') {\n        loadingScreen.style.display = 'flex';\n        permissionScreen.style.display = 'none';\n        tunerUI.style.display = 'none';\n        return;\n    }\n    else if (tunerData.permission !== 'granted') {\n        loadingScreen.style.display = 'none';\n        permissionScreen.style.display = 'flex';\n        tunerUI.style.display = 'none';\n        // Show error if present\n        if (tunerData.error) {\n            permissionError.textContent = tunerData.error;\n            permissionError.style.display = 'block';\n        }\n        else {\n            permissionError.style.display = 'none';\n        }\n        // Show appropriate status message\n        if (tunerData.permission === 'denied') {\n            permissionStatus.textContent = 'Permission denied. Please enable microphone access in your device settings.';\n            permissionStatus.style.display = 'block';\n            requestPermissionBtn.style.display = 'none';\n        }\n        else {\n            permissionStatus.textContent = 'Microphone access is currently denied or not granted.';\n            permissionStatus.style.display = 'block';\n            requestPermissionBtn.style.display = 'block';\n        }\n        return;\n    }\n    else {\n        loadingScreen.style.display = 'none';\n        permissionScreen.style.display = 'none';\n        tunerUI.style.display = 'flex';\n    }\n    // Update tuner UI\n    updateTunerDisplay();\n}\n// Cents with their sign, e.g. '+5' or '-12'\nfunction formatCents(cents) {\n    return cents > 0 ? `+${cents}` : `${cents}`;\n}\n// Function to update tuner display\nfunction updateTunerDisplay() {\n    var _a;\n    const needleBar = (0, dom_1.byId)('needleBar');\n    const noteLabel = (0, dom_1.byId)('noteLabel');\n    const freqLabel = (0, dom_1.byId)('freqLabel');\n    const centsLabel = (0, dom_1.byId)('centsLabel');\n    const detected = tunerData.note !== null && tunerData.freq !== null && tunerData.cents !== null && !tunerData.error;\n    // Handle note label display logic\n    if (detected && tunerData.note) {\n        lastDetectedNote = tunerData.note;\n        lastDetectedCents = tunerData.cents !== null ? formatCents(tunerData.cents) : null;\n        lastDetectedFreq = tunerData.freq !== null ? `${tunerData.freq.toFixed(1)} Hz` : null;\n        showDash = false;\n        if (timeoutRef) {\n            clearTimeout(timeoutRef);\n            timeoutRef = null;\n        }\n    }\n    else if (lastDetectedNote) {\n        // If we previously detected a note but now don't, start a 5s timer\n        if (!timeoutRef) {\n            timeoutRef = setTimeout(() => {\n                showDash = true;\n                timeoutRef = null;\n                updateTunerDisplay();\n            }, 5000);\n        }\n    }\n    else {\n        showDash = true;\n    }\n    // Derive display string with enharmonic (e.g. A♯ / B♭)\n    let noteDisplay = '—';\n    let noteToShow = null;\n    if (!showDash && lastDetectedNote) {\n        noteToShow = lastDetectedNote;\n    }\n    else if (detected && tunerData.note) {\n        noteToShow = tunerData.note;\n    }\n    if (noteToShow) {\n        const base = noteToShow.slice(0, -1).replace('♯', '#');\n        const sharpDisplay = base.replace('#', '♯');\n        const enh = ENHARMONICS[base];\n        noteDisplay = enh ? `${sharpDisplay} / ${enh}` : sharpDisplay;\n    }\n    // Update note label\n    noteLabel.textContent = noteDisplay;\n    // Update needle bar\n    let needleRotation = 0;\n    let needleClass = 'inactive';\n    if (!showDash) {\n        // Use last detected or current detected value\n        if (tunerData.cents !== null && tunerData.cents !== undefined) {\n            needleRotation = Math.max(-30, Math.min(30, tunerData.cents));\n        }\n        else if (lastDetectedCents) {\n            // Parse the string value (e.g. '+5' or '-12')\n            const parsed = parseInt(lastDetectedCents, 10);\n            if (!isNaN(parsed))\n                needleRotation = Math.max(-30, Math.min(30, parsed));\n        }\n        const isInTune = detected && Math.abs((_a = tunerData.cents) !== null && _a !== void 0 ? _a : 999) <= 5;\n        if (isInTune) {\n            needleClass = 'in-tune';\n            noteLabel.className = 'note-label in-tune';\n        }\n        else {\n            needleClass = needleRotation > 0 ? 'sharp' : 'flat';\n            noteLabel.className = 'note-label';\n        }\n    }\n    else {\n        needleClass = 'inactive';\n        noteLabel.className = 'note-label inactive';\n    }\n    // Apply needle rotation and class\n    needleBar.style.transform = `rotate(${needleRotation}deg)`;\n    needleBar.className = `needle-bar ${needleClass}`;\n    // Update frequency and cents display\n    const freq = (!showDash && lastDetectedFreq)\n        ? lastDetectedFreq\n        : (detected && tunerData.freq !== null ? `${tunerData.freq.toFixed(1)} Hz` : '—');\n    const cents = (!showDash && lastDetectedCents)\n        ? lastDetectedCents\n        : (detected && tunerData.cents !== null ? formatCents(tunerData.cents) : '—');\n    freqLabel.textContent = freq;\n    centsLabel.textContent = cents !== '—' ? `${cents}¢` : '—';\n}\n// Event listeners\n(0, dom_1.byId)('requestPermissionBtn').addEventListener('click', () => {\n    bridge.postToApp('REQUEST_PERMISSION', {});\n});\n(0, dom_1.byId)('refreshPermissionBtn').addEventListener('click', () => {\n    bridge.postToApp('REFRESH_PERMISSION', {});\n});\n(0, dom_1.byId)('settingsButton').addEventListener('click', () => {\n    bridge.postToApp('OPEN_SETTINGS', {});\n});\n// Initialize\nupdateUI();\n// Expose functions to React Native\npageWindow.updateTunerData = updateTunerData;\nbridge.announceReady();\n\n  },\n  \"webview/shared/bridge.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Page Bridge\n * The page side of the message protocol in types/MessageProtocol.ts, for\n * pages bundled from TypeScript: typed messages to React Native, incoming\n * messages checked against the same schemas React Native uses, and the\n * READY announcement that releases the messages React Native held back.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.createPageBridge = createPageBridge;\nconst MessageProtocol_1 = require(\"types/MessageProtocol.ts\");\nconst messageSchema_1 = require(\"utils/messageSchema.ts\");\nconst pageWindow_1 = require(\"webview/shared/pageWindow.ts\");\n// Bridge of a page answering on 'responseChannel' and listening on 'messageChannel'\nfunction createPageBridge(responseChannel, messageChannel) {\n    // Every response channel carries READY and PROTOCOL_ERROR, which the\n    // generic payload types cannot show\n    const post = (type, payload, requestId) => {\n        const nativeBridge = (0, pageWindow_1.getPageWindow)().ReactNativeWebView;\n        if (!nativeBridge)\n            return;\n        nativeBridge.postMessage(JSON.stringify({\n            type,\n            payload,\n            timestamp: Date.now(),\n            ...(requestId ? { requestId } : {}),\n        }));\n    };\n    const readMessage = (raw) => {\n        if (!messageChannel)\n            return null;\n        let data;\n        try {\n            data = typeof raw === 'string' ? JSON.parse(raw) : raw;\n        }\n        catch {\n            post('PROTOCOL_ERROR', { messageType: null, errors: ['Message is not valid JSON'] });\n            return null;\n        }\n        const result = (0, messageSchema_1.validateMessage)(messageChannel, data);\n        if (!result.message) {\n            const requestId = data === null || data === void 0 ? void 0 : data.requestId;\n            post('PROTOCOL_ERROR', { messageType: result.type, errors: result.errors }, typeof requestId === 'string' ? requestId : undefined);\n        }\n        return result.message;\n    };\n    return {\n        postToApp: post,\n        readMessage,\n        announceReady: () => post('READY', { protocolVersion: MessageProtocol_1.PROTOCOL_VERSION }),\n    };\n}\n\n  },\n  \"types/MessageProtocol.ts\": function (require, module, exports) {\n\"use strict\";\n// Unified message protocol between React Native and the WebViews. Every\n// channel is a discriminated union on 'type'; the schemas in\n// utils/messageSchema.ts check each message where it is received.\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.COMMAND_ACKS = exports.RESPONSE_TYPES = exports.MESSAGE_TYPES = exports.PROTOCOL_VERSION = void 0;\n// Raised whenever a change to the messages would break a page built for the\n// previous version. Every page announces the version it speaks in READY.\nexports.PROTOCOL_VERSION = 2;\n// Message types - React Native to the SoundSystem WebView. The tuner listens\n// to the microphone in React Native, so it has no messages of its own.\nexports.MESSAGE_TYPES = {\n    // System\n    INIT_AUDIO: 'INIT_AUDIO',\n    SUSPEND_AUDIO: 'SUSPEND_AUDIO',\n    UPDATE_THEME: 'UPDATE_THEME',\n    UPDATE_SOUND: 'UPDATE_SOUND',\n    // Metronome\n    START_METRONOME: 'START_METRONOME',\n    STOP_METRONOME: 'STOP_METRONOME',\n    UPDATE_METRONOME_SETTINGS: 'UPDATE_METRONOME_SETTINGS',\n    // Show\n    LOAD_SHOW: 'LOAD_SHOW',\n    START_SHOW: 'START_SHOW',\n    STOP_SHOW: 'STOP_SHOW',\n    RESUME_SHOW: 'RESUME_SHOW',\n    UPDATE_SHOW_SETTINGS: 'UPDATE_SHOW_SETTINGS',\n    RENDER_SHOW_WAV: 'RENDER_SHOW_WAV',\n};\n// Message types - SoundSystem WebView to React Native\nexports.RESPONSE_TYPES = {\n    // Metronome responses\n    METRONOME_BEAT: 'METRONOME_BEAT',\n    METRONOME_LAYER_PULSE: 'METRONOME_LAYER_PULSE',\n    METRONOME_STARTED: 'METRONOME_STARTED',\n    METRONOME_STOPPED: 'METRONOME_STOPPED',\n    // Show responses\n    SHOW_LOADED: 'SHOW_LOADED',\n    SHOW_BEAT: 'SHOW_BEAT',\n    SHOW_MEASURE_COMPLETED: 'SHOW_MEASURE_COMPLETED',\n    SHOW_STARTED: 'SHOW_STARTED',\n    SHOW_STOPPED: 'SHOW_STOPPED',\n    SHOW_WAV_RENDERED: 'SHOW_WAV_RENDERED',\n    // System responses\n    READY: 'READY',\n    COMMAND_APPLIED: 'COMMAND_APPLIED',\n    AUDIO_INITIALIZED: 'AUDIO_INITIALIZED',\n    AUDIO_ERROR: 'AUDIO_ERROR',\n    PROTOCOL_ERROR: 'PROTOCOL_ERROR',\n};\n// The response that acknowledges each command, sent back with the command's\n// requestId. AUDIO_ERROR with the requestId means the command failed.\nexports.COMMAND_ACKS = {\n    INIT_AUDIO: 'AUDIO_INITIALIZED',\n    SUSPEND_AUDIO: 'COMMAND_APPLIED',\n    UPDATE_THEME: 'COMMAND_APPLIED',\n    UPDATE_SOUND: 'COMMAND_APPLIED',\n    START_METRONOME: 'METRONOME_STARTED',\n    STOP_METRONOME: 'COMMAND_APPLIED',\n    UPDATE_METRONOME_SETTINGS: 'COMMAND_APPLIED',\n    LOAD_SHOW: 'SHOW_LOADED',\n    START_SHOW: 'SHOW_STARTED',\n    STOP_SHOW: 'COMMAND_APPLIED',\n    RESUME_SHOW: 'COMMAND_APPLIED',\n    UPDATE_SHOW_SETTINGS: 'COMMAND_APPLIED',\n    RENDER_SHOW_WAV: 'SHOW_WAV_RENDERED',\n};\n\n  },\n  \"utils/messageSchema.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Message Schema\n * Runtime checks for the message protocol in types/MessageProtocol.ts. Every\n * channel lists the payload fields of each of its message types; a message is\n * checked where it is received, and every problem is reported with the path\n * of the field it is in. Fields a schema does not list are let through.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.MESSAGE_SCHEMAS = void 0;\nexports.validateMessage = validateMessage;\nexports.parseMessage = parseMessage;\nconst MessageProtocol_1 = require(\"types/MessageProtocol.ts\");\nconst accentPattern_1 = require(\"utils/accentPattern.ts\");\nconst countIn_1 = require(\"utils/countIn.ts\");\nconst rhythmLayers_1 = require(\"utils/rhythmLayers.ts\");\nconst showStructure_1 = require(\"utils/showStructure.ts\");\nconst str = (values) => (values ? { type: 'string', values } : { type: 'string' });\nconst num = { type: 'number' };\nconst bool = { type: 'boolean' };\nconst obj = (fields) => ({ type: 'object', fields });\nconst arr = (items) => ({ type: 'array', items });\nconst optional = (spec) => ({ ...spec, optional: true });\n// Every field optional, for messages that update only some settings\nconst partial = (fields) => Object.fromEntries(Object.entries(fields).map(([name, spec]) => [name, optional(spec)]));\nconst TIME_SIGNATURE = obj({\n    numerator: num,\n    denominator: num,\n    grouping: optional(arr(num)),\n});\nconst ACCENT_LEVEL = str(accentPattern_1.ACCENT_LEVELS);\nconst ACCENTS = obj({\n    beats: arr(ACCENT_LEVEL),\n    subdivisions: optional(arr(arr(ACCENT_LEVEL))),\n});\nconst COUNT_IN_FIELDS = {\n    enabled: bool,\n    length: num,\n    unit: str(['bars', 'beats']),\n    meter: str(['firstMeasure', 'fixed']),\n    sound: str(countIn_1.COUNT_IN_SOUNDS.map(sound => sound.value)),\n    spoken: bool,\n    skipWhenResuming: bool,\n};\nconst LAYER = obj({\n    id: str(),\n    mode: str(rhythmLayers_1.LAYER_MODES.map(mode => mode.value)),\n    pulses: num,\n    unit: num,\n    sound: str(),\n    volume: num,\n    accents: optional(arr(ACCENT_LEVEL)),\n});\nconst GAP_TRAINER = obj({\n    enabled: bool,\n    playBars: num,\n    silentBars: num,\n    randomMute: num,\n});\nconst PAUSE_TYPES = ['seconds', 'beats', 'hold'];\nconst MEASURE = obj({\n    id: str(),\n    timeSignature: TIME_SIGNATURE,\n    tempo: num,\n    count: num,\n    letter: optional(str()),\n    tempoChange: optional(obj({ endTempo: num, curve: str(['linear', 'exponential']) })),\n    accents: optional(ACCENTS),\n    subdivision: optional(num),\n    swing: optional(num),\n    repeatStart: optional(bool),\n    repeatEnd: optional(num),\n    ending: optional(arr(num)),\n    segno: optional(bool),\n    coda: optional(bool),\n    toCoda: optional(bool),\n    fine: optional(bool),\n    jump: optional(str(Object.keys(showStructure_1.JUMP_LABELS))),\n    pause: optional(obj({ type: str(PAUSE_TYPES), length: optional(num) })),\n});\nconst THEME_COLORS = {\n    background: str(),\n    surface: str(),\n    primary: str(),\n    text: str(),\n    icon: str(),\n    accent: str(),\n    orange: str(),\n};\nconst METRONOME_START = {\n    bpm: num,\n    timeSignature: TIME_SIGNATURE,\n    soundType: str(),\n    subdivision: optional(num),\n    countIn: optional(obj(COUNT_IN_FIELDS)),\n    accents: optional(ACCENTS),\n    swing: optional(num),\n    layers: optional(arr(LAYER)),\n    gapTrainer: optional(GAP_TRAINER),\n};\nconst METRONOME_BEAT = {\n    beatNumber: num,\n    totalBeats: num,\n    barNumber: num,\n    isDownbeat: bool,\n    isSilent: bool,\n    bpm: num,\n    timeSignature: TIME_SIGNATURE,\n};\nconst SHOW = {\n    id: str(),\n    name: str(),\n    measures: arr(MEASURE),\n    countIn: optional(obj(partial(COUNT_IN_FIELDS))),\n};\nconst SHOW_START = {\n    startType: str(['beginning', 'current', 'specific']),\n    startMeasure: optional(num),\n    startLetter: optional(str()),\n    endType: str(['end', 'specific']),\n    endMeasure: optional(num),\n    endLetter: optional(str()),\n};\nconst SHOW_PAUSE = obj({ type: str(PAUSE_TYPES), duration: optional(num) });\nconst SHOW_ID = { showId: str() };\nconst SOUND = { soundType: str() };\nconst READY = { protocolVersion: num };\nconst PROTOCOL_ERROR = {\n    messageType: optional(str()),\n    errors: arr(str()),\n};\nexports.MESSAGE_SCHEMAS = {\n    soundSystemMessage: {\n        INIT_AUDIO: {},\n        SUSPEND_AUDIO: {},\n        UPDATE_THEME: THEME_COLORS,\n        UPDATE_SOUND: SOUND,\n        START_METRONOME: METRONOME_START,\n        STOP_METRONOME: {},\n        UPDATE_METRONOME_SETTINGS: partial(METRONOME_START),\n        LOAD_SHOW: SHOW,\n        START_SHOW: SHOW_START,\n        STOP_SHOW: {},\n        RESUME_SHOW: {},\n        UPDATE_SHOW_SETTINGS: { countIn: optional(obj(partial(COUNT_IN_FIELDS))) },\n        RENDER_SHOW_WAV: SHOW,\n    },\n    soundSystemResponse: {\n        METRONOME_BEAT,\n        METRONOME_LAYER_PULSE: { layerId: str(), pulseIndex: num },\n        METRONOME_STARTED: { bpm: num, timeSignature: TIME_SIGNATURE },\n        METRONOME_STOPPED: {},\n        SHOW_LOADED: { showId: str(), totalMeasures: num },\n        SHOW_BEAT: {\n            measureNumber: num,\n            beatIndex: num,\n            beatsInMeasure: num,\n            isCountIn: bool,\n            isSilent: bool,\n            timeSignature: optional(TIME_SIGNATURE),\n        },\n        SHOW_MEASURE_COMPLETED: {\n            measureNumber: num,\n            beatsPerMeasure: num,\n            tempo: num,\n            nextMeasureNumber: num,\n            nextTempo: num,\n            nextTimeSignature: TIME_SIGNATURE,\n            showName: str(),\n            pause: optional(SHOW_PAUSE),\n        },\n        SHOW_STARTED: { showId: str(), startMeasure: num },\n        SHOW_STOPPED: { completed: bool },\n        SHOW_WAV_RENDERED: { showId: str(), duration: num, data: str() },\n        READY,\n        COMMAND_APPLIED: { command: str(Object.keys(MessageProtocol_1.COMMAND_ACKS)) },\n        AUDIO_INITIALIZED: { sampleRate: num },\n        AUDIO_ERROR: { error: str(), mode: str(['metronome', 'show', 'tuner', 'system']) },\n        PROTOCOL_ERROR,\n    },\n    metronomeViewMessage: {\n        METRONOME_STARTED: {},\n        METRONOME_STOPPED: {},\n        METRONOME_BEAT,\n        TIME_SIGNATURE_CHANGE: { timeSignature: TIME_SIGNATURE },\n        ACCENTS_CHANGE: { accents: optional(ACCENTS) },\n        SWING_CHANGE: { swing: num },\n        COLOR_CHANGE: { colors: obj(THEME_COLORS) },\n    },\n    metronomeViewResponse: {\n        OPEN_SETTINGS: {},\n        START_METRONOME: { bpm: num, subdivision: num },\n        STOP_METRONOME: {},\n        TEMPO_CHANGE: { bpm: num },\n        SUBDIVISION_CHANGE: { subdivision: num },\n        ACCENTS_CHANGE: { accents: ACCENTS },\n        SWING_CHANGE: { swing: num },\n        RESET_WEBVIEW: {},\n        READY,\n        PROTOCOL_ERROR,\n    },\n    showViewResponse: {\n        ADD_SHOW: {},\n        SELECT_SHOW: SHOW_ID,\n        RENAME_SHOW: { showId: str(), newName: str() },\n        UPDATE_SHOW_MEASURES: { showId: str(), measures: arr(MEASURE) },\n        DELETE_SHOW: SHOW_ID,\n        IMPORT_SHOW: {},\n        EXPORT_SHOW: SHOW_ID,\n        EXPORT_SHOW_MIDI: SHOW_ID,\n        EXPORT_SHOW_WAV: SHOW_ID,\n        START_SHOW: { showId: str(), range: obj(SHOW_START) },\n        STOP_SHOW: {},\n        RESUME_SHOW: {},\n        OPEN_SETTINGS: {},\n        OPEN_PLAYBACK_OPTIONS: {},\n        READY,\n        PROTOCOL_ERROR,\n    },\n    tunerViewResponse: {\n        REQUEST_PERMISSION: {},\n        REFRESH_PERMISSION: {},\n        OPEN_SETTINGS: {},\n        READY,\n        PROTOCOL_ERROR,\n    },\n};\nfunction isObject(value) {\n    return typeof value === 'object' && value !== null && !Array.isArray(value);\n}\nfunction checkField(value, spec, path, errors) {\n    if (value === undefined || value === null) {\n        if (!spec.optional)\n            errors.push(`${path} is required`);\n        return;\n    }\n    switch (spec.type) {\n        case 'number':\n            if (typeof value !== 'number' || !Number.isFinite(value)) {\n                errors.push(`${path} must be a number`);\n                return;\n            }\n            break;\n        case 'object':\n            if (!isObject(value)) {\n                errors.push(`${path} must be an object`);\n                return;\n            }\n            checkFields(value, spec.fields || {}, path, errors);\n            return;\n        case 'array':\n            if (!Array.isArray(value)) {\n                errors.push(`${path} must be an array`);\n                return;\n            }\n            if (spec.items) {\n                const items = spec.items;\n                value.forEach((item, index) => checkField(item, items, `${path}[${index}]`, errors));\n            }\n            return;\n        default:\n            if (typeof value !== spec.type) {\n                errors.push(`${path} must be a ${spec.type}`);\n                return;\n            }\n    }\n    if (spec.values && !spec.values.includes(value)) {\n        errors.push(`${path} must be one of ${spec.values.join(', ')}`);\n    }\n}\nfunction checkFields(value, fields, path, errors) {\n    Object.keys(fields).forEach(name => checkField(value[name], fields[name], `${path}.${name}`, errors));\n}\n// Check a decoded message against the schema of its channel\nfunction validateMessage(channel, data) {\n    if (!isObject(data)) {\n        return { message: null, type: null, errors: ['Message must be an object'] };\n    }\n    if (typeof data.type !== 'string') {\n        return { message: null, type: null, errors: ['Message type must be a string'] };\n    }\n    const type = data.type;\n    const schemas = exports.MESSAGE_SCHEMAS[channel];\n    if (!Object.prototype.hasOwnProperty.call(schemas, type)) {\n        return { message: null, type, errors: [`Unknown message type \"${type}\"`] };\n    }\n    const errors = [];\n    if (!isObject(data.payload)) {\n        errors.push('payload must be an object');\n    }\n    else {\n        checkFields(data.payload, schemas[type], 'payload', errors);\n    }\n    if (data.requestId !== undefined && typeof data.requestId !== 'string') {\n        errors.push('requestId must be a string');\n    }\n    return {\n        message: errors.length === 0 ? data : null,\n        type,\n        errors: errors.map(error => `${type}: ${error}`),\n    };\n}\n// Decode and check a message as it arrives from a WebView\nfunction parseMessage(channel, raw) {\n    let data;\n    try {\n        data = JSON.parse(raw);\n    }\n    catch {\n        return { message: null, type: null, errors: ['Message is not valid JSON'] };\n    }\n    return validateMessage(channel, data);\n}\n\n  },\n  \"utils/accentPattern.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Accent Pattern\n * Per-beat accent levels shared by show measures and the metronome. Every beat,\n * and every subdivision click after it, is accented, normal, ghosted or muted;\n * each sound type maps a level to its own volume and pitch.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.ACCENT_VOICES = exports.ACCENT_LEVEL_LABELS = exports.ACCENT_LEVELS = void 0;\nexports.getAccentVoice = getAccentVoice;\nexports.getDefaultAccentLevel = getDefaultAccentLevel;\nexports.getAccentLevel = getAccentLevel;\nexports.getBeatLevels = getBeatLevels;\nexports.cycleAccentLevel = cycleAccentLevel;\nexports.setAccentLevel = setAccentLevel;\nexports.accentsFromBeatSounds = accentsFromBeatSounds;\nexports.getMeasureAccents = getMeasureAccents;\nconst meterGrouping_1 = require(\"utils/meterGrouping.ts\");\nexports.ACCENT_LEVELS = ['accent', 'normal', 'ghost', 'mute'];\nexports.ACCENT_LEVEL_LABELS = {\n    accent: 'Accent',\n    normal: 'Normal',\n    ghost: 'Ghost',\n    mute: 'Mute',\n};\n// Accent and normal keep each sound's original high and low clicks; ghost\n// notes are quieter and slightly lower, tuned per sound\nexports.ACCENT_VOICES = {\n    synth: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.35, pitch: 0.9 } },\n    woodblock: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.3, pitch: 0.94 } },\n    cowbell: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.4, pitch: 0.97 } },\n    click: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.3, pitch: 0.85 } },\n    beep: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.3, pitch: 0.9 } },\n    drbeat: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.2, pitch: 0.9 } },\n    sharp: { accent: { gain: 1, pitch: 1 }, normal: { gain: 1, pitch: 1 }, ghost: { gain: 0.2, pitch: 0.92 } },\n};\nfunction getAccentVoice(soundType, level) {\n    if (level === 'mute')\n        return null;\n    const voices = exports.ACCENT_VOICES[soundType] || exports.ACCENT_VOICES.synth;\n    return { high: level === 'accent', ...voices[level] };\n}\n// The downbeat, and the first beat of each group in a grouped meter, are accented\nfunction getDefaultAccentLevel(timeSignature, beatIndex) {\n    if (beatIndex === 0)\n        return 'accent';\n    return (0, meterGrouping_1.getGrouping)(timeSignature) && (0, meterGrouping_1.isGroupStart)(timeSignature, beatIndex) ? 'accent' : 'normal';\n}\n// Level of one click; subdivisionIndex 0 is the beat itself\nfunction getAccentLevel(pattern, beatIndex, subdivisionIndex, defaultLevel) {\n    var _a, _b, _c;\n    if (subdivisionIndex > 0) {\n        return ((_b = (_a = pattern === null || pattern === void 0 ? void 0 : pattern.subdivisions) === null || _a === void 0 ? void 0 : _a[beatIndex]) === null || _b === void 0 ? void 0 : _b[subdivisionIndex - 1]) || 'normal';\n    }\n    return ((_c = pattern === null || pattern === void 0 ? void 0 : pattern.beats) === null || _c === void 0 ? void 0 : _c[beatIndex]) || defaultLevel;\n}\n// One level per beat of the meter, filling in defaults\nfunction getBeatLevels(pattern, timeSignature) {\n    return Array.from({ length: timeSignature.numerator }, (_, beat) => getAccentLevel(pattern, beat, 0, getDefaultAccentLevel(timeSignature, beat)));\n}\nfunction cycleAccentLevel(level) {\n    return exports.ACCENT_LEVELS[(exports.ACCENT_LEVELS.indexOf(level) + 1) % exports.ACCENT_LEVELS.length];\n}\n// A copy of the pattern with one click set to 'level'\nfunction setAccentLevel(pattern, timeSignature, beatIndex, subdivisionIndex, level) {\n    const beats = getBeatLevels(pattern, timeSignature);\n    const subdivisions = ((pattern === null || pattern === void 0 ? void 0 : pattern.subdivisions) || []).map(levels => [...(levels || [])]);\n    if (subdivisionIndex === 0) {\n        beats[beatIndex] = level;\n    }\n    else {\n        while (subdivisions.length <= beatIndex)\n            subdivisions.push([]);\n        const levels = subdivisions[beatIndex];\n        while (levels.length < subdivisionIndex)\n            levels.push('normal');\n        levels[subdivisionIndex - 1] = level;\n    }\n    return subdivisions.length > 0 ? { beats, subdivisions } : { beats };\n}\nfunction accentsFromBeatSounds(beatSounds, numerator) {\n    return {\n        beats: Array.from({ length: numerator }, (_, beat) => {\n            if ((beatSounds.high || []).includes(beat))\n                return 'accent';\n            return (beatSounds.low || []).includes(beat) ? 'normal' : 'mute';\n        }),\n    };\n}\n// A measure's accents, reading the older high/low beat sounds when it has no pattern\nfunction getMeasureAccents(measure) {\n    if (measure.accents)\n        return measure.accents;\n    return measure.beatSounds ? accentsFromBeatSounds(measure.beatSounds, measure.timeSignature.numerator) : undefined;\n}\n\n  },\n  \"utils/meterGrouping.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Meter Grouping\n * Optional beat grouping for compound and additive meters (3+3/8, 2+2+3/8).\n * A grouped meter pulses on the first beat of each group, and its tempo counts\n * the shortest group: 6/8 grouped 3+3 at 60 BPM is dotted quarter = 60.\n * Meters without a grouping keep the tempo in quarter notes.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.MAX_GROUPED_BEATS = void 0;\nexports.isValidGrouping = isValidGrouping;\nexports.getGrouping = getGrouping;\nexports.getGroupStarts = getGroupStarts;\nexports.isGroupStart = isGroupStart;\nexports.getBeatScale = getBeatScale;\nexports.formatGrouping = formatGrouping;\nexports.parseGrouping = parseGrouping;\nexports.formatTimeSignature = formatTimeSignature;\nexports.getGroupingOptions = getGroupingOptions;\n// Grouping suggestions are generated up to this many beats per bar\nexports.MAX_GROUPED_BEATS = 16;\nfunction isValidGrouping(grouping, numerator) {\n    if (!Array.isArray(grouping) || grouping.length === 0)\n        return false;\n    if (!grouping.every(size => Number.isInteger(size) && size >= 1))\n        return false;\n    return grouping.reduce((sum, size) => sum + size, 0) === numerator;\n}\n// The meter's grouping, or null when it has none (or it no longer fits)\nfunction getGrouping(timeSignature) {\n    return isValidGrouping(timeSignature.grouping, timeSignature.numerator) ? timeSignature.grouping : null;\n}\n// Beat indices that start a group; every beat when the meter is not grouped\nfunction getGroupStarts(timeSignature) {\n    const grouping = getGrouping(timeSignature);\n    if (!grouping) {\n        return Array.from({ length: timeSignature.numerator }, (_, beat) => beat);\n    }\n    const starts = [];\n    let beat = 0;\n    grouping.forEach(size => {\n        starts.push(beat);\n        beat += size;\n    });\n    return starts;\n}\nfunction isGroupStart(timeSignature, beatIndex) {\n    return getGroupStarts(timeSignature).includes(beatIndex);\n}\n/**\n * Length of one beat (one count of the numerator) in tempo units. Ungrouped\n * meters count quarter notes (4 / denominator); grouped meters count the\n * shortest group, so a beat is 1 / (shortest group) of a tempo unit.\n */\nfunction getBeatScale(timeSignature) {\n    const grouping = getGrouping(timeSignature);\n    return grouping ? 1 / Math.min(...grouping) : 4 / timeSignature.denominator;\n}\nfunction formatGrouping(grouping) {\n    return grouping.join('+');\n}\n// Parse \"2+2+3\"; undefined for an empty string, null when it is not a grouping\nfunction parseGrouping(text, numerator) {\n    const trimmed = text.trim();\n    if (!trimmed)\n        return undefined;\n    const grouping = trimmed.split('+').map(part => Number(part.trim()));\n    return isValidGrouping(grouping, numerator) ? grouping : null;\n}\nfunction formatTimeSignature(timeSignature) {\n    const grouping = getGrouping(timeSignature);\n    const prefix = grouping ? `${formatGrouping(grouping)}/` : `${timeSignature.numerator}/`;\n    return `${prefix}${timeSignature.denominator}`;\n}\n// Groupings of 2s and 3s that fill the bar, e.g. 7 -> 2+2+3, 2+3+2, 3+2+2\nfunction getGroupingOptions(numerator) {\n    if (numerator < 4 || numerator > exports.MAX_GROUPED_BEATS)\n        return [];\n    const options = [];\n    const build = (remaining, groups) => {\n        if (remaining === 0) {\n            options.push(groups);\n            return;\n        }\n        [2, 3].forEach(size => {\n            if (size <= remaining)\n                build(remaining - size, [...groups, size]);\n        });\n    };\n    build(numerator, []);\n    return options;\n}\n\n  },\n  \"utils/countIn.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Count-In\n * Count-in settings shared by shows and the metronome, and the beats they\n * produce. Each show stores its own settings; the metronome keeps one set.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.COUNT_IN_SOUNDS = exports.MAX_COUNT_IN_LENGTH = exports.DEFAULT_COUNT_IN = void 0;\nexports.normalizeCountIn = normalizeCountIn;\nexports.getCountInBeats = getCountInBeats;\nconst meterGrouping_1 = require(\"utils/meterGrouping.ts\");\n// Matches the fixed four-beat count-off shows used before it was configurable\nexports.DEFAULT_COUNT_IN = {\n    enabled: true,\n    length: 4,\n    unit: 'beats',\n    meter: 'fixed',\n    sound: 'tone',\n    spoken: false,\n    skipWhenResuming: false,\n};\nexports.MAX_COUNT_IN_LENGTH = 16;\nexports.COUNT_IN_SOUNDS = [\n    { value: 'tone', label: 'Tone' },\n    { value: 'woodblock', label: 'Woodblock' },\n    { value: 'cowbell', label: 'Cowbell' },\n];\n// Fill in missing fields so older shows and settings keep working\nfunction normalizeCountIn(settings) {\n    const merged = { ...exports.DEFAULT_COUNT_IN, ...(settings || {}) };\n    const length = Math.round(Number(merged.length));\n    return {\n        ...merged,\n        length: Number.isFinite(length) ? Math.min(Math.max(length, 1), exports.MAX_COUNT_IN_LENGTH) : exports.DEFAULT_COUNT_IN.length,\n    };\n}\n/**\n * Beats of the count-in before 'firstMeasure'. Empty when the count-in is\n * disabled, or skipped because playback resumes from a later measure.\n */\nfunction getCountInBeats(settings, firstMeasure, resuming = false) {\n    const followMeasure = settings.meter === 'firstMeasure';\n    const beatsPerBar = followMeasure ? firstMeasure.timeSignature.numerator : 4;\n    const beatScale = followMeasure ? (0, meterGrouping_1.getBeatScale)(firstMeasure.timeSignature) : 1;\n    const beatDuration = (60 / firstMeasure.tempo) * beatScale;\n    const plan = { beats: [], beatsPerBar, tempo: firstMeasure.tempo, duration: 0 };\n    if (!settings.enabled || (resuming && settings.skipWhenResuming))\n        return plan;\n    const totalBeats = settings.unit === 'bars' ? settings.length * beatsPerBar : settings.length;\n    for (let i = 0; i < totalBeats; i++) {\n        plan.beats.push({\n            offset: i * beatDuration,\n            count: (i % beatsPerBar) + 1,\n            isDownbeat: i % beatsPerBar === 0,\n        });\n    }\n    plan.duration = totalBeats * beatDuration;\n    return plan;\n}\n\n  },\n  \"utils/rhythmLayers.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Rhythm Layers\n * Extra click layers the metronome stacks on its main beat. A polyrhythm layer\n * spreads its pulses evenly over the main bar (3 against 2, 5 against 4); a\n * polymeter layer plays its own bar at a fixed note value (7/8 against 4/4)\n * and cycles against the main bar until both line up again.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.LAYER_MODES = exports.LAYER_UNITS = exports.MAX_LAYER_PULSES = exports.MIN_LAYER_PULSES = exports.MAX_LAYERS = void 0;\nexports.createLayer = createLayer;\nexports.normalizeLayer = normalizeLayer;\nexports.getLayerPulseLevel = getLayerPulseLevel;\nexports.getLayerLevels = getLayerLevels;\nexports.setLayerPulseLevel = setLayerPulseLevel;\nexports.getLayerPulseDuration = getLayerPulseDuration;\nexports.getLayerPulseAt = getLayerPulseAt;\nexports.formatLayer = formatLayer;\nexports.MAX_LAYERS = 3;\nexports.MIN_LAYER_PULSES = 2;\nexports.MAX_LAYER_PULSES = 16;\nexports.LAYER_UNITS = [2, 4, 8, 16];\nexports.LAYER_MODES = [\n    { value: 'polyrhythm', label: 'Polyrhythm' },\n    { value: 'polymeter', label: 'Polymeter' },\n];\n// A new layer: three against the bar, or a bar of 7/8\nfunction createLayer(id, mode = 'polyrhythm') {\n    return {\n        id,\n        mode,\n        pulses: mode === 'polymeter' ? 7 : 3,\n        unit: 8,\n        sound: 'woodblock',\n        volume: 0.8,\n    };\n}\n// Fill in and clamp fields so stored layers keep working\nfunction normalizeLayer(layer) {\n    const pulses = Math.round(Number(layer.pulses));\n    const volume = Number(layer.volume);\n    return {\n        ...layer,\n        mode: layer.mode === 'polymeter' ? 'polymeter' : 'polyrhythm',\n        pulses: Number.isFinite(pulses) ? Math.min(Math.max(pulses, exports.MIN_LAYER_PULSES), exports.MAX_LAYER_PULSES) : 3,\n        unit: exports.LAYER_UNITS.includes(Number(layer.unit)) ? Number(layer.unit) : 8,\n        sound: layer.sound || 'woodblock',\n        volume: Number.isFinite(volume) ? Math.min(Math.max(volume, 0), 1) : 0.8,\n    };\n}\n// The layer's first pulse is accented unless its pattern says otherwise\nfunction getLayerPulseLevel(layer, pulseIndex) {\n    var _a;\n    return ((_a = layer.accents) === null || _a === void 0 ? void 0 : _a[pulseIndex]) || (pulseIndex === 0 ? 'accent' : 'normal');\n}\nfunction getLayerLevels(layer) {\n    return Array.from({ length: layer.pulses }, (_, pulse) => getLayerPulseLevel(layer, pulse));\n}\n// A copy of the layer with one pulse set to 'level'\nfunction setLayerPulseLevel(layer, pulseIndex, level) {\n    const accents = getLayerLevels(layer);\n    accents[pulseIndex] = level;\n    return { ...layer, accents };\n}\n/**\n * Seconds between two pulses of the layer. Polyrhythms divide the main bar;\n * polymeters convert their note value against the main beat, which is one\n * 1/denominator note of the main meter.\n */\nfunction getLayerPulseDuration(layer, timeSignature, beatDuration) {\n    if (layer.mode === 'polymeter') {\n        return (beatDuration * timeSignature.denominator) / layer.unit;\n    }\n    return (beatDuration * timeSignature.numerator) / layer.pulses;\n}\n// Pulse sounding 'elapsed' seconds after the first main beat, 0-based\nfunction getLayerPulseAt(layer, timeSignature, beatDuration, elapsed) {\n    const pulseDuration = getLayerPulseDuration(layer, timeSignature, beatDuration);\n    if (layer.mode === 'polymeter') {\n        return Math.floor(elapsed / pulseDuration) % layer.pulses;\n    }\n    const barDuration = beatDuration * timeSignature.numerator;\n    return Math.min(Math.floor((elapsed % barDuration) / pulseDuration), layer.pulses - 1);\n}\n// \"3:4\" for three against a bar of four, \"7/8\" for a polymeter\nfunction formatLayer(layer, timeSignature) {\n    return layer.mode === 'polymeter'\n        ? `${layer.pulses}/${layer.unit}`\n        : `${layer.pulses}:${timeSignature.numerator}`;\n}\n\n  },\n  \"utils/showStructure.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Show Structure\n * Structural markers on show measures (repeats, numbered endings, segno, coda,\n * fine, D.C./D.S. jumps and pauses) and the resolver that unrolls them into the\n * order bars are actually played in.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.JUMP_LABELS = exports.END_MARKER_KEYS = exports.START_MARKER_KEYS = void 0;\nexports.getPauseDuration = getPauseDuration;\nexports.resolvePlaybackOrder = resolvePlaybackOrder;\nconst meterGrouping_1 = require(\"utils/meterGrouping.ts\");\nconst tempoCurve_1 = require(\"utils/tempoCurve.ts\");\nexports.START_MARKER_KEYS = ['repeatStart', 'segno', 'coda'];\nexports.END_MARKER_KEYS = ['repeatEnd', 'toCoda', 'fine', 'jump', 'pause'];\nexports.JUMP_LABELS = {\n    dc: 'D.C.',\n    dcAlFine: 'D.C. al Fine',\n    dcAlCoda: 'D.C. al Coda',\n    ds: 'D.S.',\n    dsAlFine: 'D.S. al Fine',\n    dsAlCoda: 'D.S. al Coda',\n};\n// Upper bound on unrolled bars so malformed markers can never loop forever\nconst MAX_PLAYED_BARS = 10000;\n// Length in seconds of the pause after a measure, null for a hold (or no pause: 0)\nfunction getPauseDuration(measure) {\n    const pause = measure.pause;\n    if (!pause)\n        return 0;\n    if (pause.type === 'hold')\n        return null;\n    const length = pause.length && pause.length > 0 ? pause.length : 0;\n    if (pause.type === 'seconds')\n        return length;\n    // Beats continue at the tempo the measure ends on\n    const beatDuration = (60 / (0, tempoCurve_1.getRampTempo)(measure, 1)) * (0, meterGrouping_1.getBeatScale)(measure.timeSignature);\n    return length * beatDuration;\n}\nfunction hasEnding(bar) {\n    return !!bar.ending && bar.ending.length > 0;\n}\n// Highest ending number of the volta bracket group containing bar 'index'\nfunction getFinalEnding(bars, index) {\n    let start = index;\n    let end = index;\n    while (start > 0 && hasEnding(bars[start - 1]))\n        start--;\n    while (end + 1 < bars.length && hasEnding(bars[end + 1]))\n        end++;\n    let finalEnding = 1;\n    for (let i = start; i <= end; i++) {\n        bars[i].ending.forEach(ending => {\n            finalEnding = Math.max(finalEnding, ending);\n        });\n    }\n    return finalEnding;\n}\nfunction findMarker(bars, marker, fromIndex) {\n    for (let i = fromIndex; i < bars.length; i++) {\n        if (bars[i][marker])\n            return i;\n    }\n    return -1;\n}\n/**\n * Unroll the markers of a per-bar measure list into playback order.\n * Returns written bar indexes (0-based) in the order they are played.\n * Repeats are not taken again after a D.C./D.S. jump, and only the final\n * ending of each volta bracket is played on that pass.\n */\nfunction resolvePlaybackOrder(bars) {\n    const order = [];\n    const repeatsTaken = {};\n    let sectionStart = 0;\n    let pass = 1;\n    let activeRepeatEnd = -1;\n    let returning = false;\n    let jumpTaken = false;\n    let jumpUntil = null;\n    let i = 0;\n    while (i < bars.length && order.length < MAX_PLAYED_BARS) {\n        const bar = bars[i];\n        // A repeat sign reached going forwards opens a new section\n        if (bar.repeatStart && !returning) {\n            sectionStart = i;\n            pass = 1;\n            activeRepeatEnd = -1;\n        }\n        else if (activeRepeatEnd >= 0 && i > activeRepeatEnd && !hasEnding(bar)) {\n            // Past the last repeat and its endings - the next repeat goes back to here\n            sectionStart = i;\n            pass = 1;\n            activeRepeatEnd = -1;\n        }\n        returning = false;\n        // Numbered endings are only played on their pass\n        if (hasEnding(bar)) {\n            const playedPass = jumpTaken ? getFinalEnding(bars, i) : pass;\n            if (!bar.ending.includes(playedPass)) {\n                i++;\n                continue;\n            }\n        }\n        order.push(i);\n        if (jumpTaken) {\n            if (jumpUntil === 'fine' && bar.fine)\n                break;\n            if (jumpUntil === 'coda' && bar.toCoda) {\n                const codaIndex = findMarker(bars, 'coda', i + 1);\n                if (codaIndex === -1)\n                    break;\n                i = codaIndex;\n                continue;\n            }\n        }\n        if (!jumpTaken && bar.repeatEnd && bar.repeatEnd > 1) {\n            const taken = repeatsTaken[i] || 0;\n            if (taken < bar.repeatEnd - 1) {\n                repeatsTaken[i] = taken + 1;\n                pass++;\n                activeRepeatEnd = Math.max(activeRepeatEnd, i);\n                returning = true;\n                i = sectionStart;\n                continue;\n            }\n        }\n        if (!jumpTaken && bar.jump) {\n            jumpTaken = true;\n            jumpUntil = bar.jump.endsWith('AlFine') ? 'fine' : bar.jump.endsWith('AlCoda') ? 'coda' : null;\n            i = bar.jump.startsWith('ds') ? Math.max(0, findMarker(bars, 'segno', 0)) : 0;\n            continue;\n        }\n        i++;\n    }\n    return order;\n}\n\n  },\n  \"utils/tempoCurve.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Tempo Curve\n * Gradual tempo changes (accelerando / ritardando) across a measure entry.\n * The tempo moves from the entry's tempo to endTempo over all of its beats,\n * and beat durations are integrated from the curve so every beat lands\n * exactly where the curve puts it.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.roundTempo = roundTempo;\nexports.getRampTempo = getRampTempo;\nexports.getRampBeatDuration = getRampBeatDuration;\n// Tempos derived from a curve are stored with this many decimals\nconst TEMPO_PRECISION = 1000;\nfunction roundTempo(tempo) {\n    return Math.round(tempo * TEMPO_PRECISION) / TEMPO_PRECISION;\n}\n// Tempo after 'fraction' (0..1) of the measure's beats\nfunction getRampTempo(measure, fraction) {\n    const change = measure.tempoChange;\n    if (!change)\n        return measure.tempo;\n    if (change.curve === 'exponential') {\n        return measure.tempo * Math.pow(change.endTempo / measure.tempo, fraction);\n    }\n    return measure.tempo + (change.endTempo - measure.tempo) * fraction;\n}\n/**\n * Duration in seconds of beat 'beatIndex' of a single bar whose tempo follows\n * its curve over 'beatsInBar' beats. 'beatScale' converts quarter notes to\n * the beat unit (4 / denominator).\n */\nfunction getRampBeatDuration(measure, beatIndex, beatsInBar, beatScale) {\n    const startTempo = getRampTempo(measure, beatIndex / beatsInBar);\n    const change = measure.tempoChange;\n    if (!change || change.endTempo === measure.tempo) {\n        return (60 / startTempo) * beatScale;\n    }\n    if (change.curve === 'exponential') {\n        // T(x) = T0 * r^x per beat: integral of 60 / T(x) over one beat\n        const logRatio = Math.log(change.endTempo / measure.tempo) / beatsInBar;\n        return (60 / startTempo) * ((1 - Math.exp(-logRatio)) / logRatio) * beatScale;\n    }\n    // T(x) = T0 + k * x per beat: integral of 60 / T(x) over one beat\n    const slope = (change.endTempo - measure.tempo) / beatsInBar;\n    const endTempo = startTempo + slope;\n    return (60 / slope) * Math.log(endTempo / startTempo) * beatScale;\n}\n\n  },\n  \"webview/shared/pageWindow.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Page Window\n * What a page finds on `window` inside the WebView: the React Native bridge\n * and the prefixed audio constructors of older WebKit.\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.getPageWindow = void 0;\nexports.createAudioContext = createAudioContext;\n// The page's window; pages extend PageWindow with the functions they expose\nconst getPageWindow = () => window;\nexports.getPageWindow = getPageWindow;\n// A new AudioContext, or null where Web Audio is unavailable\nfunction createAudioContext() {\n    const pageWindow = (0, exports.getPageWindow)();\n    const AudioContextClass = pageWindow.AudioContext || pageWindow.webkitAudioContext;\n    return AudioContextClass ? new AudioContextClass() : null;\n}\n\n  },\n  \"webview/shared/dom.ts\": function (require, module, exports) {\n\"use strict\";\n/**\n * Page DOM helpers\n */\nObject.defineProperty(exports, \"__esModule\", { value: true });\nexports.byId = byId;\nexports.closestTo = closestTo;\n// An element of the page's markup. The markup is bundled with the script,\n// so a missing element is a bug in the page and fails loudly.\nfunction byId(id) {\n    const element = document.getElementById(id);\n    if (!element) {\n        throw new Error(`Page element #${id} is missing`);\n    }\n    return element;\n}\n// Nearest element at or above an event target matching 'selector'\nfunction closestTo(target, selector) {\n    return target instanceof Element ? target.closest(selector) : null;\n}\n\n  }\n};\nvar cache = {};\nfunction require(id) {\n  if (!cache[id]) {\n    cache[id] = { exports: {} };\n    definitions[id](require, cache[id], cache[id].exports);\n  }\n  return cache[id].exports;\n}\nrequire(\"webview/tuner/page.ts\");\n})();\n",
+};
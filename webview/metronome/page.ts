@@ -0,0 +1,529 @@
+/**
+ * Metronome page
+ * The metronome UI inside WebViewMetronome: tempo controls, tap tempo, the
+ * tempo bar with its accent levels, subdivisions and swing. The page plays
+ * nothing itself: it asks the app to start and stop the SoundSystem
+ * metronome, and the app sends the beats back as metronomeViewMessage
+ * messages along with its settings.
+ */
+
+import { createPageBridge } from '../shared/bridge';
+import { byId, closestTo } from '../shared/dom';
+import { getThemeVariables } from '../shared/theme';
+import { getClickLevel } from '../soundSystem/clickStream';
+import { AccentPattern, cycleAccentLevel, setAccentLevel } from '../../utils/accentPattern';
+import { formatTimeSignature, getGrouping, getGroupStarts, TimeSignature } from '../../utils/meterGrouping';
+import { canSwing, MAX_SWING, normalizeSwing, STRAIGHT_SWING, SWING_PRESETS } from '../../utils/swing';
+
+const bridge = createPageBridge('metronomeViewResponse', 'metronomeViewMessage');
+
+let isPlaying = false; // Whether the SoundSystem metronome is running
+let tempoBarActiveBeat = 0; // Beat highlighted in the tempo bar, 1-based
+let tapTimes: number[] = [];
+let isTapBpmActive = false;
+let tapBpmTimeout: ReturnType<typeof setTimeout> | null = null;
+
+// Settings shown on the page; the app keeps the SoundSystem in step
+let tempo = 120;
+let subdivision = 1;
+let pendingSubdivision: number | null = null; // New subdivision, shown from the next beat
+let swing = STRAIGHT_SWING;
+const bar: { meter: TimeSignature; accentPattern: AccentPattern | null } = {
+  meter: { numerator: 4, denominator: 4 },
+  accentPattern: null,
+};
+
+// Rapid tap detection for troubleshooting
+let playButtonTaps: number[] = [];
+const rapidTapThreshold = 6; // Number of taps
+const rapidTapTimeWindow = 1500; // Time window in milliseconds
+
+function showPlayIcon() {
+  const playButton = byId('playButton');
+  playButton.classList.remove('playing');
+  playButton.innerHTML = '<div class="play-icon"></div>';
+}
+
+function showStopIcon() {
+  const playButton = byId('playButton');
+  playButton.innerHTML = '<div class="stop-icon"></div>';
+  playButton.classList.add('playing');
+}
+
+// Rapid tap detection for troubleshooting
+function detectRapidTaps() {
+  const now = Date.now();
+  playButtonTaps.push(now);
+
+  // Remove taps older than the time window
+  playButtonTaps = playButtonTaps.filter(tapTime => now - tapTime <= rapidTapTimeWindow);
+
+  // Check if we've hit the threshold
+  if (playButtonTaps.length >= rapidTapThreshold) {
+    console.log('Rapid tapping detected - showing troubleshooting modal');
+    showTroubleshootingModal();
+    playButtonTaps = []; // Reset the tap counter
+  }
+}
+
+function showTroubleshootingModal() {
+  byId('troubleshootingModal').style.display = 'flex';
+  resetTroubleshootingTimer();
+}
+
+function hideTroubleshootingModal() {
+  byId('troubleshootingModal').style.display = 'none';
+}
+
+// Reset WebView (equivalent to closing and reopening app)
+function resetWebView() {
+  bridge.postToApp('RESET_WEBVIEW', {});
+  hideTroubleshootingModal();
+}
+
+// Timer for auto-hiding modal
+let troubleshootingTimer: ReturnType<typeof setTimeout> | null = null;
+function resetTroubleshootingTimer() {
+  if (troubleshootingTimer) {
+    clearTimeout(troubleshootingTimer);
+  }
+  troubleshootingTimer = setTimeout(() => {
+    hideTroubleshootingModal();
+  }, 10000); // 10 seconds
+}
+
+// Move one click to its next level and tell the app about the new pattern
+function cycleClickLevel(beatIndex: number, subdivisionIndex: number) {
+  // Start from the levels as heard, so the page's defaults carry over
+  const current = {
+    beats: Array.from({ length: bar.meter.numerator }, (_, beat) => getClickLevel(bar, beat, 0)),
+    subdivisions: bar.accentPattern ? bar.accentPattern.subdivisions : undefined,
+  };
+  const level = cycleAccentLevel(getClickLevel(bar, beatIndex, subdivisionIndex));
+  bar.accentPattern = setAccentLevel(current, bar.meter, beatIndex, subdivisionIndex, level);
+  updateTempoBar(tempoBarActiveBeat);
+
+  bridge.postToApp('ACCENTS_CHANGE', {
+    accents: bar.accentPattern,
+  });
+}
+
+// Subdivision heard from the next beat on
+function getActiveSubdivision(): number {
+  return pendingSubdivision !== null ? pendingSubdivision : subdivision;
+}
+
+// Tempo bar with one segment per beat of the bar, groups set apart, and
+// a row of subdivision clicks under each beat. Segments show their accent
+// level and cycle it when tapped. 'activeBeat' is 1-based; 0 clears the highlight.
+function updateTempoBar(activeBeat: number) {
+  const tempoBar = byId('tempoBar');
+  tempoBarActiveBeat = activeBeat;
+
+  const meter = bar.meter;
+  const activeSubdivision = getActiveSubdivision();
+  const layout = [formatTimeSignature(meter), activeSubdivision, JSON.stringify(bar.accentPattern)].join('|');
+  if (tempoBar.getAttribute('data-layout') !== layout) {
+    tempoBar.setAttribute('data-layout', layout);
+    tempoBar.innerHTML = '';
+    const groupStarts = getGrouping(meter) ? getGroupStarts(meter) : [];
+    for (let i = 0; i < meter.numerator; i++) {
+      const beat = document.createElement('div');
+      beat.className = i > 0 && groupStarts.includes(i) ? 'tempo-beat group-start' : 'tempo-beat';
+
+      const segment = document.createElement('div');
+      segment.className = 'tempo-segment level-' + getClickLevel(bar, i, 0);
+      segment.setAttribute('data-beat', String(i));
+      segment.setAttribute('data-sub', '0');
+      beat.appendChild(segment);
+
+      if (activeSubdivision > 1) {
+        const row = document.createElement('div');
+        row.className = 'tempo-subdivisions';
+        for (let sub = 1; sub < activeSubdivision; sub++) {
+          const subSegment = document.createElement('div');
+          subSegment.className = 'tempo-subsegment level-' + getClickLevel(bar, i, sub);
+          subSegment.setAttribute('data-beat', String(i));
+          subSegment.setAttribute('data-sub', String(sub));
+          row.appendChild(subSegment);
+        }
+        beat.appendChild(row);
+      }
+      tempoBar.appendChild(beat);
+    }
+  }
+
+  tempoBar.querySelectorAll('.tempo-segment').forEach((segment, index) => {
+    segment.classList.toggle('active', index === activeBeat - 1);
+  });
+  if (activeBeat === 0) {
+    tempoBar.classList.remove('muted-beat');
+  }
+}
+
+// A beat heard from the SoundSystem; silent bars and muted beats of the
+// gap trainer are shown as silent
+function showBeat(beatNumber: number, isSilent: boolean) {
+  if (!isPlaying) return;
+  if (pendingSubdivision !== null) {
+    subdivision = pendingSubdivision;
+    pendingSubdivision = null;
+    updateSubdivisionSelection();
+  }
+  updateTempoBar(beatNumber);
+  byId('tempoBar').classList.toggle('muted-beat', isSilent);
+}
+
+// The SoundSystem metronome started or stopped
+function setPlaying(playing: boolean) {
+  isPlaying = playing;
+  if (playing) {
+    showStopIcon();
+    return;
+  }
+
+  // Apply any pending subdivision change when stopping
+  if (pendingSubdivision !== null) {
+    subdivision = pendingSubdivision;
+    pendingSubdivision = null;
+    updateSubdivisionSelection();
+  }
+  showPlayIcon();
+  updateTempoBar(0);
+}
+
+// Update tempo display
+function updateTempoDisplay() {
+  byId('tempoDisplay').textContent = tempo + ' BPM';
+  byId<HTMLInputElement>('tempoSlider').value = String(tempo);
+}
+
+// Update tempo; a running metronome picks it up from the next click
+function updateTempo(newTempo: number) {
+  tempo = newTempo;
+  updateTempoDisplay();
+  bridge.postToApp('TEMPO_CHANGE', { bpm: tempo });
+}
+
+// Tap BPM functionality
+function startTapBpm() {
+  isTapBpmActive = true;
+  tapTimes = [];
+  byId('tapBpmBtn').classList.add('active');
+
+  // Set timeout to auto-disengage after 5 seconds of inactivity
+  if (tapBpmTimeout) {
+    clearTimeout(tapBpmTimeout);
+  }
+  tapBpmTimeout = setTimeout(() => {
+    stopTapBpm();
+  }, 5000);
+}
+
+function tap() {
+  const now = Date.now();
+  tapTimes.push(now);
+
+  // Keep only last 8 taps
+  if (tapTimes.length > 8) {
+    tapTimes.shift();
+  }
+
+  // Only reset timeout if there's been a significant gap (indicating inactivity)
+  // This prevents the timeout from resetting during active tapping
+  if (tapTimes.length >= 2) {
+    const lastInterval = now - tapTimes[tapTimes.length - 2];
+    if (lastInterval > 2000) { // If gap is more than 2 seconds, reset timeout
+      if (tapBpmTimeout) {
+        clearTimeout(tapBpmTimeout);
+      }
+      tapBpmTimeout = setTimeout(() => {
+        stopTapBpm();
+      }, 5000);
+    }
+  }
+
+  // Calculate BPM if we have at least 2 taps
+  if (tapTimes.length >= 2) {
+    const intervals = [];
+    for (let i = 1; i < tapTimes.length; i++) {
+      intervals.push(tapTimes[i] - tapTimes[i - 1]);
+    }
+
+    const avgInterval = intervals.reduce((a, b) => a + b) / intervals.length;
+    const newTempo = Math.round(60000 / avgInterval);
+
+    // Clamp to valid range
+    updateTempo(Math.max(40, Math.min(240, newTempo)));
+  }
+}
+
+function stopTapBpm() {
+  isTapBpmActive = false;
+  tapTimes = [];
+  const button = byId('tapBpmBtn');
+  button.classList.remove('active');
+
+  // Ensure color reset
+  button.style.borderColor = '';
+  button.style.backgroundColor = '';
+
+  // Clear timeout
+  if (tapBpmTimeout) {
+    clearTimeout(tapBpmTimeout);
+    tapBpmTimeout = null;
+  }
+}
+
+// Modal functionality
+function showBpmModal() {
+  const bpmInput = byId<HTMLInputElement>('bpmInput');
+  bpmInput.value = String(tempo);
+  byId('bpmModal').style.display = 'flex';
+  bpmInput.focus();
+  bpmInput.select();
+}
+
+function hideBpmModal() {
+  byId('bpmModal').style.display = 'none';
+}
+
+function saveBpm() {
+  const inputValue = byId<HTMLInputElement>('bpmInput').value;
+  const newTempo = parseInt(inputValue, 10);
+  if (inputValue && !isNaN(newTempo) && newTempo >= 40 && newTempo <= 240) {
+    updateTempo(newTempo);
+    hideBpmModal();
+  }
+}
+
+// Subdivision modal functions
+function showSubdivisionModal() {
+  byId('subdivisionModal').style.display = 'flex';
+  updateSubdivisionSelection();
+}
+
+function hideSubdivisionModal() {
+  byId('subdivisionModal').style.display = 'none';
+}
+
+function updateSubdivisionSelection() {
+  // Select the subdivision that will be active (current or pending)
+  const activeSubdivision = String(getActiveSubdivision());
+  document.querySelectorAll('.subdivision-card').forEach(option => {
+    option.classList.toggle('selected', option.getAttribute('data-subdivision') === activeSubdivision);
+  });
+  updateSwingDisplay();
+}
+
+// Swing controls only show for subdivisions that can swing
+function updateSwingDisplay() {
+  byId('swingSection').style.display = canSwing(getActiveSubdivision()) ? 'block' : 'none';
+  byId<HTMLInputElement>('swingSlider').value = String(swing);
+  byId('swingLabel').textContent = swing === STRAIGHT_SWING ? `Swing ${STRAIGHT_SWING}% (straight)` : 'Swing ' + swing + '%';
+  document.querySelectorAll('.swing-preset').forEach(preset => {
+    preset.classList.toggle('selected', parseInt(preset.getAttribute('data-swing') || '', 10) === swing);
+  });
+}
+
+// New swing ratio, heard from the next click on
+function selectSwing(newSwing: number) {
+  swing = normalizeSwing(newSwing);
+  updateSwingDisplay();
+  bridge.postToApp('SWING_CHANGE', {
+    swing,
+  });
+}
+
+function selectSubdivision(newSubdivision: number) {
+  if (isPlaying) {
+    // If metronome is playing, the change is shown from the next beat
+    pendingSubdivision = newSubdivision;
+  } else {
+    // If not playing, apply immediately
+    subdivision = newSubdivision;
+  }
+  bridge.postToApp('SUBDIVISION_CHANGE', { subdivision: newSubdivision });
+
+  // Don't close the modal - just update the selection
+  updateSubdivisionSelection();
+  updateTempoBar(tempoBarActiveBeat);
+}
+
+// Swing slider range and presets
+const swingSlider = byId<HTMLInputElement>('swingSlider');
+swingSlider.min = String(STRAIGHT_SWING);
+swingSlider.max = String(MAX_SWING);
+swingSlider.value = String(STRAIGHT_SWING);
+byId('swingPresets').innerHTML = SWING_PRESETS
+  .map(preset => `<button class="swing-preset" data-swing="${preset.value}">${preset.label}</button>`)
+  .join('');
+
+// Event listeners; the play button shows the new state once the app
+// reports the metronome started or stopped
+byId('playButton').addEventListener('click', () => {
+  // Detect rapid tapping for troubleshooting
+  detectRapidTaps();
+
+  if (isPlaying) {
+    bridge.postToApp('STOP_METRONOME', {});
+  } else {
+    bridge.postToApp('START_METRONOME', { bpm: tempo, subdivision: getActiveSubdivision() });
+  }
+});
+
+byId<HTMLInputElement>('tempoSlider').addEventListener('input', event => {
+  updateTempo(parseInt((event.target as HTMLInputElement).value, 10));
+});
+
+byId('minusBtn').addEventListener('click', () => {
+  if (tempo > 40) {
+    updateTempo(tempo - 1);
+  }
+});
+
+byId('plusBtn').addEventListener('click', () => {
+  if (tempo < 240) {
+    updateTempo(tempo + 1);
+  }
+});
+
+byId('tempoDisplay').addEventListener('click', showBpmModal);
+
+// Tapping a beat or subdivision segment cycles its accent level
+byId('tempoBar').addEventListener('click', event => {
+  const segment = closestTo(event.target, '[data-sub]');
+  if (!segment) return;
+  cycleClickLevel(parseInt(segment.getAttribute('data-beat') || '0', 10), parseInt(segment.getAttribute('data-sub') || '0', 10));
+});
+
+byId('tapBpmBtn').addEventListener('click', () => {
+  if (isTapBpmActive) {
+    tap();
+  } else {
+    startTapBpm();
+  }
+});
+
+byId('tapBpmBtn').addEventListener('contextmenu', event => {
+  event.preventDefault();
+  if (isTapBpmActive) {
+    stopTapBpm();
+  }
+});
+
+byId('subdivisionBtn').addEventListener('click', showSubdivisionModal);
+
+byId('cancelBtn').addEventListener('click', hideBpmModal);
+byId('saveBtn').addEventListener('click', saveBpm);
+
+byId('subdivisionCancelBtn').addEventListener('click', hideSubdivisionModal);
+
+byId('bpmInput').addEventListener('keypress', event => {
+  if (event.key === 'Enter') {
+    saveBpm();
+  }
+});
+
+// Close modal when clicking outside
+byId('bpmModal').addEventListener('click', event => {
+  if (event.target === byId('bpmModal')) {
+    hideBpmModal();
+  }
+});
+
+byId('subdivisionModal').addEventListener('click', event => {
+  if (event.target === byId('subdivisionModal')) {
+    hideSubdivisionModal();
+  }
+});
+
+// Subdivision option click handlers
+document.querySelectorAll('.subdivision-card').forEach(option => {
+  option.addEventListener('click', () => {
+    selectSubdivision(parseInt(option.getAttribute('data-subdivision') || '1', 10));
+  });
+});
+
+// Swing slider and presets
+swingSlider.addEventListener('input', () => {
+  selectSwing(parseInt(swingSlider.value, 10));
+});
+document.querySelectorAll('.swing-preset').forEach(preset => {
+  preset.addEventListener('click', () => {
+    selectSwing(parseInt(preset.getAttribute('data-swing') || '', 10));
+  });
+});
+
+// Initialize
+console.log('WebView JavaScript initialized');
+
+updateTempoDisplay();
+updateTempoBar(0);
+
+// Settings button event listener
+byId('settingsButton').addEventListener('click', () => {
+  bridge.postToApp('OPEN_SETTINGS', {});
+});
+
+// Troubleshooting modal event listeners
+byId('dismissTroubleshootingBtn').addEventListener('click', () => {
+  hideTroubleshootingModal();
+});
+
+byId('resetWebViewBtn').addEventListener('click', () => {
+  resetWebView();
+});
+
+// Reset timer when user interacts with the troubleshooting modal
+byId('troubleshootingModal').addEventListener('click', event => {
+  event.stopPropagation(); // Don't close when clicking inside modal
+  resetTroubleshootingTimer(); // Reset the auto-hide timer
+});
+
+// Handle messages from React Native
+window.addEventListener('message', event => {
+  // Messages that fail their schema are reported back and dropped
+  const message = bridge.readMessage(event.data);
+  if (!message) return;
+  try {
+    switch (message.type) {
+      case 'METRONOME_STARTED':
+        setPlaying(true);
+        break;
+      case 'METRONOME_STOPPED':
+        setPlaying(false);
+        break;
+      case 'METRONOME_BEAT':
+        showBeat(message.payload.beatNumber, message.payload.isSilent);
+        break;
+      case 'TIME_SIGNATURE_CHANGE':
+        console.log('Received TIME_SIGNATURE_CHANGE message:', message.payload.timeSignature);
+        bar.meter = message.payload.timeSignature;
+        updateTempoBar(0);
+        break;
+      case 'SWING_CHANGE':
+        console.log('Received SWING_CHANGE message:', message.payload.swing);
+        swing = normalizeSwing(message.payload.swing);
+        updateSwingDisplay();
+        break;
+      case 'ACCENTS_CHANGE':
+        console.log('Received ACCENTS_CHANGE message:', message.payload.accents);
+        bar.accentPattern = message.payload.accents || null;
+        updateTempoBar(tempoBarActiveBeat);
+        break;
+      case 'COLOR_CHANGE': {
+        console.log('Received COLOR_CHANGE message:', message.payload.colors);
+        const root = document.documentElement;
+        Object.entries(getThemeVariables(message.payload.colors)).forEach(([name, value]) => {
+          root.style.setProperty('--' + name, value);
+        });
+        break;
+      }
+    }
+  } catch (error) {
+    console.log('Error handling message:', error);
+  }
+});
+
+bridge.announceReady();
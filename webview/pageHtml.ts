@@ -0,0 +1,49 @@
+/**
+ * Page HTML
+ * WebView pages are written as TypeScript modules with a stylesheet and
+ * markup next to them in webview/<page>/, and bundled into
+ * webview/generated/ by scripts/bundle-webviews.js. This assembles the
+ * HTML document of a bundled page, with the values only known at run time
+ * (theme colors, platform sizes) passed in as CSS variables.
+ */
+
+// A page as bundled by scripts/bundle-webviews.js
+export interface WebViewPageBundle {
+  css: string;
+  body: string;
+  script: string;
+}
+
+export interface PageHtmlOptions {
+  title: string;
+  cssVariables: Record<string, string>; // by name without the leading "--"
+  meta?: Record<string, string>; // extra <meta name content> tags
+}
+
+export function createPageHtml(bundle: WebViewPageBundle, options: PageHtmlOptions): string {
+  const meta = Object.entries(options.meta || {})
+    .map(([name, content]) => `    <meta name="${name}" content="${content}">\n`)
+    .join('');
+  const variables = Object.entries(options.cssVariables)
+    .map(([name, value]) => `            --${name}: ${value};\n`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no">
+${meta}    <title>${options.title}</title>
+    <style>
+        :root {
+${variables}        }
+${bundle.css}
+    </style>
+</head>
+<body>
+${bundle.body}
+    <script>${bundle.script}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,69 @@
+/**
+ * Page Bridge
+ * The page side of the message protocol in types/MessageProtocol.ts, for
+ * pages bundled from TypeScript: typed messages to React Native, incoming
+ * messages checked against the same schemas React Native uses, and the
+ * READY announcement that releases the messages React Native held back.
+ */
+
+import { PROTOCOL_VERSION, ProtocolChannel, ProtocolChannels } from '../../types/MessageProtocol';
+import { validateMessage } from '../../utils/messageSchema';
+import { getPageWindow } from './pageWindow';
+
+type MessageOf<C extends ProtocolChannel, T> = Extract<ProtocolChannels[C], { type: T }>;
+
+export interface PageBridge<Out extends ProtocolChannel, In extends ProtocolChannel> {
+  // Send a message of the page's response channel; 'requestId' answers the command that carried it
+  postToApp: <T extends ProtocolChannels[Out]['type']>(
+    type: T,
+    payload: MessageOf<Out, T>['payload'],
+    requestId?: string
+  ) => void;
+  // The checked message, or null after reporting why it was rejected
+  readMessage: (raw: unknown) => ProtocolChannels[In] | null;
+  // Called once the page's message handling is set up
+  announceReady: () => void;
+}
+
+// Bridge of a page answering on 'responseChannel' and listening on 'messageChannel'
+export function createPageBridge<Out extends ProtocolChannel, In extends ProtocolChannel = never>(
+  responseChannel: Out,
+  messageChannel?: In
+): PageBridge<Out, In> {
+  // Every response channel carries READY and PROTOCOL_ERROR, which the
+  // generic payload types cannot show
+  const post = (type: string, payload: object, requestId?: string) => {
+    const nativeBridge = getPageWindow().ReactNativeWebView;
+    if (!nativeBridge) return;
+    nativeBridge.postMessage(JSON.stringify({
+      type,
+      payload,
+      timestamp: Date.now(),
+      ...(requestId ? { requestId } : {}),
+    }));
+  };
+
+  const readMessage = (raw: unknown): ProtocolChannels[In] | null => {
+    if (!messageChannel) return null;
+    let data: unknown;
+    try {
+      data = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    } catch {
+      post('PROTOCOL_ERROR', { messageType: null, errors: ['Message is not valid JSON'] });
+      return null;
+    }
+    const result = validateMessage(messageChannel, data);
+    if (!result.message) {
+      const requestId = (data as { requestId?: unknown } | null)?.requestId;
+      post('PROTOCOL_ERROR', { messageType: result.type, errors: result.errors },
+        typeof requestId === 'string' ? requestId : undefined);
+    }
+    return result.message;
+  };
+
+  return {
+    postToApp: post,
+    readMessage,
+    announceReady: () => post('READY', { protocolVersion: PROTOCOL_VERSION }),
+  };
+}
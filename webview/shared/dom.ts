@@ -0,0 +1,18 @@
+/**
+ * Page DOM helpers
+ */
+
+// An element of the page's markup. The markup is bundled with the script,
+// so a missing element is a bug in the page and fails loudly.
+export function byId<T extends HTMLElement = HTMLElement>(id: string): T {
+  const element = document.getElementById(id);
+  if (!element) {
+    throw new Error(`Page element #${id} is missing`);
+  }
+  return element as T;
+}
+
+// Nearest element at or above an event target matching 'selector'
+export function closestTo(target: EventTarget | null, selector: string): HTMLElement | null {
+  return target instanceof Element ? target.closest<HTMLElement>(selector) : null;
+}
@@ -0,0 +1,23 @@
+/**
+ * Page Window
+ * What a page finds on `window` inside the WebView: the React Native bridge
+ * and the prefixed audio constructors of older WebKit.
+ */
+
+export interface PageWindow extends Window {
+  ReactNativeWebView?: { postMessage: (message: string) => void };
+  AudioContext?: typeof AudioContext;
+  webkitAudioContext?: typeof AudioContext;
+  OfflineAudioContext?: typeof OfflineAudioContext;
+  webkitOfflineAudioContext?: typeof OfflineAudioContext;
+}
+
+// The page's window; pages extend PageWindow with the functions they expose
+export const getPageWindow = <W extends PageWindow = PageWindow>(): W => window as unknown as W;
+
+// A new AudioContext, or null where Web Audio is unavailable
+export function createAudioContext(): AudioContext | null {
+  const pageWindow = getPageWindow();
+  const AudioContextClass = pageWindow.AudioContext || pageWindow.webkitAudioContext;
+  return AudioContextClass ? new AudioContextClass() : null;
+}
@@ -0,0 +1,27 @@
+/**
+ * Page Theme
+ * The app's theme colors as the CSS variables the page stylesheets read.
+ * Used by the host to build a page and by pages applying new colors.
+ */
+
+import { ThemeColorsPayload } from '../../types/MessageProtocol';
+
+// "r, g, b" of a hex color, for rgba() in the stylesheets
+export function hexToRgb(hex: string): string {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  return result ? `${parseInt(result[1], 16)}, ${parseInt(result[2], 16)}, ${parseInt(result[3], 16)}` : '187, 134, 252';
+}
+
+// CSS variables of the theme, by name without the leading "--"
+export function getThemeVariables(colors: ThemeColorsPayload): Record<string, string> {
+  return {
+    background: colors.background,
+    surface: colors.surface,
+    primary: colors.primary,
+    text: colors.text,
+    icon: colors.icon,
+    accent: colors.accent,
+    orange: colors.orange,
+    'accent-rgb': hexToRgb(colors.accent),
+  };
+}
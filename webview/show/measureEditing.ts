@@ -0,0 +1,191 @@
+/**
+ * Measure Editing
+ * How the show page lists and edits measures. Shows are stored as compact
+ * entries; the page expands them into bars, edits the bars and compacts
+ * them again. The condensed view groups consecutive bars that play the same
+ * (or continue the same tempo ramp) without a marker in between.
+ */
+
+import { getBeatLevels, getMeasureAccents } from '../../utils/accentPattern';
+import { CountInSettings } from '../../utils/countIn';
+import { getMeasureCount } from '../../utils/showMeasures';
+import { END_MARKER_KEYS, JUMP_LABELS, MeasureMarkers, MeasurePause, START_MARKER_KEYS } from '../../utils/showStructure';
+import { TimelineBar } from '../../utils/showTimeline';
+import { normalizeSwing } from '../../utils/swing';
+
+// A measure entry of a show, standing for 'count' identical bars
+export interface ShowMeasure extends TimelineBar {
+  id: string;
+  count: number;
+}
+
+export interface PageShow {
+  id: string;
+  name: string;
+  measures: ShowMeasure[];
+  countIn?: Partial<CountInSettings>;
+}
+
+// Index range of bars, both ends included
+export interface BarRange {
+  start: number;
+  end: number;
+}
+
+const REHEARSAL_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+// Whether two measures play the same accent levels (legacy beat sounds included)
+export function compareAccents(measure1: ShowMeasure, measure2: ShowMeasure): boolean {
+  const levels1 = getBeatLevels(getMeasureAccents(measure1), measure1.timeSignature);
+  const levels2 = getBeatLevels(getMeasureAccents(measure2), measure2.timeSignature);
+  return levels1.join(',') === levels2.join(',');
+}
+
+// Whether two measures share everything but their tempo
+export function hasSameSettings(measure1: ShowMeasure, measure2: ShowMeasure): boolean {
+  return measure1.timeSignature.numerator === measure2.timeSignature.numerator &&
+    measure1.timeSignature.denominator === measure2.timeSignature.denominator &&
+    (measure1.timeSignature.grouping || []).join('+') === (measure2.timeSignature.grouping || []).join('+') &&
+    measure1.letter === measure2.letter &&
+    (measure1.ending || []).join(',') === (measure2.ending || []).join(',') &&
+    (measure1.subdivision || 1) === (measure2.subdivision || 1) &&
+    normalizeSwing(measure1.swing) === normalizeSwing(measure2.swing) &&
+    compareAccents(measure1, measure2);
+}
+
+// Whether two measures sound identical and share the same endings
+export function isSameMeasure(measure1: ShowMeasure, measure2: ShowMeasure): boolean {
+  return hasSameSettings(measure1, measure2) &&
+    measure1.tempo === measure2.tempo &&
+    !measure1.tempoChange && !measure2.tempoChange;
+}
+
+// Tempo change per bar of a ramp entry: BPM per bar for linear curves,
+// log ratio per bar for exponential ones
+function getRampRate(measure: ShowMeasure): number {
+  const change = measure.tempoChange;
+  if (!change) return 0;
+  const count = getMeasureCount(measure);
+  if (change.curve === 'exponential') {
+    return Math.log(change.endTempo / measure.tempo) / count;
+  }
+  return (change.endTempo - measure.tempo) / count;
+}
+
+// Whether 'measure' picks up the tempo curve exactly where 'previous' ends
+export function continuesTempoRamp(previous: ShowMeasure, measure: ShowMeasure): boolean {
+  if (!previous.tempoChange || !measure.tempoChange) return false;
+  if (previous.tempoChange.curve !== measure.tempoChange.curve) return false;
+  const tolerance = measure.tempoChange.curve === 'exponential' ? 0.0001 : 0.01;
+  return hasSameSettings(previous, measure) &&
+    Math.abs(previous.tempoChange.endTempo - measure.tempo) < 0.01 &&
+    Math.abs(getRampRate(previous) - getRampRate(measure)) < tolerance;
+}
+
+function hasStartMarker(measure: MeasureMarkers): boolean {
+  return START_MARKER_KEYS.some(key => measure[key]);
+}
+
+function hasEndMarker(measure: MeasureMarkers): boolean {
+  return END_MARKER_KEYS.some(key => measure[key]);
+}
+
+// Whether 'measure' can continue the entry or group ending with 'previous'
+// without losing a marker in between
+export function canJoinGroup(previous: ShowMeasure, measure: ShowMeasure): boolean {
+  if (hasEndMarker(previous) || hasStartMarker(measure)) return false;
+  if (previous.tempoChange || measure.tempoChange) return continuesTempoRamp(previous, measure);
+  return isSameMeasure(previous, measure);
+}
+
+// Index range of the condensed group containing bar 'index'
+export function getGroupRange(bars: ShowMeasure[], index: number): BarRange {
+  let start = index;
+  let end = index;
+  while (start > 0 && canJoinGroup(bars[start - 1], bars[start])) start--;
+  while (end + 1 < bars.length && canJoinGroup(bars[end], bars[end + 1])) end++;
+  return { start, end };
+}
+
+function setMarker<K extends keyof MeasureMarkers>(measure: MeasureMarkers, key: K, value: MeasureMarkers[K]): void {
+  if (value) {
+    measure[key] = value;
+  } else {
+    delete measure[key];
+  }
+}
+
+// Copy the end markers of 'source' onto 'target'
+export function copyEndMarkers<T extends MeasureMarkers>(target: T, source: MeasureMarkers): T {
+  END_MARKER_KEYS.forEach(key => setMarker(target, key, source[key]));
+  return target;
+}
+
+// Replace all structural markers of 'measure' with 'markers'
+export function applyMarkers<T extends MeasureMarkers>(measure: T, markers: MeasureMarkers): T {
+  START_MARKER_KEYS.concat(END_MARKER_KEYS).forEach(key => setMarker(measure, key, markers[key]));
+  setMarker(measure, 'ending', markers.ending && markers.ending.length > 0 ? markers.ending : undefined);
+  return measure;
+}
+
+// Merge consecutive identical measures into compact entries with a count
+export function compactMeasures(measures: ShowMeasure[]): ShowMeasure[] {
+  const compacted: ShowMeasure[] = [];
+  measures.forEach(measure => {
+    const last = compacted.length > 0 ? compacted[compacted.length - 1] : null;
+    if (last && canJoinGroup(last, measure)) {
+      last.count += getMeasureCount(measure);
+      copyEndMarkers(last, measure);
+      if (last.tempoChange && measure.tempoChange) {
+        last.tempoChange = { ...last.tempoChange, endTempo: measure.tempoChange.endTempo };
+      }
+    } else {
+      compacted.push({ ...measure, count: getMeasureCount(measure) });
+    }
+  });
+  return compacted;
+}
+
+// e.g. "Hold", "G.P. 2s" or "Fermata 3 beats"
+export function getPauseLabel(pause: MeasurePause): string {
+  if (pause.type === 'hold') return 'Hold';
+  if (pause.type === 'seconds') return 'G.P. ' + pause.length + 's';
+  return 'Fermata ' + pause.length + (pause.length === 1 ? ' beat' : ' beats');
+}
+
+// Short labels for the markers shown in the measure list
+export function getMarkerLabels(measure: MeasureMarkers): string[] {
+  const labels: string[] = [];
+  if (measure.repeatStart) labels.push('‖:');
+  if (measure.segno) labels.push('Segno');
+  if (measure.coda) labels.push('Coda');
+  if (measure.ending && measure.ending.length > 0) labels.push(measure.ending.join(',') + '.');
+  if (measure.repeatEnd) labels.push(':‖ ×' + measure.repeatEnd);
+  if (measure.toCoda) labels.push('To Coda');
+  if (measure.fine) labels.push('Fine');
+  if (measure.jump) labels.push(JUMP_LABELS[measure.jump]);
+  if (measure.pause) labels.push(getPauseLabel(measure.pause));
+  return labels;
+}
+
+// Tempo shown in the measure list, e.g. "120 BPM" or "accel. 100→140 BPM"
+export function getTempoLabel(measure: ShowMeasure): string {
+  if (!measure.tempoChange) return Math.round(measure.tempo) + ' BPM';
+  const direction = measure.tempoChange.endTempo > measure.tempo ? 'accel.' : 'rit.';
+  return direction + ' ' + Math.round(measure.tempo) + '→' + Math.round(measure.tempoChange.endTempo) + ' BPM';
+}
+
+// Rehearsal letters of a show, each once
+export function getUsedLetters(show: PageShow | undefined): string[] {
+  if (!show || !show.measures) return [];
+  return show.measures
+    .map(measure => measure.letter)
+    .filter((letter): letter is string => !!letter && letter.trim() !== '')
+    .filter((letter, index, letters) => letters.indexOf(letter) === index);
+}
+
+// Rehearsal letters not yet used in a show
+export function getAvailableLetters(show: PageShow | undefined): string[] {
+  const usedLetters = getUsedLetters(show);
+  return REHEARSAL_LETTERS.filter(letter => !usedLetters.includes(letter));
+}
@@ -0,0 +1,1162 @@
+/**
+ * Show page
+ * The show UI inside WebViewShow: the show list, the measure manager with
+ * its add, edit, marker and accent modals, and the playback display. Shows
+ * are played by the SoundSystem: the page asks WebViewShow to start, stop or
+ * resume them, and the app pushes shows, playback options and the beats
+ * heard through the functions the page exposes on `window`; the page
+ * answers with showViewResponse messages.
+ */
+
+import {
+  applyMarkers,
+  compactMeasures,
+  copyEndMarkers,
+  getAvailableLetters,
+  getGroupRange,
+  getMarkerLabels,
+  getTempoLabel,
+  PageShow,
+  ShowMeasure,
+} from './measureEditing';
+import {
+  DEFAULT_PLAYBACK_OPTIONS,
+  getPlaybackRangeLabels,
+  getShowStartOptions,
+  ShowPlaybackOptions,
+} from './playbackRange';
+import { createPageBridge } from '../shared/bridge';
+import { byId, closestTo } from '../shared/dom';
+import { getPageWindow, PageWindow } from '../shared/pageWindow';
+import { ShowBeatPayload, ShowMeasureCompletedPayload, ShowPausePayload } from '../../types/MessageProtocol';
+import { ACCENT_LEVELS, AccentLevel, AccentPattern, getBeatLevels, getMeasureAccents } from '../../utils/accentPattern';
+import { createId } from '../../utils/ids';
+import { formatTimeSignature, getGrouping, getGroupStarts, parseGrouping, TimeSignature } from '../../utils/meterGrouping';
+import { expandMeasures, getMeasureCount, getTotalMeasureCount } from '../../utils/showMeasures';
+import { JumpType, MeasureMarkers, MeasurePause, PauseType } from '../../utils/showStructure';
+import { canSwing, MAX_SWING, normalizeSwing, STRAIGHT_SWING } from '../../utils/swing';
+import { TempoCurveShape } from '../../utils/tempoCurve';
+
+// Functions the app injects calls to
+interface ShowPageWindow extends PageWindow {
+  updateShowsData: (newShows: PageShow[], newSelectedShow: string) => void;
+  updatePlaybackOptions: (newOptions: ShowPlaybackOptions) => void;
+  updateBeatsPerMeasure: (newBeatsPerMeasure: number) => void;
+  showBeat: (beat: ShowBeatPayload) => void;
+  showMeasureCompleted: (measure: ShowMeasureCompletedPayload) => void;
+  showStopped: () => void;
+}
+
+const pageWindow = getPageWindow<ShowPageWindow>();
+const bridge = createPageBridge('showViewResponse');
+
+// Show data from React Native, sent once the page is ready
+let shows: PageShow[] = [];
+let selectedShow = '1';
+let playbackOptions: ShowPlaybackOptions = DEFAULT_PLAYBACK_OPTIONS;
+
+// Edits in progress in the show and measure modals
+let editingShowId: string | null = null;
+let editingMeasureId: string | null = null;
+let editingAccents: AccentPattern | null = null;
+let editingMarkers: MeasureMarkers | null = null;
+let skipNextRender = false; // the next shows update echoes a local edit
+
+// Initialize condensedView from localStorage if available, otherwise default to true
+let condensedView = true;
+try {
+  const savedCondensedView = localStorage.getItem('condensedView');
+  if (savedCondensedView !== null) {
+    condensedView = JSON.parse(savedCondensedView);
+  }
+} catch (e) {
+  console.log('Could not load condensedView from localStorage:', e);
+}
+
+function getSelectedShow(): PageShow | undefined {
+  return shows.find(show => show.id === selectedShow);
+}
+
+function getShowMeasureCount(show: PageShow | undefined): number {
+  return show && show.measures ? getTotalMeasureCount(show.measures) : 0;
+}
+
+// Function to update shows data from React Native
+function updateShowsData(newShows: PageShow[], newSelectedShow: string) {
+  console.log('WebView: updateShowsData called, condensedView before:', condensedView, 'skipNextRender:', skipNextRender);
+
+  // If this is a result of a local update, just update the data without re-rendering
+  if (skipNextRender) {
+    console.log('WebView: Skipping render due to skipNextRender flag');
+    shows = newShows;
+    selectedShow = newSelectedShow;
+    skipNextRender = false;
+    return;
+  }
+
+  // Preserve the current condensedView state
+  const wasCondensed = condensedView;
+
+  shows = newShows;
+  selectedShow = newSelectedShow;
+  renderShows();
+
+  // Restore condensedView state and update toggle UI
+  condensedView = wasCondensed;
+  console.log('WebView: condensedView restored to:', condensedView);
+
+  const toggle = byId('condensedToggle');
+  toggle.classList.toggle('active', condensedView);
+  console.log('WebView: toggle UI updated, active classes:', toggle.classList.contains('active'));
+
+  // Render measures for the initially selected show
+  const selectedShowData = getSelectedShow();
+  if (selectedShowData) {
+    renderMeasures(selectedShowData);
+  }
+}
+
+// Function to update playback options from React Native
+function updatePlaybackOptions(newOptions: ShowPlaybackOptions) {
+  console.log('Updating playback options:', newOptions);
+  playbackOptions = newOptions;
+  updatePlaybackRangeDisplay();
+}
+
+// Function to update letter dropdown options
+function updateLetterDropdown(dropdownId: string, show: PageShow, currentLetter = '') {
+  const dropdown = byId<HTMLSelectElement>(dropdownId);
+
+  // Clear existing options except "None"
+  dropdown.innerHTML = '<option value="">None</option>';
+
+  // Add available letters as options
+  const availableLetters = getAvailableLetters(show);
+  availableLetters.forEach(letter => {
+    const option = document.createElement('option');
+    option.value = letter;
+    option.textContent = letter;
+    dropdown.appendChild(option);
+  });
+
+  // Set current value if provided
+  dropdown.value = currentLetter && availableLetters.includes(currentLetter) ? currentLetter : '';
+}
+
+// Function to render shows
+function renderShows() {
+  const showScroll = byId('showScroll');
+  showScroll.querySelectorAll('.show-chip').forEach(chip => chip.remove());
+
+  shows.forEach(show => {
+    const showChip = document.createElement('div');
+    showChip.className = 'show-chip';
+    showChip.setAttribute('data-show-id', show.id);
+    if (show.id === selectedShow) {
+      showChip.classList.add('active');
+    }
+
+    showChip.innerHTML = `
+      <span>${show.name}</span>
+      <div class="icon-button-small edit-show-btn" title="Edit Show" data-show-id="${show.id}">
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+          <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 1 2-2v-7"></path>
+          <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"></path>
+        </svg>
+      </div>
+    `;
+
+    showChip.addEventListener('click', () => {
+      document.querySelectorAll('.show-chip').forEach(chip => chip.classList.remove('active'));
+      showChip.classList.add('active');
+      selectedShow = show.id;
+
+      bridge.postToApp('SELECT_SHOW', {
+        showId: show.id,
+      });
+
+      renderMeasures(show);
+      updateMeasureDisplay();
+      updatePlaybackRangeDisplay();
+    });
+
+    showScroll.appendChild(showChip);
+  });
+
+  updateMeasureDisplay();
+  updatePlaybackRangeDisplay();
+}
+
+// Function to update playback range display
+function updatePlaybackRangeDisplay() {
+  const labels = getPlaybackRangeLabels(getSelectedShow(), playbackOptions);
+  byId('playbackStart').textContent = labels.start;
+  byId('playbackEnd').textContent = labels.end;
+}
+
+// Function to render measures for a show
+function renderMeasures(show: PageShow) {
+  console.log('Rendering measures with condensedView:', condensedView);
+  const measureList = byId('measureList');
+  // Store current scroll position
+  const scrollTop = measureList.scrollTop;
+  measureList.innerHTML = '';
+
+  if (!show.measures || show.measures.length === 0) {
+    measureList.innerHTML = '<div class="empty-state">No measures in this show</div>';
+    return;
+  }
+  let toRender: ShowMeasure[];
+  if (condensedView) {
+    // Group consecutive measures with the same time signature, tempo, and letter
+    toRender = compactMeasures(show.measures);
+    console.log('Condensed groups:', toRender.length, 'from', getShowMeasureCount(show), 'measures');
+  } else {
+    // Show each measure individually (no grouping)
+    toRender = expandMeasures(show.measures);
+  }
+  // Written measure numbers, independent of repeats and jumps
+  let barNumber = 1;
+  toRender.forEach((measure, index) => {
+    const firstBar = barNumber;
+    const lastBar = barNumber + getMeasureCount(measure) - 1;
+    barNumber = lastBar + 1;
+    const measureItem = document.createElement('div');
+    measureItem.className = 'measure-item';
+    measureItem.setAttribute('data-measure-id', measure.id);
+
+    measureItem.innerHTML =
+      '<div class="measure-info">' +
+        '<span class="measure-number">m. ' + (firstBar === lastBar ? firstBar : firstBar + '-' + lastBar) + '</span>' +
+        (measure.letter ? '<span style="background: var(--accent); color: white; padding: 2px 6px; border-radius: 4px; font-weight: bold; margin-right: 8px;">' + measure.letter + '</span>' : '') +
+        (condensedView ? '<span>' + measure.count + ' mes.</span>' : '') +
+        '<span>' + formatTimeSignature(measure.timeSignature) + '</span>' +
+        '<span>' + getTempoLabel(measure) + '</span>' +
+        getMarkerLabels(measure).map(label => '<span class="marker-badge">' + label + '</span>').join('') +
+      '</div>' +
+      '<div class="measure-actions">' +
+        '<div class="icon-button-small" title="Move Up"' + (index === 0 ? ' style="opacity: 0.3;"' : '') + '>' +
+          '<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">' +
+            '<polyline points="18,15 12,9 6,15"></polyline>' +
+          '</svg>' +
+        '</div>' +
+        '<div class="icon-button-small" title="Move Down"' + (index === toRender.length - 1 ? ' style="opacity: 0.3;"' : '') + '>' +
+          '<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">' +
+            '<polyline points="6,9 12,15 18,9"></polyline>' +
+          '</svg>' +
+        '</div>' +
+        '<div class="icon-button-small edit-measure-btn" title="Edit" data-measure-id="' + measure.id + '">' +
+          '<svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">' +
+            '<path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 1 2-2v-7"></path>' +
+            '<path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"></path>' +
+          '</svg>' +
+        '</div>' +
+      '</div>';
+    measureList.appendChild(measureItem);
+  });
+  // Restore scroll position
+  measureList.scrollTop = scrollTop;
+}
+
+// Set initial toggle state based on loaded condensedView
+document.addEventListener('DOMContentLoaded', () => {
+  byId('condensedToggle').classList.toggle('active', condensedView);
+});
+
+function showModal(modalId: string) {
+  console.log('Showing modal:', modalId);
+  byId(modalId).style.display = 'flex';
+}
+
+function hideModal(modalId: string) {
+  console.log('Hiding modal:', modalId);
+  byId(modalId).style.display = 'none';
+}
+
+// Value of a form control of the page
+function readValue(id: string): string {
+  return byId<HTMLInputElement | HTMLSelectElement>(id).value;
+}
+
+function writeValue(id: string, value: string | number) {
+  byId<HTMLInputElement | HTMLSelectElement>(id).value = String(value);
+}
+
+// Row labels of the accent grid, in the order of ACCENT_LEVELS
+const ACCENT_ROW_LABELS: Record<AccentLevel, string> = { accent: 'Acc', normal: 'Norm', ghost: 'Ghost', mute: 'Mute' };
+
+// Build the accent configuration grid: one row per level, one column per beat
+function buildAccentGrid(timeSignature: TimeSignature, existingAccents: AccentPattern | undefined) {
+  const grid = byId('beatSoundGrid');
+  const numerator = timeSignature.numerator;
+
+  // Beats without a configured level use the meter's default accents
+  const levels = getBeatLevels(existingAccents, timeSignature);
+
+  // Set up grid layout: 1 column for labels + flexible columns for beats
+  // Calculate available space: 95vw - label width - modal padding - gaps
+  const viewportWidth = window.innerWidth;
+  const maxModalWidth = viewportWidth * 0.95;
+  const labelWidth = 44; // Wide enough for the level names
+  const modalPadding = 48; // Padding, margins, gaps, etc.
+  const gridGaps = (numerator - 1) * 8; // 8px gap between cells
+  const availableWidth = maxModalWidth - labelWidth - modalPadding - gridGaps;
+  const idealCellSize = availableWidth / numerator;
+  const cellSize = Math.min(48, Math.max(24, idealCellSize));
+
+  grid.style.gridTemplateColumns = `${labelWidth}px repeat(${numerator}, ${cellSize}px)`;
+
+  let html = '';
+
+  ACCENT_LEVELS.forEach((level, row) => {
+    html += '<div class="beat-sound-row" style="grid-column: 1 / -1; display: grid; gap: 8px; grid-template-columns: subgrid;">';
+    html += `<div class="beat-sound-label">${ACCENT_ROW_LABELS[level]}</div>`;
+    for (let beat = 1; beat <= numerator; beat++) {
+      const isSelected = levels[beat - 1] === level;
+      const cell = `<div class="beat-sound-cell ${isSelected ? 'selected' : ''}" data-level="${level}" data-beat="${beat - 1}"></div>`;
+      // The first row also carries the beat numbers
+      html += row === 0
+        ? `<div class="beat-sound-cell-container">
+            <div class="beat-number">${beat}</div>
+            ${cell}
+          </div>`
+        : cell;
+    }
+    html += '</div>';
+  });
+
+  grid.innerHTML = html;
+
+  // Every beat has exactly one level: selecting a cell deselects the rest of its column
+  grid.querySelectorAll('.beat-sound-cell').forEach(cell => {
+    cell.addEventListener('click', () => {
+      const beatIndex = cell.getAttribute('data-beat');
+      grid.querySelectorAll(`[data-beat="${beatIndex}"].selected`).forEach(otherCell => {
+        otherCell.classList.remove('selected');
+      });
+      cell.classList.add('selected');
+    });
+  });
+}
+
+// Collect the accent pattern from the grid
+function collectAccents(): AccentPattern {
+  const beats: AccentLevel[] = [];
+  byId('beatSoundGrid').querySelectorAll('.beat-sound-cell.selected').forEach(cell => {
+    const beat = parseInt(cell.getAttribute('data-beat') || '0', 10);
+    beats[beat] = cell.getAttribute('data-level') as AccentLevel;
+  });
+  return { beats };
+}
+
+// Send reordered measures to React Native and show them at once
+function updateMeasureOrder(show: PageShow, measures: ShowMeasure[]) {
+  const updatedMeasures = compactMeasures(measures);
+
+  bridge.postToApp('UPDATE_SHOW_MEASURES', {
+    showId: show.id,
+    measures: updatedMeasures,
+  });
+
+  // Update measures locally without triggering full re-render
+  const localShow = shows.find(candidate => candidate.id === show.id);
+  if (localShow) {
+    localShow.measures = updatedMeasures;
+    // Re-render only the measures for the current show
+    const selectedShowData = getSelectedShow();
+    if (selectedShowData) {
+      renderMeasures(selectedShowData);
+    }
+  }
+}
+
+// Open the edit modal for the measure (group) of the edit button
+function openMeasureEditor(measureId: string) {
+  const show = getSelectedShow();
+  if (!show) return;
+  const bars = expandMeasures(show.measures);
+  const measure = bars.find(bar => bar.id === measureId);
+  if (!measure) return;
+
+  // Store the measure being edited
+  editingMeasureId = measureId;
+  editingMarkers = null;
+  // Calculate the correct number of measures
+  let measureCount = 1;
+  let lastBar = measure;
+  if (condensedView) {
+    // In condensed view, count the bars of the whole group
+    const group = getGroupRange(bars, bars.findIndex(bar => bar.id === measureId));
+    measureCount = group.end - group.start + 1;
+    lastBar = bars[group.end];
+  }
+  writeValue('editNumMeasuresInput', measureCount);
+  writeValue('editTempoInput', Math.round(measure.tempo));
+  writeValue('editTempoCurveInput', measure.tempoChange ? measure.tempoChange.curve : '');
+  writeValue('editEndTempoInput', Math.round(lastBar.tempoChange ? lastBar.tempoChange.endTempo : lastBar.tempo));
+  updateEndTempoVisibility();
+  writeValue('editNumeratorInput', measure.timeSignature.numerator);
+  writeValue('editDenominatorInput', measure.timeSignature.denominator);
+  writeValue('editGroupingInput', measure.timeSignature.grouping ? measure.timeSignature.grouping.join('+') : '');
+  writeValue('editSubdivisionInput', measure.subdivision || 1);
+  writeValue('editSwingInput', normalizeSwing(measure.swing));
+  updateSwingVisibility();
+  writeValue('editLetterInput', measure.letter || '');
+
+  // Update letter dropdown with available letters (excluding current letter)
+  updateLetterDropdown('editLetterInput', show, measure.letter || '');
+
+  showModal('editMeasuresModal');
+}
+
+// Move the measure (group) of a list item one place up or down
+function moveMeasure(measureId: string, direction: 'up' | 'down') {
+  const show = getSelectedShow();
+  if (!show) return;
+  const bars = expandMeasures(show.measures);
+  const measureIndex = bars.findIndex(bar => bar.id === measureId);
+
+  if (direction === 'up') {
+    if (measureIndex <= 0) return;
+    if (condensedView) {
+      // Move the current group above the previous group
+      const groupEnd = getGroupRange(bars, measureIndex).end;
+      const prevGroupStart = getGroupRange(bars, measureIndex - 1).start;
+      updateMeasureOrder(show, [
+        ...bars.slice(0, prevGroupStart),
+        ...bars.slice(measureIndex, groupEnd + 1),
+        ...bars.slice(prevGroupStart, measureIndex),
+        ...bars.slice(groupEnd + 1),
+      ]);
+    } else {
+      // In uncondensed mode, just swap the current measure with the previous one
+      const updatedMeasures = [...bars];
+      updatedMeasures[measureIndex] = bars[measureIndex - 1];
+      updatedMeasures[measureIndex - 1] = bars[measureIndex];
+      updateMeasureOrder(show, updatedMeasures);
+    }
+    return;
+  }
+
+  if (measureIndex >= bars.length - 1) return;
+  if (condensedView) {
+    // Move the current group below the next group
+    const groupEnd = getGroupRange(bars, measureIndex).end;
+    const nextGroupEnd = groupEnd + 1 < bars.length ? getGroupRange(bars, groupEnd + 1).end : groupEnd;
+    updateMeasureOrder(show, [
+      ...bars.slice(0, measureIndex),
+      ...bars.slice(groupEnd + 1, nextGroupEnd + 1),
+      ...bars.slice(measureIndex, groupEnd + 1),
+      ...bars.slice(nextGroupEnd + 1),
+    ]);
+  } else {
+    // In uncondensed mode, just swap the current measure with the next one
+    const updatedMeasures = [...bars];
+    updatedMeasures[measureIndex] = bars[measureIndex + 1];
+    updatedMeasures[measureIndex + 1] = bars[measureIndex];
+    updateMeasureOrder(show, updatedMeasures);
+  }
+}
+
+// Event listeners
+byId('addMeasureBtn').addEventListener('click', () => {
+  // Get current show and update letter dropdown
+  const show = getSelectedShow();
+  if (show) {
+    updateLetterDropdown('letterInput', show);
+  }
+  showModal('addMeasureModal');
+});
+
+byId('playbackRangeContainer').addEventListener('click', () => {
+  bridge.postToApp('OPEN_PLAYBACK_OPTIONS', {});
+});
+
+byId('addShowBtn').addEventListener('click', () => {
+  bridge.postToApp('ADD_SHOW', {});
+});
+
+// Edit show, edit measure and move buttons are rendered with the lists
+document.addEventListener('click', event => {
+  const editShowButton = closestTo(event.target, '.edit-show-btn');
+  if (editShowButton) {
+    console.log('Edit button clicked!');
+    event.preventDefault();
+    event.stopPropagation();
+    const showId = editShowButton.getAttribute('data-show-id');
+    const show = shows.find(candidate => candidate.id === showId);
+    console.log('Found show:', show);
+    if (show) {
+      // Store the show ID being edited (not necessarily the selected show)
+      editingShowId = show.id;
+      writeValue('showNameInput', show.name);
+      showModal('editShowModal');
+    }
+  }
+
+  const editMeasureButton = closestTo(event.target, '.edit-measure-btn');
+  if (editMeasureButton) {
+    console.log('Edit measure button clicked!');
+    event.preventDefault();
+    event.stopPropagation();
+    openMeasureEditor(editMeasureButton.getAttribute('data-measure-id') || '');
+  }
+
+  const moveButton = closestTo(event.target, '[title="Move Up"], [title="Move Down"]');
+  const measureItem = closestTo(event.target, '.measure-item');
+  if (moveButton && measureItem) {
+    event.preventDefault();
+    event.stopPropagation();
+    const direction = moveButton.getAttribute('title') === 'Move Up' ? 'up' : 'down';
+    const measureId = measureItem.getAttribute('data-measure-id') || '';
+    console.log('Move', direction, 'clicked for measure:', measureId);
+    moveMeasure(measureId, direction);
+  }
+});
+
+// The show modal exists twice in the markup; both copies rename the show
+function saveShowName() {
+  const newName = readValue('showNameInput').trim();
+  console.log('Editing show ID:', editingShowId);
+  if (newName && editingShowId) {
+    console.log('Sending RENAME_SHOW message to React Native');
+    bridge.postToApp('RENAME_SHOW', {
+      showId: editingShowId,
+      newName,
+    });
+  }
+  hideModal('editShowModal');
+}
+
+byId('cancelEditShowBtn').addEventListener('click', () => {
+  hideModal('editShowModal');
+});
+byId('saveEditShowBtn').addEventListener('click', saveShowName);
+byId('editShowCancelBtn').addEventListener('click', () => {
+  hideModal('editShowModal');
+});
+byId('editShowSaveBtn').addEventListener('click', saveShowName);
+
+const importButton = byId('importShowBtn');
+importButton.addEventListener('click', () => {
+  // Add visual feedback
+  importButton.style.backgroundColor = 'var(--accent)';
+  setTimeout(() => {
+    importButton.style.backgroundColor = '';
+  }, 200);
+  // React Native opens the file picker
+  bridge.postToApp('IMPORT_SHOW', {});
+});
+
+byId('addMeasureCancelBtn').addEventListener('click', () => {
+  hideModal('addMeasureModal');
+});
+
+byId('addMeasureSaveBtn').addEventListener('click', () => {
+  const numMeasures = parseInt(readValue('numMeasuresInput'), 10);
+  const tempo = parseInt(readValue('tempoInput'), 10);
+  const numerator = parseInt(readValue('numeratorInput'), 10);
+  const denominator = parseInt(readValue('denominatorInput'), 10);
+  const grouping = parseGrouping(readValue('groupingInput'), numerator);
+  const letter = readValue('letterInput');
+
+  if (
+    isNaN(numMeasures) || numMeasures < 1 || numMeasures > 500 ||
+    isNaN(tempo) || tempo < 40 || tempo > 300 ||
+    isNaN(numerator) || numerator < 1 || numerator > 32 ||
+    isNaN(denominator) || ![2, 4, 8, 16].includes(denominator) ||
+    grouping === null
+  ) {
+    return;
+  }
+  const show = getSelectedShow();
+  if (!show) {
+    return;
+  }
+  // Store the new measures compactly as a single entry
+  const newMeasures = compactMeasures([...show.measures, {
+    id: createId(),
+    timeSignature: { numerator, denominator, grouping },
+    tempo,
+    count: numMeasures,
+    letter: letter || undefined,
+  }]);
+  bridge.postToApp('UPDATE_SHOW_MEASURES', {
+    showId: show.id,
+    measures: newMeasures,
+  });
+  hideModal('addMeasureModal');
+});
+
+// The show edited in the show modal, else the selected show
+function getEditedShow(): PageShow | undefined {
+  const showId = editingShowId || selectedShow;
+  return shows.find(show => show.id === showId);
+}
+
+byId('exportShowBtn').addEventListener('click', () => {
+  const show = getEditedShow();
+  if (show) {
+    bridge.postToApp('EXPORT_SHOW', {
+      showId: show.id,
+    });
+  }
+});
+
+byId('exportWavBtn').addEventListener('click', () => {
+  const show = getEditedShow();
+  if (show) {
+    bridge.postToApp('EXPORT_SHOW_WAV', {
+      showId: show.id,
+    });
+  }
+});
+
+byId('exportMidiBtn').addEventListener('click', () => {
+  const show = getEditedShow();
+  if (show) {
+    bridge.postToApp('EXPORT_SHOW_MIDI', {
+      showId: show.id,
+    });
+  }
+});
+
+byId('deleteShowBtn').addEventListener('click', () => {
+  console.log('Delete show button clicked!');
+  if (editingShowId) {
+    console.log('Sending DELETE_SHOW message to React Native');
+    bridge.postToApp('DELETE_SHOW', {
+      showId: editingShowId,
+    });
+  }
+  hideModal('editShowModal');
+  // Clear the measure manager
+  byId('measureList').innerHTML = '<div class="empty-state">No measures in this show</div>';
+});
+
+byId('importConflictCancelBtn').addEventListener('click', () => {
+  hideModal('importConflictModal');
+});
+
+byId('importAsCopyBtn').addEventListener('click', () => {
+  hideModal('importConflictModal');
+});
+
+byId('replaceShowBtn').addEventListener('click', () => {
+  hideModal('importConflictModal');
+});
+
+byId('editMeasuresCancelBtn').addEventListener('click', () => {
+  hideModal('editMeasuresModal');
+});
+
+// The end tempo only applies to accel./rit. measures
+function updateEndTempoVisibility() {
+  const hasTempoCurve = readValue('editTempoCurveInput') !== '';
+  byId('editEndTempoGroup').style.display = hasTempoCurve ? 'block' : 'none';
+}
+
+byId('editTempoCurveInput').addEventListener('change', updateEndTempoVisibility);
+
+// Swing only applies to eighth and sixteenth subdivisions
+function updateSwingVisibility() {
+  const subdivision = parseInt(readValue('editSubdivisionInput'), 10);
+  byId('editSwingGroup').style.display = canSwing(subdivision) ? 'block' : 'none';
+}
+
+byId('editSubdivisionInput').addEventListener('change', updateSwingVisibility);
+
+// Swing input range, straight until a measure is edited
+byId('editSwingLabel').textContent = `Swing % (${STRAIGHT_SWING} straight, 66 triplet, ${MAX_SWING} shuffle)`;
+writeValue('editSwingInput', STRAIGHT_SWING);
+
+// Tempo from an input, keeping the exact tempo of a split ramp when the
+// rounded value shown was left unchanged
+function readTempoInput(inputId: string, originalTempo: number): number {
+  const tempo = parseInt(readValue(inputId), 10);
+  return tempo === Math.round(originalTempo) ? originalTempo : tempo;
+}
+
+byId('editMeasuresSaveBtn').addEventListener('click', () => {
+  const numMeasures = parseInt(readValue('editNumMeasuresInput'), 10);
+  const tempo = parseInt(readValue('editTempoInput'), 10);
+  const tempoCurve = readValue('editTempoCurveInput') as TempoCurveShape | '';
+  const endTempo = parseInt(readValue('editEndTempoInput'), 10);
+  const numerator = parseInt(readValue('editNumeratorInput'), 10);
+  const denominator = parseInt(readValue('editDenominatorInput'), 10);
+  const grouping = parseGrouping(readValue('editGroupingInput'), numerator);
+  const letter = readValue('editLetterInput');
+  const subdivision = parseInt(readValue('editSubdivisionInput'), 10);
+  const swingInput = parseInt(readValue('editSwingInput'), 10);
+
+  if (
+    isNaN(numMeasures) || numMeasures < 1 || numMeasures > 500 ||
+    isNaN(tempo) || tempo < 40 || tempo > 300 ||
+    (tempoCurve && (isNaN(endTempo) || endTempo < 40 || endTempo > 300)) ||
+    isNaN(numerator) || numerator < 1 || numerator > 32 ||
+    isNaN(denominator) || ![2, 4, 8, 16].includes(denominator) ||
+    grouping === null ||
+    (canSwing(subdivision) && (isNaN(swingInput) || swingInput !== normalizeSwing(swingInput)))
+  ) {
+    return;
+  }
+
+  const show = getSelectedShow();
+  if (!show || !editingMeasureId) {
+    return;
+  }
+  const bars = expandMeasures(show.measures);
+
+  const updatedMeasures = [...bars];
+  const measureIndex = bars.findIndex(bar => bar.id === editingMeasureId);
+  const originalMeasure = bars[measureIndex];
+  const groupEnd = condensedView ? getGroupRange(bars, measureIndex).end : measureIndex;
+  const lastBar = bars[groupEnd];
+  const originalEnd = lastBar.tempoChange ? lastBar.tempoChange.endTempo : lastBar.tempo;
+
+  // An accel./rit. ramps from the start tempo to the end tempo across
+  // all edited bars; a ramp to the same tempo is a steady tempo
+  const startTempo = readTempoInput('editTempoInput', originalMeasure.tempo);
+  const rampEndTempo = readTempoInput('editEndTempoInput', originalEnd);
+  const tempoChange = tempoCurve && rampEndTempo !== startTempo
+    ? { endTempo: rampEndTempo, curve: tempoCurve }
+    : undefined;
+  // Straight subdivisions and unsubdivided measures store nothing
+  const swing = canSwing(subdivision) && swingInput !== STRAIGHT_SWING ? swingInput : undefined;
+
+  const editedMeasure: ShowMeasure = {
+    ...originalMeasure,
+    timeSignature: { numerator, denominator, grouping },
+    tempo: startTempo,
+    tempoChange,
+    letter: letter || undefined,
+    accents: editingAccents || getMeasureAccents(originalMeasure),
+    beatSounds: undefined,
+    subdivision: subdivision > 1 ? subdivision : undefined,
+    swing,
+  };
+  if (condensedView) {
+    // In condensed view the whole group is replaced by numMeasures bars,
+    // keeping the end markers of its last bar
+    copyEndMarkers(editedMeasure, lastBar);
+    editedMeasure.count = numMeasures;
+    updatedMeasures.splice(measureIndex, groupEnd - measureIndex + 1, editingMarkers ? applyMarkers(editedMeasure, editingMarkers) : editedMeasure);
+  } else {
+    // In detailed view, update only the single measure
+    updatedMeasures[measureIndex] = editingMarkers ? applyMarkers(editedMeasure, editingMarkers) : editedMeasure;
+  }
+
+  // The app echoes the edit back; the list already shows it
+  skipNextRender = true;
+
+  bridge.postToApp('UPDATE_SHOW_MEASURES', {
+    showId: show.id,
+    measures: compactMeasures(updatedMeasures),
+  });
+
+  // Clean up accent and marker configuration
+  editingAccents = null;
+  editingMarkers = null;
+
+  hideModal('editMeasuresModal');
+});
+
+byId('deleteMeasuresBtn').addEventListener('click', () => {
+  const show = getSelectedShow();
+  if (!show || !editingMeasureId) {
+    return;
+  }
+  const bars = expandMeasures(show.measures);
+
+  const measureIndex = bars.findIndex(bar => bar.id === editingMeasureId);
+  if (measureIndex === -1) {
+    return;
+  }
+
+  // In condensed view, delete the whole group
+  console.log('Deleting measure in condensedView:', condensedView);
+  const range = condensedView ? getGroupRange(bars, measureIndex) : { start: measureIndex, end: measureIndex };
+  const updatedMeasures = compactMeasures([
+    ...bars.slice(0, range.start),
+    ...bars.slice(range.end + 1),
+  ]);
+
+  // Update the local show object so that the UI can be refreshed immediately
+  show.measures = updatedMeasures;
+  renderMeasures(show);
+
+  // The app echoes the edit back; the list already shows it
+  skipNextRender = true;
+
+  bridge.postToApp('UPDATE_SHOW_MEASURES', {
+    showId: show.id,
+    measures: updatedMeasures,
+  });
+
+  hideModal('editMeasuresModal');
+});
+
+// Beat sound configuration event listeners
+byId('beatSoundConfigBtn').addEventListener('click', () => {
+  const numerator = parseInt(readValue('editNumeratorInput'), 10);
+  if (isNaN(numerator) || numerator < 1 || numerator > 32) {
+    return;
+  }
+
+  const denominator = parseInt(readValue('editDenominatorInput'), 10);
+  const grouping = parseGrouping(readValue('editGroupingInput'), numerator);
+  const timeSignature = { numerator, denominator, grouping: grouping || undefined };
+
+  // Start from accents chosen earlier in this edit, else the measure's own
+  const show = getSelectedShow();
+  const measure = show ? expandMeasures(show.measures).find(bar => bar.id === editingMeasureId) : undefined;
+  const existingAccents = editingAccents || (measure ? getMeasureAccents(measure) : undefined);
+
+  buildAccentGrid(timeSignature, existingAccents);
+  showModal('beatSoundModal');
+});
+
+byId('beatSoundCancelBtn').addEventListener('click', () => {
+  hideModal('beatSoundModal');
+});
+
+byId('beatSoundSaveBtn').addEventListener('click', () => {
+  // Stored for when the measure is saved
+  editingAccents = collectAccents();
+  hideModal('beatSoundModal');
+});
+
+const MARKER_TOGGLE_IDS: Record<'repeatStart' | 'segno' | 'coda' | 'toCoda' | 'fine', string> = {
+  repeatStart: 'markerRepeatStart',
+  segno: 'markerSegno',
+  coda: 'markerCoda',
+  toCoda: 'markerToCoda',
+  fine: 'markerFine',
+};
+
+// Current markers of the measure (group) being edited
+function getEditedMeasureMarkers(show: PageShow): MeasureMarkers | null {
+  const bars = expandMeasures(show.measures);
+  const measureIndex = bars.findIndex(bar => bar.id === editingMeasureId);
+  if (measureIndex === -1) return null;
+  const groupEnd = condensedView ? getGroupRange(bars, measureIndex).end : measureIndex;
+  return copyEndMarkers({ ...bars[measureIndex] }, bars[groupEnd]);
+}
+
+// Structural marker configuration event listeners
+byId('markersConfigBtn').addEventListener('click', () => {
+  const show = getSelectedShow();
+  if (!show || !editingMeasureId) return;
+
+  // Load markers being edited, or the current ones of the measure (group)
+  const markers = editingMarkers || getEditedMeasureMarkers(show);
+  if (!markers) return;
+
+  Object.entries(MARKER_TOGGLE_IDS).forEach(([key, id]) => {
+    byId(id).classList.toggle('active', !!markers[key as keyof typeof MARKER_TOGGLE_IDS]);
+  });
+  writeValue('markerRepeatEnd', String(markers.repeatEnd || 0));
+  writeValue('markerEnding', (markers.ending || []).join(','));
+  writeValue('markerJump', markers.jump || '');
+  writeValue('markerPauseType', markers.pause ? markers.pause.type : '');
+  writeValue('markerPauseLength', markers.pause && markers.pause.length ? markers.pause.length : 2);
+  updatePauseLengthVisibility();
+  showModal('markersModal');
+});
+
+// Holds last until tapped, so only timed pauses have a length
+function updatePauseLengthVisibility() {
+  const pauseType = readValue('markerPauseType');
+  byId('markerPauseLengthGroup').style.display = pauseType && pauseType !== 'hold' ? 'block' : 'none';
+}
+
+byId('markerPauseType').addEventListener('change', updatePauseLengthVisibility);
+
+Object.values(MARKER_TOGGLE_IDS).forEach(id => {
+  const toggle = byId(id);
+  toggle.addEventListener('click', () => {
+    toggle.classList.toggle('active');
+  });
+});
+
+byId('markersCancelBtn').addEventListener('click', () => {
+  hideModal('markersModal');
+});
+
+byId('markersSaveBtn').addEventListener('click', () => {
+  // Endings are a list of positive pass numbers, e.g. "1,2"
+  const ending = readValue('markerEnding')
+    .split(',')
+    .map(value => parseInt(value.trim(), 10))
+    .filter(value => !isNaN(value) && value > 0);
+
+  // A timed pause needs a positive length
+  const pauseType = readValue('markerPauseType') as PauseType | '';
+  const pauseLength = parseFloat(readValue('markerPauseLength'));
+  let pause: MeasurePause | undefined;
+  if (pauseType === 'hold') {
+    pause = { type: 'hold' };
+  } else if (pauseType && !isNaN(pauseLength) && pauseLength > 0) {
+    pause = { type: pauseType, length: pauseLength };
+  }
+
+  const isActive = (id: string) => byId(id).classList.contains('active');
+
+  // Stored for when the measure is saved
+  editingMarkers = {
+    repeatStart: isActive(MARKER_TOGGLE_IDS.repeatStart),
+    repeatEnd: parseInt(readValue('markerRepeatEnd'), 10) || undefined,
+    ending,
+    segno: isActive(MARKER_TOGGLE_IDS.segno),
+    coda: isActive(MARKER_TOGGLE_IDS.coda),
+    toCoda: isActive(MARKER_TOGGLE_IDS.toCoda),
+    fine: isActive(MARKER_TOGGLE_IDS.fine),
+    jump: (readValue('markerJump') || undefined) as JumpType | undefined,
+    pause,
+  };
+
+  hideModal('markersModal');
+});
+
+// Condensed toggle
+const condensedToggle = byId('condensedToggle');
+condensedToggle.addEventListener('click', () => {
+  condensedToggle.classList.toggle('active');
+  condensedView = condensedToggle.classList.contains('active');
+
+  // Save condensedView state to localStorage
+  try {
+    localStorage.setItem('condensedView', JSON.stringify(condensedView));
+  } catch (e) {
+    console.log('Could not save condensedView to localStorage:', e);
+  }
+
+  console.log('Condensed view toggled to:', condensedView);
+
+  // Re-render measures in the new mode
+  const show = getSelectedShow();
+  if (show) {
+    renderMeasures(show);
+  }
+});
+
+let beatsPerMeasure = 4; // Configurable beats per measure
+
+function updateBeatsPerMeasure(newBeatsPerMeasure: number) {
+  beatsPerMeasure = newBeatsPerMeasure;
+  console.log('Updated beats per measure to:', beatsPerMeasure);
+}
+
+// One tempo bar segment per beat; groups of a grouped meter are set apart
+function updateTempoBar(numerator: number, timeSignature?: TimeSignature | null) {
+  const tempoBar = byId('tempoBar');
+  tempoBar.innerHTML = '';
+
+  const groupStarts = timeSignature && getGrouping(timeSignature) ? getGroupStarts(timeSignature) : [];
+  for (let i = 0; i < numerator; i++) {
+    const segment = document.createElement('div');
+    segment.className = i > 0 && groupStarts.includes(i) ? 'tempo-segment group-start' : 'tempo-segment';
+    segment.setAttribute('data-beat', String(i));
+    tempoBar.appendChild(segment);
+  }
+}
+
+function updateMeasureNumber(measureNumber: number | '-' | 'COUNT-OFF', totalMeasures = 0) {
+  const measureNumberElement = byId('measureNumber');
+  const measureTotalElement = byId('measureTotal');
+
+  if (measureNumber === 'COUNT-OFF') {
+    measureNumberElement.textContent = 'COUNT';
+    measureTotalElement.textContent = 'OFF';
+    measureTotalElement.classList.add('count-off');
+  } else {
+    measureNumberElement.textContent = String(measureNumber || '-');
+    measureTotalElement.textContent = totalMeasures > 0 ? 'of ' + totalMeasures : '';
+    measureTotalElement.classList.remove('count-off');
+  }
+}
+
+function updateMeasureDisplay() {
+  updateMeasureNumber('-', getShowMeasureCount(getSelectedShow()));
+}
+
+// Highlight the current beat; muted beats are shown as silent
+function highlightBeat(beatIndex: number, isSilent = false) {
+  document.querySelectorAll('.tempo-segment').forEach(segment => {
+    segment.classList.remove('active', 'silent-beat');
+  });
+
+  const currentSegment = document.querySelector('[data-beat="' + beatIndex + '"]');
+  if (currentSegment) {
+    currentSegment.classList.add(isSilent ? 'silent-beat' : 'active');
+  }
+}
+
+// Show playback runs on the SoundSystem: the page asks for starts, stops
+// and resumes, and WebViewShow passes the beats and measures heard back
+let isPlaying = false;
+let isHolding = false;
+let pauseDisplayTimer: ReturnType<typeof setInterval> | null = null;
+
+byId('playButton').addEventListener('click', () => {
+  if (isPlaying) {
+    bridge.postToApp('STOP_SHOW', {});
+    stopPlaybackDisplay();
+    return;
+  }
+
+  const show = getSelectedShow();
+  if (!show || !show.measures || show.measures.length === 0) {
+    console.log('No show or measures found');
+    return;
+  }
+
+  isPlaying = true;
+  byId('playButton').classList.add('playing');
+  byId('iconContainer').classList.add('playing');
+
+  // Start count-off followed by the show
+  bridge.postToApp('START_SHOW', {
+    showId: show.id,
+    range: getShowStartOptions(playbackOptions),
+  });
+});
+
+// A beat heard on the SoundSystem; count-in beats show in orange
+function showBeat(beat: ShowBeatPayload) {
+  if (!isPlaying) return;
+
+  if (beat.isCountIn) {
+    if (beat.beatIndex === 0) {
+      // Set up orange tempo bar for each bar of the count-in
+      updateTempoBarForCountOff(beat.beatsInMeasure);
+    }
+    highlightBeatForCountOff(beat.beatIndex);
+    return;
+  }
+
+  if (beat.beatIndex === 0) {
+    stopPauseDisplay();
+    isHolding = false;
+    beatsPerMeasure = beat.beatsInMeasure;
+    updateTempoBar(beatsPerMeasure, beat.timeSignature);
+    updateMeasureNumber(beat.measureNumber, getShowMeasureCount(getSelectedShow()));
+  }
+
+  highlightBeat(beat.beatIndex, beat.isSilent);
+}
+
+// A measure completed; a pause after it counts down in the tempo bar
+function showMeasureCompleted(measure: ShowMeasureCompletedPayload) {
+  if (!isPlaying || !measure.pause) return;
+  startPauseDisplay(measure.pause, measure.tempo);
+}
+
+// Tempo bar countdown while a pause runs; holds wait for a tap
+function startPauseDisplay(pause: ShowPausePayload, tempo: number) {
+  stopPauseDisplay();
+  const tempoBar = byId('tempoBar');
+  tempoBar.innerHTML = '<div class="tempo-countdown" id="pauseCountdown"></div>';
+  const countdown = byId('pauseCountdown');
+
+  const pauseDuration = pause.duration;
+  if (pauseDuration === null) {
+    isHolding = true;
+    countdown.textContent = 'HOLD - TAP TO CONTINUE';
+    return;
+  }
+
+  const endTime = Date.now() + pauseDuration * 1000;
+  const updateCountdown = () => {
+    const remaining = Math.max(0, endTime - Date.now()) / 1000;
+    if (pause.type === 'beats') {
+      countdown.textContent = String(Math.ceil(remaining * tempo / 60 - 0.001));
+    } else {
+      countdown.textContent = remaining.toFixed(1) + 's';
+    }
+  };
+  updateCountdown();
+  pauseDisplayTimer = setInterval(updateCountdown, 100);
+}
+
+function stopPauseDisplay() {
+  if (pauseDisplayTimer) {
+    clearInterval(pauseDisplayTimer);
+    pauseDisplayTimer = null;
+  }
+}
+
+// Tap the tempo bar to continue after a hold
+byId('tempoBar').addEventListener('click', () => {
+  if (!isPlaying || !isHolding) return;
+  isHolding = false;
+  stopPauseDisplay();
+  bridge.postToApp('RESUME_SHOW', {});
+});
+
+// One orange segment per count-in beat in the bar
+function updateTempoBarForCountOff(numerator: number) {
+  const tempoBar = byId('tempoBar');
+  updateMeasureNumber('COUNT-OFF', 0);
+  tempoBar.innerHTML = '';
+
+  for (let i = 0; i < numerator; i++) {
+    const segment = document.createElement('div');
+    segment.className = 'tempo-segment count-off-segment';
+    segment.setAttribute('data-beat', String(i));
+    tempoBar.appendChild(segment);
+  }
+}
+
+function highlightBeatForCountOff(beatIndex: number) {
+  document.querySelectorAll('.tempo-segment').forEach(segment => {
+    segment.classList.remove('active', 'silent-beat');
+  });
+
+  const currentSegment = document.querySelector('[data-beat="' + beatIndex + '"]');
+  if (currentSegment) {
+    currentSegment.classList.add('active');
+  }
+}
+
+// Playback stopped, ended or failed to start
+function stopPlaybackDisplay() {
+  isPlaying = false;
+  isHolding = false;
+  stopPauseDisplay();
+
+  // Set default 4/4 tempo bar state and reset measure number
+  updateTempoBar(4);
+  updateMeasureDisplay();
+
+  // Reset button state to play
+  byId('playButton').classList.remove('playing');
+  byId('iconContainer').classList.remove('playing');
+}
+
+// Initialize
+renderShows();
+
+// Initialize tempo bar with default 4/4 state and measure number
+updateTempoBar(4);
+updateMeasureDisplay();
+
+byId('settingsButton').addEventListener('click', () => {
+  bridge.postToApp('OPEN_SETTINGS', {});
+});
+
+byId('measureButton').addEventListener('click', () => {
+  console.log('Measure button clicked!');
+  bridge.postToApp('OPEN_PLAYBACK_OPTIONS', {});
+});
+
+// Expose functions to React Native
+pageWindow.updateShowsData = updateShowsData;
+pageWindow.updatePlaybackOptions = updatePlaybackOptions;
+pageWindow.updateBeatsPerMeasure = updateBeatsPerMeasure;
+pageWindow.showBeat = showBeat;
+pageWindow.showMeasureCompleted = showMeasureCompleted;
+pageWindow.showStopped = stopPlaybackDisplay;
+bridge.announceReady();
+
+console.log('WebView Show UI initialized');
@@ -0,0 +1,74 @@
+/**
+ * Playback Range
+ * Where show playback starts and stops, as chosen in the playback options
+ * the app keeps, turned into the start options of the SoundSystem. A
+ * letter points at the first bar carrying it.
+ */
+
+import { ShowStartPayload } from '../../types/MessageProtocol';
+import { getUsedLetters, PageShow } from './measureEditing';
+
+export type PlaybackPositionType = 'beginning' | 'measure' | 'letter';
+
+// Playback options as the app stores them, measures as typed text. An end
+// of 'beginning' plays to the end of the show.
+export interface ShowPlaybackOptions {
+  startType: PlaybackPositionType;
+  startMeasure: string;
+  startLetter: string;
+  endType: PlaybackPositionType;
+  endMeasure: string;
+  endLetter: string;
+}
+
+export const DEFAULT_PLAYBACK_OPTIONS: ShowPlaybackOptions = {
+  startType: 'beginning',
+  startMeasure: '1',
+  startLetter: '',
+  endType: 'beginning',
+  endMeasure: '1',
+  endLetter: '',
+};
+
+// Start and end for the SoundSystem's START_SHOW; measures and letters
+// missing from the show fall back to the beginning and end there
+export function getShowStartOptions(options: ShowPlaybackOptions): ShowStartPayload {
+  const range: ShowStartPayload = { startType: 'beginning', endType: 'end' };
+  if (options.startType === 'measure') {
+    range.startType = 'specific';
+    range.startMeasure = parseInt(options.startMeasure, 10) || 1;
+  } else if (options.startType === 'letter' && options.startLetter) {
+    range.startType = 'specific';
+    range.startLetter = options.startLetter;
+  }
+  if (options.endType === 'measure') {
+    range.endType = 'specific';
+    range.endMeasure = parseInt(options.endMeasure, 10) || 1;
+  } else if (options.endType === 'letter' && options.endLetter) {
+    range.endType = 'specific';
+    range.endLetter = options.endLetter;
+  }
+  return range;
+}
+
+// Start and end as shown under the play button; letters missing from the
+// show fall back to the beginning and end
+export function getPlaybackRangeLabels(show: PageShow | undefined, options: ShowPlaybackOptions): { start: string; end: string } {
+  const letters = getUsedLetters(show);
+
+  let start = 'Beginning';
+  if (options.startType === 'measure') {
+    start = `Measure ${options.startMeasure}`;
+  } else if (options.startType === 'letter' && options.startLetter && letters.includes(options.startLetter)) {
+    start = `Letter ${options.startLetter}`;
+  }
+
+  let end = 'End';
+  if (options.endType === 'measure') {
+    end = `Measure ${options.endMeasure}`;
+  } else if (options.endType === 'letter' && options.endLetter && letters.includes(options.endLetter)) {
+    end = `Letter ${options.endLetter}`;
+  }
+
+  return { start, end };
+}
@@ -0,0 +1,254 @@
+/**
+ * Metronome Click Stream
+ * The clicks the SoundSystem page schedules for the metronome, one after
+ * another on the audio clock: the count-in, then the main beat with its
+ * subdivisions and, running alongside, the pulses of each polyrhythm or
+ * polymeter layer. Every click carries the upcoming click of each other
+ * stream in 'pending', and the earliest of them plays next.
+ */
+
+import { AccentLevel, AccentPattern, getAccentLevel } from '../../utils/accentPattern';
+import { CountInPlan } from '../../utils/countIn';
+import { GapTrainerSettings, isRandomlyMuted, isSilentBar } from '../../utils/gapTrainer';
+import { getBeatScale, getGrouping, isGroupStart, TimeSignature } from '../../utils/meterGrouping';
+import { getLayerPulseDuration, getLayerPulseLevel, LayerMode, RhythmLayer } from '../../utils/rhythmLayers';
+import { getSubdivisionOffset } from '../../utils/swing';
+
+interface ClickBase {
+  time: number; // AudioContext time
+  pending?: Click[]; // upcoming clicks of the other streams
+}
+
+export interface CountInClick extends ClickBase {
+  type: 'countIn';
+  countInIndex: number;
+  count: number;
+  isDownbeat: boolean;
+}
+
+export interface BeatClick extends ClickBase {
+  type: 'beat';
+  beatNumber: number; // counts up from 0 since the start
+  barNumber: number; // bars started since the start, 0 for the first
+  subdivisionIndex: number; // 0 is the beat itself
+  subdivision: number;
+  isDownbeat: boolean;
+  level: AccentLevel;
+  silentBar: boolean; // gap trainer: the whole bar drops out
+  beatMuted: boolean; // gap trainer: the beat and its subdivisions drop out
+}
+
+export interface LayerPulse extends ClickBase {
+  type: 'layer';
+  layerId: string;
+  mode: LayerMode;
+  pulses: number;
+  pulseIndex: number;
+  barTime: number; // time of the main downbeat a polyrhythm started on
+  pulseDuration: number;
+  level: AccentLevel;
+}
+
+export type Click = CountInClick | BeatClick | LayerPulse;
+
+// Everything the stream reads; the SoundSystem page changes it as settings arrive
+export interface ClickStreamState {
+  tempo: number;
+  subdivision: number; // 1 = no subdivision, 2 = eighth notes, 3 = triplets...
+  pendingSubdivision: number | null; // applied on the next beat
+  swing: number;
+  meter: TimeSignature;
+  accentPattern: AccentPattern | null; // null for the meter's defaults
+  layers: RhythmLayer[];
+  gapTrainer: GapTrainerSettings;
+  countInClicks: CountInClick[]; // of the current start
+  firstBeatClick: BeatClick | null; // first click after the count-in
+}
+
+// Beat length in tempo units: the tempo counts every beat, or the shortest
+// group when the meter is grouped (3+3/8: dotted quarter)
+export function getMeterScale(meter: TimeSignature): number {
+  return getGrouping(meter) ? getBeatScale(meter) : 1;
+}
+
+// Duration of one beat in seconds
+export function getBeatDuration(state: ClickStreamState): number {
+  return (60 / state.tempo) * getMeterScale(state.meter);
+}
+
+// Accent level of a click; beats are accented on every beat, or on group
+// starts in a grouped meter, unless the pattern says otherwise
+export function getClickLevel(state: Pick<ClickStreamState, 'meter' | 'accentPattern'>, beatNumber: number, subdivisionIndex: number): AccentLevel {
+  const beatInBar = beatNumber % state.meter.numerator;
+  const isAccented = !getGrouping(state.meter) || isGroupStart(state.meter, beatInBar);
+  return getAccentLevel(state.accentPattern, beatInBar, subdivisionIndex, isAccented ? 'accent' : 'normal');
+}
+
+/**
+ * First click of a start at 'startTime': the count-in of 'plan', then the
+ * first beat with the layers coming in alongside it. A subdivision chosen
+ * while stopped applies from the first beat.
+ */
+export function startClickStream(state: ClickStreamState, startTime: number, plan: CountInPlan): Click {
+  if (state.pendingSubdivision !== null) {
+    state.subdivision = state.pendingSubdivision;
+    state.pendingSubdivision = null;
+  }
+
+  state.countInClicks = plan.beats.map((beat, countInIndex) => ({
+    type: 'countIn',
+    time: startTime + beat.offset,
+    countInIndex,
+    count: beat.count,
+    isDownbeat: beat.isDownbeat,
+  }));
+  const firstBeatClick: BeatClick = {
+    type: 'beat',
+    time: startTime + plan.duration,
+    beatNumber: 0,
+    barNumber: 0,
+    subdivisionIndex: 0,
+    subdivision: state.subdivision,
+    isDownbeat: true,
+    level: getClickLevel(state, 0, 0),
+    silentBar: false,
+    beatMuted: isRandomlyMuted(state.gapTrainer),
+  };
+  const layerStarts: Click[] = [];
+  startLayers(state, layerStarts, firstBeatClick.time);
+  firstBeatClick.pending = layerStarts;
+  state.firstBeatClick = firstBeatClick;
+  return state.countInClicks[0] || firstBeatClick;
+}
+
+// The click that follows 'previous' on the audio clock
+export function getNextClick(state: ClickStreamState, previous: Click): Click | null {
+  if (previous.type === 'countIn') {
+    return state.countInClicks[previous.countInIndex + 1] || state.firstBeatClick;
+  }
+
+  const upcoming = (previous.pending || []).slice();
+  if (previous.type === 'layer') {
+    const following = getNextLayerPulse(state, previous);
+    if (following) {
+      upcoming.push(following);
+    }
+  } else {
+    const following = getNextBeatClick(state, previous);
+    upcoming.push(following);
+    if (following.isDownbeat && following.beatNumber % state.meter.numerator === 0) {
+      startLayers(state, upcoming, following.time);
+    }
+  }
+  return takeEarliestClick(upcoming);
+}
+
+// Earliest of the upcoming clicks, carrying the rest; main beats sound
+// before layer pulses at the same time
+function takeEarliestClick(upcoming: Click[]): Click | null {
+  upcoming.sort((a, b) => (a.time - b.time) || ((a.type === 'layer' ? 1 : 0) - (b.type === 'layer' ? 1 : 0)));
+  const earliest = upcoming.shift();
+  return earliest ? { ...earliest, pending: upcoming } : null;
+}
+
+// Layers restart on each main downbeat: polyrhythms lay their pulses over
+// the coming bar, polymeters keep cycling and only start when not yet running
+function startLayers(state: ClickStreamState, upcoming: Click[], barTime: number): void {
+  const beatDuration = getBeatDuration(state);
+  state.layers.forEach(layer => {
+    const isLayerPulse = (click: Click) => click.type === 'layer' && click.layerId === layer.id;
+    if (layer.mode === 'polymeter') {
+      if (upcoming.some(isLayerPulse)) return;
+    } else {
+      // After a tempo change the last bar's pulses may run past this downbeat
+      const stale = upcoming.findIndex(click => isLayerPulse(click) && click.time >= barTime);
+      if (stale !== -1) {
+        upcoming.splice(stale, 1);
+      }
+    }
+    upcoming.push({
+      type: 'layer',
+      time: barTime,
+      layerId: layer.id,
+      mode: layer.mode,
+      pulses: layer.pulses,
+      pulseIndex: 0,
+      barTime,
+      pulseDuration: getLayerPulseDuration(layer, state.meter, beatDuration),
+      level: getLayerPulseLevel(layer, 0),
+    });
+  });
+}
+
+// Next pulse of a layer; null once a polyrhythm has filled its bar or the
+// layer was removed or changed mode
+function getNextLayerPulse(state: ClickStreamState, previous: LayerPulse): LayerPulse | null {
+  const layer = state.layers.find(candidate => candidate.id === previous.layerId);
+  if (!layer || layer.mode !== previous.mode) return null;
+
+  if (layer.mode === 'polymeter') {
+    // Follow tempo changes from pulse to pulse
+    const pulseDuration = getLayerPulseDuration(layer, state.meter, getBeatDuration(state));
+    const pulseIndex = (previous.pulseIndex + 1) % layer.pulses;
+    return {
+      ...previous,
+      time: previous.time + pulseDuration,
+      pulseIndex,
+      pulseDuration,
+      level: getLayerPulseLevel(layer, pulseIndex),
+      pending: undefined,
+    };
+  }
+
+  // Polyrhythm pulses are spaced from the bar start so they never drift
+  const pulseIndex = previous.pulseIndex + 1;
+  if (pulseIndex >= previous.pulses) return null;
+  return {
+    ...previous,
+    time: previous.barTime + previous.pulseDuration * pulseIndex,
+    pulseIndex,
+    level: getLayerPulseLevel(layer, pulseIndex),
+    pending: undefined,
+  };
+}
+
+// Main beat and subdivision click that follows 'previous'
+function getNextBeatClick(state: ClickStreamState, previous: BeatClick): BeatClick {
+  let beatNumber = previous.beatNumber;
+  let barNumber = previous.barNumber;
+  let subdivisionIndex = previous.subdivisionIndex + 1;
+  let clickSubdivision = previous.subdivision;
+
+  if (subdivisionIndex >= clickSubdivision) {
+    // Next click starts a new beat - pending subdivision changes land here
+    beatNumber++;
+    subdivisionIndex = 0;
+    if (beatNumber % state.meter.numerator === 0) {
+      barNumber++;
+    }
+    if (state.pendingSubdivision !== null) {
+      state.subdivision = state.pendingSubdivision;
+      state.pendingSubdivision = null;
+    }
+    clickSubdivision = state.subdivision;
+  }
+
+  // Swing moves clicks within their beat: step from where the previous
+  // click sat in its beat to where this one sits
+  const previousOffset = getSubdivisionOffset(previous.subdivisionIndex, previous.subdivision, state.swing);
+  const offset = subdivisionIndex === 0 ? 1 : getSubdivisionOffset(subdivisionIndex, clickSubdivision, state.swing);
+
+  return {
+    type: 'beat',
+    time: previous.time + getBeatDuration(state) * (offset - previousOffset),
+    beatNumber,
+    barNumber,
+    subdivisionIndex,
+    subdivision: clickSubdivision,
+    isDownbeat: subdivisionIndex === 0,
+    level: getClickLevel(state, beatNumber, subdivisionIndex),
+    // Gap trainer: whole bars drop out, and a muted beat silences its subdivisions too
+    silentBar: isSilentBar(state.gapTrainer, barNumber),
+    beatMuted: subdivisionIndex === 0 ? isRandomlyMuted(state.gapTrainer) : previous.beatMuted,
+  };
+}
@@ -0,0 +1,594 @@
+/**
+ * SoundSystem page
+ * The audio engine inside the invisible SoundSystem WebView. The metronome
+ * and show playback share one AudioContext, one click sound bank and one
+ * lookahead scheduler; starting either stops the other. Click tracks of
+ * shows are rendered offline with the same sounds. The app sends
+ * soundSystemMessage commands, and the page answers each one under its
+ * requestId with the response listed in COMMAND_ACKS, or an AUDIO_ERROR.
+ */
+
+import { Click, ClickStreamState, getNextClick, startClickStream } from './clickStream';
+import { createPageBridge } from '../shared/bridge';
+import { createAudioContext, getPageWindow } from '../shared/pageWindow';
+import {
+  AudioErrorPayload,
+  MetronomeStartPayload,
+  ShowLoadPayload,
+  ShowMeasureCompletedPayload,
+  ShowMeasurePayload,
+  ShowPausePayload,
+  ShowSettingsPayload,
+  ShowStartPayload,
+} from '../../types/MessageProtocol';
+import { playClickSound, playCountInSound, speakCountIn } from '../../utils/clickSounds';
+import { getCountInBeats, normalizeCountIn } from '../../utils/countIn';
+import { normalizeGapTrainer } from '../../utils/gapTrainer';
+import { createLookaheadScheduler, LookaheadScheduler, SCHEDULER_START_DELAY_SECONDS } from '../../utils/lookaheadScheduler';
+import { formatTimeSignature } from '../../utils/meterGrouping';
+import { normalizeLayer } from '../../utils/rhythmLayers';
+import { expandMeasures } from '../../utils/showMeasures';
+import { resolvePlaybackOrder } from '../../utils/showStructure';
+import {
+  buildShowTimeline,
+  getNextTimelineEvent,
+  getPlaybackPositions,
+  getPlaybackRange,
+  isHold,
+  resumeTimeline,
+  TimelineEvent,
+} from '../../utils/showTimeline';
+import { normalizeSwing, STRAIGHT_SWING } from '../../utils/swing';
+import { getRampTempo } from '../../utils/tempoCurve';
+import { EXPORT_TAIL_SECONDS, encodeWavBase64, getHoldExportDuration, WAV_SAMPLE_RATE } from '../../utils/wavExport';
+
+type PlaybackMode = 'metronome' | 'show';
+type ErrorMode = AudioErrorPayload['mode'];
+type BeatEvent = Extract<TimelineEvent, { type: 'beat' }>;
+type PauseEvent = Extract<TimelineEvent, { type: 'pause' }>;
+
+// What the shared scheduler asks of the mode that is playing
+interface Engine<E> {
+  getNextEvent(previous: E): E | null;
+  schedule(event: E): void;
+  handleUiEvent(event: E): void;
+}
+
+const bridge = createPageBridge('soundSystemResponse', 'soundSystemMessage');
+
+let audioContext: AudioContext | null = null;
+let currentSound = 'synth'; // Click sound of the metronome and shows
+let scheduler: LookaheadScheduler<Click | TimelineEvent> | null = null; // Lookahead scheduler shared by the engines
+let activeMode: PlaybackMode | null = null; // Mode that is playing
+let requestedMode: PlaybackMode | null = null; // Mode asked to start, until it is stopped
+
+function reportError(mode: ErrorMode, error: string, requestId?: string) {
+  console.error('SoundSystem:', error);
+  bridge.postToApp('AUDIO_ERROR', { error, mode }, requestId);
+}
+
+// Audio context, created once and shared by every mode
+function initAudioContext(mode: ErrorMode, requestId?: string): boolean {
+  if (audioContext && audioContext.state !== 'closed') return true;
+  try {
+    audioContext = createAudioContext();
+  } catch (e) {
+    audioContext = null;
+    reportError(mode, 'AudioContext not supported: ' + (e as Error).message, requestId);
+    return false;
+  }
+  if (!audioContext) {
+    reportError(mode, 'AudioContext not supported', requestId);
+    return false;
+  }
+  return true;
+}
+
+// Run 'start' once the audio clock runs; a context may start suspended
+// until the first user gesture. A stop before then cancels the start.
+function withRunningAudio(mode: PlaybackMode, requestId: string | undefined, start: (context: AudioContext) => void) {
+  if (!initAudioContext(mode, requestId)) {
+    requestedMode = null;
+    return;
+  }
+  const context = audioContext as AudioContext;
+  if (context.state === 'suspended') {
+    context.resume().then(() => {
+      if (requestedMode === mode && context === audioContext) {
+        start(context);
+      } else {
+        reportError(mode, 'Stopped before the audio started', requestId);
+      }
+    }).catch(e => {
+      requestedMode = null;
+      reportError(mode, 'Failed to resume audio context: ' + e.message, requestId);
+    });
+  } else {
+    start(context);
+  }
+}
+
+function suspendAudio() {
+  stopPlayback();
+  if (audioContext && audioContext.state !== 'closed') {
+    audioContext.close();
+  }
+  audioContext = null;
+}
+
+// The scheduler hands every event to the engine that is playing
+function getScheduler(): LookaheadScheduler<Click | TimelineEvent> {
+  if (!scheduler) {
+    const getEngine = (): Engine<Click | TimelineEvent> | null => activeMode ? engines[activeMode] : null;
+    scheduler = createLookaheadScheduler<Click | TimelineEvent>({
+      getAudioContext: () => audioContext,
+      getNextEvent: previous => getEngine()?.getNextEvent(previous) ?? null,
+      onSchedule: event => getEngine()?.schedule(event),
+      onUiEvent: event => getEngine()?.handleUiEvent(event),
+    });
+  }
+  return scheduler;
+}
+
+// Audio destination for clicks - the scheduler's bus while playing
+function getClickOutput(context: AudioContext): AudioNode {
+  const schedulerOutput = scheduler ? scheduler.getOutput() : null;
+  return schedulerOutput || context.destination;
+}
+
+// Stop the scheduler and silence any clicks already queued
+function haltScheduler() {
+  if (scheduler) {
+    scheduler.stop(audioContext && audioContext.state !== 'closed' ? audioContext.currentTime : undefined);
+  }
+}
+
+// Stop whichever mode is playing or about to start
+function stopPlayback() {
+  stopMetronome();
+  stopShowPlayback(false);
+}
+
+// ---- Metronome ----
+
+let countInSettings = normalizeCountIn({ enabled: false }); // Off until the app turns it on
+let scheduledBarSilent = false; // Whether the bar being scheduled is a silent bar, for layer pulses
+
+// Tempo, meter, accents, swing, layers and gaps the clicks are built from
+const stream: ClickStreamState = {
+  tempo: 120,
+  subdivision: 1,
+  pendingSubdivision: null, // New subdivision to apply on the next beat
+  swing: STRAIGHT_SWING,
+  meter: { numerator: 4, denominator: 4 },
+  accentPattern: null,
+  layers: [],
+  gapTrainer: normalizeGapTrainer({ enabled: false }),
+  countInClicks: [],
+  firstBeatClick: null,
+};
+
+// Queue the audio for a click at its exact time
+function scheduleClick(click: Click) {
+  if (!audioContext) return;
+  if (click.type === 'countIn') {
+    playCountInSound(audioContext, getClickOutput(audioContext), click.time, countInSettings.sound, click.isDownbeat);
+  } else if (click.type === 'layer') {
+    // Clicks are scheduled in time order, so the last main click tells the bar
+    const layer = stream.layers.find(candidate => candidate.id === click.layerId);
+    if (layer && !scheduledBarSilent) {
+      playClickSound(audioContext, getClickOutput(audioContext), layer.sound, click.level, click.time, layer.volume);
+    }
+  } else {
+    scheduledBarSilent = click.silentBar;
+    if (!click.silentBar && !click.beatMuted) {
+      playClickSound(audioContext, getClickOutput(audioContext), currentSound, click.level, click.time);
+    }
+  }
+}
+
+// Tell the app about each beat and layer pulse when it is heard
+function handleClickUiEvent(click: Click) {
+  if (click.type === 'countIn') {
+    if (countInSettings.spoken) {
+      speakCountIn(click.count);
+    }
+    return;
+  }
+
+  if (click.type === 'layer') {
+    bridge.postToApp('METRONOME_LAYER_PULSE', { layerId: click.layerId, pulseIndex: click.pulseIndex });
+    return;
+  }
+
+  // Subdivision clicks are heard but not reported
+  if (!click.isDownbeat) return;
+
+  const beatInBar = click.beatNumber % stream.meter.numerator;
+  bridge.postToApp('METRONOME_BEAT', {
+    beatNumber: beatInBar + 1,
+    totalBeats: stream.meter.numerator,
+    barNumber: click.barNumber,
+    isDownbeat: beatInBar === 0,
+    isSilent: click.silentBar || click.beatMuted,
+    bpm: stream.tempo,
+    timeSignature: stream.meter,
+  });
+}
+
+// Apply the settings present in 'settings'; the rest stay as they are
+function applyMetronomeSettings(settings: Partial<MetronomeStartPayload>) {
+  // Only a new tempo or meter retimes the stream; rescheduling for anything
+  // else would restart the bar and roll the random mutes again
+  let retime = false;
+  if (settings.bpm !== undefined && settings.bpm !== stream.tempo) {
+    stream.tempo = settings.bpm;
+    retime = true;
+  }
+  if (settings.timeSignature && formatTimeSignature(settings.timeSignature) !== formatTimeSignature(stream.meter)) {
+    stream.meter = settings.timeSignature;
+    retime = true;
+  }
+  if (settings.subdivision !== undefined) {
+    // Changes while playing wait for the next beat
+    if (activeMode === 'metronome') {
+      stream.pendingSubdivision = settings.subdivision;
+    } else {
+      stream.subdivision = settings.subdivision;
+    }
+  }
+  if (settings.soundType) {
+    currentSound = settings.soundType;
+  }
+  if ('accents' in settings) {
+    stream.accentPattern = settings.accents || null;
+  }
+  if (settings.swing !== undefined) {
+    stream.swing = normalizeSwing(settings.swing);
+  }
+  if (settings.layers) {
+    stream.layers = settings.layers.map(normalizeLayer);
+  }
+  if (settings.gapTrainer) {
+    stream.gapTrainer = normalizeGapTrainer(settings.gapTrainer);
+  }
+  if (settings.countIn) {
+    countInSettings = normalizeCountIn(settings.countIn);
+  }
+
+  // Retime the next unscheduled click on the audio clock
+  if (retime && activeMode === 'metronome') {
+    getScheduler().reschedule();
+  }
+}
+
+function startMetronome(settings: MetronomeStartPayload, requestId?: string) {
+  stopPlayback();
+  applyMetronomeSettings(settings);
+  requestedMode = 'metronome';
+  withRunningAudio('metronome', requestId, context => startMetronomeInternal(context, requestId));
+}
+
+function startMetronomeInternal(context: AudioContext, requestId?: string) {
+  activeMode = 'metronome';
+
+  // First click is queued just ahead of the audio clock, the rest follow from it.
+  // Count-in at the current tempo, following the current meter unless the count is fixed
+  const plan = getCountInBeats(countInSettings, {
+    timeSignature: stream.meter,
+    tempo: stream.tempo,
+  });
+  getScheduler().start(startClickStream(stream, context.currentTime + SCHEDULER_START_DELAY_SECONDS, plan));
+
+  bridge.postToApp('METRONOME_STARTED', { bpm: stream.tempo, timeSignature: stream.meter }, requestId);
+}
+
+function stopMetronome() {
+  if (requestedMode === 'metronome') {
+    requestedMode = null;
+  }
+  if (activeMode !== 'metronome') return;
+
+  activeMode = null;
+  haltScheduler();
+
+  // Apply any pending subdivision change when stopping
+  if (stream.pendingSubdivision !== null) {
+    stream.subdivision = stream.pendingSubdivision;
+    stream.pendingSubdivision = null;
+  }
+
+  bridge.postToApp('METRONOME_STOPPED', {});
+}
+
+// ---- Show ----
+
+let loadedShow: ShowLoadPayload | null = null;
+let showBars: ShowMeasurePayload[] = []; // Bars of the loaded show, grouped measures expanded
+let showTimeline: TimelineEvent[] = [];
+let heldEvent: PauseEvent | null = null; // Hold the show is waiting at
+let lastShowBeat: BeatEvent | null = null; // Last beat heard, for measure completion
+let measureReported = false; // Whether the measure of lastShowBeat was reported
+
+function loadShow(show: ShowLoadPayload, requestId?: string) {
+  loadedShow = show;
+  showBars = expandMeasures(show.measures || []);
+  bridge.postToApp('SHOW_LOADED', { showId: show.id, totalMeasures: showBars.length }, requestId);
+}
+
+function startShowPlayback(options: ShowStartPayload, requestId?: string) {
+  stopPlayback();
+  if (!loadedShow || showBars.length === 0) {
+    reportError('show', 'No show with measures is loaded', requestId);
+    return;
+  }
+  const show = loadedShow;
+  requestedMode = 'show';
+  withRunningAudio('show', requestId, context => startShowPlaybackInternal(context, show, options, requestId));
+}
+
+function startShowPlaybackInternal(context: AudioContext, show: ShowLoadPayload, options: ShowStartPayload, requestId?: string) {
+  // Unroll repeats and jumps into the order bars are played in
+  const positions = getPlaybackPositions(showBars, options);
+  const playbackOrder = resolvePlaybackOrder(showBars);
+  const range = getPlaybackRange(playbackOrder, positions.start, positions.end);
+  if (range.end <= range.start) {
+    requestedMode = null;
+    reportError('show', 'Nothing to play in the selected range', requestId);
+    return;
+  }
+
+  activeMode = 'show';
+  heldEvent = null;
+  lastShowBeat = null;
+  measureReported = false;
+
+  const startTime = context.currentTime + SCHEDULER_START_DELAY_SECONDS;
+  const countIn = normalizeCountIn(show.countIn);
+  showTimeline = buildShowTimeline(showBars, playbackOrder.slice(range.start, range.end), startTime, countIn, positions.start > 0);
+  getScheduler().start(showTimeline[0]);
+
+  bridge.postToApp('SHOW_STARTED', { showId: show.id, startMeasure: playbackOrder[range.start] + 1 }, requestId);
+}
+
+// Queue the audio for a timeline event at its exact time
+function scheduleShowEvent(event: TimelineEvent) {
+  if (!audioContext) return;
+  if (event.type === 'countOff') {
+    playCountInSound(audioContext, getClickOutput(audioContext), event.time, event.sound, event.isDownbeat);
+  } else if (event.type === 'beat' || event.type === 'subdivision') {
+    playClickSound(audioContext, getClickOutput(audioContext), currentSound, event.level, event.time);
+  }
+}
+
+// Report beats and completed measures when they are heard; a measure
+// completes at the next downbeat, or when the measure's pause starts
+function handleShowUiEvent(event: TimelineEvent) {
+  if (event.type === 'countOff') {
+    if (event.spoken) {
+      speakCountIn(event.count);
+    }
+    bridge.postToApp('SHOW_BEAT', {
+      measureNumber: 0,
+      beatIndex: event.count - 1,
+      beatsInMeasure: event.beatsPerBar,
+      isCountIn: true,
+      isSilent: false,
+      timeSignature: null,
+    });
+    return;
+  }
+
+  if (event.type === 'pause') {
+    if (isHold(event)) {
+      heldEvent = event;
+    }
+    const next = showTimeline.find((candidate): candidate is BeatEvent =>
+      candidate.index > event.index && candidate.type === 'beat');
+    reportMeasureCompleted(next || null, { type: event.pause.type, duration: event.duration });
+    return;
+  }
+
+  if (event.type === 'end') {
+    if (lastShowBeat && !measureReported) {
+      reportMeasureCompleted(null);
+    }
+    stopShowPlayback(true);
+    return;
+  }
+
+  if (event.type === 'beat') {
+    if (event.isDownbeat) {
+      if (lastShowBeat && !measureReported) {
+        reportMeasureCompleted(event);
+      }
+      measureReported = false;
+    }
+    lastShowBeat = event;
+    bridge.postToApp('SHOW_BEAT', {
+      measureNumber: event.measureIndex + 1,
+      beatIndex: event.beatIndex,
+      beatsInMeasure: event.beatsInMeasure,
+      isCountIn: false,
+      isSilent: event.level === 'mute',
+      timeSignature: event.measureData.timeSignature,
+    });
+  }
+}
+
+// 'next' is the first beat played after the measure, none at the end
+function reportMeasureCompleted(next: BeatEvent | null, pause?: ShowPausePayload) {
+  if (!lastShowBeat || !loadedShow) return;
+  const bar = lastShowBeat.measureData;
+  const endTempo = Math.round(getRampTempo(bar, 1));
+  const payload: ShowMeasureCompletedPayload = {
+    measureNumber: lastShowBeat.measureIndex + 1,
+    beatsPerMeasure: lastShowBeat.beatsInMeasure,
+    tempo: endTempo,
+    nextMeasureNumber: (next || lastShowBeat).measureIndex + 1,
+    nextTempo: next ? next.tempo : endTempo,
+    nextTimeSignature: (next ? next.measureData : bar).timeSignature,
+    showName: loadedShow.name,
+  };
+  if (pause) {
+    payload.pause = pause;
+  }
+  measureReported = true;
+  bridge.postToApp('SHOW_MEASURE_COMPLETED', payload);
+}
+
+// Play on after a hold: the rest of the timeline moves to start now
+function resumeShowHold() {
+  if (activeMode !== 'show' || !heldEvent || !audioContext) return;
+
+  const next = resumeTimeline(showTimeline, heldEvent, audioContext.currentTime + SCHEDULER_START_DELAY_SECONDS);
+  heldEvent = null;
+  if (next) {
+    getScheduler().start(next);
+  }
+}
+
+// 'completed' when the show played to its end
+function stopShowPlayback(completed: boolean) {
+  if (requestedMode === 'show') {
+    requestedMode = null;
+  }
+  if (activeMode !== 'show') return;
+
+  activeMode = null;
+  haltScheduler();
+  showTimeline = [];
+  heldEvent = null;
+  lastShowBeat = null;
+
+  bridge.postToApp('SHOW_STOPPED', { completed });
+}
+
+function updateShowSettings(settings: ShowSettingsPayload) {
+  if (loadedShow && settings.countIn) {
+    loadedShow.countIn = settings.countIn;
+  }
+}
+
+// Render a whole show, count-in included, to a WAV click track offline,
+// with the same timeline and sounds as playback. Spoken counts are not rendered.
+function renderShowWav(show: ShowLoadPayload, requestId?: string) {
+  const pageWindow = getPageWindow();
+  const OfflineContext = pageWindow.OfflineAudioContext || pageWindow.webkitOfflineAudioContext;
+  if (!OfflineContext) {
+    reportError('show', 'Offline audio rendering is not supported on this device', requestId);
+    return;
+  }
+  const bars = expandMeasures(show.measures || []);
+  if (bars.length === 0) {
+    reportError('show', 'The show has no measures to export', requestId);
+    return;
+  }
+
+  const playbackOrder = resolvePlaybackOrder(bars);
+  const timeline = buildShowTimeline(bars, playbackOrder, 0, normalizeCountIn(show.countIn), false);
+
+  // Holds wait for a cue when played live; the file gives them a few beats
+  let holdOffset = 0;
+  const events = timeline.map(event => {
+    const time = event.time + holdOffset;
+    if (event.type === 'pause' && isHold(event)) {
+      holdOffset += getHoldExportDuration(bars[event.measureIndex]);
+    }
+    return { event, time };
+  });
+
+  const duration = events[events.length - 1].time + EXPORT_TAIL_SECONDS;
+  const context = new OfflineContext(1, Math.ceil(duration * WAV_SAMPLE_RATE), WAV_SAMPLE_RATE);
+  events.forEach(({ event, time }) => {
+    if (event.type === 'countOff') {
+      playCountInSound(context, context.destination, time, event.sound, event.isDownbeat);
+    } else if (event.type === 'beat' || event.type === 'subdivision') {
+      playClickSound(context, context.destination, currentSound, event.level, time);
+    }
+  });
+
+  context.startRendering().then(buffer => {
+    bridge.postToApp('SHOW_WAV_RENDERED', {
+      showId: show.id,
+      duration,
+      data: encodeWavBase64(buffer.getChannelData(0), WAV_SAMPLE_RATE),
+    }, requestId);
+  }).catch(error => {
+    reportError('show', 'The click track could not be rendered: ' + error.message, requestId);
+  });
+}
+
+// Engines driven by the shared scheduler
+const engines: { metronome: Engine<Click>; show: Engine<TimelineEvent> } = {
+  metronome: {
+    getNextEvent: previous => getNextClick(stream, previous),
+    schedule: scheduleClick,
+    handleUiEvent: handleClickUiEvent,
+  },
+  show: {
+    getNextEvent: previous => getNextTimelineEvent(showTimeline, previous), // stops at a hold until resumeShowHold()
+    schedule: scheduleShowEvent,
+    handleUiEvent: handleShowUiEvent,
+  },
+};
+
+// Message handling; messages that fail their schema are reported
+// back as PROTOCOL_ERROR and dropped
+function handleMessage(event: Event) {
+  const message = bridge.readMessage((event as MessageEvent).data);
+  if (!message) return;
+  const requestId = message.requestId;
+
+  // Starts, loads and renders answer with their own response (or an
+  // AUDIO_ERROR); every other command with COMMAND_APPLIED
+  switch (message.type) {
+    case 'INIT_AUDIO':
+      if (initAudioContext('system', requestId) && audioContext) {
+        bridge.postToApp('AUDIO_INITIALIZED', { sampleRate: audioContext.sampleRate }, requestId);
+      }
+      return;
+    case 'START_METRONOME':
+      startMetronome(message.payload, requestId);
+      return;
+    case 'LOAD_SHOW':
+      loadShow(message.payload, requestId);
+      return;
+    case 'START_SHOW':
+      startShowPlayback(message.payload, requestId);
+      return;
+    case 'RENDER_SHOW_WAV':
+      renderShowWav(message.payload, requestId);
+      return;
+    case 'SUSPEND_AUDIO':
+      suspendAudio();
+      break;
+    case 'UPDATE_SOUND':
+      currentSound = message.payload.soundType;
+      break;
+    case 'UPDATE_THEME':
+      // Nothing on screen to theme
+      break;
+    case 'STOP_METRONOME':
+      stopMetronome();
+      break;
+    case 'UPDATE_METRONOME_SETTINGS':
+      applyMetronomeSettings(message.payload);
+      break;
+    case 'STOP_SHOW':
+      stopShowPlayback(false);
+      break;
+    case 'RESUME_SHOW':
+      resumeShowHold();
+      break;
+    case 'UPDATE_SHOW_SETTINGS':
+      updateShowSettings(message.payload);
+      break;
+  }
+  bridge.postToApp('COMMAND_APPLIED', { command: message.type }, requestId);
+}
+
+// React Native posts to window on iOS and to document on Android
+window.addEventListener('message', handleMessage);
+document.addEventListener('message', handleMessage);
+bridge.announceReady();
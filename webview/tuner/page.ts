@@ -0,0 +1,222 @@
+/**
+ * Tuner page
+ * The tuner UI inside WebViewTuner: the permission and loading screens, the
+ * cents needle and the detected note, frequency and cents. Pitch detection
+ * runs in the app, which pushes each reading through updateTunerData; the
+ * page answers with tunerViewResponse messages.
+ */
+
+import { createPageBridge } from '../shared/bridge';
+import { byId } from '../shared/dom';
+import { getPageWindow, PageWindow } from '../shared/pageWindow';
+
+// A reading as WebViewTuner sends it
+interface TunerData {
+  note: string | null;
+  freq: number | null;
+  cents: number | null;
+  error: string | null;
+  permission: 'unknown' | 'granted' | 'denied';
+}
+
+// Functions the app injects calls to
+interface TunerPageWindow extends PageWindow {
+  updateTunerData: (data: TunerData) => void;
+}
+
+const pageWindow = getPageWindow<TunerPageWindow>();
+const bridge = createPageBridge('tunerViewResponse');
+
+// Tuner data from React Native; the first reading arrives once the page is ready
+let tunerData: TunerData = { note: null, freq: null, cents: null, error: null, permission: 'unknown' };
+let lastDetectedNote: string | null = null;
+let lastDetectedCents: string | null = null;
+let lastDetectedFreq: string | null = null;
+let showDash = true;
+let timeoutRef: ReturnType<typeof setTimeout> | null = null;
+
+// Sharps shown with their flat spelling too (e.g. A♯ / B♭)
+const ENHARMONICS: Record<string, string> = {
+  'C#': 'D♭',
+  'D#': 'E♭',
+  'F#': 'G♭',
+  'G#': 'A♭',
+  'A#': 'B♭',
+};
+
+// Function to update tuner data from React Native
+function updateTunerData(newTunerData: TunerData) {
+  // Only log if there's an actual change in permission state
+  if (tunerData.permission !== newTunerData.permission) {
+    console.log('Permission state changed from', tunerData.permission, 'to', newTunerData.permission);
+  }
+  tunerData = newTunerData;
+  updateUI();
+}
+
+// Function to update the UI based on current state
+function updateUI() {
+  const loadingScreen = byId('loadingScreen');
+  const permissionScreen = byId('permissionScreen');
+  const tunerUI = byId('tunerUI');
+  const permissionError = byId('permissionError');
+  const permissionStatus = byId('permissionStatus');
+  const requestPermissionBtn = byId('requestPermissionBtn');
+
+  // Show appropriate screen based on permission state
+  if (tunerData.permission === 'unknown') {
+    loadingScreen.style.display = 'flex';
+    permissionScreen.style.display = 'none';
+    tunerUI.style.display = 'none';
+    return;
+  } else if (tunerData.permission !== 'granted') {
+    loadingScreen.style.display = 'none';
+    permissionScreen.style.display = 'flex';
+    tunerUI.style.display = 'none';
+
+    // Show error if present
+    if (tunerData.error) {
+      permissionError.textContent = tunerData.error;
+      permissionError.style.display = 'block';
+    } else {
+      permissionError.style.display = 'none';
+    }
+
+    // Show appropriate status message
+    if (tunerData.permission === 'denied') {
+      permissionStatus.textContent = 'Permission denied. Please enable microphone access in your device settings.';
+      permissionStatus.style.display = 'block';
+      requestPermissionBtn.style.display = 'none';
+    } else {
+      permissionStatus.textContent = 'Microphone access is currently denied or not granted.';
+      permissionStatus.style.display = 'block';
+      requestPermissionBtn.style.display = 'block';
+    }
+    return;
+  } else {
+    loadingScreen.style.display = 'none';
+    permissionScreen.style.display = 'none';
+    tunerUI.style.display = 'flex';
+  }
+
+  // Update tuner UI
+  updateTunerDisplay();
+}
+
+// Cents with their sign, e.g. '+5' or '-12'
+function formatCents(cents: number): string {
+  return cents > 0 ? `+${cents}` : `${cents}`;
+}
+
+// Function to update tuner display
+function updateTunerDisplay() {
+  const needleBar = byId('needleBar');
+  const noteLabel = byId('noteLabel');
+  const freqLabel = byId('freqLabel');
+  const centsLabel = byId('centsLabel');
+
+  const detected = tunerData.note !== null && tunerData.freq !== null && tunerData.cents !== null && !tunerData.error;
+
+  // Handle note label display logic
+  if (detected && tunerData.note) {
+    lastDetectedNote = tunerData.note;
+    lastDetectedCents = tunerData.cents !== null ? formatCents(tunerData.cents) : null;
+    lastDetectedFreq = tunerData.freq !== null ? `${tunerData.freq.toFixed(1)} Hz` : null;
+    showDash = false;
+    if (timeoutRef) {
+      clearTimeout(timeoutRef);
+      timeoutRef = null;
+    }
+  } else if (lastDetectedNote) {
+    // If we previously detected a note but now don't, start a 5s timer
+    if (!timeoutRef) {
+      timeoutRef = setTimeout(() => {
+        showDash = true;
+        timeoutRef = null;
+        updateTunerDisplay();
+      }, 5000);
+    }
+  } else {
+    showDash = true;
+  }
+
+  // Derive display string with enharmonic (e.g. A♯ / B♭)
+  let noteDisplay = '—';
+  let noteToShow: string | null = null;
+  if (!showDash && lastDetectedNote) {
+    noteToShow = lastDetectedNote;
+  } else if (detected && tunerData.note) {
+    noteToShow = tunerData.note;
+  }
+  if (noteToShow) {
+    const base = noteToShow.slice(0, -1).replace('♯', '#');
+    const sharpDisplay = base.replace('#', '♯');
+    const enh = ENHARMONICS[base];
+    noteDisplay = enh ? `${sharpDisplay} / ${enh}` : sharpDisplay;
+  }
+
+  // Update note label
+  noteLabel.textContent = noteDisplay;
+
+  // Update needle bar
+  let needleRotation = 0;
+  let needleClass = 'inactive';
+
+  if (!showDash) {
+    // Use last detected or current detected value
+    if (tunerData.cents !== null && tunerData.cents !== undefined) {
+      needleRotation = Math.max(-30, Math.min(30, tunerData.cents));
+    } else if (lastDetectedCents) {
+      // Parse the string value (e.g. '+5' or '-12')
+      const parsed = parseInt(lastDetectedCents, 10);
+      if (!isNaN(parsed)) needleRotation = Math.max(-30, Math.min(30, parsed));
+    }
+
+    const isInTune = detected && Math.abs(tunerData.cents ?? 999) <= 5;
+    if (isInTune) {
+      needleClass = 'in-tune';
+      noteLabel.className = 'note-label in-tune';
+    } else {
+      needleClass = needleRotation > 0 ? 'sharp' : 'flat';
+      noteLabel.className = 'note-label';
+    }
+  } else {
+    needleClass = 'inactive';
+    noteLabel.className = 'note-label inactive';
+  }
+
+  // Apply needle rotation and class
+  needleBar.style.transform = `rotate(${needleRotation}deg)`;
+  needleBar.className = `needle-bar ${needleClass}`;
+
+  // Update frequency and cents display
+  const freq = (!showDash && lastDetectedFreq)
+    ? lastDetectedFreq
+    : (detected && tunerData.freq !== null ? `${tunerData.freq.toFixed(1)} Hz` : '—');
+  const cents = (!showDash && lastDetectedCents)
+    ? lastDetectedCents
+    : (detected && tunerData.cents !== null ? formatCents(tunerData.cents) : '—');
+
+  freqLabel.textContent = freq;
+  centsLabel.textContent = cents !== '—' ? `${cents}¢` : '—';
+}
+
+// Event listeners
+byId('requestPermissionBtn').addEventListener('click', () => {
+  bridge.postToApp('REQUEST_PERMISSION', {});
+});
+
+byId('refreshPermissionBtn').addEventListener('click', () => {
+  bridge.postToApp('REFRESH_PERMISSION', {});
+});
+
+byId('settingsButton').addEventListener('click', () => {
+  bridge.postToApp('OPEN_SETTINGS', {});
+});
+
+// Initialize
+updateUI();
+
+// Expose functions to React Native
+pageWindow.updateTunerData = updateTunerData;
+bridge.announceReady();